@@ -88,8 +88,11 @@ import {
   CircleAlert,
   XCircle,
   Link,
+  History,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import DataSourceConfigHistory from "@/components/DataSourceConfigHistory";
+import EmailLedgerPanel from "@/components/EmailLedgerPanel";
 
 // ============================================================
 // TYPES
@@ -184,6 +187,49 @@ interface DataSource {
   sourceType?: string;
 }
 
+type SafetyNetAction = "off" | "warn" | "block" | "hold";
+
+interface SafetyNetCheck {
+  action: SafetyNetAction;
+  percent?: number;
+  itemPercent?: number;
+  days?: number;
+}
+
+// Mirrors DEFAULT_SAFETY_NET_POLICIES on the server (safetyNetPolicies.ts)
+const SAFETY_NET_CHECKS: Array<{
+  key: string;
+  label: string;
+  fields: Array<{ field: "percent" | "itemPercent" | "days"; label: string }>;
+  defaults: SafetyNetCheck;
+}> = [
+  { key: "countDrop", label: "Item count drops", fields: [{ field: "percent", label: "Drop %" }], defaults: { action: "block", percent: 50 } },
+  { key: "countJump", label: "Item count jumps", fields: [{ field: "percent", label: "Jump %" }], defaults: { action: "warn", percent: 100 } },
+  { key: "styleDisappearance", label: "Styles disappear", fields: [{ field: "percent", label: "Missing %" }], defaults: { action: "warn", percent: 30 } },
+  { key: "priceChange", label: "Mass price change", fields: [{ field: "percent", label: "Change %" }, { field: "itemPercent", label: "Of items %" }], defaults: { action: "warn", percent: 20, itemPercent: 50 } },
+  { key: "shipDateShift", label: "Ship dates shift", fields: [{ field: "days", label: "Days" }, { field: "itemPercent", label: "Of items %" }], defaults: { action: "warn", days: 7, itemPercent: 60 } },
+  { key: "distinctColors", label: "Too few colors", fields: [{ field: "percent", label: "Min % kept" }], defaults: { action: "warn", percent: 50 } },
+  { key: "distinctSizes", label: "Too few sizes", fields: [{ field: "percent", label: "Min % kept" }], defaults: { action: "warn", percent: 50 } },
+];
+
+function buildSafetyNetPolicies(
+  saved: Record<string, SafetyNetCheck> | undefined,
+  legacyThreshold?: number | null,
+): Record<string, SafetyNetCheck> {
+  const policies: Record<string, SafetyNetCheck> = {};
+  for (const check of SAFETY_NET_CHECKS) {
+    policies[check.key] = { ...check.defaults, ...(saved?.[check.key] || {}) };
+  }
+  // Older data sources only have the single drop-percentage threshold
+  if (!saved?.countDrop && legacyThreshold != null) {
+    policies.countDrop =
+      legacyThreshold <= 0
+        ? { ...policies.countDrop, action: "off" }
+        : { ...policies.countDrop, percent: legacyThreshold };
+  }
+  return policies;
+}
+
 interface AIDataSourceDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -240,6 +286,14 @@ export default function AIDataSourceDialog({
     "manual",
   );
   const [sourceUrl, setSourceUrl] = useState("");
+  // URL auth / headers (share links, SFTP/FTP, protected feeds)
+  const [urlAuthType, setUrlAuthType] = useState<"none" | "basic" | "bearer">(
+    "none",
+  );
+  const [urlUsername, setUrlUsername] = useState("");
+  const [urlPassword, setUrlPassword] = useState("");
+  const [urlToken, setUrlToken] = useState("");
+  const [urlHeaders, setUrlHeaders] = useState("");
   const [sourceActive, setSourceActive] = useState(true);
   const [updateStrategy, setUpdateStrategy] = useState<"replace" | "full_sync">(
     "full_sync",
@@ -254,6 +308,15 @@ export default function AIDataSourceDialog({
   const [emailSecure, setEmailSecure] = useState(true);
   const [emailUsername, setEmailUsername] = useState("");
   const [emailPassword, setEmailPassword] = useState("");
+  const [emailProvider, setEmailProvider] = useState<"imap" | "graph">("imap");
+  const [emailAuthType, setEmailAuthType] = useState<"password" | "oauth2">(
+    "password",
+  );
+  const [emailOAuthTokenUrl, setEmailOAuthTokenUrl] = useState("");
+  const [emailOAuthClientId, setEmailOAuthClientId] = useState("");
+  const [emailOAuthClientSecret, setEmailOAuthClientSecret] = useState("");
+  const [emailOAuthRefreshToken, setEmailOAuthRefreshToken] = useState("");
+  const [emailOAuthScope, setEmailOAuthScope] = useState("");
   const [emailFolder, setEmailFolder] = useState("INBOX");
   const [emailSenderWhitelist, setEmailSenderWhitelist] = useState("");
   const [emailSubjectFilter, setEmailSubjectFilter] = useState("");
@@ -263,6 +326,12 @@ export default function AIDataSourceDialog({
   const [emailExtractLinksFromBody, setEmailExtractLinksFromBody] =
     useState(false);
   const [emailMultiFileMode, setEmailMultiFileMode] = useState(false);
+  const [emailArchiveIncludePattern, setEmailArchiveIncludePattern] =
+    useState("");
+  const [emailInboundEnabled, setEmailInboundEnabled] = useState(false);
+  const [emailInboundAlias, setEmailInboundAlias] = useState("");
+  // Recipient tag that routes unauthenticated pushed mail to this source
+  const [emailInboundToken, setEmailInboundToken] = useState("");
   const [emailExpectedFiles, setEmailExpectedFiles] = useState(2);
 
   // Email fetch testing
@@ -500,6 +569,9 @@ export default function AIDataSourceDialog({
   const [validationEnabled, setValidationEnabled] = useState(true);
   const [minRowCount, setMinRowCount] = useState<number | undefined>(undefined);
   const [rowCountTolerance, setRowCountTolerance] = useState(50);
+  const [safetyNetPolicies, setSafetyNetPolicies] = useState<
+    Record<string, SafetyNetCheck>
+  >(() => buildSafetyNetPolicies(undefined));
 
   // ============================================================
   // STATE - Post-Import Validation Config
@@ -615,6 +687,13 @@ export default function AIDataSourceDialog({
     setEmailSecure(true);
     setEmailUsername("");
     setEmailPassword("");
+    setEmailProvider("imap");
+    setEmailAuthType("password");
+    setEmailOAuthTokenUrl("");
+    setEmailOAuthClientId("");
+    setEmailOAuthClientSecret("");
+    setEmailOAuthRefreshToken("");
+    setEmailOAuthScope("");
     setEmailFolder("INBOX");
     setEmailSenderWhitelist("");
     setEmailSubjectFilter("");
@@ -622,6 +701,8 @@ export default function AIDataSourceDialog({
     setEmailDeleteAfterDownload(false);
     setEmailMultiFileMode(false);
     setEmailExpectedFiles(2);
+    setEmailInboundEnabled(false);
+    setEmailInboundAlias("");
     setRetryIfNoEmail(false);
     setRetryIntervalMinutes(60);
     setRetryCutoffHour(18);
@@ -835,6 +916,12 @@ export default function AIDataSourceDialog({
       const vic = dataSourceToUse.importValidationConfig || {};
       setValidationEnabled(vic.enabled !== false);
       setMinRowCount(vic.minRowCount);
+      setSafetyNetPolicies(
+        buildSafetyNetPolicies(
+          dataSourceToUse.safetyNetPolicies,
+          dataSourceToUse.safetyThreshold,
+        ),
+      );
 
       // Post-Import Validation Config
       const pvc = dataSourceToUse.validationConfig || {};
@@ -906,17 +993,30 @@ export default function AIDataSourceDialog({
       // Email settings - check if emailSettings.host exists (not sourceType which is inventory/sales)
       const es = dataSourceToUse.emailSettings || {};
       if (es.host) {
-        setEmailHost(es.host || "imap.gmail.com");
+        setEmailProvider(es.provider === "graph" ? "graph" : "imap");
+        if (es.provider !== "graph") {
+          setEmailHost(es.host || "imap.gmail.com");
+        }
         setEmailPort(es.port || 993);
         setEmailSecure(es.secure !== false);
         setEmailUsername(es.username || "");
         setEmailPassword(es.password || "");
+        setEmailAuthType(es.authType === "oauth2" ? "oauth2" : "password");
+        setEmailOAuthTokenUrl(es.oauth?.tokenUrl || "");
+        setEmailOAuthClientId(es.oauth?.clientId || "");
+        setEmailOAuthClientSecret(es.oauth?.clientSecret || "");
+        setEmailOAuthRefreshToken(es.oauth?.refreshToken || "");
+        setEmailOAuthScope(es.oauth?.scope || "");
         setEmailFolder(es.folder || "INBOX");
         setEmailSenderWhitelist((es.senderWhitelist || []).join(", "));
         setEmailSubjectFilter(es.subjectFilter || "");
         setEmailMarkAsRead(es.markAsRead !== false);
         setEmailDeleteAfterDownload(es.deleteAfterDownload || false);
         setEmailExtractLinksFromBody(es.extractLinksFromBody || false);
+        setEmailArchiveIncludePattern(es.archiveIncludePattern || "");
+        setEmailInboundEnabled(es.inboundEnabled || false);
+        setEmailInboundAlias(es.inboundAlias || "");
+        setEmailInboundToken(es.inboundToken || "");
         setEmailMultiFileMode(
           es.multiFileMode ||
             (dataSourceToUse as any).ingestionMode === "multi" ||
@@ -932,11 +1032,67 @@ export default function AIDataSourceDialog({
 
       // URL settings
       if (dataSourceToUse.connectionDetails?.url) {
-        setSourceUrl(dataSourceToUse.connectionDetails.url);
+        const details = dataSourceToUse.connectionDetails;
+        setSourceUrl(details.url);
+        setUrlAuthType(details.auth?.type || "none");
+        setUrlUsername(details.auth?.username || "");
+        setUrlPassword(details.auth?.password || "");
+        setUrlToken(details.auth?.token || "");
+        setUrlHeaders(
+          Object.entries(details.headers || {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join("\n"),
+        );
       }
     }
   }, [dataSourceToUse]);
 
+  // connectionDetails for URL sources: URL plus optional auth and headers
+  const buildUrlConnectionDetails = () => {
+    const headers: Record<string, string> = {};
+    for (const line of urlHeaders.split("\n")) {
+      const idx = line.indexOf(":");
+      if (idx > 0) {
+        headers[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+      }
+    }
+    return {
+      url: sourceUrl,
+      auth:
+        urlAuthType === "none"
+          ? undefined
+          : {
+              type: urlAuthType,
+              username: urlUsername || undefined,
+              password: urlPassword || undefined,
+              token: urlToken || undefined,
+            },
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+    };
+  };
+
+  // Connection part of emailSettings: IMAP or Graph, password or OAuth2
+  const emailUsesOAuth = emailProvider === "graph" || emailAuthType === "oauth2";
+  const buildEmailConnectionSettings = () => ({
+    provider: emailProvider,
+    authType: emailUsesOAuth ? "oauth2" : "password",
+    // Graph sources keep a host so they still read as email sources
+    host: emailProvider === "graph" ? "graph.microsoft.com" : emailHost,
+    port: emailPort,
+    secure: emailSecure,
+    username: emailUsername,
+    password: emailPassword,
+    oauth: emailUsesOAuth
+      ? {
+          tokenUrl: emailOAuthTokenUrl,
+          clientId: emailOAuthClientId,
+          clientSecret: emailOAuthClientSecret || undefined,
+          refreshToken: emailOAuthRefreshToken || undefined,
+          scope: emailOAuthScope || undefined,
+        }
+      : undefined,
+  });
+
   // Create mutation
   const createDataSourceMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -966,9 +1122,14 @@ export default function AIDataSourceDialog({
     setTestStatus("testing");
     try {
       if (sourceType === "url") {
-        const response = await apiRequest("POST", "/api/test-url-connection", {
-          url: sourceUrl,
-        });
+        const response = await apiRequest(
+          "POST",
+          "/api/test-url-connection",
+          {
+            ...buildUrlConnectionDetails(),
+            dataSourceId: createdDataSourceId || existingDataSource?.id,
+          },
+        );
         const result = await response.json();
         setTestStatus(result.success ? "success" : "error");
       } else if (sourceType === "email") {
@@ -976,12 +1137,9 @@ export default function AIDataSourceDialog({
           "POST",
           "/api/test-email-connection",
           {
-            host: emailHost,
-            port: emailPort,
-            secure: emailSecure,
-            username: emailUsername,
-            password: emailPassword,
+            ...buildEmailConnectionSettings(),
             folder: emailFolder,
+            dataSourceId: createdDataSourceId || existingDataSource?.id,
           },
         );
         const result = await response.json();
@@ -1007,7 +1165,23 @@ export default function AIDataSourceDialog({
         `/api/data-sources/${dataSourceId}/fetch-email`,
         clearHashBeforeFetch ? { clearHash: true } : {},
       );
-      const result = await response.json();
+      let result = await response.json();
+      // The route queues an import job (202); poll it until it ends
+      while (result.queued && result.jobId) {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        const job = await (
+          await apiRequest("GET", `/api/import-jobs/${result.jobId}`)
+        ).json();
+        if (job.status === "completed") {
+          result = { success: true, ...job.result?.details };
+        } else if (job.status === "failed" || job.status === "cancelled") {
+          result = {
+            success: false,
+            error: job.result?.error || job.error,
+            logs: job.result?.details?.logs,
+          };
+        }
+      }
       setEmailFetchResult(result);
       if (result.success) {
         setEmailFetchStatus("success");
@@ -1327,7 +1501,8 @@ export default function AIDataSourceDialog({
 
         // Connection type and details - BUG FIX: Was missing from update payload
         type: sourceType,
-        connectionDetails: sourceType === "url" ? { url: sourceUrl } : null,
+        connectionDetails:
+          sourceType === "url" ? buildUrlConnectionDetails() : null,
 
         // Format Type - needed for parser selection
         formatType: detectionResult?.formatType || "row",
@@ -1391,6 +1566,7 @@ export default function AIDataSourceDialog({
           minRowCount,
           rowCountTolerance,
         },
+        safetyNetPolicies,
 
         // Post-Import Validation Config (Enhanced)
         validationConfig: {
@@ -1557,11 +1733,7 @@ export default function AIDataSourceDialog({
 
       if (sourceType === "email") {
         updatePayload.emailSettings = {
-          host: emailHost,
-          port: emailPort,
-          secure: emailSecure,
-          username: emailUsername,
-          password: emailPassword,
+          ...buildEmailConnectionSettings(),
           folder: emailFolder,
           senderWhitelist: emailSenderWhitelist
             .split(",")
@@ -1571,6 +1743,10 @@ export default function AIDataSourceDialog({
           markAsRead: emailMarkAsRead,
           deleteAfterDownload: emailDeleteAfterDownload,
           extractLinksFromBody: emailExtractLinksFromBody,
+          archiveIncludePattern: emailArchiveIncludePattern || undefined,
+          inboundEnabled: emailInboundEnabled,
+          inboundAlias: emailInboundAlias.trim() || undefined,
+          inboundToken: emailInboundToken || undefined,
           multiFileMode: emailMultiFileMode,
           expectedFiles: emailExpectedFiles,
         };
@@ -1646,8 +1822,12 @@ export default function AIDataSourceDialog({
             const error = await response.json();
             if (error.safetyBlock) {
               toast({
-                title: "⚠️ SAFETY NET: Blocked",
-                description: error.message,
+                title: error.safetyHold
+                  ? "⚠️ SAFETY NET: Held for approval"
+                  : "⚠️ SAFETY NET: Blocked",
+                description: error.safetyReviewId
+                  ? `${error.message || error.error} Review it under Inventory → Safety Net.`
+                  : error.message,
                 variant: "destructive",
               });
               return;
@@ -1832,12 +2012,14 @@ export default function AIDataSourceDialog({
       sourceType: isSaleFile ? "sales" : "inventory",
       assignedSaleDataSourceId: linkedSaleDataSourceId || null,
       shopifyStoreId: linkedShopifyStoreId || null,
-      connectionDetails: sourceType === "url" ? { url: sourceUrl } : null,
+      connectionDetails:
+        sourceType === "url" ? buildUrlConnectionDetails() : null,
       importValidationConfig: {
         enabled: validationEnabled,
         minRowCount,
         rowCountTolerance,
       },
+      safetyNetPolicies,
       // Post-import validation config (Enhanced)
       validationConfig: {
         enabled: postValidationEnabled,
@@ -2008,11 +2190,7 @@ export default function AIDataSourceDialog({
     };
     if (sourceType === "email") {
       payload.emailSettings = {
-        host: emailHost,
-        port: emailPort,
-        secure: emailSecure,
-        username: emailUsername,
-        password: emailPassword,
+        ...buildEmailConnectionSettings(),
         folder: emailFolder,
         senderWhitelist: emailSenderWhitelist
           .split(",")
@@ -2022,6 +2200,10 @@ export default function AIDataSourceDialog({
         markAsRead: emailMarkAsRead,
         deleteAfterDownload: emailDeleteAfterDownload,
         extractLinksFromBody: emailExtractLinksFromBody,
+        archiveIncludePattern: emailArchiveIncludePattern || undefined,
+        inboundEnabled: emailInboundEnabled,
+        inboundAlias: emailInboundAlias.trim() || undefined,
+        inboundToken: emailInboundToken || undefined,
         multiFileMode: emailMultiFileMode,
         expectedFiles: emailExpectedFiles,
       };
@@ -2082,7 +2264,7 @@ export default function AIDataSourceDialog({
           onValueChange={setActiveTab}
           className="w-full mt-4"
         >
-          <TabsList className="w-full grid grid-cols-6">
+          <TabsList className="w-full grid grid-cols-7">
             <TabsTrigger value="connection">
               <Settings className="h-4 w-4 mr-1" />
               Connection
@@ -2119,6 +2301,13 @@ export default function AIDataSourceDialog({
               <Database className="h-4 w-4 mr-1" />
               Import
             </TabsTrigger>
+            <TabsTrigger
+              value="history"
+              disabled={!createdDataSourceId && !existingDataSource}
+            >
+              <History className="h-4 w-4 mr-1" />
+              History
+            </TabsTrigger>
           </TabsList>
 
           <div className="py-4 space-y-4 max-h-[calc(95vh-200px)] overflow-y-auto">
@@ -2204,6 +2393,71 @@ export default function AIDataSourceDialog({
                       Test
                     </Button>
                   </div>
+                  <p className="text-xs text-muted-foreground">
+                    Direct .csv / .xlsx links, Google Sheets, Dropbox and
+                    OneDrive share links, or sftp:// and ftp:// paths
+                  </p>
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label>Authentication</Label>
+                      <Select
+                        value={urlAuthType}
+                        onValueChange={(v: any) => setUrlAuthType(v)}
+                      >
+                        <SelectTrigger data-testid="select-url-auth">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="basic">
+                            Username / password
+                          </SelectItem>
+                          <SelectItem value="bearer">Bearer token</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {urlAuthType === "basic" && (
+                      <>
+                        <div className="space-y-2">
+                          <Label>Username</Label>
+                          <Input
+                            value={urlUsername}
+                            onChange={(e) => setUrlUsername(e.target.value)}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Password</Label>
+                          <Input
+                            type="password"
+                            placeholder="or env:SECRET_NAME"
+                            value={urlPassword}
+                            onChange={(e) => setUrlPassword(e.target.value)}
+                          />
+                        </div>
+                      </>
+                    )}
+                    {urlAuthType === "bearer" && (
+                      <div className="space-y-2 md:col-span-2">
+                        <Label>Token</Label>
+                        <Input
+                          type="password"
+                          placeholder="or env:SECRET_NAME"
+                          value={urlToken}
+                          onChange={(e) => setUrlToken(e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Custom Headers</Label>
+                    <Textarea
+                      placeholder="X-Api-Key: abc123"
+                      value={urlHeaders}
+                      onChange={(e) => setUrlHeaders(e.target.value)}
+                      rows={2}
+                      className="font-mono text-xs"
+                    />
+                  </div>
                 </div>
               )}
 
@@ -2212,7 +2466,8 @@ export default function AIDataSourceDialog({
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2 font-medium">
                       <Mail className="h-4 w-4" />
-                      Email (IMAP)
+                      Email (
+                      {emailProvider === "graph" ? "Microsoft Graph" : "IMAP"})
                     </div>
                     <Button
                       variant="secondary"
@@ -2230,49 +2485,161 @@ export default function AIDataSourceDialog({
                       Test
                     </Button>
                   </div>
-                  <div className="grid gap-4 md:grid-cols-3">
-                    <div className="space-y-2">
-                      <Label>Host</Label>
-                      <Input
-                        value={emailHost}
-                        onChange={(e) => setEmailHost(e.target.value)}
-                      />
-                    </div>
+                  <div className="grid gap-4 md:grid-cols-2">
                     <div className="space-y-2">
-                      <Label>Port</Label>
-                      <Input
-                        type="number"
-                        value={emailPort}
-                        onChange={(e) =>
-                          setEmailPort(parseInt(e.target.value) || 993)
-                        }
-                      />
-                    </div>
-                    <div className="flex items-center space-x-2 pt-6">
-                      <Switch
-                        checked={emailSecure}
-                        onCheckedChange={setEmailSecure}
-                      />
-                      <Label>SSL</Label>
+                      <Label>Mail Provider</Label>
+                      <Select
+                        value={emailProvider}
+                        onValueChange={(v: any) => setEmailProvider(v)}
+                      >
+                        <SelectTrigger data-testid="select-email-provider">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="imap">IMAP</SelectItem>
+                          <SelectItem value="graph">
+                            Microsoft 365 (Graph API)
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
+                    {emailProvider === "imap" && (
+                      <div className="space-y-2">
+                        <Label>Authentication</Label>
+                        <Select
+                          value={emailAuthType}
+                          onValueChange={(v: any) => setEmailAuthType(v)}
+                        >
+                          <SelectTrigger data-testid="select-email-auth">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="password">
+                              Username / password
+                            </SelectItem>
+                            <SelectItem value="oauth2">
+                              OAuth2 (XOAUTH2)
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
+                  {emailProvider === "imap" && (
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label>Host</Label>
+                        <Input
+                          value={emailHost}
+                          onChange={(e) => setEmailHost(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Port</Label>
+                        <Input
+                          type="number"
+                          value={emailPort}
+                          onChange={(e) =>
+                            setEmailPort(parseInt(e.target.value) || 993)
+                          }
+                        />
+                      </div>
+                      <div className="flex items-center space-x-2 pt-6">
+                        <Switch
+                          checked={emailSecure}
+                          onCheckedChange={setEmailSecure}
+                        />
+                        <Label>SSL</Label>
+                      </div>
+                    </div>
+                  )}
                   <div className="grid gap-4 md:grid-cols-2">
                     <div className="space-y-2">
-                      <Label>Username</Label>
+                      <Label>
+                        {emailProvider === "graph" ? "Mailbox" : "Username"}
+                      </Label>
                       <Input
                         value={emailUsername}
                         onChange={(e) => setEmailUsername(e.target.value)}
+                        placeholder={
+                          emailProvider === "graph" ? "orders@company.com" : ""
+                        }
                       />
                     </div>
-                    <div className="space-y-2">
-                      <Label>Password</Label>
-                      <Input
-                        type="password"
-                        value={emailPassword}
-                        onChange={(e) => setEmailPassword(e.target.value)}
-                      />
-                    </div>
+                    {!emailUsesOAuth && (
+                      <div className="space-y-2">
+                        <Label>Password</Label>
+                        <Input
+                          type="password"
+                          value={emailPassword}
+                          onChange={(e) => setEmailPassword(e.target.value)}
+                        />
+                      </div>
+                    )}
                   </div>
+                  {emailUsesOAuth && (
+                    <div className="space-y-4 border rounded-md p-3">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label>Token URL</Label>
+                          <Input
+                            value={emailOAuthTokenUrl}
+                            onChange={(e) =>
+                              setEmailOAuthTokenUrl(e.target.value)
+                            }
+                            placeholder="https://login.microsoftonline.com/<tenant>/oauth2/v2.0/token"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Client ID</Label>
+                          <Input
+                            value={emailOAuthClientId}
+                            onChange={(e) =>
+                              setEmailOAuthClientId(e.target.value)
+                            }
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Client Secret</Label>
+                          <Input
+                            type="password"
+                            value={emailOAuthClientSecret}
+                            onChange={(e) =>
+                              setEmailOAuthClientSecret(e.target.value)
+                            }
+                            placeholder="or env:SECRET_NAME"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Refresh Token</Label>
+                          <Input
+                            type="password"
+                            value={emailOAuthRefreshToken}
+                            onChange={(e) =>
+                              setEmailOAuthRefreshToken(e.target.value)
+                            }
+                            placeholder="Empty for app-only (client credentials)"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Scope</Label>
+                        <Input
+                          value={emailOAuthScope}
+                          onChange={(e) => setEmailOAuthScope(e.target.value)}
+                          placeholder={
+                            emailProvider === "graph"
+                              ? "https://graph.microsoft.com/.default"
+                              : "https://outlook.office.com/IMAP.AccessAsUser.All offline_access"
+                          }
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Tokens are refreshed automatically; a rotated refresh
+                        token is kept with the data source
+                      </p>
+                    </div>
+                  )}
                   <div className="grid gap-4 md:grid-cols-2">
                     <div className="space-y-2">
                       <Label>Folder</Label>
@@ -2393,6 +2760,67 @@ export default function AIDataSourceDialog({
                         instead of attachments.
                       </p>
                     )}
+                    <div className="space-y-1 mb-3">
+                      <Label className="flex items-center gap-2">
+                        <Files className="h-4 w-4" />
+                        Files to import from .zip attachments
+                      </Label>
+                      <Input
+                        placeholder="All supported files (e.g. Inventory*.xlsx, *.csv)"
+                        value={emailArchiveIncludePattern}
+                        onChange={(e) =>
+                          setEmailArchiveIncludePattern(e.target.value)
+                        }
+                        data-testid="input-archive-include-pattern"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Attachments can be .xlsx, .xls, .xlsb, .ods, .csv,
+                        tab-delimited .txt or .zip. Skipped parts are listed
+                        in the fetch log with the reason.
+                      </p>
+                    </div>
+                    <div className="space-y-2 mb-3 border rounded-md p-3">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={emailInboundEnabled}
+                          onCheckedChange={(checked) => {
+                            setEmailInboundEnabled(checked);
+                            if (checked && !emailInboundToken) {
+                              setEmailInboundToken(
+                                crypto.randomUUID().replace(/-/g, ""),
+                              );
+                            }
+                          }}
+                          data-testid="switch-email-inbound"
+                        />
+                        <Label>Accept pushed email (import on arrival)</Label>
+                      </div>
+                      {emailInboundEnabled && (
+                        <>
+                          <Input
+                            placeholder="Recipient alias (e.g. vendorx or vendorx@inbound.company.com)"
+                            value={emailInboundAlias}
+                            onChange={(e) =>
+                              setEmailInboundAlias(e.target.value)
+                            }
+                            data-testid="input-email-inbound-alias"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Mail forwarded to the inbound SMTP listener or
+                            POSTed to /api/inbound-email is imported right
+                            away. Without an alias, mail from the allowed
+                            senders is taken. Both need the relay to sign in
+                            with the inbound token.
+                          </p>
+                          {emailInboundToken && (
+                            <p className="text-xs text-muted-foreground">
+                              Without signing in, address mail to{" "}
+                              <code>imports+{emailInboundToken}@…</code>
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
                     <div className="flex items-center space-x-2">
                       <Switch
                         checked={emailMultiFileMode}
@@ -2513,6 +2941,12 @@ export default function AIDataSourceDialog({
                       </p>
                     )}
                   </div>
+
+                  {(createdDataSourceId || existingDataSource?.id) && (
+                    <EmailLedgerPanel
+                      dataSourceId={createdDataSourceId || existingDataSource.id}
+                    />
+                  )}
                 </div>
               )}
 
@@ -2629,6 +3063,80 @@ export default function AIDataSourceDialog({
                         </div>
                       </div>
                     )}
+                    <div className="mt-4 space-y-2">
+                      <Label>Import Policies</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Compared against current inventory before saving.
+                        Blocked and held imports appear under Inventory →
+                        Safety Net for review.
+                      </p>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Check</TableHead>
+                            <TableHead>Action</TableHead>
+                            <TableHead>Thresholds</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {SAFETY_NET_CHECKS.map((check) => {
+                            const policy = safetyNetPolicies[check.key];
+                            const updatePolicy = (patch: Partial<SafetyNetCheck>) =>
+                              setSafetyNetPolicies((prev) => ({
+                                ...prev,
+                                [check.key]: { ...prev[check.key], ...patch },
+                              }));
+                            return (
+                              <TableRow key={check.key}>
+                                <TableCell className="text-sm">
+                                  {check.label}
+                                </TableCell>
+                                <TableCell>
+                                  <Select
+                                    value={policy.action}
+                                    onValueChange={(v: SafetyNetAction) =>
+                                      updatePolicy({ action: v })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-28">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="off">Off</SelectItem>
+                                      <SelectItem value="warn">Warn</SelectItem>
+                                      <SelectItem value="block">Block</SelectItem>
+                                      <SelectItem value="hold">Hold</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex gap-2">
+                                    {check.fields.map(({ field, label }) => (
+                                      <Input
+                                        key={field}
+                                        type="number"
+                                        className="w-24"
+                                        title={label}
+                                        placeholder={label}
+                                        disabled={policy.action === "off"}
+                                        value={policy[field] ?? ""}
+                                        onChange={(e) =>
+                                          updatePolicy({
+                                            [field]: e.target.value
+                                              ? parseFloat(e.target.value)
+                                              : undefined,
+                                          })
+                                        }
+                                      />
+                                    ))}
+                                  </div>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
                   </AccordionContent>
                 </AccordionItem>
               </Accordion>
@@ -6542,6 +7050,15 @@ export default function AIDataSourceDialog({
                 </div>
               )}
             </TabsContent>
+
+            {/* HISTORY TAB */}
+            <TabsContent value="history" className="space-y-4 mt-0">
+              {(createdDataSourceId || existingDataSource?.id) && (
+                <DataSourceConfigHistory
+                  dataSourceId={createdDataSourceId || existingDataSource.id}
+                />
+              )}
+            </TabsContent>
           </div>
         </Tabs>
       </DialogContent>
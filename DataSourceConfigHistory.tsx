@@ -0,0 +1,279 @@
+/**
+ * Data Source Config History
+ *
+ * History tab of the data source dialog: every recorded version of the
+ * import config (column mapping, parse / cleaning config, pricing and stock
+ * rules), who changed it and how, the field-level diff against the previous
+ * version, and a one-click revert to any earlier version.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface ConfigVersionSummary {
+  version: number;
+  createdAt: string;
+  userId: string | null;
+  source: "baseline" | "update" | "auto" | "revert";
+  note?: string;
+  revertedTo?: number;
+  changedFields: string[];
+}
+
+interface ConfigVersionDiff {
+  from: number;
+  to: number;
+  changedFields: string[];
+  changes: Array<{ path: string; before: unknown; after: unknown }>;
+}
+
+const SOURCE_LABELS: Record<ConfigVersionSummary["source"], string> = {
+  baseline: "Baseline",
+  update: "Edited",
+  auto: "Auto-corrected",
+  revert: "Reverted",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function DataSourceConfigHistory({
+  dataSourceId,
+}: {
+  dataSourceId: string;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<ConfigVersionSummary[]>({
+    queryKey: ["data-source-config-versions", dataSourceId],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/data-sources/${dataSourceId}/config-versions`,
+      );
+      if (!res.ok) throw new Error("Failed to fetch config history");
+      return res.json();
+    },
+  });
+
+  const latest = versions[0]?.version ?? null;
+  const shown = selected ?? latest;
+
+  const { data: diff, isLoading: diffLoading } = useQuery<ConfigVersionDiff>({
+    queryKey: ["data-source-config-diff", dataSourceId, shown],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/data-sources/${dataSourceId}/config-versions/diff?to=${shown}`,
+      );
+      if (!res.ok) throw new Error("Failed to fetch config diff");
+      return res.json();
+    },
+    enabled: shown !== null && shown > 1,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/data-sources/${dataSourceId}/config-versions/${version}/revert`,
+      );
+      return response.json();
+    },
+    onSuccess: (result, version) => {
+      toast({
+        title: "Config reverted",
+        description: `Restored version ${version} as version ${result.version?.version}`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({
+        queryKey: ["data-source-config-versions", dataSourceId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["data-sources"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/data-sources", dataSourceId],
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revert failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="py-8 text-center text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          No config changes recorded yet. The current config becomes version 1
+          the first time it is changed.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Config Versions
+          </CardTitle>
+          <CardDescription>
+            Import logs show the version each import ran with
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {versions.map((v) => (
+            <div
+              key={v.version}
+              className={`border rounded-lg p-3 cursor-pointer ${
+                v.version === shown ? "border-primary bg-muted/50" : ""
+              }`}
+              onClick={() => setSelected(v.version)}
+              data-testid={`row-config-version-${v.version}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">v{v.version}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {SOURCE_LABELS[v.source]}
+                    {v.revertedTo ? ` to v${v.revertedTo}` : ""}
+                  </Badge>
+                  {v.version === latest && (
+                    <Badge variant="secondary" className="text-xs">
+                      current
+                    </Badge>
+                  )}
+                </div>
+                {v.version !== latest && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revertMutation.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      revertMutation.mutate(v.version);
+                    }}
+                    data-testid={`button-revert-config-${v.version}`}
+                  >
+                    {revertMutation.isPending &&
+                    revertMutation.variables === v.version ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                    )}
+                    Revert
+                  </Button>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground mt-1">
+                {new Date(v.createdAt).toLocaleString()}
+                {v.userId ? ` · ${v.userId}` : ""}
+              </div>
+              {v.changedFields.length > 0 && (
+                <div className="text-xs text-muted-foreground mt-1 truncate">
+                  {v.changedFields.join(", ")}
+                </div>
+              )}
+              {v.note && <div className="text-xs mt-1">{v.note}</div>}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {shown === 1 ? "Version 1" : `Changes in v${shown}`}
+          </CardTitle>
+          <CardDescription>
+            {shown === 1
+              ? "The config as it was before the first recorded change"
+              : `Compared with v${(shown ?? 1) - 1}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {shown === 1 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing to compare against.
+            </p>
+          ) : diffLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : !diff || diff.changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No differences.</p>
+          ) : (
+            <div className="border rounded-lg overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.changes.map((change) => (
+                    <TableRow key={change.path}>
+                      <TableCell className="font-mono text-xs">
+                        {change.path}
+                      </TableCell>
+                      <TableCell className="text-xs text-red-700 dark:text-red-300 break-all">
+                        {formatValue(change.before)}
+                      </TableCell>
+                      <TableCell className="text-xs text-green-700 dark:text-green-300 break-all">
+                        {formatValue(change.after)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * Email Ledger Panel
+ *
+ * Processing ledger of an email data source: every matched email by
+ * Message-ID with its state (seen / downloaded / imported / failed /
+ * skipped), each attachment's outcome, and per-message Retry (failed
+ * messages) and Replay (re-import any past email) actions.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Mail, RefreshCw, RotateCcw } from "lucide-react";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type LedgerState = "seen" | "downloaded" | "imported" | "failed" | "skipped";
+
+interface LedgerAttachment {
+  filename: string;
+  state: LedgerState;
+  error?: string;
+  rowCount?: number;
+  fetchLogId?: string;
+  importJobId?: string;
+  updatedAt: string;
+}
+
+interface LedgerMessage {
+  messageId: string;
+  from: string;
+  subject: string;
+  emailDate: string | null;
+  state: LedgerState;
+  error?: string;
+  reason?: string;
+  attempts: number;
+  updatedAt: string;
+  attachments: LedgerAttachment[];
+}
+
+const STATE_CLASSES: Record<LedgerState, string> = {
+  seen: "bg-gray-100 text-gray-700",
+  downloaded: "bg-blue-100 text-blue-700",
+  imported: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  skipped: "bg-yellow-100 text-yellow-800",
+};
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function EmailLedgerPanel({
+  dataSourceId,
+}: {
+  dataSourceId: string;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [stateFilter, setStateFilter] = useState<string>("all");
+
+  const { data: messages = [], isLoading, refetch } = useQuery<
+    LedgerMessage[]
+  >({
+    queryKey: ["email-ledger", dataSourceId, stateFilter],
+    queryFn: async () => {
+      const query = stateFilter === "all" ? "" : `?state=${stateFilter}`;
+      const res = await fetch(
+        `/api/data-sources/${dataSourceId}/email-ledger${query}`,
+      );
+      if (!res.ok) throw new Error("Failed to fetch email ledger");
+      return res.json();
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({
+      action,
+      messageId,
+    }: {
+      action: "retry" | "replay";
+      messageId: string;
+    }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/data-sources/${dataSourceId}/email-ledger/${action}`,
+        { messageId },
+      );
+      const accepted = await response.json();
+      // The route queues an import job (202); poll it until it ends
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        const job = await (
+          await apiRequest("GET", `/api/import-jobs/${accepted.jobId}`)
+        ).json();
+        if (job.status === "completed") {
+          return { filesProcessed: job.result?.details?.filesProcessed || 0 };
+        }
+        if (job.status === "failed" || job.status === "cancelled") {
+          throw new Error(job.result?.error || job.error || `Email ${action} failed`);
+        }
+      }
+    },
+    onSuccess: (result, { action }) => {
+      toast({
+        title: action === "retry" ? "Email retried" : "Email replayed",
+        description: `${result.filesProcessed} file(s) processed`,
+      });
+    },
+    onError: (error: any, { action }) => {
+      toast({
+        title: action === "retry" ? "Retry failed" : "Replay failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["email-ledger", dataSourceId],
+      });
+    },
+  });
+
+  const isRunning = (messageId: string) =>
+    actionMutation.isPending &&
+    actionMutation.variables?.messageId === messageId;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <Mail className="h-4 w-4" />
+          Processed Emails
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={stateFilter} onValueChange={setStateFilter}>
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="imported">Imported</SelectItem>
+              <SelectItem value="skipped">Skipped</SelectItem>
+              <SelectItem value="downloaded">Downloaded</SelectItem>
+              <SelectItem value="seen">Seen</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+      ) : messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No emails processed yet.
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {messages.map((message) => (
+            <div
+              key={message.messageId}
+              className="border rounded-md p-3 text-sm"
+              data-testid={`row-email-ledger-${message.messageId}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {message.subject || "(no subject)"}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {message.from}
+                    {message.emailDate &&
+                      ` · ${new Date(message.emailDate).toLocaleString()}`}
+                    {message.attempts > 1 &&
+                      ` · ${message.attempts} attempts`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge className={STATE_CLASSES[message.state]}>
+                    {message.state}
+                  </Badge>
+                  {message.state === "failed" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={actionMutation.isPending}
+                      onClick={() =>
+                        actionMutation.mutate({
+                          action: "retry",
+                          messageId: message.messageId,
+                        })
+                      }
+                      data-testid={`button-retry-email-${message.messageId}`}
+                    >
+                      {isRunning(message.messageId) &&
+                      actionMutation.variables?.action === "retry" ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      Retry
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={actionMutation.isPending}
+                    onClick={() =>
+                      actionMutation.mutate({
+                        action: "replay",
+                        messageId: message.messageId,
+                      })
+                    }
+                    data-testid={`button-replay-email-${message.messageId}`}
+                  >
+                    {isRunning(message.messageId) &&
+                    actionMutation.variables?.action === "replay" ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                    )}
+                    Replay
+                  </Button>
+                </div>
+              </div>
+              {(message.error || message.reason) && (
+                <div
+                  className={`text-xs mt-1 ${message.error ? "text-red-600" : "text-muted-foreground"}`}
+                >
+                  {message.error || message.reason}
+                </div>
+              )}
+              {message.attachments.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {message.attachments.map((attachment) => (
+                    <div
+                      key={attachment.filename}
+                      className="flex items-center gap-2 text-xs"
+                    >
+                      <Badge
+                        variant="outline"
+                        className={`text-xs ${STATE_CLASSES[attachment.state]}`}
+                      >
+                        {attachment.state}
+                      </Badge>
+                      <span className="truncate">{attachment.filename}</span>
+                      {attachment.rowCount !== undefined &&
+                        attachment.state === "imported" && (
+                          <span className="text-muted-foreground">
+                            {attachment.rowCount} rows
+                          </span>
+                        )}
+                      {attachment.error && (
+                        <span className="text-muted-foreground truncate">
+                          {attachment.error}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
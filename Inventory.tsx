@@ -6,6 +6,10 @@ import CleanupContent from "./Cleanup";
 import ImportRulesTab from "@/components/ImportRulesTab";
 import AIDataSourceDialog from "@/components/AIDataSourceDialog";
 import GlobalValidatorDashboard from "@/components/GlobalValidatorDashboard";
+import SafetyNetReviews from "@/components/SafetyNetReviews";
+import SnapshotDiffViewer from "@/components/SnapshotDiffViewer";
+import PermissionsMatrix from "@/components/PermissionsMatrix";
+import OutboundWebhooks from "@/components/OutboundWebhooks";
 import {
   Card,
   CardContent,
@@ -227,6 +231,17 @@ interface MasterInventoryItem {
   saleOwnsStyle?: boolean | null;
   isSaleFile?: boolean;
   cachedShopifyPrice?: number | null;
+  /** Stock each channel gets after allocation rules (absent = no rules) */
+  allocated?: Record<string, number>;
+  /** Units held by open orders (absent = none) */
+  reservation?: {
+    reserved: number;
+    orders: Array<{
+      orderId: string | number;
+      orderNumber: string | null;
+      quantity: number;
+    }>;
+  };
 }
 
 function calculateStockMessage(
@@ -292,6 +307,33 @@ function calculateStockMessage(
   }
 }
 
+// Import routes answer 202 with a jobId; poll the job until it ends and
+// return the result in the shape the routes used to send inline
+async function followImportJob(accepted: any): Promise<any> {
+  if (!accepted?.queued || !accepted.jobId) return accepted;
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const res = await fetch(`/api/import-jobs/${accepted.jobId}`);
+    if (!res.ok) throw new Error("Could not read import job status");
+    const job = await res.json();
+    if (job.status === "completed") {
+      const details = job.result?.details || {};
+      return {
+        ...accepted,
+        ...details,
+        ...details.stats,
+        success: true,
+        itemCount: job.result?.itemCount,
+        importedItems: job.result?.itemCount,
+        message: details.message,
+      };
+    }
+    if (job.status === "failed" || job.status === "cancelled") {
+      throw new Error(job.result?.error || job.error || `Import ${job.status}`);
+    }
+  }
+}
+
 interface PaginatedResponse {
   items: MasterInventoryItem[];
   total: number;
@@ -422,6 +464,13 @@ function MasterInventoryTab() {
     return true;
   });
 
+  // Channels with allocation rules (the API only sends these when rules exist)
+  const allocationChannels = Array.from(
+    new Set(
+      filteredInventory.flatMap((item) => Object.keys(item.allocated || {})),
+    ),
+  );
+
   const clearFilters = () => {
     setSearchStyle("");
     setFilterSource("");
@@ -769,6 +818,14 @@ function MasterInventoryTab() {
                     <th className="px-4 py-3 text-left font-medium">Color</th>
                     <th className="px-4 py-3 text-left font-medium">Size</th>
                     <th className="px-4 py-3 text-right font-medium">Stock</th>
+                    {allocationChannels.length > 0 && (
+                      <th
+                        className="px-4 py-3 text-left font-medium"
+                        title="Stock offered per channel after allocation rules"
+                      >
+                        Allocated
+                      </th>
+                    )}
                     <th className="px-4 py-3 text-right font-medium">Price</th>
                     <th className="px-4 py-3 text-right font-medium">
                       Shopify Price
@@ -827,7 +884,48 @@ function MasterInventoryTab() {
                         >
                           {item.stock ?? 0}
                         </Badge>
+                        {item.reservation && (
+                          <div
+                            className="text-xs text-amber-600 dark:text-amber-400 mt-0.5 whitespace-nowrap"
+                            title={item.reservation.orders
+                              .map(
+                                (o) =>
+                                  `${o.orderNumber || `Order ${o.orderId}`}: ${o.quantity}`,
+                              )
+                              .join("\n")}
+                            data-testid={`text-reserved-${index}`}
+                          >
+                            {item.reservation.reserved} reserved ·{" "}
+                            {Math.max(
+                              0,
+                              (item.stock ?? 0) - item.reservation.reserved,
+                            )}{" "}
+                            avail
+                          </div>
+                        )}
                       </td>
+                      {allocationChannels.length > 0 && (
+                        <td
+                          className="px-4 py-2"
+                          data-testid={`text-allocated-${index}`}
+                        >
+                          <div className="flex flex-wrap gap-1">
+                            {allocationChannels.map((channel) => {
+                              const qty = item.allocated?.[channel];
+                              if (qty === undefined) return null;
+                              return (
+                                <Badge
+                                  key={channel}
+                                  variant="outline"
+                                  className={`text-xs ${qty < (item.stock ?? 0) ? "border-amber-400 text-amber-700 dark:text-amber-300" : ""}`}
+                                >
+                                  {channel}: {qty}
+                                </Badge>
+                              );
+                            })}
+                          </div>
+                        </td>
+                      )}
                       <td className="px-4 py-2 text-right text-muted-foreground">
                         {item.price ? `$${item.price}` : "-"}
                       </td>
@@ -3472,7 +3570,7 @@ export default function Inventory() {
           const err = await uploadRes.json();
           throw new Error(err.error || "Failed to upload file");
         }
-        return uploadRes.json();
+        return followImportJob(await uploadRes.json());
       }
 
       return created;
@@ -3703,7 +3801,7 @@ export default function Inventory() {
         throw new Error(error.error || "Failed to combine files");
       }
 
-      const result = await res.json();
+      const result = await followImportJob(await res.json());
       toast({ title: "Success", description: result.message });
 
       // Refresh all relevant queries
@@ -3792,7 +3890,7 @@ export default function Inventory() {
         throw new Error(error.error || "Failed to fetch URL");
       }
 
-      const result = await res.json();
+      const result = await followImportJob(await res.json());
       const details = [];
       if (result.noSizeRemoved > 0)
         details.push(`${result.noSizeRemoved} skipped (no size)`);
@@ -3916,11 +4014,13 @@ export default function Inventory() {
       const response = await fetch("/api/inventory/import", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dataSourceId, items }),
+        body: JSON.stringify({ dataSourceId, items, headers: previewHeaders }),
       });
 
       if (!response.ok) {
-        throw new Error("Import failed");
+        // Safety-net blocks say why (and that the import was quarantined)
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Import failed");
       }
 
       const result = await response.json();
@@ -4173,17 +4273,19 @@ export default function Inventory() {
         },
       );
 
-      const result = await response.json();
+      const accepted = await response.json();
 
       if (!response.ok) {
         toast({
           title: "Email Fetch Failed",
-          description: result.error || "Could not fetch emails",
+          description: accepted.error || "Could not fetch emails",
           variant: "destructive",
         });
         return;
       }
 
+      const result = await followImportJob(accepted);
+
       if (result.filesProcessed > 0) {
         const logSummary = result.logs?.slice(-3).join(" → ") || "";
         toast({
@@ -4227,17 +4329,19 @@ export default function Inventory() {
         },
       );
 
-      const result = await response.json();
+      const accepted = await response.json();
 
       if (!response.ok) {
         toast({
           title: "URL Fetch Failed",
-          description: result.error || "Could not fetch from URL",
+          description: accepted.error || "Could not fetch from URL",
           variant: "destructive",
         });
         return;
       }
 
+      const result = await followImportJob(accepted);
+
       if (result.itemCount > 0) {
         const logSummary = result.logs?.slice(-3).join(" → ") || "";
         toast({
@@ -4360,7 +4464,7 @@ export default function Inventory() {
 
         xhr.open("POST", `/api/data-sources/${dataSourceId}/upload`);
         xhr.send(formData);
-      });
+      }).then(followImportJob);
 
       // Check if file was staged (multi-file mode) or imported directly
       if (result.staged) {
@@ -4978,6 +5082,26 @@ export default function Inventory() {
             label: "Global Validator",
             testId: "tab-global-validator",
           },
+          {
+            value: "safety-net",
+            label: "Safety Net",
+            testId: "tab-safety-net",
+          },
+          {
+            value: "sync-changes",
+            label: "Sync Changes",
+            testId: "tab-sync-changes",
+          },
+          {
+            value: "permissions",
+            label: "Permissions",
+            testId: "tab-permissions",
+          },
+          {
+            value: "webhooks",
+            label: "Webhooks",
+            testId: "tab-webhooks",
+          },
         ]}
       >
         <TabsContent value="upload" className="space-y-4">
@@ -6096,6 +6220,22 @@ export default function Inventory() {
         <TabsContent value="validator">
           <GlobalValidatorDashboard />
         </TabsContent>
+
+        <TabsContent value="safety-net">
+          <SafetyNetReviews />
+        </TabsContent>
+
+        <TabsContent value="sync-changes">
+          <SnapshotDiffViewer />
+        </TabsContent>
+
+        <TabsContent value="permissions">
+          <PermissionsMatrix />
+        </TabsContent>
+
+        <TabsContent value="webhooks">
+          <OutboundWebhooks />
+        </TabsContent>
       </ResponsiveTabs>
 
       {/* Source Editor Dialog */}
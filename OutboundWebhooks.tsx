@@ -0,0 +1,693 @@
+/**
+ * Outbound Webhooks
+ *
+ * Settings panel for the webhooks in outboundWebhooks.ts: add / edit /
+ * remove a webhook, pick its events, send a test event, and browse the
+ * delivery log with each delivery's attempts and a Redeliver action. The
+ * signing secret is shown in full only right after it is created or changed.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Webhook,
+  Plus,
+  Pencil,
+  Trash2,
+  Send,
+  RefreshCw,
+  RotateCcw,
+  Loader2,
+} from "lucide-react";
+import { formatDatePST } from "@/lib/utils";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface OutboundWebhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: string[];
+  format: "json" | "slack";
+  headers?: Record<string, string>;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhooksResponse {
+  events: string[];
+  webhooks: OutboundWebhook[];
+}
+
+type DeliveryStatus = "pending" | "retrying" | "delivered" | "failed";
+
+interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: string;
+  eventId: string;
+  status: DeliveryStatus;
+  attempts: Array<{
+    at: string;
+    responseStatus?: number;
+    error?: string;
+    durationMs: number;
+  }>;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+  nextAttemptAt?: string;
+  redeliveryOf?: string;
+}
+
+interface WebhookForm {
+  id?: string;
+  name: string;
+  url: string;
+  secret: string;
+  format: "json" | "slack";
+  events: string[];
+  headers: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: "",
+  url: "",
+  secret: "",
+  format: "json",
+  events: [],
+  headers: "",
+  enabled: true,
+};
+
+const STATUS_CLASSES: Record<DeliveryStatus, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  retrying: "bg-yellow-100 text-yellow-800",
+  delivered: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+// "Name: value" per line <-> header map
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const index = line.indexOf(":");
+    if (index <= 0) continue;
+    headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return headers;
+}
+
+function formatHeaders(headers?: Record<string, string>): string {
+  return Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function OutboundWebhooks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<WebhookForm | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{
+    name: string;
+    secret: string;
+  } | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const { data, isLoading } = useQuery<WebhooksResponse>({
+    queryKey: ["outbound-webhooks"],
+    queryFn: async () => {
+      const res = await fetch("/api/webhooks");
+      if (!res.ok) throw new Error("Failed to fetch webhooks");
+      return res.json();
+    },
+  });
+  const webhooks = data?.webhooks || [];
+  const events = data?.events || [];
+
+  const {
+    data: deliveries = [],
+    isLoading: isLoadingDeliveries,
+    refetch: refetchDeliveries,
+  } = useQuery<WebhookDelivery[]>({
+    queryKey: ["outbound-webhook-deliveries", statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const res = await fetch(`/api/webhooks/deliveries${query}`);
+      if (!res.ok) throw new Error("Failed to fetch webhook deliveries");
+      return res.json();
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["outbound-webhooks"] });
+    queryClient.invalidateQueries({ queryKey: ["outbound-webhook-deliveries"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: WebhookForm) => {
+      const body = {
+        name: values.name,
+        url: values.url,
+        secret: values.secret || undefined,
+        format: values.format,
+        events: values.events,
+        headers: parseHeaders(values.headers),
+        enabled: values.enabled,
+      };
+      const response = values.id
+        ? await apiRequest("PUT", `/api/webhooks/${values.id}`, body)
+        : await apiRequest("POST", "/api/webhooks", body);
+      return response.json() as Promise<OutboundWebhook>;
+    },
+    onSuccess: (webhook, values) => {
+      setForm(null);
+      invalidate();
+      // The secret comes back unmasked only when it was just set
+      if (!webhook.secret.startsWith("••••") && !webhook.secret.startsWith("env:")) {
+        setRevealedSecret({ name: webhook.name, secret: webhook.secret });
+      }
+      toast({ title: values.id ? "Webhook updated" : "Webhook added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to save webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest("PUT", `/api/webhooks/${id}`, {
+        enabled,
+      });
+      return response.json();
+    },
+    onSettled: invalidate,
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/webhooks/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Webhook removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to remove webhook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async ({
+      action,
+      id,
+    }: {
+      action: "test" | "redeliver";
+      id: string;
+    }) => {
+      const response = await apiRequest(
+        "POST",
+        action === "test"
+          ? `/api/webhooks/${id}/test`
+          : `/api/webhooks/deliveries/${id}/redeliver`,
+      );
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery, { action }) => {
+      const label = action === "test" ? "Test event" : "Redelivery";
+      toast({
+        title:
+          delivery.status === "delivered"
+            ? `${label} delivered`
+            : `${label} ${delivery.status}`,
+        description: delivery.error,
+        variant: delivery.status === "delivered" ? undefined : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to send",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  const openForm = (webhook?: OutboundWebhook) =>
+    setForm(
+      webhook
+        ? {
+            id: webhook.id,
+            name: webhook.name,
+            url: webhook.url,
+            // Blank keeps the current secret; env: references stay visible
+            secret: webhook.secret.startsWith("env:") ? webhook.secret : "",
+            format: webhook.format,
+            events: webhook.events,
+            headers: formatHeaders(webhook.headers),
+            enabled: webhook.enabled,
+          }
+        : EMPTY_FORM,
+    );
+
+  const toggleEvent = (event: string, on: boolean) =>
+    setForm((prev) =>
+      prev && {
+        ...prev,
+        events: on
+          ? [...prev.events, event]
+          : prev.events.filter((e) => e !== event),
+      },
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Outbound Webhooks
+          </CardTitle>
+          <CardDescription>
+            Post import, sync, snapshot, order and eBay events to Slack or
+            internal tools. Requests are signed with HMAC-SHA256
+            (X-Webhook-Signature) and retried with backoff on failure.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openForm()} data-testid="button-add-webhook">
+          <Plus className="mr-1 h-4 w-4" />
+          Add webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No webhooks configured.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow
+                  key={webhook.id}
+                  data-testid={`row-webhook-${webhook.id}`}
+                >
+                  <TableCell className="align-top">
+                    <div className="font-medium">{webhook.name}</div>
+                    <div className="text-xs text-muted-foreground break-all">
+                      {webhook.url}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {webhook.format === "slack" ? "Slack message" : "JSON"} ·
+                      secret {webhook.secret}
+                    </div>
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline" className="text-xs">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <Switch
+                      checked={webhook.enabled}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={(enabled) =>
+                        toggleMutation.mutate({ id: webhook.id, enabled })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="align-top text-right whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={sendMutation.isPending}
+                      onClick={() =>
+                        sendMutation.mutate({ action: "test", id: webhook.id })
+                      }
+                      data-testid={`button-test-webhook-${webhook.id}`}
+                    >
+                      {sendMutation.isPending &&
+                      sendMutation.variables?.id === webhook.id ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="mr-1 h-4 w-4" />
+                      )}
+                      Test
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openForm(webhook)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (window.confirm(`Remove webhook "${webhook.name}"?`)) {
+                          deleteMutation.mutate(webhook.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Delivery log</h4>
+            <div className="flex items-center gap-2">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="retrying">Retrying</SelectItem>
+                  <SelectItem value="delivered">Delivered</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => refetchDeliveries()}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          {isLoadingDeliveries ? (
+            <Loader2 className="h-5 w-5 animate-spin mx-auto" />
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Webhook</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow
+                    key={delivery.id}
+                    data-testid={`row-webhook-delivery-${delivery.id}`}
+                  >
+                    <TableCell className="align-top">
+                      <div className="font-medium">{delivery.event}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDatePST(delivery.createdAt)}
+                        {delivery.redeliveryOf && " · redelivery"}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      {delivery.webhookName}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge className={STATUS_CLASSES[delivery.status]}>
+                        {delivery.status}
+                      </Badge>
+                      {delivery.error && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {delivery.error}
+                        </div>
+                      )}
+                      {delivery.status === "retrying" &&
+                        delivery.nextAttemptAt && (
+                          <div className="text-xs text-muted-foreground">
+                            next try {formatDatePST(delivery.nextAttemptAt)}
+                          </div>
+                        )}
+                    </TableCell>
+                    <TableCell className="align-top text-xs">
+                      {delivery.attempts.map((attempt, i) => (
+                        <div key={i}>
+                          {attempt.responseStatus ?? "—"}
+                          {attempt.error && !attempt.responseStatus
+                            ? ` ${attempt.error}`
+                            : ""}{" "}
+                          <span className="text-muted-foreground">
+                            {attempt.durationMs}ms
+                          </span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="align-top text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={sendMutation.isPending}
+                        onClick={() =>
+                          sendMutation.mutate({
+                            action: "redeliver",
+                            id: delivery.id,
+                          })
+                        }
+                      >
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit webhook" : "Add webhook"}</DialogTitle>
+            <DialogDescription>
+              Events are POSTed to the URL as JSON, or as a Slack message for
+              Slack incoming webhooks.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="webhook-name">Name</Label>
+                <Input
+                  id="webhook-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Ops Slack channel"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  placeholder="https://hooks.slack.com/services/..."
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Format</Label>
+                <Select
+                  value={form.format}
+                  onValueChange={(format) =>
+                    setForm({ ...form, format: format as WebhookForm["format"] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="json">JSON event</SelectItem>
+                    <SelectItem value="slack">Slack message</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="webhook-secret">Signing secret</Label>
+                <Input
+                  id="webhook-secret"
+                  value={form.secret}
+                  onChange={(e) => setForm({ ...form, secret: e.target.value })}
+                  placeholder={
+                    form.id
+                      ? "Leave blank to keep the current secret"
+                      : "Leave blank to generate one, or env:VAR_NAME"
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {events.map((event) => (
+                    <label
+                      key={event}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Switch
+                        checked={form.events.includes(event)}
+                        onCheckedChange={(on) => toggleEvent(event, on)}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="webhook-headers">
+                  Extra headers (one "Name: value" per line)
+                </Label>
+                <Textarea
+                  id="webhook-headers"
+                  className="font-mono text-sm"
+                  value={form.headers}
+                  onChange={(e) => setForm({ ...form, headers: e.target.value })}
+                />
+                {form.id && form.headers && (
+                  <p className="text-xs text-muted-foreground">
+                    Saved values are masked; leave a masked value as shown to keep it.
+                  </p>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                />
+                Enabled
+              </label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={
+                saveMutation.isPending ||
+                !form?.name.trim() ||
+                !form?.url.trim() ||
+                form.events.length === 0
+              }
+              onClick={() => form && saveMutation.mutate(form)}
+            >
+              {saveMutation.isPending && (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              )}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!revealedSecret}
+        onOpenChange={(open) => !open && setRevealedSecret(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing secret for {revealedSecret?.name}</DialogTitle>
+            <DialogDescription>
+              Copy it now — it won't be shown again. Receivers verify
+              X-Webhook-Signature as sha256=HMAC(secret, "timestamp.body")
+              using the X-Webhook-Timestamp header.
+            </DialogDescription>
+          </DialogHeader>
+          <Input readOnly value={revealedSecret?.secret || ""} className="font-mono" />
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
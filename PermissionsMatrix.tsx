@@ -0,0 +1,266 @@
+/**
+ * Permissions Matrix
+ *
+ * Permissions tab of the Inventory page, showing what each role may do
+ * (GET /api/team/permissions): one row per permission group, one column
+ * per role, with the view / edit / destructive actions the role grants.
+ * Below it, each member's effective permissions. Custom roles are marked with the built-in role they extend.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldCheck, Check, Minus } from "lucide-react";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type PermissionAction = "view" | "edit" | "destructive";
+
+interface RoleEntry {
+  name: string;
+  label: string;
+  builtIn: boolean;
+  baseRole?: string;
+  permissions: string[];
+}
+
+interface MemberEntry {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string | null;
+  isApproved: boolean;
+  permissions: string[];
+}
+
+interface PermissionMatrixResponse {
+  groups: string[];
+  actions: PermissionAction[];
+  roles: RoleEntry[];
+  members: MemberEntry[];
+}
+
+const ACTION_STYLES: Record<PermissionAction, string> = {
+  view: "border-slate-300 text-slate-700 dark:text-slate-300",
+  edit: "border-blue-400 text-blue-700 dark:text-blue-300",
+  destructive: "border-red-400 text-red-700 dark:text-red-300",
+};
+
+function groupLabel(group: string): string {
+  return group.charAt(0).toUpperCase() + group.slice(1);
+}
+
+function ActionBadges({
+  group,
+  actions,
+  permissions,
+}: {
+  group: string;
+  actions: PermissionAction[];
+  permissions: Set<string>;
+}) {
+  const granted = actions.filter((a) => permissions.has(`${group}.${a}`));
+  if (granted.length === 0) {
+    return <Minus className="h-4 w-4 text-muted-foreground mx-auto" />;
+  }
+  return (
+    <div className="flex flex-wrap justify-center gap-1">
+      {granted.map((action) => (
+        <Badge
+          key={action}
+          variant="outline"
+          className={`text-xs ${ACTION_STYLES[action]}`}
+        >
+          {action}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function PermissionsMatrix() {
+  const [showMembers, setShowMembers] = useState(false);
+
+  const { data, isLoading, error } = useQuery<PermissionMatrixResponse>({
+    queryKey: ["team-permissions"],
+    queryFn: async () => {
+      const res = await fetch("/api/team/permissions");
+      if (!res.ok) throw new Error("Failed to fetch permissions");
+      return res.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Loading permissions...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Permissions are only visible to roles with team access.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rolePermissions = new Map(
+    data.roles.map((r) => [r.name, new Set(r.permissions)]),
+  );
+
+  return (
+    <Card data-testid="card-permissions-matrix">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Role Permissions
+            </CardTitle>
+            <CardDescription>
+              What each role can view, edit, or run destructively (bulk
+              deletes, store cleanups, restores)
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowMembers(!showMembers)}
+            data-testid="button-toggle-member-permissions"
+          >
+            {showMembers ? "Show roles" : "Show members"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!showMembers ? (
+          <div className="border rounded-lg overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Area</TableHead>
+                  {data.roles.map((role) => (
+                    <TableHead key={role.name} className="text-center">
+                      <div>{role.label}</div>
+                      {!role.builtIn && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          custom · extends {role.baseRole}
+                        </div>
+                      )}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.groups.map((group) => (
+                  <TableRow key={group}>
+                    <TableCell className="font-medium">
+                      {groupLabel(group)}
+                    </TableCell>
+                    {data.roles.map((role) => (
+                      <TableCell key={role.name} className="text-center">
+                        <ActionBadges
+                          group={group}
+                          actions={data.actions}
+                          permissions={rolePermissions.get(role.name)!}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  {data.groups.map((group) => (
+                    <TableHead key={group} className="text-center">
+                      {groupLabel(group)}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.members.map((member) => {
+                  const permissions = new Set(member.permissions);
+                  const name =
+                    [member.firstName, member.lastName]
+                      .filter(Boolean)
+                      .join(" ") ||
+                    member.email ||
+                    member.id;
+                  return (
+                    <TableRow
+                      key={member.id}
+                      data-testid={`row-member-permissions-${member.id}`}
+                    >
+                      <TableCell className="font-medium">{name}</TableCell>
+                      <TableCell>
+                        {member.isApproved ? (
+                          <Badge variant="secondary">
+                            {member.role || "none"}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">pending</Badge>
+                        )}
+                      </TableCell>
+                      {data.groups.map((group) => (
+                        <TableCell key={group} className="text-center">
+                          {permissions.has(`${group}.destructive`) &&
+                          permissions.has(`${group}.edit`) &&
+                          permissions.has(`${group}.view`) ? (
+                            <Check className="h-4 w-4 text-green-600 mx-auto" />
+                          ) : (
+                            <ActionBadges
+                              group={group}
+                              actions={data.actions}
+                              permissions={permissions}
+                            />
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
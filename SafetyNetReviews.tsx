@@ -0,0 +1,472 @@
+/**
+ * Safety Net Reviews
+ *
+ * Imports quarantined by a "block" or "hold" safety-net policy
+ * (safetyNetPolicies.ts). Each review shows the reason and a diff of the
+ * parsed items against current inventory; approving commits those items
+ * without re-parsing, rejecting archives the review with a note.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ShieldAlert,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  Eye,
+} from "lucide-react";
+import { formatDatePST } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface SafetyNetFinding {
+  check: string;
+  action: "warn" | "block" | "hold";
+  message: string;
+  value: number;
+  threshold: number;
+}
+
+interface SafetyNetReview {
+  id: string;
+  dataSourceId: string;
+  dataSourceName: string;
+  source: string;
+  status: "held" | "blocked" | "approving" | "approved" | "rejected";
+  findings: SafetyNetFinding[];
+  message: string;
+  existingCount: number;
+  newCount: number;
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  note?: string;
+  updateStrategy?: string;
+  fileName?: string;
+  hasPendingItems?: boolean;
+  committedCount?: number;
+}
+
+interface DiffEntry {
+  key: string;
+  style: string | null;
+  color: string | null;
+  size: string | null;
+  stock?: number;
+  price?: string | null;
+  oldStock?: number;
+  newStock?: number;
+  oldPrice?: string | null;
+  newPrice?: string | null;
+}
+
+interface QuarantineDiff {
+  updateStrategy: string;
+  existingCount: number;
+  newCount: number;
+  counts: {
+    added: number;
+    removed: number;
+    stockChanged: number;
+    priceChanged: number;
+    unchanged: number;
+  };
+  added: DiffEntry[];
+  removed: DiffEntry[];
+  stockChanged: DiffEntry[];
+  priceChanged: DiffEntry[];
+}
+
+const DIFF_SECTIONS: Array<{
+  key: "added" | "removed" | "stockChanged" | "priceChanged";
+  label: string;
+}> = [
+  { key: "added", label: "Added" },
+  { key: "removed", label: "Removed" },
+  { key: "stockChanged", label: "Stock changed" },
+  { key: "priceChanged", label: "Price changed" },
+];
+
+function describeChange(entry: DiffEntry): string {
+  if (entry.oldStock !== undefined) return `${entry.oldStock} → ${entry.newStock}`;
+  if (entry.oldPrice !== undefined) return `${entry.oldPrice ?? "—"} → ${entry.newPrice ?? "—"}`;
+  return entry.stock !== undefined ? `stock ${entry.stock}` : "";
+}
+
+const STATUS_BADGE: Record<
+  SafetyNetReview["status"],
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  held: "default",
+  blocked: "destructive",
+  approving: "secondary",
+  approved: "secondary",
+  rejected: "outline",
+};
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function SafetyNetReviews() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<string>("open");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [diffReview, setDiffReview] = useState<SafetyNetReview | null>(null);
+
+  const { data: reviews = [], isLoading, refetch } = useQuery<SafetyNetReview[]>({
+    queryKey: ["safety-net-reviews"],
+    queryFn: async () => {
+      const res = await fetch("/api/safety-net/reviews");
+      if (!res.ok) throw new Error("Failed to fetch safety-net reviews");
+      return res.json();
+    },
+  });
+
+  const { data: diff, isLoading: isLoadingDiff, error: diffError } =
+    useQuery<QuarantineDiff>({
+      queryKey: ["safety-net-review-diff", diffReview?.id],
+      enabled: !!diffReview,
+      queryFn: async () => {
+        const res = await fetch(`/api/safety-net/reviews/${diffReview!.id}/diff`);
+        if (!res.ok) {
+          const error = await res.json();
+          throw new Error(error.error || "Failed to load diff");
+        }
+        return res.json();
+      },
+    });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({
+      id,
+      decision,
+    }: {
+      id: string;
+      decision: "approve" | "reject";
+    }) => {
+      const post = (force?: boolean) =>
+        fetch(`/api/safety-net/reviews/${id}/${decision}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ note: notes[id] || undefined, force }),
+        });
+
+      let res = await post();
+      if (!res.ok && res.status === 409 && decision === "approve") {
+        // Data source was imported again since — confirm before overwriting;
+        // any other conflict (already approved / being approved) is final
+        const error = await res.json();
+        if (!error.stale) throw new Error(error.error || "Failed to approve review");
+        if (!window.confirm(`${error.error}\n\nApprove anyway?`)) return null;
+        res = await post(true);
+      }
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || `Failed to ${decision} review`);
+      }
+      return res.json();
+    },
+    onSuccess: (data, { decision }) => {
+      if (!data) return;
+      queryClient.invalidateQueries({ queryKey: ["safety-net-reviews"] });
+      if (decision === "approve") {
+        queryClient.invalidateQueries({ queryKey: ["inventory"] });
+        queryClient.invalidateQueries({ queryKey: ["master-inventory"] });
+      }
+      setDiffReview(null);
+      toast({
+        title: decision === "approve" ? "Import approved" : "Import archived",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const visibleReviews = reviews.filter((review) => {
+    if (statusFilter === "all") return true;
+    if (statusFilter === "open") {
+      return review.status === "held" || review.status === "blocked";
+    }
+    return review.status === statusFilter;
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-amber-600" />
+            Safety Net Reviews
+          </CardTitle>
+          <CardDescription>
+            Imports quarantined by a data source's safety-net policies.
+            Approving imports the parsed items as they are; rejecting
+            archives them with a note.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Needs review</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading reviews...</p>
+        ) : visibleReviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No imports {statusFilter === "open" ? "waiting for review" : "found"}.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data Source</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Findings</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleReviews.map((review) => {
+                const isOpen =
+                  review.status === "held" || review.status === "blocked";
+                return (
+                  <TableRow key={review.id}>
+                    <TableCell className="align-top">
+                      <div className="font-medium">{review.dataSourceName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {review.fileName ? `${review.fileName} · ` : ""}
+                        {review.source} · {formatDatePST(review.createdAt)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top whitespace-nowrap">
+                      {review.existingCount} → {review.newCount}
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <ul className="space-y-1 text-sm">
+                        {review.findings.map((finding, i) => (
+                          <li key={i} className="flex gap-2">
+                            <Badge
+                              variant={
+                                finding.action === "warn" ? "outline" : "destructive"
+                              }
+                              className="shrink-0"
+                            >
+                              {finding.action}
+                            </Badge>
+                            <span>{finding.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Badge variant={STATUS_BADGE[review.status]}>
+                        {review.status}
+                      </Badge>
+                      {review.status === "approved" &&
+                        review.committedCount !== undefined && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {review.committedCount} items imported
+                          </div>
+                        )}
+                      {review.note && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {review.note}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="align-top text-right">
+                      {isOpen && (
+                        <div className="flex flex-col items-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDiffReview(review)}
+                          >
+                            <Eye className="mr-1 h-4 w-4" />
+                            View diff
+                          </Button>
+                          <Input
+                            placeholder="Note (required to reject)"
+                            className="w-48"
+                            value={notes[review.id] || ""}
+                            onChange={(e) =>
+                              setNotes((prev) => ({
+                                ...prev,
+                                [review.id]: e.target.value,
+                              }))
+                            }
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={decideMutation.isPending}
+                              onClick={() =>
+                                decideMutation.mutate({
+                                  id: review.id,
+                                  decision: "approve",
+                                })
+                              }
+                            >
+                              <CheckCircle className="mr-1 h-4 w-4" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={
+                                decideMutation.isPending ||
+                                !notes[review.id]?.trim()
+                              }
+                              onClick={() =>
+                                decideMutation.mutate({
+                                  id: review.id,
+                                  decision: "reject",
+                                })
+                              }
+                            >
+                              <XCircle className="mr-1 h-4 w-4" />
+                              Reject
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!diffReview}
+        onOpenChange={(open) => !open && setDiffReview(null)}
+      >
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Quarantined import: {diffReview?.dataSourceName}
+            </DialogTitle>
+            <DialogDescription>{diffReview?.message}</DialogDescription>
+          </DialogHeader>
+          {isLoadingDiff ? (
+            <p className="text-sm text-muted-foreground">Building diff...</p>
+          ) : diffError ? (
+            <p className="text-sm text-destructive">
+              {(diffError as Error).message}
+            </p>
+          ) : diff ? (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">
+                  {diff.existingCount} → {diff.newCount} items
+                </Badge>
+                <Badge variant="outline">+{diff.counts.added} added</Badge>
+                <Badge variant="outline">-{diff.counts.removed} removed</Badge>
+                <Badge variant="outline">
+                  {diff.counts.stockChanged} stock changes
+                </Badge>
+                <Badge variant="outline">
+                  {diff.counts.priceChanged} price changes
+                </Badge>
+                <Badge variant="outline">{diff.counts.unchanged} unchanged</Badge>
+              </div>
+              {DIFF_SECTIONS.filter(({ key }) => diff[key].length > 0).map(
+                ({ key, label }) => (
+                  <div key={key}>
+                    <h4 className="text-sm font-medium mb-1">
+                      {label} ({diff.counts[key]}
+                      {diff.counts[key] > diff[key].length
+                        ? `, first ${diff[key].length} shown`
+                        : ""}
+                      )
+                    </h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Style</TableHead>
+                          <TableHead>Color</TableHead>
+                          <TableHead>Size</TableHead>
+                          <TableHead>Change</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {diff[key].map((entry) => (
+                          <TableRow key={`${key}-${entry.key}`}>
+                            <TableCell>{entry.style}</TableCell>
+                            <TableCell>{entry.color}</TableCell>
+                            <TableCell>{entry.size}</TableCell>
+                            <TableCell>{describeChange(entry)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ),
+              )}
+            </div>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,435 @@
+/**
+ * Snapshot Diff Viewer
+ *
+ * Compares two sync snapshots of a store (or of one data source) via
+ * GET /api/sync-snapshots/:id/diff: variants added, removed, or with stock /
+ * price changes, grouped by vendor and style, with a CSV export.
+ */
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { GitCompare, Download } from "lucide-react";
+import { formatDatePST } from "@/lib/utils";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+interface SyncSnapshotListItem {
+  id: string;
+  dataSourceId: string | null;
+  dataSourceName: string | null;
+  snapshotType: "per-data-source" | "full-store";
+  totalVariants: number | null;
+  createdAt: string;
+}
+
+interface DiffCounts {
+  added: number;
+  removed: number;
+  stockChanged: number;
+  priceChanged: number;
+  unchanged: number;
+}
+
+interface DiffEntry {
+  variantId: string;
+  sku: string;
+  color: string | null;
+  size: string | null;
+  change: "added" | "removed" | "changed";
+  stockChanged: boolean;
+  priceChanged: boolean;
+  fromStock: number | null;
+  toStock: number | null;
+  fromPrice: string | null;
+  toPrice: string | null;
+  fromCompareAtPrice: string | null;
+  toCompareAtPrice: string | null;
+}
+
+interface SnapshotDiffResponse {
+  from: { id: string; createdAt: string; totalVariants: number };
+  to: { id: string; createdAt: string; totalVariants: number };
+  dataSourceName: string | null;
+  counts: DiffCounts;
+  truncated: boolean;
+  vendors: Array<{
+    vendor: string;
+    counts: DiffCounts;
+    styles: Array<{ style: string; counts: DiffCounts; entries: DiffEntry[] }>;
+  }>;
+}
+
+const FULL_STORE = "__full_store__";
+
+function describeEntry(entry: DiffEntry): string {
+  if (entry.change === "added") {
+    return `Added · stock ${entry.toStock} · $${entry.toPrice ?? "—"}`;
+  }
+  if (entry.change === "removed") {
+    return `Removed · stock ${entry.fromStock} · $${entry.fromPrice ?? "—"}`;
+  }
+  const parts: string[] = [];
+  if (entry.stockChanged) {
+    parts.push(`stock ${entry.fromStock} → ${entry.toStock}`);
+  }
+  if (entry.fromPrice !== entry.toPrice) {
+    parts.push(`price ${entry.fromPrice ?? "—"} → ${entry.toPrice ?? "—"}`);
+  }
+  if (entry.fromCompareAtPrice !== entry.toCompareAtPrice) {
+    parts.push(
+      `compare-at ${entry.fromCompareAtPrice ?? "—"} → ${entry.toCompareAtPrice ?? "—"}`,
+    );
+  }
+  return parts.join(" · ");
+}
+
+function CountBadges({ counts }: { counts: DiffCounts }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {counts.added > 0 && <Badge variant="outline">+{counts.added}</Badge>}
+      {counts.removed > 0 && <Badge variant="outline">-{counts.removed}</Badge>}
+      {counts.stockChanged > 0 && (
+        <Badge variant="outline">{counts.stockChanged} stock</Badge>
+      )}
+      {counts.priceChanged > 0 && (
+        <Badge variant="outline">{counts.priceChanged} price</Badge>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// COMPONENT
+// ============================================================
+
+export default function SnapshotDiffViewer() {
+  const [storeId, setStoreId] = useState<string>("");
+  const [scope, setScope] = useState<string>(FULL_STORE);
+  const [toId, setToId] = useState<string>("");
+  const [fromId, setFromId] = useState<string>("");
+  const [compare, setCompare] = useState<{ to: string; from: string } | null>(
+    null,
+  );
+
+  const { data: stores = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["shopify-stores"],
+    queryFn: async () => {
+      const res = await fetch("/api/shopify/stores");
+      if (!res.ok) throw new Error("Failed to fetch stores");
+      return res.json();
+    },
+  });
+
+  const { data: snapshots = [] } = useQuery<SyncSnapshotListItem[]>({
+    queryKey: ["sync-snapshots", storeId],
+    enabled: !!storeId,
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/shopify/stores/${storeId}/sync-snapshots?limit=200`,
+      );
+      if (!res.ok) throw new Error("Failed to fetch sync snapshots");
+      return res.json();
+    },
+  });
+
+  const {
+    data: diff,
+    isLoading: isLoadingDiff,
+    error: diffError,
+  } = useQuery<SnapshotDiffResponse>({
+    queryKey: ["sync-snapshot-diff", compare?.to, compare?.from],
+    enabled: !!compare,
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (compare!.from) params.set("against", compare!.from);
+      const res = await fetch(
+        `/api/sync-snapshots/${compare!.to}/diff?${params.toString()}`,
+      );
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to compare snapshots");
+      }
+      return res.json();
+    },
+  });
+
+  // Data sources that have per-data-source snapshots
+  const scopes = Array.from(
+    new Map(
+      snapshots
+        .filter((s) => s.dataSourceId)
+        .map((s) => [s.dataSourceId!, s.dataSourceName || "Unknown"]),
+    ).entries(),
+  );
+  const scopedSnapshots = snapshots.filter((s) =>
+    scope === FULL_STORE ? !s.dataSourceId : s.dataSourceId === scope,
+  );
+  const olderSnapshots = scopedSnapshots.filter(
+    (s) =>
+      toId &&
+      s.id !== toId &&
+      new Date(s.createdAt) <
+        new Date(scopedSnapshots.find((t) => t.id === toId)?.createdAt || 0),
+  );
+
+  const snapshotLabel = (s: SyncSnapshotListItem) =>
+    `${formatDatePST(s.createdAt)} (${s.totalVariants ?? 0} variants)`;
+
+  const csvUrl = compare
+    ? `/api/sync-snapshots/${compare.to}/diff?format=csv${
+        compare.from ? `&against=${compare.from}` : ""
+      }`
+    : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Sync Snapshot Changes
+        </CardTitle>
+        <CardDescription>
+          Compare two sync snapshots to see which variants a sync added,
+          removed, or changed stock and price for.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Store</Label>
+            <Select
+              value={storeId}
+              onValueChange={(value) => {
+                setStoreId(value);
+                setScope(FULL_STORE);
+                setToId("");
+                setFromId("");
+                setCompare(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select store" />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Scope</Label>
+            <Select
+              value={scope}
+              disabled={!storeId}
+              onValueChange={(value) => {
+                setScope(value);
+                setToId("");
+                setFromId("");
+                setCompare(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FULL_STORE}>Full store</SelectItem>
+                {scopes.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Snapshot</Label>
+            <Select
+              value={toId}
+              disabled={scopedSnapshots.length === 0}
+              onValueChange={(value) => {
+                setToId(value);
+                setFromId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select snapshot" />
+              </SelectTrigger>
+              <SelectContent>
+                {scopedSnapshots.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {snapshotLabel(s)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Compared with</Label>
+            <Select
+              value={fromId || "previous"}
+              disabled={!toId}
+              onValueChange={(value) =>
+                setFromId(value === "previous" ? "" : value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="previous">Previous snapshot</SelectItem>
+                {olderSnapshots.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {snapshotLabel(s)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            disabled={!toId}
+            onClick={() => setCompare({ to: toId, from: fromId })}
+          >
+            <GitCompare className="mr-2 h-4 w-4" />
+            Compare
+          </Button>
+          {diff && (
+            <Button variant="outline" asChild>
+              <a href={csvUrl}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </a>
+            </Button>
+          )}
+        </div>
+
+        {isLoadingDiff ? (
+          <p className="text-sm text-muted-foreground">Comparing snapshots...</p>
+        ) : diffError ? (
+          <p className="text-sm text-destructive">
+            {(diffError as Error).message}
+          </p>
+        ) : diff ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {formatDatePST(diff.from.createdAt)} ({diff.from.totalVariants}{" "}
+              variants) → {formatDatePST(diff.to.createdAt)} (
+              {diff.to.totalVariants} variants)
+            </p>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">+{diff.counts.added} added</Badge>
+              <Badge variant="outline">-{diff.counts.removed} removed</Badge>
+              <Badge variant="outline">
+                {diff.counts.stockChanged} stock changes
+              </Badge>
+              <Badge variant="outline">
+                {diff.counts.priceChanged} price changes
+              </Badge>
+              <Badge variant="outline">{diff.counts.unchanged} unchanged</Badge>
+            </div>
+            {diff.truncated && (
+              <p className="text-xs text-muted-foreground">
+                Only the first entries are listed; export CSV for the full
+                comparison.
+              </p>
+            )}
+            {diff.vendors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No variant changes between these snapshots.
+              </p>
+            ) : (
+              <Accordion type="multiple" className="w-full">
+                {diff.vendors.map((vendor) => (
+                  <AccordionItem key={vendor.vendor} value={vendor.vendor}>
+                    <AccordionTrigger>
+                      <div className="flex items-center gap-3">
+                        <span>{vendor.vendor}</span>
+                        <CountBadges counts={vendor.counts} />
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      {vendor.styles.map((group) => (
+                        <div key={group.style}>
+                          <div className="flex items-center gap-3 mb-1">
+                            <h4 className="text-sm font-medium">
+                              {group.style}
+                            </h4>
+                            <CountBadges counts={group.counts} />
+                          </div>
+                          {group.entries.length > 0 && (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>SKU</TableHead>
+                                  <TableHead>Color</TableHead>
+                                  <TableHead>Size</TableHead>
+                                  <TableHead>Change</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {group.entries.map((entry) => (
+                                  <TableRow
+                                    key={`${entry.change}-${entry.variantId || entry.sku}`}
+                                  >
+                                    <TableCell className="font-mono text-xs">
+                                      {entry.sku}
+                                    </TableCell>
+                                    <TableCell>{entry.color}</TableCell>
+                                    <TableCell>{entry.size}</TableCell>
+                                    <TableCell>{describeEntry(entry)}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                        </div>
+                      ))}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * allocatedStockSync.ts — Store stock syncs that publish allocated stock
+ *
+ * Allocation rules and open-order reservations (stockAllocation.ts) decide
+ * how much of each item a channel may offer. The syncs started here hand
+ * that allocation to the sync modules, so the first write of every variant
+ * is already the allocated quantity — no pass afterwards lowers it:
+ *
+ *   - syncShopifyStock()        syncInventoryToShopify(/Sequential) with the
+ *                               "shopify" allocator (stockAllocator option)
+ *   - syncShopifyAfterImport()  triggerShopifySyncAfterImport() with the
+ *                               same option
+ *   - syncEbayStock()           the "ebay" allocation of every listed SKU,
+ *                               pushed through the eBay channel adapter
+ *
+ * Syncs the scheduler starts on its own timetable pass
+ * buildStockAllocator("shopify") the same way.
+ *
+ * eBay quantities are planned from master inventory, never from the
+ * Shopify variant cache (which holds the Shopify allocation): variants are
+ * matched by SKU (or style-color-size when the item has no SKU), the first
+ * item per SKU wins, as in the sync audit. A listed variant with no master
+ * item keeps mirroring its Shopify stock.
+ */
+
+import { storage } from "./storage";
+import {
+  syncInventoryToShopify,
+  syncInventoryToShopifySequential,
+} from "./shopify";
+import { triggerShopifySyncAfterImport } from "./scheduler";
+import { buildStockAllocator, type StockAllocator } from "./stockAllocation";
+import { ebayChannelAdapter } from "./ebayChannelAdapter";
+
+export interface PlannedStockUpdate {
+  sku: string;
+  quantity: number;
+  /** Whether the quantity came from a master inventory allocation */
+  allocated: boolean;
+}
+
+// ============================================================
+// PLAN
+// ============================================================
+
+function itemSkuKey(item: any): string {
+  const sku =
+    item.sku ||
+    `${String(item.style || "").replace(/\s+/g, "-")}-${item.color || ""}-${item.size ?? ""}`;
+  return String(sku).toLowerCase();
+}
+
+/** The quantity to publish for each variant with a SKU */
+export function planAllocatedStock(
+  items: any[],
+  variants: any[],
+  allocate: StockAllocator,
+): PlannedStockUpdate[] {
+  const itemBySku = new Map<string, any>();
+  for (const item of items) {
+    const key = itemSkuKey(item);
+    if (!itemBySku.has(key)) itemBySku.set(key, item);
+  }
+
+  const updates: PlannedStockUpdate[] = [];
+  const planned = new Set<string>();
+  for (const variant of variants) {
+    if (!variant.sku) continue;
+    const key = String(variant.sku).toLowerCase();
+    if (planned.has(key)) continue;
+    planned.add(key);
+    const item = itemBySku.get(key);
+    updates.push(
+      item
+        ? { sku: variant.sku, quantity: allocate(item).quantity, allocated: true }
+        : { sku: variant.sku, quantity: Math.max(0, variant.stock ?? 0), allocated: false },
+    );
+  }
+  return updates;
+}
+
+/** Master inventory of the store's data sources */
+async function loadStoreItems(storeId: string): Promise<any[]> {
+  const dataSources = await storage.getDataSources();
+  const items: any[] = [];
+  for (const ds of dataSources) {
+    if (ds.shopifyStoreId !== storeId) continue;
+    for (const item of await storage.getInventoryItems(ds.id)) {
+      items.push({ ...item, dataSourceId: item.dataSourceId || ds.id });
+    }
+  }
+  return items;
+}
+
+// ============================================================
+// SHOPIFY
+// ============================================================
+
+/** Inventory sync to Shopify, publishing each item's allocation */
+export async function syncShopifyStock(
+  storeId: string,
+  dryRun: boolean,
+  options: { dataSourceIds?: string[]; sequential?: boolean } = {},
+) {
+  const syncOptions = {
+    dataSourceIds: options.dataSourceIds,
+    stockAllocator: await buildStockAllocator("shopify"),
+  };
+  return options.sequential
+    ? syncInventoryToShopifySequential(storeId, dryRun, syncOptions)
+    : syncInventoryToShopify(storeId, dryRun, syncOptions);
+}
+
+/** Auto-sync after an import, publishing each item's allocation */
+export async function syncShopifyAfterImport(dataSourceId: string): Promise<void> {
+  await triggerShopifySyncAfterImport(dataSourceId, {
+    stockAllocator: await buildStockAllocator("shopify"),
+  });
+}
+
+// ============================================================
+// EBAY
+// ============================================================
+
+/** The "ebay" allocation of every SKU of the store's listed products */
+export async function syncEbayStock(storeId: string): Promise<{
+  synced: number;
+  errors: string[];
+  allocated: number;
+}> {
+  // eBay mirrors the Shopify variants of listed products
+  const listed = await storage.getEbayListingQueue(storeId, "listed");
+  const productIds = [
+    ...new Set(listed.map((item: any) => item.shopifyProductId).filter(Boolean)),
+  ] as string[];
+  if (productIds.length === 0) {
+    return { synced: 0, errors: [], allocated: 0 };
+  }
+  const variants = await storage.getVariantCacheByProductIds(storeId, productIds);
+
+  const updates = planAllocatedStock(
+    await loadStoreItems(storeId),
+    variants,
+    await buildStockAllocator("ebay"),
+  );
+  if (updates.length === 0) {
+    return { synced: 0, errors: [], allocated: 0 };
+  }
+
+  const result = await ebayChannelAdapter.pushStock(
+    { channel: null, storeId },
+    updates.map(({ sku, quantity }) => ({ sku, quantity })),
+  );
+  const errors = [...result.errors];
+  if (result.error) errors.push(result.error);
+
+  return {
+    synced: result.pushed,
+    errors,
+    allocated: updates.filter((update) => update.allocated).length,
+  };
+}
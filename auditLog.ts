@@ -0,0 +1,468 @@
+/**
+ * auditLog.ts — Append-only log of user actions across the API
+ *
+ * auditRequests is mounted on /api ahead of the permission check and records
+ * every mutating request (POST / PUT / PATCH / DELETE): who sent it, the
+ * route, the target entity, what changed, and how it ended — requests the
+ * permission check refused included (403).
+ *
+ * Targets come from the path (/api/<resource>/<id>/...). For resources with
+ * a loader in TARGET_LOADERS (data sources, variant rules, metafield rules,
+ * channel integrations) the record is read before and after the request and
+ * the changed top-level fields are kept as { before, after } — secrets
+ * redacted, large values truncated.
+ *
+ * Routes that delete Shopify data attach their deletion log with
+ * annotateAudit(): either the sync log whose deletion logs storage already
+ * holds (syncLogId), or the list of variants the route deleted itself,
+ * kept with the entry and served by /api/audit-log/:id/deletions.
+ *
+ * Entries are rows of the audit_log table (created on first use), inserted
+ * once and never updated, indexed by time, user and target so queries read
+ * one page. Rows older than AUDIT_RETENTION_DAYS are deleted at most once a
+ * day, when an entry is written.
+ */
+
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { and, count, desc, eq, gte, ilike, lt, lte, sql } from "drizzle-orm";
+import {
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { db } from "./db";
+import { storage } from "./storage";
+
+const AUDIT_RETENTION_DAYS = parseInt(process.env.AUDIT_RETENTION_DAYS || "365");
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_QUERY_LIMIT = 1000;
+const MAX_VALUE_LENGTH = 2000;
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(["updatedAt", "lastImportStats", "lastSync"]);
+const SECRET_FIELD =
+  /password|secret|token|api[-_]?key|accesskey|credential|authorization|cookie|bearer/i;
+// Request headers configured on a record (URL sources, webhooks) can carry
+// auth under any name, so every value below such a key is redacted
+const HEADERS_FIELD = /^headers$/i;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface AuditFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditDeletion {
+  productId?: string | null;
+  variantId?: string | null;
+  sku?: string | null;
+  title?: string | null;
+  deleted: boolean;
+  error?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  userId: string | null;
+  userEmail: string | null;
+  method: string;
+  /** Express route pattern, e.g. /api/data-sources/:id */
+  route: string;
+  path: string;
+  targetType: string | null;
+  targetId: string | null;
+  changes?: Record<string, AuditFieldChange>;
+  outcome: "success" | "failure";
+  statusCode: number;
+  error?: string;
+  durationMs: number;
+  /** Where the Shopify deletions this action made are logged */
+  deletionLog?: { syncLogId?: string; count?: number; url: string };
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  userId?: string;
+  method?: string;
+  route?: string;
+  targetType?: string;
+  targetId?: string;
+  outcome?: "success" | "failure";
+  limit?: number;
+  offset?: number;
+}
+
+interface AuditAnnotation {
+  syncLogId?: string;
+  deletions?: AuditDeletion[];
+  details?: Record<string, unknown>;
+}
+
+// ============================================================
+// TARGETS
+// ============================================================
+
+const TARGET_LOADERS: Record<string, (id: string) => Promise<any>> = {
+  "data-sources": (id) => storage.getDataSource(id),
+  rules: async (id) =>
+    (await storage.getVariantRules(undefined)).find((r: any) => r.id === id),
+  "shopify-metafield-rules": async (id) =>
+    (await storage.getShopifyMetafieldRules(undefined)).find(
+      (r: any) => r.id === id,
+    ),
+  channels: async (id) =>
+    (await storage.getChannelIntegrations()).find((c: any) => c.id === id),
+};
+
+function parseTarget(path: string): { type: string | null; id: string | null } {
+  const [, , resource, id] = path.split("/");
+  if (!resource) return { type: null, id: null };
+  return { type: resource, id: id || null };
+}
+
+function sanitize(value: unknown, key = "", inHeaders = false): unknown {
+  if (value == null || value === "") return value;
+  if (SECRET_FIELD.test(key)) return "[redacted]";
+  const headers = inHeaders || HEADERS_FIELD.test(key);
+  if (Array.isArray(value)) return value.map((v) => sanitize(v, "", headers));
+  if (typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, sanitize(v, k, headers)]),
+    );
+  }
+  return headers ? "[redacted]" : value;
+}
+
+function compact(value: unknown): unknown {
+  const json = JSON.stringify(value);
+  if (json && json.length > MAX_VALUE_LENGTH) {
+    return `[truncated ${json.length} chars]`;
+  }
+  return value;
+}
+
+/** Changed top-level fields between two versions of a record */
+export function diffRecords(
+  before: any,
+  after: any,
+): Record<string, AuditFieldChange> | undefined {
+  if (!before && !after) return undefined;
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    // Compare raw values so a changed secret is still recorded (redacted)
+    if (JSON.stringify(before?.[key]) === JSON.stringify(after?.[key])) continue;
+    changes[key] = {
+      before: compact(sanitize(before?.[key], key) ?? null),
+      after: compact(sanitize(after?.[key], key) ?? null),
+    };
+  }
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+const auditLogTable = pgTable(
+  "audit_log",
+  {
+    id: text("id").primaryKey(),
+    at: timestamp("at", { withTimezone: true }).notNull(),
+    userId: text("user_id"),
+    method: text("method").notNull(),
+    route: text("route").notNull(),
+    targetType: text("target_type"),
+    targetId: text("target_id"),
+    outcome: text("outcome").notNull(),
+    statusCode: integer("status_code").notNull(),
+    entry: jsonb("entry").$type<AuditEntry>().notNull(),
+    deletions: jsonb("deletions").$type<AuditDeletion[]>(),
+  },
+);
+
+// The table isn't part of the shared schema, so it's created (with its
+// indexes) the first time the log is used
+let tableReady: Promise<void> | null = null;
+
+function ensureAuditTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = (async () => {
+      await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id text PRIMARY KEY,
+          at timestamptz NOT NULL,
+          user_id text,
+          method text NOT NULL,
+          route text NOT NULL,
+          target_type text,
+          target_id text,
+          outcome text NOT NULL,
+          status_code integer NOT NULL,
+          entry jsonb NOT NULL,
+          deletions jsonb
+        )`);
+      await db.execute(
+        sql`CREATE INDEX IF NOT EXISTS audit_log_at_idx ON audit_log (at)`,
+      );
+      await db.execute(
+        sql`CREATE INDEX IF NOT EXISTS audit_log_user_idx ON audit_log (user_id, at)`,
+      );
+      await db.execute(
+        sql`CREATE INDEX IF NOT EXISTS audit_log_target_idx ON audit_log (target_type, target_id, at)`,
+      );
+    })().catch((err) => {
+      tableReady = null;
+      throw err;
+    });
+  }
+  return tableReady;
+}
+
+let lastPrunedAt = 0;
+
+/** Delete entries older than the retention period */
+export async function pruneAuditLog(
+  retentionDays = AUDIT_RETENTION_DAYS,
+): Promise<number> {
+  await ensureAuditTable();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const deleted = await db
+    .delete(auditLogTable)
+    .where(lt(auditLogTable.at, cutoff))
+    .returning({ id: auditLogTable.id });
+  if (deleted.length > 0) {
+    console.log(
+      `[Audit] Pruned ${deleted.length} entries older than ${retentionDays} days`,
+    );
+  }
+  return deleted.length;
+}
+
+export async function appendAuditEntry(
+  entry: AuditEntry,
+  deletions?: AuditDeletion[],
+): Promise<void> {
+  try {
+    await ensureAuditTable();
+    await db.insert(auditLogTable).values({
+      id: entry.id,
+      at: new Date(entry.at),
+      userId: entry.userId,
+      method: entry.method,
+      route: entry.route,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      outcome: entry.outcome,
+      statusCode: entry.statusCode,
+      entry,
+      deletions: deletions?.length ? deletions : null,
+    });
+  } catch (err) {
+    console.error("[Audit] Failed to append entry:", err);
+    return;
+  }
+
+  if (Date.now() - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+    lastPrunedAt = Date.now();
+    pruneAuditLog().catch((err) => {
+      console.error("[Audit] Failed to prune entries:", err);
+    });
+  }
+}
+
+/** Matching entries, newest first (at most MAX_QUERY_LIMIT per page) */
+export async function queryAuditLog(
+  query: AuditQuery = {},
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  await ensureAuditTable();
+  const conditions = [
+    query.from && gte(auditLogTable.at, query.from),
+    query.to && lte(auditLogTable.at, query.to),
+    query.userId && eq(auditLogTable.userId, query.userId),
+    query.method && eq(auditLogTable.method, query.method.toUpperCase()),
+    query.route && ilike(auditLogTable.route, `%${query.route}%`),
+    query.targetType && eq(auditLogTable.targetType, query.targetType),
+    query.targetId && eq(auditLogTable.targetId, query.targetId),
+    query.outcome && eq(auditLogTable.outcome, query.outcome),
+  ].filter(Boolean) as any[];
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const limit = Math.min(Math.max(query.limit ?? 100, 0), MAX_QUERY_LIMIT);
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({ entry: auditLogTable.entry })
+      .from(auditLogTable)
+      .where(where)
+      .orderBy(desc(auditLogTable.at))
+      .limit(limit)
+      .offset(query.offset || 0),
+    db.select({ total: count() }).from(auditLogTable).where(where),
+  ]);
+  return { entries: rows.map((r) => r.entry), total: Number(total) };
+}
+
+export async function getAuditEntry(id: string): Promise<AuditEntry | null> {
+  await ensureAuditTable();
+  const [row] = await db
+    .select({ entry: auditLogTable.entry })
+    .from(auditLogTable)
+    .where(eq(auditLogTable.id, id))
+    .limit(1);
+  return row?.entry || null;
+}
+
+export async function getAuditDeletions(id: string): Promise<AuditDeletion[]> {
+  await ensureAuditTable();
+  const [row] = await db
+    .select({ deletions: auditLogTable.deletions })
+    .from(auditLogTable)
+    .where(eq(auditLogTable.id, id))
+    .limit(1);
+  return row?.deletions || [];
+}
+
+export function auditLogToCsv(entries: AuditEntry[]): string {
+  const escape = (value: unknown) => {
+    const str = value == null ? "" : String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const header = [
+    "At",
+    "User",
+    "Method",
+    "Route",
+    "Path",
+    "Target Type",
+    "Target ID",
+    "Outcome",
+    "Status",
+    "Error",
+    "Changed Fields",
+    "Changes",
+    "Deletion Log",
+  ];
+  const rows = entries.map((e) =>
+    [
+      e.at,
+      e.userEmail || e.userId || "",
+      e.method,
+      e.route,
+      e.path,
+      e.targetType,
+      e.targetId,
+      e.outcome,
+      e.statusCode,
+      e.error,
+      Object.keys(e.changes || {}).join(" "),
+      e.changes ? JSON.stringify(e.changes) : "",
+      e.deletionLog?.url,
+    ]
+      .map(escape)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\n");
+}
+
+// ============================================================
+// MIDDLEWARE
+// ============================================================
+
+/** Attach a deletion log or extra details to the request's audit entry */
+export function annotateAudit(res: Response, annotation: AuditAnnotation): void {
+  res.locals.audit = { ...(res.locals.audit || {}), ...annotation };
+}
+
+export async function auditRequests(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (["GET", "HEAD", "OPTIONS"].includes(req.method)) return next();
+
+  const startedAt = Date.now();
+  const path = req.baseUrl + req.path;
+  const target = parseTarget(path);
+  const loader = target.type ? TARGET_LOADERS[target.type] : undefined;
+
+  let before: any = null;
+  if (loader && target.id) {
+    try {
+      before = await loader(target.id);
+    } catch (err) {
+      console.error("[Audit] Failed to load target before request:", err);
+    }
+  }
+
+  // Keep the error message of failed responses
+  let responseError: string | undefined;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    if (res.statusCode >= 400 && body && typeof body === "object") {
+      responseError = body.error || body.message;
+    }
+    return originalJson(body);
+  };
+
+  res.on("finish", () => {
+    (async () => {
+      const success = res.statusCode < 400;
+      let after: any = null;
+      if (loader && target.id && success && req.method !== "DELETE") {
+        after = await loader(target.id).catch(() => null);
+      }
+      const user = (req as any).user?.claims;
+      const annotation: AuditAnnotation = res.locals.audit || {};
+      const entry: AuditEntry = {
+        id: crypto.randomUUID(),
+        at: new Date(startedAt).toISOString(),
+        userId: user?.sub || null,
+        userEmail: user?.email || null,
+        method: req.method,
+        // Sub-router routes (e.g. /api/ai-import) only know their local path
+        route: req.route?.path?.startsWith("/api") ? req.route.path : path,
+        path,
+        targetType: target.type,
+        targetId: target.id,
+        changes: loader && success ? diffRecords(before, after) : undefined,
+        outcome: success ? "success" : "failure",
+        statusCode: res.statusCode,
+        error: responseError,
+        durationMs: Date.now() - startedAt,
+        details: annotation.details,
+      };
+
+      let deletions: AuditDeletion[] | undefined;
+      if (annotation.syncLogId) {
+        entry.deletionLog = {
+          syncLogId: annotation.syncLogId,
+          url: `/api/shopify/sync-logs/${annotation.syncLogId}/deletion-logs`,
+        };
+      } else if (annotation.deletions?.length) {
+        deletions = annotation.deletions;
+        entry.deletionLog = {
+          count: deletions.length,
+          url: `/api/audit-log/${entry.id}/deletions`,
+        };
+      }
+
+      await appendAuditEntry(entry, deletions);
+    })().catch((err) => {
+      console.error("[Audit] Failed to record request:", err);
+    });
+  });
+
+  next();
+}
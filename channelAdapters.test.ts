@@ -0,0 +1,179 @@
+/**
+ * Channel adapter contract — every adapter reports per-SKU pushes, filters
+ * pulled orders by date and refuses listings it doesn't own the same way.
+ * The contract runs against the mock adapter; the eBay adapter hands its
+ * API calls to the eBay modules, so only its own checks are tested here
+ * (the store's listing queue is stubbed).
+ */
+
+import { test, describe, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import {
+  mockChannelAdapter,
+  resetMockChannels,
+  seedMockChannelOrders,
+  setMockChannelFailSkus,
+  getMockChannelState,
+} from "./mockChannelAdapter";
+import { ebayChannelAdapter } from "./ebayChannelAdapter";
+import type {
+  ChannelAdapter,
+  ChannelContext,
+  ChannelOrder,
+} from "./channelAdapters";
+
+const STORE_ID = "store-1";
+const CHANNEL_ID = "channel-1";
+const ctx: ChannelContext = { channel: { id: CHANNEL_ID }, storeId: STORE_ID };
+
+const ORDERS: ChannelOrder[] = [
+  {
+    externalId: "old-1",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    status: "FULFILLED",
+    lines: [{ sku: "SKU-A", quantity: 1, price: "10.00" }],
+  },
+  {
+    externalId: "new-1",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    status: "NOT_STARTED",
+    lines: [{ sku: "SKU-B", quantity: 2, price: "12.50" }],
+  },
+];
+
+interface Harness {
+  setup(options: { failSkus: string[]; orders: ChannelOrder[] }): void;
+  stock(): Map<string, number>;
+  prices(): Map<string, string>;
+  teardown?(): void;
+}
+
+function mockHarness(): Harness {
+  return {
+    setup(options) {
+      resetMockChannels();
+      setMockChannelFailSkus(CHANNEL_ID, options.failSkus);
+      seedMockChannelOrders(CHANNEL_ID, options.orders);
+    },
+    stock: () => getMockChannelState(CHANNEL_ID)!.stock,
+    prices: () =>
+      new Map(
+        [...getMockChannelState(CHANNEL_ID)!.prices].map(([sku, p]) => [sku, p.price]),
+      ),
+  };
+}
+
+// ============================================================
+// CONTRACT
+// ============================================================
+
+function channelAdapterContract(adapter: ChannelAdapter, harness: Harness) {
+  describe(`${adapter.type} channel adapter contract`, () => {
+    beforeEach(() => harness.setup({ failSkus: ["SKU-BAD"], orders: ORDERS }));
+    afterEach(() => harness.teardown?.());
+
+    test("declares per-SKU stock, prices and orders", () => {
+      assert.equal(adapter.capabilities.pushStock, true);
+      assert.equal(adapter.capabilities.pushPrices, true);
+      assert.equal(adapter.capabilities.pullOrders, true);
+    });
+
+    test("pushStock sets each SKU's quantity and reports rejected SKUs", async () => {
+      const updates = Array.from({ length: 30 }, (_, i) => ({
+        sku: `SKU-${i}`,
+        quantity: i,
+      }));
+      updates.push({ sku: "SKU-BAD", quantity: 5 });
+
+      const result = await adapter.pushStock(ctx, updates);
+
+      assert.equal(result.success, true);
+      assert.equal(result.pushed, 30);
+      assert.equal(result.failed, 1);
+      assert.match(result.errors[0], /^SKU-BAD: /);
+      assert.equal(harness.stock().get("SKU-0"), 0);
+      assert.equal(harness.stock().get("SKU-29"), 29);
+      assert.equal(harness.stock().has("SKU-BAD"), false);
+    });
+
+    test("pushPrices sets each SKU's price and reports rejected SKUs", async () => {
+      const result = await adapter.pushPrices(ctx, [
+        { sku: "SKU-A", price: "19.99" },
+        { sku: "SKU-BAD", price: "5.00" },
+      ]);
+
+      assert.equal(result.success, true);
+      assert.equal(result.pushed, 1);
+      assert.equal(result.failed, 1);
+      assert.match(result.errors[0], /^SKU-BAD: /);
+      assert.equal(harness.prices().get("SKU-A"), "19.99");
+    });
+
+    test("pullOrders returns orders created since the given date", async () => {
+      const all = await adapter.pullOrders(ctx, {});
+      assert.equal(all.success, true);
+      assert.deepEqual(all.orders.map((o) => o.externalId), ["old-1", "new-1"]);
+
+      const recent = await adapter.pullOrders(ctx, {
+        since: new Date("2026-02-01T00:00:00.000Z"),
+      });
+      assert.deepEqual(recent.orders.map((o) => o.externalId), ["new-1"]);
+      assert.deepEqual(recent.orders[0].lines, [
+        { sku: "SKU-B", quantity: 2, price: "12.50" },
+      ]);
+    });
+
+    test("endListing reports unknown listings as not found", async () => {
+      const result = await adapter.endListing(ctx, { listingId: "missing" });
+      assert.equal(result.success, false);
+      assert.equal(result.notFound, true);
+    });
+  });
+}
+
+channelAdapterContract(mockChannelAdapter, mockHarness());
+
+// ============================================================
+// eBay specifics
+// ============================================================
+
+describe("ebay channel adapter", () => {
+  beforeEach(() => {
+    mock.method(storage, "getEbayListingQueueItem", async (id: string) =>
+      id === "other-store-item"
+        ? { id, shopifyStoreId: "store-2", ebayOfferId: "offer-x" }
+        : undefined,
+    );
+    mock.method(storage, "getEbayListingQueue", async () => []);
+  });
+  afterEach(() => mock.restoreAll());
+
+  test("endListing refuses another store's queue item", async () => {
+    const result = await ebayChannelAdapter.endListing(ctx, {
+      listingId: "other-store-item",
+    });
+    assert.equal(result.success, false);
+    assert.equal(result.notFound, true);
+  });
+
+  test("endListing reports unknown listings as not found", async () => {
+    const result = await ebayChannelAdapter.endListing(ctx, { listingId: "missing" });
+    assert.equal(result.success, false);
+    assert.equal(result.notFound, true);
+  });
+});
+
+describe("channel adapter registry", () => {
+  test("does not register the mock adapter in production", async () => {
+    const previous = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      const { getChannelAdapter } = await import("./channelAdapters");
+      assert.equal(getChannelAdapter("mock"), undefined);
+      assert.equal(getChannelAdapter("ebay"), ebayChannelAdapter);
+    } finally {
+      process.env.NODE_ENV = previous;
+    }
+  });
+});
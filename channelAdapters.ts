@@ -0,0 +1,159 @@
+/**
+ * channelAdapters.ts — Marketplace channel adapter interface and registry
+ *
+ * A channel integration (channelIntegrations, /api/channels) is driven by
+ * the adapter registered for its `type`. Adapters cover the five things the
+ * app does with a marketplace:
+ *
+ *   - createListing   list a Shopify product on the channel
+ *   - pushStock       set per-SKU quantities (channelSync.ts computes them
+ *                     from master inventory, after the channel's buffers)
+ *   - pushPrices      set per-SKU prices
+ *   - pullOrders      fetch orders placed on the channel since a date
+ *   - endListing      take a listing down
+ *
+ * Not every marketplace supports every operation; `capabilities` says which
+ * ones an adapter implements, and unsupported calls return
+ * { success: false } rather than throwing.
+ *
+ * Adding a marketplace means writing an adapter and registering it here.
+ * Built in: "ebay" (ebayChannelAdapter.ts), and "mock" (mockChannelAdapter.ts,
+ * in-memory) which is only registered when NODE_ENV is development or test.
+ */
+
+import { ebayChannelAdapter } from "./ebayChannelAdapter";
+import { mockChannelAdapter } from "./mockChannelAdapter";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ChannelContext {
+  /** The channelIntegrations record (null when called outside /api/channels) */
+  channel: any | null;
+  /** Shopify store the channel lists products from */
+  storeId: string;
+}
+
+export interface ChannelCapabilities {
+  createListing: boolean;
+  pushStock: boolean;
+  pushPrices: boolean;
+  pullOrders: boolean;
+  endListing: boolean;
+}
+
+export interface ChannelStockUpdate {
+  sku: string;
+  quantity: number;
+}
+
+export interface ChannelPriceUpdate {
+  sku: string;
+  price: string;
+  compareAtPrice?: string | null;
+}
+
+export interface ChannelListingRequest {
+  shopifyProductId: string;
+  reason?: string;
+}
+
+export interface ChannelListingRef {
+  /** Adapter-specific listing reference (eBay: queue item ID) */
+  listingId?: string;
+  shopifyProductId?: string;
+  /** eBay: offer ID for Inventory API withdrawal */
+  offerId?: string;
+}
+
+export interface ChannelOrderLine {
+  sku: string;
+  quantity: number;
+  price?: string;
+}
+
+export interface ChannelOrder {
+  externalId: string;
+  createdAt: string;
+  status: string;
+  lines: ChannelOrderLine[];
+  total?: string;
+  customerName?: string;
+}
+
+export interface ChannelOpResult {
+  success: boolean;
+  error?: string;
+  /** The listing / product referenced doesn't exist on the channel */
+  notFound?: boolean;
+  listingId?: string;
+  message?: string;
+}
+
+export interface ChannelPushResult {
+  success: boolean;
+  pushed: number;
+  failed: number;
+  errors: string[];
+  error?: string;
+}
+
+export interface ChannelAdapter {
+  type: string;
+  displayName: string;
+  capabilities: ChannelCapabilities;
+  createListing(
+    ctx: ChannelContext,
+    request: ChannelListingRequest,
+  ): Promise<ChannelOpResult>;
+  pushStock(
+    ctx: ChannelContext,
+    updates: ChannelStockUpdate[],
+  ): Promise<ChannelPushResult>;
+  pushPrices(
+    ctx: ChannelContext,
+    updates: ChannelPriceUpdate[],
+  ): Promise<ChannelPushResult>;
+  pullOrders(
+    ctx: ChannelContext,
+    options: { since?: Date },
+  ): Promise<{ success: boolean; orders: ChannelOrder[]; error?: string }>;
+  endListing(
+    ctx: ChannelContext,
+    ref: ChannelListingRef,
+  ): Promise<ChannelOpResult>;
+}
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+const adapters = new Map<string, ChannelAdapter>();
+
+export function registerChannelAdapter(adapter: ChannelAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+export function getChannelAdapter(type: string): ChannelAdapter | undefined {
+  return adapters.get(type);
+}
+
+export function listChannelAdapters(): Array<{
+  type: string;
+  displayName: string;
+  capabilities: ChannelCapabilities;
+}> {
+  return [...adapters.values()].map(({ type, displayName, capabilities }) => ({
+    type,
+    displayName,
+    capabilities,
+  }));
+}
+
+// Adapters only import types from this module, so registering them here
+// can't create an import cycle
+registerChannelAdapter(ebayChannelAdapter);
+if (["development", "test"].includes(process.env.NODE_ENV || "")) {
+  registerChannelAdapter(mockChannelAdapter);
+}
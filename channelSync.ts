@@ -0,0 +1,285 @@
+/**
+ * channelSync.ts — Push master inventory to a channel integration
+ *
+ * For each channel integration the sync config (app setting
+ * CHANNEL_SYNC_CONFIG_PREFIX + channel ID) says which Shopify store it lists
+ * from, which data sources feed it, and how much stock to hold back:
+ *
+ *   quantity = max(0, floor(stock × (1 − bufferPercent/100)) − stockBuffer)
+ *              capped at maxQuantity
+ *
+ * Each item's stock first goes through the channel's allocation rules
+ * (stockAllocation.ts, keyed by the adapter type, after its share of the
+ * SKU's open-order reservation is subtracted); the allocated quantities
+ * are summed per SKU across the selected data sources, buffered, and handed
+ * to the channel's adapter (channelAdapters.ts).
+ */
+
+import { storage } from "./storage";
+import { buildStockAllocator, type StockAllocator } from "./stockAllocation";
+import {
+  loadReservationLookup,
+  splitReservation,
+  type ReservationLookup,
+} from "./stockReservations";
+import {
+  getChannelAdapter,
+  type ChannelContext,
+  type ChannelPriceUpdate,
+  type ChannelStockUpdate,
+} from "./channelAdapters";
+
+const CHANNEL_SYNC_CONFIG_PREFIX = "channel_sync_config:";
+// Updates returned in a dry run
+const DRY_RUN_SAMPLE = 200;
+
+// ============================================================
+// CONFIG
+// ============================================================
+
+export interface ChannelSyncConfig {
+  /** Shopify store the channel lists from (null = first connected store) */
+  storeId: string | null;
+  /** Data sources feeding the channel (empty = all of master inventory) */
+  dataSourceIds: string[];
+  /** Units held back per SKU */
+  stockBuffer: number;
+  /** Percent held back per SKU, applied before stockBuffer */
+  bufferPercent: number;
+  /** Most units offered per SKU (null = no cap) */
+  maxQuantity: number | null;
+  /** Also push master inventory prices */
+  pushPrices: boolean;
+}
+
+export const DEFAULT_CHANNEL_SYNC_CONFIG: ChannelSyncConfig = {
+  storeId: null,
+  dataSourceIds: [],
+  stockBuffer: 0,
+  bufferPercent: 0,
+  maxQuantity: null,
+  pushPrices: false,
+};
+
+export async function getChannelSyncConfig(
+  channelId: string,
+): Promise<ChannelSyncConfig> {
+  const saved = await storage.getAppSetting(
+    CHANNEL_SYNC_CONFIG_PREFIX + channelId,
+  );
+  return { ...DEFAULT_CHANNEL_SYNC_CONFIG, ...(saved || {}) };
+}
+
+export async function saveChannelSyncConfig(
+  channelId: string,
+  updates: Partial<ChannelSyncConfig>,
+): Promise<{ config?: ChannelSyncConfig; error?: string }> {
+  const config = { ...(await getChannelSyncConfig(channelId)), ...updates };
+
+  if (!Number.isFinite(config.stockBuffer) || config.stockBuffer < 0) {
+    return { error: "stockBuffer must be a number ≥ 0" };
+  }
+  if (
+    !Number.isFinite(config.bufferPercent) ||
+    config.bufferPercent < 0 ||
+    config.bufferPercent > 100
+  ) {
+    return { error: "bufferPercent must be between 0 and 100" };
+  }
+  if (
+    config.maxQuantity !== null &&
+    (!Number.isFinite(config.maxQuantity) || config.maxQuantity < 0)
+  ) {
+    return { error: "maxQuantity must be a number ≥ 0 or null" };
+  }
+  if (!Array.isArray(config.dataSourceIds)) {
+    return { error: "dataSourceIds must be an array" };
+  }
+  if (config.storeId) {
+    const store = await storage.getShopifyStore(config.storeId);
+    if (!store) return { error: "Shopify store not found" };
+  }
+
+  await storage.setAppSetting(CHANNEL_SYNC_CONFIG_PREFIX + channelId, config);
+  return { config };
+}
+
+export function applyChannelBuffer(
+  stock: number,
+  config: Pick<ChannelSyncConfig, "stockBuffer" | "bufferPercent" | "maxQuantity">,
+): number {
+  let quantity = Math.max(0, Math.floor(stock || 0));
+  if (config.bufferPercent > 0) {
+    quantity = Math.floor(quantity * (1 - config.bufferPercent / 100));
+  }
+  quantity = Math.max(0, quantity - (config.stockBuffer || 0));
+  if (config.maxQuantity !== null && config.maxQuantity !== undefined) {
+    quantity = Math.min(quantity, config.maxQuantity);
+  }
+  return quantity;
+}
+
+// ============================================================
+// CONTEXT
+// ============================================================
+
+/** Adapter context for a channel record, or an error when it can't run */
+export async function resolveChannelContext(
+  channel: any,
+): Promise<{ ctx?: ChannelContext; config?: ChannelSyncConfig; error?: string }> {
+  const config = await getChannelSyncConfig(channel.id);
+  let storeId = config.storeId;
+  if (!storeId) {
+    const stores = await storage.getShopifyStores();
+    storeId =
+      stores.find((s) => s.status === "connected")?.id || stores[0]?.id || null;
+  }
+  if (!storeId) {
+    return { error: "No Shopify store configured for this channel" };
+  }
+  return { ctx: { channel, storeId }, config };
+}
+
+// ============================================================
+// STOCK SYNC
+// ============================================================
+
+export interface ChannelSyncResult {
+  success: boolean;
+  error?: string;
+  channelId: string;
+  adapter: string;
+  dryRun: boolean;
+  /** SKUs with a computed quantity */
+  total: number;
+  pushed: number;
+  failed: number;
+  errors: string[];
+  pricesPushed?: number;
+  /** Computed updates (dry run only, first DRY_RUN_SAMPLE) */
+  updates?: Array<ChannelStockUpdate & { stock: number }>;
+}
+
+/** Per-SKU allocated master stock for the channel's data sources */
+async function loadMasterStock(
+  config: ChannelSyncConfig,
+  allocate: StockAllocator,
+  reservations: ReservationLookup,
+): Promise<Map<string, { sku: string; stock: number; price: string | null }>> {
+  const items = await storage.getMasterInventory();
+  const sources = new Set(config.dataSourceIds);
+  const itemsBySku = new Map<string, any[]>();
+  for (const item of items as any[]) {
+    if (!item.sku) continue;
+    if (sources.size > 0 && !sources.has(item.dataSourceId)) continue;
+    const key = String(item.sku).toLowerCase();
+    const group = itemsBySku.get(key);
+    if (group) group.push(item);
+    else itemsBySku.set(key, [item]);
+  }
+
+  const bySku = new Map<
+    string,
+    { sku: string; stock: number; price: string | null }
+  >();
+  for (const [key, group] of itemsBySku) {
+    // The SKU's open orders come off the summed stock once, not per item
+    const shares = splitReservation(group, reservations);
+    const priced = group.find((item) => item.price != null);
+    bySku.set(key, {
+      sku: String(group[0].sku),
+      stock: group.reduce(
+        (sum, item, i) => sum + allocate(item, shares[i]).quantity,
+        0,
+      ),
+      price: priced ? String(priced.price) : null,
+    });
+  }
+  return bySku;
+}
+
+export async function syncChannelStock(
+  channel: any,
+  options: { dryRun?: boolean } = {},
+): Promise<ChannelSyncResult> {
+  const dryRun = !!options.dryRun;
+  const base = {
+    channelId: channel.id,
+    adapter: channel.type,
+    dryRun,
+    total: 0,
+    pushed: 0,
+    failed: 0,
+    errors: [] as string[],
+  };
+
+  const adapter = getChannelAdapter(channel.type);
+  if (!adapter) {
+    return { ...base, success: false, error: `No adapter for channel type "${channel.type}"` };
+  }
+  if (!adapter.capabilities.pushStock) {
+    return { ...base, success: false, error: `${adapter.displayName} does not support stock push` };
+  }
+
+  const { ctx, config, error } = await resolveChannelContext(channel);
+  if (!ctx || !config) {
+    return { ...base, success: false, error };
+  }
+
+  const reservations = await loadReservationLookup();
+  const allocate = await buildStockAllocator(adapter.type, { reservations });
+  const masterStock = await loadMasterStock(config, allocate, reservations);
+  const updates = [...masterStock.values()].map((entry) => ({
+    sku: entry.sku,
+    stock: entry.stock,
+    quantity: applyChannelBuffer(entry.stock, config),
+  }));
+  const logPrefix = `[ChannelSync:${adapter.type}:${channel.id.substring(0, 8)}]`;
+
+  if (dryRun) {
+    return {
+      ...base,
+      success: true,
+      total: updates.length,
+      updates: updates.slice(0, DRY_RUN_SAMPLE),
+    };
+  }
+
+  console.log(`${logPrefix} Pushing ${updates.length} SKUs`);
+  const stockResult = await adapter.pushStock(
+    ctx,
+    updates.map(({ sku, quantity }) => ({ sku, quantity })),
+  );
+
+  let pricesPushed: number | undefined;
+  const errors = [...stockResult.errors];
+  if (config.pushPrices && adapter.capabilities.pushPrices) {
+    const priceUpdates: ChannelPriceUpdate[] = [...masterStock.values()]
+      .filter((entry) => entry.price)
+      .map((entry) => ({ sku: entry.sku, price: entry.price! }));
+    const priceResult = await adapter.pushPrices(ctx, priceUpdates);
+    pricesPushed = priceResult.pushed;
+    errors.push(...priceResult.errors);
+    if (priceResult.error) errors.push(priceResult.error);
+  }
+
+  if (stockResult.success) {
+    await storage.updateChannelIntegration(channel.id, {
+      lastSync: new Date(),
+    } as any);
+  }
+  console.log(
+    `${logPrefix} Done: ${stockResult.pushed} pushed, ${stockResult.failed} failed`,
+  );
+
+  return {
+    ...base,
+    success: stockResult.success,
+    error: stockResult.error,
+    total: updates.length,
+    pushed: stockResult.pushed,
+    failed: stockResult.failed,
+    errors,
+    pricesPushed,
+  };
+}
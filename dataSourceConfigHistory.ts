@@ -0,0 +1,392 @@
+/**
+ * dataSourceConfigHistory.ts — Versioned data source import config
+ *
+ * Every change to the fields that shape an import (column mapping, parse /
+ * sheet / cleaning config, size limits, pricing and stock rules —
+ * VERSIONED_FIELDS) is kept as a numbered version with who made it and how:
+ *
+ *   - update    PATCH /api/data-sources/:id
+ *   - auto      the import engine correcting the detected file format
+ *   - revert    restoring an earlier version (a new version, history is
+ *               never rewritten)
+ *
+ * The first change also records the config as it was before ("baseline"),
+ * so there is always something to revert to. Versions live in app settings
+ * (CONFIG_VERSIONS_PREFIX + data source ID), newest last.
+ *
+ * Imports stamp the version they ran with into their stats
+ * (ImportStats.configVersion) and record it here once their items are saved
+ * (IMPORT_VERSIONS_PREFIX + data source ID), with the IDs of the import logs
+ * written for them. Import logs, written outside this module, are tagged
+ * from those records rather than inferred from version timestamps.
+ */
+
+import { storage } from "./storage";
+
+const CONFIG_VERSIONS_PREFIX = "ds_config_versions:";
+// Oldest versions are dropped past this; numbering continues
+const MAX_VERSIONS = 200;
+
+export const VERSIONED_FIELDS = [
+  "columnMapping",
+  "cleaningConfig",
+  "sheetConfig",
+  "fileParseConfig",
+  "sizeLimitConfig",
+  "formatType",
+  "pivotConfig",
+  "stockValueConfig",
+  "complexStockConfig",
+  "valueReplacementRules",
+  "dateFormatConfig",
+  "requiredFieldsConfig",
+  "validationConfig",
+  "importValidationConfig",
+  "discontinuedRules",
+  "futureStockConfig",
+  "stockInfoConfig",
+  "regularPriceConfig",
+  "salePriceConfig",
+  "salesConfig",
+  "priceFloorCeiling",
+  "priceBasedExpansionConfig",
+  "variantSyncConfig",
+  "filterZeroStock",
+  "filterZeroStockWithFutureDates",
+  "minStockThreshold",
+  "stockThresholdEnabled",
+  "updateStrategy",
+] as const;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ConfigVersionSource = "baseline" | "update" | "auto" | "revert";
+
+export interface ConfigVersion {
+  version: number;
+  createdAt: string;
+  userId: string | null;
+  source: ConfigVersionSource;
+  note?: string;
+  /** For source "revert": the version restored */
+  revertedTo?: number;
+  /** Fields that differ from the previous version */
+  changedFields: string[];
+  config: Record<string, unknown>;
+}
+
+export interface ConfigValueChange {
+  /** Dotted path inside the config, e.g. columnMapping.style */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ConfigVersionDiff {
+  from: number;
+  to: number;
+  changedFields: string[];
+  changes: ConfigValueChange[];
+}
+
+interface ChangeMeta {
+  userId?: string | null;
+  source?: ConfigVersionSource;
+  note?: string;
+  revertedTo?: number;
+}
+
+// ============================================================
+// VERSIONS
+// ============================================================
+
+function pickConfig(dataSource: any): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const field of VERSIONED_FIELDS) {
+    config[field] = dataSource?.[field] ?? null;
+  }
+  return config;
+}
+
+function changedFieldsBetween(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+): string[] {
+  return VERSIONED_FIELDS.filter(
+    (f) => JSON.stringify(a[f] ?? null) !== JSON.stringify(b[f] ?? null),
+  );
+}
+
+export async function getConfigVersions(
+  dataSourceId: string,
+): Promise<ConfigVersion[]> {
+  const saved = await storage.getAppSetting(
+    CONFIG_VERSIONS_PREFIX + dataSourceId,
+  );
+  return (saved?.versions as ConfigVersion[]) || [];
+}
+
+export async function getConfigVersion(
+  dataSourceId: string,
+  version: number,
+): Promise<ConfigVersion | undefined> {
+  return (await getConfigVersions(dataSourceId)).find(
+    (v) => v.version === version,
+  );
+}
+
+export async function getCurrentConfigVersion(
+  dataSourceId: string,
+): Promise<number | null> {
+  const versions = await getConfigVersions(dataSourceId);
+  return versions.length > 0 ? versions[versions.length - 1].version : null;
+}
+
+/**
+ * Record a new version when the versioned fields changed between `before`
+ * and `after`. Returns null when nothing versioned changed.
+ */
+export async function recordConfigChange(
+  dataSourceId: string,
+  before: any,
+  after: any,
+  meta: ChangeMeta = {},
+): Promise<ConfigVersion | null> {
+  const versions = await getConfigVersions(dataSourceId);
+  const now = new Date().toISOString();
+
+  if (versions.length === 0 && before) {
+    versions.push({
+      version: 1,
+      // In effect since the data source was created, as far as we know
+      createdAt: before.createdAt
+        ? new Date(before.createdAt).toISOString()
+        : now,
+      userId: null,
+      source: "baseline",
+      changedFields: [],
+      config: pickConfig(before),
+    });
+  }
+
+  const config = pickConfig(after);
+  const previous = versions[versions.length - 1];
+  const changedFields = previous
+    ? changedFieldsBetween(previous.config, config)
+    : [...VERSIONED_FIELDS];
+  if (previous && changedFields.length === 0) return null;
+
+  const version: ConfigVersion = {
+    version: (previous?.version || 0) + 1,
+    createdAt: now,
+    userId: meta.userId || null,
+    source: meta.source || "update",
+    note: meta.note,
+    revertedTo: meta.revertedTo,
+    changedFields,
+    config,
+  };
+  versions.push(version);
+  await storage.setAppSetting(CONFIG_VERSIONS_PREFIX + dataSourceId, {
+    versions: versions.slice(-MAX_VERSIONS),
+  });
+  return version;
+}
+
+/** updateDataSource, versioning any import config it changes */
+export async function updateDataSourceConfig(
+  dataSourceId: string,
+  updates: Record<string, unknown>,
+  meta: ChangeMeta = {},
+): Promise<any> {
+  const before = await storage.getDataSource(dataSourceId);
+  const updated = await storage.updateDataSource(dataSourceId, updates as any);
+  if (updated && VERSIONED_FIELDS.some((f) => f in updates)) {
+    await recordConfigChange(dataSourceId, before, updated, meta);
+  }
+  return updated;
+}
+
+export async function revertConfigVersion(
+  dataSourceId: string,
+  version: number,
+  meta: { userId?: string | null } = {},
+): Promise<{ dataSource?: any; version?: ConfigVersion; error?: string }> {
+  const target = await getConfigVersion(dataSourceId, version);
+  if (!target) {
+    return { error: `Version ${version} not found` };
+  }
+  const current = await storage.getDataSource(dataSourceId);
+  if (!current) {
+    return { error: "Data source not found" };
+  }
+  // Only write the fields that differ from the live config
+  const updates: Record<string, unknown> = {};
+  for (const field of changedFieldsBetween(pickConfig(current), target.config)) {
+    updates[field] = target.config[field];
+  }
+  if (Object.keys(updates).length === 0) {
+    return { error: `Config already matches version ${version}` };
+  }
+  const updated = await updateDataSourceConfig(dataSourceId, updates, {
+    userId: meta.userId,
+    source: "revert",
+    revertedTo: version,
+  });
+  const versions = await getConfigVersions(dataSourceId);
+  return { dataSource: updated, version: versions[versions.length - 1] };
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+function flatten(
+  value: unknown,
+  prefix: string,
+  out: Map<string, unknown>,
+): Map<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) out.set(prefix, {});
+    for (const [key, child] of entries) {
+      flatten(child, `${prefix}.${key}`, out);
+    }
+  } else {
+    out.set(prefix, value ?? null);
+  }
+  return out;
+}
+
+export function diffConfigVersions(
+  from: ConfigVersion,
+  to: ConfigVersion,
+): ConfigVersionDiff {
+  const changedFields = changedFieldsBetween(from.config, to.config);
+  const changes: ConfigValueChange[] = [];
+  for (const field of changedFields) {
+    const a = flatten(from.config[field], field, new Map());
+    const b = flatten(to.config[field], field, new Map());
+    const paths = new Set([...a.keys(), ...b.keys()]);
+    for (const path of paths) {
+      const before = a.has(path) ? a.get(path) : null;
+      const after = b.has(path) ? b.get(path) : null;
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ path, before, after });
+      }
+    }
+  }
+  return { from: from.version, to: to.version, changedFields, changes };
+}
+
+// ============================================================
+// IMPORT LOGS
+// ============================================================
+
+const IMPORT_VERSIONS_PREFIX = "ds_import_config_versions:";
+// Oldest import records are dropped past this
+const MAX_IMPORT_RECORDS = 500;
+// Import logs are written by the caller, which may open one shortly before
+// the engine starts
+const LOG_START_GRACE_MS = 60 * 1000;
+
+export interface ImportConfigRecord {
+  startedAt: string;
+  finishedAt: string;
+  configVersion: number | null;
+  /** Import logs written for this import, when they existed at the end */
+  importLogIds: string[];
+}
+
+let importRecordChain: Promise<unknown> = Promise.resolve();
+
+async function getImportConfigRecords(
+  dataSourceId: string,
+): Promise<ImportConfigRecord[]> {
+  const saved = await storage.getAppSetting(
+    IMPORT_VERSIONS_PREFIX + dataSourceId,
+  );
+  return (saved?.imports as ImportConfigRecord[]) || [];
+}
+
+/**
+ * Record the config version an import ran with, once its items are saved,
+ * along with the import logs that started during it.
+ */
+export function recordImportConfigVersion(
+  dataSourceId: string,
+  configVersion: number | null,
+  startedAt: Date,
+): Promise<ImportConfigRecord> {
+  const run = importRecordChain.then(async () => {
+    const finishedAt = new Date();
+    const records = await getImportConfigRecords(dataSourceId);
+    const claimed = new Set(records.flatMap((r) => r.importLogIds));
+    const from = startedAt.getTime() - LOG_START_GRACE_MS;
+    const logs = await storage.getImportLogsByDataSource(dataSourceId, 5);
+    const importLogIds = (logs || [])
+      .filter((log: any) => {
+        if (!log.startedAt || claimed.has(String(log.id))) return false;
+        const time = new Date(log.startedAt).getTime();
+        return time >= from && time <= finishedAt.getTime();
+      })
+      .map((log: any) => String(log.id));
+
+    const record: ImportConfigRecord = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      configVersion,
+      importLogIds,
+    };
+    records.push(record);
+    await storage.setAppSetting(IMPORT_VERSIONS_PREFIX + dataSourceId, {
+      imports: records.slice(-MAX_IMPORT_RECORDS),
+    });
+    return record;
+  });
+  importRecordChain = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Import logs with the config version their import recorded: by log ID, or
+ * for logs written after the import finished, the import whose run they
+ * started in. Logs no import recorded get null.
+ */
+export async function tagImportLogsWithConfigVersion<
+  T extends {
+    id?: string | number | null;
+    dataSourceId?: string | null;
+    startedAt?: Date | string | null;
+  },
+>(logs: T[]): Promise<Array<T & { configVersion: number | null }>> {
+  const recordsBySource = new Map<string, ImportConfigRecord[]>();
+  for (const log of logs) {
+    if (log.dataSourceId && !recordsBySource.has(log.dataSourceId)) {
+      recordsBySource.set(
+        log.dataSourceId,
+        await getImportConfigRecords(log.dataSourceId),
+      );
+    }
+  }
+  return logs.map((log) => {
+    const records = log.dataSourceId
+      ? recordsBySource.get(log.dataSourceId) || []
+      : [];
+    const id = log.id != null ? String(log.id) : null;
+    let record = id
+      ? records.find((r) => r.importLogIds.includes(id))
+      : undefined;
+    if (!record && log.startedAt) {
+      const time = new Date(log.startedAt).getTime();
+      record = records.find(
+        (r) =>
+          time >= new Date(r.startedAt).getTime() - LOG_START_GRACE_MS &&
+          time <= new Date(r.finishedAt).getTime(),
+      );
+    }
+    return { ...log, configVersion: record ? record.configVersion : null };
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * ebayChannelAdapter.ts — eBay behind the channel adapter interface
+ *
+ * The adapter maps the interface onto the existing eBay modules, which own
+ * the API calls and the store's OAuth token (and its refresh):
+ *
+ *   - createListing   queues the product (queueProductForListing); the
+ *                     listing queue processor publishes it
+ *   - pushStock       syncStockToEbay with the quantities channelSync.ts
+ *                     computed (allocation rules and channel buffers
+ *                     already applied)
+ *   - pushPrices      updateOfferPrices — each SKU's offers on the
+ *                     store's marketplace
+ *   - pullOrders      getOrders, by creation date
+ *   - endListing      Trading API EndFixedPriceItem when the listing ID is
+ *                     known, else Inventory API offer withdrawal; sends the
+ *                     ebay.listing_ended webhook
+ */
+
+import { storage } from "./storage";
+import { emitWebhookEvent } from "./outboundWebhooks";
+import type {
+  ChannelAdapter,
+  ChannelContext,
+  ChannelListingRef,
+  ChannelOpResult,
+  ChannelOrder,
+  ChannelPriceUpdate,
+  ChannelPushResult,
+  ChannelStockUpdate,
+} from "./channelAdapters";
+
+function failedPush(error: string): ChannelPushResult {
+  return { success: false, pushed: 0, failed: 0, errors: [], error };
+}
+
+// ============================================================
+// STOCK / PRICES
+// ============================================================
+
+async function pushEbayStock(
+  ctx: ChannelContext,
+  updates: ChannelStockUpdate[],
+): Promise<ChannelPushResult> {
+  try {
+    const { syncStockToEbay } = await import("./ebayAutomation");
+    const result = await syncStockToEbay(ctx.storeId, {
+      quantities: updates.map((update) => ({
+        sku: update.sku,
+        quantity: Math.max(0, update.quantity),
+      })),
+    });
+    const errors: string[] = result.errors || [];
+    return { success: true, pushed: result.synced, failed: errors.length, errors };
+  } catch (error: any) {
+    return failedPush(error.message || String(error));
+  }
+}
+
+async function pushEbayPrices(
+  ctx: ChannelContext,
+  updates: ChannelPriceUpdate[],
+): Promise<ChannelPushResult> {
+  try {
+    const { updateOfferPrices } = await import("./ebayApi");
+    const result = await updateOfferPrices(ctx.storeId, updates);
+    if (!result.success) return failedPush(result.error || "eBay price update failed");
+    const errors: string[] = result.errors || [];
+    return { success: true, pushed: result.updated, failed: errors.length, errors };
+  } catch (error: any) {
+    return failedPush(error.message || String(error));
+  }
+}
+
+// ============================================================
+// ORDERS
+// ============================================================
+
+function toChannelOrder(order: any): ChannelOrder {
+  return {
+    externalId: order.orderId,
+    createdAt: order.creationDate,
+    status: order.orderFulfillmentStatus || order.orderPaymentStatus || "unknown",
+    lines: (order.lineItems || []).map((line: any) => ({
+      sku: line.sku || line.legacyItemId || "",
+      quantity: Number(line.quantity) || 0,
+      price: line.lineItemCost?.value,
+    })),
+    total: order.pricingSummary?.total?.value,
+    customerName: order.buyer?.username,
+  };
+}
+
+async function pullEbayOrders(
+  ctx: ChannelContext,
+  options: { since?: Date },
+): Promise<{ success: boolean; orders: ChannelOrder[]; error?: string }> {
+  try {
+    const { getOrders } = await import("./ebayApi");
+    const result = await getOrders(ctx.storeId, { since: options.since });
+    if (!result.success) {
+      return { success: false, orders: [], error: `eBay getOrders failed: ${result.error}` };
+    }
+    return { success: true, orders: (result.orders || []).map(toChannelOrder) };
+  } catch (error: any) {
+    return { success: false, orders: [], error: error.message || String(error) };
+  }
+}
+
+// ============================================================
+// LISTINGS
+// ============================================================
+
+async function endEbayListing(
+  ctx: ChannelContext,
+  ref: ChannelListingRef,
+): Promise<ChannelOpResult> {
+  const { storeId } = ctx;
+  let targetOfferId = ref.offerId;
+  let queueItem: any = null;
+
+  // If a queue item ID was given, look up the offer ID from the queue
+  if (ref.listingId) {
+    queueItem = await storage.getEbayListingQueueItem(ref.listingId);
+    // Queue items of another store are reported as missing, not ended
+    // with this store's token
+    if (!queueItem || queueItem.shopifyStoreId !== storeId) {
+      return { success: false, notFound: true, error: "Queue item not found" };
+    }
+    if (!queueItem.ebayOfferId) {
+      return {
+        success: false,
+        error: "This listing does not have an eBay offer ID",
+      };
+    }
+    targetOfferId = queueItem.ebayOfferId;
+  }
+
+  // If a product ID was given, look up the queue item by product ID
+  if (ref.shopifyProductId && !targetOfferId) {
+    const queueItems = await storage.getEbayListingQueue(storeId);
+    queueItem = queueItems.find(
+      (item: any) =>
+        item.shopifyProductId === ref.shopifyProductId &&
+        item.status === "listed" &&
+        item.ebayOfferId,
+    );
+    if (!queueItem) {
+      return {
+        success: false,
+        notFound: true,
+        error: "No listed queue item found for this product",
+      };
+    }
+    targetOfferId = queueItem.ebayOfferId;
+  }
+
+  // For ending active listings, we need to use the eBay listing ID (item ID)
+  // The Trading API EndFixedPriceItem is the proper way to end published listings
+  const ebayListingId = queueItem?.ebayListingId;
+
+  let result: { success: boolean; error?: string };
+
+  if (ebayListingId) {
+    console.log(`[End Listing] Using Trading API to end item: ${ebayListingId}`);
+    const { endListingByItemId } = await import("./ebayApi");
+    result = await endListingByItemId(storeId, ebayListingId);
+  } else if (targetOfferId) {
+    // Fall back to Inventory API offer withdrawal
+    console.log(
+      `[End Listing] Using Inventory API to withdraw offer: ${targetOfferId}`,
+    );
+    const { endListing } = await import("./ebayApi");
+    result = await endListing(storeId, targetOfferId);
+  } else {
+    return {
+      success: false,
+      error: "queueItemId, productId, or offerId is required",
+    };
+  }
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  if (queueItem) {
+    await storage.updateEbayListingQueueStatus(queueItem.id, "ended", undefined);
+  }
+
+  await storage.createEbayActivityLog({
+    shopifyStoreId: storeId,
+    activityType: "listing_ended",
+    shopifyProductId: queueItem?.shopifyProductId,
+    productTitle: queueItem?.productTitle || null,
+    sku: null,
+    // The webhook watcher sends ebay.listing_ended for ended listings it
+    // finds in the activity log, except the ones sent below
+    details: { ebayListingId: ebayListingId || targetOfferId, webhookSent: true },
+  });
+
+  emitWebhookEvent("ebay.listing_ended", {
+    storeId,
+    listingId: queueItem?.id || null,
+    ebayListingId: ebayListingId || null,
+    ebayOfferId: targetOfferId || null,
+    shopifyProductId: queueItem?.shopifyProductId || null,
+    productTitle: queueItem?.productTitle || null,
+  });
+
+  return {
+    success: true,
+    listingId: queueItem?.id,
+    message: "Listing ended successfully",
+  };
+}
+
+export const ebayChannelAdapter: ChannelAdapter = {
+  type: "ebay",
+  displayName: "eBay",
+  capabilities: {
+    createListing: true,
+    pushStock: true,
+    pushPrices: true,
+    pullOrders: true,
+    endListing: true,
+  },
+
+  async createListing(ctx, request) {
+    const { queueProductForListing } = await import("./ebayAutomation");
+    const result = await queueProductForListing(
+      ctx.storeId,
+      request.shopifyProductId,
+      request.reason || "manual",
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    if (result.addedToWatchlist) {
+      return {
+        success: true,
+        message: result.error || "Added to watchlist (zero stock)",
+      };
+    }
+    return { success: true, listingId: result.queueId, message: "Queued for listing" };
+  },
+
+  pushStock: pushEbayStock,
+  pushPrices: pushEbayPrices,
+  pullOrders: pullEbayOrders,
+  endListing: endEbayListing,
+};
@@ -0,0 +1,274 @@
+/**
+ * emailAttachmentFiles.ts — Which email attachments get imported
+ *
+ * Email data sources receive whatever vendors attach. This module decides,
+ * per file, whether it goes to the import (processEmailAttachment /
+ * executeImport) and why not when it doesn't:
+ *
+ *   - spreadsheets   .xlsx .xls .xlsb .ods .csv — parsed by content, so
+ *                    nothing else is needed downstream
+ *   - delimited text .txt .tsv — imported when tab- or comma-delimited
+ *                    (the CSV path picks the delimiter from the first line)
+ *   - archives       .zip — expanded (nested archives up to
+ *                    MAX_ARCHIVE_DEPTH); entries must match the data
+ *                    source's include pattern (emailSettings
+ *                    .archiveIncludePattern) when one is set
+ *
+ * Archives are sized from their central directory (readZipEntries) before
+ * anything is inflated: one declaring more than MAX_EXPANDED_BYTES, or more
+ * than is left of the message's MAX_MESSAGE_BYTES, is skipped whole. Each
+ * entry is inflated only up to its declared size, so an archive that lies
+ * about its sizes can't expand past them.
+ *
+ * Everything else is returned as skipped with the reason, for the fetch log.
+ */
+
+import * as path from "path";
+import { readZipEntries, inflateZipEntry } from "./streamingRowSource";
+
+export const SPREADSHEET_EXTENSIONS = [
+  ".xlsx",
+  ".xls",
+  ".xlsb",
+  ".ods",
+  ".csv",
+];
+export const TEXT_EXTENSIONS = [".txt", ".tsv"];
+export const ARCHIVE_EXTENSIONS = [".zip"];
+
+const MAX_ARCHIVE_DEPTH = 2;
+const MAX_ARCHIVE_ENTRIES = 500;
+// Expanded bytes per archive; a guard against zip bombs
+const MAX_EXPANDED_BYTES = 200 * 1024 * 1024;
+// Attachment bytes per message, archives counted expanded
+const MAX_MESSAGE_BYTES = 300 * 1024 * 1024;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface AttachmentFile {
+  filename: string;
+  content: Buffer;
+}
+
+export interface SkippedAttachment {
+  filename: string;
+  reason: string;
+}
+
+export interface ExpandedAttachments {
+  files: AttachmentFile[];
+  skipped: SkippedAttachment[];
+}
+
+// ============================================================
+// FILE TYPES
+// ============================================================
+
+function extensionOf(filename: string): string {
+  return path.extname(filename).toLowerCase();
+}
+
+export function isImportableFile(filename: string): boolean {
+  const ext = extensionOf(filename);
+  return SPREADSHEET_EXTENSIONS.includes(ext) || TEXT_EXTENSIONS.includes(ext);
+}
+
+export function isArchiveFile(filename: string): boolean {
+  return ARCHIVE_EXTENSIONS.includes(extensionOf(filename));
+}
+
+/** Attachments worth downloading: importable files and archives */
+export function isSupportedAttachment(filename: string): boolean {
+  return isImportableFile(filename) || isArchiveFile(filename);
+}
+
+function isDelimitedText(content: Buffer): boolean {
+  const firstLine = content
+    .toString("utf8", 0, Math.min(content.length, 4000))
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .find((line) => line.trim());
+  return !!firstLine && (firstLine.includes("\t") || firstLine.includes(","));
+}
+
+/**
+ * Include pattern: comma-separated globs (* and ?), matched against the
+ * entry's file name, or its path inside the archive when the glob has a "/".
+ */
+export function matchesIncludePattern(
+  entryPath: string,
+  pattern: string | null | undefined,
+): boolean {
+  const globs = (pattern || "")
+    .split(",")
+    .map((g) => g.trim())
+    .filter(Boolean);
+  if (globs.length === 0) return true;
+  return globs.some((glob) => {
+    const regex = new RegExp(
+      "^" +
+        glob
+          .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+          .replace(/\*/g, ".*")
+          .replace(/\?/g, ".") +
+        "$",
+      "i",
+    );
+    const subject = glob.includes("/") ? entryPath : path.basename(entryPath);
+    return regex.test(subject);
+  });
+}
+
+// ============================================================
+// EXPANSION
+// ============================================================
+
+function megabytes(bytes: number): string {
+  return `${Math.round(bytes / 1024 / 1024)}MB`;
+}
+
+function expandArchive(
+  archive: AttachmentFile,
+  includePattern: string | null | undefined,
+  depth: number,
+  budget: { remaining: number },
+  out: ExpandedAttachments,
+): void {
+  const entries = readZipEntries(archive.content);
+  if (!entries) {
+    out.skipped.push({
+      filename: archive.filename,
+      reason: "Archive could not be read (not a zip, or a zip64 archive)",
+    });
+    return;
+  }
+
+  // Pick the entries to expand from the central directory alone
+  const selected: typeof entries = [];
+  for (const entry of entries) {
+    if (entry.name.endsWith("/")) continue;
+    const filename = `${archive.filename}/${entry.name}`;
+    if (
+      entry.name.startsWith("__MACOSX/") ||
+      path.basename(entry.name).startsWith(".")
+    ) {
+      out.skipped.push({ filename, reason: "Archive metadata file" });
+      continue;
+    }
+    if (
+      !isArchiveFile(entry.name) &&
+      !matchesIncludePattern(entry.name, includePattern)
+    ) {
+      out.skipped.push({
+        filename,
+        reason: `Does not match include pattern "${includePattern}"`,
+      });
+      continue;
+    }
+    if (selected.length >= MAX_ARCHIVE_ENTRIES) {
+      out.skipped.push({
+        filename,
+        reason: `Archive has more than ${MAX_ARCHIVE_ENTRIES} files`,
+      });
+      continue;
+    }
+    selected.push(entry);
+  }
+
+  const declaredBytes = selected.reduce((sum, entry) => sum + entry.size, 0);
+  if (declaredBytes > MAX_EXPANDED_BYTES) {
+    out.skipped.push({
+      filename: archive.filename,
+      reason: `Archive expands to ${megabytes(declaredBytes)}, past the ${megabytes(MAX_EXPANDED_BYTES)} limit`,
+    });
+    return;
+  }
+  if (declaredBytes > budget.remaining) {
+    out.skipped.push({
+      filename: archive.filename,
+      reason: `Message attachments expand past ${megabytes(MAX_MESSAGE_BYTES)}`,
+    });
+    return;
+  }
+  budget.remaining -= declaredBytes;
+
+  for (const entry of selected) {
+    const filename = `${archive.filename}/${entry.name}`;
+    let content: Buffer;
+    try {
+      content = inflateZipEntry(archive.content, entry);
+    } catch (err: any) {
+      out.skipped.push({
+        filename,
+        reason: `Archive entry could not be read: ${err.message}`,
+      });
+      continue;
+    }
+
+    if (isArchiveFile(entry.name)) {
+      if (depth >= MAX_ARCHIVE_DEPTH) {
+        out.skipped.push({
+          filename,
+          reason: `Archive nested more than ${MAX_ARCHIVE_DEPTH} levels deep`,
+        });
+        continue;
+      }
+      expandArchive({ filename, content }, includePattern, depth + 1, budget, out);
+      continue;
+    }
+    addFile({ filename, content }, out);
+  }
+}
+
+function addFile(file: AttachmentFile, out: ExpandedAttachments): void {
+  if (!isImportableFile(file.filename)) {
+    out.skipped.push({
+      filename: file.filename,
+      reason: `Unsupported file type (${extensionOf(file.filename) || "no extension"})`,
+    });
+    return;
+  }
+  if (file.content.length === 0) {
+    out.skipped.push({ filename: file.filename, reason: "File is empty" });
+    return;
+  }
+  if (
+    TEXT_EXTENSIONS.includes(extensionOf(file.filename)) &&
+    !isDelimitedText(file.content)
+  ) {
+    out.skipped.push({
+      filename: file.filename,
+      reason: "Text file is not tab- or comma-delimited",
+    });
+    return;
+  }
+  out.files.push(file);
+}
+
+/**
+ * Importable files among downloaded attachments, with archives expanded.
+ * Files that won't be imported come back in `skipped` with the reason.
+ */
+export function expandAttachments(
+  attachments: AttachmentFile[],
+  includePattern?: string | null,
+): ExpandedAttachments {
+  const out: ExpandedAttachments = { files: [], skipped: [] };
+  const budget = { remaining: MAX_MESSAGE_BYTES };
+  for (const attachment of attachments) {
+    if (isArchiveFile(attachment.filename)) {
+      expandArchive(attachment, includePattern, 1, budget, out);
+    } else if (attachment.content.length > budget.remaining) {
+      out.skipped.push({
+        filename: attachment.filename,
+        reason: `Message attachments expand past ${megabytes(MAX_MESSAGE_BYTES)}`,
+      });
+    } else {
+      budget.remaining -= attachment.content.length;
+      addFile(attachment, out);
+    }
+  }
+  return out;
+}
@@ -1,4 +1,3 @@
-import { ImapFlow } from "imapflow";
 import { storage } from "./storage";
 import * as crypto from "crypto";
 import { execFile } from "child_process";
@@ -22,19 +21,30 @@ import {
   logSystemError,
 } from "./importUtils";
 import { triggerAutoConsolidationAfterImport } from "./routes";
+import { fetchUrlSource, isSharedLink } from "./urlFetchers";
+import {
+  expandAttachments,
+  isImportableFile,
+  isSupportedAttachment,
+  type AttachmentFile,
+  type SkippedAttachment,
+} from "./emailAttachmentFiles";
+import { openEmailLedger, type EmailMessageRef } from "./emailLedger";
+import {
+  missingMailboxSettings,
+  openMailbox,
+  type Mailbox,
+  type MailboxSettings,
+} from "./emailMailbox";
 import { executeAIImport } from "./aiImportRoutes";
-import { triggerShopifySyncAfterImport } from "./scheduler";
+import { syncShopifyAfterImport } from "./allocatedStockSync";
 import {
   sendEmailFetcherAlert,
   sendImportSuccessNotification,
 } from "./errorReporter";
 
-export interface EmailSettings {
-  host: string;
-  port: number;
-  secure: boolean;
-  username: string;
-  password: string;
+/** Connection (IMAP or Graph, password or OAuth2) plus what to import */
+export interface EmailSettings extends MailboxSettings {
   folder: string;
   senderWhitelist: string[];
   subjectFilter: string;
@@ -43,11 +53,42 @@ export interface EmailSettings {
   extractLinksFromBody?: boolean;
   multiFileMode?: boolean;
   expectedFiles?: number;
+  /** Globs (comma-separated) for the files to import out of .zip attachments */
+  archiveIncludePattern?: string;
+  /** Accept pushed mail (emailInbound.ts) in addition to polling */
+  inboundEnabled?: boolean;
+  /** Recipient address / local part pushed mail is routed by */
+  inboundAlias?: string;
+  /** Recipient tag that routes pushed mail without SMTP AUTH */
+  inboundToken?: string;
+}
+
+export interface EmailFetchOptions {
+  /** Process only this message (Message-ID, or "uid:<folder>:<uid>") */
+  messageId?: string;
+  /** Re-import even files whose hash was already imported */
+  replay?: boolean;
+  /** Import job running the fetch, recorded in the ledger */
+  jobId?: string;
+  /** Read this mailbox instead of the configured one (pushed inbound mail) */
+  mailbox?: Mailbox;
+}
+
+export interface EmailSafetyBlock {
+  fileName: string;
+  error?: string;
+  safetyHold?: boolean;
+  safetyReviewId?: string;
+  safetyFindings?: any[];
 }
 
 export interface FetchResult {
   success: boolean;
   filesProcessed: number;
+  /** Attachments whose import failed, safety blocks included */
+  filesFailed: number;
+  /** Attachments the safety net stopped, with its outcome */
+  safetyBlocks: EmailSafetyBlock[];
   errors: string[];
   logs: Array<{
     emailFrom: string;
@@ -58,68 +99,94 @@ export interface FetchResult {
   }>;
 }
 
-function hashBuffer(buffer: Buffer): string {
-  return crypto.createHash("sha256").update(buffer).digest("hex");
+/** Keep the outcome of an import the safety net stopped */
+function recordSafetyBlock(
+  result: FetchResult,
+  fileName: string,
+  importResult: {
+    error?: string;
+    safetyBlock?: boolean;
+    safetyHold?: boolean;
+    safetyReviewId?: string;
+    safetyFindings?: any[];
+  },
+): void {
+  if (!importResult.safetyBlock) return;
+  result.safetyBlocks.push({
+    fileName,
+    error: importResult.error,
+    safetyHold: importResult.safetyHold,
+    safetyReviewId: importResult.safetyReviewId,
+    safetyFindings: importResult.safetyFindings,
+  });
 }
 
-function isExcelFile(filename: string): boolean {
-  const ext = filename.toLowerCase();
-  return ext.endsWith(".xlsx") || ext.endsWith(".xls") || ext.endsWith(".csv");
+function hashBuffer(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
 }
 
 export async function fetchEmailAttachments(
   dataSourceId: string,
   settings: EmailSettings,
+  options: EmailFetchOptions = {},
 ): Promise<FetchResult> {
   const result: FetchResult = {
     success: true,
     filesProcessed: 0,
+    filesFailed: 0,
+    safetyBlocks: [],
     errors: [],
     logs: [],
   };
 
-  if (!settings.host || !settings.username || !settings.password) {
+  const missing = options.mailbox ? null : missingMailboxSettings(settings);
+  if (missing) {
     result.success = false;
-    result.errors.push(
-      "Missing email configuration (host, username, or password)",
-    );
+    result.errors.push(missing);
     return result;
   }
 
-  const client = new ImapFlow({
-    host: settings.host,
-    port: settings.port || 993,
-    secure: settings.secure !== false,
-    auth: {
-      user: settings.username,
-      pass: settings.password,
-    },
-    logger: false,
-    socketTimeout: 30000,
-  });
-
-  client.on("error", (err: Error) => {
-    console.error(
-      `[Email Fetcher] IMAP client error for ${settings.host}:`,
-      err.message,
-    );
-  });
+  const mailbox = options.mailbox || openMailbox(settings, { dataSourceId });
+  const mailboxLabel =
+    mailbox.provider === "graph"
+      ? "Graph"
+      : mailbox.provider === "inbound"
+        ? "Inbound"
+        : "IMAP";
 
   // Clear log file for fresh run
   try { fs.writeFileSync(LOG_FILE, `=== Email Fetch Log - ${new Date().toISOString()} ===\nDataSource: ${dataSourceId}\nextractLinksFromBody: ${settings.extractLinksFromBody}\nmultiFileMode: ${settings.multiFileMode}\nexpectedFiles: ${settings.expectedFiles}\nsenderWhitelist: ${JSON.stringify(settings.senderWhitelist)}\n`); } catch {}
 
   try {
-    dlLog(`[Email Fetcher] Connecting to IMAP ${settings.host}...`);
-    await client.connect();
-    dlLog(`[Email Fetcher] Connected to IMAP`);
+    dlLog(`[Email Fetcher] Connecting to ${mailboxLabel} ${settings.host || settings.username || ""}...`);
+    await mailbox.connect();
+    dlLog(`[Email Fetcher] Connected to ${mailboxLabel}`);
 
-    const folder = settings.folder || "INBOX";
-    const lock = await client.getMailboxLock(folder);
+    const folder =
+      mailbox.provider === "inbound" ? "inbound" : settings.folder || "INBOX";
+    const lock = await mailbox.openFolder(folder);
     dlLog(`[Email Fetcher] Got mailbox lock on ${folder}`);
+    const ledger = await openEmailLedger(dataSourceId);
 
     try {
+      let messages: number[];
+
+      if (options.messageId) {
+        // Retry / replay of one message from the ledger
+        const uidRef = options.messageId.match(/^uid:.*:(\d+)$/);
+        messages = uidRef
+          ? [parseInt(uidRef[1])]
+          : await mailbox.search({ messageId: options.messageId });
+        dlLog(`[Email Fetcher] Looking up message ${options.messageId}: ${messages.length} found`);
+        if (messages.length === 0) {
+          result.success = false;
+          result.errors.push(
+            `Message ${options.messageId} is no longer in ${folder}`,
+          );
+        }
+      } else {
       // First, try to search for unread emails
-      let searchCriteria: any = { seen: false };
+      let searchCriteria: any = { unseen: true };
 
       // Note: For multiple senders, we fetch all unseen emails and filter client-side
       // This is because IMAP OR queries have varying support across servers
@@ -132,8 +199,7 @@ export async function fetchEmailAttachments(
       // For multiple senders, whitelist filtering happens in the loop below
 
       dlLog(`[Email Fetcher] Searching with criteria: ${JSON.stringify(searchCriteria)}`);
-      let messagesResult = await client.search(searchCriteria, { uid: true });
-      let messages = Array.isArray(messagesResult) ? messagesResult : [];
+      messages = await mailbox.search(searchCriteria);
       dlLog(`[Email Fetcher] Found ${messages.length} unread emails matching criteria`);
 
       // If no unread emails found, also search recent emails (last 7 days) regardless of read status
@@ -150,14 +216,15 @@ export async function fetchEmailAttachments(
         }
 
         dlLog(`[Email Fetcher] No unread emails, searching all emails from last 7 days...`);
-        messagesResult = await client.search(allSearchCriteria, { uid: true });
-        messages = Array.isArray(messagesResult) ? messagesResult : [];
+        messages = await mailbox.search(allSearchCriteria);
         dlLog(`[Email Fetcher] Found ${messages.length} total emails from last 7 days`);
       }
+      }
 
       // Fetch all message envelopes to get dates and senders
       const messageInfos: Array<{
         uid: number;
+        messageId: string;
         from: string;
         subject: string;
         date: Date | null;
@@ -165,17 +232,12 @@ export async function fetchEmailAttachments(
 
       for (const uid of messages) {
         try {
-          const message = await client.fetchOne(
-            uid,
-            { envelope: true },
-            { uid: true },
-          );
+          const envelope = await mailbox.envelope(uid);
 
-          if (!message || !message.envelope) continue;
+          if (!envelope) continue;
 
-          const from = message.envelope.from?.[0]?.address || "unknown";
-          const subject = message.envelope.subject || "";
-          const emailDate = message.envelope.date || null;
+          const { from, subject, date: emailDate } = envelope;
+          const messageId = envelope.messageId || `uid:${folder}:${uid}`;
 
           // Apply sender whitelist filter
           if (settings.senderWhitelist && settings.senderWhitelist.length > 0) {
@@ -200,7 +262,8 @@ export async function fetchEmailAttachments(
           }
 
           dlLog(`[Email Fetcher] MATCHED email UID ${uid} from ${from}: "${subject}" (${emailDate?.toISOString() || "no date"})`);
-          messageInfos.push({ uid, from, subject, date: emailDate });
+          messageInfos.push({ uid, messageId, from, subject, date: emailDate });
+          ledger.seen({ messageId, uid, folder, from, subject, emailDate });
         } catch (err) {
           // Skip messages we can't fetch
           continue;
@@ -233,40 +296,69 @@ export async function fetchEmailAttachments(
         emailDate: Date | null;
         fileName: string;
         fileHash: string;
+        ref: EmailMessageRef;
       }> = [];
       const collectedHashes = new Set<string>(); // In-memory dedup for multi-file collection
 
       // Process all emails from whitelisted senders
       for (const msgInfo of allWhitelistedMessages) {
         const { uid, from, subject, date: emailDate } = msgInfo;
+        const ref: EmailMessageRef = {
+          messageId: msgInfo.messageId,
+          uid,
+          folder,
+          from,
+          subject,
+          emailDate,
+        };
+        ledger.startAttempt(ref);
 
         try {
           dlLog(`[Email Fetcher] Processing email from ${from} (${emailDate?.toISOString() || "no date"})`);
 
-          const fullMessage = await client.download(uid.toString(), undefined, {
-            uid: true,
-          });
-
-          if (fullMessage && fullMessage.content) {
-            const chunks: Buffer[] = [];
-            for await (const chunk of fullMessage.content) {
-              chunks.push(chunk);
-            }
-            const rawEmail = Buffer.concat(chunks);
+          const rawEmail = await mailbox.download(uid);
 
-            const attachments = await extractAttachments(client, uid);
-            dlLog(`[Email Fetcher] Found ${attachments.length} direct attachments`);
+          if (rawEmail) {
+            const { attachments: downloaded, skipped: skippedParts } =
+              await extractAttachments(mailbox, uid);
+            dlLog(`[Email Fetcher] Found ${downloaded.length} direct attachments`);
 
             if (settings.extractLinksFromBody) {
               dlLog(`[Email Fetcher] extractLinksFromBody=true, calling extractLinksFromEmailBody...`);
-              const bodyFiles = await extractLinksFromEmailBody(client, uid);
+              const bodyFiles = await extractLinksFromEmailBody(mailbox, uid);
               dlLog(`[Email Fetcher] Body link extraction returned ${bodyFiles.length} files`);
-              attachments.push(...bodyFiles);
-              dlLog(`[Email Fetcher] Total files after body extraction: ${attachments.length}`);
+              downloaded.push(...bodyFiles);
+              dlLog(`[Email Fetcher] Total files after body extraction: ${downloaded.length}`);
             } else {
               dlLog(`[Email Fetcher] extractLinksFromBody is FALSE - skipping link extraction`);
             }
 
+            // Expand .zip archives and drop files that can't be imported,
+            // logging each skipped part with its reason
+            const expanded = expandAttachments(
+              downloaded,
+              settings.archiveIncludePattern,
+            );
+            const attachments = expanded.files;
+            for (const skipped of [...skippedParts, ...expanded.skipped]) {
+              dlLog(`[Email Fetcher] SKIPPED ${skipped.filename}: ${skipped.reason}`);
+              result.logs.push({
+                emailFrom: from,
+                emailSubject: subject,
+                fileName: skipped.filename,
+                status: "skipped",
+                error: skipped.reason,
+              });
+              ledger.attachment(ref, skipped.filename, {
+                state: "skipped",
+                error: skipped.reason,
+                importJobId: options.jobId,
+              });
+            }
+            if (attachments.length === 0 && expanded.skipped.length === 0 && skippedParts.length === 0) {
+              ledger.skip(ref, "No attachments or download links");
+            }
+
             // Get the last successful email date for this data source to enable date-aware duplicate detection
             // Use let so we can update after each successful import to prevent duplicate processing within same run
             let lastSuccessfulEmailDate =
@@ -276,24 +368,24 @@ export async function fetchEmailAttachments(
             let anyFileImported = false;
             let anyFileStaged = false;
 
-            // FIX: Detect multiple Excel files - force staging to prevent overwrites
+            // FIX: Detect multiple import files - force staging to prevent overwrites
             // When multiple files are downloaded from links in single-file mode,
             // each atomicReplace would delete the previous file's data.
             // Force staging so all files are combined at the end.
-            const excelFileCount = attachments.filter((a) =>
-              isExcelFile(a.filename),
-            ).length;
-            const forceStageMultiple = excelFileCount > 1;
+            const forceStageMultiple = attachments.length > 1;
             if (forceStageMultiple) {
               console.log(
-                `[Email Fetcher] Detected ${excelFileCount} Excel files - forcing staging to combine all files`,
+                `[Email Fetcher] Detected ${attachments.length} import files - forcing staging to combine all files`,
               );
             }
 
             for (const attachment of attachments) {
-              if (!isExcelFile(attachment.filename)) continue;
-
               const fileHash = hashBuffer(attachment.content);
+              ledger.attachment(ref, attachment.filename, {
+                state: "downloaded",
+                fileHash,
+                importJobId: options.jobId,
+              });
 
               const existingLogs = await storage.getEmailFetchLogsByHash(
                 dataSourceId,
@@ -304,7 +396,8 @@ export async function fetchEmailAttachments(
               const hasSuccessfulImport = existingLogs?.some(
                 (log: any) => log.status === "success",
               );
-              if (hasSuccessfulImport) {
+              // Replays re-import regardless of earlier imports
+              if (hasSuccessfulImport && !options.replay) {
                 // Check if this email is NEWER than the last successful import
                 // If so, allow reprocessing even with same hash (vendor may have sent same file in newer email)
                 const isNewerEmail =
@@ -321,6 +414,10 @@ export async function fetchEmailAttachments(
                     error:
                       "File already processed (duplicate hash, same or older email date)",
                   });
+                  ledger.attachment(ref, attachment.filename, {
+                    state: "skipped",
+                    error: "Already imported (duplicate file)",
+                  });
                   continue;
                 }
 
@@ -342,6 +439,10 @@ export async function fetchEmailAttachments(
                       status: "skipped",
                       error: "Duplicate file within same fetch cycle",
                     });
+                    ledger.attachment(ref, attachment.filename, {
+                      state: "skipped",
+                      error: "Duplicate file within same fetch cycle",
+                    });
                     continue;
                   }
 
@@ -357,6 +458,7 @@ export async function fetchEmailAttachments(
                     emailDate: emailDate || null,
                     fileName: attachment.filename,
                     fileHash,
+                    ref,
                   });
 
                   anyFileStaged = true;
@@ -372,7 +474,7 @@ export async function fetchEmailAttachments(
                 );
                 dlLog(`[Email Fetcher] processEmailAttachment result: success=${importResult.success}, staged=${importResult.staged}, rowCount=${importResult.rowCount}, error=${importResult.error || 'none'}`);
 
-                await storage.createEmailFetchLog({
+                const fetchLog: any = await storage.createEmailFetchLog({
                   dataSourceId,
                   emailFrom: from,
                   emailSubject: subject,
@@ -383,6 +485,16 @@ export async function fetchEmailAttachments(
                   status: importResult.success ? "success" : "error",
                   errorMessage: importResult.error || null,
                 });
+                ledger.attachment(ref, attachment.filename, {
+                  state: importResult.success
+                    ? importResult.staged
+                      ? "downloaded"
+                      : "imported"
+                    : "failed",
+                  error: importResult.error,
+                  rowCount: importResult.rowCount,
+                  fetchLogId: fetchLog?.id,
+                });
 
                 if (importResult.success) {
                   result.filesProcessed++;
@@ -429,8 +541,14 @@ export async function fetchEmailAttachments(
                   result.errors.push(
                     `Failed to import ${attachment.filename}: ${importResult.error}`,
                   );
+                  result.filesFailed++;
+                  recordSafetyBlock(result, attachment.filename, importResult);
                 }
               } catch (err: any) {
+                ledger.attachment(ref, attachment.filename, {
+                  state: "failed",
+                  error: err.message,
+                });
                 result.logs.push({
                   emailFrom: from,
                   emailSubject: subject,
@@ -441,6 +559,7 @@ export async function fetchEmailAttachments(
                 result.errors.push(
                   `Failed to process ${attachment.filename}: ${err.message}`,
                 );
+                result.filesFailed++;
               }
             }
 
@@ -451,7 +570,7 @@ export async function fetchEmailAttachments(
               console.log(
                 `[Email Fetcher] All attachments processed for ${from}, triggering Shopify sync...`,
               );
-              triggerShopifySyncAfterImport(dataSourceId).catch((err: any) => {
+              syncShopifyAfterImport(dataSourceId).catch((err: any) => {
                 console.error(
                   "Error triggering Shopify sync after email import:",
                   err.message,
@@ -469,9 +588,10 @@ export async function fetchEmailAttachments(
           }
 
           if (settings.markAsRead) {
-            await client.messageFlagsAdd(uid, ["\\Seen"], { uid: true });
+            await mailbox.markSeen(uid);
           }
         } catch (msgErr: any) {
+          ledger.fail(ref, msgErr.message);
           result.errors.push(
             `Error processing message UID ${uid}: ${msgErr.message}`,
           );
@@ -503,8 +623,13 @@ export async function fetchEmailAttachments(
 
           // Create logs for all collected files with the ACTUAL import result
           for (const entry of deferredLogEntries) {
+            ledger.attachment(entry.ref, entry.fileName, {
+              state: importResult.success ? "imported" : "failed",
+              error: importError || undefined,
+              rowCount: importResult.success ? (importResult.itemCount || 0) : 0,
+            });
             try {
-              await storage.createEmailFetchLog({
+              const fetchLog: any = await storage.createEmailFetchLog({
                 dataSourceId,
                 emailFrom: entry.emailFrom,
                 emailSubject: entry.emailSubject,
@@ -515,6 +640,9 @@ export async function fetchEmailAttachments(
                 status: importStatus,
                 errorMessage: importError,
               });
+              ledger.attachment(entry.ref, entry.fileName, {
+                fetchLogId: fetchLog?.id,
+              });
             } catch (logErr: any) {
               dlLog(`[Email Fetcher] Warning: Failed to create log for ${entry.fileName}: ${logErr.message}`);
             }
@@ -541,7 +669,7 @@ export async function fetchEmailAttachments(
             } catch (err: any) {
               dlLog(`[Email Fetcher] Error in auto-consolidation after import: ${err.message}`);
             }
-            triggerShopifySyncAfterImport(dataSourceId).catch((err: any) => {
+            syncShopifyAfterImport(dataSourceId).catch((err: any) => {
               dlLog(`[Email Fetcher] Error triggering Shopify sync after import: ${err.message}`);
             });
           } else {
@@ -555,6 +683,13 @@ export async function fetchEmailAttachments(
               });
               result.errors.push(`Failed to import ${entry.fileName}: ${importResult.error}`);
             }
+            result.filesFailed += deferredLogEntries.length;
+            // One combined import: its safety outcome covers every file in it
+            recordSafetyBlock(
+              result,
+              deferredLogEntries.map((entry) => entry.fileName).join(", "),
+              importResult,
+            );
             dlLog(`[Email Fetcher] Import FAILED: ${importResult.error}`);
           }
         } catch (importErr: any) {
@@ -562,6 +697,10 @@ export async function fetchEmailAttachments(
 
           // Log the failure for all deferred entries so they can be retried next run
           for (const entry of deferredLogEntries) {
+            ledger.attachment(entry.ref, entry.fileName, {
+              state: "failed",
+              error: importErr.message,
+            });
             try {
               await storage.createEmailFetchLog({
                 dataSourceId,
@@ -584,6 +723,7 @@ export async function fetchEmailAttachments(
             });
             result.errors.push(`Failed to import ${entry.fileName}: ${importErr.message}`);
           }
+          result.filesFailed += deferredLogEntries.length;
         }
       } else {
         dlLog(`[Email Fetcher] No files collected for multi-file import - skipping`);
@@ -626,14 +766,12 @@ export async function fetchEmailAttachments(
           for (const msgInfo of allWhitelistedMessages.filter((m) =>
             successfulUids.has(m.uid),
           )) {
-            await client.messageFlagsAdd(msgInfo.uid, ["\\Deleted"], {
-              uid: true,
-            });
+            await mailbox.markDeleted(msgInfo.uid);
             console.log(
               `[Email Fetcher] Marked email UID ${msgInfo.uid} for deletion`,
             );
           }
-          // noop() does NOT expunge - deleted flags are expunged on client.logout() below
+          // IMAP: noop() does NOT expunge - deleted flags are expunged on mailbox.close() below
           console.log(
             `[Email Fetcher] Emails flagged \\Deleted; expunge will occur on logout`,
           );
@@ -644,168 +782,104 @@ export async function fetchEmailAttachments(
         }
       }
     } finally {
+      try {
+        await ledger.save();
+      } catch (ledgerErr: any) {
+        dlLog(`[Email Fetcher] Failed to save processing ledger: ${ledgerErr.message}`);
+      }
       lock.release();
     }
 
-    await client.logout();
+    await mailbox.close();
   } catch (err: any) {
     result.success = false;
-    result.errors.push(`IMAP connection error: ${err.message}`);
+    result.errors.push(`${mailboxLabel} connection error: ${err.message}`);
   }
 
   return result;
 }
 
 async function extractAttachments(
-  client: ImapFlow,
+  mailbox: Mailbox,
   uid: number,
-): Promise<Array<{ filename: string; content: Buffer }>> {
-  const attachments: Array<{ filename: string; content: Buffer }> = [];
+): Promise<{ attachments: AttachmentFile[]; skipped: SkippedAttachment[] }> {
+  const attachments: AttachmentFile[] = [];
+  const skipped: SkippedAttachment[] = [];
 
   try {
-    const message = await client.fetchOne(
-      uid,
-      { bodyStructure: true },
-      { uid: true },
-    );
-
-    if (!message) return attachments;
-
-    const bodyStructure = (message as any).bodyStructure;
-    if (!bodyStructure) {
-      console.log(`[Email Fetcher] No body structure for UID ${uid}`);
-      return attachments;
-    }
-
-    const parts = flattenParts(bodyStructure);
+    const parts = await mailbox.parts(uid);
     console.log(
       `[Email Fetcher] Found ${parts.length} parts in email UID ${uid}`,
     );
 
     for (const part of parts) {
-      // Get filename from multiple possible locations
-      const filename =
-        part.dispositionParameters?.filename ||
-        part.parameters?.name ||
-        (part.type === "application" && part.subtype
-          ? `attachment.${part.subtype}`
-          : null);
-
-      // Check for attachments - can be disposition=attachment, inline, or just have a filename
-      const isAttachment =
-        part.disposition === "attachment" ||
-        part.disposition === "inline" ||
-        (filename && (part.type === "application" || part.encoding));
-
-      if (filename) {
-        console.log(
-          `[Email Fetcher] Found part: ${filename}, disposition: ${part.disposition}, type: ${part.type}/${part.subtype}`,
-        );
+      const filename = part.filename;
+      if (!filename) continue;
+      console.log(
+        `[Email Fetcher] Found part: ${filename}, disposition: ${part.disposition}, type: ${part.contentType}`,
+      );
+
+      if (!part.isAttachment) {
+        skipped.push({ filename, reason: "Not an attachment" });
+        continue;
+      }
+      if (!isSupportedAttachment(filename)) {
+        skipped.push({
+          filename,
+          reason: `Unsupported file type (${part.contentType})`,
+        });
+        continue;
       }
 
-      if (isAttachment && filename && isExcelFile(filename)) {
-        try {
-          console.log(
-            `[Email Fetcher] Downloading Excel attachment: ${filename}`,
-          );
-          const { content } = await client.download(uid.toString(), part.part, {
-            uid: true,
-          });
-
-          const chunks: Buffer[] = [];
-          for await (const chunk of content) {
-            chunks.push(chunk);
-          }
-
-          attachments.push({
-            filename,
-            content: Buffer.concat(chunks),
-          });
-          console.log(`[Email Fetcher] Successfully downloaded: ${filename}`);
-        } catch (dlErr) {
-          console.error(`Failed to download attachment ${filename}:`, dlErr);
-        }
+      try {
+        console.log(`[Email Fetcher] Downloading attachment: ${filename}`);
+        attachments.push({
+          filename,
+          content: await mailbox.downloadPart(uid, part.part),
+        });
+        console.log(`[Email Fetcher] Successfully downloaded: ${filename}`);
+      } catch (dlErr: any) {
+        console.error(`Failed to download attachment ${filename}:`, dlErr);
+        skipped.push({
+          filename,
+          reason: `Download failed: ${dlErr?.message || dlErr}`,
+        });
       }
     }
   } catch (err) {
     console.error("Error extracting attachments:", err);
   }
 
-  return attachments;
-}
-
-function flattenParts(structure: any, parentPart = ""): any[] {
-  const parts: any[] = [];
-
-  if (!structure) return parts;
-
-  if (structure.childNodes && Array.isArray(structure.childNodes)) {
-    structure.childNodes.forEach((child: any, index: number) => {
-      const partNum = parentPart
-        ? `${parentPart}.${index + 1}`
-        : `${index + 1}`;
-      child.part = partNum;
-      parts.push(child);
-      parts.push(...flattenParts(child, partNum));
-    });
-  } else {
-    structure.part = parentPart || "1";
-    parts.push(structure);
-  }
-
-  return parts;
+  return { attachments, skipped };
 }
 
 async function extractLinksFromEmailBody(
-  client: ImapFlow,
+  mailbox: Mailbox,
   uid: number,
 ): Promise<Array<{ filename: string; content: Buffer }>> {
   const files: Array<{ filename: string; content: Buffer }> = [];
 
   try {
     dlLog(`[Email Fetcher] extractLinksFromEmailBody called for UID ${uid}`);
-    const message = await client.fetchOne(
-      uid,
-      { bodyStructure: true },
-      { uid: true },
-    );
-
-    if (!message) {
-      dlLog(`[Email Fetcher] No message found for UID ${uid}`);
-      return files;
-    }
-
-    const bodyStructure = (message as any).bodyStructure;
-    if (!bodyStructure) {
-      dlLog(`[Email Fetcher] No bodyStructure for UID ${uid}`);
+    const parts = await mailbox.parts(uid);
+    if (parts.length === 0) {
+      dlLog(`[Email Fetcher] No body parts for UID ${uid}`);
       return files;
     }
-
-    const parts = flattenParts(bodyStructure);
     dlLog(`[Email Fetcher] Found ${parts.length} MIME parts in email`);
 
     let htmlContent = "";
     let textContent = "";
 
     for (const part of parts) {
-      const mimeType = (part.type || "").toLowerCase();
-      const subtype = (part.subtype || "").toLowerCase();
-      dlLog(`[Email Fetcher] MIME part: type=${mimeType} subtype=${subtype} part=${part.part}`);
+      dlLog(`[Email Fetcher] MIME part: type=${part.contentType} part=${part.part}`);
 
-      // Handle both formats: type="text" + subtype="html" OR type="text/html"
-      const isTextPlain = (mimeType === "text" && subtype === "plain") || mimeType === "text/plain";
-      const isTextHtml = (mimeType === "text" && subtype === "html") || mimeType === "text/html";
+      const isTextPlain = part.contentType === "text/plain";
+      const isTextHtml = part.contentType === "text/html";
 
       if (isTextPlain || isTextHtml) {
         try {
-          const { content } = await client.download(uid.toString(), part.part, {
-            uid: true,
-          });
-          const chunks: Buffer[] = [];
-          for await (const chunk of content) {
-            chunks.push(chunk);
-          }
-          const decoded = Buffer.concat(chunks).toString("utf-8");
+          const decoded = (await mailbox.downloadPart(uid, part.part)).toString("utf-8");
           if (isTextHtml) {
             htmlContent = decoded;
             dlLog(`[Email Fetcher] Got HTML body: ${decoded.length} chars`);
@@ -853,10 +927,33 @@ async function extractLinksFromEmailBody(
       urls.add(url);
     }
 
+    // Share links (Google Sheets, Dropbox, OneDrive) go through their
+    // fetcher, which turns the share page into a download
+    const anyUrlRegex = /https?:\/\/[^\s"'<>]+/gi;
+    const sharedLinks = new Set<string>();
+    while ((match = anyUrlRegex.exec(bodyContent)) !== null) {
+      const url = match[0].replace(/&amp;/g, "&");
+      if (isSharedLink(url)) sharedLinks.add(url);
+    }
+    for (const url of Array.from(urls)) {
+      if (isSharedLink(url)) urls.delete(url);
+    }
+
     // Clear log file for fresh run
     try { fs.writeFileSync(LOG_FILE, `=== Email Download Log - ${new Date().toISOString()} ===\n`); } catch {}
 
-    dlLog(`[Email Fetcher] Found ${urls.size} download URLs in email body`);
+    dlLog(`[Email Fetcher] Found ${urls.size} download URLs and ${sharedLinks.size} shared links in email body`);
+
+    for (const url of sharedLinks) {
+      try {
+        dlLog(`[Email Fetcher] Shared link found: ${url}`);
+        const file = await fetchUrlSource(url);
+        dlLog(`[Email Fetcher] SUCCESS: Downloaded ${file.filename} (${file.buffer.length} bytes) via ${file.fetcher} fetcher`);
+        files.push({ filename: file.filename, content: file.buffer });
+      } catch (err: any) {
+        dlLog(`[Email Fetcher] FAILED: Shared link ${url.substring(0, 80)}: ${err.message}`);
+      }
+    }
 
     for (const url of urls) {
       try {
@@ -978,7 +1075,7 @@ async function extractLinksFromEmailBody(
             const urlParts = url.split("/");
             const lastPart = urlParts[urlParts.length - 1];
             const pathPart = lastPart.split("?")[0];
-            if (isExcelFile(pathPart)) {
+            if (isImportableFile(pathPart)) {
               filename = pathPart;
             } else {
               // Check URL params for extension hint
@@ -1016,36 +1113,25 @@ async function extractLinksFromEmailBody(
 
 export async function testEmailConnection(
   settings: EmailSettings,
+  dataSourceId?: string,
 ): Promise<{ success: boolean; error?: string; folderCount?: number }> {
-  if (!settings.host || !settings.username || !settings.password) {
-    return { success: false, error: "Missing email configuration" };
+  const missing = missingMailboxSettings(settings);
+  if (missing) {
+    return { success: false, error: missing };
   }
 
-  const client = new ImapFlow({
-    host: settings.host,
-    port: settings.port || 993,
-    secure: settings.secure !== false,
-    auth: {
-      user: settings.username,
-      pass: settings.password,
-    },
-    logger: false,
+  const mailbox = openMailbox(settings, {
+    dataSourceId,
     socketTimeout: 15000,
-  });
-
-  client.on("error", (err: Error) => {
-    console.error(
-      `[Email Test] IMAP client error for ${settings.host}:`,
-      err.message,
-    );
+    label: "Email Test",
   });
 
   try {
-    await client.connect();
+    await mailbox.connect();
 
-    const folders = await client.list();
+    const folders = await mailbox.listFolders();
 
-    await client.logout();
+    await mailbox.close();
 
     return { success: true, folderCount: folders.length };
   } catch (err: any) {
@@ -0,0 +1,346 @@
+/**
+ * emailInbound.ts — Pushed (inbound) email for email data sources
+ *
+ * Instead of waiting for the next IMAP poll, vendor mail can be delivered
+ * straight to us, as raw MIME:
+ *
+ *   - SMTP   a listener (INBOUND_SMTP_PORT, bound to INBOUND_SMTP_HOST,
+ *            default 127.0.0.1) for a mail server / relay to forward to.
+ *            The relay authenticates with AUTH PLAIN / LOGIN using
+ *            INBOUND_EMAIL_TOKEN as the password — over STARTTLS when
+ *            INBOUND_SMTP_TLS_KEY / INBOUND_SMTP_TLS_CERT are set, in the
+ *            clear only on a loopback address
+ *   - HTTP   POST /api/inbound-email with the raw message as the body,
+ *            authenticated by INBOUND_EMAIL_TOKEN (X-Inbound-Token header)
+ *
+ * Each message is routed to the data sources with emailSettings
+ * .inboundEnabled:
+ *
+ *   - by recipient token   emailSettings.inboundToken is the recipient's
+ *                          local part or plus-address tag (imports+token@…);
+ *                          the only route for unauthenticated SMTP senders
+ *   - by recipient alias   emailSettings.inboundAlias matches a recipient —
+ *                          the full address, its local part, or a
+ *                          plus-address tag (imports+alias@…)
+ *   - by sender            sources without an alias take mail from their
+ *                          sender whitelist (never "anyone"): an entry is
+ *                          an exact address, or a domain the sender's
+ *                          domain must equal
+ *
+ * Alias and sender routes only apply to authenticated deliveries; the
+ * envelope and headers are the sender's word otherwise.
+ *
+ * and queued as an email import job carrying the message as its file. The
+ * job runs the normal fetch pipeline over it (openRawMessageMailbox), so
+ * sender / subject filters, attachment and link extraction, dedup and the
+ * processing ledger behave exactly as for polled mail.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import type { Request } from "express";
+import { SMTPServer } from "smtp-server";
+import { simpleParser } from "mailparser";
+import { storage } from "./storage";
+import { enqueueImportJob } from "./importJobQueue";
+
+const MAX_MESSAGE_BYTES = 50 * 1024 * 1024;
+const INBOUND_MESSAGE_FILENAME = "inbound.eml";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface InboundEnvelope {
+  /** SMTP MAIL FROM; the From header when not given */
+  from?: string;
+  /** SMTP RCPT TO; the To / Cc / Delivered-To headers when not given */
+  to?: string[];
+}
+
+export interface InboundRoute {
+  dataSourceId: string;
+  dataSourceName: string;
+  matchedBy: "token" | "alias" | "sender";
+}
+
+export interface InboundResult {
+  messageId: string | null;
+  routes: Array<InboundRoute & { jobId: string }>;
+}
+
+// ============================================================
+// ROUTING
+// ============================================================
+
+function normalizeAddress(address: string): string {
+  return address.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+function tokenMatches(token: string, recipient: string): boolean {
+  const local = normalizeAddress(recipient).split("@")[0];
+  const tag = local.includes("+") ? local.split("+")[1] : local;
+  const a = Buffer.from(tag);
+  const b = Buffer.from(token.trim().toLowerCase());
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function aliasMatches(alias: string, recipient: string): boolean {
+  const wanted = normalizeAddress(alias);
+  const address = normalizeAddress(recipient);
+  if (wanted.includes("@")) return wanted === address;
+  const local = address.split("@")[0];
+  return local === wanted || local.split("+")[1] === wanted;
+}
+
+function senderMatches(whitelist: string[] | undefined, sender: string): boolean {
+  const from = normalizeAddress(sender);
+  const domain = from.split("@")[1];
+  return (whitelist || []).some((entry) => {
+    const wanted = entry.trim().toLowerCase();
+    if (!wanted) return false;
+    if (wanted.includes("@") && !wanted.startsWith("@")) return from === wanted;
+    return !!domain && domain === wanted.replace(/^@/, "");
+  });
+}
+
+/**
+ * Data sources a message from `sender` to `recipients` belongs to. Only
+ * recipient tokens route an unauthenticated delivery.
+ */
+export async function routeInboundEmail(
+  sender: string,
+  recipients: string[],
+  options: { authenticated: boolean },
+): Promise<InboundRoute[]> {
+  const dataSources: any[] = await storage.getDataSources();
+  const routes: InboundRoute[] = [];
+  for (const ds of dataSources) {
+    const es = ds.emailSettings;
+    if (!es?.inboundEnabled) continue;
+    if (ds.isActive === false || ds.status === "inactive") continue;
+
+    if (
+      es.inboundToken &&
+      recipients.some((r) => tokenMatches(es.inboundToken, r))
+    ) {
+      routes.push({
+        dataSourceId: ds.id,
+        dataSourceName: ds.name,
+        matchedBy: "token",
+      });
+    } else if (!options.authenticated) {
+      continue;
+    } else if (es.inboundAlias) {
+      if (recipients.some((r) => aliasMatches(es.inboundAlias, r))) {
+        routes.push({
+          dataSourceId: ds.id,
+          dataSourceName: ds.name,
+          matchedBy: "alias",
+        });
+      }
+    } else if (senderMatches(es.senderWhitelist, sender)) {
+      routes.push({
+        dataSourceId: ds.id,
+        dataSourceName: ds.name,
+        matchedBy: "sender",
+      });
+    }
+  }
+  return routes;
+}
+
+/**
+ * Route a raw message and queue an email import for every data source it
+ * belongs to. Returns without waiting for the imports.
+ */
+export async function receiveInboundEmail(
+  raw: Buffer,
+  envelope: InboundEnvelope,
+  via: "smtp" | "http",
+  options: { authenticated: boolean },
+): Promise<InboundResult> {
+  const parsed = await simpleParser(raw);
+  const addresses = (field: any): string[] =>
+    (Array.isArray(field) ? field : field ? [field] : []).flatMap((a: any) =>
+      (a.value || []).map((v: any) => v.address).filter(Boolean),
+    );
+  const sender = envelope.from || addresses(parsed.from)[0] || "";
+  const deliveredTo = parsed.headers.get("delivered-to");
+  const recipients = envelope.to?.length
+    ? envelope.to
+    : [
+        ...addresses(parsed.to),
+        ...addresses(parsed.cc),
+        ...(typeof deliveredTo === "string" ? [deliveredTo] : []),
+      ];
+
+  const routes = await routeInboundEmail(sender, recipients, options);
+  console.log(
+    `[Inbound Email] ${via} message ${parsed.messageId || "(no Message-ID)"} from ${sender} to ${recipients.join(", ")}: ${routes.length} data source(s)`,
+  );
+
+  const result: InboundResult = {
+    messageId: parsed.messageId || null,
+    routes: [],
+  };
+  for (const route of routes) {
+    const job = await enqueueImportJob({
+      kind: "email",
+      dataSourceId: route.dataSourceId,
+      files: [{ buffer: raw, originalname: INBOUND_MESSAGE_FILENAME }],
+      params: { inbound: true, via, sender },
+    });
+    result.routes.push({ ...route, jobId: job.id });
+  }
+  return result;
+}
+
+// ============================================================
+// HTTP
+// ============================================================
+
+function isInboundToken(given: string): boolean {
+  const expected = process.env.INBOUND_EMAIL_TOKEN;
+  if (!expected) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Checks the X-Inbound-Token header against INBOUND_EMAIL_TOKEN. Never a
+ * query parameter: URLs end up in proxy and access logs.
+ */
+export function isInboundRequestAuthorized(req: Request): boolean {
+  return isInboundToken(String(req.headers["x-inbound-token"] || ""));
+}
+
+/** The raw request body (the route is not behind a body parser for MIME) */
+export function readInboundBody(req: Request): Promise<Buffer> {
+  // Already consumed by a body parser (e.g. sent as text/plain)
+  if (req.readableEnded) {
+    return Promise.resolve(
+      Buffer.isBuffer(req.body)
+        ? req.body
+        : Buffer.from(typeof req.body === "string" ? req.body : ""),
+    );
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_MESSAGE_BYTES) {
+        reject(
+          new Error(`Message larger than ${MAX_MESSAGE_BYTES / 1024 / 1024}MB`),
+        );
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+// ============================================================
+// SMTP
+// ============================================================
+
+let smtpServer: SMTPServer | null = null;
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.");
+}
+
+/**
+ * Start the SMTP listener when INBOUND_SMTP_PORT is set. Recipients that
+ * route nowhere — for an unauthenticated session, any without a data
+ * source's recipient token — are refused at RCPT TO so the sending server
+ * bounces them.
+ */
+export function startInboundSmtpServer(): SMTPServer | null {
+  const port = parseInt(process.env.INBOUND_SMTP_PORT || "");
+  if (!port || smtpServer) return smtpServer;
+  const host = process.env.INBOUND_SMTP_HOST || "127.0.0.1";
+  const keyFile = process.env.INBOUND_SMTP_TLS_KEY;
+  const certFile = process.env.INBOUND_SMTP_TLS_CERT;
+  const tls =
+    keyFile && certFile
+      ? { key: fs.readFileSync(keyFile), cert: fs.readFileSync(certFile) }
+      : null;
+
+  smtpServer = new SMTPServer({
+    // Unauthenticated senders can still deliver to recipient tokens
+    authOptional: true,
+    authMethods: ["PLAIN", "LOGIN"],
+    // The token only crosses the wire in the clear on this host
+    allowInsecureAuth: !tls && isLoopback(host),
+    ...(tls ? tls : { disabledCommands: ["STARTTLS"] }),
+    size: MAX_MESSAGE_BYTES,
+    banner: "Inventory inbound email",
+    onAuth(auth, _session, callback) {
+      if (!isInboundToken(auth.password || "")) {
+        const err: any = new Error("Invalid inbound credentials");
+        err.responseCode = 535;
+        return callback(err);
+      }
+      callback(null, { user: auth.username || "inbound" });
+    },
+    async onRcptTo(address, session, callback) {
+      try {
+        const sender = session.envelope.mailFrom
+          ? session.envelope.mailFrom.address
+          : "";
+        const routes = await routeInboundEmail(sender, [address.address], {
+          authenticated: !!session.user,
+        });
+        if (routes.length === 0) {
+          const err: any = new Error(`No data source for ${address.address}`);
+          err.responseCode = 550;
+          return callback(err);
+        }
+        callback();
+      } catch (err: any) {
+        callback(err);
+      }
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", async () => {
+        if ((stream as any).sizeExceeded) {
+          const err: any = new Error("Message too large");
+          err.responseCode = 552;
+          return callback(err);
+        }
+        try {
+          const result = await receiveInboundEmail(
+            Buffer.concat(chunks),
+            {
+              from: session.envelope.mailFrom
+                ? session.envelope.mailFrom.address
+                : undefined,
+              to: session.envelope.rcptTo.map((r) => r.address),
+            },
+            "smtp",
+            { authenticated: !!session.user },
+          );
+          callback(null, `Queued for ${result.routes.length} data source(s)`);
+        } catch (err: any) {
+          console.error("[Inbound Email] Failed to queue SMTP message:", err);
+          callback(err);
+        }
+      });
+    },
+  });
+  smtpServer.on("error", (err) => {
+    console.error("[Inbound Email] SMTP server error:", err.message);
+  });
+  smtpServer.listen(port, host, () => {
+    console.log(`[Inbound Email] SMTP listener on ${host}:${port}`);
+  });
+  return smtpServer;
+}
@@ -0,0 +1,278 @@
+/**
+ * emailLedger.ts — Per-message processing ledger for email data sources
+ *
+ * Every email a data source's fetch matches gets a ledger record keyed by
+ * its Message-ID, with one more record per attachment (or body link / file
+ * expanded from an archive). Each record carries a processing state:
+ *
+ *   seen        matched the sender / subject filters, not processed yet
+ *   downloaded  attachment fetched, import pending (multi-file collection)
+ *   imported    imported; fetchLogId / importJobId point at the logs
+ *   failed      download or import failed (error says why)
+ *   skipped     not imported: duplicate, unsupported type, include pattern
+ *
+ * The message record's state is derived from its attachments (any failed →
+ * failed, else any imported → imported, ...) unless the message itself
+ * failed. Failed messages can be retried one by one, and any past message
+ * replayed (re-imported past the duplicate-hash check), through the email
+ * import job with params { messageId, replay } — see fetchEmailAttachments.
+ *
+ * Stored in app settings (EMAIL_LEDGER_PREFIX + data source ID), newest
+ * MAX_LEDGER_MESSAGES messages kept. Runs for the same data source can
+ * overlap (scheduled fetch, retry, replay), so save() writes one at a time:
+ * it re-reads the stored ledger and merges in only the messages this run
+ * touched, attachment by attachment, newest update winning.
+ */
+
+import { storage } from "./storage";
+
+const EMAIL_LEDGER_PREFIX = "email_ledger:";
+const MAX_LEDGER_MESSAGES = 500;
+
+let writeChain: Promise<unknown> = Promise.resolve();
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type EmailLedgerState =
+  | "seen"
+  | "downloaded"
+  | "imported"
+  | "failed"
+  | "skipped";
+
+export interface EmailMessageRef {
+  /** Message-ID header; "uid:<folder>:<uid>" when the message has none */
+  messageId: string;
+  uid: number;
+  folder: string;
+  from: string;
+  subject: string;
+  emailDate: Date | string | null;
+}
+
+export interface EmailLedgerAttachment {
+  filename: string;
+  state: EmailLedgerState;
+  error?: string;
+  fileHash?: string;
+  rowCount?: number;
+  /** Email fetch log written for this attachment */
+  fetchLogId?: string;
+  /** Import job that ran the fetch / import */
+  importJobId?: string;
+  updatedAt: string;
+}
+
+export interface EmailLedgerMessage {
+  messageId: string;
+  uid: number;
+  folder: string;
+  from: string;
+  subject: string;
+  emailDate: string | null;
+  state: EmailLedgerState;
+  /** Set when the message failed as a whole (not one attachment) */
+  error?: string;
+  /** Why a message without importable files was skipped */
+  reason?: string;
+  /** Times the message's attachments were processed (fetch, retry, replay) */
+  attempts: number;
+  firstSeenAt: string;
+  updatedAt: string;
+  attachments: EmailLedgerAttachment[];
+}
+
+export interface EmailLedger {
+  /** Record a matched message (existing records keep their state) */
+  seen(message: EmailMessageRef): void;
+  /** A processing attempt starts: bumps attempts, clears a message error */
+  startAttempt(message: EmailMessageRef): void;
+  attachment(
+    message: EmailMessageRef,
+    filename: string,
+    update: Partial<Omit<EmailLedgerAttachment, "filename" | "updatedAt">>,
+  ): void;
+  /** The message failed as a whole (e.g. it could not be downloaded) */
+  fail(message: EmailMessageRef, error: string): void;
+  /** Message with no importable files */
+  skip(message: EmailMessageRef, reason: string): void;
+  get(messageId: string): EmailLedgerMessage | undefined;
+  save(): Promise<void>;
+}
+
+// ============================================================
+// STATE
+// ============================================================
+
+function deriveState(message: EmailLedgerMessage): EmailLedgerState {
+  if (message.error) return "failed";
+  const states = message.attachments.map((a) => a.state);
+  if (states.length === 0) return message.state;
+  if (states.includes("failed")) return "failed";
+  if (states.includes("downloaded")) return "downloaded";
+  if (states.includes("imported")) return "imported";
+  if (states.every((s) => s === "skipped")) return "skipped";
+  return "seen";
+}
+
+export async function getEmailLedger(
+  dataSourceId: string,
+): Promise<EmailLedgerMessage[]> {
+  const saved = await storage.getAppSetting(EMAIL_LEDGER_PREFIX + dataSourceId);
+  return (saved?.messages as EmailLedgerMessage[]) || [];
+}
+
+export async function getLedgerMessage(
+  dataSourceId: string,
+  messageId: string,
+): Promise<EmailLedgerMessage | undefined> {
+  return (await getEmailLedger(dataSourceId)).find(
+    (m) => m.messageId === messageId,
+  );
+}
+
+/**
+ * A run's copy of a message merged over the stored one. `attemptsAdded` is
+ * how many attempts the run started, added to the stored count.
+ */
+function mergeMessage(
+  stored: EmailLedgerMessage | undefined,
+  ours: EmailLedgerMessage,
+  attemptsAdded: number,
+): EmailLedgerMessage {
+  if (!stored) return ours;
+  const newer = ours.updatedAt >= stored.updatedAt ? ours : stored;
+  const attachments = new Map(stored.attachments.map((a) => [a.filename, a]));
+  for (const attachment of ours.attachments) {
+    const other = attachments.get(attachment.filename);
+    if (!other || attachment.updatedAt >= other.updatedAt) {
+      attachments.set(attachment.filename, attachment);
+    }
+  }
+  const merged: EmailLedgerMessage = {
+    ...newer,
+    attempts: stored.attempts + attemptsAdded,
+    firstSeenAt:
+      stored.firstSeenAt < ours.firstSeenAt ? stored.firstSeenAt : ours.firstSeenAt,
+    attachments: [...attachments.values()],
+  };
+  merged.state = deriveState(merged);
+  return merged;
+}
+
+/**
+ * Ledger for one fetch run. Changes are kept in memory and merged into the
+ * stored ledger by save().
+ */
+export async function openEmailLedger(
+  dataSourceId: string,
+): Promise<EmailLedger> {
+  const messages = new Map(
+    (await getEmailLedger(dataSourceId)).map((m) => [m.messageId, m]),
+  );
+  const touched = new Set<string>();
+  const openedAttempts = new Map(
+    [...messages.values()].map((m) => [m.messageId, m.attempts]),
+  );
+
+  const upsert = (ref: EmailMessageRef): EmailLedgerMessage => {
+    const now = new Date().toISOString();
+    touched.add(ref.messageId);
+    let message = messages.get(ref.messageId);
+    if (!message) {
+      message = {
+        messageId: ref.messageId,
+        uid: ref.uid,
+        folder: ref.folder,
+        from: ref.from,
+        subject: ref.subject,
+        emailDate: ref.emailDate ? new Date(ref.emailDate).toISOString() : null,
+        state: "seen",
+        attempts: 0,
+        firstSeenAt: now,
+        updatedAt: now,
+        attachments: [],
+      };
+      messages.set(ref.messageId, message);
+    }
+    // UIDs change when a message is moved; keep the latest
+    message.uid = ref.uid;
+    message.folder = ref.folder;
+    return message;
+  };
+
+  return {
+    seen(ref) {
+      upsert(ref);
+    },
+
+    startAttempt(ref) {
+      const message = upsert(ref);
+      message.attempts++;
+      delete message.error;
+      message.updatedAt = new Date().toISOString();
+    },
+
+    attachment(ref, filename, update) {
+      const message = upsert(ref);
+      const now = new Date().toISOString();
+      let entry = message.attachments.find((a) => a.filename === filename);
+      if (!entry) {
+        entry = { filename, state: "seen", updatedAt: now };
+        message.attachments.push(entry);
+      }
+      // A later duplicate-hash skip doesn't undo an import
+      if (entry.state === "imported" && update.state === "skipped") return;
+      // A new state drops the previous attempt's error unless it brings one
+      if (update.state && update.error === undefined) delete entry.error;
+      Object.assign(entry, update, { updatedAt: now });
+      message.state = deriveState(message);
+      message.updatedAt = now;
+    },
+
+    fail(ref, error) {
+      const message = upsert(ref);
+      message.error = error;
+      message.state = "failed";
+      message.updatedAt = new Date().toISOString();
+    },
+
+    skip(ref, reason) {
+      const message = upsert(ref);
+      if (message.attachments.length === 0 && !message.error) {
+        message.state = "skipped";
+        message.reason = reason;
+        message.updatedAt = new Date().toISOString();
+      }
+    },
+
+    get(messageId) {
+      return messages.get(messageId);
+    },
+
+    save() {
+      const run = writeChain.then(async () => {
+        const stored = new Map(
+          (await getEmailLedger(dataSourceId)).map((m) => [m.messageId, m]),
+        );
+        for (const messageId of touched) {
+          const ours = messages.get(messageId)!;
+          const attemptsAdded = ours.attempts - (openedAttempts.get(messageId) || 0);
+          stored.set(messageId, mergeMessage(stored.get(messageId), ours, attemptsAdded));
+          openedAttempts.set(messageId, ours.attempts);
+        }
+        const kept = [...stored.values()]
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+          .slice(0, MAX_LEDGER_MESSAGES);
+        await storage.setAppSetting(EMAIL_LEDGER_PREFIX + dataSourceId, {
+          messages: kept,
+        });
+        touched.clear();
+      });
+      writeChain = run.catch(() => {});
+      return run;
+    },
+  };
+}
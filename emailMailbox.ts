@@ -0,0 +1,614 @@
+/**
+ * emailMailbox.ts — Mailbox access for email data sources
+ *
+ * fetchEmailAttachments and testEmailConnection talk to a Mailbox, which
+ * comes in two flavours picked by emailSettings.provider:
+ *
+ *   - imap   (default) IMAP via imapflow; authType "password" logs in with
+ *            username / password, "oauth2" with an XOAUTH2 access token
+ *   - graph  Microsoft Graph mail API (/users/{mailbox}/...), always OAuth2
+ *
+ * plus openRawMessageMailbox: a one-message mailbox over a raw MIME message
+ * pushed to the inbound receiver (emailInbound.ts).
+ *
+ * Messages are addressed by a numeric handle: the IMAP UID, or a number
+ * the Graph mailbox hands out per session for its string message IDs.
+ * Parts are flattened to MailboxPart — for Graph the message body is a
+ * "body" part and each attachment a part keyed by its attachment ID.
+ */
+
+import * as crypto from "crypto";
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import { getEmailAccessToken, type EmailOAuthSettings } from "./emailOAuth";
+
+const GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+const GRAPH_PAGE_SIZE = 100;
+const GRAPH_TIMEOUT_MS = 60000;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type MailboxProvider = "imap" | "graph" | "inbound";
+export type MailboxAuthType = "password" | "oauth2";
+
+/** The connection fields of EmailSettings */
+export interface MailboxSettings {
+  provider?: MailboxProvider;
+  authType?: MailboxAuthType;
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+  oauth?: EmailOAuthSettings;
+  /** Graph: API root (override for sovereign clouds) */
+  graphBaseUrl?: string;
+}
+
+export interface MailboxSearch {
+  unseen?: boolean;
+  since?: Date;
+  from?: string;
+  /** Message-ID header */
+  messageId?: string;
+}
+
+export interface MailboxEnvelope {
+  messageId: string | null;
+  from: string;
+  subject: string;
+  date: Date | null;
+}
+
+export interface MailboxPart {
+  part: string;
+  filename: string | null;
+  /** Lower-case "type/subtype" */
+  contentType: string;
+  disposition: string | null;
+  /** Sent as a file (attachment or inline file) rather than message text */
+  isAttachment: boolean;
+}
+
+export interface Mailbox {
+  readonly provider: MailboxProvider;
+  connect(): Promise<void>;
+  openFolder(folder: string): Promise<{ release(): void }>;
+  search(criteria: MailboxSearch): Promise<number[]>;
+  envelope(uid: number): Promise<MailboxEnvelope | null>;
+  /** Whole raw message (MIME) */
+  download(uid: number): Promise<Buffer | null>;
+  parts(uid: number): Promise<MailboxPart[]>;
+  downloadPart(uid: number, part: string): Promise<Buffer>;
+  markSeen(uid: number): Promise<void>;
+  /** IMAP: flagged \Deleted, expunged on close. Graph: moved to Deleted Items */
+  markDeleted(uid: number): Promise<void>;
+  listFolders(): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+/** What's missing for the settings to reach a mailbox, or null */
+export function missingMailboxSettings(settings: MailboxSettings): string | null {
+  const oauth = settings.provider === "graph" || settings.authType === "oauth2";
+  if (oauth && (!settings.oauth?.tokenUrl || !settings.oauth?.clientId)) {
+    return "Missing OAuth configuration (token URL or client ID)";
+  }
+  if (settings.provider === "graph") {
+    return settings.username ? null : "Missing mailbox address";
+  }
+  if (!settings.host || !settings.username || (!oauth && !settings.password)) {
+    return "Missing email configuration (host, username, or password)";
+  }
+  return null;
+}
+
+export function openMailbox(
+  settings: MailboxSettings,
+  options: { dataSourceId?: string; socketTimeout?: number; label?: string } = {},
+): Mailbox {
+  return settings.provider === "graph"
+    ? createGraphMailbox(settings, options.dataSourceId)
+    : createImapMailbox(settings, options);
+}
+
+async function readStream(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// ============================================================
+// IMAP
+// ============================================================
+
+function flattenParts(structure: any, parentPart = ""): any[] {
+  const parts: any[] = [];
+
+  if (!structure) return parts;
+
+  if (structure.childNodes && Array.isArray(structure.childNodes)) {
+    structure.childNodes.forEach((child: any, index: number) => {
+      const partNum = parentPart
+        ? `${parentPart}.${index + 1}`
+        : `${index + 1}`;
+      child.part = partNum;
+      parts.push(child);
+      parts.push(...flattenParts(child, partNum));
+    });
+  } else {
+    structure.part = parentPart || "1";
+    parts.push(structure);
+  }
+
+  return parts;
+}
+
+function toMailboxPart(node: any): MailboxPart {
+  const type = (node.type || "").toLowerCase();
+  const subtype = (node.subtype || "").toLowerCase();
+  // imapflow reports "text/html"; older servers split type and subtype
+  const contentType = type.includes("/") || !subtype ? type : `${type}/${subtype}`;
+  // Get filename from multiple possible locations
+  const filename =
+    node.dispositionParameters?.filename ||
+    node.parameters?.name ||
+    (contentType.startsWith("application") && subtype
+      ? `attachment.${subtype}`
+      : null);
+  return {
+    part: node.part,
+    filename,
+    contentType,
+    disposition: node.disposition || null,
+    // disposition=attachment, inline, or just a filename on a binary part
+    isAttachment:
+      node.disposition === "attachment" ||
+      node.disposition === "inline" ||
+      !!(filename && (contentType.startsWith("application") || node.encoding)),
+  };
+}
+
+function createImapMailbox(
+  settings: MailboxSettings,
+  options: { dataSourceId?: string; socketTimeout?: number; label?: string },
+): Mailbox {
+  let client: ImapFlow | null = null;
+
+  const imap = (): ImapFlow => {
+    if (!client) throw new Error("Mailbox is not connected");
+    return client;
+  };
+
+  return {
+    provider: "imap",
+
+    async connect() {
+      const auth =
+        settings.authType === "oauth2"
+          ? {
+              user: settings.username,
+              accessToken: await getEmailAccessToken(
+                options.dataSourceId,
+                settings.oauth!,
+              ),
+            }
+          : { user: settings.username, pass: settings.password };
+      client = new ImapFlow({
+        host: settings.host,
+        port: settings.port || 993,
+        secure: settings.secure !== false,
+        auth,
+        logger: false,
+        socketTimeout: options.socketTimeout || 30000,
+      });
+      client.on("error", (err: Error) => {
+        console.error(
+          `[${options.label || "Email Fetcher"}] IMAP client error for ${settings.host}:`,
+          err.message,
+        );
+      });
+      await client.connect();
+    },
+
+    async openFolder(folder) {
+      return imap().getMailboxLock(folder);
+    },
+
+    async search(criteria) {
+      const query: any = criteria.messageId
+        ? { header: { "message-id": criteria.messageId } }
+        : {};
+      if (criteria.unseen) query.seen = false;
+      if (criteria.since) query.since = criteria.since;
+      if (criteria.from) query.from = criteria.from;
+      const uids = await imap().search(query, { uid: true });
+      return Array.isArray(uids) ? uids : [];
+    },
+
+    async envelope(uid) {
+      const message = await imap().fetchOne(
+        String(uid),
+        { envelope: true },
+        { uid: true },
+      );
+      if (!message || !message.envelope) return null;
+      return {
+        messageId: message.envelope.messageId || null,
+        from: message.envelope.from?.[0]?.address || "unknown",
+        subject: message.envelope.subject || "",
+        date: message.envelope.date || null,
+      };
+    },
+
+    async download(uid) {
+      const message = await imap().download(uid.toString(), undefined, {
+        uid: true,
+      });
+      return message?.content ? readStream(message.content) : null;
+    },
+
+    async parts(uid) {
+      const message = await imap().fetchOne(
+        String(uid),
+        { bodyStructure: true },
+        { uid: true },
+      );
+      const bodyStructure = message ? (message as any).bodyStructure : null;
+      return bodyStructure ? flattenParts(bodyStructure).map(toMailboxPart) : [];
+    },
+
+    async downloadPart(uid, part) {
+      const { content } = await imap().download(uid.toString(), part, {
+        uid: true,
+      });
+      return readStream(content);
+    },
+
+    async markSeen(uid) {
+      await imap().messageFlagsAdd(String(uid), ["\\Seen"], { uid: true });
+    },
+
+    async markDeleted(uid) {
+      // noop() does NOT expunge - deleted flags are expunged on logout
+      await imap().messageFlagsAdd(String(uid), ["\\Deleted"], { uid: true });
+    },
+
+    async listFolders() {
+      return (await imap().list()).map((f: any) => f.path);
+    },
+
+    async close() {
+      await imap().logout();
+    },
+  };
+}
+
+// ============================================================
+// MICROSOFT GRAPH
+// ============================================================
+
+// Graph's well-known folder names for the IMAP-style names people type
+const GRAPH_WELL_KNOWN_FOLDERS: Record<string, string> = {
+  inbox: "inbox",
+  archive: "archive",
+  junk: "junkemail",
+  "junk email": "junkemail",
+  sent: "sentitems",
+  "sent items": "sentitems",
+};
+
+function createGraphMailbox(
+  settings: MailboxSettings,
+  dataSourceId: string | undefined,
+): Mailbox {
+  const baseUrl = (settings.graphBaseUrl || GRAPH_BASE_URL).replace(/\/+$/, "");
+  const root = `${baseUrl}/users/${encodeURIComponent(settings.username)}`;
+  let token: string | null = null;
+  let folderId = "inbox";
+  // Numeric handles for Graph's string message IDs
+  const ids: string[] = [];
+  const envelopes = new Map<number, MailboxEnvelope>();
+  const bodies = new Map<number, { contentType: string; content: string }>();
+
+  const handleFor = (id: string): number => {
+    const existing = ids.indexOf(id);
+    if (existing >= 0) return existing + 1;
+    ids.push(id);
+    return ids.length;
+  };
+  const idFor = (uid: number): string => {
+    const id = ids[uid - 1];
+    if (!id) throw new Error(`Unknown message ${uid}`);
+    return id;
+  };
+
+  const request = async (
+    url: string,
+    init: RequestInit = {},
+    retried = false,
+  ): Promise<Response> => {
+    const response = await fetch(url.startsWith("http") ? url : root + url, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...(init.headers as Record<string, string>),
+      },
+      signal: AbortSignal.timeout(GRAPH_TIMEOUT_MS),
+    });
+    // Token revoked or expired early: refresh once
+    if (response.status === 401 && !retried) {
+      token = await getEmailAccessToken(dataSourceId, settings.oauth!, true);
+      return request(url, init, true);
+    }
+    if (!response.ok) {
+      const data: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `Graph request failed: ${data.error?.message || `HTTP ${response.status}`}`,
+      );
+    }
+    return response;
+  };
+  const getJson = async (url: string): Promise<any> =>
+    (await request(url)).json();
+
+  const toEnvelope = (message: any): MailboxEnvelope => ({
+    messageId: message.internetMessageId || null,
+    from: message.from?.emailAddress?.address || "unknown",
+    subject: message.subject || "",
+    date: message.receivedDateTime ? new Date(message.receivedDateTime) : null,
+  });
+
+  return {
+    provider: "graph",
+
+    async connect() {
+      token = await getEmailAccessToken(dataSourceId, settings.oauth!);
+      // Fails fast on a wrong mailbox or missing Mail.Read permission
+      await getJson("/mailFolders/inbox?$select=id");
+    },
+
+    async openFolder(folder) {
+      const wellKnown = GRAPH_WELL_KNOWN_FOLDERS[folder.trim().toLowerCase()];
+      if (wellKnown) {
+        folderId = wellKnown;
+      } else {
+        const name = folder.replace(/'/g, "''");
+        const found = await getJson(
+          `/mailFolders?$filter=displayName eq '${encodeURIComponent(name)}'&$select=id`,
+        );
+        if (!found.value?.[0]) throw new Error(`Folder "${folder}" not found`);
+        folderId = found.value[0].id;
+      }
+      return { release() {} };
+    },
+
+    async search(criteria) {
+      const filters: string[] = [];
+      if (criteria.messageId) {
+        filters.push(
+          `internetMessageId eq '${criteria.messageId.replace(/'/g, "''")}'`,
+        );
+      }
+      if (criteria.unseen) filters.push("isRead eq false");
+      if (criteria.since) {
+        filters.push(`receivedDateTime ge ${criteria.since.toISOString()}`);
+      }
+      // Sender is matched client-side like the whitelist; Graph rejects many
+      // filter combinations on from/emailAddress
+      // %20 rather than URLSearchParams' "+" for spaces in OData filters
+      let query = `$select=id,internetMessageId,from,subject,receivedDateTime&$top=${GRAPH_PAGE_SIZE}`;
+      if (filters.length > 0) {
+        query += `&$filter=${encodeURIComponent(filters.join(" and "))}`;
+      }
+
+      const uids: number[] = [];
+      let next: string | undefined =
+        `/mailFolders/${encodeURIComponent(folderId)}/messages?${query}`;
+      while (next) {
+        const page: any = await getJson(next);
+        for (const message of page.value || []) {
+          const envelope = toEnvelope(message);
+          if (
+            criteria.from &&
+            !envelope.from.toLowerCase().includes(criteria.from.toLowerCase())
+          ) {
+            continue;
+          }
+          const uid = handleFor(message.id);
+          envelopes.set(uid, envelope);
+          uids.push(uid);
+        }
+        next = page["@odata.nextLink"];
+      }
+      return uids;
+    },
+
+    async envelope(uid) {
+      if (!envelopes.has(uid)) {
+        envelopes.set(
+          uid,
+          toEnvelope(
+            await getJson(
+              `/messages/${encodeURIComponent(idFor(uid))}?$select=internetMessageId,from,subject,receivedDateTime`,
+            ),
+          ),
+        );
+      }
+      return envelopes.get(uid)!;
+    },
+
+    async download(uid) {
+      const response = await request(
+        `/messages/${encodeURIComponent(idFor(uid))}/$value`,
+      );
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async parts(uid) {
+      const id = encodeURIComponent(idFor(uid));
+      const message = await getJson(`/messages/${id}?$select=body`);
+      bodies.set(uid, {
+        contentType: message.body?.contentType === "html" ? "text/html" : "text/plain",
+        content: message.body?.content || "",
+      });
+      const parts: MailboxPart[] = [
+        {
+          part: "body",
+          filename: null,
+          contentType: bodies.get(uid)!.contentType,
+          disposition: null,
+          isAttachment: false,
+        },
+      ];
+      const attachments = await getJson(
+        `/messages/${id}/attachments?$select=id,name,contentType,isInline`,
+      );
+      for (const attachment of attachments.value || []) {
+        parts.push({
+          part: attachment.id,
+          filename: attachment.name || null,
+          contentType: (attachment.contentType || "application/octet-stream").toLowerCase(),
+          disposition: attachment.isInline ? "inline" : "attachment",
+          // Item (attached email) and reference (cloud link) attachments
+          // have no file content
+          isAttachment:
+            attachment["@odata.type"] === "#microsoft.graph.fileAttachment",
+        });
+      }
+      return parts;
+    },
+
+    async downloadPart(uid, part) {
+      if (part === "body") {
+        return Buffer.from(bodies.get(uid)?.content || "", "utf-8");
+      }
+      const response = await request(
+        `/messages/${encodeURIComponent(idFor(uid))}/attachments/${encodeURIComponent(part)}/$value`,
+      );
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async markSeen(uid) {
+      await request(`/messages/${encodeURIComponent(idFor(uid))}`, {
+        method: "PATCH",
+        body: JSON.stringify({ isRead: true }),
+      });
+    },
+
+    async markDeleted(uid) {
+      await request(`/messages/${encodeURIComponent(idFor(uid))}/move`, {
+        method: "POST",
+        body: JSON.stringify({ destinationId: "deleteditems" }),
+      });
+    },
+
+    async listFolders() {
+      const folders: string[] = [];
+      let next: string | undefined = `/mailFolders?$select=displayName&$top=${GRAPH_PAGE_SIZE}`;
+      while (next) {
+        const page: any = await getJson(next);
+        folders.push(...(page.value || []).map((f: any) => f.displayName));
+        next = page["@odata.nextLink"];
+      }
+      return folders;
+    },
+
+    async close() {},
+  };
+}
+
+// ============================================================
+// RAW MESSAGE (INBOUND)
+// ============================================================
+
+/**
+ * The pushed message as message 1 of a mailbox, so it goes through the
+ * same extraction as fetched mail. Flags and deletes are no-ops.
+ */
+export async function openRawMessageMailbox(raw: Buffer): Promise<Mailbox> {
+  const parsed = await simpleParser(raw);
+  const envelope: MailboxEnvelope = {
+    // Without a Message-ID the content identifies the message in the ledger
+    messageId:
+      parsed.messageId ||
+      `<${crypto.createHash("sha256").update(raw).digest("hex")}@inbound>`,
+    from: parsed.from?.value?.[0]?.address || "unknown",
+    subject: parsed.subject || "",
+    date: parsed.date || null,
+  };
+
+  const contents = new Map<string, Buffer>();
+  const parts: MailboxPart[] = [];
+  if (parsed.html) {
+    contents.set("html", Buffer.from(parsed.html, "utf-8"));
+    parts.push({
+      part: "html",
+      filename: null,
+      contentType: "text/html",
+      disposition: null,
+      isAttachment: false,
+    });
+  }
+  if (parsed.text) {
+    contents.set("text", Buffer.from(parsed.text, "utf-8"));
+    parts.push({
+      part: "text",
+      filename: null,
+      contentType: "text/plain",
+      disposition: null,
+      isAttachment: false,
+    });
+  }
+  parsed.attachments.forEach((attachment, index) => {
+    const part = `attachment-${index + 1}`;
+    contents.set(part, attachment.content);
+    parts.push({
+      part,
+      filename: attachment.filename || null,
+      contentType: (attachment.contentType || "application/octet-stream").toLowerCase(),
+      disposition: attachment.contentDisposition || null,
+      isAttachment: !!attachment.filename,
+    });
+  });
+
+  const matches = (criteria: MailboxSearch) =>
+    (!criteria.messageId || criteria.messageId === envelope.messageId) &&
+    (!criteria.from ||
+      envelope.from.toLowerCase().includes(criteria.from.toLowerCase()));
+
+  return {
+    provider: "inbound",
+    async connect() {},
+    async openFolder() {
+      return { release() {} };
+    },
+    async search(criteria) {
+      return matches(criteria) ? [1] : [];
+    },
+    async envelope(uid) {
+      return uid === 1 ? envelope : null;
+    },
+    async download(uid) {
+      return uid === 1 ? raw : null;
+    },
+    async parts(uid) {
+      return uid === 1 ? parts : [];
+    },
+    async downloadPart(uid, part) {
+      const content = uid === 1 ? contents.get(part) : undefined;
+      if (!content) throw new Error(`Unknown part ${part}`);
+      return content;
+    },
+    async markSeen() {},
+    async markDeleted() {},
+    async listFolders() {
+      return ["inbound"];
+    },
+    async close() {},
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Email OAuth — access tokens from a stand-in token endpoint (refresh and
+ * client-credentials grants, rotation, encrypted cache) and a Graph mailbox
+ * against a stand-in mail server. App settings are an in-memory map.
+ */
+
+import { test, describe, before, after, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+import { getEmailAccessToken, type EmailOAuthSettings } from "./emailOAuth";
+import { openMailbox } from "./emailMailbox";
+
+// ============================================================
+// Stand-in token endpoint and Graph mail server
+// ============================================================
+
+let server: http.Server;
+let base: string;
+let grants: Array<Record<string, string>> = [];
+let issued = 0;
+// Access tokens the mail server accepts
+let validTokens = new Set<string>();
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+}
+
+function json(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function handleToken(req: http.IncomingMessage, res: http.ServerResponse) {
+  const params = Object.fromEntries(new URLSearchParams(await readBody(req)));
+  grants.push(params);
+  if (params.client_id !== "client-1") {
+    return json(res, 400, { error: "invalid_client", error_description: "Unknown client" });
+  }
+  if (params.grant_type === "refresh_token" && !params.refresh_token.startsWith("refresh-")) {
+    return json(res, 400, { error: "invalid_grant", error_description: "Refresh token revoked" });
+  }
+  issued++;
+  const accessToken = `access-${issued}`;
+  validTokens.add(accessToken);
+  json(res, 200, {
+    access_token: accessToken,
+    expires_in: 3600,
+    // Rotated on every refresh-token grant
+    ...(params.grant_type === "refresh_token" ? { refresh_token: `refresh-${issued}` } : {}),
+  });
+}
+
+const MESSAGES = [
+  {
+    id: "AAMk-1",
+    internetMessageId: "<one@vendor.example>",
+    from: { emailAddress: { address: "orders@vendor.example" } },
+    subject: "Stock file",
+    receivedDateTime: "2026-03-01T08:00:00Z",
+  },
+  {
+    id: "AAMk-2",
+    internetMessageId: "<two@other.example>",
+    from: { emailAddress: { address: "news@other.example" } },
+    subject: "Newsletter",
+    receivedDateTime: "2026-03-02T08:00:00Z",
+  },
+];
+
+function handleGraph(req: http.IncomingMessage, res: http.ServerResponse) {
+  const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+  if (!validTokens.has(token)) {
+    return json(res, 401, { error: { message: "InvalidAuthenticationToken" } });
+  }
+  const url = new URL(req.url || "/", base);
+  const path = url.pathname.replace("/graph/users/buyer%40shop.example", "");
+  if (path === "/mailFolders/inbox") return json(res, 200, { id: "inbox-id" });
+  if (path === "/mailFolders") {
+    return json(res, 200, { value: [{ displayName: "Inbox" }, { displayName: "Vendors" }] });
+  }
+  if (path === "/mailFolders/inbox/messages") {
+    const filter = url.searchParams.get("$filter") || "";
+    return json(res, 200, {
+      value: filter.includes("isRead eq false") ? MESSAGES : [],
+    });
+  }
+  if (path === "/messages/AAMk-1/attachments/att-1/$value") {
+    res.writeHead(200, { "Content-Type": "text/csv" });
+    return res.end("style,stock\nA100,4\n");
+  }
+  json(res, 404, { error: { message: `No route ${path}` } });
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === "/token") handleToken(req, res);
+    else handleGraph(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+let settings: Map<string, any>;
+
+beforeEach(() => {
+  grants = [];
+  validTokens = new Set();
+  settings = new Map();
+  process.env.EMAIL_TOKEN_ENCRYPTION_KEY = "test-key";
+  mock.method(storage, "getAppSetting", async (key: string) => settings.get(key));
+  mock.method(storage, "setAppSetting", async (key: string, value: any) => {
+    settings.set(key, value);
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  delete process.env.EMAIL_TOKEN_ENCRYPTION_KEY;
+});
+
+const oauth = (overrides: Partial<EmailOAuthSettings> = {}): EmailOAuthSettings => ({
+  tokenUrl: `${base}/token`,
+  clientId: "client-1",
+  clientSecret: "secret-1",
+  refreshToken: "refresh-initial",
+  ...overrides,
+});
+
+// ============================================================
+// TOKENS
+// ============================================================
+
+describe("email OAuth tokens", () => {
+  test("refreshes once, then serves the cached token", async () => {
+    const first = await getEmailAccessToken("ds-1", oauth());
+    const second = await getEmailAccessToken("ds-1", oauth());
+
+    assert.equal(first, second);
+    assert.equal(grants.length, 1);
+    assert.equal(grants[0].grant_type, "refresh_token");
+    assert.equal(grants[0].refresh_token, "refresh-initial");
+    assert.equal(grants[0].client_secret, "secret-1");
+  });
+
+  test("stores the cached tokens encrypted", async () => {
+    const token = await getEmailAccessToken("ds-1", oauth());
+
+    const stored = settings.get("email_oauth:ds-1");
+    assert.match(stored.encrypted, /^v1:/);
+    const raw = JSON.stringify(stored);
+    assert.equal(raw.includes(token), false);
+    assert.equal(raw.includes("refresh-"), false);
+  });
+
+  test("a forced refresh uses the rotated refresh token", async () => {
+    await getEmailAccessToken("ds-1", oauth());
+    await getEmailAccessToken("ds-1", oauth(), true);
+
+    assert.equal(grants.length, 2);
+    assert.equal(grants[1].refresh_token, `refresh-${issued - 1}`);
+  });
+
+  test("a new refresh token in the settings starts over", async () => {
+    await getEmailAccessToken("ds-1", oauth());
+    await getEmailAccessToken("ds-1", oauth({ refreshToken: "refresh-reconsented" }));
+
+    assert.equal(grants.length, 2);
+    assert.equal(grants[1].refresh_token, "refresh-reconsented");
+  });
+
+  test("uses client credentials without a refresh token", async () => {
+    await getEmailAccessToken(undefined, oauth({ refreshToken: undefined }));
+
+    assert.equal(grants[0].grant_type, "client_credentials");
+    assert.equal(settings.size, 0);
+  });
+
+  test("treats a token cached in plain text as absent", async () => {
+    settings.set("email_oauth:ds-1", {
+      accessToken: "access-plain",
+      expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+      refreshToken: "refresh-plain",
+      seededFrom: "",
+    });
+    const token = await getEmailAccessToken("ds-1", oauth());
+
+    assert.notEqual(token, "access-plain");
+    assert.equal(grants.length, 1);
+    assert.equal(grants[0].refresh_token, "refresh-initial");
+    assert.match(settings.get("email_oauth:ds-1").encrypted, /^v1:/);
+  });
+
+  test("refuses to cache without an encryption key", async () => {
+    delete process.env.EMAIL_TOKEN_ENCRYPTION_KEY;
+    const previous = process.env.SESSION_SECRET;
+    delete process.env.SESSION_SECRET;
+    try {
+      await assert.rejects(
+        getEmailAccessToken("ds-1", oauth()),
+        /EMAIL_TOKEN_ENCRYPTION_KEY/,
+      );
+      assert.equal(grants.length, 0);
+      // Connection tests cache nothing, so they still work
+      assert.match(await getEmailAccessToken(undefined, oauth()), /^access-/);
+    } finally {
+      if (previous !== undefined) process.env.SESSION_SECRET = previous;
+    }
+  });
+
+  test("reports the token endpoint's error", async () => {
+    await assert.rejects(
+      getEmailAccessToken("ds-1", oauth({ refreshToken: "revoked" })),
+      /OAuth token request failed: Refresh token revoked/,
+    );
+  });
+});
+
+// ============================================================
+// GRAPH MAILBOX
+// ============================================================
+
+describe("graph mailbox", () => {
+  const mailbox = () =>
+    openMailbox(
+      {
+        provider: "graph",
+        host: "graph.microsoft.com",
+        port: 443,
+        secure: true,
+        username: "buyer@shop.example",
+        password: "",
+        oauth: oauth(),
+        graphBaseUrl: `${base}/graph`,
+      },
+      { dataSourceId: "ds-1" },
+    );
+
+  test("connects with an access token and lists folders", async () => {
+    const box = mailbox();
+    await box.connect();
+    assert.deepEqual(await box.listFolders(), ["Inbox", "Vendors"]);
+  });
+
+  test("filters senders and downloads attachments", async () => {
+    const box = mailbox();
+    await box.connect();
+    await box.openFolder("INBOX");
+    const uids = await box.search({ unseen: true, from: "vendor.example" });
+
+    assert.equal(uids.length, 1);
+    assert.equal((await box.envelope(uids[0]))?.messageId, "<one@vendor.example>");
+    assert.equal(
+      (await box.downloadPart(uids[0], "att-1")).toString(),
+      "style,stock\nA100,4\n",
+    );
+  });
+
+  test("refreshes the token once when the server rejects it", async () => {
+    const box = mailbox();
+    await box.connect();
+    // Server-side revocation
+    validTokens.clear();
+    assert.deepEqual(await box.listFolders(), ["Inbox", "Vendors"]);
+    assert.equal(grants.length, 2);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * emailOAuth.ts — OAuth2 access tokens for email data sources
+ *
+ * Mailboxes that no longer accept app passwords (Microsoft 365, Google
+ * Workspace) are read with an OAuth2 access token: XOAUTH2 over IMAP, or a
+ * bearer token for Microsoft Graph. The data source's emailSettings.oauth
+ * holds the client and the grant:
+ *
+ *   - refresh_token       a refresh token from a one-time consent
+ *                         (delegated access to one mailbox)
+ *   - client_credentials  no refresh token; app-only access granted by the
+ *                         tenant admin
+ *
+ * Access tokens are cached per data source in app settings
+ * (EMAIL_OAUTH_PREFIX + data source ID) together with any rotated refresh
+ * token the provider hands back, so a refresh token only has to be entered
+ * once. Changing the client or entering a new refresh token in the
+ * settings starts over from the new ones.
+ *
+ * The cached record is encrypted (AES-256-GCM) with a key derived from
+ * EMAIL_TOKEN_ENCRYPTION_KEY, or SESSION_SECRET when that isn't set; with
+ * neither, tokens for saved data sources can't be stored and the request
+ * fails.
+ */
+
+import * as crypto from "crypto";
+import { storage } from "./storage";
+
+const EMAIL_OAUTH_PREFIX = "email_oauth:";
+// Refresh this long before the token expires
+const EXPIRY_MARGIN_MS = 2 * 60 * 1000;
+const TOKEN_TIMEOUT_MS = 15000;
+
+export interface EmailOAuthSettings {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  /** Space-separated, e.g. "https://outlook.office.com/IMAP.AccessAsUser.All offline_access" */
+  scope?: string;
+}
+
+interface EncryptedToken {
+  /** "v1:<iv>:<auth tag>:<ciphertext>", base64 parts */
+  encrypted: string;
+}
+
+interface StoredToken {
+  accessToken: string;
+  expiresAt: string;
+  refreshToken?: string;
+  /** Hash of the configured client + refresh token this descends from */
+  seededFrom: string;
+}
+
+function settingsHash(oauth: EmailOAuthSettings): string {
+  return crypto
+    .createHash("sha256")
+    .update([oauth.tokenUrl, oauth.clientId, oauth.refreshToken || ""].join("\n"))
+    .digest("hex");
+}
+
+// ============================================================
+// ENCRYPTION
+// ============================================================
+
+function tokenKey(): Buffer {
+  const secret =
+    process.env.EMAIL_TOKEN_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Set EMAIL_TOKEN_ENCRYPTION_KEY (or SESSION_SECRET) to store email OAuth tokens",
+    );
+  }
+  return crypto.createHash("sha256").update(`email-oauth:${secret}`).digest();
+}
+
+function encryptToken(record: StoredToken): EncryptedToken {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", tokenKey(), iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(record), "utf8"),
+    cipher.final(),
+  ]);
+  return {
+    encrypted: [
+      "v1",
+      iv.toString("base64"),
+      cipher.getAuthTag().toString("base64"),
+      data.toString("base64"),
+    ].join(":"),
+  };
+}
+
+/**
+ * The cached record; undefined when there is none, it isn't a v1 record or
+ * it can't be decrypted (key changed)
+ */
+function decryptToken(saved: EncryptedToken | undefined): StoredToken | undefined {
+  if (typeof saved?.encrypted !== "string") return undefined;
+  const [version, iv, tag, data] = saved.encrypted.split(":");
+  if (version !== "v1") return undefined;
+  const key = tokenKey();
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return JSON.parse(
+      Buffer.concat([
+        decipher.update(Buffer.from(data, "base64")),
+        decipher.final(),
+      ]).toString("utf8"),
+    );
+  } catch {
+    console.warn("[Email OAuth] Cached token could not be decrypted; refreshing");
+    return undefined;
+  }
+}
+
+// ============================================================
+// TOKENS
+// ============================================================
+
+async function requestToken(
+  oauth: EmailOAuthSettings,
+  refreshToken: string | undefined,
+): Promise<{ accessToken: string; expiresIn: number; refreshToken?: string }> {
+  const body = new URLSearchParams({ client_id: oauth.clientId });
+  if (oauth.clientSecret) body.set("client_secret", oauth.clientSecret);
+  if (oauth.scope) body.set("scope", oauth.scope);
+  if (refreshToken) {
+    body.set("grant_type", "refresh_token");
+    body.set("refresh_token", refreshToken);
+  } else {
+    body.set("grant_type", "client_credentials");
+  }
+
+  const response = await fetch(oauth.tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: body.toString(),
+    signal: AbortSignal.timeout(TOKEN_TIMEOUT_MS),
+  });
+  const data: any = await response.json().catch(() => ({}));
+  if (!response.ok || !data.access_token) {
+    const reason =
+      data.error_description || data.error || `HTTP ${response.status}`;
+    throw new Error(`OAuth token request failed: ${reason}`);
+  }
+  return {
+    accessToken: data.access_token,
+    expiresIn: Number(data.expires_in) || 3600,
+    refreshToken: data.refresh_token,
+  };
+}
+
+/**
+ * A valid access token for the data source's mailbox, refreshed when the
+ * cached one is missing or about to expire (or `forceRefresh`, after the
+ * server rejected it). Without a data source ID (connection tests before
+ * the data source is saved) nothing is cached.
+ */
+export async function getEmailAccessToken(
+  dataSourceId: string | undefined,
+  oauth: EmailOAuthSettings,
+  forceRefresh = false,
+): Promise<string> {
+  if (!oauth?.tokenUrl || !oauth.clientId) {
+    throw new Error("OAuth settings need a token URL and client ID");
+  }
+
+  const key = dataSourceId ? EMAIL_OAUTH_PREFIX + dataSourceId : null;
+  // Fail before requesting a token that couldn't be stored
+  if (key) tokenKey();
+  const stored = key ? decryptToken(await storage.getAppSetting(key)) : undefined;
+  const seed = settingsHash(oauth);
+  // Settings changed since the token was cached: start over
+  const current = stored && stored.seededFrom === seed ? stored : undefined;
+
+  if (
+    current &&
+    !forceRefresh &&
+    new Date(current.expiresAt).getTime() - EXPIRY_MARGIN_MS > Date.now()
+  ) {
+    return current.accessToken;
+  }
+
+  const token = await requestToken(
+    oauth,
+    current?.refreshToken || oauth.refreshToken,
+  );
+  if (key) {
+    const record: StoredToken = {
+      accessToken: token.accessToken,
+      expiresAt: new Date(Date.now() + token.expiresIn * 1000).toISOString(),
+      refreshToken: token.refreshToken || current?.refreshToken,
+      seededFrom: seed,
+    };
+    await storage.setAppSetting(key, encryptToken(record));
+  }
+  return token.accessToken;
+}
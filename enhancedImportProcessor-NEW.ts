@@ -125,6 +125,7 @@ export interface ParsedInventoryItem {
   rawStockValue?: string;
   isExpandedSize?: boolean; // True if this size was created by expansion
   expandedFrom?: string; // Original size this was expanded from
+  sourceRow?: number; // 1-based row in the source sheet (import provenance)
 }
 
 export interface ParseResult {
@@ -140,6 +141,8 @@ export interface ParseResult {
     complexStockParsed: number;
   };
   warnings: string[];
+  /** Header row the columns were mapped from (row-format files) */
+  headers?: string[];
 }
 
 // ============================================================
@@ -564,6 +567,7 @@ export async function parseWithEnhancedConfig(
 
     const headers = rawData[0].map((h: any) => String(h || "").trim());
     const rows = rawData.slice(1);
+    result.headers = headers;
     result.stats.totalRows = rows.length;
 
     console.log(`[EnhancedParser] Headers found: ${headers.join(", ")}`);
@@ -665,7 +669,8 @@ export async function parseWithEnhancedConfig(
         .map((s) => ({ size: s, idx: headerIndex[s] }))
         .filter((x) => x.idx !== undefined);
 
-      for (const row of rows) {
+      for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
+        const row = rows[rowIdx];
         const style = String(row[pStyleIdx] || "").trim();
         if (!style) {
           result.stats.skippedRows++;
@@ -706,6 +711,7 @@ export async function parseWithEnhancedConfig(
             size: sizeCol.size,
             stock,
             price,
+            sourceRow: rowIdx + 2, // +1 header row, +1 for 1-based
           };
           result.items.push(item);
         }
@@ -713,7 +719,8 @@ export async function parseWithEnhancedConfig(
     } else {
       // Row-based format parsing
       let firstFewRows = 0;
-      for (const row of rows) {
+      for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
+        const row = rows[rowIdx];
         const style =
           styleIdx !== undefined ? String(row[styleIdx] || "").trim() : "";
         if (!style) {
@@ -879,6 +886,7 @@ export async function parseWithEnhancedConfig(
           priceSource,
           compareAtPrice,
           rawStockValue,
+          sourceRow: rowIdx + 2, // +1 header row, +1 for 1-based
         };
 
         // Track stats
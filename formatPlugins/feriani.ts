@@ -0,0 +1,146 @@
+/**
+ * formatPlugins/feriani.ts — Feriani / GIA Franco format plugin
+ *
+ * DELIVERY, STYLE, COLOR then one column per size.
+ * Continuation rows carry only a COLOR and inherit the style above.
+ */
+
+import {
+  DETECT_SCORE,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: FERIANI / GIA FRANCO FORMAT
+// ============================================================
+
+function parseFerianiFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  let headerRowIdx = 0;
+  for (let i = 0; i < Math.min(5, data.length); i++) {
+    const row = data[i];
+    const rowStr = row.map((c: any) => String(c || "").toUpperCase()).join("|");
+    if (rowStr.includes("STYLE") && rowStr.includes("COLOR")) {
+      headerRowIdx = i;
+      break;
+    }
+  }
+
+  const headerRow = data[headerRowIdx];
+  const headers = headerRow.map((h: any) =>
+    String(h || "")
+      .toUpperCase()
+      .trim(),
+  );
+
+  const headersLower = headerRow.map((h: any) =>
+    String(h || "").toLowerCase().trim(),
+  );
+  const deliveryIdx = headers.findIndex((h: string) => h.includes("DELIVERY"));
+  const styleIdx = resolveColumnIndex(config, headersLower, "style", ["style"]);
+  const colorIdx = resolveColumnIndex(config, headersLower, "color", ["color"]);
+  const priceIdx = resolveColumnIndex(config, headersLower, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  const sizePattern = /^(0|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30)$/;
+  const sizeColumns: { index: number; size: string }[] = [];
+
+  for (let i = Math.max(colorIdx + 1, 3); i < headers.length; i++) {
+    const h = String(headerRow[i] ?? "").trim();
+    if (sizePattern.test(h)) sizeColumns.push({ index: i, size: h });
+  }
+
+  if (styleIdx === -1 || colorIdx === -1 || sizeColumns.length === 0)
+    return items;
+
+  let currentStyle = "",
+    currentDelivery = "";
+
+  for (let rowIdx = headerRowIdx + 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const styleVal = String(row[styleIdx] ?? "").trim();
+    const colorVal = String(row[colorIdx] ?? "").trim();
+    const deliveryVal =
+      deliveryIdx >= 0 ? String(row[deliveryIdx] ?? "").trim() : "";
+
+    if (styleVal) {
+      currentStyle = styleVal;
+      currentDelivery = deliveryVal;
+    }
+
+    if (!colorVal || !currentStyle) continue;
+
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    let shipDate: string | undefined;
+    const delivery = currentDelivery || deliveryVal;
+    if (delivery && delivery.toUpperCase() !== "NOW") shipDate = delivery;
+
+    for (const sc of sizeColumns) {
+      const stock = parseStockValue(
+        row[sc.index],
+        config.stockConfig?.textMappings,
+      );
+      // FIX: Always push ALL items regardless of stock (matching Tarik Ediz behavior)
+      // This ensures size expansion can work with existing 0-stock items
+      // Zero-stock filtering happens later in applyVariantRules if enabled
+      items.push({
+        style: currentStyle,
+        color: colorVal,
+        size: sc.size,
+        stock,
+        price,
+        shipDate,
+        sourceRow: sheetRowNumber(rowIdx, config),
+      });
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (sample.combinedName.includes("FERIANI")) return DETECT_SCORE.NAME_MATCH;
+  if (
+    sample.combinedName.includes("GIA") &&
+    (sample.combinedName.includes("FRANCO") || sample.combinedName.includes("INV"))
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  if (
+    sample.headerStr.includes("DELIVERY") &&
+    sample.headerStr.includes("STYLE") &&
+    sample.headerStr.includes("COLOR")
+  )
+    return DETECT_SCORE.DELIVERY_HEADER;
+  return DETECT_SCORE.NONE;
+}
+
+export const ferianiPlugin: FormatPlugin = {
+  id: "feriani",
+  name: "Feriani / GIA Franco",
+  aliases: ["pivot_grouped"],
+  detect,
+  parse: (data, config) => parseFerianiFormat(data, config),
+};
@@ -0,0 +1,233 @@
+/**
+ * formatPlugins/genericPivot.ts — Generic pivot format plugin
+ *
+ * One row per style/color, one column per size (Alyce,
+ * INESS/Colette, "Styles Available to Ship"). Falls back to row parsing
+ * when no size columns produce items.
+ */
+
+import { isValidShipDate } from "../inventoryProcessing";
+import { parseRowFormat } from "./rowFormat";
+import {
+  DETECT_SCORE,
+  countSizeHeaders,
+  parseDateValue,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: GENERIC PIVOT FORMAT (Alyce, INESS, Styles Available)
+// ============================================================
+
+function parseGenericPivotFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+  filename?: string,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const pc = config.pivotConfig;
+  const hasAIConfig = pc?.sizeColumns?.length > 0;
+
+  if (hasAIConfig) {
+    console.log(`[GenericPivot] Using AI-saved pivotConfig (${pc.sizeColumns.length} size columns)`);
+  }
+
+  // ── HEADER ROW DETECTION ──
+  let headerRowIdx = 0;
+  const sizePattern =
+    /^(000|00|OOO|OO|0|02|04|06|08|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30|32|34|36|14W|16W|18W|20W|22W|24W|26W|28W|30W|32W|XS|S|SM|M|MD|L|LG|XL|XXL|XXXL|SS|LL|LLL|UNIT|DOZEN|DOZN)$/i;
+
+  if (hasAIConfig && pc.headerRowIndex !== undefined) {
+    // Use AI-detected header row position
+    headerRowIdx = pc.headerRowIndex;
+  } else {
+    // Fallback: scan first 5 rows for row with 5+ size matches
+    for (let i = 0; i < Math.min(5, data.length); i++) {
+      const row = data[i];
+      const sizeCount = row.filter((c: any) =>
+        sizePattern.test(String(c ?? "").trim()),
+      ).length;
+      if (sizeCount >= 5) {
+        headerRowIdx = i;
+        break;
+      }
+    }
+  }
+
+  const headerRow = data[headerRowIdx];
+  const headers = headerRow.map((h: any) => String(h ?? "").trim());
+  const headersLower = headers.map((h: string) => h.toLowerCase());
+
+  // ── BRIDGE AI PIVOT CONFIG → COLUMN MAPPING ──
+  // If AI saved specific column names in pivotConfig, bridge them into columnMapping
+  // so resolveColumnIndex picks them up. Only fill fields not already set by user.
+  const effectiveConfig: UniversalParserConfig = hasAIConfig
+    ? {
+        ...config,
+        columnMapping: {
+          ...config.columnMapping,
+          ...(pc.styleColumn && !config.columnMapping?.style ? { style: pc.styleColumn } : {}),
+          ...(pc.colorColumn && !config.columnMapping?.color ? { color: pc.colorColumn } : {}),
+          ...(pc.priceColumn && !config.columnMapping?.price ? { price: pc.priceColumn } : {}),
+          ...(pc.dateColumn && !config.columnMapping?.shipDate ? { shipDate: pc.dateColumn } : {}),
+          ...(pc.statusColumn && !config.columnMapping?.discontinued ? { discontinued: pc.statusColumn } : {}),
+        },
+      }
+    : config;
+
+  const styleIdx = resolveColumnIndex(effectiveConfig, headersLower, "style", [
+    "style", "code", "item",
+  ]);
+  const colorIdx = resolveColumnIndex(effectiveConfig, headersLower, "color", [
+    "color", "colour",
+  ]);
+  const dateIdx = resolveColumnIndex(effectiveConfig, headersLower, "shipDate", [
+    "date", "eta", "due", "available",
+  ]);
+  const statusIdx = resolveColumnIndex(effectiveConfig, headersLower, "discontinued", [
+    "status", "discontinued", "active",
+  ]);
+  const priceIdx = resolveColumnIndex(effectiveConfig, headersLower, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  // Use configured keywords (from UI) or fallback to defaults
+  // Check both 'keywords' (new UI format) and 'values' (old format)
+  const configKeywords =
+    (config.discontinuedConfig as any)?.keywords ||
+    config.discontinuedConfig?.values;
+  const discontinuedKeywords = configKeywords?.length
+    ? configKeywords.map((v: string) => v.toLowerCase().trim())
+    : ["discontinued", "disc", "inactive", "d", "no", "n", "false", "0", "cl"];
+
+  // ── SIZE COLUMN DETECTION ──
+  const sizeColumns: { index: number; size: string }[] = [];
+  if (hasAIConfig) {
+    // Use exact columns saved by AI detection — handles ANY size format
+    for (const sizeName of pc.sizeColumns) {
+      const idx = headersLower.findIndex((h: string) => h === sizeName.toLowerCase());
+      if (idx >= 0) {
+        sizeColumns.push({ index: idx, size: sizeName });
+      }
+    }
+    console.log(`[GenericPivot] AI config matched ${sizeColumns.length}/${pc.sizeColumns.length} size columns in headers`);
+  } else {
+    // Fallback: hardcoded regex detection (existing data sources use this path)
+    for (let i = 0; i < headers.length; i++) {
+      const h = String(headerRow[i] ?? "").trim();
+      if (sizePattern.test(h)) {
+        let normalizedSize = h;
+        if (h.toUpperCase() === "OOO") normalizedSize = "000";
+        else if (h.toUpperCase() === "OO") normalizedSize = "00";
+        // Normalize leading-zero sizes: "02"→"2", "04"→"4", "06"→"6", "08"→"8"
+        else if (/^0\d$/.test(h)) normalizedSize = h.replace(/^0/, "");
+        sizeColumns.push({ index: i, size: normalizedSize });
+      }
+    }
+  }
+
+  if (styleIdx === -1 || sizeColumns.length === 0) return items;
+
+  const isFileDiscontinued = filename
+    ? filename.toLowerCase().includes("discontinued")
+    : false;
+
+  // ── DATA START ROW ──
+  const dataStartRow = (hasAIConfig && pc.dataStartRow !== undefined)
+    ? pc.dataStartRow
+    : headerRowIdx + 1;
+
+  for (let rowIdx = dataStartRow; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const style = String(row[styleIdx] ?? "").trim();
+    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
+    if (!style) continue;
+
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    let shipDate: string | undefined;
+    if (dateIdx >= 0) {
+      shipDate = parseDateValue(row[dateIdx]);
+    }
+
+    let isDiscontinued = isFileDiscontinued;
+    if (statusIdx >= 0 && !isDiscontinued) {
+      const statusVal = String(row[statusIdx] ?? "")
+        .toLowerCase()
+        .trim();
+      isDiscontinued = discontinuedKeywords.some(
+        (k) =>
+          statusVal === k || statusVal.includes(k) || statusVal.startsWith(k),
+      );
+    }
+
+    for (const sc of sizeColumns) {
+      const stock = parseStockValue(
+        row[sc.index],
+        config.stockConfig?.textMappings,
+      );
+      if (
+        stock > 0 ||
+        (shipDate && isValidShipDate(shipDate)) ||
+        isDiscontinued
+      ) {
+        items.push({
+          style,
+          color: color || "DEFAULT",
+          size: sc.size,
+          stock,
+          price,
+          shipDate,
+          discontinued: isDiscontinued,
+          sourceRow: sheetRowNumber(rowIdx, config),
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (sample.combinedName.includes("ALYCE")) return DETECT_SCORE.NAME_MATCH;
+  if (
+    sample.combinedName.includes("INESS") ||
+    sample.combinedName.includes("COLETTE")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  if (countSizeHeaders(sample) >= 5) return DETECT_SCORE.SIZE_COLUMNS;
+  return DETECT_SCORE.NONE;
+}
+
+export const genericPivotPlugin: FormatPlugin = {
+  id: "generic_pivot",
+  name: "Generic pivot (sizes as columns)",
+  detect,
+  parse: (data, config, context) => {
+    const items = parseGenericPivotFormat(data, config, context.filename);
+    // If generic_pivot found 0 items, file may actually be row format
+    if (items.length === 0) {
+      console.log(`[IntelligentPivot] generic_pivot returned 0 items, trying row format fallback`);
+      return parseRowFormat(data, config, context.filename);
+    }
+    return items;
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * formatPlugins/grnInvoice.ts — GRN invoice format plugin
+ *
+ * Title rows, then a Code / Color header with size columns
+ * (000, 00, 0, 02, 04, ...). Parses the sheet before skipRows because it
+ * locates its own header row.
+ */
+
+import {
+  DETECT_SCORE,
+  parseStockValue,
+  resolveColumnIndex,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: GRN-INVOICE FORMAT
+// ============================================================
+
+function parseGRNInvoiceFormat(
+  rawData: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (rawData.length < 3) return items;
+
+  let headerRowIdx = 0;
+  for (let i = 0; i < Math.min(5, rawData.length); i++) {
+    const row = rawData[i];
+    const rowStr = row.map((c: any) => String(c || "").toLowerCase()).join("|");
+    if (rowStr.includes("code") && rowStr.includes("color")) {
+      headerRowIdx = i;
+      break;
+    }
+  }
+
+  const data = rawData.slice(headerRowIdx);
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+  const headersLower = headerRow.map((h: any) =>
+    String(h ?? "")
+      .toLowerCase()
+      .trim(),
+  );
+
+  const codeIdx = resolveColumnIndex(config, headersLower, "style", ["code"]);
+  const colorIdx = resolveColumnIndex(config, headersLower, "color", ["color"]);
+  const priceIdx = resolveColumnIndex(config, headersLower, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  const sizePattern = /^(000|00|0|02|04|06|08|10|12|14|16|18|20|22|24)$/i;
+  const sizeColumns: { index: number; size: string }[] = [];
+
+  for (let i = 0; i < headerRow.length; i++) {
+    const h = String(headerRow[i] ?? "").trim();
+    if (sizePattern.test(h)) {
+      let normalizedSize = h;
+      if (/^0\d$/.test(h)) normalizedSize = h.replace(/^0/, "");
+      sizeColumns.push({ index: i, size: normalizedSize });
+    }
+  }
+
+  if (codeIdx === -1 || sizeColumns.length === 0) return items;
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const code = String(row[codeIdx] ?? "").trim();
+    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
+    if (!code) continue;
+
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    for (const sc of sizeColumns) {
+      const stock = parseStockValue(
+        row[sc.index],
+        config.stockConfig?.textMappings,
+      );
+      if (stock > 0) {
+        items.push({
+          style: code,
+          color: color || "DEFAULT",
+          size: sc.size,
+          stock,
+          price,
+          // data starts at the header row of the unskipped sheet
+          sourceRow: headerRowIdx + rowIdx + 1,
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("GRN") ||
+    sample.combinedName.includes("INVOICE")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  if (
+    sample.firstRowText.includes("grn") ||
+    sample.firstRowText.includes("invoice")
+  )
+    return DETECT_SCORE.GRN_TITLE_ROW;
+  return DETECT_SCORE.NONE;
+}
+
+export const grnInvoicePlugin: FormatPlugin = {
+  id: "grn_invoice",
+  name: "GRN invoice",
+  detect,
+  parse: (_data, config, context) => parseGRNInvoiceFormat(context.rawData, config),
+};
@@ -0,0 +1,108 @@
+/**
+ * formatPlugins/index.ts — Vendor format plugin registry
+ *
+ * One module per vendor layout (see types.ts for the contract). Detection
+ * asks every plugin for a score and picks the highest; on a tie the plugin
+ * listed first wins, so FORMAT_PLUGINS order doubles as the priority of
+ * name matches.
+ *
+ * Adding a vendor:
+ *   1. Create formatPlugins/<vendor>.ts exporting a FormatPlugin
+ *   2. Add it to FORMAT_PLUGINS below
+ */
+
+import * as XLSX from "xlsx";
+import { buildFormatSample, fixSheetRange } from "./shared";
+import type { FormatPlugin } from "./types";
+import { jovaniSalePlugin } from "./jovaniSale";
+import { ferianiPlugin } from "./feriani";
+import { tarikEdizPlugin } from "./tarikEdiz";
+import { sherriHillPlugin } from "./sherriHill";
+import { genericPivotPlugin } from "./genericPivot";
+import { prDateHeadersPlugin } from "./prDateHeaders";
+import { grnInvoicePlugin } from "./grnInvoice";
+import { storeMultibrandPlugin } from "./storeMultibrand";
+import { otsPlugin } from "./ots";
+
+export * from "./shared";
+export * from "./types";
+export { parseRowFormat } from "./rowFormat";
+
+export const FORMAT_PLUGINS: FormatPlugin[] = [
+  jovaniSalePlugin,
+  ferianiPlugin,
+  tarikEdizPlugin,
+  sherriHillPlugin,
+  genericPivotPlugin,
+  prDateHeadersPlugin,
+  grnInvoicePlugin,
+  storeMultibrandPlugin,
+  otsPlugin,
+];
+
+export interface FormatDetection {
+  plugin: FormatPlugin;
+  score: number;
+}
+
+/** Look up a plugin by id or legacy alias (e.g. "pivot_grouped" → feriani) */
+export function getFormatPlugin(
+  formatId: string | null | undefined,
+): FormatPlugin | undefined {
+  if (!formatId) return undefined;
+  return FORMAT_PLUGINS.find(
+    (p) => p.id === formatId || p.aliases?.includes(formatId),
+  );
+}
+
+/**
+ * Score sheet rows against every plugin and return the best match, or null
+ * when no plugin recognises the file. `candidates` restricts detection to
+ * the given plugin ids.
+ */
+export function detectFormat(
+  data: any[][],
+  dataSourceName?: string,
+  filename?: string,
+  options: { candidates?: string[] } = {},
+): FormatDetection | null {
+  const sample = buildFormatSample(data, dataSourceName, filename);
+
+  let best: FormatDetection | null = null;
+  for (const plugin of FORMAT_PLUGINS) {
+    if (options.candidates && !options.candidates.includes(plugin.id)) continue;
+    const score = plugin.detect(sample);
+    if (score > 0 && (!best || score > best.score)) best = { plugin, score };
+  }
+  return best;
+}
+
+/** First sheet of an uploaded file as string rows (same options as the parsers) */
+export function readFirstSheetRows(buffer: Buffer): any[][] {
+  const workbook = XLSX.read(buffer, { type: "buffer" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  fixSheetRange(sheet);
+  return XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    defval: "",
+    raw: false,
+  }) as any[][];
+}
+
+export function detectFormatFromBuffer(
+  buffer: Buffer,
+  dataSourceName?: string,
+  filename?: string,
+  options: { candidates?: string[] } = {},
+): FormatDetection | null {
+  try {
+    return detectFormat(
+      readFirstSheetRows(buffer),
+      dataSourceName,
+      filename,
+      options,
+    );
+  } catch (e) {
+    return null;
+  }
+}
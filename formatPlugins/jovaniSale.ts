@@ -0,0 +1,133 @@
+/**
+ * formatPlugins/jovaniSale.ts — Jovani sale format plugin
+ *
+ * Size headers from column 1, style rows (style + price)
+ * followed by one row per color with stock under each size.
+ */
+
+import {
+  DETECT_SCORE,
+  countSizeHeaders,
+  PIVOT_SIZE_HEADER_PATTERN,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: JOVANI SALE FORMAT (FIXED)
+// ============================================================
+
+function parseJovaniSaleFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+
+  // Find size columns - sizes start at index 1
+  const sizePattern = /^(00|0|2|4|6|8|10|12|14|16|18|20|22|24)$/;
+  const sizeColumns: { index: number; size: string }[] = [];
+
+  for (let i = 1; i < headerRow.length; i++) {
+    const h = String(headerRow[i] ?? "").trim();
+    if (sizePattern.test(h)) sizeColumns.push({ index: i, size: h });
+  }
+
+  if (sizeColumns.length === 0) return items;
+
+  // For price: check if user mapped a specific price column (overrides default column 1)
+  let priceColIdx = 1; // Default: price is in column 1 for Jovani format
+  if (config.columnMapping?.price) {
+    const headersLower = headerRow.map((h: any) => String(h || "").toLowerCase().trim());
+    const userIdx = resolveColumnIndex(config, headersLower, "price", []);
+    if (userIdx >= 0) priceColIdx = userIdx;
+  }
+
+  // Style patterns: #02861, JVN04759, 04859, AL02665, etc.
+  const stylePattern = /^#?\d{4,6}$|^#?\d{5}[A-Z]?$|^[A-Z]{2,3}\d{4,6}$/i;
+
+  let currentStyle = "";
+  let currentPrice = 0;
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.every((c: any) => !c && c !== 0)) continue;
+
+    const cell0 = String(row[0] ?? "").trim();
+    const priceCell = row[priceColIdx];
+
+    // Check if this is a style row
+    if (stylePattern.test(cell0)) {
+      currentStyle = cell0.replace(/^#/, "");
+      currentPrice =
+        typeof priceCell === "number" ? priceCell : parseFloat(String(priceCell || "0"));
+      continue;
+    }
+
+    // This is a color row if cell0 has text
+    if (!currentStyle) continue;
+    if (!cell0 || /^#?\d+$/.test(cell0)) continue;
+
+    const colorVal = cell0;
+
+    for (const sc of sizeColumns) {
+      const stock = parseStockValue(
+        row[sc.index],
+        config.stockConfig?.textMappings,
+      );
+      if (stock > 0) {
+        items.push({
+          style: currentStyle,
+          color: colorVal,
+          size: sc.size,
+          stock,
+          price: currentPrice || undefined,
+          sourceRow: sheetRowNumber(rowIdx, config),
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("JOVANI") &&
+    (sample.combinedName.includes("SALE") || sample.fileUpper.includes("SALE"))
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  // Size header row with no STYLE column, sizes starting in column 0 or 1
+  if (countSizeHeaders(sample) < 5) return DETECT_SCORE.NONE;
+  if (sample.headers.some((h: string) => h.includes("STYLE")))
+    return DETECT_SCORE.NONE;
+  const headerRow = sample.data[0];
+  const cell0 = String(headerRow[0] || "").trim();
+  const cell1 = String(headerRow[1] || "").trim();
+  if (
+    (cell0 === "" || PIVOT_SIZE_HEADER_PATTERN.test(cell0)) &&
+    PIVOT_SIZE_HEADER_PATTERN.test(cell1)
+  )
+    return DETECT_SCORE.INTERLEAVED_SIZE_HEADER;
+  return DETECT_SCORE.NONE;
+}
+
+export const jovaniSalePlugin: FormatPlugin = {
+  id: "jovani_sale",
+  name: "Jovani Sale",
+  aliases: ["jovani", "pivot_interleaved"],
+  detect,
+  parse: (data, config) => parseJovaniSaleFormat(data, config),
+};
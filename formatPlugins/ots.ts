@@ -0,0 +1,124 @@
+/**
+ * formatPlugins/ots.ts — OTS format plugin
+ *
+ * Style, color, price and ots1..otsN columns, each mapping to a size.
+ */
+
+import {
+  DETECT_SCORE,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: OTS FORMAT (NEW)
+// ============================================================
+
+function parseOTSFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+  const headers = headerRow.map((h: any) =>
+    String(h ?? "")
+      .trim()
+      .toLowerCase(),
+  );
+
+  const styleIdx = resolveColumnIndex(config, headers, "style", ["style"]);
+  const colorIdx = resolveColumnIndex(config, headers, "color", ["color"]);
+  const priceIdx = resolveColumnIndex(config, headers, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  const sizeCompIdx = headers.findIndex(
+    (h: string) => h.includes("size_whole") || h.includes("size"),
+  );
+
+  // Find OTS columns (ots1, ots2, etc.)
+  const otsColumns: { index: number; num: number }[] = [];
+  for (let i = 0; i < headers.length; i++) {
+    const match = headers[i].match(/^ots(\d+)$/);
+    if (match) otsColumns.push({ index: i, num: parseInt(match[1], 10) });
+  }
+  otsColumns.sort((a, b) => a.num - b.num);
+
+  if (styleIdx === -1 || otsColumns.length === 0) return items;
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const style = String(row[styleIdx] ?? "").trim();
+    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+    if (!style) continue;
+
+    // Parse sizes from size_whole_comp column
+    let sizes: string[] = [];
+    if (sizeCompIdx >= 0) {
+      const sizeStr = String(row[sizeCompIdx] ?? "");
+      sizes = sizeStr
+        .trim()
+        .split(/\s+/)
+        .filter((s: string) => /^\d+$/.test(s));
+    }
+    if (sizes.length === 0)
+      sizes = ["2", "4", "6", "8", "10", "12", "14", "16", "18"];
+
+    // Map OTS columns to sizes
+    for (let i = 0; i < Math.min(otsColumns.length, sizes.length); i++) {
+      const stock = parseStockValue(
+        row[otsColumns[i].index],
+        config.stockConfig?.textMappings,
+      );
+      if (stock > 0) {
+        items.push({
+          style,
+          color: color || "DEFAULT",
+          size: sizes[i],
+          stock,
+          price,
+          sourceRow: sheetRowNumber(rowIdx, config),
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("OTS") ||
+    sample.fileUpper.includes("OTS_")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  // At least 3 ots<N> columns, so a stray "ots1" header isn't enough
+  const otsColumns = sample.headersLower.filter((h: string) => /^ots\d+$/.test(h));
+  if (otsColumns.length >= 3) return DETECT_SCORE.OTS_COLUMNS;
+  return DETECT_SCORE.NONE;
+}
+
+export const otsPlugin: FormatPlugin = {
+  id: "ots_format",
+  name: "OTS (ots1, ots2, ... size columns)",
+  detect,
+  parse: (data, config) => parseOTSFormat(data, config),
+};
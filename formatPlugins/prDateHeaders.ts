@@ -0,0 +1,195 @@
+/**
+ * formatPlugins/prDateHeaders.ts — PR date headers format plugin
+ *
+ * Availability dates as column headers (Excel
+ * serials or MM/DD/YYYY), stock per date column.
+ */
+
+import {
+  DETECT_SCORE,
+  excelSerialToDate,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: PR DATE HEADERS FORMAT (PR-1, PR-2)
+// ============================================================
+
+function parsePRDateHeaderFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+  const headers = headerRow.map((h: any) => String(h ?? "").trim());
+
+  const headersLower = headers.map((h: string) => h.toLowerCase());
+
+  const styleIdx = resolveColumnIndex(config, headersLower, "style", [
+    "product", "code",
+  ]);
+  const availableIdx = resolveColumnIndex(config, headersLower, "stock", [
+    "available",
+  ]);
+  const priceIdx = resolveColumnIndex(config, headersLower, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  // FIX: Detect date columns - support BOTH Excel serial numbers AND human-readable dates (M/D/YY)
+  const dateColumns: { index: number; date: string }[] = [];
+  for (let i = 0; i < headers.length; i++) {
+    const h = headers[i];
+
+    // Check for Excel serial date numbers (e.g., "46068")
+    if (/^4\d{4}$/.test(h)) {
+      const dateStr = excelSerialToDate(parseInt(h, 10));
+      if (dateStr) dateColumns.push({ index: i, date: dateStr });
+      continue;
+    }
+
+    // FIX: Check for human-readable date strings (M/D/YYYY, MM/DD/YYYY, M/D/YY, MM/DD/YY)
+    const dateMatch = h.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+    if (dateMatch) {
+      const month = dateMatch[1].padStart(2, "0");
+      const day = dateMatch[2].padStart(2, "0");
+      let year = dateMatch[3];
+      if (year.length === 2) {
+        year = (parseInt(year, 10) >= 50 ? "19" : "20") + year;
+      }
+      const dateStr = `${year}-${month}-${day}`;
+      dateColumns.push({ index: i, date: dateStr });
+    }
+  }
+
+  console.log(
+    `[PRDateHeaders-AI] Found columns: style=${styleIdx}, available=${availableIdx}, dateColumns=${dateColumns.length}`,
+  );
+  if (dateColumns.length > 0) {
+    console.log(
+      `[PRDateHeaders-AI] Date columns: ${dateColumns.map((d) => d.date).join(", ")}`,
+    );
+  }
+
+  if (styleIdx === -1) return items;
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 2) continue;
+
+    const rawCode = String(row[styleIdx] ?? "").trim();
+    if (!rawCode) continue;
+
+    // FIX: Split composite product code: STYLE-COLOR-SIZE (e.g., "PS26322E-IVBH-06")
+    const parts = rawCode.split("-");
+    let style = rawCode;
+    let color = "";
+    let extractedSize = "";
+
+    if (parts.length >= 3) {
+      // Last part = size, second-to-last = color, rest = style
+      extractedSize = parts[parts.length - 1] || "";
+      color = parts[parts.length - 2] || "";
+      style = parts.slice(0, parts.length - 2).join("-") || "";
+    } else if (parts.length === 2) {
+      style = parts[0] || "";
+      extractedSize = parts[1] || "";
+    }
+
+    // FIX: Normalize leading-zero sizes: "06" → "6", but preserve "0" and "00"
+    if (extractedSize && /^0+[1-9]\d*$/.test(extractedSize)) {
+      extractedSize = extractedSize.replace(/^0+/, "");
+    }
+
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    const currentStock =
+      availableIdx >= 0
+        ? parseStockValue(row[availableIdx], config.stockConfig?.textMappings)
+        : 0;
+    if (currentStock > 0) {
+      const size = extractedSize || "ONE SIZE";
+      // FIX: Use extracted color instead of hardcoded "DEFAULT"
+      const sku = `${style}-${color || "DEFAULT"}-${size}`
+        .replace(/\//g, "-")
+        .replace(/\s+/g, "-")
+        .replace(/-+/g, "-");
+
+      items.push({
+        style,
+        color: color || "DEFAULT",
+        size,
+        stock: currentStock,
+        price,
+        sourceRow: sheetRowNumber(rowIdx, config),
+      });
+    }
+
+    for (const dc of dateColumns) {
+      const futureStock = parseStockValue(
+        row[dc.index],
+        config.stockConfig?.textMappings,
+      );
+      if (futureStock > 0) {
+        const size = extractedSize || "ONE SIZE";
+        const sku = `${style}-${color || "DEFAULT"}-${size}`
+          .replace(/\//g, "-")
+          .replace(/\s+/g, "-")
+          .replace(/-+/g, "-");
+
+        items.push({
+          style,
+          color: color || "DEFAULT",
+          size,
+          stock: 0,
+          price,
+          incomingStock: futureStock,
+          shipDate: dc.date,
+          sourceRow: sheetRowNumber(rowIdx, config),
+        });
+      }
+    }
+  }
+
+  console.log(
+    `[PRDateHeaders-AI] Parsed ${items.length} items (${items.filter((i) => i.shipDate).length} future stock)`,
+  );
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("PR-1") ||
+    sample.combinedName.includes("PR-2") ||
+    sample.combinedName.includes("PRINCESA")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  // Excel serial numbers OR human-readable dates (MM/DD/YYYY)
+  const dateHeaders = sample.headers.filter(
+    (h: string) => /^4\d{4}$/.test(h) || /^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(h),
+  );
+  if (dateHeaders.length >= 3) return DETECT_SCORE.DATE_HEADERS;
+  return DETECT_SCORE.NONE;
+}
+
+export const prDateHeadersPlugin: FormatPlugin = {
+  id: "pr_date_headers",
+  name: "PR date headers",
+  detect,
+  parse: (data, config) => parsePRDateHeaderFormat(data, config),
+};
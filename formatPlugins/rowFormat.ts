@@ -0,0 +1,118 @@
+/**
+ * formatPlugins/rowFormat.ts — Standard one-row-per-variant parsing
+ *
+ * Not a registered plugin: it is the fallback when no vendor format matches.
+ */
+
+import { isValidShipDate } from "../inventoryProcessing";
+import {
+  parseDateValue,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+
+// ============================================================
+// PARSER: ROW FORMAT (Standard one-row-per-variant)
+// ============================================================
+
+export function parseRowFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+  filename?: string,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+  const headers = headerRow.map((h: any) => String(h ?? "").trim());
+  const headersLower = headers.map((h: string) => h.toLowerCase());
+
+  const styleIdx = resolveColumnIndex(config, headersLower, "style", [
+    "style", "style#", "item", "product_id", "product", "code", "sku",
+  ]);
+  const colorIdx = resolveColumnIndex(config, headersLower, "color", [
+    "colordesc", "color_desc", "color_name", "_color_name", "color_descript",
+    "color", "colour",
+  ]);
+  const sizeIdx = resolveColumnIndex(config, headersLower, "size", [
+    "sizedesc", "size_desc", "sizename", "size_name", "size", "_size",
+  ]);
+  const stockIdx = resolveColumnIndex(config, headersLower, "stock", [
+    "stock", "qty", "quantity", "inventory", "_inventory_level",
+    "available", "onhand", "ats_qty", "opentosale", "immediate stock",
+  ]);
+  const priceIdx = resolveColumnIndex(config, headersLower, "price", [
+    "price", "wholesale", "cost", "line price", "msrp", "_price",
+  ]);
+  const dateIdx = resolveColumnIndex(config, headersLower, "shipDate", [
+    "eta", "ship", "date", "arrival", "expected", "future ship",
+  ]);
+  const statusIdx = resolveColumnIndex(config, headersLower, "discontinued", [
+    "status", "discontinued", "active", "_status",
+  ]);
+
+  if (styleIdx === -1) return items;
+
+  // Use configured keywords (from UI) or fallback to defaults
+  // Check both 'keywords' (new UI format) and 'values' (old format)
+  const configKeywords =
+    (config.discontinuedConfig as any)?.keywords ||
+    config.discontinuedConfig?.values;
+  const discontinuedPatterns = configKeywords?.length
+    ? configKeywords.map((v: string) => v.toLowerCase().trim())
+    : ["discontinued", "disc", "inactive", "d", "no", "n", "false", "0"];
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 2) continue;
+
+    const style = String(row[styleIdx] ?? "").trim();
+    if (!style) continue;
+
+    const color =
+      colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "DEFAULT";
+    const size = sizeIdx >= 0 ? String(row[sizeIdx] ?? "").trim() : "ONE SIZE";
+    const stock =
+      stockIdx >= 0
+        ? parseStockValue(row[stockIdx], config.stockConfig?.textMappings)
+        : 0;
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    let shipDate: string | undefined;
+    if (dateIdx >= 0) {
+      shipDate = parseDateValue(row[dateIdx]);
+    }
+
+    let discontinued = false;
+    if (statusIdx >= 0) {
+      const statusVal = String(row[statusIdx] ?? "")
+        .toLowerCase()
+        .trim();
+      discontinued = discontinuedPatterns.some(
+        (p) =>
+          statusVal === p || statusVal.startsWith(p) || statusVal.includes(p),
+      );
+    }
+
+    if (stock > 0 || (shipDate && isValidShipDate(shipDate)) || discontinued) {
+      items.push({
+        style,
+        color,
+        size,
+        stock,
+        price,
+        shipDate,
+        discontinued,
+        sourceRow: sheetRowNumber(rowIdx, config),
+      });
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,332 @@
+/**
+ * formatPlugins/shared.ts — Types and helpers shared by every vendor format plugin
+ *
+ * Moved out of aiImportRoutes so each plugin module can import them without
+ * pulling in the router. UniversalParserConfig is still re-exported from
+ * aiImportRoutes for existing callers.
+ */
+
+import * as XLSX from "xlsx";
+import type { FormatSample } from "./types";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export interface PivotItem {
+  style: string;
+  color: string;
+  size: string;
+  stock: number;
+  price?: number;
+  discontinued?: boolean;
+  shipDate?: string;
+  incomingStock?: number;
+  brand?: string;
+  /** 1-based row in the sheet the parser read (import provenance) */
+  sourceRow?: number;
+}
+
+export interface DiscontinuedConfig {
+  method:
+    | "status_column"
+    | "filename"
+    | "d_flag"
+    | "cl_prefix"
+    | "keyword"
+    | "none";
+  column?: string | number;
+  values?: string[];
+  prefixValues?: string[];
+  activeValues?: string[];
+  invertLogic?: boolean;
+}
+
+export interface FutureDateConfig {
+  method:
+    | "excel_serial"
+    | "adjacent_columns"
+    | "headers_as_dates"
+    | "text_date"
+    | "delivery_column"
+    | "dual_columns"
+    | "none";
+  dateColumn?: string | number;
+  futureStockColumn?: string;
+  immediateStockColumn?: string;
+  adjacentOffset?: number;
+  nowValue?: string;
+  dateFormat?: "excel" | "mm/dd/yyyy" | "yyyy-mm-dd" | "text";
+}
+
+export interface StockConfig {
+  type: "numeric" | "text" | "pivot";
+  column?: string | number;
+  textMappings?: Record<string, number>;
+}
+
+export interface BrandDetectionConfig {
+  enabled: boolean;
+  sourceColumn: string | number;
+  extractionMethod: "prefix" | "contains" | "regex";
+  knownBrands?: string[];
+  regex?: string;
+}
+
+export interface UniversalParserConfig {
+  skipRows?: number;
+  discontinuedConfig?: DiscontinuedConfig;
+  futureDateConfig?: FutureDateConfig;
+  stockConfig?: StockConfig;
+  brandDetection?: BrandDetectionConfig;
+  pivotConfig?: any;
+  columnMapping?: Record<string, string>;
+}
+
+// ============================================================
+// UTILITY FUNCTIONS
+// ============================================================
+
+export function excelSerialToDate(serial: number): string {
+  if (!serial || serial < 40000 || serial > 55000) return "";
+  const excelEpoch = new Date(1899, 11, 30);
+  const jsDate = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
+  return jsDate.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a date value that may be a number, numeric string (Excel serial), or text date.
+ * With raw:false, Excel serial dates arrive as strings like "46065" — must detect and convert.
+ */
+export function parseDateValue(dateVal: any): string | undefined {
+  if (!dateVal) return undefined;
+  // Numeric Excel serial (when raw:true)
+  if (typeof dateVal === "number" && dateVal > 40000 && dateVal < 55000) {
+    return excelSerialToDate(dateVal);
+  }
+  if (typeof dateVal === "string") {
+    const trimmed = dateVal.trim();
+    if (!trimmed || trimmed.toLowerCase() === "n/a" || trimmed.toLowerCase() === "tbd") {
+      return undefined;
+    }
+    // String that looks like Excel serial (when raw:false converts number to string)
+    const numVal = Number(trimmed);
+    if (!isNaN(numVal) && numVal > 40000 && numVal < 55000) {
+      return excelSerialToDate(numVal);
+    }
+    // Handle 2-digit years: M/D/YY or MM/DD/YY (e.g. "1/5/26" → 2026-01-05, not 1926)
+    const twoDigitYearMatch = trimmed.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2})$/);
+    if (twoDigitYearMatch) {
+      const month = twoDigitYearMatch[1].padStart(2, "0");
+      const day = twoDigitYearMatch[2].padStart(2, "0");
+      let year = parseInt(twoDigitYearMatch[3], 10);
+      year = year < 50 ? 2000 + year : 1900 + year;
+      return `${year}-${month}-${day}`;
+    }
+    // Try parsing as a real date string (e.g. "2/17/2026", "2026-03-15")
+    const parsed = new Date(trimmed);
+    if (!isNaN(parsed.getTime()) && parsed.getFullYear() >= 1900 && parsed.getFullYear() <= 2100) {
+      return parsed.toISOString().split("T")[0];
+    }
+  }
+  return undefined;
+}
+
+export function parseStockValue(
+  value: any,
+  textMappings?:
+    | Record<string, number>
+    | Array<{ text: string; value: number }>,
+): number {
+  if (value === null || value === undefined || value === "") return 0;
+  if (typeof value === "number") return Math.max(0, Math.floor(value));
+
+  const strVal = String(value).trim().toLowerCase();
+
+  const defaultMappings: Record<string, number> = {
+    yes: 1,
+    no: 0,
+    "last piece": 1,
+    lastpiece: 1,
+    "in stock": 1,
+    "sold out": 0,
+    "out of stock": 0,
+    "&ndash;": 0,
+    "&ndash; ": 0,
+    "–": 0,
+    "-": 0,
+    "n/a": 0,
+    "": 0,
+  };
+
+  // Handle textMappings - can be either object or array format
+  if (textMappings) {
+    // Array format: [{ text: "Yes", value: 3 }]
+    if (Array.isArray(textMappings)) {
+      for (const mapping of textMappings) {
+        if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
+          return mapping.value;
+        }
+      }
+    }
+    // Object format: { "yes": 3 }
+    else if (textMappings[strVal] !== undefined) {
+      return textMappings[strVal];
+    }
+  }
+
+  if (defaultMappings[strVal] !== undefined) return defaultMappings[strVal];
+
+  const parsed = parseInt(strVal, 10);
+  return isNaN(parsed) ? 0 : Math.max(0, parsed);
+}
+
+// ============================================================
+// SHARED COLUMN RESOLUTION HELPER
+// ============================================================
+// Used by ALL parsers to resolve column indices.
+// Checks user-mapped override (from UI dropdown) FIRST,
+// then falls back to auto-detection using pattern matching.
+
+export function resolveColumnIndex(
+  config: UniversalParserConfig,
+  headersLower: string[],
+  field: string,
+  autoPatterns: string[],
+): number {
+  // 1. Check user-mapped column override first (from UI dropdown selection)
+  if (config.columnMapping?.[field]) {
+    const mappedCol = config.columnMapping[field].toLowerCase().trim();
+    const idx = headersLower.findIndex((h: string) => h === mappedCol);
+    if (idx !== -1) return idx;
+  }
+  // 2. Fall back to auto-detection using pattern matching
+  for (const p of autoPatterns) {
+    const idx = headersLower.findIndex(
+      (h: string) => h === p || h.includes(p),
+    );
+    if (idx !== -1) return idx;
+  }
+  return -1;
+}
+
+/**
+ * 1-based sheet row of data[rowIdx]. Plugins get the rows after
+ * config.skipRows, so the skipped rows are added back.
+ */
+export function sheetRowNumber(
+  rowIdx: number,
+  config: UniversalParserConfig,
+): number {
+  return rowIdx + 1 + (config.skipRows || 0);
+}
+
+// ============================================================
+// FIX DIRTY EXCEL SHEET RANGE
+// Some Excel files have !ref extending to XFD (col 16384) even though
+// only a few columns have data. sheet_to_json on such sheets creates
+// millions of empty cells and crashes the process.
+// This scans row 1 (and optionally row 2) to find the actual last column
+// with data and rewrites !ref to trim the range.
+// ============================================================
+export function fixSheetRange(sheet: XLSX.WorkSheet): void {
+  const ref = sheet["!ref"];
+  if (!ref) return;
+
+  // Parse the range
+  const range = XLSX.utils.decode_range(ref);
+  // Only fix if the column range is suspiciously wide (> 100 columns)
+  if (range.e.c <= 100) return;
+
+  // Scan first few rows to find the actual last column with data
+  let maxCol = 0;
+  const rowsToCheck = Math.min(range.e.r, 10); // Check up to 10 rows
+  for (let r = range.s.r; r <= rowsToCheck; r++) {
+    for (let c = range.e.c; c >= maxCol; c--) {
+      const addr = XLSX.utils.encode_cell({ r, c });
+      const cell = sheet[addr];
+      if (cell && cell.v !== undefined && cell.v !== null && cell.v !== "") {
+        if (c > maxCol) maxCol = c;
+        break; // Found rightmost in this row, move to next row
+      }
+    }
+  }
+
+  // Add a small buffer (2 extra columns) for safety
+  const newLastCol = maxCol + 2;
+  if (newLastCol < range.e.c) {
+    const trimmed = range.e.c - newLastCol;
+    range.e.c = newLastCol;
+    sheet["!ref"] = XLSX.utils.encode_range(range);
+    console.log(`[FixRange] Trimmed sheet range from ${trimmed + newLastCol + 1} to ${newLastCol + 1} columns`);
+  }
+}
+
+// ============================================================
+// DETECTION HELPERS
+// ============================================================
+
+/**
+ * Detection scores. Plugins return NAME_MATCH when the data source name or
+ * filename identifies the vendor; content scores are ranked so the most
+ * specific signature wins (a title row beats a header keyword, which beats
+ * "has size columns").
+ */
+export const DETECT_SCORE = {
+  NAME_MATCH: 1,
+  TITLE_ROW: 0.9,
+  GRN_TITLE_ROW: 0.88,
+  OTS_COLUMNS: 0.86,
+  SPECIAL_DATE_HEADER: 0.84,
+  DELIVERY_HEADER: 0.82,
+  DATE_HEADERS: 0.8,
+  INTERLEAVED_SIZE_HEADER: 0.72,
+  SIZE_COLUMNS: 0.7,
+  ROW_COLUMNS: 0.6,
+  NONE: 0,
+} as const;
+
+// Size headers used to spot pivot layouts — includes leading-zero sizes,
+// extended sizes, W/plus sizes, letter sizes and units
+export const PIVOT_SIZE_HEADER_PATTERN =
+  /^(000|00|OOO|OO|0|02|04|06|08|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30|32|34|36|14W|16W|18W|20W|22W|24W|26W|28W|30W|32W|XS|S|SM|M|MD|L|LG|XL|XXL|XXXL|SS|LL|LLL|UNIT|DOZEN|DOZN)$/i;
+
+export function buildFormatSample(
+  data: any[][],
+  dataSourceName?: string,
+  filename?: string,
+): FormatSample {
+  const nameUpper = (dataSourceName || "").toUpperCase();
+  const fileUpper = (filename || "").toUpperCase();
+  const headerRow = data[0] || [];
+
+  const headers = headerRow.map((h: any) =>
+    String(h || "")
+      .toUpperCase()
+      .trim(),
+  );
+  const headersLower = headerRow.map((h: any) =>
+    String(h || "")
+      .toLowerCase()
+      .trim(),
+  );
+
+  return {
+    data,
+    dataSourceName,
+    filename,
+    fileUpper,
+    combinedName: nameUpper + " " + fileUpper,
+    hasContent: data.length >= 2 && !!data[0],
+    firstRowText: String(data[0]?.[0] || "").toLowerCase(),
+    headers,
+    headersLower,
+    headerStr: headers.join("|"),
+  };
+}
+
+/** Number of header cells that look like size columns */
+export function countSizeHeaders(sample: FormatSample): number {
+  return sample.headers.filter((h: string) => PIVOT_SIZE_HEADER_PATTERN.test(h))
+    .length;
+}
@@ -0,0 +1,132 @@
+/**
+ * formatPlugins/sherriHill.ts — Sherri Hill format plugin
+ *
+ * Style, Color, then alternating size / SPECIAL DATE columns
+ * with text stock values ("Yes", "Last Piece", "No").
+ */
+
+import { isValidShipDate } from "../inventoryProcessing";
+import {
+  DETECT_SCORE,
+  parseDateValue,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: SHERRI HILL FORMAT
+// ============================================================
+
+function parseSherriHillFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  // DEBUG: Log stockConfig to diagnose text mappings issue
+  // stockConfig logged only at debug level
+  console.log(
+    `[SherriHill] textMappings:`,
+    JSON.stringify(config.stockConfig?.textMappings),
+  );
+
+  const headerRow = data[0];
+  const headersLowerSH = headerRow.map((h: any) => String(h || "").toLowerCase().trim());
+
+  const priceIdx = resolveColumnIndex(config, headersLowerSH, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  const sizePattern =
+    /^(OO0|OOO|OO|0|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30)$/i;
+  const sizeColumns: { index: number; size: string; dateIndex: number }[] = [];
+
+  for (let i = 4; i < headerRow.length; i += 2) {
+    const h = String(headerRow[i] ?? "").trim();
+    if (sizePattern.test(h)) {
+      let normalizedSize = h;
+      if (h.toUpperCase() === "OO0" || h.toUpperCase() === "OOO")
+        normalizedSize = "000";
+      else if (h.toUpperCase() === "OO") normalizedSize = "00";
+      sizeColumns.push({ index: i, size: normalizedSize, dateIndex: i + 1 });
+    }
+  }
+
+  if (sizeColumns.length === 0) return items;
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const style = String(row[0] ?? "").trim();
+    const color = String(row[1] ?? "").trim();
+    if (!style || !color) continue;
+
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    for (const sc of sizeColumns) {
+      const stock = parseStockValue(
+        row[sc.index],
+        config.stockConfig?.textMappings,
+      );
+      const dateVal = row[sc.dateIndex];
+      let shipDate: string | undefined;
+
+      if (
+        dateVal &&
+        dateVal !== "&ndash;" &&
+        dateVal !== "&ndash; " &&
+        dateVal !== "–"
+      ) {
+        shipDate = parseDateValue(dateVal);
+      }
+
+      if (stock > 0 || (shipDate && isValidShipDate(shipDate))) {
+        items.push({
+          style,
+          color,
+          size: sc.size,
+          stock,
+          price,
+          shipDate,
+          sourceRow: sheetRowNumber(rowIdx, config),
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("SHERRI") ||
+    sample.combinedName.includes("HILL")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  if (sample.headerStr.includes("SPECIAL DATE"))
+    return DETECT_SCORE.SPECIAL_DATE_HEADER;
+  return DETECT_SCORE.NONE;
+}
+
+export const sherriHillPlugin: FormatPlugin = {
+  id: "sherri_hill",
+  name: "Sherri Hill",
+  aliases: ["pivot_alternating"],
+  detect,
+  parse: (data, config) => parseSherriHillFormat(data, config),
+};
@@ -0,0 +1,167 @@
+/**
+ * formatPlugins/storeMultibrand.ts — Store multi-brand format plugin
+ *
+ * Row format with a vendor/brand column next to
+ * style, color and size, so one file feeds several brands.
+ */
+
+import {
+  DETECT_SCORE,
+  parseStockValue,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: STORE MULTI-BRAND FORMAT
+// ============================================================
+
+function parseStoreMultibrandFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 2) return items;
+
+  const headerRow = data[0];
+  const headers = headerRow.map((h: any) => String(h ?? "").trim());
+  const headersLower = headers.map((h: string) => h.toLowerCase());
+
+  const productNameIdx = headersLower.findIndex(
+    (h: string) => h.includes("product") && h.includes("name"),
+  );
+  // Direct vendor/brand column (e.g., "Vendor", "Brand", "Designer", "Vendor Name")
+  const vendorIdx = headersLower.findIndex(
+    (h: string) =>
+      h.includes("vendor") || h.includes("brand") || h.includes("designer") ||
+      h.includes("manufacturer"),
+  );
+  const styleIdx = resolveColumnIndex(config, headersLower, "style", ["style"]);
+  const colorIdx = resolveColumnIndex(config, headersLower, "color", ["color"]);
+  const sizeIdx = resolveColumnIndex(config, headersLower, "size", ["size"]);
+  const stockIdx = resolveColumnIndex(config, headersLower, "stock", [
+    "stock", "qty", "quantity",
+  ]);
+  const priceIdx = resolveColumnIndex(config, headersLower, "price", [
+    "price", "wholesale", "cost", "msrp", "line price",
+  ]);
+
+  if (styleIdx === -1) return items;
+
+  const knownBrands = [
+    "Jovani",
+    "Sherri Hill",
+    "Mac Duggal",
+    "MacDuggal",
+    "Terani",
+    "Tarik Ediz",
+    "Feriani",
+    "Gia Franco",
+    "Alyce",
+    "Portia",
+    "Mon Cheri",
+    "Morilee",
+    "Jadore",
+    "Lara",
+    "Johnathan Kayne",
+    "Rachel Allan",
+    "Colors Dress",
+    "Colette",
+    "Marsoni",
+    "Cameron Blake",
+    "La Femme",
+    "MGNY",
+    "Nicoletta",
+    "Montage",
+    "Tony Bowls",
+  ];
+
+  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
+    const row = data[rowIdx];
+    if (!row || row.length < 3) continue;
+
+    const style = String(row[styleIdx] ?? "").trim();
+    if (!style) continue;
+
+    const productName =
+      productNameIdx >= 0 ? String(row[productNameIdx] ?? "").trim() : "";
+    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
+    const size = sizeIdx >= 0 ? String(row[sizeIdx] ?? "").trim() : "ONE SIZE";
+    const stock =
+      stockIdx >= 0
+        ? parseStockValue(row[stockIdx], config.stockConfig?.textMappings)
+        : 0;
+    const price =
+      priceIdx >= 0
+        ? parseFloat(String(row[priceIdx] || "0")) || undefined
+        : undefined;
+
+    let brand: string | undefined;
+    // Priority 1: Direct vendor/brand column (e.g., "Jovani" in Column A)
+    if (vendorIdx >= 0) {
+      const vendorVal = String(row[vendorIdx] ?? "").trim();
+      if (vendorVal) brand = vendorVal;
+    }
+    // Priority 2: Extract brand from product name by matching known brands
+    if (!brand && productName) {
+      const nameLower = productName.toLowerCase();
+      for (const b of knownBrands) {
+        if (nameLower.includes(b.toLowerCase())) {
+          brand = b;
+          break;
+        }
+      }
+    }
+
+    items.push({
+      style,
+      color: color || "DEFAULT",
+      size,
+      stock,
+      price,
+      brand,
+      sourceRow: sheetRowNumber(rowIdx, config),
+    });
+  }
+
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("STORE") &&
+    sample.combinedName.includes("INVENTORY")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  // Row format with a vendor/brand column + style + color + size
+  const headersLower = sample.headersLower;
+  const hasVendorCol = headersLower.some(
+    (h: string) =>
+      h.includes("vendor") || h.includes("brand") || h.includes("designer") ||
+      h.includes("manufacturer"),
+  );
+  const hasStyleCol = headersLower.some(
+    (h: string) => h.includes("style") || h === "item" || h === "code",
+  );
+  const hasColorCol = headersLower.some((h: string) => h.includes("color"));
+  const hasSizeCol = headersLower.some((h: string) => h.includes("size"));
+  if (hasVendorCol && hasStyleCol && hasColorCol && hasSizeCol)
+    return DETECT_SCORE.ROW_COLUMNS;
+  return DETECT_SCORE.NONE;
+}
+
+export const storeMultibrandPlugin: FormatPlugin = {
+  id: "store_multibrand",
+  name: "Store multi-brand",
+  detect,
+  parse: (data, config) => parseStoreMultibrandFormat(data, config),
+};
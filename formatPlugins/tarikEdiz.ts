@@ -0,0 +1,199 @@
+/**
+ * formatPlugins/tarikEdiz.ts — Tarik Ediz format plugin
+ *
+ * Product header rows
+ * carry the sizes, followed by "D" (in stock) or ship-date rows per color.
+ */
+
+import {
+  DETECT_SCORE,
+  resolveColumnIndex,
+  sheetRowNumber,
+  type PivotItem,
+  type UniversalParserConfig,
+} from "./shared";
+import type { FormatPlugin, FormatSample } from "./types";
+
+// ============================================================
+// PARSER: TARIK EDIZ FORMAT
+// ============================================================
+
+function parseTarikEdizFormat(
+  data: any[][],
+  config: UniversalParserConfig,
+): PivotItem[] {
+  const items: PivotItem[] = [];
+  if (data.length < 5) return items;
+
+  // For price: check if a header row exists before data
+  let priceIdx = -1;
+
+  // Helper to detect if first cell is a date (DD/MM/YYYY or similar)
+  const isDateString = (val: string): boolean => {
+    return (
+      /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(val) ||
+      /^\d{4}-\d{2}-\d{2}$/.test(val) ||
+      /^\d{1,2}-\d{1,2}-\d{4}$/.test(val)
+    );
+  };
+
+  // Helper to detect Excel serial date numbers (dates stored as raw numbers)
+  const isExcelSerialDate = (val: any): boolean => {
+    if (typeof val !== "number") return false;
+    // Excel serial dates for years 2020-2035 range from ~43831 to ~49400
+    return val > 43000 && val < 50000;
+  };
+
+  // Helper to convert Excel serial number to ISO date string
+  const excelSerialToISO = (serial: number): string => {
+    // Excel epoch is Jan 1, 1900 (with the Lotus 1-2-3 leap year bug)
+    const excelEpoch = new Date(1899, 11, 30);
+    const date = new Date(excelEpoch.getTime() + serial * 86400000);
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, "0");
+    const d = String(date.getDate()).padStart(2, "0");
+    return `${y}-${m}-${d}`;
+  };
+
+  // Helper to parse date string to ISO format
+  const parseDateToISO = (val: string): string | null => {
+    const ddmmyyyy = val.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (ddmmyyyy) {
+      const [, day, month, year] = ddmmyyyy;
+      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(val)) return val;
+    return null;
+  };
+
+  // Find style header rows and data start
+  // Style header rows: have size numbers in columns 13+ and product name in column 7
+  let currentStyle = "";
+  let sizeHeaders: { index: number; size: string }[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    const row = data[i];
+    if (!row || row.length === 0) continue;
+
+    const firstCell = String(row[0] ?? "").trim();
+
+    // Price column detection from header-like rows
+    if (i < 15 && priceIdx < 0 && row.length > 5) {
+      const possibleHeaders = row.map((h: any) => String(h || "").toLowerCase().trim());
+      priceIdx = resolveColumnIndex(config, possibleHeaders, "price", [
+        "price", "wholesale", "cost", "msrp", "line price",
+      ]);
+    }
+
+    // Style header detection: column 13 has a number (size) AND column 7 exists (product name)
+    // OR style pattern like "98XX..." in first cell
+    const stylePattern = /^\d{2}[A-Z]{2,}/i;
+    const col13val = row[13] !== null && row[13] !== undefined ? String(row[13]).trim() : "";
+    const isStyleRow = (col13val.match(/^\d+$/) && row[7]) || stylePattern.test(firstCell) || /^\d{5,}$/.test(firstCell);
+
+    if (isStyleRow && !firstCell.match(/^D$/i) && !isDateString(firstCell) && !isExcelSerialDate(row[0])) {
+      currentStyle = firstCell;
+
+      // Extract size headers from this row (any non-empty value in cols 13+)
+      sizeHeaders = [];
+      for (let j = 13; j < row.length; j++) {
+        if (row[j] !== null && row[j] !== undefined && row[j] !== "") {
+          sizeHeaders.push({ index: j, size: String(row[j]) });
+        }
+      }
+      continue;
+    }
+
+    // Data rows: "D" for current inventory OR date string for future ship dates
+    // NOTE: In Tarik Ediz format, "D" means CURRENT STOCK (not discontinued)
+    const isCurrentStock = firstCell === "D";
+    const isFutureShipDate = isDateString(firstCell);
+    const isSerialDate = isExcelSerialDate(row[0]);
+
+    if ((isCurrentStock || isFutureShipDate || isSerialDate) && row[11] && currentStyle) {
+      const color = String(row[11]).trim();
+      let shipDate: string | null = null;
+
+      if (isFutureShipDate) {
+        shipDate = parseDateToISO(firstCell);
+      } else if (isSerialDate) {
+        shipDate = excelSerialToISO(row[0] as number);
+      }
+
+      const price =
+        priceIdx >= 0
+          ? parseFloat(String(row[priceIdx] || "0")) || undefined
+          : undefined;
+
+      // Extract stock values for each size
+      for (const sh of sizeHeaders) {
+        const stockRaw = row[sh.index];
+        const stockNum =
+          stockRaw !== null && stockRaw !== undefined && !isNaN(Number(stockRaw))
+            ? Number(stockRaw)
+            : 0;
+
+        // Include ALL items: stock > 0 OR has future ship date
+        if (stockNum > 0 || shipDate) {
+          const item: any = {
+            style: currentStyle,
+            color,
+            size: sh.size,
+            stock: stockNum,
+            price,
+            // "D" = current stock, NOT discontinued. Do not set discontinued flag.
+            shipDate: shipDate || undefined,
+            sourceRow: sheetRowNumber(i, config),
+          };
+
+          // Set future stock flags (critical for downstream processing)
+          if (shipDate) {
+            item.hasFutureStock = true;
+            if (stockNum === 0) {
+              item.preserveZeroStock = true;
+            }
+          }
+
+          items.push(item);
+        }
+      }
+    }
+  }
+
+  console.log(
+    `[TarikEdiz] Parsed ${items.length} items (including future ship date items)`,
+  );
+  return items;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function detect(sample: FormatSample): number {
+  if (
+    sample.combinedName.includes("TARIK") ||
+    sample.combinedName.includes("EDIZ") ||
+    sample.combinedName.includes("LISTINVENTORY")
+  )
+    return DETECT_SCORE.NAME_MATCH;
+  if (!sample.hasContent) return DETECT_SCORE.NONE;
+
+  // Report title in A1, or the company name (EDİZ) in A2
+  const secondRowText = String(sample.data[1]?.[0] || "").toLowerCase();
+  if (
+    sample.firstRowText.includes("up-to-date") ||
+    sample.firstRowText.includes("inventory report") ||
+    secondRowText.includes("ediz") ||
+    secondRowText.includes("edi̇z")
+  )
+    return DETECT_SCORE.TITLE_ROW;
+  return DETECT_SCORE.NONE;
+}
+
+export const tarikEdizPlugin: FormatPlugin = {
+  id: "tarik_ediz",
+  name: "Tarik Ediz",
+  detect,
+  parse: (data, config) => parseTarikEdizFormat(data, config),
+};
@@ -0,0 +1,50 @@
+/**
+ * formatPlugins/types.ts — Contract for vendor format plugins
+ *
+ * A plugin owns one vendor file layout end to end: it scores how likely a
+ * sheet is in its format (detect) and turns the sheet rows into PivotItems
+ * (parse). Register new plugins in formatPlugins/index.ts.
+ */
+
+import type { PivotItem, UniversalParserConfig } from "./shared";
+
+/** First-sheet rows plus the names detection rules look at */
+export interface FormatSample {
+  /** Sheet rows after config.skipRows */
+  data: any[][];
+  dataSourceName?: string;
+  filename?: string;
+  fileUpper: string;
+  /** `${DATA SOURCE NAME} ${FILENAME}`, uppercased */
+  combinedName: string;
+  /** False when there is no header + data row to inspect */
+  hasContent: boolean;
+  /** First cell of the first row, lowercased (title rows live here) */
+  firstRowText: string;
+  headers: string[];
+  headersLower: string[];
+  /** Uppercased headers joined with "|" */
+  headerStr: string;
+}
+
+export interface FormatParseContext {
+  /** Sheet rows before config.skipRows (formats with their own title handling) */
+  rawData: any[][];
+  dataSourceName?: string;
+  filename?: string;
+}
+
+export interface FormatPlugin {
+  /** Format id stored in pivotConfig.format / formatType */
+  id: string;
+  name: string;
+  /** Legacy format ids that map onto this plugin */
+  aliases?: string[];
+  /** 0 = not this format, 1 = identified by name; see DETECT_SCORE */
+  detect(sample: FormatSample): number;
+  parse(
+    data: any[][],
+    config: UniversalParserConfig,
+    context: FormatParseContext,
+  ): PivotItem[];
+}
@@ -0,0 +1,499 @@
+/**
+ * goldenFileHarness.ts — Golden-file regression checks for the vendor samples
+ *
+ * Runs every sample file in GOLDEN_FIXTURES through:
+ *
+ *   - plugin    – the format plugin the registry picks for it (or row format),
+ *                 exactly as parseIntelligentPivotFormat would
+ *   - enhanced  – parseWithEnhancedConfig with the fixture's config, when set
+ *
+ * checks the detected plugin against the fixture's expected format, then
+ * compares the normalized items (style, color, size, stock, shipDate) with
+ * the snapshot in golden/<sample>.json. A wrong detection, or any count or
+ * field change, fails with a per-item diff, so a parser edit for one vendor
+ * can't silently break another.
+ *
+ * Snapshots are committed alongside the samples; each item is stored as a
+ * [style, color, size, stock, shipDate] tuple on its own line.
+ *
+ * Usage (from the directory holding the samples):
+ *   npx tsx goldenFileHarness.ts              check all fixtures
+ *   npx tsx goldenFileHarness.ts --update     rewrite snapshots after an intended change
+ *   npx tsx goldenFileHarness.ts Tarik        only fixtures whose file matches "Tarik"
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  detectFormat,
+  parseRowFormat,
+  readFirstSheetRows,
+  type UniversalParserConfig,
+} from "./formatPlugins";
+import {
+  parseWithEnhancedConfig,
+  type EnhancedImportConfig,
+} from "./enhancedImportProcessor";
+
+// ============================================================
+// FIXTURES
+// ============================================================
+
+export interface GoldenFixture {
+  file: string;
+  /** Data source name used for name-based format detection */
+  dataSourceName: string;
+  /** Plugin id detection must pick ("row" when none should match) */
+  format?: string;
+  parserConfig?: UniversalParserConfig;
+  enhancedConfig?: EnhancedImportConfig;
+}
+
+const MON_CHERI_SIZES = [
+  "OO", "0", "2", "4", "6", "8", "10", "12", "14", "16", "18", "20", "22",
+  "24", "26", "28", "30", "32", "16W", "18W", "20W", "22W", "24W", "26W",
+  "28W", "30W", "32W", "XS", "S", "M",
+];
+
+export const GOLDEN_FIXTURES: GoldenFixture[] = [
+  { file: "Jovani-sale.xlsx", dataSourceName: "Jovani Sale", format: "jovani_sale" },
+  { file: "Tarik-ediz.xlsx", dataSourceName: "Tarik Ediz", format: "tarik_ediz" },
+  { file: "OTS_012326.xls", dataSourceName: "OTS", format: "ots_format" },
+  { file: "GIA-2-23-26.XLS", dataSourceName: "GIA Franco", format: "feriani" },
+  { file: "Alyce-Current.CSV", dataSourceName: "Alyce", format: "generic_pivot" },
+  {
+    file: "Styles Available to Ship-8563.xlsx",
+    dataSourceName: "Styles Available",
+    format: "generic_pivot",
+  },
+  { file: "STORE-Inventory.xlsx", dataSourceName: "Store Inventory", format: "store_multibrand" },
+  // Vendor layouts detected from content alone — neutral names so no
+  // name-based rule can pick the plugin (CSV exports of the same layouts)
+  {
+    file: "content-sample-special-date.csv",
+    dataSourceName: "Vendor Feed",
+    format: "sherri_hill",
+  },
+  {
+    file: "content-sample-inventory-report.csv",
+    dataSourceName: "Vendor Feed",
+    format: "tarik_ediz",
+  },
+  {
+    file: "content-sample-delivery-grid.csv",
+    dataSourceName: "Vendor Feed",
+    format: "feriani",
+  },
+  {
+    file: "content-sample-goods-received.csv",
+    dataSourceName: "Vendor Feed",
+    format: "grn_invoice",
+  },
+  {
+    file: "PR-1.csv",
+    dataSourceName: "PR-1",
+    format: "pr_date_headers",
+    enhancedConfig: {
+      formatType: "row",
+      columnMapping: { style: "Product Code", stock: "Available" },
+    },
+  },
+  {
+    file: "PR-2.csv",
+    dataSourceName: "PR-2",
+    format: "pr_date_headers",
+    enhancedConfig: {
+      formatType: "row",
+      columnMapping: { style: "Product Code", stock: "Available" },
+    },
+  },
+  {
+    file: "Mon Cheri- IN STOCK NOW .csv",
+    dataSourceName: "Mon Cheri",
+    format: "generic_pivot",
+    enhancedConfig: {
+      formatType: "pivoted",
+      columnMapping: { style: "Style", color: "Color" },
+      pivotConfig: {
+        enabled: true,
+        styleColumn: "Style",
+        colorColumn: "Color",
+        sizeColumns: MON_CHERI_SIZES,
+      },
+    },
+  },
+  {
+    file: "Mon Cheri - Future coming.csv",
+    dataSourceName: "Mon Cheri",
+    format: "generic_pivot",
+    enhancedConfig: {
+      formatType: "pivoted",
+      columnMapping: { style: "Style", color: "Color" },
+      pivotConfig: {
+        enabled: true,
+        styleColumn: "Style",
+        colorColumn: "Color",
+        sizeColumns: MON_CHERI_SIZES,
+      },
+    },
+  },
+  {
+    file: "TERANI Daily Inventory (59).csv",
+    dataSourceName: "Terani",
+    format: "row",
+    enhancedConfig: {
+      formatType: "row",
+      columnMapping: {
+        style: "Style",
+        color: "Color",
+        size: "Size",
+        stock: "Immediate Stock",
+        price: "Line Price",
+        shipDate: "Future Ship Date",
+      },
+    },
+  },
+  {
+    file: "01_23_2026.csv",
+    dataSourceName: "Daily Inventory",
+    format: "row",
+    enhancedConfig: {
+      formatType: "row",
+      columnMapping: {
+        style: "Product",
+        color: "Attr 2 Name",
+        size: "Size",
+        stock: "Qty Avail Now",
+        shipDate: "Due WIP",
+      },
+    },
+  },
+];
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+export interface GoldenItem {
+  style: string;
+  color: string;
+  size: string;
+  stock: number;
+  shipDate: string | null;
+}
+
+export interface GoldenRun {
+  format: string;
+  count: number;
+  items: GoldenItem[];
+}
+
+export interface GoldenSnapshot {
+  file: string;
+  plugin: GoldenRun;
+  enhanced?: GoldenRun;
+}
+
+/** On disk each item is a [style, color, size, stock, shipDate] tuple */
+type GoldenItemTuple = [string, string, string, number, string | null];
+
+function itemKey(item: GoldenItem): string {
+  return `${item.style}|${item.color}|${item.size}`;
+}
+
+function normalizeItems(items: any[]): GoldenItem[] {
+  return items
+    .map((item) => ({
+      style: String(item.style ?? "").trim(),
+      color: String(item.color ?? "").trim(),
+      size: String(item.size ?? "").trim(),
+      stock: Number(item.stock) || 0,
+      shipDate: item.shipDate ? String(item.shipDate) : null,
+    }))
+    .sort((a, b) => {
+      const ka = itemKey(a);
+      const kb = itemKey(b);
+      if (ka !== kb) return ka < kb ? -1 : 1;
+      // Duplicate keys (e.g. several ship dates) keep a stable order
+      const ta = `${a.shipDate}|${a.stock}`;
+      const tb = `${b.shipDate}|${b.stock}`;
+      return ta === tb ? 0 : ta < tb ? -1 : 1;
+    });
+}
+
+// ============================================================
+// SNAPSHOT FILES
+// ============================================================
+
+// One item per line keeps the snapshots small and their git diffs readable
+function serializeRun(name: string, run: GoldenRun): string {
+  const items = run.items.map((item) =>
+    JSON.stringify([item.style, item.color, item.size, item.stock, item.shipDate]),
+  );
+  return (
+    `  ${JSON.stringify(name)}: {\n` +
+    `    "format": ${JSON.stringify(run.format)},\n` +
+    `    "count": ${run.count},\n` +
+    `    "items": [\n${items.map((line) => `      ${line}`).join(",\n")}\n    ]\n` +
+    `  }`
+  );
+}
+
+export function serializeGoldenSnapshot(snapshot: GoldenSnapshot): string {
+  const parts = [`  "file": ${JSON.stringify(snapshot.file)}`];
+  parts.push(serializeRun("plugin", snapshot.plugin));
+  if (snapshot.enhanced) parts.push(serializeRun("enhanced", snapshot.enhanced));
+  return `{\n${parts.join(",\n")}\n}\n`;
+}
+
+function readRun(raw: any): GoldenRun | undefined {
+  if (!raw) return undefined;
+  return {
+    format: raw.format,
+    count: raw.count,
+    items: (raw.items as GoldenItemTuple[]).map(
+      ([style, color, size, stock, shipDate]) => ({ style, color, size, stock, shipDate }),
+    ),
+  };
+}
+
+export function parseGoldenSnapshot(text: string): GoldenSnapshot {
+  const raw = JSON.parse(text);
+  return {
+    file: raw.file,
+    plugin: readRun(raw.plugin)!,
+    enhanced: readRun(raw.enhanced),
+  };
+}
+
+// ============================================================
+// RUNNERS
+// ============================================================
+
+function runPlugin(fixture: GoldenFixture, buffer: Buffer): GoldenRun {
+  const config = fixture.parserConfig || {};
+  const rawData = readFirstSheetRows(buffer);
+  const skipRows = config.skipRows || 0;
+  const data = skipRows > 0 ? rawData.slice(skipRows) : rawData;
+
+  const detected = detectFormat(data, fixture.dataSourceName, fixture.file);
+  const items = detected
+    ? detected.plugin.parse(data, config, {
+        rawData,
+        dataSourceName: fixture.dataSourceName,
+        filename: fixture.file,
+      })
+    : parseRowFormat(data, config, fixture.file);
+
+  const normalized = normalizeItems(items);
+  return {
+    format: detected?.plugin.id ?? "row",
+    count: normalized.length,
+    items: normalized,
+  };
+}
+
+async function runEnhanced(
+  fixture: GoldenFixture,
+  buffer: Buffer,
+): Promise<GoldenRun | undefined> {
+  if (!fixture.enhancedConfig) return undefined;
+  const result = await parseWithEnhancedConfig(buffer, fixture.enhancedConfig);
+  const normalized = normalizeItems(result.items);
+  return {
+    format: fixture.enhancedConfig.formatType,
+    count: normalized.length,
+    items: normalized,
+  };
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+const MAX_DIFF_LINES = 25;
+
+/** Readable diff between a stored run and a fresh one; empty when equal */
+export function diffGoldenRuns(
+  label: string,
+  expected: GoldenRun | undefined,
+  actual: GoldenRun | undefined,
+): string[] {
+  if (!expected && !actual) return [];
+  if (!expected) return [`  ${label}: no snapshot stored for this run`];
+  if (!actual) return [`  ${label}: snapshot exists but the run produced nothing`];
+
+  const lines: string[] = [];
+  if (expected.format !== actual.format) {
+    lines.push(`  ${label}: format ${expected.format} → ${actual.format}`);
+  }
+  if (expected.count !== actual.count) {
+    lines.push(`  ${label}: item count ${expected.count} → ${actual.count}`);
+  }
+
+  const group = (items: GoldenItem[]) => {
+    const byKey = new Map<string, GoldenItem[]>();
+    for (const item of items) {
+      const list = byKey.get(itemKey(item)) || [];
+      list.push(item);
+      byKey.set(itemKey(item), list);
+    }
+    return byKey;
+  };
+  const expectedByKey = group(expected.items);
+  const actualByKey = group(actual.items);
+
+  const itemLines: string[] = [];
+  for (const [key, expItems] of Array.from(expectedByKey.entries())) {
+    const actItems = actualByKey.get(key);
+    if (!actItems) {
+      itemLines.push(`    - ${key} (stock ${expItems[0].stock})`);
+      continue;
+    }
+    const count = Math.max(expItems.length, actItems.length);
+    for (let i = 0; i < count; i++) {
+      const exp = expItems[i];
+      const act = actItems[i];
+      if (!exp) {
+        itemLines.push(`    + ${key} (extra copy, stock ${act.stock})`);
+      } else if (!act) {
+        itemLines.push(`    - ${key} (missing copy, stock ${exp.stock})`);
+      } else {
+        const changes: string[] = [];
+        if (exp.stock !== act.stock) changes.push(`stock ${exp.stock} → ${act.stock}`);
+        if (exp.shipDate !== act.shipDate)
+          changes.push(`shipDate ${exp.shipDate} → ${act.shipDate}`);
+        if (changes.length > 0) itemLines.push(`    ~ ${key}: ${changes.join(", ")}`);
+      }
+    }
+  }
+  for (const [key, actItems] of Array.from(actualByKey.entries())) {
+    if (!expectedByKey.has(key)) {
+      itemLines.push(`    + ${key} (stock ${actItems[0].stock})`);
+    }
+  }
+
+  if (itemLines.length > 0) {
+    lines.push(`  ${label}: ${itemLines.length} item difference(s)`);
+    lines.push(...itemLines.slice(0, MAX_DIFF_LINES));
+    if (itemLines.length > MAX_DIFF_LINES) {
+      lines.push(`    ... ${itemLines.length - MAX_DIFF_LINES} more`);
+    }
+  }
+  return lines;
+}
+
+// ============================================================
+// MAIN
+// ============================================================
+
+export interface GoldenHarnessOptions {
+  /** Directory holding the sample files (snapshots go in <dir>/golden) */
+  sampleDir?: string;
+  update?: boolean;
+  /** Only run fixtures whose file name contains this text */
+  filter?: string;
+}
+
+export interface GoldenHarnessResult {
+  passed: string[];
+  failed: { file: string; diff: string[] }[];
+  updated: string[];
+  missing: string[];
+}
+
+export async function runGoldenFileHarness(
+  options: GoldenHarnessOptions = {},
+): Promise<GoldenHarnessResult> {
+  const sampleDir = options.sampleDir || process.cwd();
+  const snapshotDir = path.join(sampleDir, "golden");
+  const result: GoldenHarnessResult = {
+    passed: [],
+    failed: [],
+    updated: [],
+    missing: [],
+  };
+
+  const fixtures = GOLDEN_FIXTURES.filter(
+    (f) => !options.filter || f.file.toLowerCase().includes(options.filter.toLowerCase()),
+  );
+
+  for (const fixture of fixtures) {
+    const samplePath = path.join(sampleDir, fixture.file);
+    if (!fs.existsSync(samplePath)) {
+      result.missing.push(fixture.file);
+      continue;
+    }
+
+    const buffer = fs.readFileSync(samplePath);
+    const snapshot: GoldenSnapshot = {
+      file: fixture.file,
+      plugin: runPlugin(fixture, buffer),
+      enhanced: await runEnhanced(fixture, buffer),
+    };
+    const snapshotPath = path.join(snapshotDir, `${fixture.file}.json`);
+
+    // A wrong detection is never a snapshot to accept, even with --update
+    if (fixture.format && snapshot.plugin.format !== fixture.format) {
+      result.failed.push({
+        file: fixture.file,
+        diff: [`  plugin: detected ${snapshot.plugin.format}, expected ${fixture.format}`],
+      });
+      continue;
+    }
+
+    if (options.update) {
+      fs.mkdirSync(snapshotDir, { recursive: true });
+      fs.writeFileSync(snapshotPath, serializeGoldenSnapshot(snapshot));
+      result.updated.push(fixture.file);
+      continue;
+    }
+
+    if (!fs.existsSync(snapshotPath)) {
+      result.failed.push({
+        file: fixture.file,
+        diff: [`  no snapshot — run with --update to create golden/${fixture.file}.json`],
+      });
+      continue;
+    }
+
+    const stored = parseGoldenSnapshot(fs.readFileSync(snapshotPath, "utf8"));
+    const diff = [
+      ...diffGoldenRuns("plugin", stored.plugin, snapshot.plugin),
+      ...diffGoldenRuns("enhanced", stored.enhanced, snapshot.enhanced),
+    ];
+    if (diff.length > 0) {
+      result.failed.push({ file: fixture.file, diff });
+    } else {
+      result.passed.push(fixture.file);
+    }
+  }
+
+  return result;
+}
+
+if (process.argv[1] && path.basename(process.argv[1]).startsWith("goldenFileHarness")) {
+  const args = process.argv.slice(2);
+  const update = args.includes("--update");
+  const filter = args.find((a) => !a.startsWith("--"));
+
+  runGoldenFileHarness({ update, filter })
+    .then((result) => {
+      for (const file of result.passed) console.log(`✓ ${file}`);
+      for (const file of result.updated) console.log(`↻ ${file} (snapshot updated)`);
+      for (const file of result.missing) console.log(`? ${file} (sample file not found)`);
+      for (const failure of result.failed) {
+        console.log(`✗ ${failure.file}`);
+        for (const line of failure.diff) console.log(line);
+      }
+      console.log(
+        `\n[GoldenFiles] ${result.passed.length} passed, ${result.failed.length} failed` +
+          (result.updated.length ? `, ${result.updated.length} updated` : ""),
+      );
+      process.exit(result.failed.length > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error("[GoldenFiles] Harness crashed:", error);
+      process.exit(1);
+    });
+}
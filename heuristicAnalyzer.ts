@@ -0,0 +1,240 @@
+/**
+ * heuristicAnalyzer.ts — Offline fallback for analyzeFileWithAI()
+ *
+ * Produces the same UniversalAnalysisResult as the AI analyzer using plain
+ * rules, so imports keep working when the model can't be reached:
+ *
+ *   - header row     – the early row with the most field keywords / size labels
+ *   - pivot          – header cells that are sizes (NUMERIC_SIZES / LETTER_SIZES)
+ *   - pivot_grouped  – pivot without a style column, where style rows
+ *                      (value in column 0, size cells empty) head color rows
+ *   - row            – everything else, mapped by header keywords
+ *
+ * Confidence is capped below what the AI typically reports, so callers can
+ * tell a heuristic guess from a model answer.
+ */
+
+import { LETTER_SIZES, LETTER_SIZE_MAP, NUMERIC_SIZES } from "./sizeUtils";
+import type {
+  GroupedPivotConfig,
+  UniversalAnalysisResult,
+} from "./universalParser";
+
+// How many leading rows to consider when looking for the header
+const HEADER_SCAN_ROWS = 15;
+// How many data rows to inspect when looking for grouped style rows
+const GROUPED_SCAN_ROWS = 60;
+const MAX_HEURISTIC_CONFIDENCE = 85;
+
+const FIELD_PATTERNS: Record<string, RegExp> = {
+  style: /^(style|style\s*#|style\s*(no|number|code)|item|item\s*#|product|product\s*code|code|model)\b/i,
+  color: /^(colou?r|colou?r\s*name|attr\s*\d*\s*name)\b/i,
+  size: /^size\b/i,
+  // Before stock, so "Earliest Available Date" isn't taken as a stock column
+  shipDate: /\b(ship|eta|arrival|delivery|due|available\s*date)\b/i,
+  stock: /\b(stock|qty|quantity|available|avail|on\s*hand|inventory|ots)\b/i,
+  price: /\b(price|wholesale|msrp)\b/i,
+  cost: /\bcost\b/i,
+  sku: /\b(sku|upc|barcode)\b/i,
+  status: /\b(status|discontinued|active)\b/i,
+};
+
+// ============================================================
+// SIZE LABELS
+// ============================================================
+
+const KNOWN_SIZES = new Set<string>([
+  ...NUMERIC_SIZES,
+  ...LETTER_SIZES,
+  ...Object.keys(LETTER_SIZE_MAP),
+]);
+
+/** Normalize a header cell to a size label, or null if it isn't one */
+export function toSizeLabel(cell: any): string | null {
+  let label = String(cell ?? "").trim().toUpperCase();
+  if (!label) return null;
+  // "OO" / "OOO" typed with the letter O
+  if (/^O{2,3}$/.test(label)) label = label.replace(/O/g, "0");
+  // "02", "04" … but keep "00" / "000"
+  if (/^0+[1-9]\d*W?$/.test(label)) label = label.replace(/^0+/, "");
+  return KNOWN_SIZES.has(label) ? label : null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function cellText(cell: any): string {
+  return String(cell ?? "").trim();
+}
+
+function isEmptyCell(cell: any): boolean {
+  return cellText(cell) === "";
+}
+
+function isNumericCell(cell: any): boolean {
+  const text = cellText(cell);
+  return text !== "" && !isNaN(Number(text));
+}
+
+function findHeaderRow(rawData: any[][]): number {
+  let bestRow = 0;
+  let bestScore = -1;
+  for (let i = 0; i < Math.min(HEADER_SCAN_ROWS, rawData.length); i++) {
+    const row = rawData[i] || [];
+    const nonEmpty = row.filter((c) => !isEmptyCell(c));
+    if (nonEmpty.length < 2) continue;
+
+    let score = 0;
+    for (const cell of nonEmpty) {
+      const text = cellText(cell);
+      if (Object.values(FIELD_PATTERNS).some((p) => p.test(text))) score += 2;
+      else if (toSizeLabel(text)) score += 1;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestRow = i;
+    }
+  }
+  return bestRow;
+}
+
+function mapColumns(
+  headers: string[],
+  skipIndexes: Set<number>,
+): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<number>();
+  for (const [field, pattern] of Object.entries(FIELD_PATTERNS)) {
+    const idx = headers.findIndex(
+      (h, i) => h && !used.has(i) && !skipIndexes.has(i) && pattern.test(h),
+    );
+    if (idx >= 0) {
+      mapping[field] = headers[idx];
+      used.add(idx);
+    }
+  }
+  return mapping;
+}
+
+// Contiguous run of size headers starting at the first one
+function findSizeRun(headers: string[]): { start: number; labels: string[] } {
+  const start = headers.findIndex((h) => toSizeLabel(h) !== null);
+  if (start === -1) return { start: -1, labels: [] };
+  const labels: string[] = [];
+  for (let i = start; i < headers.length; i++) {
+    const label = toSizeLabel(headers[i]);
+    if (!label) break;
+    labels.push(headers[i]);
+  }
+  return { start, labels };
+}
+
+function detectGroupedPivot(
+  rawData: any[][],
+  headerRowIndex: number,
+  sizeStart: number,
+  sizeLabels: string[],
+): GroupedPivotConfig | null {
+  let styleRows = 0;
+  let colorRows = 0;
+  const end = Math.min(rawData.length, headerRowIndex + 1 + GROUPED_SCAN_ROWS);
+
+  for (let i = headerRowIndex + 1; i < end; i++) {
+    const row = rawData[i] || [];
+    if (isEmptyCell(row[0])) continue;
+    const sizeCells = sizeLabels.map((_, j) => row[sizeStart + j]);
+    const filled = sizeCells.filter((c) => !isEmptyCell(c) && c !== 0 && cellText(c) !== "0");
+    if (filled.length === 0) styleRows++;
+    else if (sizeCells.some(isNumericCell)) colorRows++;
+  }
+
+  // Need repeated "style row then color rows" sections, not one stray title
+  if (styleRows < 2 || colorRows < styleRows) return null;
+
+  return {
+    enabled: true,
+    styleDetectionMethod: "single_cell",
+    styleColumn: 0,
+    colorColumn: 0,
+    sizeStartColumn: sizeStart,
+    sizeLabels,
+    dataStartRow: headerRowIndex + 1,
+    skipPatterns: ["total", "subtotal"],
+  };
+}
+
+// ============================================================
+// MAIN
+// ============================================================
+
+export function analyzeFileHeuristically(
+  rawData: any[][],
+  filename?: string,
+): UniversalAnalysisResult {
+  const headerRowIndex = findHeaderRow(rawData);
+  const headers = (rawData[headerRowIndex] || []).map(cellText);
+  const { start: sizeStart, labels: sizeLabels } = findSizeRun(headers);
+  const notes: string[] = [
+    `Offline heuristic analysis${filename ? ` of ${filename}` : ""} (AI unavailable)`,
+  ];
+
+  // ── Pivot layouts: three or more size labels across the header ──
+  if (sizeLabels.length >= 3) {
+    const sizeIndexes = new Set(sizeLabels.map((_, j) => sizeStart + j));
+    const mapping = mapColumns(headers, sizeIndexes);
+
+    if (!mapping.style) {
+      const grouped = detectGroupedPivot(rawData, headerRowIndex, sizeStart, sizeLabels);
+      if (grouped) {
+        notes.push(`Style header rows detected above color rows; ${sizeLabels.length} size columns`);
+        return {
+          formatType: "pivot_grouped",
+          confidence: Math.min(MAX_HEURISTIC_CONFIDENCE, 60 + sizeLabels.length * 2),
+          headerRowIndex,
+          dataStartRow: headerRowIndex + 1,
+          columnMapping: {},
+          groupedPivotConfig: grouped,
+          notes,
+        };
+      }
+    }
+
+    const styleColumn = mapping.style || headers[0] || "";
+    notes.push(`${sizeLabels.length} size columns (${sizeLabels[0]}–${sizeLabels[sizeLabels.length - 1]})`);
+    if (!mapping.style) notes.push(`No style header found — assuming "${styleColumn}"`);
+
+    const confidence =
+      50 + (mapping.style ? 15 : 0) + (mapping.color ? 10 : 0) + Math.min(sizeLabels.length, 5) * 2;
+    return {
+      formatType: "pivot",
+      confidence: Math.min(MAX_HEURISTIC_CONFIDENCE, confidence),
+      headerRowIndex,
+      dataStartRow: headerRowIndex + 1,
+      columnMapping: mapping,
+      pivotConfig: {
+        enabled: true,
+        styleColumn,
+        colorColumn: mapping.color,
+        sizeColumns: sizeLabels,
+        priceColumn: mapping.price,
+      },
+      notes,
+    };
+  }
+
+  // ── Row layout ──
+  const mapping = mapColumns(headers, new Set());
+  const coreFields = ["style", "color", "size", "stock"].filter((f) => mapping[f]);
+  const missing = ["style", "color", "size", "stock"].filter((f) => !mapping[f]);
+  if (missing.length > 0) notes.push(`Could not find column(s): ${missing.join(", ")}`);
+
+  return {
+    formatType: "row",
+    confidence: Math.min(MAX_HEURISTIC_CONFIDENCE, 25 + coreFields.length * 15),
+    headerRowIndex,
+    dataStartRow: headerRowIndex + 1,
+    columnMapping: mapping,
+    notes,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * importDryRun.ts — Dry-run reporting for executeImport()
+ *
+ * When `ImportOptions.dryRun` is set, executeImport() runs every phase
+ * exactly as a real import would, but skips all DB writes and returns a
+ * DryRunReport instead:
+ *
+ *   - phases   – item counts before/after every pipeline step
+ *   - items    – per-item trail: which step dropped or changed each item
+ *   - diff     – adds / removes / stock + price changes vs current inventory
+ *   - safety   – what the safety-net policies would have decided
+ *
+ * Items are tagged with a `_traceId` when they leave the parser. Because
+ * every pipeline step spreads items (`{ ...item }`), the id survives
+ * transforms and expansions, so each step can be diffed against the last.
+ * The same tracker feeds the per-item provenance trail (importProvenance.ts).
+ */
+
+import type { SafetyNetEvaluation } from "./safetyNetPolicies";
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+export type ImportPhase = "PARSE" | "FILTER" | "TRANSFORM" | "BUSINESS" | "SAVE";
+
+export interface PhaseStepSummary {
+  phase: ImportPhase;
+  step: string;
+  before: number;
+  after: number;
+  dropped: number;
+  added: number;
+  changed: number;
+}
+
+export interface ItemFieldChange {
+  from: any;
+  to: any;
+}
+
+export interface ItemTraceEvent {
+  phase: ImportPhase;
+  step: string;
+  action: "dropped" | "added" | "changed";
+  changes?: Record<string, ItemFieldChange>;
+}
+
+export interface ItemTrace {
+  traceId: number;
+  /** SKU (or style-color-size) as of the last step the item was seen in */
+  key: string;
+  status: "kept" | "dropped";
+  droppedAt?: { phase: ImportPhase; step: string };
+  events: ItemTraceEvent[];
+}
+
+export interface InventoryDiffEntry {
+  key: string;
+  style: string | null;
+  color: string | null;
+  size: string | null;
+  stock?: number;
+  price?: string | null;
+}
+
+export interface InventoryDiff {
+  added: InventoryDiffEntry[];
+  removed: InventoryDiffEntry[];
+  stockChanged: (InventoryDiffEntry & { oldStock: number; newStock: number })[];
+  priceChanged: (InventoryDiffEntry & { oldPrice: string | null; newPrice: string | null })[];
+  unchangedCount: number;
+}
+
+export interface DryRunReport {
+  updateStrategy: string;
+  existingCount: number;
+  newCount: number;
+  safetyCheck: { blocked: boolean; message: string; dropPercent?: number };
+  /** Full policy evaluation behind safetyCheck (safetyNetPolicies.ts) */
+  safetyNet?: SafetyNetEvaluation;
+  phases: PhaseStepSummary[];
+  items: ItemTrace[];
+  diff: InventoryDiff;
+  /** DB writes executeImport() skipped because of dryRun */
+  skippedWrites: string[];
+}
+
+// Fields compared between steps to decide whether a step "changed" an item
+const TRACKED_FIELDS = [
+  "style",
+  "color",
+  "size",
+  "sku",
+  "stock",
+  "price",
+  "cost",
+  "shipDate",
+  "discontinued",
+  "stockInfo",
+];
+
+// ============================================================
+// HELPER: Stable key for an item (SKU first, then style-color-size)
+// ============================================================
+
+export function getItemDiffKey(item: any): string {
+  const sku = String(item.sku || "").trim();
+  if (sku) return sku.toUpperCase();
+  return `${String(item.style || "").trim()}|${String(item.color || "").trim()}|${String(item.size ?? "").trim()}`.toUpperCase();
+}
+
+function toStock(value: any): number {
+  if (typeof value === "number") return value;
+  return parseInt(value) || 0;
+}
+
+function toPrice(value: any): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = parseFloat(value);
+  return isNaN(num) ? String(value) : num.toFixed(2);
+}
+
+function toDiffEntry(item: any): InventoryDiffEntry {
+  return {
+    key: getItemDiffKey(item),
+    style: item.style ?? null,
+    color: item.color ?? null,
+    size: item.size != null ? String(item.size) : null,
+    stock: toStock(item.stock),
+    price: toPrice(item.price),
+  };
+}
+
+// ============================================================
+// PHASE TRACKER — diffs the item list between pipeline steps
+// ============================================================
+
+interface TrackedSnapshot {
+  count: number;
+  fields: Record<string, any>;
+}
+
+export class ImportPhaseTracker {
+  private nextId = 0;
+  private previous = new Map<number, TrackedSnapshot>();
+  private traces = new Map<number, ItemTrace>();
+  readonly phases: PhaseStepSummary[] = [];
+
+  /**
+   * Tag freshly parsed items with a trace id and record them as the
+   * baseline for the PARSE phase.
+   */
+  start(items: any[], step: string): any[] {
+    for (const item of items) this.tag(item);
+    this.previous = this.snapshot(items);
+    this.phases.push({
+      phase: "PARSE",
+      step,
+      before: 0,
+      after: items.length,
+      dropped: 0,
+      added: items.length,
+      changed: 0,
+    });
+    return items;
+  }
+
+  /**
+   * Compare the current item list against the previous step and attribute
+   * every drop, addition and field change to (phase, step).
+   *
+   * Field values are snapshotted rather than compared by reference, because
+   * some steps (variant rules, price expansion) mutate items in place.
+   * Untagged newcomers are tagged in place, so callers may ignore the
+   * return value.
+   */
+  record(phase: ImportPhase, step: string, items: any[]): any[] {
+    for (const item of items) {
+      if (item._traceId === undefined) this.tag(item, phase, step);
+    }
+    const current = this.snapshot(items);
+
+    let dropped = 0;
+    let added = 0;
+    let changed = 0;
+    let before = 0;
+
+    for (const [id, prev] of Array.from(this.previous.entries())) {
+      before += prev.count;
+      const trace = this.traces.get(id)!;
+      const next = current.get(id);
+      if (!next) {
+        dropped += prev.count;
+        trace.status = "dropped";
+        trace.droppedAt = { phase, step };
+        trace.events.push({ phase, step, action: "dropped" });
+        continue;
+      }
+
+      const changes = this.diffFields(prev.fields, next.fields);
+      if (changes) {
+        changed++;
+        trace.events.push({ phase, step, action: "changed", changes });
+      }
+      if (next.count > prev.count) {
+        added += next.count - prev.count;
+        trace.events.push({ phase, step, action: "added" });
+      } else if (next.count < prev.count) {
+        // Expanded copies collapsed (e.g. dedup) — the item itself survives
+        dropped += prev.count - next.count;
+      }
+      trace.key = next.fields.key;
+    }
+
+    // Items tagged during this step (no previous entry) count as additions
+    for (const [id, next] of Array.from(current.entries())) {
+      if (!this.previous.has(id)) added += next.count;
+    }
+
+    this.previous = current;
+    this.phases.push({ phase, step, before, after: items.length, dropped, added, changed });
+    return items;
+  }
+
+  getTrace(traceId: number): ItemTrace | undefined {
+    return this.traces.get(traceId);
+  }
+
+  getTraces(): ItemTrace[] {
+    return Array.from(this.traces.values());
+  }
+
+  private tag(item: any, phase: ImportPhase = "PARSE", step?: string): void {
+    const traceId = this.nextId++;
+    this.traces.set(traceId, {
+      traceId,
+      key: getItemDiffKey(item),
+      status: "kept",
+      events: step && phase !== "PARSE" ? [{ phase, step, action: "added" }] : [],
+    });
+    item._traceId = traceId;
+  }
+
+  // Tracked fields of the first item per trace id, plus how many copies exist
+  private snapshot(items: any[]): Map<number, TrackedSnapshot> {
+    const snapshots = new Map<number, TrackedSnapshot>();
+    for (const item of items) {
+      const existing = snapshots.get(item._traceId);
+      if (existing) {
+        existing.count++;
+        continue;
+      }
+      const fields: Record<string, any> = { key: getItemDiffKey(item) };
+      for (const field of TRACKED_FIELDS) fields[field] = item[field] ?? null;
+      snapshots.set(item._traceId, { count: 1, fields });
+    }
+    return snapshots;
+  }
+
+  private diffFields(
+    prev: Record<string, any>,
+    next: Record<string, any>,
+  ): Record<string, ItemFieldChange> | null {
+    let changes: Record<string, ItemFieldChange> | null = null;
+    for (const field of TRACKED_FIELDS) {
+      if (String(prev[field]) !== String(next[field])) {
+        if (!changes) changes = {};
+        changes[field] = { from: prev[field], to: next[field] };
+      }
+    }
+    return changes;
+  }
+}
+
+// ============================================================
+// HELPER: Diff processed items against current inventory
+// ============================================================
+
+/**
+ * Compare the items an import would write with the data source's current
+ * inventory. `full_sync` replaces everything, so existing items missing
+ * from the file are reported as removed; upsert strategies never remove.
+ */
+export function buildInventoryDiff(
+  existingItems: any[],
+  newItems: any[],
+  updateStrategy: string,
+): InventoryDiff {
+  const existingByKey = new Map<string, any>();
+  for (const item of existingItems) {
+    existingByKey.set(getItemDiffKey(item), item);
+  }
+
+  const diff: InventoryDiff = {
+    added: [],
+    removed: [],
+    stockChanged: [],
+    priceChanged: [],
+    unchangedCount: 0,
+  };
+
+  const seenKeys = new Set<string>();
+  for (const item of newItems) {
+    const key = getItemDiffKey(item);
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      diff.added.push(toDiffEntry(item));
+      continue;
+    }
+
+    let isChanged = false;
+    const oldStock = toStock(existing.stock);
+    const newStock = toStock(item.stock);
+    if (oldStock !== newStock) {
+      diff.stockChanged.push({ ...toDiffEntry(item), oldStock, newStock });
+      isChanged = true;
+    }
+    const oldPrice = toPrice(existing.price);
+    const newPrice = toPrice(item.price);
+    if (oldPrice !== newPrice) {
+      diff.priceChanged.push({ ...toDiffEntry(item), oldPrice, newPrice });
+      isChanged = true;
+    }
+    if (!isChanged) diff.unchangedCount++;
+  }
+
+  if (updateStrategy === "full_sync") {
+    for (const [key, item] of Array.from(existingByKey.entries())) {
+      if (!seenKeys.has(key)) diff.removed.push(toDiffEntry(item));
+    }
+  }
+
+  return diff;
+}
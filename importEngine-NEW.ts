@@ -11,6 +11,9 @@
  *   PHASE 4  BUSINESS     – discontinued styles, sale pricing, stockInfo
  *   PHASE 5  SAVE         – safety nets, DB write, stats, post-import hooks
  *
+ * DRY RUN: with `dryRun: true` every phase runs but nothing is written —
+ *          the result carries a DryRunReport (see importDryRun.ts).
+ *
  * BUG FIX: processUrlDataSourceImport() was MISSING deduplicateAndZeroFutureStock().
  *          By routing through executeImport(), ALL paths now include it (Phase 2 Step 5).
  */
@@ -20,7 +23,7 @@ import { storage } from "./storage";
 import {
   autoDetectPivotFormat,
   parseIntelligentPivotFormat,
-  fixSheetRange,
+  parseIntelligentPivotRows,
   type UniversalParserConfig,
 } from "./aiImportRoutes";
 import {
@@ -39,7 +42,36 @@ import {
   registerSaleFileStyles,
   parsePivotedExcelToInventory,
 } from "./importUtils";
-import { parseGroupedPivotData } from "./universalParser";
+import {
+  checkLayoutDrift,
+  parseGroupedPivotData,
+  type LayoutDrift,
+} from "./universalParser";
+import {
+  ImportPhaseTracker,
+  buildInventoryDiff,
+  type DryRunReport,
+} from "./importDryRun";
+import { attachProvenance, type SourceSegment } from "./importProvenance";
+import {
+  evaluateSafetyNetPolicies,
+  recordSafetyNetReview,
+  getQuarantinedImport,
+  claimSafetyNetReview,
+  releaseSafetyNetReview,
+  decideSafetyNetReview,
+  type SafetyNetFinding,
+} from "./safetyNetPolicies";
+import {
+  openRowSource,
+  readRowSample,
+  SAMPLE_ROWS,
+} from "./streamingRowSource";
+import {
+  getCurrentConfigVersion,
+  updateDataSourceConfig,
+  recordImportConfigVersion,
+} from "./dataSourceConfigHistory";
 
 // ============================================================
 // TYPE DEFINITIONS
@@ -66,23 +98,45 @@ export interface ImportOptions {
   // === Optional callbacks ===
   /** Called after file record is created */
   onFileRecord?: (file: any) => void;
+  /** Called as the import enters each phase (import job progress) */
+  onPhase?: (phase: ImportPhaseName, itemCount: number) => void;
 
   // === Optional pre-computed values ===
   /** If the caller already has the dataSource object, pass it to avoid re-fetch */
   dataSource?: any;
   /** File ID to attach to inventory items (manual upload sets this) */
   fileId?: string | null;
+
+  // === Dry run ===
+  /** Run every phase but write nothing; returns a DryRunReport in `dryRun` */
+  dryRun?: boolean;
+  /**
+   * Record each item's transformation trail in its provenance (default on;
+   * dry runs always trace). false keeps only file / sheet / row.
+   */
+  traceProvenance?: boolean;
 }
 
+export type ImportPhaseName = "parse" | "filter" | "transform" | "business" | "save";
+
 export interface ImportResult {
   success: boolean;
   itemCount: number;
   error?: string;
   safetyBlock?: boolean;
+  /** Blocked by a "hold" policy — waiting for approval rather than rejected */
+  safetyHold?: boolean;
+  /** Review recorded for a blocked / held import (safetyNetPolicies.ts) */
+  safetyReviewId?: string;
+  /** Policy findings (warnings on success, the reasons on a block) */
+  safetyFindings?: SafetyNetFinding[];
   fileId?: string;
   stats?: ImportStats;
   validation?: any;
   headers?: string[];
+  dryRun?: DryRunReport;
+  /** Set when the file layout no longer matches the cached AI analysis */
+  layoutDrift?: LayoutDrift;
 }
 
 export interface ImportStats {
@@ -106,6 +160,8 @@ export interface ImportStats {
   variantRulesSizeFiltered: number;
   importRulesStats: any;
   dedupStats?: any;
+  /** Data source config version the import ran with (dataSourceConfigHistory.ts) */
+  configVersion?: number | null;
 }
 
 // ============================================================
@@ -345,6 +401,45 @@ export function toTitleCase(str: string): string {
     .replace(/(?:^|[\s\-\/&])\S/g, (a) => a.toUpperCase());
 }
 
+// ============================================================
+// HELPER: Multi-file row consolidation
+// ============================================================
+
+type InputFile = { buffer: Buffer; originalname: string };
+
+/**
+ * Rows of all input files as one sheet: every row of the first non-empty
+ * file, then each later file without its header row. Rows are yielded as
+ * each file is read, so nothing holds the merged sheet unless the caller
+ * collects it. Segments record where each file's rows land (provenance).
+ */
+async function* consolidateFileRows(
+  files: InputFile[],
+  readFile: (
+    file: InputFile,
+  ) => Promise<{ sheetName: string; rows: AsyncIterable<any[]> | Iterable<any[]> }>,
+  segments?: SourceSegment[],
+): AsyncGenerator<any[]> {
+  let rowCount = 0;
+  for (const file of files) {
+    const { sheetName, rows } = await readFile(file);
+    let fileRow = 0;
+    let isHeaderFile = false;
+    for await (const row of rows) {
+      fileRow++;
+      if (fileRow === 1) {
+        isHeaderFile = rowCount === 0;
+        if (!isHeaderFile) continue; // later files repeat the header
+        segments?.push({ fileName: file.originalname, sheetName, startRow: 1, originalStartRow: 1 });
+      } else if (fileRow === 2 && !isHeaderFile) {
+        segments?.push({ fileName: file.originalname, sheetName, startRow: rowCount + 1, originalStartRow: 2 });
+      }
+      rowCount++;
+      yield row;
+    }
+  }
+}
+
 // ============================================================
 // MAIN: executeImport() — THE unified import function
 // ============================================================
@@ -360,10 +455,17 @@ export async function executeImport(
     source,
     overrideConfig,
     onFileRecord,
+    onPhase,
     fileId: externalFileId,
+    dryRun = false,
+    traceProvenance = true,
   } = options;
 
-  const logPrefix = `[ImportEngine:${source}]`;
+  const logPrefix = dryRun ? `[ImportEngine:${source}:dry-run]` : `[ImportEngine:${source}]`;
+  const startedAt = new Date();
+  const tracker = dryRun || traceProvenance ? new ImportPhaseTracker() : null;
+  const skippedWrites: string[] = [];
+  let layoutDrift: LayoutDrift | null = null;
 
   // ──────────────────────────────────────────────────────────
   // STEP 0: Load data source
@@ -373,6 +475,10 @@ export async function executeImport(
     return { success: false, itemCount: 0, error: "Data source not found" };
   }
   console.log(`${logPrefix} Loaded dataSource "${dataSource.name}"`);
+  // Override configs (dry runs with unsaved settings) aren't a saved version
+  const configVersion = overrideConfig
+    ? null
+    : await getCurrentConfigVersion(dataSourceId);
 
   const cleaningConfig = overrideConfig?.cleaningConfig || (dataSource.cleaningConfig || {}) as any;
   const isSaleFile = (dataSource as any).sourceType === "sales";
@@ -380,11 +486,14 @@ export async function executeImport(
   // ──────────────────────────────────────────────────────────
   // PHASE 1: PARSE
   // ──────────────────────────────────────────────────────────
+  onPhase?.("parse", 0);
 
   let items: any[] = [];
   let headers: string[] = [];
   let rows: any[][] = [];
   let rawData: any[][] = [];
+  // Where each input file's rows sit in rawData (for per-item provenance)
+  const sourceSegments: SourceSegment[] = [];
 
   if (preConsolidatedItems) {
     // PHASE 1 BYPASS: Combine path provides pre-extracted items
@@ -392,56 +501,98 @@ export async function executeImport(
     items = preConsolidatedItems;
     rows = preConsolidatedRows || [];
   } else if (fileBuffers && fileBuffers.length > 0) {
-    // PHASE 1, Step 1: Read & consolidate files
+    // PHASE 1, Step 1: Read the top of the (consolidated) files for detection.
+    // Full rows are read later, by whichever parser handles the file — streamed
+    // for the row parser, collected once for parsers that need random access.
     const primaryFile = fileBuffers[0];
-
-    if (fileBuffers.length > 1) {
-      // Multi-file consolidation (merge headers, append rows)
+    const isMultiFile = fileBuffers.length > 1;
+    if (isMultiFile) {
       console.log(`${logPrefix} Consolidating ${fileBuffers.length} files`);
-      let headerRow: any[] | null = null;
-      for (const file of fileBuffers) {
-        const wb = XLSX.read(file.buffer, { type: "buffer" });
-        const sheet = wb.Sheets[wb.SheetNames[0]];
-        fixSheetRange(sheet);
-        const data = XLSX.utils.sheet_to_json(sheet, {
-          header: 1,
-          defval: "",
-          raw: false, // FIX: Prevent scientific notation corruption (e.g. "1921E0136" → 1.921e+139)
-        }) as any[][];
-        if (headerRow === null && data.length > 0) {
-          headerRow = data[0];
-          rawData = data;
-        } else if (data.length > 1) {
-          rawData.push(...data.slice(1));
-        }
+    }
+
+    const readFullFile = async (file: InputFile) => {
+      const source = openRowSource(file.buffer, file.originalname, { defval: "" });
+      return { sheetName: source.sheetName, rows: source.rows() };
+    };
+    const streamRawData = () =>
+      consolidateFileRows(fileBuffers, readFullFile, isMultiFile ? sourceSegments : undefined);
+
+    // Only the pivot parsers collect the rows: they look across rows (style
+    // header rows, size rows above the data) so need random access
+    const loadRawData = async (): Promise<any[][]> => {
+      if (rawData.length === 0) {
+        for await (const row of streamRawData()) rawData.push(row);
+        if (isMultiFile) console.log(`${logPrefix} Consolidated ${rawData.length} total rows`);
       }
-      console.log(`${logPrefix} Consolidated ${rawData.length} total rows`);
-    } else {
-      const workbook = XLSX.read(primaryFile.buffer, { type: "buffer" });
-      const sheet = workbook.Sheets[workbook.SheetNames[0]];
-      fixSheetRange(sheet);
-      rawData = XLSX.utils.sheet_to_json(sheet, {
-        header: 1,
-        defval: "",
-        raw: false,
-      }) as any[][];
+      return rawData;
+    };
+
+    const sampleRows: any[][] = [];
+    let primarySheetName = "";
+    const sampleFile = async (file: InputFile) => {
+      const sample = await readRowSample(file.buffer, SAMPLE_ROWS, { defval: "" });
+      if (file === primaryFile) primarySheetName = sample.sheetName;
+      return sample;
+    };
+    for await (const row of consolidateFileRows(fileBuffers, sampleFile)) {
+      sampleRows.push(row);
+      if (sampleRows.length >= SAMPLE_ROWS) break;
+    }
+    if (!isMultiFile) {
+      sourceSegments.push({ fileName: primaryFile.originalname, sheetName: primarySheetName, startRow: 1, originalStartRow: 1 });
     }
 
-    // PHASE 1, Step 2: Auto-detect format
-    let consolidatedBuffer: Buffer;
-    if (fileBuffers.length > 1) {
+    // Row parser input: the original buffer for a single file (keeps the CSV
+    // text reader), otherwise the consolidated rows as they are read. Rows
+    // are turned into items as they arrive and not kept.
+    const parseRowsFromFiles = async (
+      columnMapping: any,
+    ): Promise<{ headers: string[]; rows: any[][]; items: any[] }> => {
+      const { parseExcelToInventory, parseRowsToInventory } = await import("./importUtils");
+      if (!isMultiFile) {
+        return parseExcelToInventory(
+          primaryFile.buffer,
+          columnMapping,
+          cleaningConfig,
+          undefined,
+          undefined,
+          { keepRows: false },
+        );
+      }
+      return parseRowsToInventory(
+        rawData.length > 0 ? rawData : streamRawData(),
+        columnMapping,
+        cleaningConfig,
+        { keepRows: false },
+      );
+    };
+
+    // Only the buffer-based legacy pivot parser still needs the files merged
+    // into one workbook
+    const getConsolidatedBuffer = async (): Promise<Buffer> => {
+      if (!isMultiFile) return primaryFile.buffer;
       const newWorkbook = XLSX.utils.book_new();
-      const newSheet = XLSX.utils.aoa_to_sheet(rawData);
+      const newSheet = XLSX.utils.aoa_to_sheet(await loadRawData());
       XLSX.utils.book_append_sheet(newWorkbook, newSheet, "Consolidated");
-      consolidatedBuffer = Buffer.from(
+      return Buffer.from(
         XLSX.write(newWorkbook, { type: "buffer", bookType: "xlsx" }),
       );
-    } else {
-      consolidatedBuffer = primaryFile.buffer;
+    };
+
+    // PHASE 1, Step 2: Auto-detect format (detection only looks at the top rows)
+
+    // PHASE 1, Step 2a: Compare layout with the cached AI analysis (if any).
+    // Drift keeps the saved mapping and raises an alert — never a silent re-analysis.
+    if (sampleRows.length > 0) {
+      layoutDrift = await checkLayoutDrift(dataSourceId, sampleRows, {
+        filename: primaryFile.originalname,
+        raiseAlert: !dryRun,
+      });
+      if (layoutDrift && dryRun) skippedWrites.push("createSystemError: format_layout_drift");
     }
 
-    const detectedPivotFormat = rawData.length > 0
-      ? autoDetectPivotFormat(rawData, dataSource.name, primaryFile.originalname)
+    const detectedPivotFormat = sampleRows.length > 0
+      ? autoDetectPivotFormat(sampleRows, dataSource.name, primaryFile.originalname)
       : null;
 
     // Determine which config to use for parsing
@@ -465,7 +616,7 @@ export async function executeImport(
       // Grouped pivot format (AI-detected) — use universal parser extractor
       const gpConfig = (dataSource as any).groupedPivotConfig;
       console.log(`${logPrefix} Using grouped pivot parser (universal)`);
-      const groupedResult = parseGroupedPivotData(rawData, gpConfig);
+      const groupedResult = parseGroupedPivotData(await loadRawData(), gpConfig);
       headers = groupedResult.headers;
       rows = groupedResult.rows;
       items = groupedResult.items;
@@ -482,8 +633,8 @@ export async function executeImport(
         columnMapping: dsConfig.columnMapping,
       };
 
-      const pivotResult = parseIntelligentPivotFormat(
-        consolidatedBuffer,
+      const pivotResult = parseIntelligentPivotRows(
+        await loadRawData(),
         actualFormat,
         universalConfig,
         dataSource.name,
@@ -515,45 +666,57 @@ export async function executeImport(
           );
           if (parseResult.success && parseResult.items.length > 0) {
             items = parseResult.items;
-            rows = rawData;
             console.log(`${logPrefix} Row parser fallback found ${items.length} items — correcting saved format to "row"`);
-            await storage.updateDataSource(dataSourceId, {
-              formatType: "row",
-              pivotConfig: null,
-            });
+            if (dryRun) {
+              skippedWrites.push(`updateDataSource: formatType "row"`);
+            } else {
+              await updateDataSourceConfig(
+                dataSourceId,
+                { formatType: "row", pivotConfig: null },
+                { source: "auto", note: "Row parser fallback" },
+              );
+            }
           }
         } else {
-          const { parseExcelToInventory } = await import("./importUtils");
-          const result = (parseExcelToInventory as any)(
-            consolidatedBuffer,
-            dsConfig.columnMapping,
-            cleaningConfig,
-          );
+          const result = await parseRowsFromFiles(dsConfig.columnMapping);
           if (result.items?.length > 0) {
             headers = result.headers;
             rows = result.rows;
             items = result.items;
             console.log(`${logPrefix} Row parser fallback found ${items.length} items — correcting saved format to "row"`);
-            await storage.updateDataSource(dataSourceId, {
-              formatType: "row",
-              pivotConfig: null,
-            });
+            if (dryRun) {
+              skippedWrites.push(`updateDataSource: formatType "row"`);
+            } else {
+              await updateDataSourceConfig(
+                dataSourceId,
+                { formatType: "row", pivotConfig: null },
+                { source: "auto", note: "Row parser fallback" },
+              );
+            }
           }
         }
       }
 
       // Save detected format for future imports
       if (detectedPivotFormat) {
-        await storage.updateDataSource(dataSourceId, {
-          formatType: detectedPivotFormat,
-          pivotConfig: { enabled: true, format: detectedPivotFormat },
-        });
+        if (dryRun) {
+          skippedWrites.push(`updateDataSource: formatType "${detectedPivotFormat}"`);
+        } else {
+          await updateDataSourceConfig(
+            dataSourceId,
+            {
+              formatType: detectedPivotFormat,
+              pivotConfig: { enabled: true, format: detectedPivotFormat },
+            },
+            { source: "auto", note: `Detected ${detectedPivotFormat} format` },
+          );
+        }
       }
     } else if (dsConfig.pivotConfig?.enabled) {
       // Legacy pivoted parser
       console.log(`${logPrefix} Using legacy pivoted table parser`);
       const result = parsePivotedExcelToInventory(
-        consolidatedBuffer,
+        await getConsolidatedBuffer(),
         dsConfig.pivotConfig,
         cleaningConfig,
         dataSource.name,
@@ -581,15 +744,9 @@ export async function executeImport(
         return { success: false, itemCount: 0, error: "Failed to parse file" };
       }
       items = parseResult.items;
-      rows = rawData;
     } else {
       // Generic row parser (routes parseExcelToInventory)
-      const { parseExcelToInventory } = await import("./importUtils");
-      const result = (parseExcelToInventory as any)(
-        consolidatedBuffer,
-        dsConfig.columnMapping,
-        cleaningConfig,
-      );
+      const result = await parseRowsFromFiles(dsConfig.columnMapping);
       headers = result.headers;
       rows = result.rows;
       items = result.items;
@@ -600,6 +757,8 @@ export async function executeImport(
     return { success: false, itemCount: 0, error: "No file buffers or pre-consolidated items provided" };
   }
 
+  tracker?.start(items, "parse");
+
   // PHASE 1, Step 4: Apply cleaning to style field
   if (cleaningConfig && items.length > 0) {
     const hasAnyCleaning =
@@ -626,6 +785,8 @@ export async function executeImport(
     }
   }
 
+  tracker?.record("PARSE", "style cleaning", items);
+
   if (items.length === 0 && !preConsolidatedItems) {
     return { success: false, itemCount: 0, error: "File contains no valid data rows" };
   }
@@ -633,6 +794,7 @@ export async function executeImport(
   // ──────────────────────────────────────────────────────────
   // PHASE 2: FILTER
   // ──────────────────────────────────────────────────────────
+  onPhase?.("filter", items.length);
 
   // PHASE 2, Step 5: Skip rule filtering (shouldSkip flag)
   // FROM: routes (29).ts line 4447 — applies to upload, email, fetch-url
@@ -650,6 +812,7 @@ export async function executeImport(
   if (items.length < beforeSkip) {
     console.log(`${logPrefix} Skip rule filtered out ${beforeSkip - items.length} items`);
   }
+  tracker?.record("FILTER", "skip rules", items);
 
   // PHASE 2, Step 6: Filter discontinued zero-stock items
   // FROM: routes (29).ts line 4467
@@ -670,6 +833,7 @@ export async function executeImport(
       );
     }
   }
+  tracker?.record("FILTER", "discontinued zero stock", items);
 
   // PHASE 2, Step 7: Dedup by style-color-size & zero out stock for future ship dates
   // *** THIS FIXES THE BUG: processUrlDataSourceImport was missing this call ***
@@ -679,10 +843,12 @@ export async function executeImport(
   const dedupResult = deduplicateAndZeroFutureStock(items, dedupOffset);
   items = dedupResult.items;
   console.log(`${logPrefix} After dedup: ${items.length} items (removed ${dedupResult.duplicatesRemoved || 0} dupes)`);
+  tracker?.record("FILTER", "dedup & future stock", items);
 
   // ──────────────────────────────────────────────────────────
   // PHASE 3: TRANSFORM
   // ──────────────────────────────────────────────────────────
+  onPhase?.("transform", items.length);
 
   // PHASE 3, Step 8: Apply style prefix
   // FROM: routes (29).ts line 4397 (canonical version)
@@ -715,11 +881,15 @@ export async function executeImport(
         discontinued: item.discontinued || false,
       };
     });
+    tracker?.record("TRANSFORM", "style prefix", items);
   }
 
   // PHASE 3, Step 9: cleanInventoryData (AI color fixes, remove no-size items)
   // FROM: routes (29).ts line 4556
-  const cleanResult = await cleanInventoryData(items, dataSource.name);
+  const cleanResult = await cleanInventoryData(items, dataSource.name, {
+    persistMappings: !dryRun,
+  });
+  tracker?.record("TRANSFORM", "clean inventory data", cleanResult.items);
   let processedItems = cleanResult.items;
 
   // PHASE 3, Step 10: applyImportRules (pricing, dates, discontinued, etc.)
@@ -761,6 +931,9 @@ export async function executeImport(
     cleanResult.items,
     importRulesConfig,
     rows.length > 0 ? rows : rawData,
+    tracker
+      ? (rule, ruleItems) => tracker.record("TRANSFORM", `import rules: ${rule}`, ruleItems)
+      : undefined,
   );
   processedItems = importRulesResult.items;
   console.log(`${logPrefix} After import rules: ${processedItems.length} items`);
@@ -802,6 +975,7 @@ export async function executeImport(
   } catch (colorMapError: any) {
     console.error(`${logPrefix} Error applying color mappings:`, colorMapError);
   }
+  tracker?.record("TRANSFORM", "global color mappings", processedItems);
 
   // PHASE 3, Step 12: applyVariantRules (size expansion/filter)
   // FROM: routes (29).ts line 4586
@@ -817,6 +991,7 @@ export async function executeImport(
     dataSourceId,
     variantRulesConfigOverride,
   );
+  tracker?.record("TRANSFORM", "variant rules", ruleResult.items);
   processedItems = ruleResult.items;
   console.log(`${logPrefix} After variant rules: ${processedItems.length} items`);
 
@@ -858,10 +1033,12 @@ export async function executeImport(
       }
     }
   }
+  tracker?.record("TRANSFORM", "price-based expansion", processedItems);
 
   // ──────────────────────────────────────────────────────────
   // PHASE 4: BUSINESS LOGIC
   // ──────────────────────────────────────────────────────────
+  onPhase?.("business", processedItems.length);
 
   // PHASE 4, Step 14: filterDiscontinuedStyles (sale file cross-reference)
   // FROM: routes (29).ts line 4646
@@ -872,10 +1049,14 @@ export async function executeImport(
 
   if (!isSaleFile && linkedSaleDataSourceId) {
     try {
-      discontinuedItemsRemoved = await removeDiscontinuedInventoryItems(
-        dataSourceId,
-        linkedSaleDataSourceId,
-      );
+      if (dryRun) {
+        skippedWrites.push("removeDiscontinuedInventoryItems");
+      } else {
+        discontinuedItemsRemoved = await removeDiscontinuedInventoryItems(
+          dataSourceId,
+          linkedSaleDataSourceId,
+        );
+      }
       if (discontinuedItemsRemoved > 0) {
         console.log(`${logPrefix} Removed ${discontinuedItemsRemoved} existing items with discontinued styles`);
       }
@@ -893,6 +1074,7 @@ export async function executeImport(
       console.error(`${logPrefix} Discontinued filtering error:`, discontinuedError);
     }
   }
+  tracker?.record("BUSINESS", "discontinued styles", processedItems);
 
   // PHASE 4, Step 15: Sale file pricing (Shopify compare-at price)
   // FROM: routes (29).ts line 4689
@@ -946,6 +1128,7 @@ export async function executeImport(
       console.error(`${logPrefix} Error loading Shopify prices:`, err);
     }
   }
+  tracker?.record("BUSINESS", "sale pricing", processedItems);
 
   // PHASE 4, Step 16: calculateStockInfo
   // FROM: routes (29).ts line 4773
@@ -957,91 +1140,250 @@ export async function executeImport(
       stockInfo: calculateItemStockInfo(item, stockInfoRule),
     }));
   }
+  tracker?.record("BUSINESS", "stock info", processedItems);
 
   // ──────────────────────────────────────────────────────────
   // PHASE 5: SAVE
   // ──────────────────────────────────────────────────────────
+  onPhase?.("save", processedItems.length);
+
+  const buildStats = (finalCount: number): ImportStats => ({
+    totalParsed: preConsolidatedItems?.length || items.length,
+    afterClean: cleanResult.items.length,
+    afterImportRules: importRulesResult.items.length,
+    afterVariantRules: ruleResult.items.length,
+    afterPriceExpansion: processedItems.length,
+    afterDiscontinuedFilter: processedItems.length,
+    finalCount,
+    noSizeRemoved: cleanResult.noSizeRemoved || 0,
+    colorsFixed,
+    aiColorsFixed: cleanResult.aiColorsFixed || 0,
+    duplicatesRemoved: cleanResult.duplicatesRemoved || 0,
+    priceBasedExpansion: priceBasedExpansionCount,
+    discontinuedStylesFiltered,
+    discontinuedItemsRemoved,
+    saleStylesRegistered,
+    variantRulesAdded: ruleResult.addedCount || 0,
+    variantRulesFiltered: ruleResult.filteredCount || 0,
+    variantRulesSizeFiltered: ruleResult.sizeFiltered || 0,
+    importRulesStats: importRulesResult.stats || {},
+    dedupStats: dedupResult,
+    configVersion,
+  });
 
   // PHASE 5, Step 17: Safety nets
   const updateStrategy = (dataSource as any).updateStrategy || "full_sync";
-  let importedCount = 0;
-  let addedCount = 0;
-  let updatedCount = 0;
+  const importFileName =
+    fileBuffers && fileBuffers.length > 1
+      ? `${fileBuffers.length} files consolidated`
+      : fileBuffers?.[0]?.originalname || "import";
+  const importFileSize = fileBuffers?.[0]?.buffer?.length || 0;
+
+  // 0-item safety net: a full_sync that would empty the data source is always
+  // blocked — not a policy, and not quarantined (there is nothing to approve)
+  let zeroItemBlock: string | null = null;
+  if (processedItems.length === 0 && updateStrategy === "full_sync") {
+    const existingCount =
+      await storage.getInventoryItemCountByDataSource(dataSourceId);
+    if (existingCount > 0) {
+      zeroItemBlock = `SAFETY NET: 0 items but would delete ${existingCount} existing. Import blocked.`;
+    }
+  }
+
+  // PHASE 5 (dry run): evaluate the safety net, diff against current
+  // inventory and return before anything is written
+  if (dryRun) {
+    const existingItems =
+      await storage.getInventoryItemsByDataSource(dataSourceId);
+    const safetyNet = evaluateSafetyNetPolicies(dataSource, existingItems, processedItems, updateStrategy);
+    const safetyCheck = {
+      blocked: zeroItemBlock !== null || safetyNet.outcome === "block" || safetyNet.outcome === "hold",
+      message: zeroItemBlock || safetyNet.message,
+    };
+    if (!safetyCheck.blocked) {
+      skippedWrites.push(
+        updateStrategy === "full_sync" ? "atomicReplaceInventoryItems" : "upsertInventoryItems",
+        "createUploadedFile",
+      );
+      if (isSaleFile && processedItems.length > 0) skippedWrites.push("registerSaleFileStyles");
+    }
+    tracker?.record("SAVE", safetyCheck.blocked ? "safety net (blocked)" : "safety net", safetyCheck.blocked ? [] : processedItems);
+    const diff = buildInventoryDiff(existingItems, processedItems, updateStrategy);
+    console.log(
+      `${logPrefix} DONE: would ${safetyCheck.blocked ? "be BLOCKED" : "save"} ${processedItems.length} items (+${diff.added.length} / -${diff.removed.length} / ${diff.stockChanged.length} stock changes)`,
+    );
+
+    return {
+      success: !safetyCheck.blocked,
+      itemCount: safetyCheck.blocked ? 0 : processedItems.length,
+      error: safetyCheck.blocked ? safetyCheck.message : undefined,
+      safetyBlock: safetyCheck.blocked || undefined,
+      safetyHold: (!zeroItemBlock && safetyNet.outcome === "hold") || undefined,
+      safetyFindings: safetyNet.findings.length ? safetyNet.findings : undefined,
+      headers,
+      stats: buildStats(safetyCheck.blocked ? 0 : processedItems.length),
+      layoutDrift: layoutDrift || undefined,
+      dryRun: {
+        updateStrategy,
+        existingCount: existingItems.length,
+        newCount: processedItems.length,
+        safetyCheck,
+        safetyNet,
+        phases: tracker?.phases || [],
+        items: tracker?.getTraces() || [],
+        diff,
+        skippedWrites,
+      },
+    };
+  }
 
+  // PHASE 5, Step 17a: Per-item provenance (source file/sheet/row + transformation trail)
+  processedItems = attachProvenance(processedItems, tracker, sourceSegments, source);
+
+  // PHASE 5, Step 17b: Safety-net policies (count drop/jump, styles, prices,
+  // ship dates, distinct colors/sizes) — warn, or quarantine for review
+  let safetyFindings: SafetyNetFinding[] | undefined;
   if (processedItems.length > 0) {
-    if (updateStrategy === "full_sync") {
-      const existingCount =
-        await storage.getInventoryItemCountByDataSource(dataSourceId);
-      const safetyCheck = checkSafetyThreshold(
+    const existingItems =
+      await storage.getInventoryItemsByDataSource(dataSourceId);
+    const safetyNet = evaluateSafetyNetPolicies(
+      dataSource,
+      existingItems,
+      processedItems,
+      updateStrategy,
+    );
+    if (safetyNet.findings.length > 0) safetyFindings = safetyNet.findings;
+
+    if (safetyNet.outcome === "warn") {
+      console.warn(`${logPrefix} ${safetyNet.message}`);
+    } else if (safetyNet.outcome === "block" || safetyNet.outcome === "hold") {
+      console.error(`[ImportEngine] ${safetyNet.message}`);
+      // Keep the parsed result so it can be approved without re-parsing
+      const review = await recordSafetyNetReview(
         dataSource,
-        existingCount,
-        processedItems.length,
         source,
+        safetyNet,
+        existingItems.length,
+        {
+          items: processedItems,
+          stats: buildStats(processedItems.length),
+          headers,
+          updateStrategy,
+          fileName: importFileName,
+          fileSize: importFileSize,
+        },
       );
-      if (safetyCheck.blocked) {
-        return {
-          success: false,
-          itemCount: 0,
-          error: safetyCheck.message,
-          safetyBlock: true,
-        };
-      }
+      return {
+        success: false,
+        itemCount: 0,
+        error: `${safetyNet.message} Import ${safetyNet.outcome === "hold" ? "held for approval" : "blocked"} and quarantined for review.`,
+        safetyBlock: true,
+        safetyHold: safetyNet.outcome === "hold" || undefined,
+        safetyReviewId: review.id,
+        safetyFindings: safetyNet.findings,
+      };
+    }
+  }
+
+  if (zeroItemBlock) {
+    return {
+      success: false,
+      itemCount: 0,
+      error: zeroItemBlock,
+      safetyBlock: true,
+    };
+  }
+
+  // PHASE 5, Steps 18-20: DB write, file record, post-import hooks
+  const saved = await saveImportedItems({
+    dataSource,
+    dataSourceId,
+    items: processedItems,
+    updateStrategy,
+    fileName: importFileName,
+    fileSize: importFileSize,
+    headers,
+    logPrefix,
+  });
+  if (onFileRecord) onFileRecord(saved.fileRecord);
+  saleStylesRegistered = saved.saleStylesRegistered;
+  await recordImportConfigVersion(dataSourceId, configVersion, startedAt).catch((err) =>
+    console.error(`${logPrefix} Error recording config version:`, err),
+  );
+
+  console.log(`${logPrefix} DONE: ${saved.importedCount} items saved for "${dataSource.name}"`);
+
+  return {
+    success: true,
+    itemCount: saved.importedCount,
+    fileId: saved.fileRecord.id,
+    headers,
+    stats: buildStats(saved.importedCount),
+    layoutDrift: layoutDrift || undefined,
+    safetyFindings,
+  };
+}
+
+// ============================================================
+// HELPER: Save processed items (PHASE 5, Steps 18-20)
+// Shared by executeImport and approved quarantined imports
+// ============================================================
+
+async function saveImportedItems(options: {
+  dataSource: any;
+  dataSourceId: string;
+  items: any[];
+  updateStrategy: string;
+  fileName: string;
+  fileSize: number;
+  headers: string[];
+  logPrefix: string;
+}): Promise<{ importedCount: number; fileRecord: any; saleStylesRegistered: number }> {
+  const { dataSource, dataSourceId, items, updateStrategy, headers, logPrefix } = options;
+  const isSaleFile = (dataSource as any).sourceType === "sales";
+  let importedCount = 0;
+  let saleStylesRegistered = 0;
+
+  if (items.length > 0) {
+    if (updateStrategy === "full_sync") {
       // PHASE 5, Step 18a: Atomic replace
-      console.log(`${logPrefix} Atomic replace with ${processedItems.length} items`);
+      console.log(`${logPrefix} Atomic replace with ${items.length} items`);
       const result = await storage.atomicReplaceInventoryItems(
         dataSourceId,
-        processedItems,
+        items,
       );
       importedCount = result.created;
       console.log(`${logPrefix} Atomic replace complete: deleted ${result.deleted}, created ${result.created}`);
     } else {
       // PHASE 5, Step 18b: Upsert
-      console.log(`${logPrefix} Upserting ${processedItems.length} items`);
+      console.log(`${logPrefix} Upserting ${items.length} items`);
       const isRegularInventory = (dataSource as any).sourceType !== "sales";
       const result = await storage.upsertInventoryItems(
-        processedItems,
+        items,
         dataSourceId,
         { resetSaleFlags: isRegularInventory },
       );
-      addedCount = result.added;
-      updatedCount = result.updated;
-      importedCount = addedCount + updatedCount;
-    }
-  } else if (updateStrategy === "full_sync") {
-    // 0-item safety net
-    const existingCount =
-      await storage.getInventoryItemCountByDataSource(dataSourceId);
-    if (existingCount > 0) {
-      return {
-        success: false,
-        itemCount: 0,
-        error: `SAFETY NET: 0 items but would delete ${existingCount} existing. Import blocked.`,
-        safetyBlock: true,
-      };
+      importedCount = result.added + result.updated;
     }
   }
 
   // PHASE 5, Step 19: Save file record
   const fileRecord = await storage.createUploadedFile({
     dataSourceId,
-    fileName:
-      fileBuffers && fileBuffers.length > 1
-        ? `${fileBuffers.length} files consolidated`
-        : fileBuffers?.[0]?.originalname || "import",
-    fileSize: fileBuffers?.[0]?.buffer?.length || 0,
+    fileName: options.fileName,
+    fileSize: options.fileSize,
     fileStatus: "imported",
-    rowCount: processedItems.length,
+    rowCount: items.length,
     headers: headers.length > 0 ? headers : undefined,
   });
-  if (onFileRecord) onFileRecord(fileRecord);
 
   // PHASE 5, Step 20: Post-import hooks
   // 20a: Register sale file styles
-  if (isSaleFile && processedItems.length > 0) {
+  if (isSaleFile && items.length > 0) {
     try {
       const styleResult = await registerSaleFileStyles(
         dataSourceId,
-        processedItems,
+        items,
       );
       saleStylesRegistered = styleResult.total;
       console.log(`${logPrefix} Registered ${saleStylesRegistered} sale file styles`);
@@ -1053,36 +1395,96 @@ export async function executeImport(
   // 20b: Update lastSync
   await storage.updateDataSource(dataSourceId, {});
 
-  console.log(`${logPrefix} DONE: ${importedCount} items saved for "${dataSource.name}"`);
+  return { importedCount, fileRecord, saleStylesRegistered };
+}
 
-  return {
-    success: true,
-    itemCount: importedCount,
-    fileId: fileRecord.id,
-    headers,
-    stats: {
-      totalParsed: preConsolidatedItems?.length || items.length,
-      afterClean: cleanResult.items.length,
-      afterImportRules: importRulesResult.items.length,
-      afterVariantRules: ruleResult.items.length,
-      afterPriceExpansion: processedItems.length,
-      afterDiscontinuedFilter: processedItems.length,
-      finalCount: importedCount,
-      noSizeRemoved: cleanResult.noSizeRemoved || 0,
-      colorsFixed,
-      aiColorsFixed: cleanResult.aiColorsFixed || 0,
-      duplicatesRemoved: cleanResult.duplicatesRemoved || 0,
-      priceBasedExpansion: priceBasedExpansionCount,
-      discontinuedStylesFiltered,
-      discontinuedItemsRemoved,
-      saleStylesRegistered,
-      variantRulesAdded: ruleResult.addedCount || 0,
-      variantRulesFiltered: ruleResult.filteredCount || 0,
-      variantRulesSizeFiltered: ruleResult.sizeFiltered || 0,
-      importRulesStats: importRulesResult.stats || {},
-      dedupStats: dedupResult,
-    },
-  };
+// ============================================================
+// QUARANTINE: Commit an approved import
+// ============================================================
+
+/**
+ * Save the items a safety-net policy quarantined, exactly as parsed — no
+ * re-parse. The review is claimed first (compare-and-set), so concurrent
+ * approvals commit it once. Refuses when the data source has imported since
+ * the review was created, unless `force` is set, because the review's diff is
+ * then stale.
+ */
+export async function commitQuarantinedImport(
+  reviewId: string,
+  options: { userId?: string; note?: string; force?: boolean } = {},
+): Promise<ImportResult & { conflict?: boolean; stale?: boolean }> {
+  const logPrefix = `[ImportEngine:quarantine]`;
+  const startedAt = new Date();
+  const claim = await claimSafetyNetReview(reviewId, { userId: options.userId });
+  if (!claim.review) {
+    return { success: false, itemCount: 0, error: "Review not found" };
+  }
+  if (claim.error) {
+    return { success: false, itemCount: 0, error: claim.error, conflict: true };
+  }
+  const review = claim.review;
+
+  let committed = false;
+  try {
+    const dataSource = await storage.getDataSource(review.dataSourceId);
+    if (!dataSource) {
+      return { success: false, itemCount: 0, error: "Data source not found" };
+    }
+    const pending = await getQuarantinedImport(reviewId);
+    if (!pending) {
+      return { success: false, itemCount: 0, error: "The quarantined items are no longer stored — re-run the import", conflict: true };
+    }
+
+    const lastSync = (dataSource as any).lastSync ? new Date((dataSource as any).lastSync).toISOString() : null;
+    if (!options.force && lastSync && lastSync > review.createdAt) {
+      return {
+        success: false,
+        itemCount: 0,
+        error: `"${dataSource.name}" has been imported since this review was created (${lastSync}). Approve with force to overwrite it anyway.`,
+        conflict: true,
+        stale: true,
+      };
+    }
+
+    console.log(`${logPrefix} Committing ${pending.items.length} quarantined items for "${dataSource.name}" (review ${reviewId})`);
+    const saved = await saveImportedItems({
+      dataSource,
+      dataSourceId: review.dataSourceId,
+      items: pending.items,
+      updateStrategy: pending.updateStrategy,
+      fileName: pending.fileName,
+      fileSize: pending.fileSize,
+      headers: pending.headers,
+      logPrefix,
+    });
+    committed = true;
+    await recordImportConfigVersion(
+      review.dataSourceId,
+      pending.stats?.configVersion ?? null,
+      startedAt,
+    ).catch((err) => console.error(`${logPrefix} Error recording config version:`, err));
+    await decideSafetyNetReview(reviewId, "approved", {
+      userId: options.userId,
+      note: options.note,
+      committedCount: saved.importedCount,
+    });
+    console.log(`${logPrefix} DONE: ${saved.importedCount} items saved for "${dataSource.name}"`);
+
+    return {
+      success: true,
+      itemCount: saved.importedCount,
+      fileId: saved.fileRecord.id,
+      headers: pending.headers,
+      stats: {
+        ...pending.stats,
+        finalCount: saved.importedCount,
+        saleStylesRegistered: saved.saleStylesRegistered,
+      } as ImportStats,
+    };
+  } finally {
+    // Hand the review back unless its items were saved
+    if (!committed) await releaseSafetyNetReview(reviewId);
+  }
 }
 
 // ============================================================
@@ -0,0 +1,546 @@
+/**
+ * importJobQueue.ts — Persistent queue for file imports
+ *
+ * Manual upload, URL fetch, email fetch and combine imports are enqueued here
+ * instead of running inline in the request handler or scheduler tick. Routes
+ * enqueue and answer 202 with the job id (clients follow GET
+ * /api/import-jobs/:id); server-side callers that need the outcome (scheduler)
+ * use waitForImportJob().
+ *
+ *   - persisted    job records live in app settings (IMPORT_JOBS_KEY); the
+ *                  files a job needs are written under uploads/import-jobs
+ *                  (IMPORT_JOB_FILES_DIR) so they survive a restart
+ *   - concurrency  at most MAX_RUNNING_JOBS at once, and one per data source
+ *                  unless it sets importQueueConfig.maxConcurrent
+ *   - retries      a runner that throws (or returns retryable: true) is
+ *                  re-queued with exponential backoff until maxAttempts
+ *   - progress     runners report phases (executeImport onPhase), streamed by
+ *                  GET /api/import-jobs/:id/progress/stream
+ *   - recovery     recoverImportJobs() at startup re-queues jobs a crashed
+ *                  process left "running" — an import replaces the source's
+ *                  items as a whole, so it re-runs from the start — or fails
+ *                  them when their files are gone or attempts are used up
+ *   - listeners    onImportJobFinished() is told about every job that ends
+ *                  (outbound webhooks)
+ *
+ * Runners are registered per job kind (see registerImportJobRunners in
+ * routes.ts), so this module has no dependency on the import code itself.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import type { ImportPhaseName } from "./importEngine";
+
+const IMPORT_JOBS_KEY = "import_job_queue";
+// Not the temp dir: recovery re-runs interrupted jobs from these files
+const JOB_FILES_DIR =
+  process.env.IMPORT_JOB_FILES_DIR || path.join(process.cwd(), "uploads", "import-jobs");
+const MAX_RUNNING_JOBS = 2;
+const DEFAULT_PER_SOURCE_CONCURRENCY = 1;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// Backoff: 30s, 60s, 120s … capped at 10 minutes
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// How often queued/retrying jobs are re-checked (backoff expiry)
+const POLL_INTERVAL_MS = 5 * 1000;
+// Progress is kept in memory; persisted at most this often while running
+const PROGRESS_PERSIST_MS = 5 * 1000;
+// Finished jobs kept for the status routes
+const MAX_FINISHED_JOBS = 200;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ImportJobKind = "manual_upload" | "url" | "email" | "combine";
+
+export type ImportJobStatus =
+  | "queued"
+  | "running"
+  | "retrying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type ImportJobPhase =
+  | "queued"
+  | "starting"
+  | "fetching"
+  | ImportPhaseName
+  | "retry_scheduled"
+  | "done";
+
+export interface ImportJobProgress {
+  phase: ImportJobPhase;
+  percent: number;
+  message?: string;
+  itemCount?: number;
+  updatedAt: string;
+}
+
+export interface ImportJobFile {
+  originalname: string;
+  path: string;
+  size: number;
+}
+
+export interface ImportJobResult {
+  success: boolean;
+  itemCount?: number;
+  error?: string;
+  /** Failed for a transient reason (network, mailbox) — retry with backoff */
+  retryable?: boolean;
+  /** Runner-specific payload returned to the caller (stats, logs, …) */
+  details?: any;
+}
+
+export interface ImportJob {
+  id: string;
+  kind: ImportJobKind;
+  dataSourceId: string;
+  status: ImportJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  files: ImportJobFile[];
+  params: Record<string, any>;
+  progress: ImportJobProgress;
+  result?: ImportJobResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Earliest time a queued/retrying job may start */
+  nextRunAt: string;
+  /** Set when the job was re-queued after a process restart */
+  resumedAt?: string;
+}
+
+export interface ImportJobContext {
+  files: { buffer: Buffer; originalname: string }[];
+  reportProgress: (
+    progress: Partial<Omit<ImportJobProgress, "updatedAt">>,
+  ) => void;
+  /** Ready-made executeImport onPhase callback */
+  onPhase: (phase: ImportPhaseName, itemCount: number) => void;
+}
+
+export type ImportJobRunner = (
+  job: ImportJob,
+  context: ImportJobContext,
+) => Promise<ImportJobResult>;
+
+export type ImportJobListener = (job: ImportJob) => void | Promise<void>;
+
+const PHASE_PERCENT: Record<ImportJobPhase, number> = {
+  queued: 0,
+  starting: 2,
+  fetching: 5,
+  parse: 10,
+  filter: 35,
+  transform: 50,
+  business: 70,
+  save: 85,
+  retry_scheduled: 0,
+  done: 100,
+};
+
+const TERMINAL_STATUSES: ImportJobStatus[] = ["completed", "failed", "cancelled"];
+
+// ============================================================
+// STATE
+// ============================================================
+
+const jobs = new Map<string, ImportJob>();
+const runners = new Map<ImportJobKind, ImportJobRunner>();
+const runningJobIds = new Set<string>();
+const waiters = new Map<string, Array<(job: ImportJob) => void>>();
+const finishListeners: ImportJobListener[] = [];
+
+let loaded: Promise<void> | null = null;
+let persistChain: Promise<void> = Promise.resolve();
+let pollTimer: NodeJS.Timeout | null = null;
+let pumping = false;
+let pumpAgain = false;
+
+export function isTerminalImportJob(job: ImportJob): boolean {
+  return TERMINAL_STATUSES.includes(job.status);
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      const saved = await storage.getAppSetting(IMPORT_JOBS_KEY);
+      for (const job of (saved?.jobs || []) as ImportJob[]) {
+        jobs.set(job.id, job);
+      }
+    })().catch((err) => {
+      loaded = null;
+      throw err;
+    });
+  }
+  return loaded;
+}
+
+function persist(): Promise<void> {
+  const active = [...jobs.values()].filter((j) => !isTerminalImportJob(j));
+  const finished = [...jobs.values()]
+    .filter(isTerminalImportJob)
+    .sort((a, b) => (b.finishedAt || "").localeCompare(a.finishedAt || ""))
+    .slice(0, MAX_FINISHED_JOBS);
+  // Forget finished jobs that fell off the end
+  const keep = new Set([...active, ...finished].map((j) => j.id));
+  for (const id of jobs.keys()) if (!keep.has(id)) jobs.delete(id);
+
+  const snapshot = { jobs: [...active, ...finished] };
+  persistChain = persistChain
+    .then(() => storage.setAppSetting(IMPORT_JOBS_KEY, snapshot))
+    .catch((err) => console.error("[ImportQueue] Failed to persist jobs:", err));
+  return persistChain;
+}
+
+// ============================================================
+// JOB FILES
+// ============================================================
+
+function writeJobFiles(
+  jobId: string,
+  files: { buffer: Buffer; originalname: string }[],
+): ImportJobFile[] {
+  if (files.length === 0) return [];
+  const dir = path.join(JOB_FILES_DIR, jobId);
+  fs.mkdirSync(dir, { recursive: true });
+  return files.map((file, i) => {
+    const safeName = file.originalname.replace(/[^\w.\- ]+/g, "_");
+    const filePath = path.join(dir, `${i}-${safeName}`);
+    fs.writeFileSync(filePath, file.buffer);
+    return { originalname: file.originalname, path: filePath, size: file.buffer.length };
+  });
+}
+
+function jobFilesExist(job: ImportJob): boolean {
+  return job.files.every((f) => fs.existsSync(f.path));
+}
+
+function readJobFiles(job: ImportJob): { buffer: Buffer; originalname: string }[] {
+  return job.files.map((f) => ({
+    buffer: fs.readFileSync(f.path),
+    originalname: f.originalname,
+  }));
+}
+
+function removeJobFiles(job: ImportJob): void {
+  if (job.files.length === 0) return;
+  fs.rm(path.join(JOB_FILES_DIR, job.id), { recursive: true, force: true }, () => {});
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+export function registerImportJobRunner(
+  kind: ImportJobKind,
+  runner: ImportJobRunner,
+): void {
+  runners.set(kind, runner);
+}
+
+/** Called once for every job that completes, fails or is cancelled */
+export function onImportJobFinished(listener: ImportJobListener): void {
+  finishListeners.push(listener);
+}
+
+export async function enqueueImportJob(options: {
+  kind: ImportJobKind;
+  dataSourceId: string;
+  files?: { buffer: Buffer; originalname: string }[];
+  params?: Record<string, any>;
+  maxAttempts?: number;
+}): Promise<ImportJob> {
+  await ensureLoaded();
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  const job: ImportJob = {
+    id,
+    kind: options.kind,
+    dataSourceId: options.dataSourceId,
+    status: "queued",
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    files: writeJobFiles(id, options.files || []),
+    params: options.params || {},
+    progress: { phase: "queued", percent: 0, updatedAt: now },
+    createdAt: now,
+    nextRunAt: now,
+  };
+  jobs.set(id, job);
+  await persist();
+  console.log(
+    `[ImportQueue] Queued ${job.kind} job ${id} for data source ${job.dataSourceId}`,
+  );
+  pump();
+  return job;
+}
+
+/** Resolves once the job completes, fails for good or is cancelled */
+export async function waitForImportJob(jobId: string): Promise<ImportJob> {
+  await ensureLoaded();
+  const job = jobs.get(jobId);
+  if (!job) throw new Error(`Import job ${jobId} not found`);
+  if (isTerminalImportJob(job)) return job;
+  return new Promise((resolve) => {
+    const list = waiters.get(jobId) || [];
+    list.push(resolve);
+    waiters.set(jobId, list);
+  });
+}
+
+export async function getImportJob(jobId: string): Promise<ImportJob | undefined> {
+  await ensureLoaded();
+  return jobs.get(jobId);
+}
+
+export async function listImportJobs(
+  filter: { dataSourceId?: string; status?: ImportJobStatus; limit?: number } = {},
+): Promise<ImportJob[]> {
+  await ensureLoaded();
+  return [...jobs.values()]
+    .filter((j) => !filter.dataSourceId || j.dataSourceId === filter.dataSourceId)
+    .filter((j) => !filter.status || j.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit || 50);
+}
+
+/** Cancel a job that hasn't started (or is waiting to retry) */
+export async function cancelImportJob(
+  jobId: string,
+): Promise<{ cancelled: boolean; job?: ImportJob; reason?: string }> {
+  await ensureLoaded();
+  const job = jobs.get(jobId);
+  if (!job) return { cancelled: false, reason: "Import job not found" };
+  if (job.status !== "queued" && job.status !== "retrying") {
+    return { cancelled: false, job, reason: `Job is ${job.status}` };
+  }
+  finishJob(job, "cancelled", "Cancelled before it ran");
+  await persist();
+  return { cancelled: true, job };
+}
+
+/**
+ * Startup recovery: jobs left "running" by a crashed or restarted process
+ * are re-queued (or failed when they can't be re-run). The queue itself is
+ * started separately by startImportJobQueue().
+ */
+export async function recoverImportJobs(): Promise<{ resumed: number; failed: number }> {
+  await ensureLoaded();
+  let resumed = 0;
+  let failed = 0;
+  const now = new Date().toISOString();
+
+  for (const job of jobs.values()) {
+    if (job.status !== "running" || runningJobIds.has(job.id)) continue;
+    if (job.attempts < job.maxAttempts && jobFilesExist(job)) {
+      job.status = "queued";
+      job.resumedAt = now;
+      job.nextRunAt = now;
+      job.error = "Interrupted by a server restart — re-queued";
+      job.progress = { phase: "queued", percent: 0, message: job.error, updatedAt: now };
+      resumed++;
+    } else {
+      finishJob(
+        job,
+        "failed",
+        jobFilesExist(job)
+          ? "Interrupted by a server restart (no attempts left)"
+          : "Interrupted by a server restart and its files are gone",
+      );
+      failed++;
+    }
+  }
+
+  if (resumed > 0 || failed > 0) {
+    await persist();
+    console.log(
+      `[ImportQueue] Recovered interrupted jobs: ${resumed} re-queued, ${failed} failed`,
+    );
+  }
+
+  pump();
+  return { resumed, failed };
+}
+
+/**
+ * Start the poll that runs queued jobs and due retries. Independent of
+ * recovery: if the saved jobs can't be loaded yet, each tick tries again.
+ */
+export function startImportJobQueue(): void {
+  if (!pollTimer) {
+    pollTimer = setInterval(pump, POLL_INTERVAL_MS);
+    pollTimer.unref?.();
+  }
+  pump();
+}
+
+// ============================================================
+// SCHEDULING
+// ============================================================
+
+async function getSourceConcurrency(dataSourceId: string): Promise<number> {
+  try {
+    const dataSource = await storage.getDataSource(dataSourceId);
+    const limit = (dataSource as any)?.importQueueConfig?.maxConcurrent;
+    return typeof limit === "number" && limit > 0 ? limit : DEFAULT_PER_SOURCE_CONCURRENCY;
+  } catch {
+    return DEFAULT_PER_SOURCE_CONCURRENCY;
+  }
+}
+
+function runningCountFor(dataSourceId: string): number {
+  let count = 0;
+  for (const id of runningJobIds) {
+    if (jobs.get(id)?.dataSourceId === dataSourceId) count++;
+  }
+  return count;
+}
+
+async function pump(): Promise<void> {
+  if (pumping) {
+    pumpAgain = true;
+    return;
+  }
+  pumping = true;
+  try {
+    await ensureLoaded();
+    do {
+      pumpAgain = false;
+      const now = new Date().toISOString();
+      const ready = [...jobs.values()]
+        .filter((j) => (j.status === "queued" || j.status === "retrying") && j.nextRunAt <= now)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      for (const job of ready) {
+        if (runningJobIds.size >= MAX_RUNNING_JOBS) break;
+        const limit = await getSourceConcurrency(job.dataSourceId);
+        if (runningCountFor(job.dataSourceId) >= limit) continue;
+        runningJobIds.add(job.id);
+        runJob(job).catch((err) =>
+          console.error(`[ImportQueue] Job ${job.id} crashed the runner loop:`, err),
+        );
+      }
+    } while (pumpAgain);
+  } catch (err) {
+    console.error("[ImportQueue] Error scheduling jobs:", err);
+  } finally {
+    pumping = false;
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function finishJob(job: ImportJob, status: ImportJobStatus, error?: string): void {
+  const now = new Date().toISOString();
+  job.status = status;
+  job.error = error;
+  job.finishedAt = now;
+  job.progress = {
+    ...job.progress,
+    phase: status === "completed" ? "done" : job.progress.phase,
+    percent: status === "completed" ? 100 : job.progress.percent,
+    message: error || job.progress.message,
+    updatedAt: now,
+  };
+  removeJobFiles(job);
+  for (const resolve of waiters.get(job.id) || []) resolve(job);
+  waiters.delete(job.id);
+  for (const listener of finishListeners) {
+    Promise.resolve()
+      .then(() => listener(job))
+      .catch((err) => console.error("[ImportQueue] Finish listener error:", err));
+  }
+}
+
+async function runJob(job: ImportJob): Promise<void> {
+  const logPrefix = `[ImportQueue:${job.kind}:${job.id.substring(0, 8)}]`;
+  const startedAt = new Date().toISOString();
+  job.status = "running";
+  job.attempts++;
+  job.startedAt = startedAt;
+  job.progress = { phase: "starting", percent: PHASE_PERCENT.starting, updatedAt: startedAt };
+  await persist();
+  console.log(`${logPrefix} Attempt ${job.attempts}/${job.maxAttempts} for data source ${job.dataSourceId}`);
+
+  let lastProgressPersist = Date.now();
+  const reportProgress: ImportJobContext["reportProgress"] = (progress) => {
+    const phase = progress.phase || job.progress.phase;
+    job.progress = {
+      ...job.progress,
+      ...progress,
+      phase,
+      percent: progress.percent ?? PHASE_PERCENT[phase],
+      updatedAt: new Date().toISOString(),
+    };
+    if (Date.now() - lastProgressPersist >= PROGRESS_PERSIST_MS) {
+      lastProgressPersist = Date.now();
+      persist();
+    }
+  };
+
+  let retryError: string | null = null;
+  try {
+    const runner = runners.get(job.kind);
+    if (!runner) {
+      finishJob(job, "failed", `No runner registered for "${job.kind}" imports`);
+      return;
+    }
+    if (!jobFilesExist(job)) {
+      finishJob(job, "failed", "Import files are missing");
+      return;
+    }
+
+    const result = await runner(job, {
+      files: readJobFiles(job),
+      reportProgress,
+      onPhase: (phase, itemCount) => reportProgress({ phase, itemCount }),
+    });
+    job.result = result;
+
+    if (result.success) {
+      finishJob(job, "completed");
+      console.log(`${logPrefix} Completed (${result.itemCount ?? 0} items)`);
+    } else if (result.retryable) {
+      retryError = result.error || "Import failed";
+    } else {
+      finishJob(job, "failed", result.error || "Import failed");
+      console.log(`${logPrefix} Failed: ${job.error}`);
+    }
+  } catch (err: any) {
+    console.error(`${logPrefix} Error:`, err);
+    retryError = err?.message || String(err);
+  } finally {
+    if (retryError !== null) {
+      if (job.attempts < job.maxAttempts) {
+        const delay = retryDelay(job.attempts);
+        const now = new Date();
+        job.status = "retrying";
+        job.error = retryError;
+        job.nextRunAt = new Date(now.getTime() + delay).toISOString();
+        job.progress = {
+          phase: "retry_scheduled",
+          percent: 0,
+          message: `Attempt ${job.attempts} failed: ${retryError} — retrying in ${Math.round(delay / 1000)}s`,
+          updatedAt: now.toISOString(),
+        };
+        console.log(`${logPrefix} ${job.progress.message}`);
+      } else {
+        finishJob(job, "failed", `${retryError} (after ${job.attempts} attempts)`);
+        console.log(`${logPrefix} Failed: ${job.error}`);
+      }
+    }
+    runningJobIds.delete(job.id);
+    await persist();
+    pump();
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * importProvenance.ts — Per-item provenance trail for executeImport()
+ *
+ * Every item saved by executeImport() carries `rawData._provenance`:
+ *
+ *   - where it came from   – file, sheet and 1-based row in that sheet
+ *   - what touched it      – every pipeline step that changed a tracked
+ *                            field (color fixes, import rules, variant
+ *                            rules, price-based expansion, ...)
+ *
+ * The trail is built from the ImportPhaseTracker events (importDryRun.ts),
+ * so it reports exactly what the pipeline did rather than re-deriving it.
+ * Every import traces by default (ImportOptions.traceProvenance: false
+ * records only the source location); a trail keeps its first
+ * MAX_TRANSFORMATIONS steps and counts the rest.
+ * Served by GET /api/inventory/:id/provenance.
+ */
+
+import type {
+  ImportPhase,
+  ImportPhaseTracker,
+  ItemFieldChange,
+} from "./importDryRun";
+
+// Steps kept per item; later ones are only counted
+const MAX_TRANSFORMATIONS = 25;
+
+// ============================================================
+// TYPE DEFINITIONS
+// ============================================================
+
+/** Row range a single input file occupies in the (consolidated) sheet data */
+export interface SourceSegment {
+  fileName: string;
+  sheetName: string | null;
+  /** First 1-based row of this file's data within the consolidated rows */
+  startRow: number;
+  /** Row number in the original file that `startRow` corresponds to */
+  originalStartRow: number;
+}
+
+export interface ProvenanceTransformation {
+  phase: ImportPhase;
+  step: string;
+  action: "changed" | "added";
+  changes?: Record<string, ItemFieldChange>;
+}
+
+export interface ItemProvenance {
+  importSource: string;
+  importedAt: string;
+  fileName: string | null;
+  sheetName: string | null;
+  /** 1-based row in the source sheet (null when the parser doesn't report it) */
+  sourceRow: number | null;
+  /** Set for sizes created by variant rules / price-based expansion */
+  expandedFromSize?: string | null;
+  expansionRule?: string | null;
+  transformations: ProvenanceTransformation[];
+  /** Steps past MAX_TRANSFORMATIONS that were left out of the trail */
+  omittedTransformations?: number;
+}
+
+// ============================================================
+// HELPER: Map a consolidated row back to its file
+// ============================================================
+
+export function resolveSourceLocation(
+  segments: SourceSegment[],
+  consolidatedRow: number | null | undefined,
+): { fileName: string | null; sheetName: string | null; sourceRow: number | null } {
+  if (segments.length === 0) {
+    return { fileName: null, sheetName: null, sourceRow: consolidatedRow ?? null };
+  }
+
+  // Segments are in file order — pick the last one starting at or before the row
+  let segment = segments[0];
+  if (consolidatedRow != null) {
+    for (const candidate of segments) {
+      if (candidate.startRow <= consolidatedRow) segment = candidate;
+    }
+  }
+
+  return {
+    fileName: segment.fileName,
+    sheetName: segment.sheetName,
+    sourceRow:
+      consolidatedRow != null
+        ? consolidatedRow - segment.startRow + segment.originalStartRow
+        : null,
+  };
+}
+
+// ============================================================
+// MAIN: Attach provenance to the items about to be saved
+// ============================================================
+
+/**
+ * Writes `rawData._provenance` onto each item and strips the tracker's
+ * `_traceId` / parser `sourceRow` helper fields so they never reach the DB.
+ */
+export function attachProvenance(
+  items: any[],
+  tracker: ImportPhaseTracker | null,
+  segments: SourceSegment[],
+  importSource: string,
+): any[] {
+  const importedAt = new Date().toISOString();
+
+  return items.map((item: any) => {
+    const { _traceId, sourceRow, ...rest } = item;
+    const trace =
+      tracker && _traceId !== undefined ? tracker.getTrace(_traceId) : undefined;
+    const location = resolveSourceLocation(segments, sourceRow);
+
+    const transformations: ProvenanceTransformation[] = (trace?.events || [])
+      .filter((event) => event.action !== "dropped")
+      .map((event) => ({
+        phase: event.phase,
+        step: event.step,
+        action: event.action as "changed" | "added",
+        changes: event.changes,
+      }));
+
+    const expansionRule = rest.rawData?._variantRule
+      ? `variant rule "${rest.rawData._variantRule}"`
+      : rest.rawData?._priceBasedExpansion
+        ? "price-based expansion"
+        : null;
+
+    const provenance: ItemProvenance = {
+      importSource,
+      importedAt,
+      ...location,
+      expandedFromSize: rest.rawData?._expanded ? rest.rawData._fromSize ?? null : undefined,
+      expansionRule: rest.rawData?._expanded ? expansionRule : undefined,
+      transformations: transformations.slice(0, MAX_TRANSFORMATIONS),
+      omittedTransformations:
+        transformations.length > MAX_TRANSFORMATIONS
+          ? transformations.length - MAX_TRANSFORMATIONS
+          : undefined,
+    };
+
+    return {
+      ...rest,
+      rawData: { ...(rest.rawData || {}), _provenance: provenance },
+    };
+  });
+}
@@ -15,7 +15,10 @@ import {
   deduplicateAndZeroFutureStock,
 } from "./inventoryProcessing";
 import { startImport, completeImport, failImport } from "./importState";
+import { isCSVBuffer, openRowSource, sheetRows } from "./streamingRowSource";
 import { executeImport, calculateItemStockInfo, getStockInfoRule, getStylePrefix, toTitleCase } from "./importEngine";
+import { updateDataSourceConfig } from "./dataSourceConfigHistory";
+import { detectFormatFromBuffer } from "./formatPlugins";
 
 // Re-export shared processing functions for backward compatibility
 export {
@@ -722,11 +725,20 @@ function selectSheet(
   workbook: XLSX.WorkBook,
   sheetConfig?: SheetConfig,
 ): { sheet: XLSX.WorkSheet; sheetName: string } {
-  let sheetName = workbook.SheetNames[0]; // Default to first sheet
+  const sheetName = pickSheetName(workbook.SheetNames, sheetConfig);
+  return { sheet: workbook.Sheets[sheetName], sheetName };
+}
+
+/**
+ * Sheet name the sheet config points at (by name, then index), falling back
+ * to the first sheet
+ */
+function pickSheetName(sheetNames: string[], sheetConfig?: SheetConfig): string {
+  let sheetName = sheetNames[0]; // Default to first sheet
 
   if (sheetConfig?.sheetName) {
     // Try to find sheet by name
-    if (workbook.SheetNames.includes(sheetConfig.sheetName)) {
+    if (sheetNames.includes(sheetConfig.sheetName)) {
       sheetName = sheetConfig.sheetName;
     } else {
       console.log(
@@ -737,9 +749,9 @@ function selectSheet(
     // Use sheet by index
     if (
       sheetConfig.sheetIndex >= 0 &&
-      sheetConfig.sheetIndex < workbook.SheetNames.length
+      sheetConfig.sheetIndex < sheetNames.length
     ) {
-      sheetName = workbook.SheetNames[sheetConfig.sheetIndex];
+      sheetName = sheetNames[sheetConfig.sheetIndex];
     } else {
       console.log(
         `[SheetConfig] Sheet index ${sheetConfig.sheetIndex} out of range, using first sheet "${sheetName}"`,
@@ -748,7 +760,7 @@ function selectSheet(
   }
 
   console.log(`[SheetConfig] Using sheet: "${sheetName}"`);
-  return { sheet: workbook.Sheets[sheetName], sheetName };
+  return sheetName;
 }
 
 /**
@@ -782,141 +794,6 @@ function getCodepage(encoding: string): number | undefined {
   return codepageMap[encoding.toLowerCase()];
 }
 
-/**
- * Check if a buffer is a CSV file (not Excel)
- * Used to prevent XLSX from corrupting CSV values
- */
-function isCSVBuffer(buffer: Buffer): boolean {
-  // Check for Excel magic bytes (PK for xlsx, D0 CF for xls)
-  if (buffer.length >= 4) {
-    // XLSX files start with PK (0x50 0x4B)
-    if (buffer[0] === 0x50 && buffer[1] === 0x4b) {
-      return false;
-    }
-    // XLS files start with D0 CF 11 E0
-    if (
-      buffer[0] === 0xd0 &&
-      buffer[1] === 0xcf &&
-      buffer[2] === 0x11 &&
-      buffer[3] === 0xe0
-    ) {
-      return false;
-    }
-  }
-
-  // Check for UTF-16 BOM (some CSV files use this)
-  const hasUTF16BOM =
-    buffer.length >= 2 &&
-    ((buffer[0] === 0xff && buffer[1] === 0xfe) ||
-      (buffer[0] === 0xfe && buffer[1] === 0xff));
-
-  // Sample first 1000 bytes to check if it looks like CSV
-  let sampleText: string;
-  if (hasUTF16BOM) {
-    // UTF-16 LE
-    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
-      sampleText = buffer.slice(2, 1000).toString("utf16le");
-    } else {
-      // UTF-16 BE - swap bytes
-      const swapped = Buffer.alloc(Math.min(998, buffer.length - 2));
-      for (let i = 2; i < Math.min(1000, buffer.length) - 1; i += 2) {
-        swapped[i - 2] = buffer[i + 1];
-        swapped[i - 1] = buffer[i];
-      }
-      sampleText = swapped.toString("utf16le");
-    }
-  } else {
-    sampleText = buffer.slice(0, 1000).toString("utf8");
-  }
-
-  // CSV characteristics: has commas/tabs, has newlines, printable text
-  const hasDelimiters = sampleText.includes(",") || sampleText.includes("\t");
-  const hasNewlines = sampleText.includes("\n") || sampleText.includes("\r");
-  const isPrintable = /^[\x09\x0A\x0D\x20-\x7E\u00A0-\uFFFF]*$/.test(
-    sampleText.replace(/[\r\n]/g, ""),
-  );
-
-  return hasDelimiters && hasNewlines && isPrintable;
-}
-
-/**
- * Parse CSV buffer to array of arrays (preserving all values as strings)
- * Handles UTF-16 and UTF-8 BOMs, auto-detects delimiter
- */
-function parseCSVAsText(buffer: Buffer): any[][] {
-  let text: string;
-
-  // Check for UTF-16 BOM
-  const hasUTF16LE =
-    buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe;
-  const hasUTF16BE =
-    buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff;
-
-  if (hasUTF16LE) {
-    text = buffer.slice(2).toString("utf16le");
-  } else if (hasUTF16BE) {
-    // Swap bytes for BE
-    const swapped = Buffer.alloc(buffer.length - 2);
-    for (let i = 2; i < buffer.length - 1; i += 2) {
-      swapped[i - 2] = buffer[i + 1];
-      swapped[i - 1] = buffer[i];
-    }
-    text = swapped.toString("utf16le");
-  } else {
-    // Check for UTF-8 BOM
-    if (
-      buffer.length >= 3 &&
-      buffer[0] === 0xef &&
-      buffer[1] === 0xbb &&
-      buffer[2] === 0xbf
-    ) {
-      text = buffer.slice(3).toString("utf8");
-    } else {
-      text = buffer.toString("utf8");
-    }
-  }
-
-  // Detect delimiter (comma or tab)
-  const firstLine = text.split(/\r?\n/)[0] || "";
-  const commaCount = (firstLine.match(/,/g) || []).length;
-  const tabCount = (firstLine.match(/\t/g) || []).length;
-  const delimiter = tabCount > commaCount ? "\t" : ",";
-
-  // Parse CSV manually to preserve all values as strings
-  const rows: any[][] = [];
-  const lines = text.split(/\r?\n/);
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-
-    const row: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++; // Skip escaped quote
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === delimiter && !inQuotes) {
-        row.push(current.trim());
-        current = "";
-      } else {
-        current += char;
-      }
-    }
-    row.push(current.trim()); // Don't forget last field
-    rows.push(row);
-  }
-
-  return rows;
-}
-
 /**
  * Parse CSV content with custom delimiter
  */
@@ -959,39 +836,68 @@ export function parseCSVWithDelimiter(
   return rows;
 }
 
-export function parseExcelToInventory(
+export async function parseExcelToInventory(
   buffer: Buffer,
   columnMapping: any,
   cleaningConfig: any,
   sheetConfig?: SheetConfig,
   fileParseConfig?: FileParseConfig,
-): { headers: string[]; rows: any[][]; items: any[] } {
+  options: ParseRowsOptions = {},
+): Promise<{ headers: string[]; rows: any[][]; items: any[] }> {
   // CRITICAL FIX: Check for CSV first to prevent XLSX from corrupting values
   // Style numbers like "1921E0136" would become scientific notation if parsed by XLSX
-  let rawData: any[][];
-
+  // Rows are read incrementally rather than converted to one big array first
   if (isCSVBuffer(buffer)) {
     console.log(
       "[Email Import] Detected CSV file - using text parser to preserve values",
     );
-    rawData = parseCSVAsText(buffer);
-  } else {
-    // Parse workbook with encoding option if specified
-    const readOptions: XLSX.ParsingOptions = { type: "buffer" };
-    if (fileParseConfig?.encoding) {
-      readOptions.codepage = getCodepage(fileParseConfig.encoding);
-    }
-
-    const workbook = XLSX.read(buffer, readOptions);
-    const { sheet } = selectSheet(workbook, sheetConfig);
-    fixSheetRange(sheet);
-    rawData = XLSX.utils.sheet_to_json(sheet, {
-      header: 1,
-      raw: false,
-    }) as any[][];
   }
+  const source = openRowSource(buffer, "", {
+    csvAsText: true,
+    codepage: fileParseConfig?.encoding
+      ? getCodepage(fileParseConfig.encoding)
+      : undefined,
+    pickSheet: (sheetNames) => pickSheetName(sheetNames, sheetConfig),
+  });
+
+  return parseRowsToInventory(source.rows(), columnMapping, cleaningConfig, options);
+}
 
-  if (rawData.length === 0) {
+export interface ParseRowsOptions {
+  /**
+   * Return the data rows alongside the items (file staging stores them as
+   * its preview). Off, rows are parsed as they are read and dropped, so
+   * memory doesn't grow with the file.
+   */
+  keepRows?: boolean;
+}
+
+/**
+ * Row parser over an incremental row source (sheet_to_json header:1 rows).
+ * Used directly by executeImport for consolidated multi-file uploads, so the
+ * files never have to be merged into one workbook first.
+ */
+export async function parseRowsToInventory(
+  sourceRows: AsyncIterable<any[]> | Iterable<any[]>,
+  columnMapping: any,
+  cleaningConfig: any,
+  options: ParseRowsOptions = {},
+): Promise<{ headers: string[]; rows: any[][]; items: any[] }> {
+  const keepRows = options.keepRows !== false;
+  const iterator: AsyncIterator<any[]> | Iterator<any[]> =
+    Symbol.asyncIterator in sourceRows
+      ? (sourceRows as AsyncIterable<any[]>)[Symbol.asyncIterator]()
+      : (sourceRows as Iterable<any[]>)[Symbol.iterator]();
+
+  // Header detection only looks at the first 10 rows
+  const leadingRows: any[][] = [];
+  while (leadingRows.length < 10) {
+    const next = await iterator.next();
+    if (next.done) break;
+    leadingRows.push(next.value);
+  }
+
+  if (leadingRows.length === 0) {
     return { headers: [], rows: [], items: [] };
   }
 
@@ -1000,8 +906,8 @@ export function parseExcelToInventory(
   const keywords =
     /sku|code|id|name|title|desc|style|color|colour|size|stock|qty|price|cost|msrp/i;
 
-  for (let i = 0; i < Math.min(10, rawData.length); i++) {
-    const row = rawData[i];
+  for (let i = 0; i < leadingRows.length; i++) {
+    const row = leadingRows[i];
     let matchCount = 0;
     if (Array.isArray(row)) {
       row.forEach((cell) => {
@@ -1016,14 +922,29 @@ export function parseExcelToInventory(
     }
   }
 
-  const headers = (rawData[headerRowIndex] || []).map((h) => String(h || ""));
-  const dataRows = rawData
-    .slice(headerRowIndex + 1)
-    .filter(
-      (row: any[]) =>
+  const headers = (leadingRows[headerRowIndex] || []).map((h) => String(h || ""));
+  const dataRows: any[][] = [];
+  // Rows below the header with their 1-based sheet row (import provenance):
+  // the buffered leading rows, then the rest of the sheet as it is read.
+  // Empty rows are dropped; kept rows are only held on to with keepRows.
+  async function* belowHeader(): AsyncGenerator<any[]> {
+    yield* leadingRows.splice(headerRowIndex + 1);
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+  async function* readDataRows(): AsyncGenerator<{ row: any[]; sheetRow: number }> {
+    let sheetRow = headerRowIndex + 1;
+    for await (const row of belowHeader()) {
+      sheetRow++;
+      const hasData =
         row &&
-        row.some((cell) => cell !== null && cell !== undefined && cell !== ""),
-    );
+        row.some((cell: any) => cell !== null && cell !== undefined && cell !== "");
+      if (!hasData) continue;
+      if (keepRows) dataRows.push(row);
+      yield { row, sheetRow };
+    }
+  }
 
   // Helper to get column value by name
   const getColIndex = (colName: string) => {
@@ -1058,6 +979,7 @@ export function parseExcelToInventory(
   if (isJovaniSaleFormat) {
     console.log("[Import] Using Jovani sale file stateful parser");
     return parseJovaniSaleFile(
+      readDataRows(),
       dataRows,
       headers,
       styleColIdx,
@@ -1073,8 +995,9 @@ export function parseExcelToInventory(
   }
 
   // Standard stateless parsing for other files
-  const items = dataRows
-    .map((row: any[]) => {
+  const items: any[] = [];
+  for await (const { row, sheetRow } of readDataRows()) {
+    const item = (() => {
       const getColValue = (colIdx: number) =>
         colIdx >= 0 ? row[colIdx] : null;
 
@@ -1336,9 +1259,11 @@ export function parseExcelToInventory(
         skipUnlessContinueSelling:
           cleaningConfig?.skipRule?.skipUnlessContinueSelling ?? false,
         rawData: Object.fromEntries(headers.map((h, i) => [h, row[i]])),
+        sourceRow: sheetRow,
       };
-    })
-    .filter((item) => item.sku);
+    })();
+    if (item.sku) items.push(item);
+  }
 
   return { headers, rows: dataRows, items };
 }
@@ -1353,7 +1278,8 @@ export function parseExcelToInventory(
  *
  * This parser maintains currentStyle context and correctly assigns variants.
  */
-function parseJovaniSaleFile(
+async function parseJovaniSaleFile(
+  sourceRows: AsyncIterable<{ row: any[] }>,
   dataRows: any[][],
   headers: string[],
   styleColIdx: number,
@@ -1363,13 +1289,13 @@ function parseJovaniSaleFile(
   priceColIdx: number,
   skuColIdx: number,
   cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } {
+): Promise<{ headers: string[]; rows: any[][]; items: any[] }> {
   const items: any[] = [];
   let currentStyle = "";
   let stylesFound = 0;
   let variantsFound = 0;
 
-  for (const row of dataRows) {
+  for await (const { row } of sourceRows) {
     const styleValue = String(row[styleColIdx] || "").trim();
     const colorValue = String(row[colorColIdx] || "").trim();
     // FIX: Use ?? to preserve numeric 0 (valid size)
@@ -1512,7 +1438,11 @@ export function parsePivotedExcelToInventory(
   console.log(`[Pivot Parser] Buffer size: ${buffer?.length || 0} bytes`);
 
   // Parse workbook with encoding option if specified
-  const readOptions: XLSX.ParsingOptions = { type: "buffer" };
+  const readOptions: XLSX.ParsingOptions = {
+    type: "buffer",
+    cellFormula: false,
+    cellHTML: false,
+  };
   if (fileParseConfig?.encoding) {
     readOptions.codepage = getCodepage(fileParseConfig.encoding);
   }
@@ -1520,13 +1450,12 @@ export function parsePivotedExcelToInventory(
   const workbook = XLSX.read(buffer, readOptions);
   const { sheet } = selectSheet(workbook, sheetConfig);
   fixSheetRange(sheet);
-  const rawData = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false,
-  }) as any[][];
+  // Rows are streamed below; sheet_to_json keeps blank rows, so the row
+  // count is the height of the sheet range
+  const sheetRange = sheet["!ref"] ? XLSX.utils.decode_range(sheet["!ref"]) : null;
+  const rowCount = sheetRange ? sheetRange.e.r - sheetRange.s.r + 1 : 0;
 
-  if (rawData.length === 0) {
+  if (rowCount === 0) {
     return { headers: [], rows: [], items: [] };
   }
 
@@ -1574,7 +1503,7 @@ export function parsePivotedExcelToInventory(
     : []; // Size headers from the current style row or config
 
   console.log(
-    `[Pivot Parser] Processing ${rawData.length} rows, skipping first ${skipRows} rows`,
+    `[Pivot Parser] Processing ${rowCount} rows, skipping first ${skipRows} rows`,
   );
   console.log(
     `[Pivot Parser] Config: styleCol=${styleCol}, colorCol=${colorCol}, statusCol=${statusCol}`,
@@ -1587,8 +1516,10 @@ export function parsePivotedExcelToInventory(
     `[Pivot Parser] Using configured sizeHeaders: ${useConfiguredSizeHeaders ? sizeHeaders.filter(Boolean).join(", ") : "no (extracting from rows)"}`,
   );
 
-  for (let i = skipRows; i < rawData.length; i++) {
-    const row = rawData[i];
+  let i = -1;
+  for (const row of sheetRows(sheet, { defval: "" })) {
+    i++;
+    if (i < skipRows) continue;
     if (!row || row.length === 0) continue;
 
     const firstCell = String(row[styleCol] || "").trim();
@@ -2005,6 +1936,11 @@ export async function processEmailAttachment(
   rowCount: number;
   staged?: boolean;
   error?: string;
+  /** The safety net stopped the import (validation, item-count drop, review hold) */
+  safetyBlock?: boolean;
+  safetyHold?: boolean;
+  safetyReviewId?: string;
+  safetyFindings?: any[];
 }> {
   // Import the immediate alert function lazily to avoid circular dependencies
   const { sendImmediateImportAlert } = await import("./errorReporter");
@@ -2052,6 +1988,7 @@ export async function processEmailAttachment(
           success: false,
           rowCount: 0,
           error: `SAFETY NET: Import blocked - ${centralValidation.errors.join("; ")}`,
+          safetyBlock: true,
         };
       }
 
@@ -2140,10 +2077,14 @@ export async function processEmailAttachment(
             );
             pivotConfig = { enabled: true, format: detectedFormat };
             // Save detected format for future imports
-            await storage.updateDataSource(dataSourceId, {
-              formatType: detectedFormat,
-              pivotConfig: { enabled: true, format: detectedFormat },
-            });
+            await updateDataSourceConfig(
+              dataSourceId,
+              {
+                formatType: detectedFormat,
+                pivotConfig: { enabled: true, format: detectedFormat },
+              },
+              { source: "auto", note: `Detected ${detectedFormat} format` },
+            );
           }
         }
       } catch (detectErr: any) {
@@ -2206,7 +2147,7 @@ export async function processEmailAttachment(
       // Generic row format (no pivot format detected)
       parserUsed = "parseExcelToInventory (generic row)";
       eLog(`[EmailImport] Using generic row parser (no format detected)`);
-      const result = parseExcelToInventory(
+      const result = await parseExcelToInventory(
         buffer,
         columnMapping,
         cleaningConfig,
@@ -2535,7 +2476,7 @@ export async function processEmailAttachment(
             threshold: safetyThreshold,
           });
 
-          return { success: false, rowCount: 0, error: errorMessage };
+          return { success: false, rowCount: 0, error: errorMessage, safetyBlock: true };
         }
       }
     }
@@ -2576,7 +2517,19 @@ export async function processEmailAttachment(
 
     if (!result.success) {
       failImport(dataSourceId, result.error || "Import failed");
-      return { success: false, rowCount: 0, error: result.error };
+      return {
+        success: false,
+        rowCount: 0,
+        error: result.error,
+        ...(result.safetyBlock
+          ? {
+              safetyBlock: true,
+              safetyHold: result.safetyHold,
+              safetyReviewId: result.safetyReviewId,
+              safetyFindings: result.safetyFindings,
+            }
+          : {}),
+      };
     }
 
     completeImport(dataSourceId, result.itemCount);
@@ -3597,1851 +3550,18 @@ export async function removeDiscontinuedInventoryItems(
 }
 
 // ============================================================
-// OTS FORMAT PARSER (for email/manual imports)
-// For files with ots1, ots2, ots3... columns representing sizes
+// OTS FORMAT DETECTION
+// Vendor parsers live in formatPlugins/ — see formatPlugins/ots.ts
 // ============================================================
 
 /**
- * Detect if a file is in OTS format
- * OTS format has headers like: style, color, price1, ots1, ots2, ots3, etc.
+ * Detect if a file is in OTS format (headers like style, color, price1,
+ * ots1, ots2, ots3, ...) — the OTS plugin's content check
  */
 export function isOTSFormat(buffer: Buffer): boolean {
-  try {
-    const workbook = XLSX.read(buffer, { type: "buffer" });
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    fixSheetRange(sheet);
-    const data = XLSX.utils.sheet_to_json(sheet, {
-      header: 1,
-      defval: "",
-      raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-    }) as any[][];
-
-    if (data.length < 2) return false;
-
-    const headerRow = data[0];
-    const headersLower = headerRow.map((h: any) =>
-      String(h ?? "")
-        .trim()
-        .toLowerCase(),
-    );
-
-    // Check if we have ots1, ots2, etc. columns
-    const otsColumns = headersLower.filter((h: string) => /^ots\d+$/.test(h));
-    return otsColumns.length >= 3; // At least 3 OTS columns indicates OTS format
-  } catch (e) {
-    return false;
-  }
-}
-
-/**
- * Parse OTS format files
- * These files have:
- * - style, color columns
- * - ots1, ots2, ots3, etc. columns representing sizes (maps to 2, 4, 6, 8, 10, 12, 14, 16, 18)
- * - Optionally a size_whole_comp column with actual size values
- */
-export function parseOTSFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-  dataSourceName?: string,
-  stockValueConfig?: {
-    textMappings?:
-      | Array<{ text: string; value: number }>
-      | Record<string, number>;
-  },
-): { headers: string[]; rows: any[][]; items: any[] } {
-  console.log(
-    `[OTSFormat] Parsing OTS format file for ${dataSourceName || "unknown"}`,
-  );
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-  }) as any[][];
-
-  const items: any[] = [];
-  if (data.length < 2) {
-    console.log(`[OTSFormat] File has less than 2 rows, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  const headerRow = data[0];
-  const headers = headerRow.map((h: any) =>
-    String(h ?? "")
-      .trim()
-      .toLowerCase(),
-  );
-
-  // Find column indices
-  const styleIdx = headers.findIndex((h: string) => h === "style");
-  const colorIdx = headers.findIndex((h: string) => h === "color");
-  const priceIdx = headers.findIndex((h: string) => h.includes("price"));
-  const sizeCompIdx = headers.findIndex(
-    (h: string) => h.includes("size_whole") || h === "size",
-  );
-
-  // Find OTS columns (ots1, ots2, etc.)
-  const otsColumns: { index: number; num: number }[] = [];
-  for (let i = 0; i < headers.length; i++) {
-    const match = headers[i].match(/^ots(\d+)$/);
-    if (match) {
-      otsColumns.push({ index: i, num: parseInt(match[1], 10) });
-    }
-  }
-  otsColumns.sort((a, b) => a.num - b.num);
-
-  console.log(
-    `[OTSFormat] Found columns: style=${styleIdx}, color=${colorIdx}, price=${priceIdx}, otsColumns=${otsColumns.length}`,
-  );
-
-  if (styleIdx === -1 || otsColumns.length === 0) {
-    console.log(`[OTSFormat] Missing required columns`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Helper function to parse stock values with text mapping support
-  const parseStockValue = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    // Check user-configured text mappings first
-    const textMappings = stockValueConfig?.textMappings;
-    if (textMappings) {
-      if (Array.isArray(textMappings)) {
-        for (const mapping of textMappings) {
-          if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-            return mapping.value;
-          }
-        }
-      } else if (
-        (textMappings as Record<string, number>)[strVal] !== undefined
-      ) {
-        return (textMappings as Record<string, number>)[strVal];
-      }
-    }
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  // Parse data rows
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const style = String(row[styleIdx] ?? "").trim();
-    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
-    const price =
-      priceIdx >= 0
-        ? parseFloat(String(row[priceIdx] || "0")) || undefined
-        : undefined;
-
-    if (!style) continue;
-
-    // Parse sizes from size_whole_comp column if available
-    let sizes: string[] = [];
-    if (sizeCompIdx >= 0) {
-      const sizeStr = String(row[sizeCompIdx] ?? "");
-      sizes = sizeStr
-        .trim()
-        .split(/\s+/)
-        .filter((s: string) => /^\d+$/.test(s));
-    }
-    // Default sizes if none found (maps to standard size range)
-    if (sizes.length === 0) {
-      sizes = ["2", "4", "6", "8", "10", "12", "14", "16", "18"];
-    }
-
-    // Map OTS columns to sizes
-    for (let i = 0; i < Math.min(otsColumns.length, sizes.length); i++) {
-      const stock = parseStockValue(row[otsColumns[i].index]);
-      const size = sizes[i];
-
-      // FIX: Always push ALL items regardless of stock (matching Tarik Ediz behavior)
-      // This ensures size expansion can work with existing 0-stock items
-      // Zero-stock filtering happens later in applyVariantRules if enabled
-      const sku = `${style}-${color || "DEFAULT"}-${size}`
-        .replace(/\//g, "-")
-        .replace(/\s+/g, "-")
-        .replace(/-+/g, "-");
-
-      items.push({
-        sku,
-        style,
-        color: color || "DEFAULT",
-        size,
-        stock,
-        price,
-        // FIX: Add flags for consistency (no shipDate in OTS format)
-        hasFutureStock: false,
-        preserveZeroStock: false,
-      });
-    }
-  }
-
-  console.log(
-    `[OTSFormat] Parsed ${items.length} items from ${data.length - 1} data rows`,
-  );
-
-  // Build output rows
-  const outputHeaders = ["sku", "style", "color", "size", "stock", "price"];
-  const outputRows = items.map((item) => [
-    item.sku,
-    item.style,
-    item.color,
-    item.size,
-    item.stock,
-    item.price || "",
-  ]);
-
-  return {
-    headers: outputHeaders,
-    rows: outputRows,
-    items,
-  };
-}
-
-// ============================================================
-// GENERIC PIVOT FORMAT PARSER
-// For files like INESS/Colette, Alyce, etc. with size columns as headers
-// ============================================================
-
-/**
- * Parse generic pivot format files
- * These files have:
- * - Style column (header contains "STYLE", "CODE", or "ITEM")
- * - Color column (header contains "COLOR" but not "CODE")
- * - Size columns as headers (00, 0, 2, 4, 6, 8, 10, 12, 14, 16, etc.)
- * - Stock values in each size column cell
- */
-export function parseGenericPivotFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-  dataSourceName?: string,
-  discontinuedConfig?: { keywords?: string[]; values?: string[] },
-  stockValueConfig?: {
-    textMappings?:
-      | Array<{ text: string; value: number }>
-      | Record<string, number>;
-  },
-  sizeLimitConfig?: SizeLimitConfig | null,
-): { headers: string[]; rows: any[][]; items: any[]; sizeFiltered?: number } {
-  console.log(`[GenericPivot] Parsing file for ${dataSourceName || "unknown"}`);
-
-  // NOTE: Size limits are NOT applied during parsing because prefix override patterns
-  // are designed to match PREFIXED styles (e.g., "Jovani 12345"), not RAW styles (e.g., "12345").
-  // Size limits are applied later in applyVariantRules AFTER the style has been prefixed.
-  if (sizeLimitConfig?.enabled) {
-    console.log(
-      `[GenericPivot] Size limits configured (will be applied after prefixing in applyVariantRules)`,
-    );
-  }
-
-  // Helper function to parse stock values with text mapping support
-  const parseStockValue = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    // Default text mappings
-    const defaultMappings: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "–": 0,
-      "-": 0,
-      "n/a": 0,
-      "": 0,
-    };
-
-    // Check user-configured text mappings first
-    const textMappings = stockValueConfig?.textMappings;
-    if (textMappings) {
-      // Array format: [{ text: "Yes", value: 3 }]
-      if (Array.isArray(textMappings)) {
-        for (const mapping of textMappings) {
-          if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-            return mapping.value;
-          }
-        }
-      }
-      // Object format: { "yes": 3 }
-      else if ((textMappings as Record<string, number>)[strVal] !== undefined) {
-        return (textMappings as Record<string, number>)[strVal];
-      }
-    }
-
-    // Check default mappings
-    if (defaultMappings[strVal] !== undefined) return defaultMappings[strVal];
-
-    // Try parsing as number
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false,
-  }) as any[][];
-
-  const items: any[] = [];
-  if (data.length < 2) {
-    console.log(`[GenericPivot] File has less than 2 rows, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Size pattern to identify size columns in headers
-  const sizePattern =
-    /^(000|00|OOO|OO|0|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30|32|16W|18W|20W|22W|24W|26W|28W|30W|32W|XS|S|SM|M|MD|L|LG|XL|XXL|UNIT|- None -)$/i;
-
-  // Find header row (row with 5+ size columns)
-  let headerRowIdx = 0;
-  for (let i = 0; i < Math.min(5, data.length); i++) {
-    const row = data[i];
-    const sizeCount = row.filter((c: any) =>
-      sizePattern.test(String(c ?? "").trim()),
-    ).length;
-    if (sizeCount >= 5) {
-      headerRowIdx = i;
-      break;
-    }
-  }
-
-  const headerRow = data[headerRowIdx];
-  const headers = headerRow.map((h: any) => String(h ?? "").trim());
-  const headersUpper = headers.map((h: string) => h.toUpperCase());
-
-  console.log(`[GenericPivot] Header row index: ${headerRowIdx}`);
-  console.log(
-    `[GenericPivot] Headers: ${headersUpper.slice(0, 10).join(", ")}...`,
-  );
-
-  // Find key columns
-  const styleIdx = headersUpper.findIndex(
-    (h: string) => h.includes("STYLE") || h === "CODE" || h === "ITEM",
-  );
-  const colorIdx = headersUpper.findIndex(
-    (h: string) => h.includes("COLOR") && !h.includes("CODE"),
-  );
-  const dateIdx = headersUpper.findIndex(
-    (h: string) =>
-      h.includes("DATE") ||
-      h.includes("ETA") ||
-      h.includes("DUE") ||
-      h.includes("AVAILABLE"),
-  );
-
-  // Find discontinued/status column
-  let statusIdx = headersUpper.findIndex(
-    (h: string) =>
-      h.includes("STATUS") ||
-      h.includes("DISCONTINUED") ||
-      h.includes("ACTIVE"),
-  );
-
-  // Get discontinued keywords
-  const configKeywords =
-    (discontinuedConfig as any)?.keywords || discontinuedConfig?.values;
-  const discontinuedKeywords = configKeywords?.length
-    ? configKeywords.map((v: string) => v.toLowerCase().trim())
-    : ["discontinued", "disc", "inactive", "d", "no", "n", "false", "0", "cl"];
-
-  // Find size columns
-  const sizeColumns: { index: number; size: string }[] = [];
-  for (let i = 0; i < headers.length; i++) {
-    const h = String(headerRow[i] ?? "").trim();
-    if (sizePattern.test(h)) {
-      let normalizedSize = h;
-      if (h.toUpperCase() === "OOO") normalizedSize = "000";
-      else if (h.toUpperCase() === "OO") normalizedSize = "00";
-      sizeColumns.push({ index: i, size: normalizedSize });
-    }
-  }
-
-  console.log(
-    `[GenericPivot] Style col: ${styleIdx}, Color col: ${colorIdx}, Date col: ${dateIdx}`,
-  );
-  console.log(
-    `[GenericPivot] Found ${sizeColumns.length} size columns: ${sizeColumns.map((s) => s.size).join(", ")}`,
-  );
-
-  if (styleIdx === -1 || sizeColumns.length === 0) {
-    console.log(
-      `[GenericPivot] Missing required columns (style=${styleIdx}, sizes=${sizeColumns.length})`,
-    );
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Parse data rows
-  for (let rowIdx = headerRowIdx + 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const style = String(row[styleIdx] ?? "").trim();
-    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
-    if (!style) continue;
-
-    // Parse ship date
-    let shipDate: string | undefined;
-    if (dateIdx >= 0) {
-      const dateVal = row[dateIdx];
-      if (dateVal && typeof dateVal === "number" && dateVal > 40000) {
-        // Excel serial date
-        const excelEpoch = new Date(1899, 11, 30);
-        const jsDate = new Date(
-          excelEpoch.getTime() + dateVal * 24 * 60 * 60 * 1000,
-        );
-        shipDate = jsDate.toISOString().split("T")[0];
-      } else if (dateVal && typeof dateVal === "string") {
-        const dateStr = String(dateVal).trim();
-        if (dateStr && dateStr !== "0") {
-          shipDate = dateStr;
-        }
-      }
-    }
-
-    // Check discontinued status
-    let isDiscontinued = false;
-    if (statusIdx >= 0) {
-      const statusVal = String(row[statusIdx] ?? "")
-        .toLowerCase()
-        .trim();
-      isDiscontinued = discontinuedKeywords.some(
-        (k) =>
-          statusVal === k || statusVal.includes(k) || statusVal.startsWith(k),
-      );
-    }
-
-    // Parse stock for each size column
-    for (const sc of sizeColumns) {
-      const stockVal = row[sc.index];
-      let stock = 0;
-
-      if (stockVal !== null && stockVal !== undefined && stockVal !== "") {
-        if (typeof stockVal === "number") {
-          stock = Math.max(0, Math.floor(stockVal));
-        } else {
-          const strVal = String(stockVal).trim();
-          const parsed = parseInt(strVal, 10);
-          stock = isNaN(parsed) ? 0 : Math.max(0, parsed);
-        }
-      }
-
-      // NOTE: Size limits are NOT applied here because prefix override patterns
-      // are designed to match PREFIXED styles (e.g., "Jovani 12345"), not RAW styles.
-      // Size filtering happens in applyVariantRules AFTER the style has been prefixed.
-
-      // FIX: Always push ALL items regardless of stock (matching Tarik Ediz behavior)
-      // This ensures size expansion can work with existing 0-stock items
-      // Zero-stock filtering happens later in applyVariantRules if enabled
-      const sku = `${style}-${color || "DEFAULT"}-${sc.size}`
-        .replace(/\//g, "-")
-        .replace(/\s+/g, "-")
-        .replace(/-+/g, "-");
-
-      items.push({
-        sku,
-        style,
-        color: color || "DEFAULT",
-        size: sc.size,
-        stock,
-        shipDate,
-        discontinued: isDiscontinued,
-        // FIX: Add flags based on shipDate for consistency
-        hasFutureStock: shipDate ? true : false,
-        preserveZeroStock: shipDate && stock === 0 ? true : false,
-      });
-    }
-  }
-
-  // NOTE: Size limits are applied in applyVariantRules with the PREFIXED style
-  // (not here with the RAW style) to ensure prefix override patterns work correctly
-  const sizeFiltered = 0; // Size filtering happens later in applyVariantRules
-
-  console.log(
-    `[GenericPivot] Parsed ${items.length} items from ${data.length - headerRowIdx - 1} data rows`,
+  return (
+    detectFormatFromBuffer(buffer, undefined, undefined, {
+      candidates: ["ots_format"],
+    }) !== null
   );
-
-  // Build output rows
-  const outputHeaders = [
-    "sku",
-    "style",
-    "color",
-    "size",
-    "stock",
-    "shipDate",
-    "discontinued",
-  ];
-  const outputRows = items.map((item) => [
-    item.sku,
-    item.style,
-    item.color,
-    item.size,
-    item.stock,
-    item.shipDate || "",
-    item.discontinued ? "Yes" : "No",
-  ]);
-
-  return {
-    headers: outputHeaders,
-    rows: outputRows,
-    items,
-    sizeFiltered,
-  };
-}
-
-// ============================================================
-// GRN-INVOICE FORMAT PARSER
-// For files with "Code", "Color" columns and size columns as headers (000, 00, 0, 02, 04, etc.)
-// ============================================================
-
-export function parseGRNInvoiceFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-  dataSourceName?: string,
-  stockValueConfig?: {
-    textMappings?:
-      | Array<{ text: string; value: number }>
-      | Record<string, number>;
-  },
-): { headers: string[]; rows: any[][]; items: any[] } {
-  console.log(
-    `[GRNInvoice] Parsing GRN-INVOICE format file for ${dataSourceName || "unknown"}`,
-  );
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  fixSheetRange(sheet);
-  const rawData = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-  }) as any[][];
-
-  const items: any[] = [];
-  if (rawData.length < 3) {
-    console.log(`[GRNInvoice] File has less than 3 rows, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Helper function to parse stock values with text mapping support
-  const parseStock = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    const defaultMappings: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "–": 0,
-      "-": 0,
-      "n/a": 0,
-      "": 0,
-    };
-
-    // Check user-configured text mappings first
-    const textMappings = stockValueConfig?.textMappings;
-    if (textMappings) {
-      if (Array.isArray(textMappings)) {
-        for (const mapping of textMappings) {
-          if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-            return mapping.value;
-          }
-        }
-      } else if (
-        (textMappings as Record<string, number>)[strVal] !== undefined
-      ) {
-        return (textMappings as Record<string, number>)[strVal];
-      }
-    }
-
-    if (defaultMappings[strVal] !== undefined) return defaultMappings[strVal];
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  // Find header row containing "code" and "color"
-  let headerRowIdx = 0;
-  for (let i = 0; i < Math.min(5, rawData.length); i++) {
-    const row = rawData[i];
-    const rowStr = row.map((c: any) => String(c || "").toLowerCase()).join("|");
-    if (rowStr.includes("code") && rowStr.includes("color")) {
-      headerRowIdx = i;
-      break;
-    }
-  }
-
-  const data = rawData.slice(headerRowIdx);
-  if (data.length < 2) {
-    console.log(`[GRNInvoice] No data rows after header, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  const headerRow = data[0];
-  const headersLower = headerRow.map((h: any) =>
-    String(h ?? "")
-      .toLowerCase()
-      .trim(),
-  );
-
-  const codeIdx = headersLower.findIndex((h: string) => h === "code");
-  const colorIdx = headersLower.findIndex((h: string) => h === "color");
-
-  // Detect size columns by pattern (000, 00, 0, 02, 04, 06, 08, 10, 12, 14, 16, 18, 20, 22, 24)
-  const sizePattern = /^(000|00|0|02|04|06|08|10|12|14|16|18|20|22|24)$/i;
-  const sizeColumns: { index: number; size: string }[] = [];
-
-  for (let i = 0; i < headerRow.length; i++) {
-    const h = String(headerRow[i] ?? "").trim();
-    if (sizePattern.test(h)) {
-      let normalizedSize = h;
-      // Normalize leading-zero sizes: "02" → "2", "04" → "4", etc.
-      if (/^0\d$/.test(h)) normalizedSize = h.replace(/^0/, "");
-      sizeColumns.push({ index: i, size: normalizedSize });
-    }
-  }
-
-  console.log(
-    `[GRNInvoice] Found columns: code=${codeIdx}, color=${colorIdx}, sizeColumns=${sizeColumns.length}`,
-  );
-
-  if (codeIdx === -1 || sizeColumns.length === 0) {
-    console.log(`[GRNInvoice] Missing required columns (code or size columns)`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Parse data rows
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const code = String(row[codeIdx] ?? "").trim();
-    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
-    if (!code) continue;
-
-    for (const sc of sizeColumns) {
-      const stock = parseStock(row[sc.index]);
-      if (stock > 0) {
-        const style = applyCleaningToValue(code, cleaningConfig, "style");
-        const sku = `${style}-${color || "DEFAULT"}-${sc.size}`
-          .replace(/\//g, "-")
-          .replace(/\s+/g, "-")
-          .replace(/-+/g, "-");
-
-        items.push({
-          sku,
-          style,
-          color: color || "DEFAULT",
-          size: sc.size,
-          stock,
-          // FIX: Add flags for consistency (no shipDate in GRN format)
-          hasFutureStock: false,
-          preserveZeroStock: false,
-        });
-      }
-    }
-  }
-
-  console.log(
-    `[GRNInvoice] Parsed ${items.length} items from ${data.length - 1} data rows`,
-  );
-
-  // Build output rows
-  const outputHeaders = ["sku", "style", "color", "size", "stock"];
-  const outputRows = items.map((item) => [
-    item.sku,
-    item.style,
-    item.color,
-    item.size,
-    item.stock,
-  ]);
-
-  return {
-    headers: outputHeaders,
-    rows: outputRows,
-    items,
-  };
-}
-
-// ============================================================
-// PR DATE HEADERS FORMAT PARSER
-// For files with Excel serial date numbers as column headers (4xxxx pattern)
-// ============================================================
-
-function excelSerialToDateStr(serial: number): string {
-  if (!serial || serial < 40000 || serial > 55000) return "";
-  const excelEpoch = new Date(1899, 11, 30);
-  const jsDate = new Date(excelEpoch.getTime() + serial * 24 * 60 * 60 * 1000);
-  return jsDate.toISOString().split("T")[0];
-}
-
-export function parsePRDateHeaderFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-  dataSourceName?: string,
-  stockValueConfig?: {
-    textMappings?:
-      | Array<{ text: string; value: number }>
-      | Record<string, number>;
-  },
-): { headers: string[]; rows: any[][]; items: any[] } {
-  console.log(
-    `[PRDateHeaders] Parsing PR date headers format file for ${dataSourceName || "unknown"}`,
-  );
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false,
-  }) as any[][];
-
-  const items: any[] = [];
-  if (data.length < 2) {
-    console.log(`[PRDateHeaders] File has less than 2 rows, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Helper function to parse stock values with text mapping support
-  const parseStock = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    const defaultMappings: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "–": 0,
-      "-": 0,
-      "n/a": 0,
-      "": 0,
-    };
-
-    const textMappings = stockValueConfig?.textMappings;
-    if (textMappings) {
-      if (Array.isArray(textMappings)) {
-        for (const mapping of textMappings) {
-          if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-            return mapping.value;
-          }
-        }
-      } else if (
-        (textMappings as Record<string, number>)[strVal] !== undefined
-      ) {
-        return (textMappings as Record<string, number>)[strVal];
-      }
-    }
-
-    if (defaultMappings[strVal] !== undefined) return defaultMappings[strVal];
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  const headerRow = data[0];
-  const headers = headerRow.map((h: any) => String(h ?? "").trim());
-
-  // Log actual headers for debugging date column detection
-  console.log(
-    `[PRDateHeaders] Raw headers (first 20): ${headers.slice(0, 20).join(" | ")}`,
-  );
-
-  // Find style/product column
-  const styleIdx = headers.findIndex(
-    (h: string) =>
-      h.toLowerCase().includes("product") || h.toLowerCase().includes("code"),
-  );
-  // Find "available" column for current stock
-  const availableIdx = headers.findIndex((h: string) =>
-    h.toLowerCase().includes("available"),
-  );
-
-  // Find date columns - supports both Excel serial numbers (4xxxx) and date strings (M/D/YYYY)
-  const dateColumns: { index: number; date: string }[] = [];
-  for (let i = 0; i < headers.length; i++) {
-    const h = headers[i];
-    if (/^4\d{4}$/.test(h)) {
-      // Excel serial number format (e.g., 46066)
-      const dateStr = excelSerialToDateStr(parseInt(h, 10));
-      if (dateStr) dateColumns.push({ index: i, date: dateStr });
-    } else if (/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(h)) {
-      // Date string format (e.g., "2/10/2026", "12/3/2025")
-      const parsed = new Date(h);
-      if (!isNaN(parsed.getTime())) {
-        const dateStr = parsed.toISOString().split("T")[0];
-        dateColumns.push({ index: i, date: dateStr });
-      }
-    }
-  }
-
-  console.log(
-    `[PRDateHeaders] Found columns: style=${styleIdx}, available=${availableIdx}, dateColumns=${dateColumns.length}`,
-  );
-
-  if (styleIdx === -1) {
-    console.log(`[PRDateHeaders] Missing required style/product column`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Parse data rows
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 2) continue;
-
-    const rawStyle = String(row[styleIdx] ?? "").trim();
-    if (!rawStyle) continue;
-
-    const style = applyCleaningToValue(rawStyle, cleaningConfig, "style");
-
-    // Extract size from style if it contains a dash (e.g., "PR-1234-8" → size "8")
-    let extractedSize = "";
-    const parts = rawStyle.split("-");
-    if (parts.length >= 2) {
-      const lastPart = parts[parts.length - 1];
-      if (/^\d+$/.test(lastPart)) extractedSize = lastPart;
-    }
-
-    // Current stock from "available" column
-    const currentStock = availableIdx >= 0 ? parseStock(row[availableIdx]) : 0;
-
-    if (currentStock > 0) {
-      const size = extractedSize || "ONE SIZE";
-      const sku = `${style}-DEFAULT-${size}`
-        .replace(/\//g, "-")
-        .replace(/\s+/g, "-")
-        .replace(/-+/g, "-");
-
-      items.push({
-        sku,
-        style,
-        color: "DEFAULT",
-        size,
-        stock: currentStock,
-        // FIX: Add flags for consistency (no shipDate for current stock)
-        hasFutureStock: false,
-        preserveZeroStock: false,
-      });
-    }
-
-    // Future/incoming stock from date columns
-    for (const dc of dateColumns) {
-      const futureStock = parseStock(row[dc.index]);
-      if (futureStock > 0) {
-        const size = extractedSize || "ONE SIZE";
-        const sku = `${style}-DEFAULT-${size}`
-          .replace(/\//g, "-")
-          .replace(/\s+/g, "-")
-          .replace(/-+/g, "-");
-
-        items.push({
-          sku,
-          style,
-          color: "DEFAULT",
-          size,
-          stock: 0,
-          incomingStock: futureStock,
-          shipDate: dc.date,
-          // FIX: Add flags for future stock items
-          hasFutureStock: true,
-          preserveZeroStock: true,
-        });
-      }
-    }
-  }
-
-  console.log(
-    `[PRDateHeaders] Parsed ${items.length} items from ${data.length - 1} data rows`,
-  );
-
-  // Build output rows
-  const outputHeaders = [
-    "sku",
-    "style",
-    "color",
-    "size",
-    "stock",
-    "incomingStock",
-    "shipDate",
-  ];
-  const outputRows = items.map((item) => [
-    item.sku,
-    item.style,
-    item.color,
-    item.size,
-    item.stock,
-    item.incomingStock || 0,
-    item.shipDate || "",
-  ]);
-
-  return {
-    headers: outputHeaders,
-    rows: outputRows,
-    items,
-  };
-}
-
-// ============================================================
-// STORE MULTIBRAND FORMAT PARSER
-// For store inventory files with product name, style, color, size, stock columns
-// ============================================================
-
-export function parseStoreMultibrandFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-  dataSourceName?: string,
-  stockValueConfig?: {
-    textMappings?:
-      | Array<{ text: string; value: number }>
-      | Record<string, number>;
-  },
-): { headers: string[]; rows: any[][]; items: any[] } {
-  console.log(
-    `[StoreMultibrand] Parsing store multibrand format file for ${dataSourceName || "unknown"}`,
-  );
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheet = workbook.Sheets[workbook.SheetNames[0]];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-  }) as any[][];
-
-  const items: any[] = [];
-  if (data.length < 2) {
-    console.log(`[StoreMultibrand] File has less than 2 rows, returning empty`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Helper function to parse stock values with text mapping support
-  const parseStock = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    const defaultMappings: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "–": 0,
-      "-": 0,
-      "n/a": 0,
-      "": 0,
-    };
-
-    const textMappings = stockValueConfig?.textMappings;
-    if (textMappings) {
-      if (Array.isArray(textMappings)) {
-        for (const mapping of textMappings) {
-          if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-            return mapping.value;
-          }
-        }
-      } else if (
-        (textMappings as Record<string, number>)[strVal] !== undefined
-      ) {
-        return (textMappings as Record<string, number>)[strVal];
-      }
-    }
-
-    if (defaultMappings[strVal] !== undefined) return defaultMappings[strVal];
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  const headerRow = data[0];
-  const headersRaw = headerRow.map((h: any) => String(h ?? "").trim());
-  const headersLower = headersRaw.map((h: string) => h.toLowerCase());
-
-  // Find column indices
-  const productNameIdx = headersLower.findIndex(
-    (h: string) => h.includes("product") && h.includes("name"),
-  );
-  const styleIdx = headersLower.findIndex((h: string) => h === "style");
-  const colorIdx = headersLower.findIndex((h: string) => h === "color");
-  const sizeIdx = headersLower.findIndex((h: string) => h === "size");
-  const stockIdx = headersLower.findIndex(
-    (h: string) => h === "stock" || h.includes("qty"),
-  );
-  const priceIdx = headersLower.findIndex((h: string) => h === "price");
-
-  console.log(
-    `[StoreMultibrand] Found columns: productName=${productNameIdx}, style=${styleIdx}, color=${colorIdx}, size=${sizeIdx}, stock=${stockIdx}, price=${priceIdx}`,
-  );
-
-  if (styleIdx === -1) {
-    console.log(`[StoreMultibrand] Missing required style column`);
-    return { headers: [], rows: [], items: [] };
-  }
-
-  // Known brands for auto-detection from product name
-  const knownBrands = [
-    "Jovani",
-    "Sherri Hill",
-    "Mac Duggal",
-    "MacDuggal",
-    "Terani",
-    "Tarik Ediz",
-    "Feriani",
-    "Gia Franco",
-    "Alyce",
-    "Portia",
-    "Mon Cheri",
-    "Morilee",
-    "Jadore",
-    "Lara",
-    "Johnathan Kayne",
-    "Rachel Allan",
-    "Colors Dress",
-    "Colette",
-    "Marsoni",
-    "Cameron Blake",
-    "La Femme",
-    "MGNY",
-    "Nicoletta",
-    "Montage",
-    "Tony Bowls",
-  ];
-
-  // Parse data rows
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const rawStyle = String(row[styleIdx] ?? "").trim();
-    if (!rawStyle) continue;
-
-    const style = applyCleaningToValue(rawStyle, cleaningConfig, "style");
-    const productName =
-      productNameIdx >= 0 ? String(row[productNameIdx] ?? "").trim() : "";
-    const color = colorIdx >= 0 ? String(row[colorIdx] ?? "").trim() : "";
-    const size = sizeIdx >= 0 ? String(row[sizeIdx] ?? "").trim() : "ONE SIZE";
-    const stock = stockIdx >= 0 ? parseStock(row[stockIdx]) : 0;
-    const price =
-      priceIdx >= 0
-        ? parseFloat(String(row[priceIdx] || "0")) || undefined
-        : undefined;
-
-    // Detect brand from product name
-    let brand: string | undefined;
-    if (productName) {
-      const nameLower = productName.toLowerCase();
-      for (const b of knownBrands) {
-        if (nameLower.includes(b.toLowerCase())) {
-          brand = b;
-          break;
-        }
-      }
-    }
-
-    const sku = `${style}-${color || "DEFAULT"}-${size}`
-      .replace(/\//g, "-")
-      .replace(/\s+/g, "-")
-      .replace(/-+/g, "-");
-
-    items.push({
-      sku,
-      style,
-      color: color || "DEFAULT",
-      size,
-      stock,
-      price,
-      brand,
-      // FIX: Add flags for consistency (no shipDate in store format)
-      hasFutureStock: false,
-      preserveZeroStock: false,
-    });
-  }
-
-  console.log(
-    `[StoreMultibrand] Parsed ${items.length} items from ${data.length - 1} data rows`,
-  );
-
-  // Build output rows
-  const outputHeaders = [
-    "sku",
-    "style",
-    "color",
-    "size",
-    "stock",
-    "price",
-    "brand",
-  ];
-  const outputRows = items.map((item) => [
-    item.sku,
-    item.style,
-    item.color,
-    item.size,
-    item.stock,
-    item.price || "",
-    item.brand || "",
-  ]);
-
-  return {
-    headers: outputHeaders,
-    rows: outputRows,
-    items,
-  };
-}
-
-// ============================================================
-// TARIK EDIZ FORMAT PARSER
-// Format: Pivoted table with sizes as columns, style headers, color/stock data rows
-// ============================================================
-function parseTarikEdizFormat(
-  buffer: Buffer,
-  skipValidation?: boolean,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    raw: false,
-  }) as any[][]; // CRITICAL FIX: Consistent raw: false
-
-  if (data.length === 0) return null;
-
-  // Detect Tarik Ediz format: First row contains "Up-to-Date Product Inventory Report"
-  // or company name contains "EDİZ" or "EDIZ"
-  const firstRowText = String(data[0]?.[0] || "").toLowerCase();
-  const secondRowText = String(data[1]?.[0] || "").toLowerCase();
-
-  const isTarikEdizFormat =
-    firstRowText.includes("up-to-date product inventory") ||
-    firstRowText.includes("inventory report") ||
-    secondRowText.includes("ediz") ||
-    secondRowText.includes("edi\u0307z");
-
-  if (!skipValidation && !isTarikEdizFormat) return null;
-
-  console.log("Detected Tarik Ediz pivoted format - applying special parsing");
-
-  // Parse the pivoted format
-  const masterData: any[][] = [];
-  const headers = ["style", "color", "size", "stock", "shipDate"];
-
-  let currentStyle = "";
-  let sizeHeaders: { index: number; size: string }[] = [];
-
-  // Helper to detect if first cell is a date (DD/MM/YYYY or similar)
-  const isDateString = (val: string): boolean => {
-    // Match patterns like 24/03/2026, 2026-03-24, etc.
-    return (
-      /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(val) ||
-      /^\d{4}-\d{2}-\d{2}$/.test(val) ||
-      /^\d{1,2}-\d{1,2}-\d{4}$/.test(val)
-    );
-  };
-
-  // Helper to parse date string to ISO format
-  const parseDateToISO = (val: string): string | null => {
-    // DD/MM/YYYY format (European)
-    const ddmmyyyy = val.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (ddmmyyyy) {
-      const [, day, month, year] = ddmmyyyy;
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-    // Already ISO format
-    if (/^\d{4}-\d{2}-\d{2}$/.test(val)) {
-      return val;
-    }
-    return null;
-  };
-
-  for (let i = 0; i < data.length; i++) {
-    const row = data[i];
-    if (!row || row.length === 0) continue;
-
-    const firstCell = String(row[0] || "").trim();
-
-    // Product header rows have sizes like '0', '2', '4', etc. starting around column 13
-    // and have a product name in column 7
-    if (row[13] && String(row[13]).match(/^\d+$/) && row[7]) {
-      currentStyle = firstCell;
-
-      // Extract size headers from this row
-      sizeHeaders = [];
-      for (let j = 13; j < row.length - 1; j++) {
-        if (row[j] !== null && row[j] !== undefined && row[j] !== "") {
-          sizeHeaders.push({ index: j, size: String(row[j]) });
-        }
-      }
-      continue;
-    }
-
-    // Data rows can start with:
-    // - 'D' for current inventory
-    // - A date string (e.g., '24/03/2026') for future ship dates
-    // Both have color in column 11
-    const isCurrentStock = firstCell === "D";
-    const isFutureShipDate = isDateString(firstCell);
-
-    if ((isCurrentStock || isFutureShipDate) && row[11] && currentStyle) {
-      const color = String(row[11]).trim();
-      const shipDate = isFutureShipDate ? parseDateToISO(firstCell) : null;
-
-      // Extract stock values for each size
-      for (const sh of sizeHeaders) {
-        const stock = row[sh.index];
-        const stockNum =
-          stock !== null && stock !== undefined && !isNaN(Number(stock))
-            ? Number(stock)
-            : 0;
-
-        // CRITICAL FIX: Include ALL items, not just stock > 0
-        // Items with future ship dates should be included even with 0 current stock
-        // The futureStockConfig will handle preserving these based on ship date
-        if (stockNum > 0 || shipDate) {
-          masterData.push([currentStyle, color, sh.size, stockNum, shipDate]);
-        }
-      }
-    }
-  }
-
-  console.log(
-    `[TarikEdiz] Parsed ${masterData.length} items (including future ship date items with 0 stock)`,
-  );
-
-  // Convert to items format
-  const items = masterData.map((row) => ({
-    sku: row[0],
-    style: row[0],
-    color: row[1],
-    size: row[2],
-    stock: row[3],
-    shipDate: row[4] || null,
-    // CRITICAL: Set hasFutureStock flag for items with future ship dates
-    // This prevents them from being filtered by stock threshold
-    hasFutureStock: row[4] ? true : false,
-    preserveZeroStock: row[4] && row[3] === 0 ? true : false,
-    rawData: {
-      style: row[0],
-      color: row[1],
-      size: row[2],
-      stock: row[3],
-      shipDate: row[4],
-    },
-  }));
-
-  return {
-    headers,
-    rows: masterData,
-    items,
-  };
-}
-
-// ============================================================
-// JOVANI FORMAT PARSER
-// Format: Style rows have style/price, color rows have color/stock values
-// Row 1: [null, "00", 0, 2, 4, ...] - size headers
-// Style row: ["#02861", 175, ...] - style in col 0, price in col 1
-// Color row: ["Taupe-Off-White", 1, 1, 1, ...] - color in col 0, stock values
-// ============================================================
-function parseJovaniFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  // Check if Jovani format is explicitly enabled
-  if (cleaningConfig?.pivotedFormat?.vendor !== "jovani") return null;
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    raw: false,
-  }) as any[][]; // CRITICAL FIX: Consistent raw: false
-
-  if (data.length === 0) return null;
-
-  console.log("Parsing Jovani pivoted format");
-
-  // Row 0 contains size headers starting at column 1
-  // Format: [null, "00", 0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20, 22, 24, "LOCATION"]
-  const headerRow = data[0];
-  const sizeHeaders: { index: number; size: string }[] = [];
-
-  for (let i = 1; i < headerRow.length; i++) {
-    const cell = headerRow[i];
-    const cellStr = String(cell ?? "")
-      .trim()
-      .toUpperCase();
-    // Skip non-size columns like "LOCATION"
-    if (cellStr === "LOCATION" || cellStr === "") continue;
-    // Size values are typically numbers or "00"
-    sizeHeaders.push({ index: i, size: String(cell) });
-  }
-
-  console.log(`Found ${sizeHeaders.length} size columns in Jovani format`);
-
-  if (sizeHeaders.length === 0) return null;
-
-  // Parse data rows
-  const masterData: any[][] = [];
-  const outputHeaders = ["style", "color", "size", "stock", "price"];
-
-  let currentStyle = "";
-  let currentPrice: number | null = null;
-
-  // Invalid color values to filter out (headers, totals, etc.)
-  const invalidColorPatterns =
-    /^(SIZE|SIZES|TOTAL|SUBTOTAL|SUM|COUNT|QTY|QUANTITY|STOCK|INVENTORY|DESCRIPTION|DESC|COLOR|COLOURS?|STYLE|STYLES?|PRICE|COST|LOCATION|WAREHOUSE|NOTES?|COMMENTS?)$/i;
-
-  // Helper to check if row has stock values in size columns
-  const hasStockValues = (row: any[]): boolean => {
-    for (const sh of sizeHeaders) {
-      const val = row[sh.index];
-      if (
-        val !== null &&
-        val !== undefined &&
-        val !== "" &&
-        !isNaN(Number(val)) &&
-        Number(val) > 0
-      ) {
-        return true;
-      }
-    }
-    return false;
-  };
-
-  // Helper to detect if a row is a style row
-  // Style rows: col 0 matches style pattern (starts with #, JVN, JB, D, AL or is numeric)
-  // Option 1: col 1 has a price > 10
-  // Option 2: No stock values in size columns (style without price in sale files)
-  const isStyleRow = (row: any[]): boolean => {
-    if (!row || row.length < 2) return false;
-    const col0 = String(row[0] ?? "").trim();
-    const col1 = row[1];
-
-    // Style patterns: #02861, JVN04759, JB38224, D2020, AL12345, 37001, 1012, etc.
-    // - Pure numbers (4-6 digits)
-    // - # followed by 4-6 digits
-    // - JVN/JB/AL followed by 3-6 digits
-    // - D followed by 3-5 digits
-    const isStylePattern =
-      /^#?\d{4,6}$/.test(col0) ||
-      /^(?:JVN|JB|AL)\d{3,6}$/i.test(col0) ||
-      /^D\d{3,5}$/i.test(col0);
-    if (!isStylePattern) return false;
-
-    // Price can be number or string - parse it
-    let priceValue = 0;
-    if (typeof col1 === "number") {
-      priceValue = col1;
-    } else if (col1 !== null && col1 !== undefined) {
-      const parsed = parseFloat(String(col1).replace(/[$,]/g, ""));
-      if (!isNaN(parsed)) priceValue = parsed;
-    }
-
-    // If price > 10, definitely a style row
-    if (priceValue > 10) return true;
-
-    // If style pattern but no price, check if it has stock values
-    // Style rows without prices (sale files) won't have stock values
-    // Color rows have stock values in size columns
-    if (!hasStockValues(row)) {
-      return true; // Style pattern + no stock = style row without price
-    }
-
-    return false;
-  };
-
-  // Helper to detect if a row is a color row (has stock values)
-  const isColorRow = (row: any[]): boolean => {
-    if (!row || row.length < 2) return false;
-    const col0 = String(row[0] ?? "").trim();
-
-    // Color row has a non-empty text in col 0 that's not a style pattern
-    // Exclude: #12345, JVN/JB/AL + digits, D + digits, pure 4-6 digit numbers
-    if (
-      !col0 ||
-      /^#?\d{4,6}$/.test(col0) ||
-      /^(?:JVN|JB|AL)\d{3,6}$/i.test(col0) ||
-      /^D\d{3,5}$/i.test(col0)
-    )
-      return false;
-
-    // Filter out invalid color values (headers, totals, etc.)
-    if (invalidColorPatterns.test(col0)) return false;
-
-    // Colors must have at least 2 letters and no digits
-    // This prevents numeric values from slipping through as colors
-    if (!/[a-zA-Z]{2,}/.test(col0) || /\d/.test(col0)) return false;
-
-    // And has numeric values in stock columns
-    let hasStock = false;
-    for (const sh of sizeHeaders) {
-      const val = row[sh.index];
-      if (
-        typeof val === "number" ||
-        (val !== null && val !== undefined && !isNaN(Number(val)))
-      ) {
-        hasStock = true;
-        break;
-      }
-    }
-    return hasStock;
-  };
-
-  // Debug: track styles and colors for troubleshooting
-  const stylesFound: string[] = [];
-  const colorsByStyle: Record<string, string[]> = {};
-
-  for (let i = 1; i < data.length; i++) {
-    const row = data[i];
-    if (!row || row.length === 0) continue;
-
-    const col0 = String(row[0] ?? "").trim();
-
-    if (isStyleRow(row)) {
-      // Update current style and price
-      currentStyle = col0;
-      currentPrice =
-        typeof row[1] === "number"
-          ? row[1]
-          : parseFloat(String(row[1])) || null;
-      stylesFound.push(`${currentStyle} (price: ${currentPrice})`);
-      if (!colorsByStyle[currentStyle]) colorsByStyle[currentStyle] = [];
-      continue;
-    }
-
-    if (isColorRow(row) && currentStyle) {
-      const color = col0;
-
-      // Track colors per style for debugging
-      if (!colorsByStyle[currentStyle]) colorsByStyle[currentStyle] = [];
-      if (!colorsByStyle[currentStyle].includes(color)) {
-        colorsByStyle[currentStyle].push(color);
-      }
-
-      // Extract stock values for each size
-      for (const sh of sizeHeaders) {
-        const stock = row[sh.index];
-        if (stock !== null && stock !== undefined) {
-          const stockNum =
-            typeof stock === "number" ? stock : parseFloat(String(stock));
-          if (!isNaN(stockNum)) {
-            // Include all items (even zero stock) - filtering happens later
-            masterData.push([
-              currentStyle,
-              color,
-              sh.size,
-              stockNum,
-              currentPrice,
-            ]);
-          }
-        }
-      }
-    }
-  }
-
-  // Log any styles that have suspicious color assignments (for debugging)
-  const targetStyles = ["37001", "#37001", "38849", "#38849"];
-  for (const style of targetStyles) {
-    if (colorsByStyle[style]) {
-      console.log(
-        `[Jovani Debug] Style ${style} has colors: ${colorsByStyle[style].join(", ")}`,
-      );
-    }
-  }
-
-  console.log(`Parsed ${masterData.length} items from Jovani pivoted format`);
-
-  // Convert to items format
-  const items = masterData.map((row) => ({
-    sku: row[0],
-    style: applyCleaningToValue(String(row[0] || ""), cleaningConfig, "style"),
-    color: row[1],
-    size: row[2],
-    stock: row[3],
-    price: row[4],
-    rawData: {
-      style: row[0],
-      color: row[1],
-      size: row[2],
-      stock: row[3],
-      price: row[4],
-    },
-  }));
-
-  return {
-    headers: outputHeaders,
-    rows: masterData,
-    items,
-  };
-}
-
-// ============================================================
-// SHERRI HILL FORMAT PARSER
-// Format: Style, Color, Custom, Special Date, Size1, Special Date, Size2, Special Date, ...
-// Stock values: "Yes", "Last Piece", "No" (text-based)
-// ============================================================
-function parseSherriHillFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-  }) as any[][];
-
-  if (data.length < 2) return null;
-
-  // Check if this is Sherri Hill format
-  const headerStr = data[0]
-    .map((h: any) => String(h || "").toUpperCase())
-    .join("|");
-  if (!headerStr.includes("SPECIAL DATE")) return null;
-
-  console.log(
-    `[SherriHill] Parsing Sherri Hill format with ${data.length} rows`,
-  );
-  console.log(
-    `[SherriHill] cleaningConfig.stockTextMappings:`,
-    JSON.stringify(cleaningConfig?.stockTextMappings),
-  );
-
-  const headerRow = data[0];
-  const sizePattern =
-    /^(OO0|OOO|OO|0|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30)$/i;
-  const sizeColumns: { index: number; size: string; dateIndex: number }[] = [];
-
-  // Find size columns (every other column starting from index 4)
-  for (let i = 4; i < headerRow.length; i += 2) {
-    const h = String(headerRow[i] ?? "").trim();
-    if (sizePattern.test(h)) {
-      let normalizedSize = h;
-      if (h.toUpperCase() === "OO0" || h.toUpperCase() === "OOO")
-        normalizedSize = "000";
-      else if (h.toUpperCase() === "OO") normalizedSize = "00";
-      sizeColumns.push({ index: i, size: normalizedSize, dateIndex: i + 1 });
-    }
-  }
-
-  if (sizeColumns.length === 0) {
-    console.log(`[SherriHill] No size columns found`);
-    return null;
-  }
-
-  console.log(`[SherriHill] Found ${sizeColumns.length} size columns`);
-
-  // Parse stock value with text mappings
-  const parseStockValue = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    // Check custom text mappings first
-    if (
-      cleaningConfig?.stockTextMappings &&
-      Array.isArray(cleaningConfig.stockTextMappings)
-    ) {
-      for (const mapping of cleaningConfig.stockTextMappings) {
-        if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-          return mapping.value;
-        }
-      }
-    }
-
-    // Default mappings
-    const defaults: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "&ndash;": 0,
-      "&ndash; ": 0,
-      "\u2013": 0,
-      "-": 0,
-      "n/a": 0,
-    };
-    if (defaults[strVal] !== undefined) return defaults[strVal];
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  const items: any[] = [];
-  const masterData: any[][] = [];
-
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const style = String(row[0] ?? "").trim();
-    const color = String(row[1] ?? "").trim();
-    if (!style || !color) continue;
-
-    for (const sc of sizeColumns) {
-      const stock = parseStockValue(row[sc.index]);
-      const dateVal = row[sc.dateIndex];
-      let shipDate: string | null = null;
-
-      // Parse ship date if present and not a dash
-      if (
-        dateVal &&
-        dateVal !== "&ndash;" &&
-        dateVal !== "&ndash; " &&
-        dateVal !== "\u2013"
-      ) {
-        if (typeof dateVal === "number" && dateVal > 40000) {
-          // Excel serial date
-          const date = new Date((dateVal - 25569) * 86400 * 1000);
-          shipDate = date.toISOString().split("T")[0];
-        } else if (
-          typeof dateVal === "string" &&
-          dateVal.match(/\d{4}-\d{2}-\d{2}/)
-        ) {
-          shipDate = dateVal;
-        } else if (typeof dateVal === "string" && dateVal.trim()) {
-          // Handle US-format dates (M/D/YYYY) from raw:false Excel parsing
-          const parsedDate = new Date(dateVal.trim());
-          if (!isNaN(parsedDate.getTime())) {
-            shipDate = parsedDate.toISOString().split("T")[0];
-          }
-        }
-      }
-
-      // Only add items with stock > 0 or future ship date
-      if (stock > 0 || shipDate) {
-        const item = {
-          style,
-          color,
-          size: sc.size,
-          stock,
-          shipDate,
-          hasFutureStock: shipDate ? true : false,
-          preserveZeroStock: shipDate && stock === 0 ? true : false,
-        };
-        items.push(item);
-        masterData.push([style, color, sc.size, stock, null, null, shipDate]);
-      }
-    }
-  }
-
-  console.log(
-    `[SherriHill] Parsed ${items.length} items with stock > 0 or future date`,
-  );
-
-  return {
-    headers: ["Style", "Color", "Size", "Stock", "Cost", "Price", "ShipDate"],
-    rows: masterData,
-    items,
-  };
-}
-
-// ============================================================
-// FERIANI / GIA FORMAT PARSER
-// Format: DELIVERY, STYLE, COLOR headers with sizes as columns
-// ============================================================
-function parseFerianiGiaFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Consistent raw: false for all parsers
-  }) as any[][];
-
-  if (data.length < 2) return null;
-
-  // Check if this is Feriani/GIA format: DELIVERY, STYLE, COLOR headers
-  const headerRow = data[0];
-  const headerStr = headerRow
-    .map((h: any) => String(h || "").toUpperCase())
-    .join("|");
-
-  if (
-    !headerStr.includes("DELIVERY") ||
-    !headerStr.includes("STYLE") ||
-    !headerStr.includes("COLOR")
-  ) {
-    return null;
-  }
-
-  console.log(
-    `[FerianiGia] Detected Feriani/GIA format with ${data.length} rows`,
-  );
-
-  // Find column indices
-  const deliveryIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "DELIVERY",
-  );
-  const styleIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "STYLE",
-  );
-  const colorIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "COLOR",
-  );
-
-  // Find size columns (numeric headers after COLOR)
-  const sizeColumns: { index: number; size: string }[] = [];
-  for (let i = colorIdx + 1; i < headerRow.length; i++) {
-    const h = headerRow[i];
-    if (h !== null && h !== undefined && h !== "") {
-      const hStr = String(h).trim();
-      // Check if it's a numeric size
-      if (/^\d+$/.test(hStr)) {
-        sizeColumns.push({ index: i, size: hStr });
-      }
-    }
-  }
-
-  if (sizeColumns.length === 0) {
-    console.log(`[FerianiGia] No size columns found`);
-    return null;
-  }
-
-  console.log(
-    `[FerianiGia] Found ${sizeColumns.length} size columns: ${sizeColumns.map((s) => s.size).join(", ")}`,
-  );
-
-  // Parse data
-  const items: any[] = [];
-  const masterData: any[][] = [];
-  const outputHeaders = ["style", "color", "size", "stock", "shipDate"];
-
-  let currentStyle = "";
-  let currentDelivery = "";
-
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const delivery = String(row[deliveryIdx] || "")
-      .trim()
-      .toUpperCase();
-    const style = String(row[styleIdx] || "").trim();
-    const color = String(row[colorIdx] || "").trim();
-
-    // Skip empty rows
-    if (!color || color === "") continue;
-
-    // Update current style if this row has one
-    if (style && style !== "") {
-      currentStyle = style;
-    }
-
-    // Update delivery status
-    if (delivery && delivery !== "") {
-      currentDelivery = delivery;
-    }
-
-    // Skip if no style yet
-    if (!currentStyle) continue;
-
-    // Parse ship date from delivery (could be "NOW", a date, etc.)
-    let shipDate: string | null = null;
-    if (
-      currentDelivery &&
-      currentDelivery !== "NOW" &&
-      currentDelivery !== ""
-    ) {
-      // Try to parse as date
-      const dateMatch = currentDelivery.match(
-        /(\d{1,2})[\/-](\d{1,2})[\/-](\d{2,4})/,
-      );
-      if (dateMatch) {
-        const [, month, day, year] = dateMatch;
-        const fullYear = year.length === 2 ? `20${year}` : year;
-        shipDate = `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-      }
-    }
-
-    // Extract stock for each size
-    for (const sc of sizeColumns) {
-      const stockVal = row[sc.index];
-      let stock = 0;
-
-      if (stockVal !== null && stockVal !== undefined && stockVal !== "") {
-        const parsed = parseInt(String(stockVal), 10);
-        if (!isNaN(parsed) && parsed > 0) {
-          stock = parsed;
-        }
-      }
-
-      // FIX: Always push ALL items regardless of stock (matching Tarik Ediz behavior)
-      // This ensures size expansion can work with existing 0-stock items
-      // Zero-stock filtering happens later in applyVariantRules if enabled
-      const item = {
-        style: currentStyle,
-        color: color,
-        size: sc.size,
-        stock: stock,
-        shipDate: shipDate,
-        sku: `${currentStyle}-${color}-${sc.size}`.replace(/\s+/g, "-"),
-        rawData: {
-          style: currentStyle,
-          color,
-          size: sc.size,
-          stock,
-          delivery: currentDelivery,
-        },
-      };
-      items.push(item);
-      masterData.push([currentStyle, color, sc.size, stock, shipDate]);
-    }
-  }
-
-  console.log(`[FerianiGia] Parsed ${items.length} items`);
-
-  return {
-    headers: outputHeaders,
-    rows: masterData,
-    items,
-  };
 }
@@ -319,9 +319,89 @@ export function formatColorName(color: string): string {
     .join("");
 }
 
+// Common vendor color abbreviations — offline fallback when AI color
+// suggestions are unavailable
+const COLOR_CODE_ABBREVIATIONS: Record<string, string> = {
+  blk: "Black",
+  bk: "Black",
+  wht: "White",
+  wh: "White",
+  ivy: "Ivory",
+  ivr: "Ivory",
+  iv: "Ivory",
+  nvy: "Navy",
+  nv: "Navy",
+  red: "Red",
+  rd: "Red",
+  blu: "Blue",
+  bl: "Blue",
+  grn: "Green",
+  gr: "Green",
+  gry: "Gray",
+  gy: "Gray",
+  pnk: "Pink",
+  pk: "Pink",
+  prp: "Purple",
+  pur: "Purple",
+  brn: "Brown",
+  bge: "Beige",
+  crm: "Cream",
+  slv: "Silver",
+  sil: "Silver",
+  gld: "Gold",
+  gd: "Gold",
+  brg: "Burgundy",
+  bur: "Burgundy",
+  wne: "Wine",
+  emr: "Emerald",
+  emd: "Emerald",
+  ryl: "Royal",
+  roy: "Royal",
+  trq: "Turquoise",
+  tq: "Turquoise",
+  lav: "Lavender",
+  lil: "Lilac",
+  crl: "Coral",
+  mnt: "Mint",
+  chp: "Champagne",
+  chm: "Champagne",
+  nud: "Nude",
+  ble: "Blush",
+  blsh: "Blush",
+  fch: "Fuchsia",
+  fus: "Fuchsia",
+  tel: "Teal",
+  org: "Orange",
+  yel: "Yellow",
+  ylw: "Yellow",
+  mlt: "Multi",
+  mul: "Multi",
+};
+
+/**
+ * Expand color codes from COLOR_CODE_ABBREVIATIONS, including combinations
+ * like "BLK/WHT" or "NVY-SLV". Same shape as suggestColorCorrections(); codes
+ * with any unknown part are left out.
+ */
+export function suggestColorCorrectionsOffline(
+  colorCodes: string[],
+): { badColor: string; goodColor: string; confidence: number }[] {
+  const suggestions: { badColor: string; goodColor: string; confidence: number }[] = [];
+  for (const code of colorCodes) {
+    const parts = code.trim().split(/([\/\-])/);
+    const expanded = parts.map((part) =>
+      /^[\/\-]$/.test(part) ? part : COLOR_CODE_ABBREVIATIONS[part.trim().toLowerCase()],
+    );
+    if (expanded.some((part) => part === undefined)) continue;
+    suggestions.push({ badColor: code, goodColor: expanded.join(""), confidence: 0.8 });
+  }
+  return suggestions;
+}
+
 export async function cleanInventoryData(
   items: any[],
   dataSourceName?: string,
+  options: { persistMappings?: boolean } = {},
 ): Promise<{
   items: any[];
   noSizeRemoved: number;
@@ -393,39 +473,44 @@ export async function cleanInventoryData(
   const aiSuggestedMappings = new Map<string, string>();
 
   if (unmappedColorCodes.size > 0) {
+    let suggestions: { badColor: string; goodColor: string; confidence: number }[] = [];
+    let offline = false;
     try {
-      const suggestions = await suggestColorCorrections(
+      suggestions = await suggestColorCorrections(
         Array.from(unmappedColorCodes),
       );
+    } catch (error) {
+      console.error("AI color suggestion failed, using offline abbreviations:", error);
+      suggestions = suggestColorCorrectionsOffline(Array.from(unmappedColorCodes));
+      offline = true;
+    }
 
-      const newMappings: { badColor: string; goodColor: string }[] = [];
-      for (const suggestion of suggestions) {
-        const normalizedBad = suggestion.badColor.trim().toLowerCase();
-        const normalizedGood = formatColorName(suggestion.goodColor);
+    const newMappings: { badColor: string; goodColor: string }[] = [];
+    for (const suggestion of suggestions) {
+      const normalizedBad = suggestion.badColor.trim().toLowerCase();
+      const normalizedGood = formatColorName(suggestion.goodColor);
 
-        if (
-          suggestion.confidence >= 0.7 &&
-          normalizedBad !== normalizedGood.toLowerCase() &&
-          !existingBadColors.has(normalizedBad)
-        ) {
-          colorMap.set(normalizedBad, normalizedGood);
-          aiSuggestedMappings.set(normalizedBad, normalizedGood);
-          newMappings.push({
-            badColor: suggestion.badColor.trim(),
-            goodColor: normalizedGood,
-          });
-        }
+      if (
+        suggestion.confidence >= 0.7 &&
+        normalizedBad !== normalizedGood.toLowerCase() &&
+        !existingBadColors.has(normalizedBad)
+      ) {
+        colorMap.set(normalizedBad, normalizedGood);
+        aiSuggestedMappings.set(normalizedBad, normalizedGood);
+        newMappings.push({
+          badColor: suggestion.badColor.trim(),
+          goodColor: normalizedGood,
+        });
       }
+    }
 
-      if (newMappings.length > 0) {
-        try {
-          await storage.createColorMappings(newMappings);
-        } catch (dbError) {
-          console.error("Failed to save AI color mappings:", dbError);
-        }
+    // Dry-run imports and offline guesses use the suggestions but don't save them
+    if (newMappings.length > 0 && !offline && options.persistMappings !== false) {
+      try {
+        await storage.createColorMappings(newMappings);
+      } catch (dbError) {
+        console.error("Failed to save AI color mappings:", dbError);
       }
-    } catch (error) {
-      console.error("AI color suggestion failed:", error);
     }
   }
 
@@ -1004,6 +1089,7 @@ export async function applyVariantRules(
                   ...existingItem.rawData,
                   _expanded: true,
                   _fromSize: currentSizeStr,
+                  _variantRule: rule.name,
                 };
               }
             }
@@ -1029,6 +1115,7 @@ export async function applyVariantRules(
               ...item.rawData,
               _expanded: true,
               _fromSize: currentSizeStr,
+              _variantRule: rule.name,
             },
           });
         }
@@ -1064,6 +1151,7 @@ export async function applyVariantRules(
                   ...existingItem.rawData,
                   _expanded: true,
                   _fromSize: currentSizeStr,
+                  _variantRule: rule.name,
                 };
               }
             }
@@ -1089,6 +1177,7 @@ export async function applyVariantRules(
               ...item.rawData,
               _expanded: true,
               _fromSize: currentSizeStr,
+              _variantRule: rule.name,
             },
           });
         }
@@ -1803,6 +1892,8 @@ function escapeRegex(str: string): string {
 /**
  * Master function to apply all import rules in order
  * This is the main entry point for processing items with data source config
+ * onRuleApplied (optional) is called after each rule group with the current items,
+ * so the import engine can attribute changes to a specific rule (provenance)
  */
 export async function applyImportRules(
   items: any[],
@@ -1839,6 +1930,7 @@ export async function applyImportRules(
     };
   },
   rawDataRows: any[] = [],
+  onRuleApplied?: (rule: string, items: any[]) => void,
 ): Promise<{
   items: any[];
   stats: {
@@ -1940,6 +2032,8 @@ export async function applyImportRules(
     });
   }
 
+  onRuleApplied?.("stock text mappings", processedItems);
+
   // 1. Apply value replacements first (clean up data)
   const replacementResult = applyValueReplacements(
     processedItems,
@@ -1947,6 +2041,7 @@ export async function applyImportRules(
   );
   processedItems = replacementResult.items;
   stats.replacementsMade = replacementResult.replacementCount;
+  onRuleApplied?.("value replacements", processedItems);
 
   // 2. Filter discontinued items
   const discontinuedResult = filterDiscontinuedItems(
@@ -1955,6 +2050,7 @@ export async function applyImportRules(
   );
   processedItems = discontinuedResult.items;
   stats.discontinuedFiltered = discontinuedResult.filteredCount;
+  onRuleApplied?.("discontinued rules", processedItems);
 
   // 3. Apply sale pricing if configured
   if (dataSourceConfig.salePriceConfig?.enabled) {
@@ -1966,6 +2062,7 @@ export async function applyImportRules(
     processedItems = salePricingResult.items;
     stats.salePricingApplied = salePricingResult.processedCount;
     stats.zeroPriceHandled += salePricingResult.zeroSkipped;
+    onRuleApplied?.("sale pricing", processedItems);
   }
 
   // 4. Apply regular price multiplier if configured (and sale pricing not enabled)
@@ -1994,6 +2091,7 @@ export async function applyImportRules(
       processedItems = zeroResult.items;
       stats.zeroPriceHandled += zeroResult.zeroCount;
     }
+    onRuleApplied?.("regular price multiplier", processedItems);
   }
 
   // 5. Apply price floor/ceiling
@@ -2004,6 +2102,7 @@ export async function applyImportRules(
   processedItems = priceResult.items;
   stats.priceSkipped = priceResult.skippedCount;
   stats.priceClamped = priceResult.clampedCount;
+  onRuleApplied?.("price floor/ceiling", processedItems);
 
   // 6. Apply future stock rules (before stock threshold filtering)
   if (dataSourceConfig.futureStockConfig?.enabled) {
@@ -2077,6 +2176,7 @@ export async function applyImportRules(
         `[FutureStock] Preserved ${stats.futureStockPreserved} items with future stock${dateOnlyMode ? " (date only mode)" : ""}`,
       );
     }
+    onRuleApplied?.("future stock rules", processedItems);
   }
 
   // 7. Filter by stock threshold (only if enabled)
@@ -2087,6 +2187,7 @@ export async function applyImportRules(
   );
   processedItems = stockResult.items;
   stats.stockFiltered = stockResult.filteredCount;
+  onRuleApplied?.("stock threshold", processedItems);
 
   // 8. Parse date formats
   const dateResult = parseDateFormat(
@@ -2095,6 +2196,7 @@ export async function applyImportRules(
   );
   processedItems = dateResult.items;
   stats.datesParsed = dateResult.parsedCount;
+  onRuleApplied?.("date formats", processedItems);
 
   // 9. Validate required fields (doesn't filter, just reports)
   const validationResult = validateRequiredFields(
@@ -2162,6 +2264,7 @@ export async function applyImportRules(
       stats.discontinuedFiltered =
         (stats.discontinuedFiltered || 0) + autoDiscontinuedFiltered;
     }
+    onRuleApplied?.("auto-filter discontinued zero stock", processedItems);
   } else {
     console.log(
       `[AutoFilter] Skipping auto-filter of discontinued+zero-stock (filterZeroStock=${(dataSourceConfig as any).filterZeroStock})`,
@@ -0,0 +1,139 @@
+/**
+ * mockChannelAdapter.ts — In-memory marketplace for tests and local runs
+ *
+ * Implements every channel operation against a per-channel in-memory store
+ * (keyed by channel ID, or the Shopify store ID when there's no channel
+ * record). Nothing leaves the process. Tests seed orders with
+ * seedMockChannelOrders() and inspect pushes with getMockChannelState().
+ *
+ * failSkus makes pushes for those SKUs fail, to exercise error handling.
+ */
+
+import crypto from "crypto";
+import type {
+  ChannelAdapter,
+  ChannelContext,
+  ChannelOrder,
+} from "./channelAdapters";
+
+export interface MockChannelState {
+  listings: Map<string, { shopifyProductId: string; status: "active" | "ended" }>;
+  stock: Map<string, number>;
+  prices: Map<string, { price: string; compareAtPrice?: string | null }>;
+  orders: ChannelOrder[];
+  failSkus: Set<string>;
+}
+
+const states = new Map<string, MockChannelState>();
+
+function stateFor(ctx: ChannelContext): MockChannelState {
+  const key = ctx.channel?.id || ctx.storeId;
+  let state = states.get(key);
+  if (!state) {
+    state = {
+      listings: new Map(),
+      stock: new Map(),
+      prices: new Map(),
+      orders: [],
+      failSkus: new Set(),
+    };
+    states.set(key, state);
+  }
+  return state;
+}
+
+export function getMockChannelState(key: string): MockChannelState | undefined {
+  return states.get(key);
+}
+
+export function seedMockChannelOrders(key: string, orders: ChannelOrder[]): void {
+  stateFor({ channel: { id: key }, storeId: key }).orders.push(...orders);
+}
+
+export function setMockChannelFailSkus(key: string, skus: string[]): void {
+  stateFor({ channel: { id: key }, storeId: key }).failSkus = new Set(
+    skus.map((s) => s.toLowerCase()),
+  );
+}
+
+export function resetMockChannels(): void {
+  states.clear();
+}
+
+export const mockChannelAdapter: ChannelAdapter = {
+  type: "mock",
+  displayName: "Mock (in-memory)",
+  capabilities: {
+    createListing: true,
+    pushStock: true,
+    pushPrices: true,
+    pullOrders: true,
+    endListing: true,
+  },
+
+  async createListing(ctx, request) {
+    const listingId = crypto.randomUUID();
+    stateFor(ctx).listings.set(listingId, {
+      shopifyProductId: request.shopifyProductId,
+      status: "active",
+    });
+    return { success: true, listingId };
+  },
+
+  async pushStock(ctx, updates) {
+    const state = stateFor(ctx);
+    const errors: string[] = [];
+    let pushed = 0;
+    for (const update of updates) {
+      if (state.failSkus.has(update.sku.toLowerCase())) {
+        errors.push(`${update.sku}: rejected by mock channel`);
+        continue;
+      }
+      state.stock.set(update.sku, update.quantity);
+      pushed++;
+    }
+    return { success: true, pushed, failed: errors.length, errors };
+  },
+
+  async pushPrices(ctx, updates) {
+    const state = stateFor(ctx);
+    const errors: string[] = [];
+    let pushed = 0;
+    for (const update of updates) {
+      if (state.failSkus.has(update.sku.toLowerCase())) {
+        errors.push(`${update.sku}: rejected by mock channel`);
+        continue;
+      }
+      state.prices.set(update.sku, {
+        price: update.price,
+        compareAtPrice: update.compareAtPrice,
+      });
+      pushed++;
+    }
+    return { success: true, pushed, failed: errors.length, errors };
+  },
+
+  async pullOrders(ctx, options) {
+    const since = options.since?.getTime() ?? 0;
+    const orders = stateFor(ctx).orders.filter(
+      (o) => new Date(o.createdAt).getTime() >= since,
+    );
+    return { success: true, orders };
+  },
+
+  async endListing(ctx, ref) {
+    const state = stateFor(ctx);
+    const listingId =
+      ref.listingId ||
+      [...state.listings.entries()].find(
+        ([, l]) =>
+          l.shopifyProductId === ref.shopifyProductId && l.status === "active",
+      )?.[0];
+    const listing = listingId ? state.listings.get(listingId) : undefined;
+    if (!listingId || !listing) {
+      return { success: false, notFound: true, error: "Listing not found" };
+    }
+    listing.status = "ended";
+    return { success: true, listingId, message: "Listing ended" };
+  },
+};
@@ -0,0 +1,425 @@
+/**
+ * Outbound webhooks — signed deliveries to a stand-in receiver, retries and
+ * backoff, blocked target URLs, masked headers, and the watcher's
+ * order.created / ebay.listing_ended events. App settings are an in-memory
+ * map; the receiver answers with the statuses a test queues.
+ */
+
+import { test, describe, before, after, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "http";
+import * as crypto from "crypto";
+import dns from "dns/promises";
+import type { AddressInfo } from "net";
+import { storage } from "./storage";
+import {
+  saveOutboundWebhook,
+  deleteOutboundWebhook,
+  redactWebhook,
+  sendTestWebhook,
+  redeliverWebhook,
+  signWebhookBody,
+  checkWebhookSources,
+  startOutboundWebhooks,
+  type OutboundWebhook,
+  type WebhookEvent,
+} from "./outboundWebhooks";
+
+// ============================================================
+// Stand-in receiver
+// ============================================================
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let base: string;
+let received: Received[] = [];
+// Statuses for the next requests; 200 once it runs out
+let statuses: number[] = [];
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      const status = statuses.shift() ?? 200;
+      res.writeHead(status, status === 302 ? { Location: "http://169.254.169.254/" } : {});
+      res.end(status === 200 ? "ok" : "nope");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+let settings: Map<string, any>;
+let created: string[] = [];
+
+beforeEach(() => {
+  received = [];
+  statuses = [];
+  settings = new Map();
+  // The receiver is on loopback
+  process.env.WEBHOOK_ALLOW_PRIVATE_URLS = "true";
+  mock.method(storage, "getAppSetting", async (key: string) => settings.get(key));
+  mock.method(storage, "setAppSetting", async (key: string, value: any) => {
+    settings.set(key, value);
+  });
+});
+
+afterEach(async () => {
+  for (const id of created) await deleteOutboundWebhook(id);
+  created = [];
+  mock.restoreAll();
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+});
+
+async function createWebhook(
+  overrides: Record<string, any> = {},
+): Promise<OutboundWebhook> {
+  const { webhook, error } = await saveOutboundWebhook({
+    name: "Receiver",
+    url: `${base}/hook`,
+    secret: "whsec_test",
+    events: ["import.completed"] as WebhookEvent[],
+    ...overrides,
+  });
+  assert.equal(error, undefined);
+  created.push(webhook!.id);
+  return webhook!;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+// ============================================================
+// SIGNING
+// ============================================================
+
+describe("signing", () => {
+  test("signs the timestamp and body with the webhook's secret", async () => {
+    const webhook = await createWebhook({ headers: { "X-Team": "ops" } });
+    const delivery = await sendTestWebhook(webhook.id);
+
+    assert.equal(delivery?.status, "delivered");
+    const [request] = received;
+    const timestamp = request.headers["x-webhook-timestamp"] as string;
+    const expected = crypto
+      .createHmac("sha256", "whsec_test")
+      .update(`${timestamp}.${request.body}`)
+      .digest("hex");
+    assert.equal(request.headers["x-webhook-signature"], `sha256=${expected}`);
+    assert.equal(request.headers["x-webhook-event"], "webhook.test");
+    assert.equal(request.headers["x-webhook-delivery"], delivery!.id);
+    assert.equal(request.headers["x-team"], "ops");
+    assert.equal(JSON.parse(request.body).id, delivery!.eventId);
+  });
+
+  test("signWebhookBody matches a receiver's recomputation", () => {
+    const body = JSON.stringify({ event: "import.completed" });
+    const digest = crypto
+      .createHmac("sha256", "s3cret")
+      .update(`1700000000.${body}`)
+      .digest("hex");
+    assert.equal(signWebhookBody("s3cret", 1700000000, body), `sha256=${digest}`);
+  });
+
+  test("resolves an env: secret when delivering", async () => {
+    process.env.WEBHOOK_TEST_SECRET = "from-env";
+    try {
+      const webhook = await createWebhook({ secret: "env:WEBHOOK_TEST_SECRET" });
+      await sendTestWebhook(webhook.id);
+
+      const [request] = received;
+      assert.equal(
+        request.headers["x-webhook-signature"],
+        signWebhookBody(
+          "from-env",
+          Number(request.headers["x-webhook-timestamp"]),
+          request.body,
+        ),
+      );
+    } finally {
+      delete process.env.WEBHOOK_TEST_SECRET;
+    }
+  });
+});
+
+// ============================================================
+// RETRIES
+// ============================================================
+
+describe("retries", () => {
+  test("schedules a retry with backoff after a 5xx", async () => {
+    const webhook = await createWebhook();
+    statuses = [503];
+    const before = Date.now();
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "retrying");
+    assert.equal(delivery.attempts.length, 1);
+    assert.equal(delivery.attempts[0].responseStatus, 503);
+    const delay = new Date(delivery.nextAttemptAt!).getTime() - before;
+    assert.ok(delay >= 30_000 && delay < 31_000, `first backoff ${delay}ms`);
+  });
+
+  test("retries due deliveries until one succeeds", async () => {
+    const webhook = await createWebhook();
+    statuses = [500, 429];
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    delivery.nextAttemptAt = new Date(Date.now() - 1000).toISOString();
+    await startOutboundWebhooks();
+    await waitFor(() => delivery.attempts.length === 2);
+    assert.equal(delivery.status, "retrying");
+    // Second backoff is four times the first
+    const delay =
+      new Date(delivery.nextAttemptAt!).getTime() -
+      new Date(delivery.attempts[1].at).getTime();
+    assert.ok(delay >= 120_000 && delay < 121_000, `second backoff ${delay}ms`);
+
+    delivery.nextAttemptAt = new Date(Date.now() - 1000).toISOString();
+    await startOutboundWebhooks();
+    await waitFor(() => delivery.status === "delivered");
+    assert.equal(delivery.attempts.length, 3);
+    assert.equal(received.length, 3);
+    // Every attempt carries the same event ID
+    assert.equal(new Set(received.map((r) => r.headers["x-webhook-id"])).size, 1);
+  });
+
+  test("fails without retrying on a 4xx", async () => {
+    const webhook = await createWebhook();
+    statuses = [400];
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.error, "HTTP 400");
+    assert.equal(delivery.nextAttemptAt, undefined);
+  });
+
+  test("does not follow redirects", async () => {
+    const webhook = await createWebhook();
+    statuses = [302];
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "failed");
+    assert.match(delivery.error!, /redirects are not followed/);
+    assert.equal(received.length, 1);
+  });
+
+  test("keeps each delivery as its own record, listed by the index", async () => {
+    const webhook = await createWebhook();
+    const first = (await sendTestWebhook(webhook.id))!;
+    const { delivery: second } = await redeliverWebhook(first.id);
+
+    assert.equal(settings.get(`outbound_webhook_delivery:${first.id}`).status, "delivered");
+    assert.equal(settings.get(`outbound_webhook_delivery:${second!.id}`).redeliveryOf, first.id);
+    const ids = settings.get("outbound_webhook_deliveries").entries.map((e: any) => e.id);
+    assert.deepEqual(ids.slice(0, 2), [second!.id, first.id]);
+  });
+});
+
+// ============================================================
+// TARGET URLS
+// ============================================================
+
+describe("target urls", () => {
+  beforeEach(() => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+  });
+
+  for (const url of [
+    "http://localhost:8080/hook",
+    "http://127.0.0.1/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://10.1.2.3/hook",
+    "http://192.168.0.10/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://metadata.google.internal/computeMetadata/v1",
+  ]) {
+    test(`refuses ${url}`, async () => {
+      const { error } = await saveOutboundWebhook({
+        name: "Internal",
+        url,
+        events: ["import.completed"],
+      });
+      assert.match(error!, /^url must not point at/);
+    });
+  }
+
+  test("refuses a delivery to a host that resolves to a private address", async () => {
+    mock.method(dns, "lookup", async () => [{ address: "10.0.0.5", family: 4 }]);
+    const webhook = await createWebhook({ url: "https://hooks.internal.example/hook" });
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "failed");
+    assert.match(delivery.error!, /resolves to 10\.0\.0\.5/);
+  });
+
+  test("connects to the address it checked, once per attempt", async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = "true";
+    const lookup = mock.method(dns, "lookup", async () => [
+      { address: "127.0.0.1", family: 4 },
+    ]);
+    const port = new URL(base).port;
+    const webhook = await createWebhook({ url: `http://receiver.example:${port}/hook` });
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "delivered");
+    assert.equal(lookup.mock.callCount(), 1);
+    assert.equal(received.length, 1);
+    assert.equal(received[0].headers.host, `receiver.example:${port}`);
+  });
+
+  test("refuses a saved loopback URL once private URLs are no longer allowed", async () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = "true";
+    const webhook = await createWebhook();
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_URLS;
+    const delivery = (await sendTestWebhook(webhook.id))!;
+
+    assert.equal(delivery.status, "failed");
+    assert.equal(delivery.attempts.length, 1);
+    assert.equal(received.length, 0);
+  });
+});
+
+// ============================================================
+// REDACTION
+// ============================================================
+
+describe("redaction", () => {
+  test("masks the secret and header values", async () => {
+    const webhook = await createWebhook({
+      headers: { Authorization: "Bearer internal-token-1234" },
+    });
+    const shown = redactWebhook(webhook);
+
+    assert.equal(shown.secret, "••••test");
+    assert.deepEqual(shown.headers, { Authorization: "••••1234" });
+    assert.equal(JSON.stringify(shown).includes("internal-token"), false);
+  });
+
+  test("a masked header sent back keeps the stored value", async () => {
+    const webhook = await createWebhook({
+      headers: { Authorization: "Bearer internal-token-1234" },
+    });
+    const { webhook: updated } = await saveOutboundWebhook(
+      { headers: { ...redactWebhook(webhook).headers, "X-Team": "ops" } },
+      webhook.id,
+    );
+
+    assert.deepEqual(updated!.headers, {
+      Authorization: "Bearer internal-token-1234",
+      "X-Team": "ops",
+    });
+  });
+});
+
+// ============================================================
+// WATCHER
+// ============================================================
+
+describe("watcher", () => {
+  const STORES = [
+    { id: "store-1", name: "Main Store" },
+    { id: "store-2", name: "Outlet" },
+  ];
+
+  beforeEach(() => {
+    mock.method(storage, "getShopifyStores", async () => STORES);
+  });
+
+  test("sends order.created for unseen orders across pages, named from the order's store", async () => {
+    await createWebhook({ events: ["order.created"] });
+    // 600 existing orders: more than one page, ids in no particular order
+    let orders: any[] = Array.from({ length: 600 }, (_, i) => ({
+      id: `o-${(i * 7919) % 600}`,
+      orderNumber: `#${i}`,
+    }));
+    mock.method(storage, "getOrders", async ({ limit, offset }: any) => ({
+      orders: orders.slice(offset, offset + limit),
+      total: orders.length,
+    }));
+
+    await checkWebhookSources();
+    assert.equal(received.length, 0);
+
+    // New orders land on both pages; one has no store on its row
+    orders = [
+      { id: "a-1", orderNumber: "#A1", shopifyStoreId: "store-2" },
+      ...orders,
+      { id: "z-2", orderNumber: "#Z2", shopifyStoreId: "store-1" },
+      { id: "m-3", orderNumber: "#M3" },
+    ];
+    await checkWebhookSources();
+    await waitFor(() => received.length === 3);
+
+    // Deliveries run side by side, so arrival order can vary
+    const sent = received
+      .map((r) => JSON.parse(r.body).data)
+      .sort((a, b) => a.orderNumber.localeCompare(b.orderNumber));
+    assert.deepEqual(
+      sent.map((d) => [d.orderNumber, d.storeId, d.storeName]),
+      [
+        ["#A1", "store-2", "Outlet"],
+        ["#M3", null, null],
+        ["#Z2", "store-1", "Main Store"],
+      ],
+    );
+
+    await checkWebhookSources();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(received.length, 3);
+  });
+
+  test("sends ebay.listing_ended for listings the automation ended", async () => {
+    await createWebhook({ events: ["ebay.listing_ended"] });
+    let activities: any[] = [];
+    mock.method(storage, "getEbayActivityLog", async (storeId: string) =>
+      storeId === "store-1" ? activities : [],
+    );
+
+    await checkWebhookSources();
+    const later = new Date(Date.now() + 1000);
+    activities = [
+      {
+        activityType: "listing_ended",
+        shopifyProductId: "gid://shopify/Product/1",
+        productTitle: "Out of stock dress",
+        sku: null,
+        details: { ebayListingId: "110001", reason: "out_of_stock" },
+        createdAt: later,
+      },
+      {
+        activityType: "listing_ended",
+        productTitle: "Ended by hand",
+        details: { ebayListingId: "110002", webhookSent: true },
+        createdAt: later,
+      },
+      { activityType: "listing_error", details: {}, createdAt: later },
+    ];
+    await checkWebhookSources();
+    await waitFor(() => received.length === 1);
+
+    const payload = JSON.parse(received[0].body);
+    assert.equal(payload.event, "ebay.listing_ended");
+    assert.equal(payload.data.storeId, "store-1");
+    assert.equal(payload.data.ebayListingId, "110001");
+    assert.equal(payload.data.reason, "out_of_stock");
+
+    await checkWebhookSources();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(received.length, 1);
+  });
+});
@@ -0,0 +1,1119 @@
+/**
+ * outboundWebhooks.ts — Outbound webhooks for import, sync and safety events
+ *
+ * Webhooks (app setting OUTBOUND_WEBHOOKS_KEY) subscribe a URL to events:
+ *
+ *   import.completed / import.failed / import.blocked
+ *                         an import job finished (importJobQueue); blocked =
+ *                         stopped or held by a safety-net policy
+ *   sync.completed / sync.failed
+ *   snapshot.created      a sync snapshot, including restore undo snapshots
+ *   order.created         an order pulled in by the order sync
+ *   ebay.listing_ended
+ *
+ * Store syncs, snapshots, order pulls and the eBay automation's ended
+ * listings are written by the Shopify / eBay modules and the scheduler, so
+ * those events come from a watcher that checks sync logs, snapshots, eBay
+ * activity and orders every WATCH_INTERVAL_MS for records newer than its
+ * cursors (OUTBOUND_WEBHOOK_CURSORS_KEY). Orders have no usable ordering, so
+ * the watcher keeps the IDs it has seen (OUTBOUND_WEBHOOK_SEEN_ORDERS_KEY)
+ * and names each order's store from its row (shopifyStoreId, written by
+ * the order sync). Import events and listings ended through the eBay
+ * channel adapter are emitted where they happen.
+ *
+ * Each delivery is a POST of { id, event, createdAt, data } (or a Slack
+ * { text } message for format "slack") signed with the webhook's secret:
+ *
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ *   X-Webhook-Timestamp: unix seconds
+ *
+ * Network errors, 408 / 429 and 5xx responses are retried with exponential
+ * backoff up to MAX_DELIVERY_ATTEMPTS; every delivery and its attempts are
+ * kept in the delivery log and can be redelivered from there. Each delivery
+ * is its own app setting (OUTBOUND_WEBHOOK_DELIVERY_PREFIX + id), listed by
+ * an index (OUTBOUND_WEBHOOK_DELIVERIES_KEY, newest MAX_DELIVERIES); writes
+ * go through one write chain.
+ *
+ * Webhook URLs must reach a public address: loopback, private, link-local
+ * and cloud metadata targets are refused when a webhook is saved and again
+ * on every delivery, where the host is resolved by the socket's own lookup
+ * so the address checked is the address connected to (no DNS rebinding in
+ * between). Redirects are not followed.
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true lifts this for self-hosted receivers.
+ */
+
+import crypto from "crypto";
+import dns from "dns/promises";
+import http from "http";
+import https from "https";
+import net from "net";
+import { storage } from "./storage";
+import type { ImportJob } from "./importJobQueue";
+
+const OUTBOUND_WEBHOOKS_KEY = "outbound_webhooks";
+const OUTBOUND_WEBHOOK_DELIVERIES_KEY = "outbound_webhook_deliveries";
+const OUTBOUND_WEBHOOK_DELIVERY_PREFIX = "outbound_webhook_delivery:";
+const OUTBOUND_WEBHOOK_CURSORS_KEY = "outbound_webhook_cursors";
+const OUTBOUND_WEBHOOK_SEEN_ORDERS_KEY = "outbound_webhook_seen_orders";
+const MAX_DELIVERIES = 500;
+const MAX_DELIVERY_ATTEMPTS = 5;
+// Backoff: 30s, 2m, 8m, 32m, capped at 1 hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const RETRY_POLL_INTERVAL_MS = 15 * 1000;
+const WATCH_INTERVAL_MS = 60 * 1000;
+const ORDER_PAGE_SIZE = 500;
+// Response bodies kept in the delivery log
+const MAX_RESPONSE_BODY = 500;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export const WEBHOOK_EVENTS = [
+  "import.completed",
+  "import.failed",
+  "import.blocked",
+  "sync.completed",
+  "sync.failed",
+  "snapshot.created",
+  "order.created",
+  "ebay.listing_ended",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface OutboundWebhook {
+  id: string;
+  name: string;
+  url: string;
+  /** HMAC signing secret; "env:NAME" reads it from the environment */
+  secret: string;
+  events: WebhookEvent[];
+  /** "json" posts the signed event; "slack" posts { text } for incoming webhooks */
+  format: "json" | "slack";
+  /** Extra request headers (e.g. an Authorization for an internal tool) */
+  headers?: Record<string, string>;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "retrying"
+  | "delivered"
+  | "failed";
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEvent | "webhook.test";
+  /** Shared by every delivery (and redelivery) of one event */
+  eventId: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  createdAt: string;
+  nextAttemptAt?: string;
+  deliveredAt?: string;
+  /** Delivery this one re-sent */
+  redeliveryOf?: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent | "webhook.test";
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+interface WatchCursors {
+  syncLogs: Record<string, string>;
+  snapshots: Record<string, string>;
+  ebayListings: Record<string, string>;
+}
+
+interface SeenOrders {
+  ids: string[];
+}
+
+interface DeliveryIndexEntry {
+  id: string;
+  createdAt: string;
+}
+
+// ============================================================
+// WEBHOOK CONFIG
+// ============================================================
+
+let webhooksCache: OutboundWebhook[] | null = null;
+
+export async function getOutboundWebhooks(): Promise<OutboundWebhook[]> {
+  if (!webhooksCache) {
+    webhooksCache =
+      ((await storage.getAppSetting(OUTBOUND_WEBHOOKS_KEY))
+        ?.webhooks as OutboundWebhook[]) || [];
+  }
+  return webhooksCache;
+}
+
+async function saveOutboundWebhooks(webhooks: OutboundWebhook[]): Promise<void> {
+  await storage.setAppSetting(OUTBOUND_WEBHOOKS_KEY, { webhooks });
+  webhooksCache = webhooks;
+}
+
+const MASK = "••••";
+
+function maskValue(value: string): string {
+  return `${MASK}${value.slice(-4)}`;
+}
+
+/**
+ * Webhook as shown to the UI: header values masked, and the secret unless
+ * it is an env: reference
+ */
+export function redactWebhook(webhook: OutboundWebhook): OutboundWebhook {
+  return {
+    ...webhook,
+    secret: webhook.secret.startsWith("env:")
+      ? webhook.secret
+      : maskValue(webhook.secret),
+    headers: webhook.headers
+      ? Object.fromEntries(
+          Object.entries(webhook.headers).map(([name, value]) => [
+            name,
+            maskValue(value),
+          ]),
+        )
+      : undefined,
+  };
+}
+
+/** Headers from the UI: a masked value sent back keeps the stored one */
+function mergeHeaders(
+  input: Record<string, string> | undefined,
+  existing: Record<string, string> | undefined,
+): Record<string, string> | undefined {
+  if (!input) return existing;
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input)) {
+    const stored = existing?.[name];
+    headers[name] =
+      stored !== undefined && value.startsWith(MASK) && value === maskValue(stored)
+        ? stored
+        : value;
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+function validateWebhook(input: any): string | null {
+  if (!input?.name || typeof input.name !== "string") return "name is required";
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "url must be http(s)";
+  }
+  const blocked = blockedHostReason(url.hostname);
+  if (blocked) return `url ${blocked}`;
+  if (!Array.isArray(input.events) || input.events.length === 0) {
+    return "events must list at least one event";
+  }
+  const unknown = input.events.filter(
+    (e: string) => !WEBHOOK_EVENTS.includes(e as WebhookEvent),
+  );
+  if (unknown.length > 0) return `unknown event(s): ${unknown.join(", ")}`;
+  if (input.format && input.format !== "json" && input.format !== "slack") {
+    return 'format must be "json" or "slack"';
+  }
+  if (
+    input.headers &&
+    (typeof input.headers !== "object" ||
+      Object.values(input.headers).some((v) => typeof v !== "string"))
+  ) {
+    return "headers must map names to string values";
+  }
+  return null;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Create a webhook, or update one when `id` is given. A blank or omitted
+ * secret keeps the current one (a new webhook gets a generated secret);
+ * the full secret is returned only here, so it can be copied once.
+ */
+export async function saveOutboundWebhook(
+  input: any,
+  id?: string,
+): Promise<{ webhook?: OutboundWebhook; error?: string; notFound?: boolean }> {
+  const webhooks = [...(await getOutboundWebhooks())];
+  const index = id ? webhooks.findIndex((w) => w.id === id) : -1;
+  if (id && index === -1) return { notFound: true, error: "Webhook not found" };
+  const existing = index >= 0 ? webhooks[index] : undefined;
+
+  const merged = { ...existing, ...input };
+  const error = validateWebhook(merged);
+  if (error) return { error };
+
+  const now = new Date().toISOString();
+  const webhook: OutboundWebhook = {
+    id: existing?.id || crypto.randomUUID(),
+    name: String(merged.name).trim(),
+    url: String(merged.url).trim(),
+    secret:
+      typeof input.secret === "string" && input.secret.trim()
+        ? input.secret.trim()
+        : existing?.secret || generateSecret(),
+    events: [...new Set(merged.events as WebhookEvent[])],
+    format: merged.format === "slack" ? "slack" : "json",
+    headers: mergeHeaders(input.headers, existing?.headers),
+    enabled: merged.enabled !== false,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  if (existing) webhooks[index] = webhook;
+  else webhooks.push(webhook);
+  await saveOutboundWebhooks(webhooks);
+  return { webhook };
+}
+
+export async function deleteOutboundWebhook(id: string): Promise<boolean> {
+  const webhooks = await getOutboundWebhooks();
+  const kept = webhooks.filter((w) => w.id !== id);
+  if (kept.length === webhooks.length) return false;
+  await saveOutboundWebhooks(kept);
+  return true;
+}
+
+function resolveSecret(secret: string): string | null {
+  if (!secret.startsWith("env:")) return secret;
+  return process.env[secret.substring(4)] || null;
+}
+
+// ============================================================
+// TARGET URLS
+// ============================================================
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and
+// reserved ranges; IPv4-mapped IPv6 addresses match the IPv4 subnets
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const METADATA_HOSTS = new Set([
+  "metadata",
+  "metadata.google.internal",
+  "metadata.goog",
+  "instance-data",
+  "instance-data.ec2.internal",
+]);
+
+const allowPrivateUrls = () => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true";
+
+function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/** Why a hostname can't be a webhook target without a DNS lookup, or null */
+function blockedHostReason(hostname: string): string | null {
+  if (allowPrivateUrls()) return null;
+  const host = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return "must not point at localhost";
+  }
+  if (METADATA_HOSTS.has(host)) return "must not point at a cloud metadata service";
+  if (isBlockedAddress(host)) {
+    return "must not point at a private, loopback or link-local address";
+  }
+  return null;
+}
+
+/**
+ * Host lookup for delivery sockets: the socket connects to the addresses
+ * returned here, after they passed the check, so a DNS answer that changes
+ * between the check and the connection can't reach a blocked address.
+ */
+const vettedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, verbatim: true }).then(
+    (addresses) => {
+      const blocked = allowPrivateUrls()
+        ? undefined
+        : addresses.find((a) => isBlockedAddress(a.address));
+      if (blocked) {
+        return callback(
+          Object.assign(
+            new Error(
+              `Webhook URL resolves to ${blocked.address}, a private, loopback or link-local address`,
+            ),
+            { final: true },
+          ),
+          "",
+        );
+      }
+      if (addresses.length === 0) {
+        return callback(new Error(`No address found for ${hostname}`), "");
+      }
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    },
+    (err) => callback(err, ""),
+  );
+};
+
+/**
+ * POST to a webhook URL. Hosts are resolved by vettedLookup (IP literals
+ * were checked with the URL); redirects are not followed.
+ */
+function postWebhook(
+  target: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; text: string }> {
+  const url = new URL(target);
+  const blocked = blockedHostReason(url.hostname);
+  if (blocked) {
+    return Promise.reject(
+      Object.assign(new Error(`Webhook URL ${blocked}`), { final: true }),
+    );
+  }
+  const request = url.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: vettedLookup,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (res) => {
+        let text = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => {
+          if (text.length < MAX_RESPONSE_BODY) text += chunk;
+        });
+        res.on("end", () => resolve({ status: res.statusCode || 0, text }));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// ============================================================
+// DELIVERY LOG
+// ============================================================
+
+const deliveries = new Map<string, WebhookDelivery>();
+const inFlight = new Set<string>();
+let loaded: Promise<void> | null = null;
+let writeChain: Promise<unknown> = Promise.resolve();
+
+const deliveryKey = (id: string) => `${OUTBOUND_WEBHOOK_DELIVERY_PREFIX}${id}`;
+
+function chainWrite<T>(write: () => Promise<T>): Promise<T> {
+  const run = writeChain.then(write);
+  writeChain = run.catch(() => {});
+  return run;
+}
+
+async function readDeliveryIndex(): Promise<DeliveryIndexEntry[]> {
+  const saved = await storage.getAppSetting(OUTBOUND_WEBHOOK_DELIVERIES_KEY);
+  return (saved?.entries as DeliveryIndexEntry[]) || [];
+}
+
+/** The log used to be one setting holding every delivery */
+function migrateDeliveryLog(legacy: WebhookDelivery[]): Promise<void> {
+  return chainWrite(async () => {
+    const kept = [...legacy]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, MAX_DELIVERIES);
+    for (const delivery of kept) {
+      await storage.setAppSetting(deliveryKey(delivery.id), delivery);
+    }
+    await storage.setAppSetting(OUTBOUND_WEBHOOK_DELIVERIES_KEY, {
+      entries: kept.map(({ id, createdAt }) => ({ id, createdAt })),
+    });
+  });
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      const saved = await storage.getAppSetting(OUTBOUND_WEBHOOK_DELIVERIES_KEY);
+      if (Array.isArray(saved?.deliveries)) {
+        await migrateDeliveryLog(saved.deliveries);
+      }
+      for (const entry of await readDeliveryIndex()) {
+        const delivery: WebhookDelivery | undefined = await storage.getAppSetting(
+          deliveryKey(entry.id),
+        );
+        if (delivery) deliveries.set(delivery.id, delivery);
+      }
+    })().catch((err) => {
+      loaded = null;
+      throw err;
+    });
+  }
+  return loaded;
+}
+
+/** Write one delivery's record (a copy, as attempts keep changing it) */
+function saveDelivery(delivery: WebhookDelivery): Promise<void> {
+  const record = structuredClone(delivery);
+  return chainWrite(async () => {
+    await storage.setAppSetting(deliveryKey(record.id), record);
+  }).catch((err) =>
+    console.error(`[Webhooks] Failed to save delivery ${record.id}:`, err),
+  );
+}
+
+/** Save a new delivery and add it to the index, dropping the oldest */
+function addDelivery(delivery: WebhookDelivery): Promise<void> {
+  deliveries.set(delivery.id, delivery);
+  const record = structuredClone(delivery);
+  return chainWrite(async () => {
+    await storage.setAppSetting(deliveryKey(record.id), record);
+    const entries = [
+      { id: record.id, createdAt: record.createdAt },
+      ...(await readDeliveryIndex()).filter((e) => e.id !== record.id),
+    ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    for (const dropped of entries.slice(MAX_DELIVERIES)) {
+      deliveries.delete(dropped.id);
+      await storage.setAppSetting(deliveryKey(dropped.id), null);
+    }
+    await storage.setAppSetting(OUTBOUND_WEBHOOK_DELIVERIES_KEY, {
+      entries: entries.slice(0, MAX_DELIVERIES),
+    });
+  }).catch((err) =>
+    console.error(`[Webhooks] Failed to save delivery ${record.id}:`, err),
+  );
+}
+
+export async function listWebhookDeliveries(
+  filters: {
+    webhookId?: string;
+    event?: string;
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+  } = {},
+): Promise<WebhookDelivery[]> {
+  await ensureLoaded();
+  return [...deliveries.values()]
+    .filter(
+      (d) =>
+        (!filters.webhookId || d.webhookId === filters.webhookId) &&
+        (!filters.event || d.event === filters.event) &&
+        (!filters.status || d.status === filters.status),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filters.limit ?? 100);
+}
+
+export async function getWebhookDelivery(
+  id: string,
+): Promise<WebhookDelivery | undefined> {
+  await ensureLoaded();
+  return deliveries.get(id);
+}
+
+// ============================================================
+// SENDING
+// ============================================================
+
+/** sha256=<hex> over `${timestamp}.${body}` — what receivers recompute */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 4 ** Math.max(0, attempts - 1),
+  );
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function requestBody(webhook: OutboundWebhook, payload: WebhookPayload): string {
+  if (webhook.format === "slack") {
+    return JSON.stringify({ text: summarizeEvent(payload) });
+  }
+  return JSON.stringify(payload);
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  if (inFlight.has(delivery.id)) return;
+  inFlight.add(delivery.id);
+  const logPrefix = `[Webhooks:${delivery.webhookName}]`;
+  const started = Date.now();
+  const attempt: WebhookDeliveryAttempt = {
+    at: new Date(started).toISOString(),
+    durationMs: 0,
+  };
+  let retryable = false;
+
+  try {
+    const webhook = (await getOutboundWebhooks()).find(
+      (w) => w.id === delivery.webhookId,
+    );
+    if (!webhook) throw Object.assign(new Error("Webhook was deleted"), { final: true });
+    const secret = resolveSecret(webhook.secret);
+    if (!secret) {
+      throw Object.assign(
+        new Error(
+          `Signing secret '${webhook.secret.substring(4)}' is not configured in the environment`,
+        ),
+        { final: true },
+      );
+    }
+
+    const body = requestBody(webhook, delivery.payload);
+    const timestamp = Math.floor(started / 1000);
+    const response = await postWebhook(
+      webhook.url,
+      {
+        ...webhook.headers,
+        "Content-Type": "application/json",
+        "User-Agent": "inventory-webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookBody(secret, timestamp, body),
+      },
+      body,
+    );
+    attempt.responseStatus = response.status;
+    delivery.responseStatus = response.status;
+    delivery.responseBody = response.text.substring(0, MAX_RESPONSE_BODY) || undefined;
+
+    if (response.status >= 200 && response.status < 300) {
+      delivery.status = "delivered";
+      delivery.deliveredAt = new Date().toISOString();
+      delivery.error = undefined;
+      delivery.nextAttemptAt = undefined;
+    } else if (response.status >= 300 && response.status < 400) {
+      attempt.error = `HTTP ${response.status} (redirects are not followed)`;
+    } else {
+      attempt.error = `HTTP ${response.status}`;
+      retryable = isRetryableStatus(response.status);
+    }
+  } catch (err: any) {
+    attempt.error =
+      err?.name === "AbortError" || err?.name === "TimeoutError"
+        ? `Timed out after ${DELIVERY_TIMEOUT_MS / 1000}s`
+        : err?.message || String(err);
+    retryable = !err?.final;
+  } finally {
+    attempt.durationMs = Date.now() - started;
+    delivery.attempts.push(attempt);
+
+    if (delivery.status !== "delivered") {
+      delivery.error = attempt.error;
+      if (retryable && delivery.attempts.length < MAX_DELIVERY_ATTEMPTS) {
+        const delay = retryDelay(delivery.attempts.length);
+        delivery.status = "retrying";
+        delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        console.log(
+          `${logPrefix} ${delivery.event} attempt ${delivery.attempts.length} failed (${attempt.error}) — retrying in ${Math.round(delay / 1000)}s`,
+        );
+      } else {
+        delivery.status = "failed";
+        delivery.nextAttemptAt = undefined;
+        console.log(
+          `${logPrefix} ${delivery.event} failed after ${delivery.attempts.length} attempt(s): ${attempt.error}`,
+        );
+      }
+    }
+    inFlight.delete(delivery.id);
+    await saveDelivery(delivery);
+  }
+}
+
+async function createDelivery(
+  webhook: OutboundWebhook,
+  payload: WebhookPayload,
+  redeliveryOf?: string,
+): Promise<WebhookDelivery> {
+  await ensureLoaded();
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    webhookId: webhook.id,
+    webhookName: webhook.name,
+    event: payload.event,
+    eventId: payload.id,
+    payload,
+    status: "pending",
+    attempts: [],
+    createdAt: new Date().toISOString(),
+    redeliveryOf,
+  };
+  await addDelivery(delivery);
+  return delivery;
+}
+
+/**
+ * Send an event to every enabled webhook subscribed to it. Deliveries run
+ * in the background; failures end up in the delivery log, never here.
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, any>,
+): Promise<void> {
+  try {
+    const targets = (await getOutboundWebhooks()).filter(
+      (w) => w.enabled && w.events.includes(event),
+    );
+    if (targets.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    for (const webhook of targets) {
+      const delivery = await createDelivery(webhook, payload);
+      attemptDelivery(delivery);
+    }
+  } catch (err) {
+    console.error(`[Webhooks] Failed to emit ${event}:`, err);
+  }
+}
+
+/** Send a webhook.test event now and wait for the first attempt */
+export async function sendTestWebhook(
+  webhookId: string,
+): Promise<WebhookDelivery | null> {
+  const webhook = (await getOutboundWebhooks()).find((w) => w.id === webhookId);
+  if (!webhook) return null;
+  const delivery = await createDelivery(webhook, {
+    id: crypto.randomUUID(),
+    event: "webhook.test",
+    createdAt: new Date().toISOString(),
+    data: { webhookId: webhook.id, webhookName: webhook.name },
+  });
+  await attemptDelivery(delivery);
+  return delivery;
+}
+
+/** Re-send a logged delivery's event as a new delivery (same event ID) */
+export async function redeliverWebhook(
+  deliveryId: string,
+): Promise<{ delivery?: WebhookDelivery; error?: string; notFound?: boolean }> {
+  const original = await getWebhookDelivery(deliveryId);
+  if (!original) return { notFound: true, error: "Delivery not found" };
+  const webhook = (await getOutboundWebhooks()).find(
+    (w) => w.id === original.webhookId,
+  );
+  if (!webhook) return { error: "The webhook for this delivery was deleted" };
+
+  const delivery = await createDelivery(webhook, original.payload, original.id);
+  await attemptDelivery(delivery);
+  return { delivery };
+}
+
+async function retryDueDeliveries(): Promise<void> {
+  try {
+    await ensureLoaded();
+    const now = Date.now();
+    for (const delivery of deliveries.values()) {
+      if (delivery.status !== "retrying" || inFlight.has(delivery.id)) continue;
+      if (new Date(delivery.nextAttemptAt || 0).getTime() > now) continue;
+      attemptDelivery(delivery);
+    }
+  } catch (err) {
+    console.error("[Webhooks] Error retrying deliveries:", err);
+  }
+}
+
+// ============================================================
+// EVENT PAYLOADS
+// ============================================================
+
+/** Slack text for an event (also handy as a one-line log) */
+function summarizeEvent(payload: WebhookPayload): string {
+  const d = payload.data;
+  switch (payload.event) {
+    case "import.completed":
+      return `:white_check_mark: Import completed for *${d.dataSourceName}* — ${d.itemCount ?? 0} items`;
+    case "import.failed":
+      return `:x: Import failed for *${d.dataSourceName}*: ${d.error}`;
+    case "import.blocked":
+      return `:octagonal_sign: Import ${d.held ? "held for review" : "blocked"} for *${d.dataSourceName}*: ${d.error}`;
+    case "sync.completed":
+      return `:arrows_counterclockwise: Sync completed for *${d.storeName}* — ${d.itemsUpdated ?? 0} updated, ${d.itemsCreated ?? 0} created, ${d.itemsFailed ?? 0} failed`;
+    case "sync.failed":
+      return `:x: Sync failed for *${d.storeName}*: ${d.errorMessage || "unknown error"}`;
+    case "snapshot.created":
+      return `:camera: Snapshot created for *${d.storeName}*${d.dataSourceName ? ` (${d.dataSourceName})` : ""} — ${d.totalVariants ?? 0} variants`;
+    case "order.created":
+      return `:shopping_bags: New order ${d.orderNumber || d.orderId}${d.storeName ? ` on *${d.storeName}*` : ""}${d.totalPrice != null ? ` — ${d.totalPrice}${d.currency ? ` ${d.currency}` : ""}` : ""}`;
+    case "ebay.listing_ended":
+      return `:no_entry_sign: eBay listing ended: ${d.productTitle || d.ebayListingId}`;
+    case "webhook.test":
+      return `Test message from webhook *${d.webhookName}*`;
+  }
+}
+
+/**
+ * importJobQueue finish listener: completed → import.completed, a safety-net
+ * block or hold → import.blocked, any other failure → import.failed.
+ * Cancelled jobs send nothing.
+ */
+export async function emitImportJobEvent(job: ImportJob): Promise<void> {
+  if (job.status !== "completed" && job.status !== "failed") return;
+  const safety = job.result?.details?.safetyBlock ? job.result.details : null;
+  const event: WebhookEvent =
+    job.status === "completed"
+      ? "import.completed"
+      : safety
+        ? "import.blocked"
+        : "import.failed";
+
+  const dataSource = await storage.getDataSource(job.dataSourceId).catch(() => null);
+  await emitWebhookEvent(event, {
+    jobId: job.id,
+    kind: job.kind,
+    dataSourceId: job.dataSourceId,
+    dataSourceName: dataSource?.name || null,
+    attempts: job.attempts,
+    itemCount: job.result?.itemCount ?? null,
+    error: job.error || null,
+    startedAt: job.startedAt || null,
+    finishedAt: job.finishedAt || null,
+    ...(safety
+      ? {
+          held: safety.safetyHold === true,
+          safetyReviewId: safety.safetyReviewId || null,
+          safetyFindings: safety.safetyFindings || [],
+        }
+      : {}),
+  });
+}
+
+function orderData(order: any, storeId: string | null, storeName: string | null) {
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber || order.name || null,
+    storeId,
+    storeName,
+    status: order.status ?? null,
+    paymentStatus: order.paymentStatus ?? order.financialStatus ?? null,
+    totalPrice: order.totalPrice ?? order.total ?? null,
+    currency: order.currency ?? null,
+    customerName: order.customerName ?? null,
+    customerEmail: order.customerEmail ?? order.email ?? null,
+    createdAt: order.orderDate || order.createdAt || null,
+  };
+}
+
+// ============================================================
+// WATCHER (sync logs, snapshots, orders)
+// ============================================================
+
+let watchTimer: NodeJS.Timeout | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+let watching = false;
+
+async function subscribedEvents(): Promise<Set<WebhookEvent>> {
+  return new Set(
+    (await getOutboundWebhooks())
+      .filter((w) => w.enabled)
+      .flatMap((w) => w.events),
+  );
+}
+
+const newerThan = (value: any, cursor: string | undefined) =>
+  !!value && (!cursor || new Date(value).toISOString() > cursor);
+
+async function listOrders(): Promise<any[]> {
+  const orders: any[] = [];
+  for (let offset = 0; ; offset += ORDER_PAGE_SIZE) {
+    const page = await storage.getOrders({ limit: ORDER_PAGE_SIZE, offset });
+    orders.push(...page.orders);
+    if (page.orders.length < ORDER_PAGE_SIZE) break;
+  }
+  return orders;
+}
+
+/**
+ * order.created for every order not seen before. The first pass only
+ * records what exists.
+ */
+async function checkNewOrders(stores: any[]): Promise<void> {
+  const saved: SeenOrders | undefined = await storage.getAppSetting(
+    OUTBOUND_WEBHOOK_SEEN_ORDERS_KEY,
+  );
+  const orders = await listOrders();
+  if (!saved) {
+    await storage.setAppSetting(OUTBOUND_WEBHOOK_SEEN_ORDERS_KEY, {
+      ids: orders.map((o) => String(o.id)),
+    });
+    return;
+  }
+
+  const seen = new Set(saved.ids);
+  const storeNames = new Map<string, string>(
+    stores.map((s: any) => [s.id, s.name] as [string, string]),
+  );
+  // Orders synced before multi-store support have no store ID
+  const onlyStoreName = stores.length === 1 ? stores[0].name : null;
+
+  for (const order of orders) {
+    const id = String(order.id);
+    if (seen.has(id)) continue;
+    const storeId: string | null = order.shopifyStoreId || null;
+    await emitWebhookEvent(
+      "order.created",
+      orderData(
+        order,
+        storeId,
+        storeId ? storeNames.get(storeId) || null : onlyStoreName,
+      ),
+    );
+    seen.add(id);
+  }
+
+  // Deleted orders drop out of the seen list
+  const current = new Set(orders.map((o) => String(o.id)));
+  await storage.setAppSetting(OUTBOUND_WEBHOOK_SEEN_ORDERS_KEY, {
+    ids: [...seen].filter((id) => current.has(id)),
+  });
+}
+
+/**
+ * One pass of the watcher. A cursor starts at "now" the first time its
+ * event is subscribed, so turning a webhook on doesn't replay history.
+ */
+export async function checkWebhookSources(): Promise<void> {
+  if (watching) return;
+  watching = true;
+  try {
+    const events = await subscribedEvents();
+    const wantSync = events.has("sync.completed") || events.has("sync.failed");
+    const wantSnapshots = events.has("snapshot.created");
+    const wantOrders = events.has("order.created");
+    const wantEbay = events.has("ebay.listing_ended");
+    if (!wantSync && !wantSnapshots && !wantOrders && !wantEbay) return;
+
+    const saved: WatchCursors | undefined = await storage.getAppSetting(
+      OUTBOUND_WEBHOOK_CURSORS_KEY,
+    );
+    const cursors: WatchCursors = {
+      syncLogs: saved?.syncLogs || {},
+      snapshots: saved?.snapshots || {},
+      ebayListings: saved?.ebayListings || {},
+    };
+    const now = new Date().toISOString();
+    const stores = await storage.getShopifyStores();
+    for (const store of stores) {
+      if (wantSync) {
+        const cursor = cursors.syncLogs[store.id];
+        if (!cursor) {
+          cursors.syncLogs[store.id] = now;
+        } else {
+          const logs = (await storage.getShopifySyncLogs(store.id, 20))
+            .filter(
+              (log: any) =>
+                (log.status === "completed" || log.status === "failed") &&
+                newerThan(log.completedAt, cursor),
+            )
+            .sort(
+              (a: any, b: any) =>
+                new Date(a.completedAt).getTime() -
+                new Date(b.completedAt).getTime(),
+            );
+          for (const log of logs as any[]) {
+            await emitWebhookEvent(
+              log.status === "completed" ? "sync.completed" : "sync.failed",
+              {
+                syncLogId: log.id,
+                storeId: store.id,
+                storeName: store.name,
+                syncType: log.syncType || "inventory",
+                startedAt: log.startedAt || null,
+                completedAt: log.completedAt,
+                itemsProcessed: log.itemsProcessed || 0,
+                itemsUpdated: log.itemsUpdated || 0,
+                itemsCreated: log.itemsCreated || 0,
+                itemsDeleted: log.itemsDeleted || 0,
+                itemsSkipped: log.itemsSkipped || 0,
+                itemsFailed: log.itemsFailed || 0,
+                errorMessage: log.errorMessage || null,
+              },
+            );
+            cursors.syncLogs[store.id] = new Date(log.completedAt).toISOString();
+          }
+        }
+      }
+
+      if (wantSnapshots) {
+        const cursor = cursors.snapshots[store.id];
+        if (!cursor) {
+          cursors.snapshots[store.id] = now;
+        } else {
+          const snapshots = (
+            await storage.getSyncSnapshotsByStore(store.id, 20)
+          )
+            .filter((s: any) => newerThan(s.createdAt, cursor))
+            .sort(
+              (a: any, b: any) =>
+                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+            );
+          if (snapshots.length > 0) {
+            const dataSources = await storage.getDataSources();
+            const dsNames = new Map(
+              dataSources.map((ds: any) => [ds.id, ds.name]),
+            );
+            for (const s of snapshots as any[]) {
+              await emitWebhookEvent("snapshot.created", {
+                snapshotId: s.id,
+                storeId: store.id,
+                storeName: store.name,
+                dataSourceId: s.dataSourceId || null,
+                dataSourceName: s.dataSourceId
+                  ? dsNames.get(s.dataSourceId) || null
+                  : null,
+                snapshotType: s.dataSourceId ? "per-data-source" : "full-store",
+                totalVariants: s.totalVariants ?? null,
+                totalProducts: s.totalProducts ?? null,
+                createdAt: s.createdAt,
+              });
+              cursors.snapshots[store.id] = new Date(s.createdAt).toISOString();
+            }
+          }
+        }
+      }
+
+      if (wantEbay) {
+        const cursor = cursors.ebayListings[store.id];
+        if (!cursor) {
+          cursors.ebayListings[store.id] = now;
+        } else {
+          // Listings the eBay automation ended; the channel adapter sends
+          // its own and marks the activity
+          const ended = (
+            await storage.getEbayActivityLog(store.id, { since: new Date(cursor) })
+          )
+            .filter(
+              (a: any) =>
+                a.activityType === "listing_ended" &&
+                newerThan(a.createdAt, cursor),
+            )
+            .sort(
+              (a: any, b: any) =>
+                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+            );
+          for (const activity of ended as any[]) {
+            if (!activity.details?.webhookSent) {
+              await emitWebhookEvent("ebay.listing_ended", {
+                storeId: store.id,
+                listingId: activity.details?.listingId || null,
+                ebayListingId: activity.details?.ebayListingId || null,
+                ebayOfferId: activity.details?.ebayOfferId || null,
+                shopifyProductId: activity.shopifyProductId || null,
+                productTitle: activity.productTitle || null,
+                sku: activity.sku || null,
+                reason: activity.details?.reason || null,
+              });
+            }
+            cursors.ebayListings[store.id] = new Date(activity.createdAt).toISOString();
+          }
+        }
+      }
+    }
+
+    if (wantOrders) await checkNewOrders(stores);
+
+    await storage.setAppSetting(OUTBOUND_WEBHOOK_CURSORS_KEY, cursors);
+  } catch (err) {
+    console.error("[Webhooks] Error checking for sync / snapshot / order events:", err);
+  } finally {
+    watching = false;
+  }
+}
+
+/**
+ * Startup: deliveries a restart interrupted are retried, then the retry
+ * timer and the sync / snapshot / order watcher start.
+ */
+export async function startOutboundWebhooks(): Promise<void> {
+  await ensureLoaded();
+  let resumed = 0;
+  for (const delivery of deliveries.values()) {
+    if (delivery.status !== "pending") continue;
+    delivery.status = "retrying";
+    delivery.nextAttemptAt = new Date().toISOString();
+    await saveDelivery(delivery);
+    resumed++;
+  }
+  if (resumed > 0) {
+    console.log(`[Webhooks] Resuming ${resumed} interrupted deliveries`);
+  }
+
+  if (!retryTimer) {
+    retryTimer = setInterval(retryDueDeliveries, RETRY_POLL_INTERVAL_MS);
+    retryTimer.unref?.();
+  }
+  if (!watchTimer) {
+    watchTimer = setInterval(checkWebhookSources, WATCH_INTERVAL_MS);
+    watchTimer.unref?.();
+  }
+  retryDueDeliveries();
+}
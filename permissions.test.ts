@@ -0,0 +1,59 @@
+/**
+ * Route permissions — the group and action a request needs, including the
+ * path shapes Express routes the same way (any case, a trailing slash).
+ */
+
+import { test, describe } from "node:test";
+import assert from "node:assert/strict";
+import { requiredPermission } from "./permissions";
+
+describe("requiredPermission", () => {
+  test("maps methods to view / edit / destructive within the route's group", () => {
+    assert.equal(requiredPermission("GET", "/api/inventory"), "inventory.view");
+    assert.equal(requiredPermission("HEAD", "/api/inventory/123"), "inventory.view");
+    assert.equal(requiredPermission("POST", "/api/inventory/123"), "inventory.edit");
+    assert.equal(requiredPermission("DELETE", "/api/inventory/123"), "inventory.destructive");
+  });
+
+  test("the longest prefix wins and unlisted routes fall under settings", () => {
+    assert.equal(requiredPermission("GET", "/api/sync-snapshots/1"), "sync.view");
+    assert.equal(requiredPermission("GET", "/api/shopify-metafield-rules"), "shopify.view");
+    assert.equal(requiredPermission("GET", "/api/synchronise"), "settings.view");
+    assert.equal(requiredPermission("GET", "/api/unknown"), "settings.view");
+  });
+
+  test("destructive POST routes need the destructive permission", () => {
+    assert.equal(requiredPermission("POST", "/api/sync/force-clear-locks"), "sync.destructive");
+    assert.equal(
+      requiredPermission("POST", "/api/shopify/stores/s1/cleanup/execute"),
+      "shopify.destructive",
+    );
+    assert.equal(
+      requiredPermission("POST", "/api/store-backups/b1/restore-execute"),
+      "backups.destructive",
+    );
+  });
+
+  test("a trailing slash doesn't downgrade a destructive route", () => {
+    assert.equal(requiredPermission("POST", "/api/sync/force-clear-locks/"), "sync.destructive");
+    assert.equal(
+      requiredPermission("POST", "/api/shopify/stores/s1/cleanup/execute/"),
+      "shopify.destructive",
+    );
+    assert.equal(
+      requiredPermission("POST", "/api/store-backups/b1/restore-execute//"),
+      "backups.destructive",
+    );
+    assert.equal(requiredPermission("GET", "/api/team/"), "team.view");
+  });
+
+  test("matches routes and groups whatever the path's case", () => {
+    assert.equal(requiredPermission("POST", "/API/SYNC/FORCE-CLEAR-LOCKS"), "sync.destructive");
+    assert.equal(
+      requiredPermission("post", "/api/Store-Backups/b1/Restore-Execute/"),
+      "backups.destructive",
+    );
+    assert.equal(requiredPermission("GET", "/API/Team/members"), "team.view");
+    assert.equal(requiredPermission("POST", "/Api/Inventory/1"), "inventory.edit");
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * permissions.ts — Role-based permissions for the API
+ *
+ * Every /api route belongs to a group (ROUTE_GROUPS, by path prefix) and
+ * needs one action on it:
+ *
+ *   view         GET / HEAD
+ *   edit         POST / PUT / PATCH
+ *   destructive  DELETE, plus the routes in DESTRUCTIVE_ROUTES (bulk
+ *                deletes, store cleanups, lock clearing, restores)
+ *
+ * A permission is "<group>.<action>". Users get them from their role:
+ * the built-in admin / manager / member / viewer roles, or a custom role
+ * (app setting CUSTOM_ROLES_KEY) that starts from a built-in role and adds
+ * or removes permissions.
+ *
+ * enforcePermissions is mounted on /api (behind isAuthenticated) right after
+ * auth setup, so it covers every route group including the ones registered
+ * by other modules. PUBLIC_ROUTES (login, invite acceptance, OAuth
+ * callbacks) skip both. The user's role and approval are cached on the
+ * session (see sessionAccess) rather than loaded on every request.
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+
+const CUSTOM_ROLES_KEY = "custom_roles";
+
+// ============================================================
+// MODEL
+// ============================================================
+
+export const PERMISSION_GROUPS = [
+  "inventory",
+  "imports",
+  "shopify",
+  "sync",
+  "backups",
+  "channels",
+  "orders",
+  "settings",
+  "team",
+] as const;
+export type PermissionGroup = (typeof PERMISSION_GROUPS)[number];
+
+export const PERMISSION_ACTIONS = ["view", "edit", "destructive"] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+export type Permission = `${PermissionGroup}.${PermissionAction}`;
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_GROUPS.flatMap((g) =>
+  PERMISSION_ACTIONS.map((a) => `${g}.${a}` as Permission),
+);
+
+function grant(
+  groups: readonly PermissionGroup[],
+  actions: readonly PermissionAction[],
+): Permission[] {
+  return groups.flatMap((g) => actions.map((a) => `${g}.${a}` as Permission));
+}
+
+const WORK_GROUPS = PERMISSION_GROUPS.filter((g) => g !== "team");
+
+export const BUILT_IN_ROLES: Record<
+  string,
+  { label: string; permissions: Permission[] }
+> = {
+  admin: { label: "Admin", permissions: ALL_PERMISSIONS },
+  manager: {
+    label: "Manager",
+    permissions: [
+      ...grant(WORK_GROUPS, ["view", "edit"]),
+      ...grant(
+        ["inventory", "imports", "shopify", "sync", "channels", "orders"],
+        ["destructive"],
+      ),
+      "team.view",
+    ],
+  },
+  member: {
+    label: "Member",
+    permissions: [
+      ...grant(WORK_GROUPS, ["view"]),
+      ...grant(
+        ["inventory", "imports", "shopify", "sync", "channels", "orders"],
+        ["edit"],
+      ),
+    ],
+  },
+  viewer: {
+    label: "Viewer",
+    permissions: grant(WORK_GROUPS, ["view"]),
+  },
+};
+
+export interface CustomRole {
+  name: string;
+  label: string;
+  /** Built-in role the custom role starts from */
+  baseRole: string;
+  grants: Permission[];
+  revokes: Permission[];
+}
+
+// ============================================================
+// ROUTE MAPPING
+// ============================================================
+
+/** Longest matching prefix wins; unlisted routes fall under "settings" */
+const ROUTE_GROUPS: Array<[string, PermissionGroup]> = [
+  ["/api/inventory", "inventory"],
+  ["/api/stock-allocation", "inventory"],
+  ["/api/stock-reservations", "inventory"],
+  ["/api/color-mappings", "inventory"],
+  ["/api/exceptions", "inventory"],
+  ["/api/data-sources", "imports"],
+  ["/api/import-jobs", "imports"],
+  ["/api/import-logs", "imports"],
+  ["/api/ai-import", "imports"],
+  ["/api/uploads", "imports"],
+  ["/api/upload-file", "imports"],
+  ["/api/safety-net", "imports"],
+  ["/api/templates", "imports"],
+  ["/api/rules", "imports"],
+  ["/api/ai", "imports"],
+  ["/api/download-csv", "imports"],
+  ["/api/test-url-connection", "imports"],
+  ["/api/test-email-connection", "imports"],
+  ["/api/shopify", "shopify"],
+  ["/api/shopify-metafield-rules", "shopify"],
+  ["/api/sync", "sync"],
+  ["/api/sync-snapshots", "sync"],
+  ["/api/snapshot-restores", "sync"],
+  ["/api/store-backups", "backups"],
+  ["/api/download-backup", "backups"],
+  ["/api/ebay", "channels"],
+  ["/api/channels", "channels"],
+  ["/api/om", "orders"],
+  ["/api/webhooks", "settings"],
+  ["/api/dashboard", "orders"],
+  ["/api/team", "team"],
+  ["/api/audit-log", "team"],
+];
+
+const DESTRUCTIVE_ROUTES: Array<{ method: string; pattern: RegExp }> = [
+  { method: "DELETE", pattern: /^\/api\/inventory\/clear$/ },
+  { method: "POST", pattern: /^\/api\/shopify\/stores\/[^/]+\/delete-non-matching$/ },
+  { method: "POST", pattern: /^\/api\/shopify\/stores\/[^/]+\/cleanup\/execute$/ },
+  { method: "POST", pattern: /^\/api\/sync\/force-clear-locks$/ },
+  { method: "POST", pattern: /^\/api\/sync\/clear-stale-locks$/ },
+  { method: "POST", pattern: /^\/api\/sync-snapshots\/[^/]+\/restore-execute$/ },
+  { method: "POST", pattern: /^\/api\/store-backups\/[^/]+\/restore-execute$/ },
+  { method: "POST", pattern: /^\/api\/shopify\/bulk-operations\/[^/]+\/execute$/ },
+];
+
+/** Reachable without a session (auth flow, third-party redirects, token-checked pushes) */
+const PUBLIC_ROUTES: RegExp[] = [
+  /^\/api\/(login|logout|callback)$/,
+  /^\/api\/auth\//,
+  /^\/api\/ebay\/oauth\/callback$/,
+  /^\/api\/inbound-email$/,
+];
+
+export function isPublicApiRoute(path: string): boolean {
+  return PUBLIC_ROUTES.some((pattern) => pattern.test(path));
+}
+
+function routeGroup(path: string): PermissionGroup {
+  let best: [string, PermissionGroup] | undefined;
+  for (const entry of ROUTE_GROUPS) {
+    const [prefix] = entry;
+    if (path !== prefix && !path.startsWith(prefix + "/")) continue;
+    if (!best || prefix.length > best[0].length) best = entry;
+  }
+  return best ? best[1] : "settings";
+}
+
+/**
+ * Express routes ignore case and a trailing slash, so the path is matched
+ * in that form too — "/API/Sync/force-clear-locks/" is still destructive.
+ */
+function normalizeRoutePath(path: string): string {
+  return path.toLowerCase().replace(/\/+$/, "");
+}
+
+export function requiredPermission(method: string, path: string): Permission {
+  const normalized = normalizeRoutePath(path);
+  const group = routeGroup(normalized);
+  const upper = method.toUpperCase();
+  if (
+    upper === "DELETE" ||
+    DESTRUCTIVE_ROUTES.some((r) => r.method === upper && r.pattern.test(normalized))
+  ) {
+    return `${group}.destructive`;
+  }
+  if (upper === "GET" || upper === "HEAD") return `${group}.view`;
+  return `${group}.edit`;
+}
+
+// ============================================================
+// ROLES
+// ============================================================
+
+let customRolesCache: CustomRole[] | null = null;
+
+export async function getCustomRoles(): Promise<CustomRole[]> {
+  if (!customRolesCache) {
+    customRolesCache =
+      ((await storage.getAppSetting(CUSTOM_ROLES_KEY))?.roles as CustomRole[]) ||
+      [];
+  }
+  return customRolesCache;
+}
+
+export async function saveCustomRole(
+  input: any,
+): Promise<{ role?: CustomRole; error?: string }> {
+  const name = String(input?.name || "")
+    .trim()
+    .toLowerCase();
+  if (!/^[a-z][a-z0-9_-]{1,31}$/.test(name)) {
+    return {
+      error: "Role name must be 2-32 characters: letters, digits, - or _",
+    };
+  }
+  if (BUILT_IN_ROLES[name]) {
+    return { error: `"${name}" is a built-in role` };
+  }
+  const baseRole = input.baseRole || "viewer";
+  if (!BUILT_IN_ROLES[baseRole]) {
+    return { error: `Unknown base role "${baseRole}"` };
+  }
+  const grants: string[] = Array.isArray(input.grants) ? input.grants : [];
+  const revokes: string[] = Array.isArray(input.revokes) ? input.revokes : [];
+  const unknown = [...grants, ...revokes].filter(
+    (p) => !ALL_PERMISSIONS.includes(p as Permission),
+  );
+  if (unknown.length > 0) {
+    return { error: `Unknown permissions: ${unknown.join(", ")}` };
+  }
+
+  const role: CustomRole = {
+    name,
+    label: input.label || name,
+    baseRole,
+    grants: grants as Permission[],
+    revokes: revokes as Permission[],
+  };
+  const roles = (await getCustomRoles()).filter((r) => r.name !== name);
+  roles.push(role);
+  await storage.setAppSetting(CUSTOM_ROLES_KEY, { roles });
+  customRolesCache = roles;
+  return { role };
+}
+
+/** False when the role doesn't exist or users still have it */
+export async function deleteCustomRole(
+  name: string,
+): Promise<{ success: boolean; error?: string }> {
+  const roles = await getCustomRoles();
+  if (!roles.some((r) => r.name === name)) {
+    return { success: false, error: "Role not found" };
+  }
+  const users = await storage.getAllUsers();
+  const assigned = users.filter((u: any) => u.role === name).length;
+  if (assigned > 0) {
+    return {
+      success: false,
+      error: `${assigned} team member(s) still have this role`,
+    };
+  }
+  const remaining = roles.filter((r) => r.name !== name);
+  await storage.setAppSetting(CUSTOM_ROLES_KEY, { roles: remaining });
+  customRolesCache = remaining;
+  return { success: true };
+}
+
+export async function isKnownRole(role: string): Promise<boolean> {
+  return (
+    !!BUILT_IN_ROLES[role] || (await getCustomRoles()).some((r) => r.name === role)
+  );
+}
+
+/** Permissions a role grants (unknown roles get none) */
+export async function getRolePermissions(
+  role: string | null | undefined,
+): Promise<Set<Permission>> {
+  if (!role) return new Set();
+  if (BUILT_IN_ROLES[role]) return new Set(BUILT_IN_ROLES[role].permissions);
+  const custom = (await getCustomRoles()).find((r) => r.name === role);
+  if (!custom) return new Set();
+  const permissions = new Set(BUILT_IN_ROLES[custom.baseRole]?.permissions);
+  for (const p of custom.grants) permissions.add(p);
+  for (const p of custom.revokes) permissions.delete(p);
+  return permissions;
+}
+
+/** Every role with its effective permissions, for the team page matrix */
+export async function getPermissionMatrix(): Promise<{
+  groups: readonly PermissionGroup[];
+  actions: readonly PermissionAction[];
+  roles: Array<{
+    name: string;
+    label: string;
+    builtIn: boolean;
+    baseRole?: string;
+    permissions: Permission[];
+  }>;
+}> {
+  const roles = [];
+  for (const [name, role] of Object.entries(BUILT_IN_ROLES)) {
+    roles.push({
+      name,
+      label: role.label,
+      builtIn: true,
+      permissions: role.permissions,
+    });
+  }
+  for (const role of await getCustomRoles()) {
+    roles.push({
+      name: role.name,
+      label: role.label,
+      builtIn: false,
+      baseRole: role.baseRole,
+      permissions: [...(await getRolePermissions(role.name))],
+    });
+  }
+  return { groups: PERMISSION_GROUPS, actions: PERMISSION_ACTIONS, roles };
+}
+
+// ============================================================
+// MIDDLEWARE
+// ============================================================
+
+// Role and approval are kept on the session; team changes bump the version
+// so every session reloads them on its next request
+const SESSION_ACCESS_TTL_MS = 5 * 60 * 1000;
+let accessVersion = 0;
+
+interface SessionAccess {
+  userId: string;
+  role: string | null;
+  isApproved: boolean;
+  version: number;
+  loadedAt: number;
+}
+
+/** Call after changing a user's role or approval, or removing a user */
+export function invalidateSessionAccess(): void {
+  accessVersion++;
+}
+
+async function sessionAccess(
+  req: Request,
+  userId: string,
+): Promise<SessionAccess | null> {
+  const session = (req as any).session;
+  const cached: SessionAccess | undefined = session?.access;
+  if (
+    cached &&
+    cached.userId === userId &&
+    cached.version === accessVersion &&
+    Date.now() - cached.loadedAt < SESSION_ACCESS_TTL_MS
+  ) {
+    return cached;
+  }
+
+  const user: any = await storage.getUser(userId);
+  if (!user) {
+    if (session) delete session.access;
+    return null;
+  }
+  const access: SessionAccess = {
+    userId,
+    role: user.role || null,
+    isApproved: !!user.isApproved,
+    version: accessVersion,
+    loadedAt: Date.now(),
+  };
+  if (session) session.access = access;
+  return access;
+}
+
+/**
+ * Checks the signed-in user's role against the route's required permission.
+ * 401 without a session, 403 for unapproved users or a missing permission.
+ */
+export async function enforcePermissions(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const path = req.baseUrl + req.path;
+  if (isPublicApiRoute(path)) return next();
+
+  try {
+    const userId = (req as any).user?.claims?.sub;
+    if (!userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    const user = await sessionAccess(req, userId);
+    if (!user || !user.isApproved) {
+      return res.status(403).json({ message: "Account not approved" });
+    }
+
+    const permission = requiredPermission(req.method, path);
+    const permissions = await getRolePermissions(user.role);
+    if (!permissions.has(permission)) {
+      return res.status(403).json({
+        message: `Your role (${user.role || "none"}) does not have ${permission}`,
+        requiredPermission: permission,
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking permissions:", error);
+    res.status(500).json({ message: "Failed to check permissions" });
+  }
+}
@@ -31,8 +31,6 @@ import {
 import {
   ShopifyService,
   connectShopifyStore,
-  syncInventoryToShopify,
-  syncInventoryToShopifySequential,
   syncSalesFileToShopify,
   fetchShopifyProducts,
   createShopifyService,
@@ -51,7 +49,6 @@ import {
   clearAllSyncLocks,
   clearStaleSyncLocks,
 } from "./shopify";
-import { triggerShopifySyncAfterImport } from "./scheduler";
 import { registerVendorImportRoutes } from "./vendorImportRoutes";
 import aiImportRoutes, {
   autoDetectPivotFormat,
@@ -59,6 +56,12 @@ import aiImportRoutes, {
   fixSheetRange,
   UniversalParserConfig,
 } from "./aiImportRoutes";
+import {
+  detectFormatFromBuffer,
+  getFormatPlugin,
+  readFirstSheetRows,
+  type FormatPlugin,
+} from "./formatPlugins";
 import {
   setupAuth,
   isAuthenticated,
@@ -92,12 +95,6 @@ import {
 import { validateImportFile, logValidationFailure } from "./importValidator";
 import {
   parsePivotedExcelToInventory,
-  parseGenericPivotFormat,
-  parseOTSFormat,
-  isOTSFormat,
-  parseGRNInvoiceFormat,
-  parsePRDateHeaderFormat,
-  parseStoreMultibrandFormat,
   registerSaleFileStyles,
   filterDiscontinuedStyles,
   removeDiscontinuedInventoryItems,
@@ -116,7 +113,130 @@ import {
 } from "./inventoryProcessing";
 import { startImport, completeImport, failImport } from "./importState";
 import { registerGlobalValidatorRoutes } from "./globalValidator";
-import { executeImport, calculateItemStockInfo, getStockInfoRule, getStylePrefix, checkSafetyThreshold, toTitleCase } from "./importEngine";
+import { executeImport, commitQuarantinedImport, calculateItemStockInfo, getStockInfoRule, getStylePrefix, toTitleCase, type ImportOptions } from "./importEngine";
+import {
+  registerImportJobRunner,
+  enqueueImportJob,
+  waitForImportJob,
+  getImportJob,
+  listImportJobs,
+  cancelImportJob,
+  recoverImportJobs,
+  startImportJobQueue,
+  isTerminalImportJob,
+  onImportJobFinished,
+  type ImportJobStatus,
+} from "./importJobQueue";
+import {
+  DEFAULT_SAFETY_NET_POLICIES,
+  getSafetyNetPolicies,
+  evaluateSafetyNetPolicies,
+  recordSafetyNetReview,
+  listSafetyNetReviews,
+  getSafetyNetReview,
+  getQuarantinedImport,
+  decideSafetyNetReview,
+  type SafetyNetCheckName,
+  type SafetyNetPolicies,
+  type SafetyNetReviewStatus,
+} from "./safetyNetPolicies";
+import { buildInventoryDiff } from "./importDryRun";
+import {
+  startSnapshotRestore,
+  getSnapshotRestore,
+  listSnapshotRestores,
+  cancelSnapshotRestore,
+  isTerminalSnapshotRestore,
+  loadSnapshotVariants,
+  type SnapshotRestoreField,
+} from "./snapshotRestore";
+import { getChannelAdapter, listChannelAdapters } from "./channelAdapters";
+import { ebayChannelAdapter } from "./ebayChannelAdapter";
+import {
+  getChannelSyncConfig,
+  saveChannelSyncConfig,
+  resolveChannelContext,
+  syncChannelStock,
+} from "./channelSync";
+import {
+  diffSyncSnapshots,
+  limitSnapshotDiff,
+  snapshotDiffToCsv,
+  type VariantMeta,
+} from "./snapshotDiff";
+import {
+  getStockAllocationRules,
+  saveStockAllocationRules,
+  buildStockAllocator,
+  buildStockAllocators,
+} from "./stockAllocation";
+import {
+  syncEbayStock,
+  syncShopifyAfterImport,
+  syncShopifyStock,
+} from "./allocatedStockSync";
+import {
+  getReservationLedger,
+  rebuildReservationLedger,
+  loadReservationLookup,
+} from "./stockReservations";
+import {
+  enforcePermissions,
+  invalidateSessionAccess,
+  isPublicApiRoute,
+  isKnownRole,
+  getRolePermissions,
+  getPermissionMatrix,
+  saveCustomRole,
+  deleteCustomRole,
+} from "./permissions";
+import {
+  auditRequests,
+  annotateAudit,
+  queryAuditLog,
+  getAuditEntry,
+  getAuditDeletions,
+  auditLogToCsv,
+  type AuditDeletion,
+} from "./auditLog";
+import {
+  getConfigVersions,
+  getConfigVersion,
+  diffConfigVersions,
+  revertConfigVersion,
+  recordConfigChange,
+  updateDataSourceConfig,
+  tagImportLogsWithConfigVersion,
+} from "./dataSourceConfigHistory";
+import { getEmailLedger, getLedgerMessage } from "./emailLedger";
+import {
+  receiveInboundEmail,
+  isInboundRequestAuthorized,
+  readInboundBody,
+  startInboundSmtpServer,
+} from "./emailInbound";
+import {
+  fetchUrlSource,
+  probeUrlSource,
+  urlFetchOptionsFor,
+  urlTestOptionsFor,
+  needsUrlFetcher,
+} from "./urlFetchers";
+import {
+  WEBHOOK_EVENTS,
+  getOutboundWebhooks,
+  saveOutboundWebhook,
+  deleteOutboundWebhook,
+  redactWebhook,
+  listWebhookDeliveries,
+  getWebhookDelivery,
+  redeliverWebhook,
+  sendTestWebhook,
+  emitImportJobEvent,
+  checkWebhookSources,
+  startOutboundWebhooks,
+  type WebhookDeliveryStatus,
+} from "./outboundWebhooks";
 export { getSizeRank };
 
 // ============================================================
@@ -301,11 +421,15 @@ export async function triggerAutoConsolidationAfterImport(
   }
 }
 
-// Shared URL import processing function - used by both manual route and scheduler
+// Shared URL import processing function - used by both manual route and scheduler.
+// Without a buffer, the file is downloaded with the fetcher for the source's
+// link style (urlFetchers.ts). The scheduler downloads with a plain GET, which
+// can't carry the source's auth or follow share links, so those sources are
+// always downloaded again here.
 export async function processUrlDataSourceImport(
   dataSourceId: string,
-  buffer: Buffer,
-  filename: string,
+  buffer?: Buffer,
+  filename?: string,
 ): Promise<{
   success: boolean;
   itemCount?: number;
@@ -328,6 +452,19 @@ export async function processUrlDataSourceImport(
       return { success: false, error: `Sale file not imported: ${saleImportCheck.warningMessage}` };
     }
 
+    const connectionDetails = dataSource.connectionDetails as any;
+    if (!buffer || !filename || needsUrlFetcher(connectionDetails)) {
+      if (!connectionDetails?.url) {
+        return { success: false, error: "No URL configured for this data source" };
+      }
+      const file = await fetchUrlSource(
+        connectionDetails.url,
+        urlFetchOptionsFor(connectionDetails),
+      );
+      buffer = file.buffer;
+      filename = file.filename;
+    }
+
     // SAFETY NET: Validate file before import
     const validationConfig = (dataSource as any).importValidationConfig || {};
     if (validationConfig.enabled !== false) {
@@ -338,25 +475,28 @@ export async function processUrlDataSourceImport(
       }
     }
 
-    // Use unified import engine (FIXES BUG: now includes deduplicateAndZeroFutureStock)
-    const result = await executeImport({
-      fileBuffers: [{ buffer, originalname: filename }],
+    // Queued URL job runs the unified import engine (FIXES BUG: now includes
+    // deduplicateAndZeroFutureStock); the scheduler runs its own post-import hooks
+    const job = await enqueueImportJob({
+      kind: "url",
       dataSourceId,
-      source: 'url',
-      dataSource,
+      files: [{ buffer, originalname: filename }],
+      params: { postImportHooks: false },
     });
+    const finished = await waitForImportJob(job.id);
 
-    if (!result.success) {
-      return { success: false, error: result.error };
+    if (!finished.result?.success) {
+      return { success: false, error: finished.result?.error || finished.error };
     }
 
+    const stats = finished.result.details?.stats;
     return {
       success: true,
-      itemCount: result.itemCount,
-      noSizeRemoved: result.stats?.noSizeRemoved,
-      colorsFixed: result.stats?.colorsFixed,
-      duplicatesRemoved: result.stats?.duplicatesRemoved,
-      headers: result.headers,
+      itemCount: finished.result.itemCount,
+      noSizeRemoved: stats?.noSizeRemoved,
+      colorsFixed: stats?.colorsFixed,
+      duplicatesRemoved: stats?.duplicatesRemoved,
+      headers: finished.result.details?.headers,
     };
   } catch (error: any) {
     console.error("[URL Import] Error:", error);
@@ -410,554 +550,55 @@ const upload = {
   fields: (fields: any) => [_multer.fields(fields), loadBufferFromDisk],
 };
 
-// Helper function to detect and parse Tarik Ediz pivoted format
-function parseTarikEdizFormat(
-  buffer: Buffer,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    raw: false,
-  }) as any[][]; // CRITICAL FIX: Match Email import raw: false for consistent parsing
-
-  if (data.length === 0) return null;
-
-  // Detect Tarik Ediz format: First row contains "Up-to-Date Product Inventory Report"
-  // or company name contains "EDİZ" or "EDIZ"
-  const firstRowText = String(data[0]?.[0] || "").toLowerCase();
-  const secondRowText = String(data[1]?.[0] || "").toLowerCase();
-
-  const isTarikEdizFormat =
-    firstRowText.includes("up-to-date product inventory") ||
-    firstRowText.includes("inventory report") ||
-    secondRowText.includes("ediz") ||
-    secondRowText.includes("edi̇z");
-
-  if (!isTarikEdizFormat) return null;
-
-  console.log("Detected Tarik Ediz pivoted format - applying special parsing");
-
-  // Parse the pivoted format
-  const masterData: any[][] = [];
-  const headers = ["style", "color", "size", "stock", "shipDate"];
-
-  let currentStyle = "";
-  let sizeHeaders: { index: number; size: string }[] = [];
-
-  // Helper to detect if first cell is a date (DD/MM/YYYY or similar)
-  const isDateString = (val: string): boolean => {
-    // Match patterns like 24/03/2026, 2026-03-24, etc.
-    return (
-      /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(val) ||
-      /^\d{4}-\d{2}-\d{2}$/.test(val) ||
-      /^\d{1,2}-\d{1,2}-\d{4}$/.test(val)
-    );
-  };
-
-  // Helper to parse date string to ISO format
-  const parseDateToISO = (val: string): string | null => {
-    // DD/MM/YYYY format (European)
-    const ddmmyyyy = val.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (ddmmyyyy) {
-      const [, day, month, year] = ddmmyyyy;
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-    // Already ISO format
-    if (/^\d{4}-\d{2}-\d{2}$/.test(val)) {
-      return val;
-    }
-    return null;
-  };
-
-  for (let i = 0; i < data.length; i++) {
-    const row = data[i];
-    if (!row || row.length === 0) continue;
-
-    const firstCell = String(row[0] || "").trim();
-
-    // Product header rows have sizes like '0', '2', '4', etc. starting around column 13
-    // and have a product name in column 7
-    if (row[13] && String(row[13]).match(/^\d+$/) && row[7]) {
-      currentStyle = firstCell;
-
-      // Extract size headers from this row
-      sizeHeaders = [];
-      for (let j = 13; j < row.length - 1; j++) {
-        if (row[j] !== null && row[j] !== undefined && row[j] !== "") {
-          sizeHeaders.push({ index: j, size: String(row[j]) });
-        }
-      }
-      continue;
-    }
-
-    // Data rows can start with:
-    // - 'D' for current inventory
-    // - A date string (e.g., '24/03/2026') for future ship dates
-    // Both have color in column 11
-    const isCurrentStock = firstCell === "D";
-    const isFutureShipDate = isDateString(firstCell);
-
-    if ((isCurrentStock || isFutureShipDate) && row[11] && currentStyle) {
-      const color = String(row[11]).trim();
-      const shipDate = isFutureShipDate ? parseDateToISO(firstCell) : null;
-
-      // Extract stock values for each size
-      for (const sh of sizeHeaders) {
-        const stock = row[sh.index];
-        const stockNum =
-          stock !== null && stock !== undefined && !isNaN(Number(stock))
-            ? Number(stock)
-            : 0;
-
-        // CRITICAL FIX: Include ALL items, not just stock > 0
-        // Items with future ship dates should be included even with 0 current stock
-        // The futureStockConfig will handle preserving these based on ship date
-        if (stockNum > 0 || shipDate) {
-          masterData.push([currentStyle, color, sh.size, stockNum, shipDate]);
-        }
-      }
-    }
-  }
-
-  console.log(
-    `[TarikEdiz] Parsed ${masterData.length} items (including future ship date items with 0 stock)`,
-  );
-
-  // Convert to items format
-  const items = masterData.map((row) => ({
-    sku: row[0],
-    style: row[0],
-    color: row[1],
-    size: row[2],
-    stock: row[3],
-    shipDate: row[4] || null,
-    // CRITICAL: Set hasFutureStock flag for items with future ship dates
-    // This prevents them from being filtered by stock threshold
-    hasFutureStock: row[4] ? true : false,
-    preserveZeroStock: row[4] && row[3] === 0 ? true : false,
-    rawData: {
-      style: row[0],
-      color: row[1],
-      size: row[2],
-      stock: row[3],
-      shipDate: row[4],
-    },
-  }));
-
-  return {
-    headers,
-    rows: masterData,
-    items,
-  };
-}
-
-// Helper function to detect and parse Jovani pivoted format
-// Format: Style rows have style/price, color rows have color/stock values
-// Row 1: [null, "00", 0, 2, 4, ...] - size headers
-// Style row: ["#02861", 175, ...] - style in col 0, price in col 1
-// Color row: ["Taupe-Off-White", 1, 1, 1, ...] - color in col 0, stock values
-function parseJovaniFormat(
+// Helper function to run a vendor format plugin (formatPlugins/) on an
+// uploaded file and shape its items like the row parser below
+function parseWithFormatPlugin(
   buffer: Buffer,
+  plugin: FormatPlugin,
   cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  // Check if Jovani format is explicitly enabled
-  if (cleaningConfig?.pivotedFormat?.vendor !== "jovani") return null;
-
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    raw: false,
-  }) as any[][]; // CRITICAL FIX: Match Email import raw: false for consistent parsing
-
-  if (data.length === 0) return null;
-
-  console.log("Parsing Jovani pivoted format");
-
-  // Row 0 contains size headers starting at column 1
-  // Format: [null, "00", 0, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20, 22, 24, "LOCATION"]
-  const headerRow = data[0];
-  const sizeHeaders: { index: number; size: string }[] = [];
-
-  for (let i = 1; i < headerRow.length; i++) {
-    const cell = headerRow[i];
-    const cellStr = String(cell ?? "")
-      .trim()
-      .toUpperCase();
-    // Skip non-size columns like "LOCATION"
-    if (cellStr === "LOCATION" || cellStr === "") continue;
-    // Size values are typically numbers or "00"
-    sizeHeaders.push({ index: i, size: String(cell) });
-  }
-
-  console.log(`Found ${sizeHeaders.length} size columns in Jovani format`);
-
-  if (sizeHeaders.length === 0) return null;
-
-  // Parse data rows
-  const masterData: any[][] = [];
-  const outputHeaders = ["style", "color", "size", "stock", "price"];
-
-  let currentStyle = "";
-  let currentPrice: number | null = null;
-
-  // Invalid color values to filter out (headers, totals, etc.)
-  const invalidColorPatterns =
-    /^(SIZE|SIZES|TOTAL|SUBTOTAL|SUM|COUNT|QTY|QUANTITY|STOCK|INVENTORY|DESCRIPTION|DESC|COLOR|COLOURS?|STYLE|STYLES?|PRICE|COST|LOCATION|WAREHOUSE|NOTES?|COMMENTS?)$/i;
-
-  // Helper to check if row has stock values in size columns
-  const hasStockValues = (row: any[]): boolean => {
-    for (const sh of sizeHeaders) {
-      const val = row[sh.index];
-      if (
-        val !== null &&
-        val !== undefined &&
-        val !== "" &&
-        !isNaN(Number(val)) &&
-        Number(val) > 0
-      ) {
-        return true;
-      }
-    }
-    return false;
-  };
-
-  // Helper to detect if a row is a style row
-  // Style rows: col 0 matches style pattern (starts with #, JVN, JB, D, AL or is numeric)
-  // Option 1: col 1 has a price > 10
-  // Option 2: No stock values in size columns (style without price in sale files)
-  const isStyleRow = (row: any[]): boolean => {
-    if (!row || row.length < 2) return false;
-    const col0 = String(row[0] ?? "").trim();
-    const col1 = row[1];
-
-    // Style patterns: #02861, JVN04759, JB38224, D2020, AL12345, 37001, 1012, etc.
-    // - Pure numbers (4-6 digits)
-    // - # followed by 4-6 digits
-    // - JVN/JB/AL followed by 3-6 digits
-    // - D followed by 3-5 digits
-    const isStylePattern =
-      /^#?\d{4,6}$/.test(col0) ||
-      /^(?:JVN|JB|AL)\d{3,6}$/i.test(col0) ||
-      /^D\d{3,5}$/i.test(col0);
-    if (!isStylePattern) return false;
-
-    // Price can be number or string - parse it
-    let priceValue = 0;
-    if (typeof col1 === "number") {
-      priceValue = col1;
-    } else if (col1 !== null && col1 !== undefined) {
-      const parsed = parseFloat(String(col1).replace(/[$,]/g, ""));
-      if (!isNaN(parsed)) priceValue = parsed;
-    }
-
-    // If price > 10, definitely a style row
-    if (priceValue > 10) return true;
-
-    // If style pattern but no price, check if it has stock values
-    // Style rows without prices (sale files) won't have stock values
-    // Color rows have stock values in size columns
-    if (!hasStockValues(row)) {
-      return true; // Style pattern + no stock = style row without price
-    }
-
-    return false;
-  };
-
-  // Helper to detect if a row is a color row (has stock values)
-  const isColorRow = (row: any[]): boolean => {
-    if (!row || row.length < 2) return false;
-    const col0 = String(row[0] ?? "").trim();
-
-    // Color row has a non-empty text in col 0 that's not a style pattern
-    // Exclude: #12345, JVN/JB/AL + digits, D + digits, pure 4-6 digit numbers
-    if (
-      !col0 ||
-      /^#?\d{4,6}$/.test(col0) ||
-      /^(?:JVN|JB|AL)\d{3,6}$/i.test(col0) ||
-      /^D\d{3,5}$/i.test(col0)
-    )
-      return false;
-
-    // Filter out invalid color values (headers, totals, etc.)
-    if (invalidColorPatterns.test(col0)) return false;
-
-    // Colors must have at least 2 letters and no digits
-    // This prevents numeric values from slipping through as colors
-    if (!/[a-zA-Z]{2,}/.test(col0) || /\d/.test(col0)) return false;
-
-    // And has numeric values in stock columns
-    let hasStock = false;
-    for (const sh of sizeHeaders) {
-      const val = row[sh.index];
-      if (
-        typeof val === "number" ||
-        (val !== null && val !== undefined && !isNaN(Number(val)))
-      ) {
-        hasStock = true;
-        break;
-      }
-    }
-    return hasStock;
-  };
-
-  // Debug: track styles and colors for troubleshooting
-  const stylesFound: string[] = [];
-  const colorsByStyle: Record<string, string[]> = {};
-
-  for (let i = 1; i < data.length; i++) {
-    const row = data[i];
-    if (!row || row.length === 0) continue;
-
-    const col0 = String(row[0] ?? "").trim();
-
-    if (isStyleRow(row)) {
-      // Update current style and price
-      currentStyle = col0;
-      currentPrice =
-        typeof row[1] === "number"
-          ? row[1]
-          : parseFloat(String(row[1])) || null;
-      stylesFound.push(`${currentStyle} (price: ${currentPrice})`);
-      if (!colorsByStyle[currentStyle]) colorsByStyle[currentStyle] = [];
-      continue;
-    }
-
-    if (isColorRow(row) && currentStyle) {
-      const color = col0;
-
-      // Track colors per style for debugging
-      if (!colorsByStyle[currentStyle]) colorsByStyle[currentStyle] = [];
-      if (!colorsByStyle[currentStyle].includes(color)) {
-        colorsByStyle[currentStyle].push(color);
-      }
-
-      // Extract stock values for each size
-      for (const sh of sizeHeaders) {
-        const stock = row[sh.index];
-        if (stock !== null && stock !== undefined) {
-          const stockNum =
-            typeof stock === "number" ? stock : parseFloat(String(stock));
-          if (!isNaN(stockNum)) {
-            // Include all items (even zero stock) - filtering happens later
-            masterData.push([
-              currentStyle,
-              color,
-              sh.size,
-              stockNum,
-              currentPrice,
-            ]);
-          }
-        }
+): { headers: string[]; rows: any[][]; items: any[] } {
+  const data = readFirstSheetRows(buffer);
+  const config: UniversalParserConfig = cleaningConfig?.stockTextMappings
+    ? {
+        stockConfig: {
+          type: "text",
+          textMappings: cleaningConfig.stockTextMappings,
+        },
       }
-    }
-  }
-
-  // Log any styles that have suspicious color assignments (for debugging)
-  const targetStyles = ["37001", "#37001", "38849", "#38849"];
-  for (const style of targetStyles) {
-    if (colorsByStyle[style]) {
-      console.log(
-        `[Jovani Debug] Style ${style} has colors: ${colorsByStyle[style].join(", ")}`,
-      );
-    }
-  }
-
-  console.log(`Parsed ${masterData.length} items from Jovani pivoted format`);
-
-  // Convert to items format
-  const items = masterData.map((row) => ({
-    sku: row[0],
-    style: applyCleaningToValue(String(row[0] || ""), cleaningConfig, "style"),
-    color: row[1],
-    size: row[2],
-    stock: row[3],
-    price: row[4],
-    rawData: {
-      style: row[0],
-      color: row[1],
-      size: row[2],
-      stock: row[3],
-      price: row[4],
-    },
-  }));
-
-  return {
-    headers: outputHeaders,
-    rows: masterData,
-    items,
-  };
-}
-
-// ============================================================
-// SHERRI HILL FORMAT PARSER
-// Format: Style, Color, Custom, Special Date, Size1, Special Date, Size2, Special Date, ...
-// Stock values: "Yes", "Last Piece", "No" (text-based)
-// ============================================================
-function parseSherriHillFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-    raw: false, // CRITICAL FIX: Match Email import raw: false for consistent parsing
-  }) as any[][];
-
-  if (data.length < 2) return null;
+    : {};
 
-  // Check if this is Sherri Hill format
-  const headerStr = data[0]
-    .map((h: any) => String(h || "").toUpperCase())
-    .join("|");
-  if (!headerStr.includes("SPECIAL DATE")) return null;
-
-  console.log(
-    `[SherriHill] Parsing Sherri Hill format with ${data.length} rows`,
-  );
+  const pivotItems = plugin.parse(data, config, { rawData: data });
   console.log(
-    `[SherriHill] cleaningConfig.stockTextMappings:`,
-    JSON.stringify(cleaningConfig?.stockTextMappings),
+    `[FileParser] Using ${plugin.name} parser - found ${pivotItems.length} items`,
   );
 
-  const headerRow = data[0];
-  const sizePattern =
-    /^(OO0|OOO|OO|0|2|4|6|8|10|12|14|16|18|20|22|24|26|28|30)$/i;
-  const sizeColumns: { index: number; size: string; dateIndex: number }[] = [];
-
-  // Find size columns (every other column starting from index 4)
-  for (let i = 4; i < headerRow.length; i += 2) {
-    const h = String(headerRow[i] ?? "").trim();
-    if (sizePattern.test(h)) {
-      let normalizedSize = h;
-      if (h.toUpperCase() === "OO0" || h.toUpperCase() === "OOO")
-        normalizedSize = "000";
-      else if (h.toUpperCase() === "OO") normalizedSize = "00";
-      sizeColumns.push({ index: i, size: normalizedSize, dateIndex: i + 1 });
-    }
-  }
-
-  if (sizeColumns.length === 0) {
-    console.log(`[SherriHill] No size columns found`);
-    return null;
-  }
-
-  console.log(`[SherriHill] Found ${sizeColumns.length} size columns`);
-
-  // Parse stock value with text mappings
-  const parseStockValue = (value: any): number => {
-    if (value === null || value === undefined || value === "") return 0;
-    if (typeof value === "number") return Math.max(0, Math.floor(value));
-
-    const strVal = String(value).trim().toLowerCase();
-
-    // Check custom text mappings first
-    if (
-      cleaningConfig?.stockTextMappings &&
-      Array.isArray(cleaningConfig.stockTextMappings)
-    ) {
-      for (const mapping of cleaningConfig.stockTextMappings) {
-        if (mapping.text && mapping.text.toLowerCase().trim() === strVal) {
-          return mapping.value;
-        }
-      }
-    }
-
-    // Default mappings
-    const defaults: Record<string, number> = {
-      yes: 1,
-      no: 0,
-      "last piece": 1,
-      lastpiece: 1,
-      "in stock": 1,
-      "sold out": 0,
-      "out of stock": 0,
-      "&ndash;": 0,
-      "&ndash; ": 0,
-      "–": 0,
-      "-": 0,
-      "n/a": 0,
+  const items = pivotItems.map((item) => {
+    const style = applyCleaningToValue(
+      String(item.style || ""),
+      cleaningConfig,
+      "style",
+    );
+    return {
+      ...item,
+      sku: style,
+      style,
+      // Future ship dates keep 0-stock items past the stock threshold
+      hasFutureStock: item.shipDate ? true : false,
+      preserveZeroStock: item.shipDate && item.stock === 0 ? true : false,
+      rawData: { ...item },
     };
-    if (defaults[strVal] !== undefined) return defaults[strVal];
-
-    const parsed = parseInt(strVal, 10);
-    return isNaN(parsed) ? 0 : Math.max(0, parsed);
-  };
-
-  const items: any[] = [];
-  const masterData: any[][] = [];
-
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const style = String(row[0] ?? "").trim();
-    const color = String(row[1] ?? "").trim();
-    if (!style || !color) continue;
-
-    for (const sc of sizeColumns) {
-      const stock = parseStockValue(row[sc.index]);
-      const dateVal = row[sc.dateIndex];
-      let shipDate: string | null = null;
-
-      // Parse ship date if present and not a dash
-      if (
-        dateVal &&
-        dateVal !== "&ndash;" &&
-        dateVal !== "&ndash; " &&
-        dateVal !== "–"
-      ) {
-        if (typeof dateVal === "number" && dateVal > 40000) {
-          // Excel serial date
-          const date = new Date((dateVal - 25569) * 86400 * 1000);
-          shipDate = date.toISOString().split("T")[0];
-        } else if (
-          typeof dateVal === "string" &&
-          dateVal.match(/\d{4}-\d{2}-\d{2}/)
-        ) {
-          shipDate = dateVal;
-        } else if (typeof dateVal === "string" && dateVal.trim()) {
-          // Handle US-format dates (M/D/YYYY) from raw:false Excel parsing
-          const parsedDate = new Date(dateVal.trim());
-          if (!isNaN(parsedDate.getTime())) {
-            shipDate = parsedDate.toISOString().split("T")[0];
-          }
-        }
-      }
-
-      // Only add items with stock > 0 or future ship date
-      if (stock > 0 || shipDate) {
-        const item = {
-          style,
-          color,
-          size: sc.size,
-          stock,
-          shipDate,
-          hasFutureStock: shipDate ? true : false,
-          preserveZeroStock: shipDate && stock === 0 ? true : false,
-        };
-        items.push(item);
-        masterData.push([style, color, sc.size, stock, null, null, shipDate]);
-      }
-    }
-  }
-
-  console.log(
-    `[SherriHill] Parsed ${items.length} items with stock > 0 or future date`,
-  );
+  });
 
   return {
-    headers: ["Style", "Color", "Size", "Stock", "Cost", "Price", "ShipDate"],
-    rows: masterData,
+    headers: ["Style", "Color", "Size", "Stock", "Price", "ShipDate"],
+    rows: items.map((item) => [
+      item.style,
+      item.color,
+      item.size,
+      item.stock,
+      item.price ?? null,
+      item.shipDate ?? null,
+    ]),
     items,
   };
 }
@@ -1175,19 +816,21 @@ function parseExcelToInventory(
   columnMapping: any,
   cleaningConfig: any,
 ): { headers: string[]; rows: any[][]; items: any[] } {
-  // Try Sherri Hill format first (auto-detect by "SPECIAL DATE" in headers)
-  const sherriHillResult = parseSherriHillFormat(buffer, cleaningConfig);
-  if (sherriHillResult) {
-    console.log(
-      `[FileParser] Using Sherri Hill parser - found ${sherriHillResult.items.length} items`,
-    );
-    return sherriHillResult;
+  // Sherri Hill first (auto-detect by "SPECIAL DATE" in headers, CSV or Excel)
+  const sherriHill = detectFormatFromBuffer(buffer, undefined, undefined, {
+    candidates: ["sherri_hill"],
+  });
+  if (sherriHill) {
+    return parseWithFormatPlugin(buffer, sherriHill.plugin, cleaningConfig);
   }
 
-  // First, try Jovani pivoted format if configured
-  const jovaniResult = parseJovaniFormat(buffer, cleaningConfig);
-  if (jovaniResult) {
-    return jovaniResult;
+  // Jovani pivoted format if configured
+  if (cleaningConfig?.pivotedFormat?.vendor === "jovani") {
+    return parseWithFormatPlugin(
+      buffer,
+      getFormatPlugin("jovani_sale")!,
+      cleaningConfig,
+    );
   }
 
   // Try generic pivoted format if configured
@@ -1200,28 +843,13 @@ function parseExcelToInventory(
     return pivotedResult;
   }
 
-  // Try to detect special pivoted formats (Tarik Ediz)
-  const tarikEdizResult = parseTarikEdizFormat(buffer);
-  if (tarikEdizResult) {
-    // Apply cleaning to the items
-    tarikEdizResult.items = tarikEdizResult.items.map((item) => ({
-      ...item,
-      style: applyCleaningToValue(
-        String(item.style || ""),
-        cleaningConfig,
-        "style",
-      ),
-    }));
-    return tarikEdizResult;
-  }
-
-  // Try to detect Feriani/GIA pivoted format (DELIVERY, STYLE, COLOR headers)
-  const ferianiGiaResult = parseFerianiGiaFormat(buffer, cleaningConfig);
-  if (ferianiGiaResult) {
-    console.log(
-      `[FileParser] Using Feriani/GIA parser - found ${ferianiGiaResult.items.length} items`,
-    );
-    return ferianiGiaResult;
+  // Vendor layouts recognisable from content alone (Tarik Ediz report title,
+  // Feriani/GIA DELIVERY/STYLE/COLOR headers), CSV or Excel
+  const detected = detectFormatFromBuffer(buffer, undefined, undefined, {
+    candidates: ["tarik_ediz", "feriani"],
+  });
+  if (detected) {
+    return parseWithFormatPlugin(buffer, detected.plugin, cleaningConfig);
   }
 
   // Standard parsing for normal Excel files
@@ -1521,7 +1149,10 @@ function parseExcelToInventory(
  * AND the email fetcher. This ensures identical processing regardless
  * of how files were staged (manual upload or email attachment).
  */
-export async function performCombineImport(dataSourceId: string): Promise<{
+export async function performCombineImport(
+  dataSourceId: string,
+  options: { onPhase?: ImportOptions["onPhase"] } = {},
+): Promise<{
   success: boolean;
   rowCount: number;
   error?: string;
@@ -2050,10 +1681,16 @@ export async function performCombineImport(dataSourceId: string): Promise<{
     dataSourceId,
     source: 'combine',
     dataSource,
+    onPhase: options.onPhase,
   });
 
   if (!result.success) {
-    return { success: false, rowCount: 0, error: result.error };
+    return {
+      success: false,
+      rowCount: 0,
+      error: result.error,
+      details: result.safetyBlock ? safetyDetails(result) : undefined,
+    };
   }
 
   // Mark all staged files as imported
@@ -2072,10 +1709,317 @@ export async function performCombineImport(dataSourceId: string): Promise<{
   };
 }
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express,
-): Promise<Server> {
+// ============================================================
+// IMPORT JOB RUNNERS
+// ============================================================
+
+/**
+ * Email settings with env: secrets (password, OAuth client secret and
+ * refresh token) resolved from the environment. Done when the job runs so
+ * the secret never lands in the job record.
+ *
+ * Settings from a request body (connection tests) pass `saved`, the saved
+ * data source's emailSettings: an env: reference there only resolves when
+ * the data source already stores it in the same field, so a caller can't
+ * read arbitrary server variables.
+ */
+function resolveEmailSettings(
+  emailSettings: any,
+  options: { fromRequest?: boolean; saved?: any } = {},
+): { settings: any } | { error: string } {
+  const isGraph = emailSettings?.provider === "graph";
+  if (
+    !emailSettings ||
+    !emailSettings.username ||
+    (!isGraph && !emailSettings.host)
+  ) {
+    return { error: "Email settings not configured for this data source" };
+  }
+
+  const resolveSecret = (
+    value: string | undefined,
+    label: string,
+    savedValue: string | undefined,
+  ) => {
+    if (!value || !value.startsWith("env:")) return { value };
+    if (options.fromRequest && value !== savedValue) {
+      return {
+        error: `Email ${label} env: secrets can only be used by a saved data source - save it first, or enter the value`,
+      };
+    }
+    const envVarName = value.substring(4);
+    const envValue = process.env[envVarName];
+    if (!envValue) {
+      return {
+        error: `Email ${label} secret '${envVarName}' is not configured. Please add it to your environment secrets.`,
+      };
+    }
+    return { value: envValue };
+  };
+
+  // Resolve secrets from environment variables if they use env: prefix syntax
+  const resolvedSettings = { ...emailSettings };
+  const password = resolveSecret(
+    emailSettings.password,
+    "password",
+    options.saved?.password,
+  );
+  if (password.error) return { error: password.error };
+  resolvedSettings.password = password.value;
+
+  if (emailSettings.oauth) {
+    const clientSecret = resolveSecret(
+      emailSettings.oauth.clientSecret,
+      "OAuth client",
+      options.saved?.oauth?.clientSecret,
+    );
+    const refreshToken = resolveSecret(
+      emailSettings.oauth.refreshToken,
+      "OAuth refresh token",
+      options.saved?.oauth?.refreshToken,
+    );
+    const error = clientSecret.error || refreshToken.error;
+    if (error) return { error };
+    resolvedSettings.oauth = {
+      ...emailSettings.oauth,
+      clientSecret: clientSecret.value,
+      refreshToken: refreshToken.value,
+    };
+  }
+  return { settings: resolvedSettings };
+}
+
+// Safety-net outcome of a failed import, passed back through the job result
+function safetyDetails(result: {
+  safetyBlock?: boolean;
+  safetyHold?: boolean;
+  safetyReviewId?: string;
+  safetyFindings?: any[];
+}) {
+  return {
+    safetyBlock: result.safetyBlock,
+    safetyHold: result.safetyHold,
+    safetyReviewId: result.safetyReviewId,
+    safetyFindings: result.safetyFindings,
+  };
+}
+
+// Post-import hooks shared by the url / combine / email runners
+async function runPostImportHooks(dataSourceId: string, label: string): Promise<void> {
+  try {
+    await triggerAutoConsolidationAfterImport(dataSourceId);
+  } catch (err: any) {
+    console.error(`Error in auto-consolidation after ${label}:`, err.message);
+  }
+  syncShopifyAfterImport(dataSourceId).catch((err) => {
+    console.error(`Error triggering Shopify sync after ${label}:`, err.message);
+  });
+}
+
+/**
+ * Each runner owns the import step and the hooks that follow it, so a job
+ * resumed after a restart (with nobody waiting on it) still finishes the
+ * same way an inline import did.
+ */
+function registerImportJobRunners(): void {
+  registerImportJobRunner("manual_upload", async (job, { files, onPhase }) => {
+    const dataSourceId = job.dataSourceId;
+    // The upload route signalled startImport for the first attempt
+    if (job.attempts > 1 || job.resumedAt) startImport(dataSourceId);
+
+    try {
+      const dataSource = await storage.getDataSource(dataSourceId);
+      if (!dataSource) {
+        failImport(dataSourceId, "Data source not found");
+        return { success: false, error: "Data source not found" };
+      }
+
+      const result = await executeImport({
+        fileBuffers: files,
+        dataSourceId,
+        source: 'manual_upload',
+        dataSource,
+        fileId: job.params.fileId,
+        onPhase,
+      });
+
+      if (!result.success) {
+        failImport(dataSourceId, result.error || "Import failed");
+        return {
+          success: false,
+          error: result.error,
+          details: safetyDetails(result),
+        };
+      }
+
+      completeImport(dataSourceId, result.itemCount);
+
+      // Trigger background comparison job for incremental sync
+      try {
+        const stores = await storage.getShopifyStores();
+        if (stores.length > 0) {
+          startComparisonJob({ storeId: stores[0].id, dataSourceId });
+        }
+      } catch (err) {
+        console.error("[Import] Error starting comparison job:", err);
+      }
+
+      // Trigger Shopify sync if enabled
+      syncShopifyAfterImport(dataSourceId).catch((err) => {
+        console.error("Error triggering Shopify sync after upload:", err.message);
+      });
+
+      return {
+        success: true,
+        itemCount: result.itemCount,
+        details: { stats: result.stats },
+      };
+    } catch (error: any) {
+      // Signal import failure (for sync coordination)
+      failImport(dataSourceId, error.message || "Import failed");
+      throw error;
+    }
+  });
+
+  registerImportJobRunner("url", async (job, { files, onPhase }) => {
+    const dataSource = await storage.getDataSource(job.dataSourceId);
+    if (!dataSource) {
+      return { success: false, error: "Data source not found" };
+    }
+
+    const result = await executeImport({
+      fileBuffers: files,
+      dataSourceId: job.dataSourceId,
+      source: 'url',
+      dataSource,
+      onPhase,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error,
+        details: safetyDetails(result),
+      };
+    }
+
+    if (job.params.postImportHooks !== false) {
+      await runPostImportHooks(job.dataSourceId, "URL import");
+    }
+
+    return {
+      success: true,
+      itemCount: result.itemCount,
+      details: { stats: result.stats, headers: result.headers },
+    };
+  });
+
+  registerImportJobRunner("combine", async (job, { onPhase }) => {
+    const result = await performCombineImport(job.dataSourceId, { onPhase });
+    if (!result.success) {
+      return { success: false, error: result.error, details: result.details };
+    }
+
+    await runPostImportHooks(job.dataSourceId, "import");
+    return { success: true, itemCount: result.rowCount, details: result.details };
+  });
+
+  registerImportJobRunner("email", async (job, { reportProgress, files }) => {
+    const dataSource = await storage.getDataSource(job.dataSourceId);
+    if (!dataSource) {
+      return { success: false, error: "Data source not found" };
+    }
+    // Pushed mail (emailInbound.ts) brings the message as the job file and
+    // needs only the filters from the settings, no mailbox connection
+    const inbound = job.params.inbound === true;
+    const resolved = inbound
+      ? { settings: (dataSource as any).emailSettings || {} }
+      : resolveEmailSettings((dataSource as any).emailSettings);
+    if ("error" in resolved) {
+      return { success: false, error: resolved.error };
+    }
+
+    reportProgress({
+      phase: "fetching",
+      message: inbound ? "Reading pushed message" : "Checking mailbox",
+    });
+
+    // Import the email fetcher dynamically
+    const { fetchEmailAttachments } = await import("./emailFetcher");
+    const { openRawMessageMailbox } = await import("./emailMailbox");
+    // Ledger retry / replay runs target one message
+    const fetchResult = await fetchEmailAttachments(
+      job.dataSourceId,
+      resolved.settings,
+      {
+        jobId: job.id,
+        messageId: job.params.messageId,
+        replay: job.params.replay === true,
+        mailbox: inbound
+          ? await openRawMessageMailbox(files[0].buffer)
+          : undefined,
+      },
+    );
+
+    if (!fetchResult.success) {
+      // Mailbox/connection problems are usually transient — retry. A
+      // targeted run is retried from the ledger instead.
+      return {
+        success: false,
+        retryable: !job.params.messageId,
+        error: fetchResult.errors.join(", "),
+        details: { logs: fetchResult.logs },
+      };
+    }
+
+    // Await auto-consolidation and trigger Shopify sync if files were actually imported
+    if (fetchResult.filesProcessed > 0) {
+      await runPostImportHooks(job.dataSourceId, "email import");
+    }
+
+    const details = {
+      filesProcessed: fetchResult.filesProcessed,
+      filesFailed: fetchResult.filesFailed,
+      logs: fetchResult.logs,
+      errors: fetchResult.errors,
+    };
+    // A failed or blocked attachment fails the job; re-running the fetch
+    // wouldn't change the file, so the ledger retries it instead
+    if (fetchResult.filesFailed > 0) {
+      const blocks = fetchResult.safetyBlocks;
+      return {
+        success: false,
+        itemCount: fetchResult.filesProcessed,
+        error: fetchResult.errors.join(", "),
+        details:
+          blocks.length > 0
+            ? {
+                ...details,
+                ...safetyDetails({
+                  safetyBlock: true,
+                  safetyHold: blocks.some((block) => block.safetyHold),
+                  safetyReviewId: blocks.find((block) => block.safetyReviewId)
+                    ?.safetyReviewId,
+                  safetyFindings: blocks.flatMap((block) => block.safetyFindings || []),
+                }),
+                safetyBlocks: blocks,
+              }
+            : details,
+      };
+    }
+
+    return {
+      success: true,
+      itemCount: fetchResult.filesProcessed,
+      details,
+    };
+  });
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express,
+): Promise<Server> {
   // ========== STARTUP CLEANUP ==========
   // Clear any stale sync locks from previous server instances (in-memory)
   clearAllSyncLocks();
@@ -2093,9 +2037,43 @@ export async function registerRoutes(
     console.error("[Server] Failed to clean up stale sync logs:", err);
   }
 
+  // Re-queue (or fail) imports a crashed process left running, then start the queue
+  registerImportJobRunners();
+  onImportJobFinished(emitImportJobEvent);
+  try {
+    await recoverImportJobs();
+  } catch (err) {
+    console.error("[Server] Failed to recover import jobs:", err);
+  }
+  startImportJobQueue();
+
+  // Outbound webhooks: resume interrupted deliveries, start the event watcher
+  try {
+    await startOutboundWebhooks();
+  } catch (err) {
+    console.error("[Server] Failed to start outbound webhooks:", err);
+  }
+
+  // Pushed vendor mail over SMTP (only when INBOUND_SMTP_PORT is set)
+  try {
+    startInboundSmtpServer();
+  } catch (err) {
+    console.error("[Server] Failed to start inbound SMTP listener:", err);
+  }
+
   // ========== AUTH SETUP ==========
   await setupAuth(app);
 
+  // Record every mutating API request (see auditLog.ts), ahead of the
+  // permission check so refused requests are recorded too
+  app.use("/api", auditRequests);
+
+  // Role permissions for every /api route group (see permissions.ts)
+  app.use("/api", (req, res, next) => {
+    if (isPublicApiRoute(req.baseUrl + req.path)) return next();
+    isAuthenticated(req, res, () => enforcePermissions(req, res, next));
+  });
+
   // ========== VENDOR IMPORT ROUTES ==========
   registerVendorImportRoutes(app);
 
@@ -2117,6 +2095,23 @@ export async function registerRoutes(
     }
   });
 
+  // Signed-in user's permissions (for hiding actions the role can't run)
+  app.get("/api/auth/permissions", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const permissions = user.isApproved
+        ? [...(await getRolePermissions(user.role))]
+        : [];
+      res.json({ role: user.role, permissions });
+    } catch (error) {
+      console.error("Error fetching permissions:", error);
+      res.status(500).json({ message: "Failed to fetch permissions" });
+    }
+  });
+
   // Accept invite and approve user
   app.post(
     "/api/auth/accept-invite",
@@ -2155,6 +2150,7 @@ export async function registerRoutes(
           role: invite.role || "member",
           inviteId: invite.id,
         });
+        invalidateSessionAccess();
 
         // Update invite usage
         await storage.updateInvite(invite.id, {
@@ -2187,6 +2183,7 @@ export async function registerRoutes(
             isApproved: true,
             role: "admin",
           });
+          invalidateSessionAccess();
           const updatedUser = await storage.getUser(userId);
           return res.json({ firstUser: true, user: updatedUser });
         }
@@ -2230,6 +2227,10 @@ export async function registerRoutes(
         const { role, isApproved } = req.body;
         const currentUserId = req.user.claims.sub;
 
+        if (role !== undefined && !(await isKnownRole(role))) {
+          return res.status(400).json({ message: `Unknown role "${role}"` });
+        }
+
         // Prevent self-demotion from admin
         if (id === currentUserId && role !== "admin") {
           return res
@@ -2238,6 +2239,7 @@ export async function registerRoutes(
         }
 
         const updated = await storage.updateUser(id, { role, isApproved });
+        invalidateSessionAccess();
         res.json(updated);
       } catch (error) {
         console.error("Error updating team member:", error);
@@ -2262,6 +2264,7 @@ export async function registerRoutes(
         }
 
         await storage.deleteUser(id);
+        invalidateSessionAccess();
         res.status(204).send();
       } catch (error) {
         console.error("Error removing team member:", error);
@@ -2270,135 +2273,419 @@ export async function registerRoutes(
     },
   );
 
-  // ========== INVITE MANAGEMENT (Admin only) ==========
-
-  // Get all invites
+  // Roles and their effective permissions, plus each member's
   app.get(
-    "/api/team/invites",
+    "/api/team/permissions",
     isAuthenticated,
     requireApproved,
-    requireAdmin,
     async (req, res) => {
       try {
-        const invites = await storage.getAllInvites();
-        res.json(invites);
+        const matrix = await getPermissionMatrix();
+        const users = await storage.getAllUsers();
+        const members = [];
+        for (const user of users as any[]) {
+          members.push({
+            id: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            role: user.role,
+            isApproved: user.isApproved,
+            permissions: user.isApproved
+              ? [...(await getRolePermissions(user.role))]
+              : [],
+          });
+        }
+        res.json({ ...matrix, members });
       } catch (error) {
-        console.error("Error fetching invites:", error);
-        res.status(500).json({ message: "Failed to fetch invites" });
+        console.error("Error fetching permission matrix:", error);
+        res.status(500).json({ message: "Failed to fetch permissions" });
       }
     },
   );
 
-  // Create new invite
-  app.post(
-    "/api/team/invites",
+  // Create or update a custom role
+  app.put(
+    "/api/team/roles/:name",
     isAuthenticated,
     requireApproved,
     requireAdmin,
-    async (req: any, res) => {
+    async (req, res) => {
       try {
-        const { email, role, expiresInDays, maxUses } = req.body;
-        const userId = req.user.claims.sub;
-
-        const token = crypto.randomBytes(32).toString("hex");
-        const expiresAt = expiresInDays
-          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
-          : null;
-
-        const invite = await storage.createInvite({
-          token,
-          email: email || null,
-          role: role || "member",
-          createdBy: userId,
-          expiresAt,
-          maxUses: maxUses || 1,
-          useCount: 0,
+        const { role, error } = await saveCustomRole({
+          ...req.body,
+          name: req.params.name,
         });
-
-        res.status(201).json(invite);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+        res.json(role);
       } catch (error) {
-        console.error("Error creating invite:", error);
-        res.status(500).json({ message: "Failed to create invite" });
+        console.error("Error saving custom role:", error);
+        res.status(500).json({ message: "Failed to save role" });
       }
     },
   );
 
-  // Delete invite
+  // Delete a custom role (refused while members still have it)
   app.delete(
-    "/api/team/invites/:id",
+    "/api/team/roles/:name",
     isAuthenticated,
     requireApproved,
     requireAdmin,
     async (req, res) => {
       try {
-        await storage.deleteInvite(req.params.id);
+        const result = await deleteCustomRole(req.params.name);
+        if (!result.success) {
+          const status = result.error === "Role not found" ? 404 : 409;
+          return res.status(status).json({ message: result.error });
+        }
         res.status(204).send();
       } catch (error) {
-        console.error("Error deleting invite:", error);
-        res.status(500).json({ message: "Failed to delete invite" });
+        console.error("Error deleting custom role:", error);
+        res.status(500).json({ message: "Failed to delete role" });
       }
     },
   );
 
-  // ========== DATA SOURCES ==========
+  // ========== AUDIT LOG ==========
+
+  // Query the audit log (?format=csv exports every match, page by page)
+  app.get("/api/audit-log", async (req, res) => {
+    try {
+      const q = req.query as Record<string, string | undefined>;
+      const format = q.format;
+      const filters = {
+        from: q.from ? new Date(q.from) : undefined,
+        to: q.to ? new Date(q.to) : undefined,
+        userId: q.userId,
+        method: q.method,
+        route: q.route,
+        targetType: q.targetType,
+        targetId: q.targetId,
+        outcome:
+          q.outcome === "success" || q.outcome === "failure"
+            ? (q.outcome as "success" | "failure")
+            : undefined,
+      };
 
-  // Get all data sources
-  app.get("/api/data-sources", async (req, res) => {
-    try {
-      const sources = await storage.getDataSources();
-      // Strip heavy fields from list response to prevent memory crashes
-      // lastImportStats can contain huge per-style breakdowns (hundreds of KB per data source)
-      // Full stats are still available via GET /api/data-sources/:id
-      const lightweight = sources.map((s: any) => {
-        const { lastImportStats, ...rest } = s;
-        return rest;
+      if (format === "csv") {
+        const entries = [];
+        for (let offset = 0; ; offset += 1000) {
+          const page = await queryAuditLog({ ...filters, limit: 1000, offset });
+          entries.push(...page.entries);
+          if (page.entries.length < 1000) break;
+        }
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="audit-log-${new Date().toISOString().split("T")[0]}.csv"`,
+        );
+        return res.send(auditLogToCsv(entries));
+      }
+
+      const { entries, total } = await queryAuditLog({
+        ...filters,
+        limit: parseInt(q.limit || "100"),
+        offset: parseInt(q.offset || "0"),
       });
-      res.json(lightweight);
+      res.json({ entries, total });
     } catch (error) {
-      console.error("Error fetching data sources:", error);
-      res.status(500).json({ error: "Failed to fetch data sources" });
+      console.error("Error querying audit log:", error);
+      res.status(500).json({ error: "Failed to query audit log" });
     }
   });
 
-  // Get single data source
-  app.get("/api/data-sources/:id", async (req, res) => {
+  app.get("/api/audit-log/:id", async (req, res) => {
     try {
-      const source = await storage.getDataSource(req.params.id);
-      if (!source) {
-        return res.status(404).json({ error: "Data source not found" });
+      const entry = await getAuditEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Audit entry not found" });
       }
-      res.json(source);
+      res.json(entry);
     } catch (error) {
-      console.error("Error fetching data source:", error);
-      res.status(500).json({ error: "Failed to fetch data source" });
+      console.error("Error fetching audit entry:", error);
+      res.status(500).json({ error: "Failed to fetch audit entry" });
     }
   });
 
-  // Test email connection (without requiring a data source)
-  app.post("/api/test-email-connection", async (req, res) => {
+  // Variants deleted by an audited action that keeps its own deletion log
+  app.get("/api/audit-log/:id/deletions", async (req, res) => {
     try {
-      const { host, port, secure, username, password, folder } = req.body;
+      res.json(await getAuditDeletions(req.params.id));
+    } catch (error) {
+      console.error("Error fetching audit deletions:", error);
+      res.status(500).json({ error: "Failed to fetch audit deletions" });
+    }
+  });
 
-      if (!host || !username || !password) {
-        return res.status(400).json({
-          success: false,
-          error: "Missing required fields: host, username, password",
-        });
-      }
+  // ========== OUTBOUND WEBHOOKS ==========
 
-      const { testEmailConnection } = await import("./emailFetcher");
+  app.get("/api/webhooks", async (req, res) => {
+    try {
+      const webhooks = await getOutboundWebhooks();
+      res.json({ events: WEBHOOK_EVENTS, webhooks: webhooks.map(redactWebhook) });
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
 
-      const result = await testEmailConnection({
-        host,
-        port: port || 993,
-        secure: secure !== false,
-        username,
-        password,
-        folder: folder || "INBOX",
-        senderWhitelist: [],
-        subjectFilter: "",
-        markAsRead: false,
+  // Create; the response carries the full signing secret (shown once)
+  app.post("/api/webhooks", async (req, res) => {
+    try {
+      const { webhook, error } = await saveOutboundWebhook(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      res.status(201).json({ ...redactWebhook(webhook!), secret: webhook!.secret });
+    } catch (error: any) {
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ error: error.message || "Failed to create webhook" });
+    }
+  });
+
+  app.put("/api/webhooks/:id", async (req, res) => {
+    try {
+      const { webhook, error, notFound } = await saveOutboundWebhook(
+        req.body,
+        req.params.id,
+      );
+      if (error) {
+        return res.status(notFound ? 404 : 400).json({ error });
+      }
+      // A new secret is echoed back so it can be copied; otherwise masked
+      res.json(
+        req.body?.secret
+          ? { ...redactWebhook(webhook!), secret: webhook!.secret }
+          : redactWebhook(webhook!),
+      );
+    } catch (error: any) {
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ error: error.message || "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", async (req, res) => {
+    try {
+      if (!(await deleteOutboundWebhook(req.params.id))) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  // Send a webhook.test event and return the delivery
+  app.post("/api/webhooks/:id/test", async (req, res) => {
+    try {
+      const delivery = await sendTestWebhook(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ error: "Failed to send test webhook" });
+    }
+  });
+
+  // Delivery log (?webhookId=&event=&status=&limit=)
+  app.get("/api/webhooks/deliveries", async (req, res) => {
+    try {
+      const q = req.query as Record<string, string | undefined>;
+      res.json(
+        await listWebhookDeliveries({
+          webhookId: q.webhookId,
+          event: q.event,
+          status: q.status as WebhookDeliveryStatus | undefined,
+          limit: q.limit ? parseInt(q.limit) : undefined,
+        }),
+      );
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.get("/api/webhooks/deliveries/:id", async (req, res) => {
+    try {
+      const delivery = await getWebhookDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error fetching webhook delivery:", error);
+      res.status(500).json({ error: "Failed to fetch webhook delivery" });
+    }
+  });
+
+  app.post("/api/webhooks/deliveries/:id/redeliver", async (req, res) => {
+    try {
+      const { delivery, error, notFound } = await redeliverWebhook(req.params.id);
+      if (error) {
+        return res.status(notFound ? 404 : 409).json({ error });
+      }
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error redelivering webhook:", error);
+      res.status(500).json({ error: "Failed to redeliver webhook" });
+    }
+  });
+
+  // ========== INVITE MANAGEMENT (Admin only) ==========
+
+  // Get all invites
+  app.get(
+    "/api/team/invites",
+    isAuthenticated,
+    requireApproved,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const invites = await storage.getAllInvites();
+        res.json(invites);
+      } catch (error) {
+        console.error("Error fetching invites:", error);
+        res.status(500).json({ message: "Failed to fetch invites" });
+      }
+    },
+  );
+
+  // Create new invite
+  app.post(
+    "/api/team/invites",
+    isAuthenticated,
+    requireApproved,
+    requireAdmin,
+    async (req: any, res) => {
+      try {
+        const { email, role, expiresInDays, maxUses } = req.body;
+        const userId = req.user.claims.sub;
+
+        if (role && !(await isKnownRole(role))) {
+          return res.status(400).json({ message: `Unknown role "${role}"` });
+        }
+
+        const token = crypto.randomBytes(32).toString("hex");
+        const expiresAt = expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+          : null;
+
+        const invite = await storage.createInvite({
+          token,
+          email: email || null,
+          role: role || "member",
+          createdBy: userId,
+          expiresAt,
+          maxUses: maxUses || 1,
+          useCount: 0,
+        });
+
+        res.status(201).json(invite);
+      } catch (error) {
+        console.error("Error creating invite:", error);
+        res.status(500).json({ message: "Failed to create invite" });
+      }
+    },
+  );
+
+  // Delete invite
+  app.delete(
+    "/api/team/invites/:id",
+    isAuthenticated,
+    requireApproved,
+    requireAdmin,
+    async (req, res) => {
+      try {
+        await storage.deleteInvite(req.params.id);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error deleting invite:", error);
+        res.status(500).json({ message: "Failed to delete invite" });
+      }
+    },
+  );
+
+  // ========== DATA SOURCES ==========
+
+  // Get all data sources
+  app.get("/api/data-sources", async (req, res) => {
+    try {
+      const sources = await storage.getDataSources();
+      // Strip heavy fields from list response to prevent memory crashes
+      // lastImportStats can contain huge per-style breakdowns (hundreds of KB per data source)
+      // Full stats are still available via GET /api/data-sources/:id
+      const lightweight = sources.map((s: any) => {
+        const { lastImportStats, ...rest } = s;
+        return rest;
       });
+      res.json(lightweight);
+    } catch (error) {
+      console.error("Error fetching data sources:", error);
+      res.status(500).json({ error: "Failed to fetch data sources" });
+    }
+  });
+
+  // Get single data source
+  app.get("/api/data-sources/:id", async (req, res) => {
+    try {
+      const source = await storage.getDataSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      res.json(source);
+    } catch (error) {
+      console.error("Error fetching data source:", error);
+      res.status(500).json({ error: "Failed to fetch data source" });
+    }
+  });
+
+  // Test email connection (without requiring a data source)
+  app.post("/api/test-email-connection", async (req, res) => {
+    try {
+      const {
+        provider,
+        authType,
+        host,
+        port,
+        secure,
+        username,
+        password,
+        oauth,
+        graphBaseUrl,
+        folder,
+        dataSourceId,
+      } = req.body;
+
+      const saved = dataSourceId
+        ? (await storage.getDataSource(dataSourceId))?.emailSettings
+        : undefined;
+      const resolved = resolveEmailSettings({
+        provider,
+        authType,
+        host,
+        port: port || 993,
+        secure: secure !== false,
+        username,
+        password,
+        oauth,
+        graphBaseUrl,
+        folder: folder || "INBOX",
+        senderWhitelist: [],
+        subjectFilter: "",
+        markAsRead: false,
+      }, { fromRequest: true, saved });
+      if ("error" in resolved) {
+        return res.status(400).json({ success: false, error: resolved.error });
+      }
+
+      const { testEmailConnection } = await import("./emailFetcher");
+
+      const result = await testEmailConnection(resolved.settings);
 
       if (result.success) {
         res.json({ success: true, folderCount: result.folderCount });
@@ -2414,10 +2701,13 @@ export async function registerRoutes(
     }
   });
 
-  // Test URL connection (server-side to avoid CORS issues)
+  // Test URL connection (server-side to avoid CORS issues). Accepts the
+  // same auth / headers as connectionDetails so share links and protected
+  // URLs can be tested before saving. env: secrets only resolve when they
+  // match what the saved data source (dataSourceId) already stores
   app.post("/api/test-url-connection", async (req, res) => {
     try {
-      const { url } = req.body;
+      const { url, dataSourceId } = req.body;
 
       if (!url) {
         return res.status(400).json({
@@ -2436,57 +2726,17 @@ export async function registerRoutes(
         });
       }
 
-      // Make a HEAD request first, fall back to GET if HEAD is not supported
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 15000);
-
-      try {
-        let response = await fetch(url, {
-          method: "HEAD",
-          signal: controller.signal,
-          headers: {
-            "User-Agent": "InventoryAI/1.0 (URL Connection Test)",
-          },
-        });
-
-        // Some servers don't support HEAD, try GET
-        if (response.status === 405) {
-          response = await fetch(url, {
-            method: "GET",
-            signal: controller.signal,
-            headers: {
-              "User-Agent": "InventoryAI/1.0 (URL Connection Test)",
-            },
-          });
-        }
-
-        clearTimeout(timeout);
-
-        if (response.ok) {
-          const contentType = response.headers.get("content-type") || "unknown";
-          const contentLength = response.headers.get("content-length");
-          res.json({
-            success: true,
-            status: response.status,
-            contentType,
-            contentLength: contentLength ? parseInt(contentLength) : null,
-          });
-        } else {
-          res.status(400).json({
-            success: false,
-            error: `Server returned ${response.status}: ${response.statusText}`,
-          });
-        }
-      } catch (fetchError: any) {
-        clearTimeout(timeout);
-        if (fetchError.name === "AbortError") {
-          res.status(400).json({
-            success: false,
-            error: "Connection timed out after 15 seconds",
-          });
-        } else {
-          throw fetchError;
-        }
+      const stored = dataSourceId
+        ? (await storage.getDataSource(dataSourceId))?.connectionDetails
+        : undefined;
+      const result = await probeUrlSource(url, {
+        ...urlTestOptionsFor(req.body, stored),
+        timeoutMs: 15000,
+      });
+      if (result.success) {
+        res.json(result);
+      } else {
+        res.status(400).json(result);
       }
     } catch (error: any) {
       console.error("Error testing URL connection:", error);
@@ -2668,6 +2918,7 @@ export async function registerRoutes(
         }
       }
 
+      const before = await storage.getDataSource(req.params.id);
       const updated = await storage.updateDataSource(
         req.params.id,
         filteredUpdate,
@@ -2676,6 +2927,12 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Data source not found" });
       }
 
+      // Version import config changes (column mapping, parse config, ...)
+      await recordConfigChange(req.params.id, before, updated, {
+        userId: (req as any).user?.claims?.sub,
+        source: "update",
+      });
+
       // If schedule settings changed, refresh schedules immediately
       if (
         req.body.autoUpdate !== undefined ||
@@ -3239,10 +3496,14 @@ export async function registerRoutes(
           );
           pivotConfig = { enabled: true, format: detectedFormat };
           // Save the detected format for future imports
-          await storage.updateDataSource(dataSourceId, {
-            formatType: detectedFormat,
-            pivotConfig: { enabled: true, format: detectedFormat },
-          });
+          await updateDataSourceConfig(
+            dataSourceId,
+            {
+              formatType: detectedFormat,
+              pivotConfig: { enabled: true, format: detectedFormat },
+            },
+            { source: "auto", note: `Detected ${detectedFormat} format` },
+          );
         }
 
         let headers: string[];
@@ -3321,10 +3582,11 @@ export async function registerRoutes(
             items = rowResult.items;
             if (items.length > 0) {
               console.log(`[Upload] Row parser found ${items.length} items — correcting saved format to "row"`);
-              await storage.updateDataSource(dataSourceId, {
-                formatType: "row",
-                pivotConfig: null,
-              });
+              await updateDataSourceConfig(
+                dataSourceId,
+                { formatType: "row", pivotConfig: null },
+                { source: "auto", note: "Row parser fallback" },
+              );
             }
           }
         } else if (pivotConfig?.enabled) {
@@ -3420,43 +3682,23 @@ export async function registerRoutes(
           return;
         }
 
-        // Single file mode - import immediately via unified engine
-        const result = await executeImport({
-          fileBuffers: [{ buffer: file.buffer, originalname: file.originalname }],
+        // Single file mode - import through the job queue (unified engine);
+        // the manual_upload runner signals completeImport/failImport
+        const job = await enqueueImportJob({
+          kind: "manual_upload",
           dataSourceId,
-          source: 'manual_upload',
-          dataSource,
-          fileId: uploadedFile?.id,
-        });
-
-        if (!result.success) {
-          failImport(dataSourceId, result.error || "Import failed");
-          return res.status(400).json({ error: result.error, safetyBlock: result.safetyBlock });
-        }
-
-        completeImport(dataSourceId, result.itemCount);
-
-        // Trigger background comparison job for incremental sync
-        try {
-          const stores = await storage.getShopifyStores();
-          if (stores.length > 0) {
-            startComparisonJob({ storeId: stores[0].id, dataSourceId });
-          }
-        } catch (err) {
-          console.error("[Import] Error starting comparison job:", err);
-        }
-
-        // Trigger Shopify sync if enabled
-        triggerShopifySyncAfterImport(dataSourceId).catch((err) => {
-          console.error("Error triggering Shopify sync after upload:", err.message);
+          files: [{ buffer: file.buffer, originalname: file.originalname }],
+          params: { fileId: uploadedFile?.id },
         });
 
-        res.status(201).json({
+        // Answer now; the client follows the job at statusUrl
+        res.status(202).json({
           success: true,
+          queued: true,
           file: uploadedFile,
-          importedItems: result.itemCount,
-          ...result.stats,
-          message: `Uploaded ${file.originalname} - imported ${result.itemCount} items`,
+          jobId: job.id,
+          statusUrl: `/api/import-jobs/${job.id}`,
+          message: `Uploaded ${file.originalname} - import queued`,
         });
       } catch (error: any) {
         console.error("Error uploading file:", error);
@@ -3469,6 +3711,57 @@ export async function registerRoutes(
     },
   );
 
+  // Dry-run a file through the unified import engine — nothing is written.
+  // Returns stats, per-phase item trail and a diff against current inventory.
+  app.post(
+    "/api/data-sources/:id/import-dry-run",
+    upload.single("file"),
+    async (req, res) => {
+      try {
+        const dataSourceId = req.params.id;
+        const file = req.file;
+        if (!file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+
+        const dataSource = await storage.getDataSource(dataSourceId);
+        if (!dataSource) {
+          return res.status(404).json({ error: "Data source not found" });
+        }
+
+        const result = await executeImport({
+          fileBuffers: [{ buffer: file.buffer, originalname: file.originalname }],
+          dataSourceId,
+          source: "manual_upload",
+          dataSource,
+          dryRun: true,
+        });
+
+        if (!result.dryRun) {
+          // Failed before reaching the SAVE phase (e.g. unparseable file)
+          return res.status(400).json({ error: result.error });
+        }
+
+        res.json({
+          success: result.success,
+          fileName: file.originalname,
+          itemCount: result.itemCount,
+          error: result.error,
+          safetyBlock: result.safetyBlock,
+          safetyHold: result.safetyHold,
+          safetyFindings: result.safetyFindings,
+          stats: result.stats,
+          report: result.dryRun,
+        });
+      } catch (error: any) {
+        console.error("Error running import dry run:", error);
+        res
+          .status(500)
+          .json({ error: error.message || "Failed to run import dry run" });
+      }
+    },
+  );
+
   // Get staged files for multi-file mode
   app.get("/api/data-sources/:id/staged-files", async (req, res) => {
     try {
@@ -3532,29 +3825,21 @@ export async function registerRoutes(
     try {
       const dataSourceId = req.params.id;
 
-      // Use the shared performCombineImport function (same logic as email import)
-      const result = await performCombineImport(dataSourceId);
-
-      if (!result.success) {
-        return res.status(400).json({ error: result.error });
+      // Queued combine job runs the shared performCombineImport (same logic
+      // as email import) plus auto-consolidation and Shopify sync
+      // Checked up front so an empty combine still answers 400
+      const stagedFiles = await storage.getStagedFiles(dataSourceId);
+      if (stagedFiles.length === 0) {
+        return res.status(400).json({ error: "No staged files to combine" });
       }
 
-      // Post-import: auto-consolidation and Shopify sync
-      try {
-        await triggerAutoConsolidationAfterImport(dataSourceId);
-      } catch (err: any) {
-        console.error("Error in auto-consolidation after import:", err.message);
-      }
-      triggerShopifySyncAfterImport(dataSourceId).catch((err) => {
-        console.error(
-          "Error triggering Shopify sync after import:",
-          err.message,
-        );
-      });
-
-      return res.json({
+      const job = await enqueueImportJob({ kind: "combine", dataSourceId });
+      res.status(202).json({
         success: true,
-        ...result.details,
+        queued: true,
+        stagedCount: stagedFiles.length,
+        jobId: job.id,
+        statusUrl: `/api/import-jobs/${job.id}`,
       });
     } catch (error: any) {
       console.error("Error combining files:", error);
@@ -3608,21 +3893,13 @@ export async function registerRoutes(
         });
       }
 
-      // Fetch the file from URL
+      // Fetch the file with the fetcher for the link style (share links,
+      // SFTP/FTP, authenticated HTTP)
       console.log(`Fetching file from URL: ${url}`);
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch URL: ${response.status} ${response.statusText}`,
-        );
-      }
-
-      // Get the file content as buffer
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      // Extract filename from URL
-      const urlFilename = url.split("/").pop() || "url_file.xlsx";
+      const { buffer, filename: urlFilename } = await fetchUrlSource(
+        url,
+        urlFetchOptionsFor(dataSource.connectionDetails),
+      );
 
       // SAFETY NET: Validate file before import
       const validationConfig = (dataSource as any).importValidationConfig || {};
@@ -3662,26 +3939,18 @@ export async function registerRoutes(
         }
       }
 
-      // Use unified import engine
-      const result = await executeImport({
-        fileBuffers: [{ buffer, originalname: urlFilename }],
+      // Import through the job queue (unified engine + post-import hooks)
+      const job = await enqueueImportJob({
+        kind: "url",
         dataSourceId,
-        source: 'url',
-        dataSource,
+        files: [{ buffer, originalname: urlFilename }],
       });
-
-      if (!result.success) {
-        return res.status(400).json({ error: result.error, safetyBlock: result.safetyBlock });
-      }
-
-      // Post-import hooks
-      try { await triggerAutoConsolidationAfterImport(dataSourceId); } catch {}
-      triggerShopifySyncAfterImport(dataSourceId).catch(() => {});
-
-      res.json({
+      res.status(202).json({
         success: true,
-        importedItems: result.itemCount,
-        ...result.stats,
+        queued: true,
+        fileName: urlFilename,
+        jobId: job.id,
+        statusUrl: `/api/import-jobs/${job.id}`,
       });
     } catch (error: any) {
       console.error("Error fetching URL:", error);
@@ -3726,73 +3995,413 @@ export async function registerRoutes(
         });
       }
 
-      const emailSettings = (dataSource as any).emailSettings;
-      if (!emailSettings || !emailSettings.host || !emailSettings.username) {
-        return res.status(400).json({
-          error: "Email settings not configured for this data source",
+      // Check settings up front; the email job resolves them again when it
+      // runs so the password is never stored with the job
+      const settingsCheck = resolveEmailSettings(
+        (dataSource as any).emailSettings,
+      );
+      if ("error" in settingsCheck) {
+        return res.status(400).json({ error: settingsCheck.error });
+      }
+
+      const job = await enqueueImportJob({ kind: "email", dataSourceId });
+      res.status(202).json({
+        success: true,
+        queued: true,
+        jobId: job.id,
+        statusUrl: `/api/import-jobs/${job.id}`,
+      });
+    } catch (error: any) {
+      console.error("Error fetching emails:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to fetch emails" });
+    }
+  });
+
+  // =========== IMPORT JOB QUEUE ===========
+
+  // List import jobs (newest first), optionally for one data source / status
+  app.get("/api/import-jobs", async (req, res) => {
+    try {
+      const jobs = await listImportJobs({
+        dataSourceId: req.query.dataSourceId as string | undefined,
+        status: req.query.status as ImportJobStatus | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error listing import jobs:", error);
+      res.status(500).json({ error: "Failed to list import jobs" });
+    }
+  });
+
+  app.get("/api/import-jobs/:id", async (req, res) => {
+    try {
+      const job = await getImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Import job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching import job:", error);
+      res.status(500).json({ error: "Failed to fetch import job" });
+    }
+  });
+
+  // Cancel a queued job (or one waiting to retry); running jobs can't be stopped
+  app.post("/api/import-jobs/:id/cancel", async (req, res) => {
+    try {
+      const result = await cancelImportJob(req.params.id);
+      if (!result.job) {
+        return res.status(404).json({ error: result.reason });
+      }
+      if (!result.cancelled) {
+        return res.status(409).json({ error: `Cannot cancel: ${result.reason}`, job: result.job });
+      }
+      res.json({ success: true, job: result.job });
+    } catch (error) {
+      console.error("Error cancelling import job:", error);
+      res.status(500).json({ error: "Failed to cancel import job" });
+    }
+  });
+
+  /**
+   * SSE endpoint for import job progress — same protocol as the sync
+   * progress stream (data events, heartbeat comments, no res.end()).
+   *
+   * const eventSource = new EventSource(`/api/import-jobs/${jobId}/progress/stream`);
+   */
+  app.get("/api/import-jobs/:id/progress/stream", async (req, res) => {
+    const jobId = req.params.id;
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("Content-Encoding", "none"); // Disable compression
+    res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+    res.flushHeaders();
+
+    console.log(`[SSE] Client connected for import job ${jobId}`);
+
+    let isClientConnected = true;
+    let consecutiveInactiveCount = 0;
+    const MAX_INACTIVE_BEFORE_CLOSE = 10; // Keep connection open for ~5 seconds after the job ends
+
+    const write = (chunk: string) => {
+      res.write(chunk);
+      if (typeof (res as any).flush === "function") {
+        (res as any).flush();
+      }
+    };
+
+    const sendHeartbeat = () => {
+      if (!isClientConnected) return;
+      try {
+        write(`: heartbeat ${Date.now()}\n\n`);
+      } catch (e) {
+        isClientConnected = false;
+      }
+    };
+
+    // Returns whether the job is still queued/running
+    const sendProgress = async (): Promise<boolean> => {
+      if (!isClientConnected) return false;
+      try {
+        const job = await getImportJob(jobId);
+        if (!job) {
+          write(`data: ${JSON.stringify({ active: false, found: false })}\n\n`);
+          return false;
+        }
+
+        const active = !isTerminalImportJob(job);
+        const data = JSON.stringify({
+          active,
+          jobId: job.id,
+          kind: job.kind,
+          dataSourceId: job.dataSourceId,
+          status: job.status,
+          attempts: job.attempts,
+          maxAttempts: job.maxAttempts,
+          currentPhase: job.progress.phase,
+          overallPercent: job.progress.percent,
+          statusMessage: job.progress.message,
+          itemCount: job.progress.itemCount,
+          nextRunAt: job.status === "retrying" ? job.nextRunAt : undefined,
+          error: job.error,
+          result: active ? undefined : job.result,
+          startedAt: job.startedAt,
+          updatedAt: job.progress.updatedAt,
         });
+        write(`data: ${data}\n\n`);
+        return active;
+      } catch (error) {
+        console.error("[SSE] Error sending import job progress:", error);
+        return false;
       }
+    };
 
-      // Resolve password from environment variable if it uses env: prefix syntax
-      const resolvedSettings = { ...emailSettings };
-      if (emailSettings.password && emailSettings.password.startsWith("env:")) {
-        const envVarName = emailSettings.password.substring(4);
-        const envPassword = process.env[envVarName];
-        if (envPassword) {
-          resolvedSettings.password = envPassword;
-        } else {
-          return res.status(400).json({
-            error: `Email password secret '${envVarName}' is not configured. Please add it to your environment secrets.`,
-          });
+    await sendProgress();
+
+    const heartbeatId = setInterval(sendHeartbeat, 15000);
+
+    const intervalId = setInterval(async () => {
+      if (!isClientConnected) {
+        clearInterval(intervalId);
+        clearInterval(heartbeatId);
+        return;
+      }
+
+      const isActive = await sendProgress();
+      if (!isActive) {
+        consecutiveInactiveCount++;
+        if (consecutiveInactiveCount >= MAX_INACTIVE_BEFORE_CLOSE) {
+          clearInterval(intervalId);
+          clearInterval(heartbeatId);
+          // Don't call res.end() - let the client close the connection
+          isClientConnected = false;
+        }
+      } else {
+        consecutiveInactiveCount = 0;
+      }
+    }, 500);
+
+    req.on("close", () => {
+      console.log(`[SSE] Client disconnected for import job ${jobId}`);
+      isClientConnected = false;
+      clearInterval(intervalId);
+      clearInterval(heartbeatId);
+    });
+
+    req.on("error", (err) => {
+      console.error(`[SSE] Request error for import job ${jobId}:`, err);
+      isClientConnected = false;
+      clearInterval(intervalId);
+      clearInterval(heartbeatId);
+    });
+  });
+
+  // =========== SAFETY-NET POLICIES & REVIEWS ===========
+
+  // Effective policies (defaults + data source overrides) for a data source
+  app.get("/api/data-sources/:id/safety-net-policies", async (req, res) => {
+    try {
+      const dataSource = await storage.getDataSource(req.params.id);
+      if (!dataSource) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      res.json({
+        policies: getSafetyNetPolicies(dataSource),
+        configured: (dataSource as any).safetyNetPolicies || {},
+        defaults: DEFAULT_SAFETY_NET_POLICIES,
+      });
+    } catch (error) {
+      console.error("Error fetching safety-net policies:", error);
+      res.status(500).json({ error: "Failed to fetch safety-net policies" });
+    }
+  });
+
+  app.put("/api/data-sources/:id/safety-net-policies", async (req, res) => {
+    try {
+      const dataSource = await storage.getDataSource(req.params.id);
+      if (!dataSource) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+
+      const policies: SafetyNetPolicies = {};
+      const input = req.body?.policies || {};
+      for (const [check, config] of Object.entries(input) as [SafetyNetCheckName, any][]) {
+        if (!(check in DEFAULT_SAFETY_NET_POLICIES)) {
+          return res.status(400).json({ error: `Unknown safety-net check "${check}"` });
+        }
+        if (!["off", "warn", "block", "hold"].includes(config?.action)) {
+          return res.status(400).json({ error: `Invalid action for "${check}"` });
         }
+        policies[check] = {
+          action: config.action,
+          ...(config.percent !== undefined && { percent: Number(config.percent) }),
+          ...(config.itemPercent !== undefined && { itemPercent: Number(config.itemPercent) }),
+          ...(config.days !== undefined && { days: Number(config.days) }),
+        };
+      }
+
+      const updated = await storage.updateDataSource(req.params.id, {
+        safetyNetPolicies: policies,
+      } as any);
+      res.json({ success: true, policies: getSafetyNetPolicies(updated) });
+    } catch (error) {
+      console.error("Error saving safety-net policies:", error);
+      res.status(500).json({ error: "Failed to save safety-net policies" });
+    }
+  });
+
+  // Blocked / held imports awaiting review (and past decisions)
+  app.get("/api/safety-net/reviews", async (req, res) => {
+    try {
+      const reviews = await listSafetyNetReviews({
+        dataSourceId: req.query.dataSourceId as string | undefined,
+        status: req.query.status as SafetyNetReviewStatus | undefined,
+      });
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching safety-net reviews:", error);
+      res.status(500).json({ error: "Failed to fetch safety-net reviews" });
+    }
+  });
+
+  app.get("/api/safety-net/reviews/:id", async (req, res) => {
+    try {
+      const review = await getSafetyNetReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      console.error("Error fetching safety-net review:", error);
+      res.status(500).json({ error: "Failed to fetch safety-net review" });
+    }
+  });
+
+  // Diff of a quarantined import against the data source's current inventory
+  app.get("/api/safety-net/reviews/:id/diff", async (req, res) => {
+    try {
+      const review = await getSafetyNetReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      const pending = await getQuarantinedImport(review.id);
+      if (!pending) {
+        return res.status(410).json({ error: "Quarantined items are no longer stored" });
+      }
+
+      const existingItems = await storage.getInventoryItemsByDataSource(review.dataSourceId);
+      const diff = buildInventoryDiff(existingItems, pending.items, pending.updateStrategy);
+      const limit = Math.min(parseInt(req.query.limit as string) || 200, 2000);
+      res.json({
+        updateStrategy: pending.updateStrategy,
+        existingCount: existingItems.length,
+        newCount: pending.items.length,
+        counts: {
+          added: diff.added.length,
+          removed: diff.removed.length,
+          stockChanged: diff.stockChanged.length,
+          priceChanged: diff.priceChanged.length,
+          unchanged: diff.unchangedCount,
+        },
+        added: diff.added.slice(0, limit),
+        removed: diff.removed.slice(0, limit),
+        stockChanged: diff.stockChanged.slice(0, limit),
+        priceChanged: diff.priceChanged.slice(0, limit),
+        stats: pending.stats,
+      });
+    } catch (error) {
+      console.error("Error building quarantine diff:", error);
+      res.status(500).json({ error: "Failed to build diff" });
+    }
+  });
+
+  // Approve: commit the quarantined items as parsed (no re-parse)
+  app.post("/api/safety-net/reviews/:id/approve", async (req: any, res) => {
+    let dataSourceId: string | undefined;
+    try {
+      const review = await getSafetyNetReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      dataSourceId = review.dataSourceId;
+
+      startImport(review.dataSourceId);
+      const result = await commitQuarantinedImport(review.id, {
+        userId: req.user?.claims?.sub,
+        note: req.body?.note,
+        force: req.body?.force === true,
+      });
+      if (!result.success) {
+        failImport(review.dataSourceId, result.error || "Approval failed");
+        return res
+          .status(result.conflict ? 409 : 400)
+          .json({ error: result.error, stale: result.stale });
+      }
+      completeImport(review.dataSourceId, result.itemCount);
+
+      await runPostImportHooks(review.dataSourceId, "approved import");
+      console.log(`[SafetyNet] Review ${review.id} approved — ${result.itemCount} items committed for "${review.dataSourceName}"`);
+      res.json({
+        success: true,
+        review: await getSafetyNetReview(review.id),
+        importedItems: result.itemCount,
+        ...result.stats,
+        message: `Approved — imported ${result.itemCount} items into "${review.dataSourceName}"`,
+      });
+    } catch (error: any) {
+      console.error("Error approving safety-net review:", error);
+      if (dataSourceId) failImport(dataSourceId, error.message || "Approval failed");
+      res.status(500).json({ error: "Failed to approve review" });
+    }
+  });
+
+  // Reject: archive the quarantined import with a note
+  app.post("/api/safety-net/reviews/:id/reject", async (req: any, res) => {
+    try {
+      if (!req.body?.note || !String(req.body.note).trim()) {
+        return res.status(400).json({ error: "A note is required to reject an import" });
+      }
+      const { review, error } = await decideSafetyNetReview(req.params.id, "rejected", {
+        userId: req.user?.claims?.sub,
+        note: req.body?.note,
+      });
+      if (!review) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (error) {
+        return res.status(409).json({ error, review });
       }
+      res.json({ success: true, review });
+    } catch (error) {
+      console.error("Error rejecting safety-net review:", error);
+      res.status(500).json({ error: "Failed to reject review" });
+    }
+  });
 
-      // Import the email fetcher dynamically
-      const { fetchEmailAttachments } = await import("./emailFetcher");
-
-      // Fetch emails
-      const fetchResult = await fetchEmailAttachments(
-        dataSourceId,
-        resolvedSettings,
-      );
+  // ===== INBOUND EMAIL =====
 
-      if (!fetchResult.success) {
-        return res.status(500).json({
-          error: fetchResult.errors.join(", "),
-          logs: fetchResult.logs,
-        });
+  // Raw MIME message pushed by a mail provider / relay (see emailInbound.ts).
+  // Public route: authenticated by INBOUND_EMAIL_TOKEN, not a session.
+  // Envelope optional: ?from=sender&to=a@x,b@y
+  app.post("/api/inbound-email", async (req, res) => {
+    try {
+      if (!isInboundRequestAuthorized(req)) {
+        return res.status(401).json({ error: "Invalid inbound token" });
+      }
+      const raw = await readInboundBody(req);
+      if (raw.length === 0) {
+        return res.status(400).json({ error: "Empty message" });
       }
 
-      // Await auto-consolidation and trigger Shopify sync if files were actually imported
-      if (fetchResult.filesProcessed > 0) {
-        try {
-          await triggerAutoConsolidationAfterImport(dataSourceId);
-        } catch (err: any) {
-          console.error(
-            "Error in auto-consolidation after email import:",
-            err.message,
-          );
-        }
-        // Trigger Shopify sync - sync only this data source + its sale file (same as manual sync)
-        triggerShopifySyncAfterImport(dataSourceId).catch((err) => {
-          console.error(
-            "Error triggering Shopify sync after email import:",
-            err.message,
-          );
+      const to = req.query.to
+        ? String(req.query.to)
+            .split(",")
+            .map((a) => a.trim())
+            .filter(Boolean)
+        : undefined;
+      const result = await receiveInboundEmail(
+        raw,
+        { from: req.query.from ? String(req.query.from) : undefined, to },
+        "http",
+        { authenticated: true },
+      );
+      if (result.routes.length === 0) {
+        return res.status(404).json({
+          error: "No data source accepts this message",
+          messageId: result.messageId,
         });
       }
-
-      res.json({
-        success: true,
-        filesProcessed: fetchResult.filesProcessed,
-        logs: fetchResult.logs,
-        errors: fetchResult.errors,
-      });
+      res.status(202).json(result);
     } catch (error: any) {
-      console.error("Error fetching emails:", error);
+      console.error("Error receiving inbound email:", error);
       res
         .status(500)
-        .json({ error: error.message || "Failed to fetch emails" });
+        .json({ error: error.message || "Failed to receive inbound email" });
     }
   });
 
@@ -3825,6 +4434,81 @@ export async function registerRoutes(
     }
   });
 
+  // ===== EMAIL PROCESSING LEDGER =====
+
+  // Per-message processing state for an email data source (?state=failed)
+  app.get("/api/data-sources/:id/email-ledger", async (req, res) => {
+    try {
+      const state = req.query.state as string | undefined;
+      const messages = await getEmailLedger(req.params.id);
+      res.json(
+        (state ? messages.filter((m) => m.state === state) : messages).sort(
+          (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+        ),
+      );
+    } catch (error: any) {
+      console.error("Error fetching email ledger:", error);
+      res.status(500).json({ error: "Failed to fetch email ledger" });
+    }
+  });
+
+  // Retry a failed message, or replay (re-import) any past one
+  for (const action of ["retry", "replay"] as const) {
+    app.post(
+      `/api/data-sources/:id/email-ledger/${action}`,
+      async (req, res) => {
+        try {
+          const dataSourceId = req.params.id;
+          const messageId = req.body?.messageId;
+          if (!messageId) {
+            return res.status(400).json({ error: "messageId is required" });
+          }
+
+          const dataSource = await storage.getDataSource(dataSourceId);
+          if (!dataSource) {
+            return res.status(404).json({ error: "Data source not found" });
+          }
+          const message = await getLedgerMessage(dataSourceId, messageId);
+          if (!message) {
+            return res
+              .status(404)
+              .json({ error: "Message not found in the ledger" });
+          }
+          if (action === "retry" && message.state !== "failed") {
+            return res.status(409).json({
+              error: `Only failed messages can be retried (this one is ${message.state})`,
+            });
+          }
+          const settingsCheck = resolveEmailSettings(
+            (dataSource as any).emailSettings,
+          );
+          if ("error" in settingsCheck) {
+            return res.status(400).json({ error: settingsCheck.error });
+          }
+
+          const job = await enqueueImportJob({
+            kind: "email",
+            dataSourceId,
+            params: { messageId, replay: action === "replay" },
+          });
+          // Answer now; the client follows the job at statusUrl and
+          // re-reads the ledger when it ends
+          res.status(202).json({
+            success: true,
+            queued: true,
+            jobId: job.id,
+            statusUrl: `/api/import-jobs/${job.id}`,
+          });
+        } catch (error: any) {
+          console.error(`Error running email ledger ${action}:`, error);
+          res
+            .status(500)
+            .json({ error: error.message || `Failed to ${action} email` });
+        }
+      },
+    );
+  }
+
   // Test email connection
   app.post("/api/data-sources/:id/test-email", async (req, res) => {
     try {
@@ -3836,28 +4520,15 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Data source not found" });
       }
 
-      const emailSettings = (dataSource as any).emailSettings;
-      if (!emailSettings || !emailSettings.host || !emailSettings.username) {
-        return res.status(400).json({ error: "Email settings not configured" });
-      }
-
-      // Resolve password from environment variable if it uses env: prefix syntax
-      const resolvedSettings = { ...emailSettings };
-      if (emailSettings.password && emailSettings.password.startsWith("env:")) {
-        const envVarName = emailSettings.password.substring(4);
-        const envPassword = process.env[envVarName];
-        if (envPassword) {
-          resolvedSettings.password = envPassword;
-        } else {
-          return res.status(400).json({
-            error: `Email password secret '${envVarName}' is not configured. Please add it to your environment secrets.`,
-          });
-        }
+      const resolved = resolveEmailSettings((dataSource as any).emailSettings);
+      if ("error" in resolved) {
+        return res.status(400).json({ error: resolved.error });
       }
 
       const { testEmailConnection } = await import("./emailFetcher");
 
-      const result = await testEmailConnection(resolvedSettings);
+      // With the data source ID the OAuth token is cached for later fetches
+      const result = await testEmailConnection(resolved.settings, dataSourceId);
 
       if (result.success) {
         res.json({ success: true, folderCount: result.folderCount });
@@ -4087,7 +4758,7 @@ export async function registerRoutes(
       }
 
       // Trigger Shopify sync if enabled - sync only this data source + its sale file (same as manual sync)
-      triggerShopifySyncAfterImport(dataSourceId).catch((err) => {
+      syncShopifyAfterImport(dataSourceId).catch((err) => {
         console.error(
           "Error triggering Shopify sync after reimport:",
           err.message,
@@ -4139,6 +4810,39 @@ export async function registerRoutes(
     }
   });
 
+  // Provenance trail for a single inventory item: source file/sheet/row and
+  // every import step that changed it (recorded by executeImport)
+  app.get("/api/inventory/:id/provenance", async (req, res) => {
+    try {
+      const [item] = await db
+        .select()
+        .from(inventoryItems)
+        .where(eq(inventoryItems.id, req.params.id));
+      if (!item) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+
+      const provenance = (item.rawData as any)?._provenance || null;
+      res.json({
+        id: item.id,
+        dataSourceId: item.dataSourceId,
+        fileId: item.fileId,
+        sku: item.sku,
+        style: item.style,
+        color: item.color,
+        size: item.size,
+        stock: item.stock,
+        provenance,
+        message: provenance
+          ? undefined
+          : "No provenance recorded — item was imported before provenance tracking",
+      });
+    } catch (error) {
+      console.error("Error fetching inventory provenance:", error);
+      res.status(500).json({ error: "Failed to fetch inventory provenance" });
+    }
+  });
+
   // Delete inventory items by file
   app.delete("/api/inventory/file/:fileId", async (req, res) => {
     try {
@@ -4305,6 +5009,191 @@ export async function registerRoutes(
     }
   });
 
+  // Registered channel adapters and what each supports
+  app.get("/api/channels/adapters", async (req, res) => {
+    res.json(listChannelAdapters());
+  });
+
+  async function findChannelIntegration(id: string) {
+    const channels = await storage.getChannelIntegrations();
+    return channels.find((c) => c.id === id);
+  }
+
+  // Stock sync settings for a channel (store, data sources, buffers)
+  app.get("/api/channels/:id/sync-config", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      res.json(await getChannelSyncConfig(channel.id));
+    } catch (error) {
+      console.error("Error fetching channel sync config:", error);
+      res.status(500).json({ error: "Failed to fetch channel sync config" });
+    }
+  });
+
+  app.put("/api/channels/:id/sync-config", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      const { storeId, dataSourceIds, stockBuffer, bufferPercent, maxQuantity, pushPrices } =
+        req.body;
+      const result = await saveChannelSyncConfig(channel.id, {
+        ...(storeId !== undefined && { storeId: storeId || null }),
+        ...(dataSourceIds !== undefined && { dataSourceIds }),
+        ...(stockBuffer !== undefined && { stockBuffer: Number(stockBuffer) }),
+        ...(bufferPercent !== undefined && {
+          bufferPercent: Number(bufferPercent),
+        }),
+        ...(maxQuantity !== undefined && {
+          maxQuantity:
+            maxQuantity === null || maxQuantity === ""
+              ? null
+              : Number(maxQuantity),
+        }),
+        ...(pushPrices !== undefined && { pushPrices: !!pushPrices }),
+      });
+      if (result.error) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.json(result.config);
+    } catch (error) {
+      console.error("Error saving channel sync config:", error);
+      res.status(500).json({ error: "Failed to save channel sync config" });
+    }
+  });
+
+  // Push master inventory stock (after buffers) to the channel.
+  // Body: { dryRun?: boolean } — dry run returns the computed quantities only
+  app.post("/api/channels/:id/sync-stock", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      const result = await syncChannelStock(channel, {
+        dryRun: !!req.body?.dryRun,
+      });
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error syncing channel stock:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to sync channel stock" });
+    }
+  });
+
+  // Create a listing on the channel for a Shopify product
+  app.post("/api/channels/:id/listings", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      const adapter = getChannelAdapter(channel.type);
+      if (!adapter) {
+        return res
+          .status(400)
+          .json({ error: `No adapter for channel type "${channel.type}"` });
+      }
+      const { shopifyProductId, reason } = req.body;
+      if (!shopifyProductId) {
+        return res.status(400).json({ error: "shopifyProductId is required" });
+      }
+      const { ctx, error } = await resolveChannelContext(channel);
+      if (!ctx) {
+        return res.status(400).json({ error });
+      }
+
+      const result = await adapter.createListing(ctx, {
+        shopifyProductId,
+        reason,
+      });
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error creating channel listing:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to create listing" });
+    }
+  });
+
+  // End a listing on the channel. Body: { listingId?, shopifyProductId?, offerId? }
+  app.post("/api/channels/:id/end-listing", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      const adapter = getChannelAdapter(channel.type);
+      if (!adapter) {
+        return res
+          .status(400)
+          .json({ error: `No adapter for channel type "${channel.type}"` });
+      }
+      const { ctx, error } = await resolveChannelContext(channel);
+      if (!ctx) {
+        return res.status(400).json({ error });
+      }
+
+      const { listingId, shopifyProductId, offerId } = req.body;
+      const result = await adapter.endListing(ctx, {
+        listingId,
+        shopifyProductId,
+        offerId,
+      });
+      if (!result.success) {
+        return res.status(result.notFound ? 404 : 400).json(result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error ending channel listing:", error);
+      res.status(500).json({ error: error.message || "Failed to end listing" });
+    }
+  });
+
+  // Fetch orders placed on the channel. Body: { since?: ISO date }
+  app.post("/api/channels/:id/pull-orders", async (req, res) => {
+    try {
+      const channel = await findChannelIntegration(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      const adapter = getChannelAdapter(channel.type);
+      if (!adapter) {
+        return res
+          .status(400)
+          .json({ error: `No adapter for channel type "${channel.type}"` });
+      }
+      const { ctx, error } = await resolveChannelContext(channel);
+      if (!ctx) {
+        return res.status(400).json({ error });
+      }
+
+      const since = req.body?.since ? new Date(req.body.since) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: "Invalid since date" });
+      }
+      const result = await adapter.pullOrders(ctx, { since });
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error pulling channel orders:", error);
+      res.status(500).json({ error: error.message || "Failed to pull orders" });
+    }
+  });
+
   // Update channel integration
   app.patch("/api/channels/:id", async (req, res) => {
     try {
@@ -4335,6 +5224,74 @@ export async function registerRoutes(
     }
   });
 
+  // ========== STOCK ALLOCATION & RESERVATIONS ==========
+
+  // Per-channel allocation rules applied by every stock sync
+  app.get("/api/stock-allocation/rules", async (req, res) => {
+    try {
+      res.json({ rules: await getStockAllocationRules() });
+    } catch (error) {
+      console.error("Error fetching stock allocation rules:", error);
+      res.status(500).json({ error: "Failed to fetch allocation rules" });
+    }
+  });
+
+  // Replace the rule set
+  app.put("/api/stock-allocation/rules", async (req, res) => {
+    try {
+      const { rules, error } = await saveStockAllocationRules(req.body?.rules);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      res.json({ rules });
+    } catch (error: any) {
+      console.error("Error saving stock allocation rules:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to save allocation rules" });
+    }
+  });
+
+  // Open-order reservation ledger (?sku= narrows to one item)
+  app.get("/api/stock-reservations", async (req, res) => {
+    try {
+      const ledger = await getReservationLedger();
+      if (!ledger) {
+        return res.json({ builtAt: null, orderCount: 0, entries: [] });
+      }
+      const sku = (req.query.sku as string | undefined)?.toLowerCase();
+      res.json(
+        sku
+          ? {
+              ...ledger,
+              entries: ledger.entries.filter(
+                (e) => e.sku?.toLowerCase() === sku,
+              ),
+            }
+          : ledger,
+      );
+    } catch (error) {
+      console.error("Error fetching stock reservations:", error);
+      res.status(500).json({ error: "Failed to fetch stock reservations" });
+    }
+  });
+
+  app.post("/api/stock-reservations/rebuild", async (req, res) => {
+    try {
+      const ledger = await rebuildReservationLedger();
+      res.json({
+        builtAt: ledger.builtAt,
+        orderCount: ledger.orderCount,
+        entries: ledger.entries.length,
+      });
+    } catch (error: any) {
+      console.error("Error rebuilding stock reservations:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to rebuild reservations" });
+    }
+  });
+
   // ========== AI COLUMN MAPPING ==========
 
   // Analyze Excel file with AI to suggest column mappings
@@ -4478,6 +5435,35 @@ export async function registerRoutes(
         return { ...item, cachedShopifyPrice: cachedPrice || null };
       });
 
+      // Units held by open orders, with the orders holding them
+      const reservations = await loadReservationLookup();
+      for (const item of itemsWithPrice as any[]) {
+        const reservation = reservations(item);
+        if (reservation) item.reservation = reservation;
+      }
+
+      // Per-channel allocated stock (only when allocation rules exist)
+      const allocationRules = (await getStockAllocationRules()).filter(
+        (r) => r.enabled,
+      );
+      if (allocationRules.length > 0) {
+        const channels = Array.from(
+          new Set([
+            "shopify",
+            "ebay",
+            ...allocationRules
+              .map((r) => r.channel)
+              .filter((c) => c !== "*"),
+          ]),
+        );
+        const allocators = await buildStockAllocators(channels, reservations);
+        for (const item of itemsWithPrice as any[]) {
+          item.allocated = Object.fromEntries(
+            channels.map((c) => [c, allocators[c](item).quantity]),
+          );
+        }
+      }
+
       res.json({ ...result, items: itemsWithPrice });
     } catch (error) {
       console.error("Error fetching paginated master inventory:", error);
@@ -4723,24 +5709,8 @@ export async function registerRoutes(
             `This appears to be a corrupted or empty file. Import blocked to protect your data.`,
         });
       }
-      const manualDataSource = await storage.getDataSource(dataSourceId);
-      if (manualDataSource) {
-        const safetyCheck = checkSafetyThreshold(manualDataSource, existingCount, items.length, "Manual Import");
-        if (safetyCheck.blocked) {
-          return res.status(400).json({
-            error: safetyCheck.message,
-            safetyBlock: true,
-            existingCount,
-            newCount: items.length,
-            dropPercent: safetyCheck.dropPercent,
-          });
-        }
-      }
-
-      // Delete existing items for this data source before importing new ones
-      await storage.deleteInventoryItemsByDataSource(dataSourceId);
 
-      // Insert new items
+      // Map to inventory rows (also what a quarantined import stores)
       const inventoryItems = items.map((item: any) => ({
         dataSourceId,
         sku: item.sku || "",
@@ -4757,6 +5727,60 @@ export async function registerRoutes(
         rawData: item.rawData || null,
       }));
 
+      // SAFETY NET: same data source policies as every other import path —
+      // a blocked / held import is quarantined for review, not dropped
+      const manualDataSource = await storage.getDataSource(dataSourceId);
+      if (manualDataSource && inventoryItems.length > 0) {
+        const existingItems =
+          await storage.getInventoryItemsByDataSource(dataSourceId);
+        const safetyNet = evaluateSafetyNetPolicies(
+          manualDataSource,
+          existingItems,
+          inventoryItems,
+          "full_sync",
+        );
+        if (safetyNet.outcome === "warn") {
+          console.warn(`[Manual Import] ${safetyNet.message}`);
+        } else if (
+          safetyNet.outcome === "block" ||
+          safetyNet.outcome === "hold"
+        ) {
+          console.error(`[Manual Import] SAFETY BLOCK: ${safetyNet.message}`);
+          const review = await recordSafetyNetReview(
+            manualDataSource,
+            "manual_import",
+            safetyNet,
+            existingItems.length,
+            {
+              items: inventoryItems,
+              stats: {
+                totalItems: items.length,
+                finalCount: inventoryItems.length,
+              },
+              headers: Array.isArray(req.body.headers)
+                ? req.body.headers.map((h: any) => String(h ?? ""))
+                : [],
+              updateStrategy: "full_sync",
+              fileName: "Manual import",
+              fileSize: 0,
+            },
+          );
+          return res.status(400).json({
+            error: `${safetyNet.message} Import ${safetyNet.outcome === "hold" ? "held for approval" : "blocked"} and quarantined for review.`,
+            message: safetyNet.message,
+            safetyBlock: true,
+            safetyHold: safetyNet.outcome === "hold" || undefined,
+            safetyReviewId: review.id,
+            safetyFindings: safetyNet.findings,
+            existingCount: existingItems.length,
+            newCount: inventoryItems.length,
+          });
+        }
+      }
+
+      // Delete existing items for this data source before importing new ones
+      await storage.deleteInventoryItemsByDataSource(dataSourceId);
+
       const created = await storage.createInventoryItems(inventoryItems);
 
       // Await auto-consolidation so frontend cache invalidation gets fully consolidated data
@@ -4767,8 +5791,8 @@ export async function registerRoutes(
       }
 
       // Trigger Shopify sync if enabled - sync only this data source + its sale file
-      // Note: Using only triggerShopifySyncAfterImport to avoid duplicate syncs
-      triggerShopifySyncAfterImport(dataSourceId).catch((err) => {
+      // Note: Using only syncShopifyAfterImport to avoid duplicate syncs
+      syncShopifyAfterImport(dataSourceId).catch((err) => {
         console.error(
           "Error triggering Shopify sync after import:",
           err.message,
@@ -5409,9 +6433,14 @@ export async function registerRoutes(
           (existingDataSource as any).regularPriceConfig,
       };
 
-      const updatedDataSource = await storage.updateDataSource(
+      const updatedDataSource = await updateDataSourceConfig(
         dataSourceId,
         updatePayload,
+        {
+          userId: (req as any).user?.claims?.sub,
+          source: "update",
+          note: `Applied template "${template.name}"`,
+        },
       );
 
       res.json({
@@ -5573,11 +6602,11 @@ export async function registerRoutes(
           dataSourceId,
           limit,
         );
-        return res.json(logs);
+        return res.json(await tagImportLogsWithConfigVersion(logs));
       }
 
       const logs = await storage.getRecentImportLogs(limit);
-      res.json(logs);
+      res.json(await tagImportLogsWithConfigVersion(logs));
     } catch (error) {
       console.error("Error getting import logs:", error);
       res.status(500).json({ error: "Failed to get import logs" });
@@ -5592,13 +6621,100 @@ export async function registerRoutes(
         req.params.id,
         limit,
       );
-      res.json(logs);
+      res.json(await tagImportLogsWithConfigVersion(logs));
     } catch (error) {
       console.error("Error getting import logs for data source:", error);
       res.status(500).json({ error: "Failed to get import logs" });
     }
   });
 
+  // ===== DATA SOURCE CONFIG HISTORY =====
+
+  // Config versions, newest first (without the config bodies)
+  app.get("/api/data-sources/:id/config-versions", async (req, res) => {
+    try {
+      const versions = await getConfigVersions(req.params.id);
+      res.json(
+        versions
+          .map(({ config, ...summary }) => summary)
+          .reverse(),
+      );
+    } catch (error) {
+      console.error("Error getting config versions:", error);
+      res.status(500).json({ error: "Failed to get config versions" });
+    }
+  });
+
+  // Diff two versions (?from=&to=; defaults: latest against the one before)
+  app.get("/api/data-sources/:id/config-versions/diff", async (req, res) => {
+    try {
+      const versions = await getConfigVersions(req.params.id);
+      if (versions.length === 0) {
+        return res.status(404).json({ error: "No config versions recorded" });
+      }
+      const toVersion = req.query.to
+        ? parseInt(req.query.to as string)
+        : versions[versions.length - 1].version;
+      const to = versions.find((v) => v.version === toVersion);
+      const fromVersion = req.query.from
+        ? parseInt(req.query.from as string)
+        : toVersion - 1;
+      const from = versions.find((v) => v.version === fromVersion);
+      if (!to || !from) {
+        return res.status(404).json({
+          error: `Version ${!to ? toVersion : fromVersion} not found`,
+        });
+      }
+      res.json(diffConfigVersions(from, to));
+    } catch (error) {
+      console.error("Error diffing config versions:", error);
+      res.status(500).json({ error: "Failed to diff config versions" });
+    }
+  });
+
+  app.get(
+    "/api/data-sources/:id/config-versions/:version",
+    async (req, res) => {
+      try {
+        const version = await getConfigVersion(
+          req.params.id,
+          parseInt(req.params.version),
+        );
+        if (!version) {
+          return res.status(404).json({ error: "Version not found" });
+        }
+        res.json(version);
+      } catch (error) {
+        console.error("Error getting config version:", error);
+        res.status(500).json({ error: "Failed to get config version" });
+      }
+    },
+  );
+
+  // Restore a version's config (recorded as a new version)
+  app.post(
+    "/api/data-sources/:id/config-versions/:version/revert",
+    async (req: any, res) => {
+      try {
+        const result = await revertConfigVersion(
+          req.params.id,
+          parseInt(req.params.version),
+          { userId: req.user?.claims?.sub },
+        );
+        if (result.error) {
+          const status = result.error.includes("not found") ? 404 : 400;
+          return res.status(status).json({ error: result.error });
+        }
+        res.json(result);
+      } catch (error: any) {
+        console.error("Error reverting config version:", error);
+        res
+          .status(500)
+          .json({ error: error.message || "Failed to revert config" });
+      }
+    },
+  );
+
   // ===== NOTIFICATION SETTINGS ROUTES =====
 
   // Get notification settings
@@ -6249,13 +7365,10 @@ export async function registerRoutes(
       setImmediate(async () => {
         try {
           // Default to sequential mode for reliability (per-vendor processing)
-          const syncResult = sequential
-            ? await syncInventoryToShopifySequential(storeId, dryRun, {
-                dataSourceIds: dataSourceIds || undefined,
-              })
-            : await syncInventoryToShopify(storeId, dryRun, {
-                dataSourceIds: dataSourceIds || undefined,
-              });
+          const syncResult = await syncShopifyStock(storeId, dryRun, {
+            dataSourceIds: dataSourceIds || undefined,
+            sequential,
+          });
 
           console.log(
             `[Sync] Background sync completed for store ${storeId}:`,
@@ -6306,13 +7419,12 @@ export async function registerRoutes(
         `[Sync] Starting sync for data source "${dataSource.name}" (IDs: ${dataSourceIdsToSync.join(", ")})`,
       );
 
-      const syncLog = await syncInventoryToShopify(
-        dataSource.shopifyStoreId,
-        false,
-        {
-          dataSourceIds: dataSourceIdsToSync,
-        },
-      );
+      const syncLog = await syncShopifyStock(dataSource.shopifyStoreId, false, {
+        dataSourceIds: dataSourceIdsToSync,
+        sequential: false,
+      });
+      // Variant deletions made by the sync are logged against its sync log
+      annotateAudit(res, { syncLogId: syncLog.id });
 
       res.json(syncLog);
     } catch (error: any) {
@@ -7079,6 +8191,8 @@ export async function registerRoutes(
         variantIds,
       );
 
+      const allocateShopifyStock = await buildStockAllocator("shopify");
+
       let fixedCount = 0;
       let failedCount = 0;
       let skippedCount = 0;
@@ -7141,17 +8255,19 @@ export async function registerRoutes(
           if (fixType === "stock" || fixType === "all") {
             const locationId = store.primaryLocationId;
             if (locationId) {
+              const allocatedStock =
+                allocateShopifyStock(inventoryItem).quantity;
               console.log(
-                `[FixMismatch] Updating stock for ${variant.sku}: ${variant.stock} -> ${inventoryItem.stock || 0}`,
+                `[FixMismatch] Updating stock for ${variant.sku}: ${variant.stock} -> ${allocatedStock}`,
               );
               await shopify.setInventoryLevel(
                 variant.inventoryItemId,
                 locationId,
-                inventoryItem.stock || 0,
+                allocatedStock,
               );
               await storage.updateVariantCacheStock(
                 variant.id,
-                inventoryItem.stock || 0,
+                allocatedStock,
               );
             }
           }
@@ -7406,6 +8522,10 @@ export async function registerRoutes(
       let deletedCount = 0;
       let failedCount = 0;
       const errors: string[] = [];
+      const skuByVariantId = new Map<string, string>(
+        cachedVariants.map((v) => [v.id, v.sku] as [string, string]),
+      );
+      const deletions: AuditDeletion[] = [];
 
       for (const [productId, variantIds] of Array.from(
         variantsToDelete.entries(),
@@ -7420,6 +8540,19 @@ export async function registerRoutes(
           if (result.errors.length > 0) {
             errors.push(...result.errors);
           }
+          // Per-variant outcome is only known when the whole product succeeded
+          for (const variantId of variantIds) {
+            deletions.push({
+              productId,
+              variantId,
+              sku: skuByVariantId.get(variantId) || null,
+              deleted: result.success === variantIds.length,
+              error:
+                result.success === variantIds.length
+                  ? undefined
+                  : `${result.success}/${variantIds.length} deleted for product`,
+            });
+          }
 
           // Only remove SUCCESSFULLY deleted variants from cache
           // If all succeeded, result.success === variantIds.length
@@ -7440,12 +8573,25 @@ export async function registerRoutes(
         } catch (err: any) {
           failedCount += variantIds.length;
           errors.push(`Product ${productId}: ${err.message}`);
+          for (const variantId of variantIds) {
+            deletions.push({
+              productId,
+              variantId,
+              sku: skuByVariantId.get(variantId) || null,
+              deleted: false,
+              error: err.message,
+            });
+          }
         }
       }
 
       console.log(
         `[DeleteNonMatching] Complete: deleted=${deletedCount}, failed=${failedCount}`,
       );
+      annotateAudit(res, {
+        deletions,
+        details: { dataSourceId, deletedCount, failedCount },
+      });
 
       res.json({
         deletedCount,
@@ -8608,6 +9754,9 @@ export async function registerRoutes(
         })),
       );
 
+      // Shopify is expected to hold the allocated stock, not the raw count
+      const allocateShopifyStock = await buildStockAllocator("shopify");
+
       const dataSourcesWithData = new Set<string>();
       const inventoryByDataSource = new Map<string, any[]>();
 
@@ -9078,7 +10227,8 @@ export async function registerRoutes(
 
           // Stock mismatch check
           const shopifyStock = v.stock ?? 0;
-          const dbStock = dbItem.stock ?? 0;
+          const masterStock = dbItem.stock ?? 0;
+          const dbStock = allocateShopifyStock(dbItem).quantity;
           if (shopifyStock !== dbStock) {
             result.stockMismatches++;
             if (result.stockMismatchList.length < limit) {
@@ -9089,6 +10239,7 @@ export async function registerRoutes(
                 size: shopifySize || null,
                 shopifyStock,
                 dbStock,
+                ...(masterStock !== dbStock ? { masterStock } : {}),
                 difference: dbStock - shopifyStock,
               });
             }
@@ -9126,7 +10277,7 @@ export async function registerRoutes(
           const metafieldRule = getMetafieldRuleForDs(dbItem.dataSourceId);
           if (metafieldRule) {
             const expectedStockInfo = auditCalculateStockInfo(metafieldRule, {
-              stock: dbStock,
+              stock: masterStock,
               shipDate: dbItem.shipDate || dbItem.ship_date || null,
               isExpandedSize: dbItem.isExpandedSize || false,
             });
@@ -16584,6 +17735,11 @@ export async function registerRoutes(
         return res.status(400).json({ error: "variantIds array is required" });
       }
 
+      // Variant details for the audit deletion log (gone from cache afterwards)
+      const targeted = dryRun
+        ? []
+        : await storage.getVariantCacheByIds(storeId, variantIds);
+
       const { executeCrossDataSourceCleanup } = await import("./shopify");
       const result = await executeCrossDataSourceCleanup(
         storeId,
@@ -16592,6 +17748,21 @@ export async function registerRoutes(
         dryRun,
       );
 
+      if (!dryRun) {
+        const cleanupFailed = (result as any).success === false;
+        annotateAudit(res, {
+          deletions: targeted.map((v) => ({
+            productId: v.shopifyProductId,
+            variantId: v.id,
+            sku: v.sku,
+            title: v.productTitle,
+            deleted: !cleanupFailed,
+            error: cleanupFailed ? (result as any).error : undefined,
+          })),
+          details: { requested: variantIds.length, maxDeletions },
+        });
+      }
+
       res.json(result);
     } catch (error: any) {
       console.error("Error executing cleanup:", error);
@@ -16808,80 +17979,415 @@ export async function registerRoutes(
         skus,
       );
 
-      // Build comparison
-      const changes: Array<{
-        sku: string;
-        field: string;
-        currentValue: string | number | null;
-        snapshotValue: string | number | null;
-      }> = [];
+      // Build comparison
+      const changes: Array<{
+        sku: string;
+        field: string;
+        currentValue: string | number | null;
+        snapshotValue: string | number | null;
+      }> = [];
+
+      const currentByVariantId = new Map(currentVariants.map((v) => [v.id, v]));
+
+      for (const snapVar of snapshot.variantData) {
+        const current = currentByVariantId.get(snapVar.variantId);
+        if (!current) {
+          changes.push({
+            sku: snapVar.sku,
+            field: "variant",
+            currentValue: "missing",
+            snapshotValue: "exists",
+          });
+          continue;
+        }
+
+        // Compare price
+        if (current.price !== snapVar.price) {
+          changes.push({
+            sku: snapVar.sku,
+            field: "price",
+            currentValue: current.price,
+            snapshotValue: snapVar.price,
+          });
+        }
+        // Compare compareAtPrice
+        if (current.compareAtPrice !== snapVar.compareAtPrice) {
+          changes.push({
+            sku: snapVar.sku,
+            field: "compareAtPrice",
+            currentValue: current.compareAtPrice,
+            snapshotValue: snapVar.compareAtPrice,
+          });
+        }
+        // Compare stock
+        if (current.stock !== snapVar.inventoryQuantity) {
+          changes.push({
+            sku: snapVar.sku,
+            field: "stock",
+            currentValue: current.stock,
+            snapshotValue: snapVar.inventoryQuantity,
+          });
+        }
+        // Compare stockInfo
+        if (current.stockInfoMetafield !== snapVar.stockInfo) {
+          changes.push({
+            sku: snapVar.sku,
+            field: "stockInfo",
+            currentValue: current.stockInfoMetafield,
+            snapshotValue: snapVar.stockInfo,
+          });
+        }
+      }
+
+      res.json({
+        snapshotId: snapshot.id,
+        snapshotDate: snapshot.createdAt,
+        totalVariants: snapshot.variantData.length,
+        changesRequired: changes.length,
+        changes: changes.slice(0, 100), // Limit to first 100 for preview
+        hasMoreChanges: changes.length > 100,
+      });
+    } catch (error: any) {
+      console.error("Error previewing restore:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to preview restore" });
+    }
+  });
+
+  // Compare two sync snapshots of the same store / data source.
+  // ?against=<snapshotId> is the older side; defaults to the snapshot taken
+  // just before this one in the same scope. ?format=csv downloads every entry.
+  app.get("/api/sync-snapshots/:id/diff", async (req, res) => {
+    try {
+      const snapshot = await storage.getSyncSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      const storeId = snapshot.shopifyStoreId!;
+
+      let against;
+      if (req.query.against) {
+        against = await storage.getSyncSnapshot(req.query.against as string);
+        if (!against) {
+          return res.status(404).json({ error: "Comparison snapshot not found" });
+        }
+      } else {
+        const candidates = snapshot.dataSourceId
+          ? await storage.getSyncSnapshotsByDataSource(snapshot.dataSourceId, 200)
+          : (await storage.getSyncSnapshotsByStore(storeId, 200)).filter(
+              (s) => !s.dataSourceId,
+            );
+        const snapshotTime = new Date(snapshot.createdAt!).getTime();
+        against = candidates
+          .filter(
+            (s) =>
+              s.id !== snapshot.id &&
+              s.shopifyStoreId === storeId &&
+              new Date(s.createdAt!).getTime() < snapshotTime,
+          )
+          .sort(
+            (a, b) =>
+              new Date(b.createdAt!).getTime() -
+              new Date(a.createdAt!).getTime(),
+          )[0];
+        if (!against) {
+          return res
+            .status(400)
+            .json({ error: "No earlier snapshot to compare against" });
+        }
+      }
+
+      if (against.shopifyStoreId !== storeId) {
+        return res
+          .status(400)
+          .json({ error: "Snapshots belong to different stores" });
+      }
+      if ((against.dataSourceId || null) !== (snapshot.dataSourceId || null)) {
+        return res.status(400).json({
+          error:
+            "Snapshots cover different scopes (data source vs. full store)",
+        });
+      }
+
+      // Older snapshot is always the "from" side
+      const [from, to] =
+        new Date(against.createdAt!).getTime() <=
+        new Date(snapshot.createdAt!).getTime()
+          ? [against, snapshot]
+          : [snapshot, against];
+      const [fromVariants, toVariants] = await Promise.all([
+        loadSnapshotVariants(from),
+        loadSnapshotVariants(to),
+      ]);
+
+      // Vendor / title / options from the variant cache for grouping
+      const variantIds = Array.from(
+        new Set(
+          [...fromVariants, ...toVariants]
+            .map((v: any) => v.variantId)
+            .filter(Boolean),
+        ),
+      ) as string[];
+      const cached =
+        variantIds.length > 0
+          ? await storage.getVariantCacheByIds(storeId, variantIds)
+          : [];
+      const meta = new Map<string, VariantMeta>(
+        cached.map(
+          (v: any) =>
+            [
+              v.id,
+              {
+                vendor: v.vendor,
+                productTitle: v.productTitle,
+                color: v.option1Value,
+                size: v.option2Value,
+              },
+            ] as [string, VariantMeta],
+        ),
+      );
+      const dataSource = snapshot.dataSourceId
+        ? await storage.getDataSource(snapshot.dataSourceId)
+        : undefined;
+
+      const diff = diffSyncSnapshots(fromVariants, toVariants, {
+        meta,
+        fallbackVendor: dataSource?.name,
+      });
+
+      if (req.query.format === "csv") {
+        const day = (d: any) => new Date(d).toISOString().split("T")[0];
+        const filename = `snapshot_diff_${day(from.createdAt)}_to_${day(to.createdAt)}.csv`;
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}"`,
+        );
+        return res.send(snapshotDiffToCsv(diff));
+      }
+
+      const limit = Math.min(
+        parseInt(req.query.limit as string) || 500,
+        5000,
+      );
+      res.json({
+        from: {
+          id: from.id,
+          createdAt: from.createdAt,
+          totalVariants: fromVariants.length,
+        },
+        to: {
+          id: to.id,
+          createdAt: to.createdAt,
+          totalVariants: toVariants.length,
+        },
+        dataSourceId: snapshot.dataSourceId,
+        dataSourceName: dataSource?.name || null,
+        ...limitSnapshotDiff(diff, limit),
+      });
+    } catch (error: any) {
+      console.error("Error comparing sync snapshots:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to compare sync snapshots" });
+    }
+  });
+
+  // Restore a sync snapshot to Shopify (background job).
+  // Body: { dataSourceId?: string | null, fields?: ("stock" | "price" | "compareAtPrice")[] }
+  // dataSourceId defaults to the snapshot's own; null restores the whole store.
+  app.post("/api/sync-snapshots/:id/restore-execute", async (req: any, res) => {
+    try {
+      const { dataSourceId, fields } = req.body || {};
+      if (fields !== undefined && !Array.isArray(fields)) {
+        return res.status(400).json({ error: "fields must be an array" });
+      }
+
+      const result = await startSnapshotRestore(req.params.id, {
+        dataSourceId,
+        fields: fields as SnapshotRestoreField[] | undefined,
+        userId: req.user?.claims?.sub,
+      });
+      if (result.error) {
+        return res
+          .status(result.status || 400)
+          .json({ error: result.error, job: result.job });
+      }
+
+      res.json({ success: true, jobId: result.job!.id, job: result.job });
+    } catch (error: any) {
+      console.error("Error starting snapshot restore:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to start snapshot restore" });
+    }
+  });
+
+  // List snapshot restore jobs (newest first)
+  app.get("/api/snapshot-restores", async (req, res) => {
+    try {
+      const jobs = await listSnapshotRestores({
+        shopifyStoreId: req.query.storeId as string | undefined,
+        snapshotId: req.query.snapshotId as string | undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      });
+      res.json(jobs);
+    } catch (error: any) {
+      console.error("Error listing snapshot restores:", error);
+      res.status(500).json({ error: "Failed to list snapshot restores" });
+    }
+  });
+
+  app.get("/api/snapshot-restores/:id", async (req, res) => {
+    try {
+      const job = await getSnapshotRestore(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Restore job not found" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      console.error("Error fetching snapshot restore:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot restore" });
+    }
+  });
+
+  // Stop a running restore after the current variant
+  app.post("/api/snapshot-restores/:id/cancel", async (req, res) => {
+    try {
+      const result = await cancelSnapshotRestore(req.params.id);
+      if (!result.job) {
+        return res.status(404).json({ error: result.reason });
+      }
+      if (!result.cancelled) {
+        return res
+          .status(409)
+          .json({ error: `Cannot cancel: ${result.reason}`, job: result.job });
+      }
+      res.json({ success: true, job: result.job });
+    } catch (error: any) {
+      console.error("Error cancelling snapshot restore:", error);
+      res.status(500).json({ error: "Failed to cancel snapshot restore" });
+    }
+  });
+
+  /**
+   * SSE endpoint for snapshot restore progress — same protocol as the sync
+   * progress stream.
+   *
+   * const eventSource = new EventSource(`/api/snapshot-restores/${jobId}/progress/stream`);
+   */
+  app.get("/api/snapshot-restores/:id/progress/stream", async (req, res) => {
+    const jobId = req.params.id;
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("Content-Encoding", "none"); // Disable compression
+    res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+    res.flushHeaders();
+
+    console.log(`[SSE] Client connected for snapshot restore ${jobId}`);
+
+    let isClientConnected = true;
+    let consecutiveInactiveCount = 0;
+    const MAX_INACTIVE_BEFORE_CLOSE = 10; // Keep connection open for ~5 seconds after the restore ends
+
+    const write = (chunk: string) => {
+      res.write(chunk);
+      if (typeof (res as any).flush === "function") {
+        (res as any).flush();
+      }
+    };
+
+    const sendHeartbeat = () => {
+      if (!isClientConnected) return;
+      try {
+        write(`: heartbeat ${Date.now()}\n\n`);
+      } catch (e) {
+        isClientConnected = false;
+      }
+    };
+
+    // Returns whether the restore is still running
+    const sendProgress = async (): Promise<boolean> => {
+      if (!isClientConnected) return false;
+      try {
+        const job = await getSnapshotRestore(jobId);
+        if (!job) {
+          write(`data: ${JSON.stringify({ active: false, found: false })}\n\n`);
+          return false;
+        }
+
+        const active = !isTerminalSnapshotRestore(job);
+        const data = JSON.stringify({
+          active,
+          jobId: job.id,
+          snapshotId: job.snapshotId,
+          dataSourceId: job.dataSourceId,
+          status: job.status,
+          currentPhase: job.phase,
+          cancellable: active && !job.cancelRequested,
+          cancelRequested: job.cancelRequested,
+          total: job.total,
+          processed: job.processed,
+          overallPercent:
+            job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0,
+          updated: job.updated,
+          unchanged: job.unchanged,
+          missing: job.missing,
+          failed: job.failed,
+          undoSnapshotId: job.undoSnapshotId,
+          error: job.error,
+          errors: active ? undefined : job.errors,
+          updatedAt: job.updatedAt,
+        });
+        write(`data: ${data}\n\n`);
+        return active;
+      } catch (error) {
+        console.error("[SSE] Error sending snapshot restore progress:", error);
+        return false;
+      }
+    };
+
+    await sendProgress();
 
-      const currentByVariantId = new Map(currentVariants.map((v) => [v.id, v]));
+    const heartbeatId = setInterval(sendHeartbeat, 15000);
 
-      for (const snapVar of snapshot.variantData) {
-        const current = currentByVariantId.get(snapVar.variantId);
-        if (!current) {
-          changes.push({
-            sku: snapVar.sku,
-            field: "variant",
-            currentValue: "missing",
-            snapshotValue: "exists",
-          });
-          continue;
-        }
+    const intervalId = setInterval(async () => {
+      if (!isClientConnected) {
+        clearInterval(intervalId);
+        clearInterval(heartbeatId);
+        return;
+      }
 
-        // Compare price
-        if (current.price !== snapVar.price) {
-          changes.push({
-            sku: snapVar.sku,
-            field: "price",
-            currentValue: current.price,
-            snapshotValue: snapVar.price,
-          });
-        }
-        // Compare compareAtPrice
-        if (current.compareAtPrice !== snapVar.compareAtPrice) {
-          changes.push({
-            sku: snapVar.sku,
-            field: "compareAtPrice",
-            currentValue: current.compareAtPrice,
-            snapshotValue: snapVar.compareAtPrice,
-          });
-        }
-        // Compare stock
-        if (current.stock !== snapVar.inventoryQuantity) {
-          changes.push({
-            sku: snapVar.sku,
-            field: "stock",
-            currentValue: current.stock,
-            snapshotValue: snapVar.inventoryQuantity,
-          });
-        }
-        // Compare stockInfo
-        if (current.stockInfoMetafield !== snapVar.stockInfo) {
-          changes.push({
-            sku: snapVar.sku,
-            field: "stockInfo",
-            currentValue: current.stockInfoMetafield,
-            snapshotValue: snapVar.stockInfo,
-          });
+      const isActive = await sendProgress();
+      if (!isActive) {
+        consecutiveInactiveCount++;
+        if (consecutiveInactiveCount >= MAX_INACTIVE_BEFORE_CLOSE) {
+          clearInterval(intervalId);
+          clearInterval(heartbeatId);
+          // Don't call res.end() - let the client close the connection
+          isClientConnected = false;
         }
+      } else {
+        consecutiveInactiveCount = 0;
       }
+    }, 500);
 
-      res.json({
-        snapshotId: snapshot.id,
-        snapshotDate: snapshot.createdAt,
-        totalVariants: snapshot.variantData.length,
-        changesRequired: changes.length,
-        changes: changes.slice(0, 100), // Limit to first 100 for preview
-        hasMoreChanges: changes.length > 100,
-      });
-    } catch (error: any) {
-      console.error("Error previewing restore:", error);
-      res
-        .status(500)
-        .json({ error: error.message || "Failed to preview restore" });
-    }
+    req.on("close", () => {
+      console.log(`[SSE] Client disconnected for snapshot restore ${jobId}`);
+      isClientConnected = false;
+      clearInterval(intervalId);
+      clearInterval(heartbeatId);
+    });
+
+    req.on("error", (err) => {
+      console.error(`[SSE] Request error for snapshot restore ${jobId}:`, err);
+      isClientConnected = false;
+      clearInterval(intervalId);
+      clearInterval(heartbeatId);
+    });
   });
 
   // Delete a sync snapshot
@@ -17672,19 +19178,68 @@ export async function registerRoutes(
   // EBAY STORE SETTINGS API
   // ==========================================
 
-  // Helper function to get the default Shopify store ID for eBay integration
-  async function getDefaultShopifyStoreId(): Promise<string | null> {
+  // Shopify store an eBay request acts on. eBay settings, policies, queues,
+  // watchlists and templates are all keyed by store: callers pick one with
+  // ?storeId=, body.storeId or an X-Store-Id header. Without one, only a
+  // single-store setup resolves; with several stores the caller must choose,
+  // so a request never lands on an arbitrary store.
+  async function resolveEbayStoreId(
+    req: any,
+  ): Promise<{ storeId: string | null; error: string }> {
+    const requested =
+      (req.query?.storeId as string) ||
+      req.body?.storeId ||
+      req.get?.("x-store-id");
     const stores = await storage.getShopifyStores();
-    const connectedStore = stores.find((s) => s.status === "connected");
-    return connectedStore?.id || stores[0]?.id || null;
+    if (requested) {
+      return stores.some((s) => s.id === requested)
+        ? { storeId: requested, error: "" }
+        : { storeId: null, error: "Shopify store not found" };
+    }
+    if (stores.length > 1) {
+      return {
+        storeId: null,
+        error:
+          "Several Shopify stores are connected — pass storeId (query, body or X-Store-Id header)",
+      };
+    }
+    return stores[0]
+      ? { storeId: stores[0].id, error: "" }
+      : { storeId: null, error: "Shopify store not found" };
   }
 
+  // Shopify stores with their eBay connection state (for the store picker)
+  app.get("/api/ebay/stores", async (req, res) => {
+    try {
+      const stores = await storage.getShopifyStores();
+      const result = await Promise.all(
+        stores.map(async (store) => {
+          const settings = await storage.getEbayStoreSettings(store.id);
+          return {
+            id: store.id,
+            name: store.name,
+            status: store.status,
+            ebayConnected: !!settings?.isConnected,
+            ebayEnvironment: settings?.environment || null,
+            ebayMarketplace: settings?.marketplace || null,
+          };
+        }),
+      );
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error listing eBay stores:", error);
+      res
+        .status(500)
+        .json({ error: error.message || "Failed to list eBay stores" });
+    }
+  });
+
   // Get eBay store settings
   app.get("/api/ebay/settings", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const settings = await storage.getEbayStoreSettings(storeId);
@@ -17729,9 +19284,9 @@ export async function registerRoutes(
   // Get eBay business policies
   app.get("/api/ebay/policies", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { getBusinessPolicies } = await import("./ebayApi");
@@ -17753,9 +19308,9 @@ export async function registerRoutes(
   // Get eBay aspect mappings
   app.get("/api/ebay/aspect-mappings", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const categoryId = req.query.categoryId as string | undefined;
@@ -17772,9 +19327,9 @@ export async function registerRoutes(
   // Create or update eBay aspect mapping
   app.post("/api/ebay/aspect-mappings", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { ebayAspect, shopifyField, isRequired, defaultValue, categoryId } =
@@ -17820,9 +19375,9 @@ export async function registerRoutes(
   // Get default eBay aspects (common item specifics for apparel)
   app.get("/api/ebay/default-aspects", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { getDefaultCategoryAspects } = await import("./ebayApi");
@@ -17844,9 +19399,9 @@ export async function registerRoutes(
   // Save eBay store settings
   app.post("/api/ebay/settings", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const {
@@ -17967,9 +19522,9 @@ export async function registerRoutes(
   // Test eBay connection with real API call
   app.post("/api/ebay/test-connection", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const settings = await storage.getEbayStoreSettings(storeId);
@@ -17996,9 +19551,9 @@ export async function registerRoutes(
   // Get eBay OAuth authorization URL
   app.get("/api/ebay/oauth/authorize", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const settings = await storage.getEbayStoreSettings(storeId);
@@ -18157,7 +19712,7 @@ export async function registerRoutes(
       });
 
       res.redirect(
-        "/ebay-connect?success=true&message=Successfully connected to eBay",
+        `/ebay-connect?success=true&storeId=${encodeURIComponent(stateData.storeId)}&message=Successfully connected to eBay`,
       );
     } catch (error: any) {
       console.error("Error in OAuth callback:", error);
@@ -18170,9 +19725,9 @@ export async function registerRoutes(
   // Validate eBay business policies
   app.post("/api/ebay/validate-policies", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { validatePolicies } = await import("./ebayApi");
@@ -18191,9 +19746,9 @@ export async function registerRoutes(
   // Get eBay activity log
   app.get("/api/ebay/activity-log", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { limit = "100", since } = req.query;
@@ -18216,9 +19771,9 @@ export async function registerRoutes(
   // Get eBay activity summary (for notifications)
   app.get("/api/ebay/activity-summary", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       // Default to last 24 hours
@@ -18242,9 +19797,9 @@ export async function registerRoutes(
   // Queue a product for eBay listing
   app.post("/api/ebay/queue-product", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { productId, reason = "manual" } = req.body;
@@ -18280,9 +19835,9 @@ export async function registerRoutes(
   // Process the eBay listing queue
   app.post("/api/ebay/process-queue", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { limit = 10 } = req.body;
@@ -18350,9 +19905,9 @@ export async function registerRoutes(
     sendEvent({ type: "connected" });
 
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        sendEvent({ type: "error", error: "No default store configured" });
+        sendEvent({ type: "error", error: storeError });
         clearInterval(heartbeatInterval);
         res.end();
         return;
@@ -18391,98 +19946,21 @@ export async function registerRoutes(
   // End an eBay listing by queue item ID, product ID, or directly by offer ID
   app.post("/api/ebay/end-listing", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { queueItemId, offerId, productId } = req.body;
-
-      let targetOfferId = offerId;
-      let queueItem = null;
-      let productTitle = null;
-
-      // If queueItemId provided, look up the offer ID from the queue
-      if (queueItemId) {
-        queueItem = await storage.getEbayListingQueueItem(queueItemId);
-        if (!queueItem) {
-          return res.status(404).json({ error: "Queue item not found" });
-        }
-        if (!queueItem.ebayOfferId) {
-          return res
-            .status(400)
-            .json({ error: "This listing does not have an eBay offer ID" });
-        }
-        targetOfferId = queueItem.ebayOfferId;
-        productTitle = queueItem.productTitle;
-      }
-
-      // If productId provided, look up the queue item by product ID
-      if (productId && !targetOfferId) {
-        const queueItems = await storage.getEbayListingQueue(storeId);
-        queueItem = queueItems.find(
-          (item: any) =>
-            item.shopifyProductId === productId &&
-            item.status === "listed" &&
-            item.ebayOfferId,
-        );
-        if (!queueItem) {
-          return res
-            .status(404)
-            .json({ error: "No listed queue item found for this product" });
-        }
-        targetOfferId = queueItem.ebayOfferId;
-        productTitle = queueItem.productTitle;
-      }
-
-      // For ending active listings, we need to use the eBay listing ID (item ID)
-      // The Trading API EndFixedPriceItem is the proper way to end published listings
-      const ebayListingId = queueItem?.ebayListingId;
-
-      let result: { success: boolean; error?: string };
-
-      if (ebayListingId) {
-        // Use Trading API to end the active listing by item ID
-        console.log(
-          `[End Listing] Using Trading API to end item: ${ebayListingId}`,
-        );
-        const { endListingByItemId } = await import("./ebayApi");
-        result = await endListingByItemId(storeId, ebayListingId);
-      } else if (targetOfferId) {
-        // Fall back to Inventory API offer withdrawal
-        console.log(
-          `[End Listing] Using Inventory API to withdraw offer: ${targetOfferId}`,
-        );
-        const { endListing } = await import("./ebayApi");
-        result = await endListing(storeId, targetOfferId);
-      } else {
-        return res
-          .status(400)
-          .json({ error: "queueItemId, productId, or offerId is required" });
-      }
+      const result = await ebayChannelAdapter.endListing(
+        { channel: null, storeId },
+        { listingId: queueItemId, offerId, shopifyProductId: productId },
+      );
 
       if (result.success) {
-        // Update the queue item status if we have one
-        if (queueItem) {
-          // Use queueItem.id since queueItemId might be undefined when looking up by productId
-          await storage.updateEbayListingQueueStatus(
-            queueItem.id,
-            "ended",
-            undefined,
-          );
-        }
-
-        // Log the activity
-        await storage.createEbayActivityLog({
-          shopifyStoreId: storeId,
-          activityType: "listing_ended",
-          shopifyProductId: queueItem?.shopifyProductId,
-          productTitle: queueItem?.productTitle || null,
-          sku: null,
-          details: { ebayListingId: ebayListingId || targetOfferId },
-        });
-
-        res.json({ success: true, message: "Listing ended successfully" });
+        res.json({ success: true, message: result.message });
+      } else if (result.notFound) {
+        res.status(404).json({ error: result.error });
       } else {
         res.status(400).json({ success: false, error: result.error });
       }
@@ -18495,9 +19973,9 @@ export async function registerRoutes(
   // Refresh eBay listing description(s) with updated template
   app.post("/api/ebay/refresh-descriptions", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       let { productIds, vendor } = req.body;
@@ -18756,9 +20234,9 @@ export async function registerRoutes(
   // Get vendors for eBay bulk posting (auto-resolves store ID)
   app.get("/api/ebay/vendors", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const onlyWithDataSource = req.query.onlyWithDataSource === "true";
@@ -18809,9 +20287,9 @@ export async function registerRoutes(
   // Get products for eBay bulk posting (auto-resolves store ID)
   app.get("/api/ebay/products", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const page = parseInt(req.query.page as string) || 1;
@@ -18948,9 +20426,9 @@ export async function registerRoutes(
   // Bulk queue products by vendor for eBay listing
   app.post("/api/ebay/bulk-queue", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { vendor, productIds } = req.body;
@@ -19032,9 +20510,9 @@ export async function registerRoutes(
   // Clear queue items by status (defaults to listed and failed only, never touches pending/processing)
   app.delete("/api/ebay/listing-queue", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { statuses } = req.query;
@@ -19063,17 +20541,17 @@ export async function registerRoutes(
   // Sync stock to eBay for all active listings
   app.post("/api/ebay/sync-stock", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
-      const { syncStockToEbay } = await import("./ebayAutomation");
-      const result = await syncStockToEbay(storeId);
+      const result = await syncEbayStock(storeId);
 
       res.json({
         success: true,
         synced: result.synced,
+        allocated: result.allocated,
         errors: result.errors,
       });
     } catch (error: any) {
@@ -19085,9 +20563,9 @@ export async function registerRoutes(
   // Get listing queue status
   app.get("/api/ebay/listing-queue", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { status } = req.query;
@@ -19111,9 +20589,9 @@ export async function registerRoutes(
   // Get watchlist items
   app.get("/api/ebay/watchlist", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { status } = req.query;
@@ -19133,9 +20611,9 @@ export async function registerRoutes(
   // Get watchlist count
   app.get("/api/ebay/watchlist/count", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const count = await storage.getEbayWatchlistCount(storeId);
@@ -19179,9 +20657,9 @@ export async function registerRoutes(
   // Run new product detection manually
   app.post("/api/ebay/detect-new-products", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { detectNewProductsAfterCacheSync } = await import(
@@ -19204,9 +20682,9 @@ export async function registerRoutes(
   // Get enriched listings for the Listings tab (with product details)
   app.get("/api/ebay/listings", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { status } = req.query;
@@ -19317,9 +20795,9 @@ export async function registerRoutes(
   // Clear ended listings from the queue
   app.delete("/api/ebay/listings/ended", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       // Delete all queue items with "ended" status from the listing queue
@@ -19343,9 +20821,9 @@ export async function registerRoutes(
   // Relist an ended eBay listing
   app.post("/api/ebay/relist", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { queueItemId } = req.body;
@@ -19405,9 +20883,9 @@ export async function registerRoutes(
   // Retry a failed eBay listing
   app.post("/api/ebay/retry-listing", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { queueItemId } = req.body;
@@ -19469,9 +20947,9 @@ export async function registerRoutes(
   // Get all listing templates
   app.get("/api/ebay/listing-templates", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const templates = await storage.getEbayListingTemplates(storeId);
@@ -19506,9 +20984,9 @@ export async function registerRoutes(
   // Create a listing template
   app.post("/api/ebay/listing-templates", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { name, templateType, sizeChartUrl, sizeChartHtml, customCss } =
@@ -19585,9 +21063,9 @@ export async function registerRoutes(
   // Get all vendor templates
   app.get("/api/ebay/vendor-templates", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const templates = await storage.getEbayVendorTemplates(storeId);
@@ -19603,9 +21081,9 @@ export async function registerRoutes(
   // Get a specific vendor template
   app.get("/api/ebay/vendor-templates/:vendor", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { vendor } = req.params;
@@ -19632,9 +21110,9 @@ export async function registerRoutes(
   // Create or update a vendor template
   app.post("/api/ebay/vendor-templates", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { vendor, ...templateData } = req.body;
@@ -19675,9 +21153,9 @@ export async function registerRoutes(
   // Get eBay store categories (seller's custom categories)
   app.get("/api/ebay/store-categories", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { getStoreCategories } = await import("./ebayApi");
@@ -19699,9 +21177,9 @@ export async function registerRoutes(
   // Search eBay listing categories
   app.get("/api/ebay/categories/search", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { q } = req.query;
@@ -19728,9 +21206,9 @@ export async function registerRoutes(
   // Get eBay listing category tree (for browsing)
   app.get("/api/ebay/categories/tree", async (req, res) => {
     try {
-      const storeId = await getDefaultShopifyStoreId();
+      const { storeId, error: storeError } = await resolveEbayStoreId(req);
       if (!storeId) {
-        return res.status(400).json({ error: "No default store configured" });
+        return res.status(400).json({ error: storeError });
       }
 
       const { parentId } = req.query;
@@ -19762,6 +21240,41 @@ export async function registerRoutes(
 
   // ============ ORDER MANAGEMENT ROUTES ============
 
+  // Per-store outcome of the last order sync, keyed by store ID
+  const ORDER_SYNC_STORES_KEY = "orderSyncStores";
+  type OrderSyncStoreStatus = {
+    storeName: string;
+    lastSync: string;
+    synced?: number;
+    error?: string;
+  };
+
+  // Orders from every store share one table; the order sync writes each
+  // row's store (shopifyStoreId) so merged views can show where it came from
+  async function tagOrdersWithStore<T extends Record<string, any>>(
+    orders: T[],
+  ): Promise<Array<T & { storeId: string | null; storeName: string | null }>> {
+    const stores = await storage.getShopifyStores();
+    const namesById = new Map<string, string>(
+      stores.map((s) => [s.id, s.name] as [string, string]),
+    );
+    // Orders synced before multi-store support have no store; with one
+    // store there is only one place they can have come from
+    const onlyStoreId = stores.length === 1 ? stores[0].id : null;
+    return orders.map((order) => {
+      const storeId: string | null = order.shopifyStoreId || onlyStoreId || null;
+      return {
+        ...order,
+        storeId,
+        storeName: storeId ? namesById.get(storeId) || null : null,
+      };
+    });
+  }
+
+  // One order sync at a time — overlapping runs would page the same
+  // stores' orders twice
+  let orderSyncRunning = false;
+
   app.get("/api/om/orders", async (req, res) => {
     try {
       const { status, payment, search, limit, offset } = req.query;
@@ -19772,7 +21285,10 @@ export async function registerRoutes(
         limit: limit ? parseInt(limit as string) : 50,
         offset: offset ? parseInt(offset as string) : 0,
       });
-      res.json(result);
+      res.json({
+        ...result,
+        orders: await tagOrdersWithStore(result.orders),
+      });
     } catch (error: any) {
       console.error("Error fetching orders:", error);
       res.status(500).json({ error: error.message });
@@ -19783,7 +21299,8 @@ export async function registerRoutes(
     try {
       const order = await storage.getOrderById(parseInt(req.params.id));
       if (!order) return res.status(404).json({ error: "Order not found" });
-      res.json(order);
+      const [tagged] = await tagOrdersWithStore([order]);
+      res.json(tagged);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -19797,6 +21314,11 @@ export async function registerRoutes(
       );
       if (!updated) return res.status(404).json({ error: "Order not found" });
       res.json(updated);
+
+      // Status / fulfillment changes move units in or out of reservation
+      rebuildReservationLedger().catch((err) => {
+        console.error("[Reservations] Ledger rebuild failed:", err);
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -19833,22 +21355,70 @@ export async function registerRoutes(
   app.post("/api/om/sync-orders", async (req, res) => {
     try {
       const { fetchShopifyOrders } = await import("./shopifyOrders");
-      const stores = await storage.getShopifyStores();
+      const allStores = await storage.getShopifyStores();
+      // body.storeIds narrows the sync; default is every connected store
+      const requestedIds: string[] | undefined = Array.isArray(
+        req.body.storeIds,
+      )
+        ? req.body.storeIds
+        : req.body.storeId
+          ? [req.body.storeId]
+          : undefined;
+      const stores = requestedIds
+        ? allStores.filter((s) => requestedIds.includes(s.id))
+        : allStores.filter((s) => s.status === "connected" && s.accessToken);
       if (stores.length === 0) {
         return res.status(400).json({ error: "No Shopify store connected" });
       }
-      const store = stores[0];
+      if (orderSyncRunning) {
+        return res.status(409).json({ error: "An order sync is already running" });
+      }
+      orderSyncRunning = true;
       const sinceDate = req.body.sinceDate || undefined;
       const limit = req.body.limit || 250;
 
-      res.json({ message: "Order sync started" });
+      res.json({
+        message: `Order sync started for ${stores.length} store(s)`,
+        stores: stores.map((s) => ({ id: s.id, name: s.name })),
+      });
 
-      fetchShopifyOrders(store.id, { sinceDate, limit })
-        .then((result) => {
-          console.log(`[OrderSync] Finished: ${result.synced} orders synced`);
-        })
+      // One store at a time — each sync pages through the Admin API and
+      // stamps the orders it writes with the store's ID
+      (async () => {
+        for (const store of stores) {
+          const status: OrderSyncStoreStatus = {
+            storeName: store.name,
+            lastSync: new Date().toISOString(),
+          };
+          try {
+            const result = await fetchShopifyOrders(store.id, {
+              sinceDate,
+              limit,
+            });
+            status.synced = result.synced;
+            console.log(
+              `[OrderSync] ${store.name}: ${result.synced} orders synced`,
+            );
+          } catch (err: any) {
+            status.error = err.message || String(err);
+            console.error(`[OrderSync] ${store.name} sync failed:`, err);
+          }
+          const saved = ((await storage.getOmSetting(ORDER_SYNC_STORES_KEY)) ||
+            {}) as Record<string, OrderSyncStoreStatus>;
+          await storage.setOmSetting(ORDER_SYNC_STORES_KEY, {
+            ...saved,
+            [store.id]: status,
+          });
+        }
+        await rebuildReservationLedger();
+        // order.created webhooks without waiting for the watcher's next pass
+        await checkWebhookSources();
+      })()
         .catch((err) => {
           console.error("[OrderSync] Background sync failed:", err);
+        })
+        .finally(() => {
+          orderSyncRunning = false;
         });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -19859,7 +21429,8 @@ export async function registerRoutes(
     try {
       const lastSync = await storage.getOmSetting("lastOrderSync");
       const orderCount = await storage.getOrderCount();
-      res.json({ lastSync, orderCount });
+      const stores = (await storage.getOmSetting(ORDER_SYNC_STORES_KEY)) || {};
+      res.json({ lastSync, orderCount, stores });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -20101,171 +21672,3 @@ export async function registerRoutes(
 
   return httpServer;
 }
-
-// ============================================================
-// FERIANI/GIA FORMAT PARSER
-// Format: DELIVERY, STYLE, COLOR, then size columns (2, 4, 6, 8...)
-// Style rows have "NOW" in DELIVERY, style number, first color
-// Additional colors for same style have only COLOR filled in
-// ============================================================
-function parseFerianiGiaFormat(
-  buffer: Buffer,
-  cleaningConfig: any,
-): { headers: string[]; rows: any[][]; items: any[] } | null {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-  fixSheetRange(sheet);
-  const data = XLSX.utils.sheet_to_json(sheet, {
-    header: 1,
-    defval: "",
-  }) as any[][];
-
-  if (data.length < 2) return null;
-
-  // Check if this is Feriani/GIA format: DELIVERY, STYLE, COLOR headers
-  const headerRow = data[0];
-  const headerStr = headerRow
-    .map((h: any) => String(h || "").toUpperCase())
-    .join("|");
-
-  if (
-    !headerStr.includes("DELIVERY") ||
-    !headerStr.includes("STYLE") ||
-    !headerStr.includes("COLOR")
-  ) {
-    return null;
-  }
-
-  console.log(
-    `[FerianiGia] Detected Feriani/GIA format with ${data.length} rows`,
-  );
-
-  // Find column indices
-  const deliveryIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "DELIVERY",
-  );
-  const styleIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "STYLE",
-  );
-  const colorIdx = headerRow.findIndex(
-    (h: any) => String(h || "").toUpperCase() === "COLOR",
-  );
-
-  // Find size columns (numeric headers after COLOR)
-  const sizeColumns: { index: number; size: string }[] = [];
-  for (let i = colorIdx + 1; i < headerRow.length; i++) {
-    const h = headerRow[i];
-    if (h !== null && h !== undefined && h !== "") {
-      const hStr = String(h).trim();
-      // Check if it's a numeric size
-      if (/^\d+$/.test(hStr)) {
-        sizeColumns.push({ index: i, size: hStr });
-      }
-    }
-  }
-
-  if (sizeColumns.length === 0) {
-    console.log(`[FerianiGia] No size columns found`);
-    return null;
-  }
-
-  console.log(
-    `[FerianiGia] Found ${sizeColumns.length} size columns: ${sizeColumns.map((s) => s.size).join(", ")}`,
-  );
-
-  // Parse data
-  const items: any[] = [];
-  const masterData: any[][] = [];
-  const outputHeaders = ["style", "color", "size", "stock", "shipDate"];
-
-  let currentStyle = "";
-  let currentDelivery = "";
-
-  for (let rowIdx = 1; rowIdx < data.length; rowIdx++) {
-    const row = data[rowIdx];
-    if (!row || row.length < 3) continue;
-
-    const delivery = String(row[deliveryIdx] || "")
-      .trim()
-      .toUpperCase();
-    const style = String(row[styleIdx] || "").trim();
-    const color = String(row[colorIdx] || "").trim();
-
-    // Skip empty rows
-    if (!color || color === "") continue;
-
-    // Update current style if this row has one
-    if (style && style !== "") {
-      currentStyle = style;
-    }
-
-    // Update delivery status
-    if (delivery && delivery !== "") {
-      currentDelivery = delivery;
-    }
-
-    // Skip if no style yet
-    if (!currentStyle) continue;
-
-    // Parse ship date from delivery (could be "NOW", a date, etc.)
-    let shipDate: string | null = null;
-    if (
-      currentDelivery &&
-      currentDelivery !== "NOW" &&
-      currentDelivery !== ""
-    ) {
-      // Try to parse as date
-      const dateMatch = currentDelivery.match(
-        /(\d{1,2})[\/-](\d{1,2})[\/-](\d{2,4})/,
-      );
-      if (dateMatch) {
-        const [, month, day, year] = dateMatch;
-        const fullYear = year.length === 2 ? `20${year}` : year;
-        shipDate = `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-      }
-    }
-
-    // Extract stock for each size
-    for (const sc of sizeColumns) {
-      const stockVal = row[sc.index];
-      let stock = 0;
-
-      if (stockVal !== null && stockVal !== undefined && stockVal !== "") {
-        const parsed = parseInt(String(stockVal), 10);
-        if (!isNaN(parsed) && parsed > 0) {
-          stock = parsed;
-        }
-      }
-
-      // FIX: Always push ALL items regardless of stock (matching Tarik Ediz behavior)
-      // This ensures size expansion can work with existing 0-stock items
-      // Zero-stock filtering happens later in applyVariantRules if enabled
-      const item = {
-        style: currentStyle,
-        color: color,
-        size: sc.size,
-        stock: stock,
-        shipDate: shipDate,
-        sku: `${currentStyle}-${color}-${sc.size}`.replace(/\s+/g, "-"),
-        rawData: {
-          style: currentStyle,
-          color,
-          size: sc.size,
-          stock,
-          delivery: currentDelivery,
-        },
-      };
-      items.push(item);
-      masterData.push([currentStyle, color, sc.size, stock, shipDate]);
-    }
-  }
-
-  console.log(`[FerianiGia] Parsed ${items.length} items`);
-
-  return {
-    headers: outputHeaders,
-    rows: masterData,
-    items,
-  };
-}
@@ -0,0 +1,517 @@
+/**
+ * safetyNetPolicies.ts — Per-data-source safety-net policy engine
+ *
+ * checkSafetyThreshold() only looks at the total item count. These checks
+ * compare the items an import is about to save with the current inventory:
+ *
+ *   - countDrop           – total count fell more than X% (safetyThreshold)
+ *   - countJump           – total count rose more than X%
+ *   - styleDisappearance  – more than X% of current styles are missing,
+ *                           even when the total count holds
+ *   - priceChange         – more than Y% of matching items changed price
+ *                           by more than X%
+ *   - shipDateShift       – more than Y% of matching items moved ship date
+ *                           by at least N days
+ *   - distinctColors /    – the file has fewer than X% of the distinct
+ *     distinctSizes         colors / sizes currently in inventory
+ *
+ * Each check's action is "off", "warn" (logged, import continues), "block"
+ * or "hold" (import stopped until someone approves it). Blocked and held
+ * imports are quarantined: the review records the reason, and the parsed
+ * items + stats are kept under PENDING_ITEMS_KEY_PREFIX<reviewId>, so an
+ * approval commits them without re-parsing (commitQuarantinedImport in
+ * importEngine.ts) and a rejection archives the review with a note. An
+ * approval first claims the review (held/blocked → approving), so two
+ * approvals can't both commit it.
+ *
+ * Policies live on the data source as `safetyNetPolicies`; reviews are kept
+ * in app settings (REVIEWS_KEY).
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getItemDiffKey } from "./importDryRun";
+
+const REVIEWS_KEY = "safety_net_reviews";
+const PENDING_ITEMS_KEY_PREFIX = "safety_net_pending:";
+const MAX_REVIEWS = 300;
+// An "approving" claim older than this is treated as abandoned (crashed process)
+const APPROVAL_CLAIM_TTL_MS = 30 * 60 * 1000;
+// Checks that compare removals only make sense when the file replaces inventory
+const FULL_SYNC_ONLY_CHECKS: SafetyNetCheckName[] = [
+  "countDrop",
+  "styleDisappearance",
+  "distinctColors",
+  "distinctSizes",
+];
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type SafetyNetAction = "off" | "warn" | "block" | "hold";
+
+export type SafetyNetCheckName =
+  | "countDrop"
+  | "countJump"
+  | "styleDisappearance"
+  | "priceChange"
+  | "shipDateShift"
+  | "distinctColors"
+  | "distinctSizes";
+
+export interface SafetyNetCheckConfig {
+  action: SafetyNetAction;
+  /** Main threshold, in percent */
+  percent?: number;
+  /** Share of matching items (percent) that must change — priceChange / shipDateShift */
+  itemPercent?: number;
+  /** Minimum ship-date move in days — shipDateShift */
+  days?: number;
+}
+
+export type SafetyNetPolicies = Partial<Record<SafetyNetCheckName, SafetyNetCheckConfig>>;
+
+export interface SafetyNetFinding {
+  check: SafetyNetCheckName;
+  action: Exclude<SafetyNetAction, "off">;
+  message: string;
+  /** Measured value the threshold was compared against (percent) */
+  value: number;
+  threshold: number;
+}
+
+export interface SafetyNetEvaluation {
+  /** Strongest action among findings ("pass" when nothing tripped) */
+  outcome: "pass" | "warn" | "block" | "hold";
+  findings: SafetyNetFinding[];
+  message: string;
+}
+
+export type SafetyNetReviewStatus =
+  | "held"
+  | "blocked"
+  /** Claimed by an approval that is committing the items */
+  | "approving"
+  | "approved"
+  | "rejected";
+
+export interface SafetyNetReview {
+  id: string;
+  dataSourceId: string;
+  dataSourceName: string;
+  source: string;
+  status: SafetyNetReviewStatus;
+  findings: SafetyNetFinding[];
+  message: string;
+  existingCount: number;
+  newCount: number;
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  /** Set while status is "approving": when, and the status to fall back to */
+  claimedAt?: string;
+  claimedFrom?: "held" | "blocked";
+  note?: string;
+  /** Quarantined import details (items are stored separately) */
+  updateStrategy?: string;
+  fileName?: string;
+  stats?: Record<string, any>;
+  hasPendingItems?: boolean;
+  /** Items saved when the review was approved */
+  committedCount?: number;
+}
+
+/** Parsed result of a quarantined import */
+export interface QuarantinedImport {
+  items: any[];
+  stats: Record<string, any>;
+  headers: string[];
+  updateStrategy: string;
+  fileName: string;
+  fileSize: number;
+}
+
+export const DEFAULT_SAFETY_NET_POLICIES: Required<SafetyNetPolicies> = {
+  countDrop: { action: "block", percent: 50 },
+  countJump: { action: "warn", percent: 100 },
+  styleDisappearance: { action: "warn", percent: 30 },
+  priceChange: { action: "warn", percent: 20, itemPercent: 50 },
+  shipDateShift: { action: "warn", days: 7, itemPercent: 60 },
+  distinctColors: { action: "warn", percent: 50 },
+  distinctSizes: { action: "warn", percent: 50 },
+};
+
+const ACTION_RANK: Record<SafetyNetEvaluation["outcome"], number> = {
+  pass: 0,
+  warn: 1,
+  block: 2,
+  hold: 3,
+};
+
+// ============================================================
+// POLICY RESOLUTION
+// ============================================================
+
+/**
+ * Data source policies over the defaults. The legacy `safetyThreshold`
+ * still sets the count-drop percentage (0 turns the check off).
+ */
+export function getSafetyNetPolicies(dataSource: any): Required<SafetyNetPolicies> {
+  const configured: SafetyNetPolicies = dataSource?.safetyNetPolicies || {};
+  const policies = {} as Required<SafetyNetPolicies>;
+  for (const name of Object.keys(DEFAULT_SAFETY_NET_POLICIES) as SafetyNetCheckName[]) {
+    policies[name] = { ...DEFAULT_SAFETY_NET_POLICIES[name], ...configured[name] };
+  }
+  if (!configured.countDrop?.percent && dataSource?.safetyThreshold != null) {
+    const threshold = Number(dataSource.safetyThreshold);
+    if (threshold <= 0) policies.countDrop.action = "off";
+    else policies.countDrop.percent = threshold;
+  }
+  return policies;
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+function distinctValues(items: any[], field: string): Set<string> {
+  const values = new Set<string>();
+  for (const item of items) {
+    const value = String(item[field] ?? "").trim().toUpperCase();
+    if (value) values.add(value);
+  }
+  return values;
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const num = parseFloat(String(value).replace(/[$,]/g, ""));
+  return isNaN(num) ? null : num;
+}
+
+function toTime(value: any): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Evaluate every enabled check for an import about to be saved */
+export function evaluateSafetyNetPolicies(
+  dataSource: any,
+  existingItems: any[],
+  newItems: any[],
+  updateStrategy: string,
+): SafetyNetEvaluation {
+  const policies = getSafetyNetPolicies(dataSource);
+  const findings: SafetyNetFinding[] = [];
+  const existingCount = existingItems.length;
+  const newCount = newItems.length;
+
+  const flag = (
+    check: SafetyNetCheckName,
+    value: number,
+    threshold: number,
+    message: string,
+  ) => {
+    const action = policies[check].action;
+    if (action === "off") return;
+    findings.push({ check, action, message, value: round(value), threshold });
+  };
+  const enabled = (check: SafetyNetCheckName) =>
+    policies[check].action !== "off" &&
+    (updateStrategy === "full_sync" || !FULL_SYNC_ONLY_CHECKS.includes(check));
+
+  // Nothing to compare against on a first import
+  if (existingCount === 0) {
+    return { outcome: "pass", findings, message: "" };
+  }
+
+  if (enabled("countDrop") && newCount < existingCount) {
+    const dropPercent = ((existingCount - newCount) / existingCount) * 100;
+    const threshold = policies.countDrop.percent ?? 50;
+    if (dropPercent > threshold) {
+      flag("countDrop", dropPercent, threshold,
+        `Item count dropped ${Math.round(dropPercent)}% (from ${existingCount} to ${newCount}). Threshold is ${threshold}%.`);
+    }
+  }
+
+  if (enabled("countJump") && newCount > existingCount) {
+    const jumpPercent = ((newCount - existingCount) / existingCount) * 100;
+    const threshold = policies.countJump.percent ?? 100;
+    if (jumpPercent > threshold) {
+      flag("countJump", jumpPercent, threshold,
+        `Item count jumped ${Math.round(jumpPercent)}% (from ${existingCount} to ${newCount}). Threshold is ${threshold}%.`);
+    }
+  }
+
+  if (enabled("styleDisappearance")) {
+    const existingStyles = distinctValues(existingItems, "style");
+    const newStyles = distinctValues(newItems, "style");
+    let missing = 0;
+    for (const style of existingStyles) if (!newStyles.has(style)) missing++;
+    const missingPercent = existingStyles.size > 0 ? (missing / existingStyles.size) * 100 : 0;
+    const threshold = policies.styleDisappearance.percent ?? 30;
+    if (missingPercent > threshold) {
+      flag("styleDisappearance", missingPercent, threshold,
+        `${missing} of ${existingStyles.size} styles (${Math.round(missingPercent)}%) are missing from the file. Threshold is ${threshold}%.`);
+    }
+  }
+
+  if (enabled("priceChange") || enabled("shipDateShift")) {
+    const existingByKey = new Map<string, any>();
+    for (const item of existingItems) existingByKey.set(getItemDiffKey(item), item);
+
+    const priceThreshold = policies.priceChange.percent ?? 20;
+    const minShiftMs = (policies.shipDateShift.days ?? 7) * 24 * 60 * 60 * 1000;
+    let pricedMatches = 0;
+    let priceChanged = 0;
+    let datedMatches = 0;
+    let dateShifted = 0;
+
+    for (const item of newItems) {
+      const existing = existingByKey.get(getItemDiffKey(item));
+      if (!existing) continue;
+
+      const oldPrice = toNumber(existing.price);
+      const newPrice = toNumber(item.price);
+      if (oldPrice && newPrice !== null) {
+        pricedMatches++;
+        if ((Math.abs(newPrice - oldPrice) / oldPrice) * 100 > priceThreshold) priceChanged++;
+      }
+
+      const oldDate = toTime(existing.shipDate);
+      const newDate = toTime(item.shipDate);
+      if (oldDate !== null || newDate !== null) {
+        datedMatches++;
+        if (oldDate === null || newDate === null || Math.abs(newDate - oldDate) >= minShiftMs) {
+          dateShifted++;
+        }
+      }
+    }
+
+    if (enabled("priceChange") && pricedMatches > 0) {
+      const changedPercent = (priceChanged / pricedMatches) * 100;
+      const itemThreshold = policies.priceChange.itemPercent ?? 50;
+      if (changedPercent > itemThreshold) {
+        flag("priceChange", changedPercent, itemThreshold,
+          `${priceChanged} of ${pricedMatches} matching items (${Math.round(changedPercent)}%) changed price by more than ${priceThreshold}%.`);
+      }
+    }
+
+    if (enabled("shipDateShift") && datedMatches > 0) {
+      const shiftedPercent = (dateShifted / datedMatches) * 100;
+      const itemThreshold = policies.shipDateShift.itemPercent ?? 60;
+      if (shiftedPercent > itemThreshold) {
+        flag("shipDateShift", shiftedPercent, itemThreshold,
+          `${dateShifted} of ${datedMatches} dated items (${Math.round(shiftedPercent)}%) moved ship date by ${policies.shipDateShift.days ?? 7}+ days.`);
+      }
+    }
+  }
+
+  for (const [check, field, label] of [
+    ["distinctColors", "color", "colors"],
+    ["distinctSizes", "size", "sizes"],
+  ] as const) {
+    if (!enabled(check)) continue;
+    const existingDistinct = distinctValues(existingItems, field).size;
+    const newDistinct = distinctValues(newItems, field).size;
+    if (existingDistinct === 0) continue;
+    const keptPercent = (newDistinct / existingDistinct) * 100;
+    const threshold = policies[check].percent ?? 50;
+    if (keptPercent < threshold) {
+      flag(check, keptPercent, threshold,
+        `Only ${newDistinct} distinct ${label} in the file vs ${existingDistinct} in inventory (${Math.round(keptPercent)}%). Minimum is ${threshold}%.`);
+    }
+  }
+
+  let outcome: SafetyNetEvaluation["outcome"] = "pass";
+  for (const finding of findings) {
+    if (ACTION_RANK[finding.action] > ACTION_RANK[outcome]) outcome = finding.action;
+  }
+  const message = findings.length
+    ? `SAFETY NET (${outcome}) for "${dataSource.name}": ${findings.map((f) => f.message).join(" ")}`
+    : "";
+  return { outcome, findings, message };
+}
+
+// ============================================================
+// REVIEWS / QUARANTINE
+// ============================================================
+
+async function loadReviews(): Promise<SafetyNetReview[]> {
+  const saved = await storage.getAppSetting(REVIEWS_KEY);
+  return (saved?.reviews || []) as SafetyNetReview[];
+}
+
+function isUndecided(review: SafetyNetReview): boolean {
+  return review.status === "held" || review.status === "blocked" || review.status === "approving";
+}
+
+async function saveReviews(reviews: SafetyNetReview[]): Promise<void> {
+  // Undecided reviews are never pruned
+  const open = reviews.filter(isUndecided);
+  const decided = reviews
+    .filter((r) => !isUndecided(r))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const kept = decided.slice(0, Math.max(0, MAX_REVIEWS - open.length));
+  for (const pruned of decided.slice(kept.length)) {
+    if (pruned.hasPendingItems) await dropQuarantinedItems(pruned.id);
+  }
+  await storage.setAppSetting(REVIEWS_KEY, { reviews: [...open, ...kept] });
+}
+
+// Every review change is read-modify-write on one blob: run them one at a
+// time so a new review or a decision can't be lost to a concurrent one
+let reviewsChain: Promise<unknown> = Promise.resolve();
+
+function updateReviews<T>(mutate: (reviews: SafetyNetReview[]) => T | Promise<T>): Promise<T> {
+  const run = reviewsChain.then(async () => {
+    const reviews = await loadReviews();
+    const result = await mutate(reviews);
+    await saveReviews(reviews);
+    return result;
+  });
+  reviewsChain = run.catch(() => {});
+  return run;
+}
+
+async function dropQuarantinedItems(reviewId: string): Promise<void> {
+  await storage.setAppSetting(`${PENDING_ITEMS_KEY_PREFIX}${reviewId}`, null);
+}
+
+/** Quarantine a blocked / held import so it shows up for review */
+export async function recordSafetyNetReview(
+  dataSource: any,
+  source: string,
+  evaluation: SafetyNetEvaluation,
+  existingCount: number,
+  pending: QuarantinedImport,
+): Promise<SafetyNetReview> {
+  const review: SafetyNetReview = {
+    id: crypto.randomUUID(),
+    dataSourceId: dataSource.id,
+    dataSourceName: dataSource.name,
+    source,
+    status: evaluation.outcome === "hold" ? "held" : "blocked",
+    findings: evaluation.findings,
+    message: evaluation.message,
+    existingCount,
+    newCount: pending.items.length,
+    createdAt: new Date().toISOString(),
+    updateStrategy: pending.updateStrategy,
+    fileName: pending.fileName,
+    stats: pending.stats,
+    hasPendingItems: true,
+  };
+  await storage.setAppSetting(`${PENDING_ITEMS_KEY_PREFIX}${review.id}`, pending);
+  await updateReviews((reviews) => {
+    reviews.unshift(review);
+  });
+  return review;
+}
+
+export async function getQuarantinedImport(reviewId: string): Promise<QuarantinedImport | null> {
+  const pending = await storage.getAppSetting(`${PENDING_ITEMS_KEY_PREFIX}${reviewId}`);
+  return pending?.items ? (pending as QuarantinedImport) : null;
+}
+
+export async function listSafetyNetReviews(
+  filter: { dataSourceId?: string; status?: SafetyNetReviewStatus } = {},
+): Promise<SafetyNetReview[]> {
+  const reviews = await loadReviews();
+  return reviews
+    .filter((r) => !filter.dataSourceId || r.dataSourceId === filter.dataSourceId)
+    .filter((r) => !filter.status || r.status === filter.status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getSafetyNetReview(id: string): Promise<SafetyNetReview | undefined> {
+  return (await loadReviews()).find((r) => r.id === id);
+}
+
+/**
+ * Compare-and-set held/blocked → "approving", so only one approval commits a
+ * review's items. The caller finishes with decideSafetyNetReview("approved")
+ * or hands the review back with releaseSafetyNetReview().
+ */
+export async function claimSafetyNetReview(
+  id: string,
+  options: { userId?: string } = {},
+): Promise<{ review?: SafetyNetReview; error?: string }> {
+  return updateReviews((reviews) => {
+    const review = reviews.find((r) => r.id === id);
+    if (!review) return {};
+    const abandoned =
+      review.status === "approving" &&
+      Date.now() - new Date(review.claimedAt || 0).getTime() > APPROVAL_CLAIM_TTL_MS;
+    if (review.status !== "held" && review.status !== "blocked" && !abandoned) {
+      return {
+        review,
+        error:
+          review.status === "approving"
+            ? "Review is already being approved"
+            : `Review is already ${review.status}`,
+      };
+    }
+    if (!abandoned) review.claimedFrom = review.status as "held" | "blocked";
+    review.status = "approving";
+    review.claimedAt = new Date().toISOString();
+    review.decidedBy = options.userId;
+    return { review: { ...review } };
+  });
+}
+
+/** Undo a claim whose commit did not go through */
+export async function releaseSafetyNetReview(id: string): Promise<void> {
+  await updateReviews((reviews) => {
+    const review = reviews.find((r) => r.id === id);
+    if (!review || review.status !== "approving") return;
+    review.status = review.claimedFrom || "held";
+    review.claimedAt = undefined;
+    review.claimedFrom = undefined;
+    review.decidedBy = undefined;
+  });
+}
+
+/**
+ * Close a review. Approval is recorded by commitQuarantinedImport once the
+ * items are saved, and only for a review it claimed; the committed payload is
+ * dropped, a rejected one is kept with the archived review until it's pruned.
+ */
+export async function decideSafetyNetReview(
+  id: string,
+  decision: "approved" | "rejected",
+  options: { userId?: string; note?: string; committedCount?: number } = {},
+): Promise<{ review?: SafetyNetReview; error?: string }> {
+  return updateReviews(async (reviews) => {
+    const review = reviews.find((r) => r.id === id);
+    if (!review) return {};
+    const expected = decision === "approved" ? ["approving"] : ["held", "blocked"];
+    if (!expected.includes(review.status)) {
+      return {
+        review,
+        error:
+          review.status === "approving"
+            ? "Review is being approved"
+            : `Review is already ${review.status}`,
+      };
+    }
+    review.status = decision;
+    review.decidedAt = new Date().toISOString();
+    review.decidedBy = options.userId ?? review.decidedBy;
+    review.note = options.note;
+    review.claimedAt = undefined;
+    review.claimedFrom = undefined;
+    if (decision === "approved") {
+      review.committedCount = options.committedCount;
+      review.hasPendingItems = false;
+      await dropQuarantinedItems(id);
+    }
+    return { review };
+  });
+}
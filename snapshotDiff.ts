@@ -0,0 +1,316 @@
+/**
+ * snapshotDiff.ts — Compare two sync snapshots
+ *
+ * Answers "what did that sync change" for any pair of snapshots of the same
+ * store (or the same data source), not just the current/previous pair.
+ * Variants are matched by Shopify variant ID, falling back to SKU:
+ *
+ *   - added          in the newer snapshot only
+ *   - removed        in the older snapshot only
+ *   - stockChanged   inventoryQuantity differs
+ *   - priceChanged   price or compareAtPrice differs
+ *
+ * A variant can be both stock- and price-changed; it is one entry with both
+ * flags. Entries are grouped by vendor, then style. Vendor, title and
+ * options come from the snapshot when it has them, otherwise from the
+ * variant cache (VariantMeta), otherwise the data source name.
+ */
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type SnapshotDiffChange = "added" | "removed" | "changed";
+
+export interface SnapshotDiffEntry {
+  variantId: string;
+  sku: string;
+  vendor: string;
+  style: string;
+  productTitle: string | null;
+  color: string | null;
+  size: string | null;
+  change: SnapshotDiffChange;
+  stockChanged: boolean;
+  priceChanged: boolean;
+  fromStock: number | null;
+  toStock: number | null;
+  fromPrice: string | null;
+  toPrice: string | null;
+  fromCompareAtPrice: string | null;
+  toCompareAtPrice: string | null;
+}
+
+export interface SnapshotDiffCounts {
+  added: number;
+  removed: number;
+  stockChanged: number;
+  priceChanged: number;
+  unchanged: number;
+}
+
+export interface SnapshotDiffStyleGroup {
+  style: string;
+  counts: SnapshotDiffCounts;
+  entries: SnapshotDiffEntry[];
+}
+
+export interface SnapshotDiffVendorGroup {
+  vendor: string;
+  counts: SnapshotDiffCounts;
+  styles: SnapshotDiffStyleGroup[];
+}
+
+export interface SnapshotDiff {
+  counts: SnapshotDiffCounts;
+  vendors: SnapshotDiffVendorGroup[];
+}
+
+/** Display fields for a variant, usually from the variant cache */
+export interface VariantMeta {
+  vendor?: string | null;
+  productTitle?: string | null;
+  color?: string | null;
+  size?: string | null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function emptyCounts(): SnapshotDiffCounts {
+  return { added: 0, removed: 0, stockChanged: 0, priceChanged: 0, unchanged: 0 };
+}
+
+function addToCounts(counts: SnapshotDiffCounts, entry: SnapshotDiffEntry) {
+  if (entry.change === "added") counts.added++;
+  else if (entry.change === "removed") counts.removed++;
+  if (entry.stockChanged) counts.stockChanged++;
+  if (entry.priceChanged) counts.priceChanged++;
+}
+
+function normalizePrice(value: any): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = parseFloat(String(value));
+  return isNaN(n) ? String(value) : n.toFixed(2);
+}
+
+function variantKey(v: any): string {
+  return v.variantId ? `id:${v.variantId}` : `sku:${(v.sku || "").toLowerCase()}`;
+}
+
+/** Style from a STYLE-COLOR-SIZE SKU, else the product title, else the SKU */
+function styleOf(sku: string, productTitle: string | null): string {
+  const parts = (sku || "").split("-");
+  if (parts.length >= 3) return parts.slice(0, -2).join("-");
+  return productTitle || sku || "Unknown";
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+export function diffSyncSnapshots(
+  fromVariants: any[],
+  toVariants: any[],
+  options: {
+    meta?: Map<string, VariantMeta>;
+    /** Vendor used when neither the snapshot nor the cache has one */
+    fallbackVendor?: string;
+  } = {},
+): SnapshotDiff {
+  const meta = options.meta || new Map<string, VariantMeta>();
+  const fallbackVendor = options.fallbackVendor || "Unknown";
+
+  const fromByKey = new Map<string, any>();
+  const fromBySku = new Map<string, any>();
+  for (const v of fromVariants) {
+    fromByKey.set(variantKey(v), v);
+    if (v.sku) fromBySku.set(v.sku.toLowerCase(), v);
+  }
+
+  const counts = emptyCounts();
+  const entries: SnapshotDiffEntry[] = [];
+  const matched = new Set<any>();
+
+  const buildEntry = (
+    from: any | undefined,
+    to: any | undefined,
+    change: SnapshotDiffChange,
+  ): SnapshotDiffEntry => {
+    const v = to || from;
+    const m = meta.get(v.variantId) || {};
+    const productTitle = v.productTitle || m.productTitle || null;
+    const sku = v.sku || "";
+    return {
+      variantId: v.variantId || "",
+      sku,
+      vendor: v.vendor || m.vendor || fallbackVendor,
+      style: v.style || styleOf(sku, productTitle),
+      productTitle,
+      color: v.color || m.color || null,
+      size: v.size || m.size || null,
+      change,
+      stockChanged: false,
+      priceChanged: false,
+      fromStock: from ? (from.inventoryQuantity ?? 0) : null,
+      toStock: to ? (to.inventoryQuantity ?? 0) : null,
+      fromPrice: from ? normalizePrice(from.price) : null,
+      toPrice: to ? normalizePrice(to.price) : null,
+      fromCompareAtPrice: from ? normalizePrice(from.compareAtPrice) : null,
+      toCompareAtPrice: to ? normalizePrice(to.compareAtPrice) : null,
+    };
+  };
+
+  for (const to of toVariants) {
+    const from =
+      fromByKey.get(variantKey(to)) ||
+      (to.sku ? fromBySku.get(to.sku.toLowerCase()) : undefined);
+    if (!from || matched.has(from)) {
+      entries.push(buildEntry(undefined, to, "added"));
+      continue;
+    }
+    matched.add(from);
+
+    const entry = buildEntry(from, to, "changed");
+    entry.stockChanged = entry.fromStock !== entry.toStock;
+    entry.priceChanged =
+      entry.fromPrice !== entry.toPrice ||
+      entry.fromCompareAtPrice !== entry.toCompareAtPrice;
+    if (entry.stockChanged || entry.priceChanged) {
+      entries.push(entry);
+    } else {
+      counts.unchanged++;
+    }
+  }
+
+  for (const from of fromVariants) {
+    if (!matched.has(from)) {
+      entries.push(buildEntry(from, undefined, "removed"));
+    }
+  }
+
+  // Group by vendor → style
+  const vendorMap = new Map<string, Map<string, SnapshotDiffStyleGroup>>();
+  const vendorCounts = new Map<string, SnapshotDiffCounts>();
+  for (const entry of entries) {
+    addToCounts(counts, entry);
+
+    if (!vendorMap.has(entry.vendor)) {
+      vendorMap.set(entry.vendor, new Map());
+      vendorCounts.set(entry.vendor, emptyCounts());
+    }
+    addToCounts(vendorCounts.get(entry.vendor)!, entry);
+
+    const styles = vendorMap.get(entry.vendor)!;
+    if (!styles.has(entry.style)) {
+      styles.set(entry.style, {
+        style: entry.style,
+        counts: emptyCounts(),
+        entries: [],
+      });
+    }
+    const group = styles.get(entry.style)!;
+    addToCounts(group.counts, entry);
+    group.entries.push(entry);
+  }
+
+  const vendors: SnapshotDiffVendorGroup[] = [...vendorMap.entries()]
+    .map(([vendor, styles]) => ({
+      vendor,
+      counts: vendorCounts.get(vendor)!,
+      styles: [...styles.values()]
+        .map((group) => ({
+          ...group,
+          entries: group.entries.sort((a, b) => a.sku.localeCompare(b.sku)),
+        }))
+        .sort((a, b) => a.style.localeCompare(b.style)),
+    }))
+    .sort((a, b) => a.vendor.localeCompare(b.vendor));
+
+  return { counts, vendors };
+}
+
+/**
+ * Cap the number of entries returned (counts stay complete). Styles past
+ * the cap keep their counts with an empty entry list.
+ */
+export function limitSnapshotDiff(
+  diff: SnapshotDiff,
+  limit: number,
+): SnapshotDiff & { truncated: boolean } {
+  let remaining = limit;
+  let truncated = false;
+  const vendors = diff.vendors.map((vendor) => ({
+    ...vendor,
+    styles: vendor.styles.map((group) => {
+      const entries = group.entries.slice(0, Math.max(0, remaining));
+      remaining -= entries.length;
+      if (entries.length < group.entries.length) truncated = true;
+      return { ...group, entries };
+    }),
+  }));
+  return { counts: diff.counts, vendors, truncated };
+}
+
+// ============================================================
+// CSV EXPORT
+// ============================================================
+
+function csvField(value: any): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function snapshotDiffToCsv(diff: SnapshotDiff): string {
+  const headers = [
+    "vendor",
+    "style",
+    "sku",
+    "product_title",
+    "color",
+    "size",
+    "change",
+    "stock_changed",
+    "price_changed",
+    "from_stock",
+    "to_stock",
+    "from_price",
+    "to_price",
+    "from_compare_at_price",
+    "to_compare_at_price",
+    "variant_id",
+  ];
+
+  const rows = [headers.join(",")];
+  for (const vendor of diff.vendors) {
+    for (const group of vendor.styles) {
+      for (const e of group.entries) {
+        rows.push(
+          [
+            e.vendor,
+            e.style,
+            e.sku,
+            e.productTitle,
+            e.color,
+            e.size,
+            e.change,
+            e.stockChanged ? "yes" : "no",
+            e.priceChanged ? "yes" : "no",
+            e.fromStock,
+            e.toStock,
+            e.fromPrice,
+            e.toPrice,
+            e.fromCompareAtPrice,
+            e.toCompareAtPrice,
+            e.variantId,
+          ]
+            .map(csvField)
+            .join(","),
+        );
+      }
+    }
+  }
+  return rows.join("\n");
+}
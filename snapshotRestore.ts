@@ -0,0 +1,543 @@
+/**
+ * snapshotRestore.ts — Apply a sync snapshot back to Shopify
+ *
+ * restore-preview only compares a snapshot with the variant cache. A restore
+ * job pushes the snapshot's per-variant values back to the store:
+ *
+ *   - fields       stock (primary location), price and compareAtPrice —
+ *                  any subset; only values that differ from the variant
+ *                  cache are written
+ *   - scope        the snapshot's own data source, a data source within a
+ *                  full-store snapshot (matched by inventory SKU), or the
+ *                  whole store
+ *   - undo point   before anything is written, the current values of the
+ *                  variants about to change are saved as a sync snapshot
+ *                  of their own (job.undoSnapshotId); restoring that
+ *                  snapshot reverts the restore. It is an ordinary
+ *                  snapshot — pruning the job history leaves it alone
+ *   - progress     kept on the job, streamed by
+ *                  GET /api/snapshot-restores/:id/progress/stream
+ *   - cancel       cancelSnapshotRestore() stops the job between variants;
+ *                  values already written stay written (the undo snapshot
+ *                  covers them)
+ *
+ * Job records are kept in app settings for history. A job that was running
+ * when the process stopped is marked failed on the next load rather than
+ * resumed — the store may have been synced since.
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import type { InsertSyncSnapshot } from "@shared/schema";
+import { createShopifyService, isInventorySyncActive } from "./shopify";
+
+const RESTORE_JOBS_KEY = "snapshot_restore_jobs";
+// Finished jobs kept for the status routes
+const MAX_FINISHED_JOBS = 50;
+// Progress is kept in memory; persisted at most this often while running
+const PROGRESS_PERSIST_MS = 5 * 1000;
+// Errors kept per job (the counts are always complete)
+const MAX_JOB_ERRORS = 100;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type SnapshotRestoreField = "stock" | "price" | "compareAtPrice";
+
+export const SNAPSHOT_RESTORE_FIELDS: SnapshotRestoreField[] = [
+  "stock",
+  "price",
+  "compareAtPrice",
+];
+
+export type SnapshotRestoreStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type SnapshotRestorePhase =
+  | "loading"
+  | "undo_snapshot"
+  | "restoring"
+  | "done";
+
+export interface SnapshotRestoreJob {
+  id: string;
+  snapshotId: string;
+  shopifyStoreId: string;
+  /** null = whole store */
+  dataSourceId: string | null;
+  fields: SnapshotRestoreField[];
+  status: SnapshotRestoreStatus;
+  phase: SnapshotRestorePhase;
+  /** Variants with at least one value to write */
+  total: number;
+  processed: number;
+  updated: number;
+  unchanged: number;
+  /** Snapshot variants not in the variant cache (deleted or never synced) */
+  missing: number;
+  failed: number;
+  errors: { sku: string; error: string }[];
+  undoSnapshotId?: string;
+  cancelRequested: boolean;
+  error?: string;
+  startedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+const TERMINAL_STATUSES: SnapshotRestoreStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+// ============================================================
+// STATE
+// ============================================================
+
+const jobs = new Map<string, SnapshotRestoreJob>();
+
+let loaded: Promise<void> | null = null;
+let persistChain: Promise<void> = Promise.resolve();
+
+export function isTerminalSnapshotRestore(job: SnapshotRestoreJob): boolean {
+  return TERMINAL_STATUSES.includes(job.status);
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      const saved = await storage.getAppSetting(RESTORE_JOBS_KEY);
+      const now = new Date().toISOString();
+      let interrupted = 0;
+      for (const job of (saved?.jobs || []) as SnapshotRestoreJob[]) {
+        if (!isTerminalSnapshotRestore(job)) {
+          job.status = "failed";
+          job.error = "Interrupted by a server restart";
+          job.finishedAt = now;
+          job.updatedAt = now;
+          interrupted++;
+        }
+        jobs.set(job.id, job);
+      }
+      if (interrupted > 0) {
+        console.log(
+          `[SnapshotRestore] Marked ${interrupted} interrupted restore(s) as failed`,
+        );
+        await persist();
+      }
+    })().catch((err) => {
+      loaded = null;
+      throw err;
+    });
+  }
+  return loaded;
+}
+
+function persist(): Promise<void> {
+  const active = [...jobs.values()].filter(
+    (j) => !isTerminalSnapshotRestore(j),
+  );
+  const finished = [...jobs.values()]
+    .filter(isTerminalSnapshotRestore)
+    .sort((a, b) => (b.finishedAt || "").localeCompare(a.finishedAt || ""))
+    .slice(0, MAX_FINISHED_JOBS);
+  const keep = new Set([...active, ...finished].map((j) => j.id));
+  for (const id of jobs.keys()) if (!keep.has(id)) jobs.delete(id);
+
+  const snapshot = { jobs: [...active, ...finished] };
+  persistChain = persistChain
+    .then(() => storage.setAppSetting(RESTORE_JOBS_KEY, snapshot))
+    .catch((err) =>
+      console.error("[SnapshotRestore] Failed to persist jobs:", err),
+    );
+  return persistChain;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+export async function getSnapshotRestore(
+  jobId: string,
+): Promise<SnapshotRestoreJob | undefined> {
+  await ensureLoaded();
+  return jobs.get(jobId);
+}
+
+export async function listSnapshotRestores(
+  filter: { shopifyStoreId?: string; snapshotId?: string; limit?: number } = {},
+): Promise<SnapshotRestoreJob[]> {
+  await ensureLoaded();
+  return [...jobs.values()]
+    .filter(
+      (j) =>
+        (!filter.shopifyStoreId || j.shopifyStoreId === filter.shopifyStoreId) &&
+        (!filter.snapshotId || j.snapshotId === filter.snapshotId),
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filter.limit || 50);
+}
+
+/**
+ * Validate and start a restore. Returns the job immediately; the restore
+ * runs in the background. `error` + `status` describe why it didn't start.
+ */
+export async function startSnapshotRestore(
+  snapshotId: string,
+  options: {
+    dataSourceId?: string | null;
+    fields?: SnapshotRestoreField[];
+    userId?: string;
+  } = {},
+): Promise<{ job?: SnapshotRestoreJob; error?: string; status?: number }> {
+  await ensureLoaded();
+
+  const snapshot = await storage.getSyncSnapshot(snapshotId);
+  if (!snapshot) {
+    return { error: "Snapshot not found", status: 404 };
+  }
+  const storeId = snapshot.shopifyStoreId;
+  if (!storeId) {
+    return { error: "Snapshot has no store", status: 400 };
+  }
+
+  const fields = options.fields?.length
+    ? options.fields
+    : SNAPSHOT_RESTORE_FIELDS;
+  const invalid = fields.filter((f) => !SNAPSHOT_RESTORE_FIELDS.includes(f));
+  if (invalid.length > 0) {
+    return { error: `Unknown fields: ${invalid.join(", ")}`, status: 400 };
+  }
+
+  // A per-data-source snapshot can only restore its own data source
+  let dataSourceId =
+    options.dataSourceId !== undefined
+      ? options.dataSourceId
+      : snapshot.dataSourceId;
+  if (snapshot.dataSourceId && dataSourceId !== snapshot.dataSourceId) {
+    if (dataSourceId) {
+      return {
+        error: "Snapshot belongs to a different data source",
+        status: 400,
+      };
+    }
+    dataSourceId = snapshot.dataSourceId;
+  }
+
+  const store = await storage.getShopifyStore(storeId);
+  if (!store || !store.accessToken) {
+    return { error: "Store not connected", status: 400 };
+  }
+  if (fields.includes("stock") && !store.primaryLocationId) {
+    return {
+      error: "Store has no primary location; stock cannot be restored",
+      status: 400,
+    };
+  }
+  if (isInventorySyncActive(storeId)) {
+    return {
+      error: "An inventory sync is running for this store",
+      status: 409,
+    };
+  }
+  const running = [...jobs.values()].find(
+    (j) => j.shopifyStoreId === storeId && !isTerminalSnapshotRestore(j),
+  );
+  if (running) {
+    return {
+      error: "A snapshot restore is already running for this store",
+      status: 409,
+      job: running,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const job: SnapshotRestoreJob = {
+    id: crypto.randomUUID(),
+    snapshotId,
+    shopifyStoreId: storeId,
+    dataSourceId: dataSourceId || null,
+    fields,
+    status: "running",
+    phase: "loading",
+    total: 0,
+    processed: 0,
+    updated: 0,
+    unchanged: 0,
+    missing: 0,
+    failed: 0,
+    errors: [],
+    cancelRequested: false,
+    startedBy: options.userId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+  await persist();
+
+  runRestore(job, snapshot, store).catch((err) => {
+    console.error(`[SnapshotRestore] Job ${job.id} crashed:`, err);
+    finishJob(job, "failed", err.message || String(err));
+  });
+
+  return { job };
+}
+
+export async function cancelSnapshotRestore(
+  jobId: string,
+): Promise<{ cancelled: boolean; job?: SnapshotRestoreJob; reason?: string }> {
+  await ensureLoaded();
+  const job = jobs.get(jobId);
+  if (!job) {
+    return { cancelled: false, reason: "Restore job not found" };
+  }
+  if (isTerminalSnapshotRestore(job)) {
+    return { cancelled: false, job, reason: `Job is ${job.status}` };
+  }
+  job.cancelRequested = true;
+  job.updatedAt = new Date().toISOString();
+  await persist();
+  return { cancelled: true, job };
+}
+
+// ============================================================
+// RESTORE
+// ============================================================
+
+/**
+ * Variants of a snapshot. Legacy snapshots carry them in the variantData
+ * column; newer ones keep them in the per-variant table.
+ */
+export async function loadSnapshotVariants(snapshot: any): Promise<any[]> {
+  if (snapshot.variantData && snapshot.variantData.length > 0) {
+    return snapshot.variantData;
+  }
+  const count = await storage.getSyncSnapshotVariantCount(snapshot.id);
+  if (count === 0) return [];
+  return storage.getSyncSnapshotSampleVariants(snapshot.id, count);
+}
+
+function normalizePrice(value: any): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = parseFloat(String(value));
+  return isNaN(n) ? String(value) : n.toFixed(2);
+}
+
+function finishJob(
+  job: SnapshotRestoreJob,
+  status: SnapshotRestoreStatus,
+  error?: string,
+): void {
+  const now = new Date().toISOString();
+  job.status = status;
+  job.error = error;
+  job.phase = status === "completed" ? "done" : job.phase;
+  job.finishedAt = now;
+  job.updatedAt = now;
+  persist();
+}
+
+async function runRestore(
+  job: SnapshotRestoreJob,
+  snapshot: any,
+  store: any,
+): Promise<void> {
+  const logPrefix = `[SnapshotRestore:${job.id.substring(0, 8)}]`;
+  const storeId = job.shopifyStoreId;
+  const locationId: string = store.primaryLocationId || "";
+  const restoreStock = job.fields.includes("stock");
+  const restorePrice = job.fields.includes("price");
+  const restoreCompareAt = job.fields.includes("compareAtPrice");
+
+  // ---- Load snapshot variants, narrowed to the requested scope ----
+  let snapVariants = (await loadSnapshotVariants(snapshot)).filter(
+    (v: any) => v.variantId,
+  );
+  if (job.dataSourceId && !snapshot.dataSourceId) {
+    const items = await storage.getInventoryItemsByDataSource(job.dataSourceId);
+    const skus = new Set(
+      items.map((i: any) => (i.sku || "").toLowerCase()).filter(Boolean),
+    );
+    snapVariants = snapVariants.filter((v: any) =>
+      skus.has((v.sku || "").toLowerCase()),
+    );
+  }
+  if (snapVariants.length === 0) {
+    finishJob(job, "failed", "Snapshot has no variants in this scope");
+    return;
+  }
+
+  const skus = snapVariants
+    .map((v: any) => v.sku?.toLowerCase())
+    .filter(Boolean) as string[];
+  const cached = await storage.getVariantCacheBySKUs(storeId, skus);
+  const cacheById = new Map<string, any>(
+    cached.map((v: any) => [v.id, v] as [string, any]),
+  );
+
+  // ---- Work out what each variant needs ----
+  const plan: Array<{
+    snap: any;
+    current: any;
+    stock?: number;
+    price?: string | null;
+    compareAtPrice?: string | null;
+  }> = [];
+  for (const snap of snapVariants) {
+    const current = cacheById.get(snap.variantId);
+    if (!current) {
+      job.missing++;
+      continue;
+    }
+    const entry: (typeof plan)[number] = { snap, current };
+    const snapStock = snap.inventoryQuantity ?? 0;
+    if (restoreStock && (current.stock ?? 0) !== snapStock) {
+      entry.stock = snapStock;
+    }
+    if (
+      restorePrice &&
+      snap.price != null &&
+      normalizePrice(current.price) !== normalizePrice(snap.price)
+    ) {
+      entry.price = normalizePrice(snap.price);
+    }
+    if (
+      restoreCompareAt &&
+      normalizePrice(current.compareAtPrice) !==
+        normalizePrice(snap.compareAtPrice)
+    ) {
+      entry.compareAtPrice = normalizePrice(snap.compareAtPrice);
+    }
+    if (
+      entry.stock === undefined &&
+      entry.price === undefined &&
+      entry.compareAtPrice === undefined
+    ) {
+      job.unchanged++;
+      continue;
+    }
+    plan.push(entry);
+  }
+
+  job.total = plan.length;
+  job.updatedAt = new Date().toISOString();
+  console.log(
+    `${logPrefix} Snapshot ${job.snapshotId}: ${plan.length} to restore, ${job.unchanged} unchanged, ${job.missing} missing`,
+  );
+
+  if (plan.length === 0) {
+    finishJob(job, "completed");
+    return;
+  }
+  if (job.cancelRequested) {
+    finishJob(job, "cancelled");
+    return;
+  }
+
+  // ---- Undo point: current values of everything about to change ----
+  job.phase = "undo_snapshot";
+  await persist();
+  const undoVariants = plan.map(({ snap, current }) => ({
+    ...snap,
+    variantId: current.id,
+    productId: current.shopifyProductId || snap.productId,
+    inventoryItemId: current.inventoryItemId || snap.inventoryItemId,
+    sku: current.sku || snap.sku,
+    price: current.price,
+    compareAtPrice: current.compareAtPrice,
+    inventoryQuantity: current.stock ?? 0,
+    stockInfo: current.stockInfoMetafield ?? snap.stockInfo ?? null,
+  }));
+  const undoRecord: InsertSyncSnapshot = {
+    shopifyStoreId: storeId,
+    dataSourceId: job.dataSourceId,
+    variantData: undoVariants,
+    totalVariants: undoVariants.length,
+    totalProducts: new Set(undoVariants.map((v) => v.productId)).size,
+    isCurrentSnapshot: false,
+    isPreviousSnapshot: false,
+  };
+  const undoSnapshot = await storage.createSyncSnapshot(undoRecord);
+  job.undoSnapshotId = undoSnapshot.id;
+  console.log(`${logPrefix} Undo point ${undoSnapshot.id} saved`);
+
+  // ---- Push values to Shopify ----
+  job.phase = "restoring";
+  await persist();
+  const shopify = createShopifyService(store);
+  let lastPersist = Date.now();
+
+  for (const entry of plan) {
+    if (job.cancelRequested) {
+      console.log(
+        `${logPrefix} Cancelled after ${job.processed}/${job.total} variants`,
+      );
+      finishJob(job, "cancelled");
+      return;
+    }
+
+    const { snap, current } = entry;
+    try {
+      if (entry.stock !== undefined) {
+        const inventoryItemId = current.inventoryItemId || snap.inventoryItemId;
+        if (!inventoryItemId) {
+          throw new Error("No inventory item ID");
+        }
+        await shopify.setInventoryLevel(inventoryItemId, locationId, entry.stock);
+        await storage.updateVariantCacheStock(current.id, entry.stock);
+      }
+
+      if (entry.price !== undefined || entry.compareAtPrice !== undefined) {
+        const productId = current.shopifyProductId || snap.productId;
+        if (!productId) {
+          throw new Error("No product ID");
+        }
+        const update: { price?: string; compareAtPrice?: string | null } = {};
+        if (entry.price) update.price = entry.price;
+        if (entry.compareAtPrice !== undefined) {
+          update.compareAtPrice = entry.compareAtPrice;
+        }
+        await shopify.updateVariant(productId, current.id, update);
+        if (update.compareAtPrice !== undefined) {
+          // Cache row with both values, so the next diff sees what was written
+          await storage.upsertVariantCache([{ ...current, ...update }]);
+        } else if (update.price) {
+          await storage.updateVariantCachePrice(current.id, update.price);
+        }
+      }
+
+      job.updated++;
+    } catch (err: any) {
+      job.failed++;
+      if (job.errors.length < MAX_JOB_ERRORS) {
+        job.errors.push({
+          sku: snap.sku || current.sku || current.id,
+          error: err.message || String(err),
+        });
+      }
+      console.error(`${logPrefix} Failed to restore ${snap.sku}:`, err.message);
+    }
+
+    job.processed++;
+    job.updatedAt = new Date().toISOString();
+    if (Date.now() - lastPersist >= PROGRESS_PERSIST_MS) {
+      lastPersist = Date.now();
+      persist();
+    }
+  }
+
+  console.log(
+    `${logPrefix} Restore complete: ${job.updated} updated, ${job.failed} failed`,
+  );
+  finishJob(
+    job,
+    job.failed > 0 && job.updated === 0 ? "failed" : "completed",
+    job.failed > 0 && job.updated === 0 ? "Every variant failed to restore" : undefined,
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Stock allocation — the quantities the sync paths publish: the eBay stock
+ * plan (allocatedStockSync.ts) and channel integration pushes
+ * (channelSync.ts, through the mock adapter).
+ */
+
+import { test, describe, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import {
+  buildStockAllocator,
+  type StockAllocationRule,
+} from "./stockAllocation";
+import {
+  buildReservationLedger,
+  buildReservationLookup,
+} from "./stockReservations";
+import { planAllocatedStock } from "./allocatedStockSync";
+import { syncChannelStock } from "./channelSync";
+import { registerChannelAdapter } from "./channelAdapters";
+import {
+  mockChannelAdapter,
+  getMockChannelState,
+  resetMockChannels,
+} from "./mockChannelAdapter";
+
+const DATA_SOURCES = [
+  { id: "ds-a", name: "Vendor A" },
+  { id: "ds-b", name: "Vendor B" },
+];
+
+const ITEMS = [
+  { id: "1", sku: "A-RED-2", stock: 10, dataSourceId: "ds-a", price: "50.00" },
+  { id: "2", sku: "A-RED-4", stock: 3, dataSourceId: "ds-a", price: "50.00" },
+  { id: "3", sku: "B-BLUE-6", stock: 8, dataSourceId: "ds-b", price: "70.00" },
+  { id: "4", sku: "B-BLUE-8", stock: 1, dataSourceId: "ds-b", price: "70.00" },
+];
+
+function rule(overrides: Partial<StockAllocationRule>): StockAllocationRule {
+  return {
+    id: overrides.id || "rule",
+    channel: "*",
+    scope: "all",
+    scopeValue: null,
+    minStock: null,
+    capPercent: null,
+    holdBack: null,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+const RULES = [
+  rule({ id: "shopify-a", channel: "shopify", scope: "dataSource", scopeValue: "ds-a", holdBack: 2 }),
+  rule({ id: "mock-all", channel: "mock", capPercent: 50 }),
+  rule({ id: "mock-b", channel: "mock", scope: "vendor", scopeValue: "vendor b", minStock: 5 }),
+];
+
+// One open order holds 3 units of A-RED-2
+const RESERVATIONS = buildReservationLookup({
+  builtAt: new Date().toISOString(),
+  orderCount: 1,
+  entries: [
+    {
+      sku: "A-RED-2",
+      style: null,
+      color: null,
+      size: null,
+      reserved: 3,
+      orders: [{ orderId: "o1", orderNumber: "#1001", storeId: "store-1", quantity: 3 }],
+    },
+  ],
+});
+
+describe("eBay stock plan", () => {
+  test("publishes each listed SKU's allocation, mirroring Shopify for the rest", async () => {
+    const allocate = await buildStockAllocator("shopify", {
+      rules: RULES,
+      dataSources: DATA_SOURCES,
+      reservations: RESERVATIONS,
+    });
+    const variants = [
+      ...ITEMS.map((item) => ({
+        id: `v${item.id}`,
+        sku: item.sku.toLowerCase(),
+        stock: item.stock,
+      })),
+      { id: "v9", sku: "NOT-IN-MASTER", stock: 4 },
+    ];
+
+    const updates = planAllocatedStock(ITEMS, variants, allocate);
+
+    assert.deepEqual(updates, [
+      // 10 − 3 reserved − 2 held back
+      { sku: "a-red-2", quantity: 5, allocated: true },
+      // 3 − 2 held back
+      { sku: "a-red-4", quantity: 1, allocated: true },
+      { sku: "b-blue-6", quantity: 8, allocated: true },
+      { sku: "b-blue-8", quantity: 1, allocated: true },
+      { sku: "NOT-IN-MASTER", quantity: 4, allocated: false },
+    ]);
+  });
+
+  test("ignores the variant cache's stock for SKUs in master inventory", async () => {
+    const allocate = await buildStockAllocator("ebay", {
+      rules: [],
+      dataSources: DATA_SOURCES,
+      reservations: RESERVATIONS,
+    });
+    // The Shopify sync already published its lower allocation
+    const updates = planAllocatedStock(
+      ITEMS,
+      [{ id: "v3", sku: "B-BLUE-6", stock: 2 }],
+      allocate,
+    );
+    assert.deepEqual(updates, [{ sku: "B-BLUE-6", quantity: 8, allocated: true }]);
+  });
+});
+
+describe("channel stock push", () => {
+  const channel = { id: "channel-1", type: "mock" };
+  registerChannelAdapter(mockChannelAdapter);
+
+  beforeEach(() => {
+    resetMockChannels();
+    const settings = new Map<string, any>([
+      ["stock_allocation_rules", { rules: RULES }],
+      [
+        "stock_reservation_ledger",
+        {
+          builtAt: new Date().toISOString(),
+          orderCount: 1,
+          entries: [
+            {
+              sku: "A-RED-2",
+              style: null,
+              color: null,
+              size: null,
+              reserved: 3,
+              orders: [],
+            },
+          ],
+        },
+      ],
+      [
+        "channel_sync_config:channel-1",
+        { storeId: "store-1", stockBuffer: 1, pushPrices: true },
+      ],
+    ]);
+    mock.method(storage, "getAppSetting", async (key: string) => settings.get(key));
+    mock.method(storage, "getMasterInventory", async () => ITEMS);
+    mock.method(storage, "getDataSources", async () => DATA_SOURCES);
+    mock.method(storage, "updateChannelIntegration", async () => undefined);
+  });
+  afterEach(() => mock.restoreAll());
+
+  test("pushes allocated, buffered quantities per SKU", async () => {
+    const result = await syncChannelStock(channel);
+
+    assert.equal(result.success, true);
+    assert.equal(result.pushed, 4);
+    const stock = getMockChannelState(channel.id)!.stock;
+    assert.deepEqual(Object.fromEntries(stock), {
+      // 10 − 3 reserved = 7, capped at 50% → 3, − 1 buffer
+      "A-RED-2": 2,
+      // 3 at 50% → 1, − 1 buffer
+      "A-RED-4": 0,
+      // vendor B: minStock 5 → 8, − 1 buffer
+      "B-BLUE-6": 7,
+      // vendor B: below minStock 5 → 0
+      "B-BLUE-8": 0,
+    });
+    assert.equal(getMockChannelState(channel.id)!.prices.get("B-BLUE-6")?.price, "70.00");
+  });
+
+  test("subtracts a SKU's reservation once when several sources stock it", async () => {
+    mock.method(storage, "getMasterInventory", async () => [
+      { id: "5", sku: "A-RED-2", stock: 2, dataSourceId: "ds-b" },
+      { id: "6", sku: "A-RED-2", stock: 10, dataSourceId: "ds-b" },
+    ]);
+    const result = await syncChannelStock(channel, { dryRun: true });
+
+    // 12 − 3 reserved = 9; vendor B minStock 5: the first item's share
+    // empties it (2 − 2 = 0 → 0), the second keeps 10 − 1 = 9 → 9
+    assert.deepEqual(
+      result.updates?.map(({ sku, stock, quantity }) => [sku, stock, quantity]),
+      [["A-RED-2", 9, 8]],
+    );
+  });
+
+  test("dry run reports the same quantities without pushing", async () => {
+    const result = await syncChannelStock(channel, { dryRun: true });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(
+      result.updates?.map(({ sku, quantity }) => [sku, quantity]),
+      [
+        ["A-RED-2", 2],
+        ["A-RED-4", 0],
+        ["B-BLUE-6", 7],
+        ["B-BLUE-8", 0],
+      ],
+    );
+    assert.equal(getMockChannelState(channel.id), undefined);
+  });
+});
+
+describe("reservation ledger", () => {
+  afterEach(() => mock.restoreAll());
+
+  test("counts an order once when it matches several open statuses", async () => {
+    const order = {
+      id: 42,
+      orderNumber: "#1042",
+      lineItems: [{ sku: "A-RED-2", quantity: 2, fulfilledQuantity: 0 }],
+    };
+    mock.method(storage, "getOrders", async () => ({ orders: [order], total: 1 }));
+    mock.method(storage, "getOmSetting", async () => ({}));
+
+    const ledger = await buildReservationLedger();
+
+    assert.equal(ledger.orderCount, 1);
+    assert.equal(ledger.entries.length, 1);
+    assert.equal(ledger.entries[0].reserved, 2);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * stockAllocation.ts — Per-channel stock allocation rules
+ *
+ * Master inventory stock is the supplier's count; offering all of it on
+ * every channel oversells low-stock styles. Allocation rules decide how much
+ * each channel may offer, per data source or vendor:
+ *
+ *   - minStock     list only when stock ≥ threshold (else 0)
+ *   - capPercent   offer at most X% of the stock (rounded down)
+ *   - holdBack     hold back N units
+ *
+ * applied in that order to the item's available stock — vendor stock minus
+ * units reserved by open orders (stockReservations.ts). A rule targets one channel
+ * ("shopify", "ebay", a channel adapter type, or "*" for all) and one scope
+ * (a data source, a vendor, or everything). Per item and channel the most
+ * specific matching rule wins: data source, then vendor, then all — and a
+ * rule for the exact channel beats a "*" rule of the same scope.
+ *
+ * buildStockAllocator(channel) returns a synchronous per-item function that
+ * every sync path uses: the Shopify and eBay stock syncs
+ * (allocatedStockSync.ts), channel integration sync (channelSync.ts), the
+ * sync audit and mismatch fixes. The master inventory API reports the
+ * result per channel (item.allocated).
+ *
+ * Rules live in app settings (STOCK_ALLOCATION_KEY).
+ */
+
+import crypto from "crypto";
+import { storage } from "./storage";
+import {
+  loadReservationLookup,
+  type ReservationLookup,
+} from "./stockReservations";
+
+const STOCK_ALLOCATION_KEY = "stock_allocation_rules";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type AllocationScope = "all" | "dataSource" | "vendor";
+
+export interface StockAllocationRule {
+  id: string;
+  /** "shopify", "ebay", a channel adapter type, or "*" */
+  channel: string;
+  scope: AllocationScope;
+  /** Data source ID or vendor name (unused for "all") */
+  scopeValue?: string | null;
+  minStock?: number | null;
+  capPercent?: number | null;
+  holdBack?: number | null;
+  enabled: boolean;
+  note?: string;
+}
+
+export interface StockAllocation {
+  quantity: number;
+  /** Rule that produced the quantity (undefined = available stock) */
+  ruleId?: string;
+  /** Units held by open orders, subtracted before the rule */
+  reserved: number;
+}
+
+/**
+ * `reserved` overrides the item's reservation; paths that add up several
+ * items per SKU pass each item's share, so the SKU's open orders are only
+ * subtracted once
+ */
+export type StockAllocator = (
+  item: {
+    stock?: number | null;
+    sku?: string | null;
+    style?: string | null;
+    color?: string | null;
+    size?: string | null;
+    dataSourceId?: string | null;
+    vendor?: string | null;
+    sourceName?: string | null;
+  },
+  reserved?: number,
+) => StockAllocation;
+
+const SCOPE_RANK: Record<AllocationScope, number> = {
+  dataSource: 3,
+  vendor: 2,
+  all: 1,
+};
+
+// ============================================================
+// RULE STORAGE
+// ============================================================
+
+export async function getStockAllocationRules(): Promise<StockAllocationRule[]> {
+  const saved = await storage.getAppSetting(STOCK_ALLOCATION_KEY);
+  return (saved?.rules || []) as StockAllocationRule[];
+}
+
+function validateRule(rule: any): string | null {
+  if (!rule.channel || typeof rule.channel !== "string") {
+    return "channel is required";
+  }
+  if (!["all", "dataSource", "vendor"].includes(rule.scope)) {
+    return `Invalid scope "${rule.scope}"`;
+  }
+  if (rule.scope !== "all" && !rule.scopeValue) {
+    return `scopeValue is required for ${rule.scope} rules`;
+  }
+  for (const field of ["minStock", "holdBack"] as const) {
+    const value = rule[field];
+    if (value != null && (!Number.isFinite(value) || value < 0)) {
+      return `${field} must be a number ≥ 0`;
+    }
+  }
+  if (
+    rule.capPercent != null &&
+    (!Number.isFinite(rule.capPercent) ||
+      rule.capPercent < 0 ||
+      rule.capPercent > 100)
+  ) {
+    return "capPercent must be between 0 and 100";
+  }
+  if (rule.minStock == null && rule.capPercent == null && rule.holdBack == null) {
+    return "Rule needs at least one of minStock, capPercent, holdBack";
+  }
+  return null;
+}
+
+/** Replace the full rule set. New rules (no id) get one. */
+export async function saveStockAllocationRules(
+  rules: any[],
+): Promise<{ rules?: StockAllocationRule[]; error?: string }> {
+  if (!Array.isArray(rules)) {
+    return { error: "rules must be an array" };
+  }
+  const normalized: StockAllocationRule[] = [];
+  for (const [index, rule] of rules.entries()) {
+    const error = validateRule(rule);
+    if (error) return { error: `Rule ${index + 1}: ${error}` };
+    normalized.push({
+      id: rule.id || crypto.randomUUID(),
+      channel: rule.channel,
+      scope: rule.scope,
+      scopeValue: rule.scope === "all" ? null : String(rule.scopeValue),
+      minStock: rule.minStock ?? null,
+      capPercent: rule.capPercent ?? null,
+      holdBack: rule.holdBack ?? null,
+      enabled: rule.enabled !== false,
+      note: rule.note || undefined,
+    });
+  }
+  await storage.setAppSetting(STOCK_ALLOCATION_KEY, { rules: normalized });
+  return { rules: normalized };
+}
+
+// ============================================================
+// ALLOCATION
+// ============================================================
+
+export function applyAllocationRule(
+  rule: StockAllocationRule,
+  stock: number,
+): number {
+  const raw = Math.max(0, Math.floor(stock || 0));
+  if (rule.minStock != null && raw < rule.minStock) return 0;
+  let quantity = raw;
+  if (rule.capPercent != null) {
+    quantity = Math.min(quantity, Math.floor((raw * rule.capPercent) / 100));
+  }
+  if (rule.holdBack != null) {
+    quantity = Math.max(0, quantity - rule.holdBack);
+  }
+  return quantity;
+}
+
+function ruleMatches(
+  rule: StockAllocationRule,
+  dataSourceId: string | null,
+  vendor: string | null,
+): boolean {
+  if (rule.scope === "all") return true;
+  if (rule.scope === "dataSource") return rule.scopeValue === dataSourceId;
+  return (
+    !!vendor &&
+    (rule.scopeValue || "").trim().toLowerCase() === vendor.trim().toLowerCase()
+  );
+}
+
+export function findAllocationRule(
+  rules: StockAllocationRule[],
+  channel: string,
+  dataSourceId: string | null,
+  vendor: string | null,
+): StockAllocationRule | undefined {
+  let best: StockAllocationRule | undefined;
+  let bestRank = 0;
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (rule.channel !== channel && rule.channel !== "*") continue;
+    if (!ruleMatches(rule, dataSourceId, vendor)) continue;
+    const rank = SCOPE_RANK[rule.scope] * 2 + (rule.channel === channel ? 1 : 0);
+    if (rank > bestRank) {
+      best = rule;
+      bestRank = rank;
+    }
+  }
+  return best;
+}
+
+/**
+ * Per-item allocator for a channel. Loads rules, data sources and the
+ * reservation ledger once, so it can be called for every item in a sync.
+ */
+export async function buildStockAllocator(
+  channel: string,
+  preloaded: {
+    rules?: StockAllocationRule[];
+    dataSources?: any[];
+    reservations?: ReservationLookup;
+  } = {},
+): Promise<StockAllocator> {
+  const rules = (preloaded.rules || (await getStockAllocationRules())).filter(
+    (r) => r.enabled && (r.channel === channel || r.channel === "*"),
+  );
+  const reservations =
+    preloaded.reservations || (await loadReservationLookup());
+  const available = (item: Parameters<StockAllocator>[0], share?: number) => {
+    const stock = Math.max(0, item.stock ?? 0);
+    const reserved = share ?? (reservations(item)?.reserved || 0);
+    return { stock: Math.max(0, stock - reserved), reserved };
+  };
+
+  if (rules.length === 0) {
+    return (item, share) => {
+      const { stock, reserved } = available(item, share);
+      return { quantity: stock, reserved };
+    };
+  }
+
+  const dataSources = preloaded.dataSources || (await storage.getDataSources());
+  const vendorByDsId = new Map<string, string>(
+    dataSources.map(
+      (ds: any) => [ds.id, ds.vendor || ds.name || ""] as [string, string],
+    ),
+  );
+
+  return (item, share) => {
+    const { stock, reserved } = available(item, share);
+    const dataSourceId = item.dataSourceId || null;
+    const vendor =
+      item.vendor ||
+      (dataSourceId ? vendorByDsId.get(dataSourceId) : null) ||
+      item.sourceName ||
+      null;
+    const rule = findAllocationRule(rules, channel, dataSourceId, vendor);
+    if (!rule) return { quantity: stock, reserved };
+    return {
+      quantity: applyAllocationRule(rule, stock),
+      ruleId: rule.id,
+      reserved,
+    };
+  };
+}
+
+/** Allocators for several channels sharing one rules / data source load */
+export async function buildStockAllocators(
+  channels: string[],
+  reservations?: ReservationLookup,
+): Promise<Record<string, StockAllocator>> {
+  const rules = await getStockAllocationRules();
+  const dataSources = await storage.getDataSources();
+  const lookup = reservations || (await loadReservationLookup());
+  const allocators: Record<string, StockAllocator> = {};
+  for (const channel of channels) {
+    allocators[channel] = await buildStockAllocator(channel, {
+      rules,
+      dataSources,
+      reservations: lookup,
+    });
+  }
+  return allocators;
+}
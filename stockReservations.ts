@@ -0,0 +1,262 @@
+/**
+ * stockReservations.ts — Stock reserved by open orders
+ *
+ * Vendor stock is one pool shared by every store and channel, so units on
+ * orders that haven't shipped yet are no longer available. The reservation
+ * ledger collects the unfulfilled quantity of every open order line
+ * (order status unfulfilled / partially fulfilled, from the orders synced by
+ * /api/om/sync-orders) and matches it to master inventory by SKU, or by
+ * style + color + size when the SKUs differ.
+ *
+ * Stock syncs publish available = vendor stock − reserved:
+ * buildStockAllocator() (stockAllocation.ts) subtracts the reservation
+ * before any allocation rule, so every sync path picks it up. A SKU stocked
+ * by several data sources is reserved once: splitReservation() spreads it
+ * over the SKU's items for paths that add them up.
+ *
+ * The ledger is rebuilt after each order sync and order update, and stored
+ * in app settings (RESERVATION_LEDGER_KEY) so syncs don't page through
+ * orders themselves.
+ */
+
+import { storage } from "./storage";
+
+const RESERVATION_LEDGER_KEY = "stock_reservation_ledger";
+const OPEN_ORDER_STATUSES = ["unfulfilled", "partially_fulfilled", "partial"];
+const ORDER_PAGE_SIZE = 250;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface ReservationOrderRef {
+  orderId: string | number;
+  orderNumber: string | null;
+  storeId: string | null;
+  quantity: number;
+}
+
+export interface ReservationEntry {
+  sku: string | null;
+  style: string | null;
+  color: string | null;
+  size: string | null;
+  reserved: number;
+  orders: ReservationOrderRef[];
+}
+
+export interface ReservationLedger {
+  builtAt: string;
+  /** Open orders scanned */
+  orderCount: number;
+  entries: ReservationEntry[];
+}
+
+export interface ItemReservation {
+  reserved: number;
+  orders: ReservationOrderRef[];
+}
+
+export type ReservationLookup = (item: {
+  sku?: string | null;
+  style?: string | null;
+  color?: string | null;
+  size?: string | null;
+}) => ItemReservation | null;
+
+// ============================================================
+// KEYS
+// ============================================================
+
+function norm(value: unknown): string {
+  return String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+function variantKey(item: {
+  style?: string | null;
+  color?: string | null;
+  size?: string | null;
+}): string | null {
+  if (!item.style || !item.color || !item.size) return null;
+  return `${norm(item.style)}|${norm(item.color)}|${norm(item.size)}`;
+}
+
+// ============================================================
+// LEDGER BUILD
+// ============================================================
+
+/** Unfulfilled quantity of an order line */
+function openQuantity(line: any): number {
+  if (line.fulfillmentStatus === "fulfilled") return 0;
+  if (line.fulfillableQuantity != null) {
+    return Math.max(0, Number(line.fulfillableQuantity) || 0);
+  }
+  return Math.max(
+    0,
+    (Number(line.quantity) || 0) - (Number(line.fulfilledQuantity) || 0),
+  );
+}
+
+/** Line identity; color / size fall back to the "Color / Size" variant title */
+function lineIdentity(line: any): {
+  sku: string | null;
+  style: string | null;
+  color: string | null;
+  size: string | null;
+} {
+  let color = line.color || null;
+  let size = line.size || null;
+  if ((!color || !size) && typeof line.variantTitle === "string") {
+    const [c, s] = line.variantTitle.split(" / ");
+    color = color || c || null;
+    size = size || s || null;
+  }
+  return { sku: line.sku || null, style: line.style || null, color, size };
+}
+
+async function loadOpenOrders(): Promise<any[]> {
+  // The status filters can overlap, so an order is kept once
+  const orders = new Map<string, any>();
+  for (const status of OPEN_ORDER_STATUSES) {
+    let offset = 0;
+    while (true) {
+      const page = await storage.getOrders({
+        status,
+        limit: ORDER_PAGE_SIZE,
+        offset,
+      });
+      const batch: any[] = page?.orders || [];
+      for (const order of batch) {
+        if (!orders.has(String(order.id))) orders.set(String(order.id), order);
+      }
+      if (batch.length < ORDER_PAGE_SIZE) break;
+      offset += ORDER_PAGE_SIZE;
+    }
+  }
+  return [...orders.values()];
+}
+
+export async function buildReservationLedger(): Promise<ReservationLedger> {
+  const orders = await loadOpenOrders();
+  const entries = new Map<string, ReservationEntry>();
+  let orderCount = 0;
+
+  for (const order of orders) {
+    if (order.cancelledAt || order.status === "cancelled") continue;
+    let lines = order.lineItems || order.items;
+    if (!Array.isArray(lines)) {
+      // List queries may omit line items
+      const full: any = await storage.getOrderById(order.id);
+      lines = full?.lineItems || full?.items || [];
+    }
+    orderCount++;
+
+    for (const line of lines) {
+      const quantity = openQuantity(line);
+      if (quantity <= 0) continue;
+      const identity = lineIdentity(line);
+      const key = identity.sku ? norm(identity.sku) : variantKey(identity);
+      if (!key) continue;
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { ...identity, reserved: 0, orders: [] };
+        entries.set(key, entry);
+      }
+      entry.reserved += quantity;
+      entry.orders.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber || order.name || null,
+        storeId: order.shopifyStoreId || null,
+        quantity,
+      });
+    }
+  }
+
+  return {
+    builtAt: new Date().toISOString(),
+    orderCount,
+    entries: [...entries.values()],
+  };
+}
+
+export async function getReservationLedger(): Promise<ReservationLedger | null> {
+  return (await storage.getAppSetting(RESERVATION_LEDGER_KEY)) || null;
+}
+
+export async function rebuildReservationLedger(): Promise<ReservationLedger> {
+  const ledger = await buildReservationLedger();
+  await storage.setAppSetting(RESERVATION_LEDGER_KEY, ledger);
+  console.log(
+    `[Reservations] Ledger rebuilt: ${ledger.entries.length} variants reserved across ${ledger.orderCount} open orders`,
+  );
+  return ledger;
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Per-item reservation lookup. An item collects the entry for its SKU plus
+ * any entries for the same style / color / size (orders whose SKU format
+ * differs from the vendor's).
+ */
+export function buildReservationLookup(
+  ledger: ReservationLedger | null,
+): ReservationLookup {
+  if (!ledger || ledger.entries.length === 0) return () => null;
+
+  const bySku = new Map<string, ReservationEntry>();
+  const byVariant = new Map<string, ReservationEntry[]>();
+  for (const entry of ledger.entries) {
+    if (entry.sku) bySku.set(norm(entry.sku), entry);
+    const key = variantKey(entry);
+    if (key) {
+      const list = byVariant.get(key) || [];
+      list.push(entry);
+      byVariant.set(key, list);
+    }
+  }
+
+  return (item) => {
+    const matched = new Set<ReservationEntry>();
+    const skuEntry = item.sku ? bySku.get(norm(item.sku)) : undefined;
+    if (skuEntry) matched.add(skuEntry);
+    const key = variantKey(item);
+    for (const entry of (key && byVariant.get(key)) || []) matched.add(entry);
+    if (matched.size === 0) return null;
+
+    let reserved = 0;
+    const orders: ReservationOrderRef[] = [];
+    for (const entry of matched) {
+      reserved += entry.reserved;
+      orders.push(...entry.orders);
+    }
+    return { reserved, orders };
+  };
+}
+
+export async function loadReservationLookup(): Promise<ReservationLookup> {
+  return buildReservationLookup(await getReservationLedger());
+}
+
+/**
+ * Each item's share of its SKU's reservation, for items that are added up
+ * per SKU: earlier items absorb it up to their stock, so the total subtracted
+ * is the reservation once (capped at the SKU's combined stock)
+ */
+export function splitReservation(
+  items: Array<Parameters<ReservationLookup>[0] & { stock?: number | null }>,
+  lookup: ReservationLookup,
+): number[] {
+  let remaining = items.length > 0 ? lookup(items[0])?.reserved || 0 : 0;
+  return items.map((item) => {
+    const share = Math.min(Math.max(0, item.stock ?? 0), remaining);
+    remaining -= share;
+    return share;
+  });
+}
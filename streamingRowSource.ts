@@ -0,0 +1,907 @@
+/**
+ * streamingRowSource.ts — Row-at-a-time reader for uploaded CSV / XLSX files
+ *
+ * The parsers used to call XLSX.read + sheet_to_json on the whole buffer and
+ * then slice/copy the resulting array (sometimes twice, when several files
+ * were consolidated and re-encoded). Large store-wide files spiked memory.
+ *
+ * A RowSource hands rows out one by one instead:
+ *
+ *   - CSV   – the buffer is decoded in fixed-size chunks and split into rows
+ *             as it goes (same rules as parseCSVAsText: one row per line,
+ *             blank lines dropped, comma/tab picked from the first line)
+ *   - XLSX  – the worksheet XML is inflated from the zip as a stream and
+ *             parsed one <row> element at a time, so neither the workbook
+ *             nor the sheet is ever held whole. Only the shared-strings
+ *             table (one entry per distinct text) and the number formats
+ *             are kept for the pass
+ *   - other – legacy .xls, .xlsb, .ods etc. have no streamable layout; they
+ *             go through XLSX.read and are converted ROW_WINDOW rows at a
+ *             time, releasing each window's cells as the parser advances
+ *
+ * Rows are identical to sheet_to_json({ header: 1, raw: false }) with the
+ * same defval (formatted cell text, blank rows kept, fixSheetRange applied),
+ * so parsers switching over keep producing the same items.
+ *
+ * readRowSample() reads only the first rows for format detection and
+ * layout-drift checks, which only look at the top of a sheet.
+ */
+
+import * as XLSX from "xlsx";
+import path from "path";
+import zlib from "zlib";
+import { StringDecoder } from "string_decoder";
+import { fixSheetRange } from "./formatPlugins";
+
+// Rows converted per sheet_to_json call (non-streamable formats)
+const ROW_WINDOW = 500;
+// Bytes decoded per CSV chunk
+const CSV_CHUNK_BYTES = 64 * 1024;
+// Rows read for detection / drift checks
+export const SAMPLE_ROWS = 50;
+
+export interface RowSourceOptions {
+  /** Value for empty cells (sheet_to_json defval). Leave unset to keep sparse rows */
+  defval?: any;
+  /** Parse CSV buffers with the text reader (keeps "1921E0136" intact) instead of XLSX */
+  csvAsText?: boolean;
+  /** XLSX codepage for legacy encodings */
+  codepage?: number;
+  /** Pick the sheet to read from the workbook's sheet names (default: the first) */
+  pickSheet?: (sheetNames: string[]) => string;
+}
+
+export interface RowSource {
+  fileName: string;
+  sheetName: string;
+  format: "csv" | "xlsx" | "workbook";
+  /** Single pass over the rows, in sheet order */
+  rows(): AsyncGenerator<any[]>;
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+/**
+ * Check if a buffer is a CSV file (not Excel)
+ * Used to prevent XLSX from corrupting CSV values
+ */
+export function isCSVBuffer(buffer: Buffer): boolean {
+  // Check for Excel magic bytes (PK for xlsx, D0 CF for xls)
+  if (buffer.length >= 4) {
+    // XLSX files start with PK (0x50 0x4B)
+    if (buffer[0] === 0x50 && buffer[1] === 0x4b) {
+      return false;
+    }
+    // XLS files start with D0 CF 11 E0
+    if (
+      buffer[0] === 0xd0 &&
+      buffer[1] === 0xcf &&
+      buffer[2] === 0x11 &&
+      buffer[3] === 0xe0
+    ) {
+      return false;
+    }
+  }
+
+  // Check for UTF-16 BOM (some CSV files use this)
+  const hasUTF16BOM =
+    buffer.length >= 2 &&
+    ((buffer[0] === 0xff && buffer[1] === 0xfe) ||
+      (buffer[0] === 0xfe && buffer[1] === 0xff));
+
+  // Sample first 1000 bytes to check if it looks like CSV
+  let sampleText: string;
+  if (hasUTF16BOM) {
+    // UTF-16 LE
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+      sampleText = buffer.slice(2, 1000).toString("utf16le");
+    } else {
+      // UTF-16 BE - swap bytes
+      const swapped = Buffer.alloc(Math.min(998, buffer.length - 2));
+      for (let i = 2; i < Math.min(1000, buffer.length) - 1; i += 2) {
+        swapped[i - 2] = buffer[i + 1];
+        swapped[i - 1] = buffer[i];
+      }
+      sampleText = swapped.toString("utf16le");
+    }
+  } else {
+    sampleText = buffer.slice(0, 1000).toString("utf8");
+  }
+
+  // CSV characteristics: has commas/tabs, has newlines, printable text
+  const hasDelimiters = sampleText.includes(",") || sampleText.includes("\t");
+  const hasNewlines = sampleText.includes("\n") || sampleText.includes("\r");
+  const isPrintable = /^[\x09\x0A\x0D\x20-\x7E\u00A0-\uFFFF]*$/.test(
+    sampleText.replace(/[\r\n]/g, ""),
+  );
+
+  return hasDelimiters && hasNewlines && isPrintable;
+}
+
+// Decoded text of a CSV buffer, chunk by chunk (BOMs stripped, UTF-16 BE swapped)
+function* decodeCSVChunks(buffer: Buffer): Generator<string> {
+  let start = 0;
+  let encoding: "utf8" | "utf16le" = "utf8";
+  let swapBytes = false;
+
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    start = 2;
+    encoding = "utf16le";
+  } else if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    start = 2;
+    encoding = "utf16le";
+    swapBytes = true;
+  } else if (
+    buffer.length >= 3 &&
+    buffer[0] === 0xef &&
+    buffer[1] === 0xbb &&
+    buffer[2] === 0xbf
+  ) {
+    start = 3;
+  }
+
+  const decoder = new StringDecoder(encoding);
+  // Chunk size is even, so UTF-16 byte pairs never straddle a swap
+  for (let offset = start; offset < buffer.length; offset += CSV_CHUNK_BYTES) {
+    let chunk = buffer.subarray(offset, Math.min(buffer.length, offset + CSV_CHUNK_BYTES));
+    if (swapBytes) {
+      const swapped = Buffer.alloc(chunk.length - (chunk.length % 2));
+      for (let i = 0; i < swapped.length; i += 2) {
+        swapped[i] = chunk[i + 1];
+        swapped[i + 1] = chunk[i];
+      }
+      chunk = swapped;
+    }
+    const text = decoder.write(chunk);
+    if (text) yield text;
+  }
+  const rest = decoder.end();
+  if (rest) yield rest;
+}
+
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const row: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++; // Skip escaped quote
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      row.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  row.push(current.trim()); // Don't forget last field
+  return row;
+}
+
+/**
+ * CSV rows as strings, read incrementally. Same output as parseCSVAsText:
+ * one row per line, blank lines skipped, delimiter (comma or tab) decided
+ * by the first line.
+ */
+export function* csvRows(buffer: Buffer): Generator<string[]> {
+  let delimiter: string | null = null;
+  let pending = "";
+
+  const emit = function* (line: string): Generator<string[]> {
+    if (delimiter === null) {
+      const commaCount = (line.match(/,/g) || []).length;
+      const tabCount = (line.match(/\t/g) || []).length;
+      delimiter = tabCount > commaCount ? "\t" : ",";
+    }
+    if (!line.trim()) return;
+    yield splitCSVLine(line, delimiter);
+  };
+
+  for (const text of decodeCSVChunks(buffer)) {
+    pending += text;
+    let from = 0;
+    let newline = pending.indexOf("\n");
+    while (newline !== -1) {
+      let line = pending.substring(from, newline);
+      if (line.endsWith("\r")) line = line.slice(0, -1);
+      yield* emit(line);
+      from = newline + 1;
+      newline = pending.indexOf("\n", from);
+    }
+    pending = pending.substring(from);
+  }
+  yield* emit(pending);
+}
+
+
+// ============================================================
+// ZIP
+// ============================================================
+
+export interface ZipEntry {
+  name: string;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  compressedSize: number;
+  /** Uncompressed size as declared in the central directory */
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Entries of a zip buffer from its central directory — names and declared
+ * sizes only, nothing is inflated. Null when the buffer isn't a zip this
+ * reader handles (no end-of-directory record, or zip64).
+ */
+export function readZipEntries(buffer: Buffer): ZipEntry[] | null {
+  if (buffer.length < 22 || buffer[0] !== 0x50 || buffer[1] !== 0x4b) return null;
+
+  // End-of-central-directory record: last 22 bytes plus up to 64KB of comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  if (count === 0xffff || offset === 0xffffffff) return null;
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength).replace(/\\/g, "/"),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// Compressed bytes of an entry (after its local header)
+function zipEntryData(buffer: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(header) !== 0x04034b50) {
+    throw new Error(`Corrupt zip entry "${entry.name}"`);
+  }
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  return buffer.subarray(start, start + entry.compressedSize);
+}
+
+/** Whole text of a (small) entry — workbook, rels, styles */
+function readZipText(buffer: Buffer, entry: ZipEntry): string {
+  const data = zipEntryData(buffer, entry);
+  return (entry.method === 0 ? data : zlib.inflateRawSync(data)).toString("utf8");
+}
+
+/**
+ * Bytes of one entry, never more than its declared size: inflation stops
+ * (and throws) if the data expands past what the central directory says.
+ */
+export function inflateZipEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  const data = zipEntryData(buffer, entry);
+  if (entry.method === 0) return Buffer.from(data.subarray(0, entry.size));
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression method ${entry.method}`);
+  }
+  if (entry.size === 0) return Buffer.alloc(0);
+  try {
+    return zlib.inflateRawSync(data, { maxOutputLength: entry.size });
+  } catch (err: any) {
+    if (err.code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(`Entry expands past its declared ${entry.size} bytes`);
+    }
+    throw err;
+  }
+}
+
+/** Text of an entry as it inflates, chunk by chunk */
+async function* streamZipText(buffer: Buffer, entry: ZipEntry): AsyncGenerator<string> {
+  const data = zipEntryData(buffer, entry);
+  const decoder = new StringDecoder("utf8");
+  if (entry.method === 0) {
+    for (let offset = 0; offset < data.length; offset += CSV_CHUNK_BYTES) {
+      const text = decoder.write(data.subarray(offset, offset + CSV_CHUNK_BYTES));
+      if (text) yield text;
+    }
+  } else {
+    const inflate = zlib.createInflateRaw();
+    inflate.end(data);
+    try {
+      for await (const chunk of inflate) {
+        const text = decoder.write(chunk as Buffer);
+        if (text) yield text;
+      }
+    } finally {
+      // Stopping early (row samples) must not leave the inflater running
+      inflate.destroy();
+    }
+  }
+  const rest = decoder.end();
+  if (rest) yield rest;
+}
+
+// ============================================================
+// XML HELPERS (the subset of SpreadsheetML the parsers read)
+// ============================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  "&quot;": '"',
+  "&apos;": "'",
+  "&gt;": ">",
+  "&lt;": "<",
+  "&amp;": "&",
+};
+
+// Same decoding as SheetJS: entities, numeric refs, _xHHHH_ escapes, CDATA
+function unescapeXml(text: string): string {
+  const cdata = text.indexOf("<![CDATA[");
+  if (cdata !== -1) {
+    const end = text.indexOf("]]>", cdata);
+    return (
+      unescapeXml(text.slice(0, cdata)) +
+      text.slice(cdata + 9, end) +
+      unescapeXml(text.slice(end + 3))
+    );
+  }
+  return text
+    .replace(/&(?:quot|apos|gt|lt|amp|#x?([\da-fA-F]+));/gi, (entity, code) =>
+      XML_ENTITIES[entity] ||
+      String.fromCharCode(parseInt(code, entity.indexOf("x") > -1 ? 16 : 10)) ||
+      entity,
+    )
+    .replace(/_x([\da-fA-F]{4})_/gi, (_m, code) => String.fromCharCode(parseInt(code, 16)));
+}
+
+// Attributes of an element's start tag, namespace prefixes dropped
+function xmlAttributes(element: string): Record<string, string> {
+  const tagEnd = element.indexOf(">");
+  const startTag = tagEnd === -1 ? element : element.slice(0, tagEnd);
+  const attributes: Record<string, string> = {};
+  const attrPattern = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  for (let match = attrPattern.exec(startTag); match; match = attrPattern.exec(startTag)) {
+    const name = match[1].includes(":") && !match[1].startsWith("xmlns")
+      ? match[1].slice(match[1].indexOf(":") + 1)
+      : match[1];
+    attributes[name] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function elementsIn(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${tag}(?=[\\s/>])[^>]*?(?:/>|>[\\s\\S]*?</(?:[\\w.-]+:)?${tag}\\s*>)`, "g");
+  return xml.match(pattern) || [];
+}
+
+/**
+ * Complete <tag> elements from streamed XML text, one at a time. Text is
+ * dropped once its elements are handed out. onHead gets everything before
+ * the first element (where <dimension> lives in a worksheet).
+ */
+async function* streamXmlElements(
+  chunks: AsyncIterable<string>,
+  tag: string,
+  onHead?: (head: string) => void,
+): AsyncGenerator<string> {
+  const open = new RegExp(`<(?:[\\w.-]+:)?${tag}(?=[\\s/>])`, "g");
+  const close = new RegExp(`</(?:[\\w.-]+:)?${tag}\\s*>`, "g");
+  let headSeen = !onHead;
+  let pending = "";
+
+  for await (const text of chunks) {
+    pending += text;
+    let from = 0;
+    for (;;) {
+      open.lastIndex = from;
+      const start = open.exec(pending);
+      if (!start) {
+        // Keep a tail that may hold the start of a split "<tag"
+        if (headSeen) from = Math.max(from, pending.length - 64);
+        break;
+      }
+      if (!headSeen) {
+        onHead!(pending.slice(0, start.index));
+        headSeen = true;
+      }
+      const startTagEnd = pending.indexOf(">", start.index);
+      if (startTagEnd === -1) {
+        from = start.index;
+        break;
+      }
+      if (pending[startTagEnd - 1] === "/") {
+        yield pending.slice(start.index, startTagEnd + 1);
+        from = startTagEnd + 1;
+        continue;
+      }
+      close.lastIndex = startTagEnd;
+      const end = close.exec(pending);
+      if (!end) {
+        from = start.index;
+        break;
+      }
+      yield pending.slice(start.index, end.index + end[0].length);
+      from = end.index + end[0].length;
+    }
+    pending = pending.slice(from);
+  }
+  if (!headSeen) onHead!(pending);
+}
+
+// Text of a shared / inline string item: plain <t>, or rich-text runs
+// without their phonetic (rPh) parts — as SheetJS parse_si
+function stringItemText(item: string): string {
+  const inner = item
+    .replace(/^<(?:[\w.-]+:)?(?:si|is)(?:\s[^>]*)?>/, "")
+    .replace(/<\/(?:[\w.-]+:)?(?:si|is)\s*>$/, "");
+  if (/^\s*<(?:[\w.-]+:)?t[^>]*>/.test(inner)) {
+    return unescapeXml(inner.slice(inner.indexOf(">") + 1).split(/<\/(?:[\w.-]+:)?t>/)[0] || "");
+  }
+  if (/<(?:[\w.-]+:)?r>/.test(inner)) {
+    const runs = inner.replace(/<(?:[\w.-]+:)?rPh.*?>([\s\S]*?)<\/(?:[\w.-]+:)?rPh>/g, "");
+    const texts = runs.match(/<(?:[\w.-]+:)?t[^>]*>([^<]*)<\/(?:[\w.-]+:)?t>/g) || [];
+    return unescapeXml(texts.join("").replace(/<[^>]*>/g, ""));
+  }
+  return "";
+}
+
+// ============================================================
+// XLSX
+// ============================================================
+
+// Built-in ids missing from SSF's table (SheetJS SSFImplicit)
+const IMPLICIT_NUMBER_FORMATS: Record<number, string> = {
+  5: '"$"#,##0_);\\("$"#,##0\\)',
+  6: '"$"#,##0_);[Red]\\("$"#,##0\\)',
+  7: '"$"#,##0.00_);\\("$"#,##0.00\\)',
+  8: '"$"#,##0.00_);[Red]\\("$"#,##0.00\\)',
+  27: "m/d/yy", 28: "m/d/yy", 29: "m/d/yy", 30: "m/d/yy", 31: "m/d/yy",
+  32: "h:mm:ss", 33: "h:mm:ss", 34: "h:mm:ss", 35: "h:mm:ss", 36: "m/d/yy",
+  41: '_(* #,##0_);_(* \\(#,##0\\);_(* "-"_);_(@_)',
+  42: '_("$"* #,##0_);_("$"* \\(#,##0\\);_("$"* "-"_);_(@_)',
+  43: '_(* #,##0.00_);_(* \\(#,##0.00\\);_(* "-"??_);_(@_)',
+  44: '_("$"* #,##0.00_);_("$"* \\(#,##0.00\\);_("$"* "-"??_);_(@_)',
+  50: "m/d/yy", 51: "m/d/yy", 52: "m/d/yy", 53: "m/d/yy", 54: "m/d/yy",
+  55: "m/d/yy", 56: "m/d/yy", 57: "m/d/yy", 58: "m/d/yy",
+};
+
+interface XlsxBook {
+  sheetNames: string[];
+  sheetEntries: (ZipEntry | undefined)[];
+  sharedStrings?: ZipEntry;
+  /** Number format code per cellXfs index (undefined = General) */
+  cellFormats: (string | undefined)[];
+  date1904: boolean;
+}
+
+/** Workbook layout of an .xlsx buffer; null when it isn't one we can stream */
+function openXlsxBook(buffer: Buffer): XlsxBook | null {
+  const entries = readZipEntries(buffer);
+  if (!entries) return null;
+  const byName = new Map(entries.map((e) => [e.name.toLowerCase(), e]));
+  const entry = (name: string) => byName.get(name.replace(/^\/+/, "").toLowerCase());
+
+  const relationships = (relsPath: string) => {
+    const relsEntry = entry(relsPath);
+    return relsEntry
+      ? elementsIn(readZipText(buffer, relsEntry), "Relationship").map(xmlAttributes)
+      : [];
+  };
+  const resolve = (baseDir: string, target: string) =>
+    target.startsWith("/") ? target.slice(1) : path.posix.normalize(path.posix.join(baseDir, target));
+
+  const officeDocument = relationships("_rels/.rels").find((r) => /\/officeDocument$/.test(r.Type || ""));
+  const workbookPath = officeDocument ? resolve("", officeDocument.Target) : "xl/workbook.xml";
+  const workbookEntry = entry(workbookPath);
+  if (!workbookEntry || !workbookPath.toLowerCase().endsWith(".xml")) return null;
+
+  const workbookDir = path.posix.dirname(workbookPath);
+  const rels = relationships(`${workbookDir}/_rels/${path.posix.basename(workbookPath)}.rels`);
+  const relTarget = (predicate: (r: Record<string, string>) => boolean) => {
+    const rel = rels.find(predicate);
+    return rel ? entry(resolve(workbookDir, rel.Target)) : undefined;
+  };
+
+  const workbookXml = readZipText(buffer, workbookEntry);
+  const sheets = elementsIn(workbookXml, "sheet").map(xmlAttributes);
+  const workbookPr = elementsIn(workbookXml, "workbookPr").map(xmlAttributes)[0];
+
+  const cellFormats: (string | undefined)[] = [];
+  const stylesEntry = relTarget((r) => /\/styles$/.test(r.Type || ""));
+  if (stylesEntry) {
+    const stylesXml = readZipText(buffer, stylesEntry);
+    const customFormats = new Map<number, string>();
+    for (const numFmt of elementsIn(stylesXml, "numFmt").map(xmlAttributes)) {
+      customFormats.set(parseInt(numFmt.numFmtId, 10), unescapeXml(numFmt.formatCode || ""));
+    }
+    const table = XLSX.SSF.get_table();
+    const cellXfs = elementsIn(stylesXml, "cellXfs")[0] || "";
+    for (const xf of elementsIn(cellXfs, "xf").map(xmlAttributes)) {
+      const id = parseInt(xf.numFmtId || "0", 10) || 0;
+      cellFormats.push(
+        id === 0 ? undefined : customFormats.get(id) ?? table[id] ?? IMPLICIT_NUMBER_FORMATS[id] ?? "General",
+      );
+    }
+  }
+
+  return {
+    sheetNames: sheets.map((sheet) => unescapeXml(sheet.name || "")),
+    sheetEntries: sheets.map((sheet) => relTarget((r) => r.Id === sheet.id)),
+    sharedStrings: relTarget((r) => /\/sharedStrings$/.test(r.Type || "")),
+    cellFormats,
+    date1904: /^(1|true)$/i.test(workbookPr?.date1904 || ""),
+  };
+}
+
+async function loadSharedStrings(buffer: Buffer, book: XlsxBook): Promise<string[]> {
+  const strings: string[] = [];
+  if (!book.sharedStrings) return strings;
+  for await (const item of streamXmlElements(streamZipText(buffer, book.sharedStrings), "si")) {
+    strings.push(stringItemText(item));
+  }
+  return strings;
+}
+
+// Value of one <c> element as sheet_to_json(raw: false) shows it.
+// undefined = no cell (defval / hole); null = #NULL! error.
+function cellText(
+  cell: string,
+  attributes: Record<string, string>,
+  book: XlsxBook,
+  sharedStrings: string[],
+): string | null | undefined {
+  const body = cell.slice(cell.indexOf(">") + 1);
+  const valueMatch = body.match(/<(?:[\w.-]+:)?v(?:\s[^>]*)?>([\s\S]*?)<\/(?:[\w.-]+:)?v>/);
+  const raw = valueMatch && valueMatch[1] !== "" ? unescapeXml(valueMatch[1]) : undefined;
+  // Cells without a value (formulas never calculated, style-only stubs) are skipped
+  if (attributes.t == null && raw === undefined) return undefined;
+
+  let value: string | number | boolean;
+  switch (attributes.t || "n") {
+    case "s":
+      if (raw === undefined) return undefined;
+      value = sharedStrings[parseInt(raw, 10)] ?? "";
+      break;
+    case "str":
+      value = raw ?? "";
+      break;
+    case "inlineStr": {
+      const inline = body.match(/<(?:[\w.-]+:)?is>([\s\S]*?)<\/(?:[\w.-]+:)?is>/);
+      value = inline ? stringItemText(inline[1]) : "";
+      break;
+    }
+    case "b":
+      value = raw === "1" || raw === "true" || raw === "TRUE";
+      break;
+    case "e":
+      // Only #NULL! survives sheet_to_json (as null); other errors are empty
+      return raw === "#NULL!" ? null : undefined;
+    case "d": {
+      const date = new Date(raw || "");
+      if (isNaN(date.getTime())) return undefined;
+      value = (date.getTime() - Date.UTC(1899, 11, 30)) / 86400000;
+      break;
+    }
+    default:
+      if (raw === undefined || raw === "") return undefined;
+      value = parseFloat(raw);
+  }
+
+  const format = attributes.s !== undefined ? book.cellFormats[parseInt(attributes.s, 10)] : undefined;
+  const options = { date1904: book.date1904 };
+  try {
+    if (format === undefined) {
+      if (typeof value === "number") {
+        return (value | 0) === value ? value.toString(10) : XLSX.SSF.format("General", value, options);
+      }
+      return typeof value === "string" ? value : XLSX.SSF.format("General", value, options);
+    }
+    return XLSX.SSF.format(format, value, options);
+  } catch {
+    return XLSX.SSF.format("General", value, options);
+  }
+}
+
+// 0-based column of an "AB12" reference
+function columnIndex(ref: string): number {
+  let column = 0;
+  for (let i = 0; i < ref.length; i++) {
+    const code = ref.charCodeAt(i) - 64;
+    if (code < 1 || code > 26) break;
+    column = column * 26 + code;
+  }
+  return column - 1;
+}
+
+interface ParsedRow {
+  /** 0-based sheet row */
+  r: number;
+  cells: { c: number; value: string | null }[];
+  /** Columns SheetJS counts when it sizes a sheet without <dimension> (incl. formula-only cells) */
+  minC: number;
+  maxC: number;
+}
+
+// Rows of a worksheet with their cells' display text, in file order
+async function* parsedSheetRows(
+  buffer: Buffer,
+  sheet: ZipEntry,
+  book: XlsxBook,
+  sharedStrings: string[],
+  onHead?: (head: string) => void,
+): AsyncGenerator<ParsedRow> {
+  let r = -1;
+  for await (const rowXml of streamXmlElements(streamZipText(buffer, sheet), "row", onHead)) {
+    const rowAttributes = xmlAttributes(rowXml);
+    r = rowAttributes.r != null ? parseInt(rowAttributes.r, 10) - 1 : r + 1;
+    const parsed: ParsedRow = { r, cells: [], minC: Infinity, maxC: -1 };
+    let c = -1;
+    for (const cell of elementsIn(rowXml, "c")) {
+      const attributes = xmlAttributes(cell);
+      c = attributes.r ? columnIndex(attributes.r) : c + 1;
+      if (attributes.t != null || /<(?:[\w.-]+:)?(?:v|f)[\s>]/.test(cell)) {
+        parsed.minC = Math.min(parsed.minC, c);
+        parsed.maxC = Math.max(parsed.maxC, c);
+      }
+      const value = cellText(cell, attributes, book, sharedStrings);
+      if (value !== undefined) parsed.cells.push({ c, value });
+    }
+    yield parsed;
+  }
+}
+
+/**
+ * Worksheet rows as sheet_to_json({ header: 1, raw: false, defval }) would
+ * give them — range from <dimension> (or, without one, a first pass over the
+ * rows, as SheetJS guesses it), blank rows included, fixSheetRange applied.
+ */
+async function* xlsxSheetRows(
+  buffer: Buffer,
+  book: XlsxBook,
+  sheet: ZipEntry,
+  options: { defval?: any } = {},
+): AsyncGenerator<any[]> {
+  const sharedStrings = await loadSharedStrings(buffer, book);
+
+  let range: XLSX.Range | null = null;
+  const readDimension = (head: string) => {
+    const dimension = head.match(/<(?:\w*:)?dimension[^>]*?"(\w*:\w*)"/);
+    if (!dimension) return;
+    const decoded = XLSX.utils.decode_range(dimension[1]);
+    if (decoded.s.r <= decoded.e.r && decoded.s.c <= decoded.e.c && decoded.s.r >= 0 && decoded.s.c >= 0) {
+      range = decoded;
+    }
+  };
+
+  let rows = parsedSheetRows(buffer, sheet, book, sharedStrings, readDimension);
+  let first = await rows.next();
+  if (!range) {
+    // No usable <dimension>: size the sheet from its cells first
+    const guess = { s: { r: 2000000, c: 2000000 }, e: { r: 0, c: 0 } };
+    for (let next = first; !next.done; next = await rows.next()) {
+      guess.s.r = Math.min(guess.s.r, next.value.r);
+      guess.e.r = Math.max(guess.e.r, next.value.r);
+      guess.s.c = Math.min(guess.s.c, next.value.minC);
+      guess.e.c = Math.max(guess.e.c, next.value.maxC);
+    }
+    if (guess.e.c < guess.s.c || guess.e.r < guess.s.r) return;
+    range = guess;
+    rows = parsedSheetRows(buffer, sheet, book, sharedStrings);
+    first = await rows.next();
+  }
+  const sheetRange: XLSX.Range = range;
+
+  // fixSheetRange: an over-wide range is trimmed using the first rows
+  const leading: ParsedRow[] = [];
+  if (sheetRange.e.c > 100) {
+    const rowsToCheck = Math.min(sheetRange.e.r, 10);
+    for (; !first.done && first.value.r <= rowsToCheck; first = await rows.next()) {
+      leading.push(first.value);
+    }
+    let maxCol = 0;
+    for (const row of leading) {
+      if (row.r < sheetRange.s.r) continue;
+      for (const cell of row.cells) {
+        if (cell.c <= sheetRange.e.c && cell.value !== null && cell.value !== "" && cell.c > maxCol) {
+          maxCol = cell.c;
+        }
+      }
+    }
+    const newLastCol = maxCol + 2;
+    if (newLastCol < sheetRange.e.c) {
+      console.log(`[FixRange] Trimmed sheet range from ${sheetRange.e.c + 1} to ${newLastCol + 1} columns`);
+      sheetRange.e.c = newLastCol;
+    }
+  }
+
+  const width = sheetRange.e.c - sheetRange.s.c + 1;
+  const blankRow = () => (options.defval !== undefined ? new Array(width).fill(options.defval) : []);
+  let nextRow = sheetRange.s.r;
+
+  async function* allRows(): AsyncGenerator<ParsedRow> {
+    yield* leading;
+    for (let next = first; !next.done; next = await rows.next()) yield next.value;
+  }
+
+  for await (const parsed of allRows()) {
+    if (parsed.r < nextRow || parsed.r > sheetRange.e.r) continue;
+    for (; nextRow < parsed.r; nextRow++) yield blankRow();
+    const row = blankRow();
+    for (const cell of parsed.cells) {
+      if (cell.c < sheetRange.s.c || cell.c > sheetRange.e.c) continue;
+      row[cell.c - sheetRange.s.c] = cell.value;
+    }
+    yield row;
+    nextRow = parsed.r + 1;
+  }
+  for (; nextRow <= sheetRange.e.r; nextRow++) yield blankRow();
+}
+
+// ============================================================
+// OTHER WORKBOOKS (.xls, .xlsb, .ods ...)
+// ============================================================
+
+function readWorkbook(
+  buffer: Buffer,
+  options: { codepage?: number; sheetRows?: number } = {},
+): XLSX.WorkBook {
+  const readOptions: XLSX.ParsingOptions = {
+    type: "buffer",
+    // Neither is used by sheet_to_json — skip building them per cell
+    cellFormula: false,
+    cellHTML: false,
+  };
+  if (options.codepage) readOptions.codepage = options.codepage;
+  if (options.sheetRows) readOptions.sheetRows = options.sheetRows;
+  return XLSX.read(buffer, readOptions);
+}
+
+// Row source over a workbook SheetJS parses whole; with sampleRows only
+// that many rows are parsed
+function openWorkbookSource(
+  buffer: Buffer,
+  fileName: string,
+  options: RowSourceOptions,
+  sampleRows?: number,
+): RowSource {
+  const workbook = readWorkbook(buffer, { codepage: options.codepage, sheetRows: sampleRows });
+  const sheetName = options.pickSheet ? options.pickSheet(workbook.SheetNames) : workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+  // sheetRows shrinks !ref to the cells it read; keep the full column span
+  // so defval padding matches a full read
+  if (sheet?.["!ref"] && sheet["!fullref"]) {
+    const range = XLSX.utils.decode_range(sheet["!ref"]);
+    const fullRange = XLSX.utils.decode_range(sheet["!fullref"]);
+    range.s.c = fullRange.s.c;
+    range.e.c = fullRange.e.c;
+    sheet["!ref"] = XLSX.utils.encode_range(range);
+  }
+  if (sheet) fixSheetRange(sheet);
+  return {
+    fileName,
+    sheetName,
+    format: "workbook",
+    rows: async function* () {
+      yield* sheetRows(sheet, { defval: options.defval });
+    },
+  };
+}
+
+/**
+ * Rows of a parsed sheet, ROW_WINDOW at a time. Converted cells are removed
+ * from the sheet, so the sheet can't be read again afterwards.
+ */
+export function* sheetRows(
+  sheet: XLSX.WorkSheet,
+  options: { defval?: any } = {},
+): Generator<any[]> {
+  if (!sheet || !sheet["!ref"]) return;
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+
+  for (let r = range.s.r; r <= range.e.r; r += ROW_WINDOW) {
+    const end = Math.min(range.e.r, r + ROW_WINDOW - 1);
+    const windowRows = XLSX.utils.sheet_to_json(sheet, {
+      header: 1,
+      defval: options.defval,
+      raw: false, // FIX: Prevent scientific notation corruption (e.g. "1921E0136" → 1.921e+139)
+      range: { s: { r, c: range.s.c }, e: { r: end, c: range.e.c } },
+    }) as any[][];
+
+    // Release this window's cells before handing the rows out
+    for (let row = r; row <= end; row++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        delete sheet[XLSX.utils.encode_cell({ r: row, c })];
+      }
+    }
+
+    yield* windowRows;
+  }
+}
+
+// ============================================================
+// ROW SOURCES
+// ============================================================
+
+/**
+ * Row source over one sheet of a file (the first unless options.pickSheet
+ * chooses), or the CSV text with csvAsText
+ */
+export function openRowSource(
+  buffer: Buffer,
+  fileName: string,
+  options: RowSourceOptions = {},
+): RowSource {
+  if (options.csvAsText && isCSVBuffer(buffer)) {
+    return {
+      fileName,
+      sheetName: "",
+      format: "csv",
+      rows: async function* () {
+        yield* csvRows(buffer);
+      },
+    };
+  }
+
+  const book = openXlsxBook(buffer);
+  if (book) {
+    const sheetName = options.pickSheet ? options.pickSheet(book.sheetNames) : book.sheetNames[0];
+    const sheetEntry = book.sheetEntries[book.sheetNames.indexOf(sheetName)];
+    return {
+      fileName,
+      sheetName,
+      format: "xlsx",
+      rows: async function* () {
+        if (sheetEntry) yield* xlsxSheetRows(buffer, book, sheetEntry, { defval: options.defval });
+      },
+    };
+  }
+
+  return openWorkbookSource(buffer, fileName, options);
+}
+
+/** Collect a source's rows into an array (for parsers that need random access) */
+export async function collectRows(source: RowSource, into: any[][] = []): Promise<any[][]> {
+  for await (const row of source.rows()) into.push(row);
+  return into;
+}
+
+/**
+ * First `maxRows` rows of a file without reading the rest — enough for
+ * format detection and layout fingerprints.
+ */
+export async function readRowSample(
+  buffer: Buffer,
+  maxRows: number = SAMPLE_ROWS,
+  options: RowSourceOptions = {},
+): Promise<{ sheetName: string; rows: any[][] }> {
+  const streamable = (options.csvAsText && isCSVBuffer(buffer)) || openXlsxBook(buffer) !== null;
+  const source = streamable
+    ? openRowSource(buffer, "", options)
+    : openWorkbookSource(buffer, "", options, maxRows);
+  const rows: any[][] = [];
+  if (maxRows > 0) {
+    for await (const row of source.rows()) {
+      rows.push(row);
+      if (rows.length >= maxRows) break;
+    }
+  }
+  return { sheetName: source.sheetName, rows };
+}
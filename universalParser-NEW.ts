@@ -12,9 +12,16 @@
  *
  * The returned config is compatible with EnhancedImportConfig so that
  * parseWithEnhancedConfig can process the data without new hardcoded parsers.
+ *
+ * Analyses are cached per data source and versioned by a layout fingerprint
+ * (getOrAnalyzeFile); a changed layout raises a drift alert instead of a new
+ * AI call. Without network, heuristicAnalyzer.ts produces the same result shape.
  */
 
+import crypto from "crypto";
 import { openai } from "./openai";
+import { storage } from "./storage";
+import { analyzeFileHeuristically } from "./heuristicAnalyzer";
 
 // ============================================================
 // TYPES
@@ -62,6 +69,8 @@ export interface UniversalAnalysisResult {
   /** Grouped pivot config */
   groupedPivotConfig?: GroupedPivotConfig;
   notes: string[];
+  /** "heuristic" when produced offline by heuristicAnalyzer.ts */
+  analyzer?: "ai" | "heuristic";
 }
 
 // ============================================================
@@ -186,11 +195,25 @@ Only include fields that are actually present in the data. Omit optional fields
 /**
  * Sends the first rows of a file to the AI model for format detection.
  * Returns a structured config that can be used for extraction.
+ *
+ * If the model can't be reached or returns something unusable, falls back
+ * to the offline heuristic analyzer (set `offlineFallback: false` to get
+ * null instead).
  */
 export async function analyzeFileWithAI(
   rawData: any[][],
   filename?: string,
+  options: { offlineFallback?: boolean } = {},
 ): Promise<UniversalAnalysisResult | null> {
+  const fallback = (reason: string): UniversalAnalysisResult | null => {
+    if (options.offlineFallback === false || rawData.length === 0) return null;
+    const result = analyzeFileHeuristically(rawData, filename);
+    console.log(
+      `[UniversalParser] ${reason} — heuristic analysis: ${result.formatType} (confidence: ${result.confidence}%)`,
+    );
+    return { ...result, analyzer: "heuristic" };
+  };
+
   try {
     // Take first 25 rows for analysis (enough to see patterns)
     const sampleRows = rawData.slice(0, 25);
@@ -224,7 +247,7 @@ export async function analyzeFileWithAI(
     const content = response.choices?.[0]?.message?.content;
     if (!content) {
       console.error("[UniversalParser] AI returned empty response");
-      return null;
+      return fallback("Empty AI response");
     }
 
     const parsed = JSON.parse(content) as UniversalAnalysisResult;
@@ -238,14 +261,282 @@ export async function analyzeFileWithAI(
     // Validate the response has required fields
     if (!parsed.formatType || !["row", "pivot", "pivot_grouped"].includes(parsed.formatType)) {
       console.error(`[UniversalParser] Invalid formatType: ${parsed.formatType}`);
-      return null;
+      return fallback("Invalid AI response");
     }
 
-    return parsed;
+    return { ...parsed, analyzer: "ai" };
   } catch (error: any) {
     console.error(`[UniversalParser] AI analysis failed: ${error.message}`);
-    return null;
+    return fallback("AI unavailable");
+  }
+}
+
+// ============================================================
+// ANALYSIS CACHE (per data source, keyed by layout fingerprint)
+// ============================================================
+// A data source's AI analysis is stored as a versioned app setting and
+// reused for as long as the file layout keeps the same fingerprint, so
+// nightly imports never re-ask the model. When the layout drifts we keep
+// the previous mapping and raise a system alert; a new AI analysis only
+// happens when the user explicitly re-analyzes (forceRefresh).
+
+const ANALYSIS_CACHE_PREFIX = "universal_analysis:";
+const MAX_ANALYSIS_VERSIONS = 10;
+
+export interface CachedAnalysisVersion {
+  version: number;
+  fingerprint: string;
+  analysis: UniversalAnalysisResult;
+  /** Normalized header row cells the analysis was made against */
+  headers: string[];
+  filename: string | null;
+  analyzedAt: string;
+}
+
+interface AnalysisCacheEntry {
+  current: CachedAnalysisVersion;
+  /** Newest first, including current */
+  versions: CachedAnalysisVersion[];
+  /** Fingerprint we last raised a drift alert for (one alert per new layout) */
+  lastDriftFingerprint?: string;
+}
+
+export interface LayoutDrift {
+  dataSourceId: string;
+  cachedVersion: number;
+  cachedFingerprint: string;
+  currentFingerprint: string;
+  /** Header cells that appeared / disappeared compared with the cached layout */
+  addedHeaders: string[];
+  removedHeaders: string[];
+}
+
+export interface AnalysisLookup {
+  analysis: UniversalAnalysisResult | null;
+  source: "cache" | "ai" | "heuristic" | "drift" | "none";
+  version: number | null;
+  fingerprint: string;
+  drift?: LayoutDrift;
+}
+
+function normalizeHeaderCell(cell: any): string {
+  return String(cell ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+}
+
+// Rows above the data (title + header rows) — the part of the file that
+// describes its layout rather than its content
+function getLayoutRows(
+  rawData: any[][],
+  analysis?: Pick<UniversalAnalysisResult, "headerRowIndex" | "dataStartRow">,
+): string[][] {
+  const headerRowIndex = analysis?.headerRowIndex ?? 0;
+  const lastLayoutRow = Math.max(
+    headerRowIndex,
+    (analysis?.dataStartRow ?? headerRowIndex + 1) - 1,
+  );
+  return rawData.slice(0, lastLayoutRow + 1).map((row) => {
+    const cells = (row || []).map(normalizeHeaderCell);
+    while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+    return cells;
+  });
+}
+
+/**
+ * Structural fingerprint of a file: the normalized title/header rows and the
+ * column count. Data values don't contribute, so a daily file with new stock
+ * numbers keeps its fingerprint while a renamed or inserted column changes it.
+ */
+export function computeLayoutFingerprint(
+  rawData: any[][],
+  analysis?: Pick<UniversalAnalysisResult, "headerRowIndex" | "dataStartRow">,
+): string {
+  const layoutRows = getLayoutRows(rawData, analysis);
+  const columnCount = Math.max(0, ...layoutRows.map((r) => r.length));
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ columnCount, layoutRows }))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+async function getAnalysisCacheEntry(
+  dataSourceId: string,
+): Promise<AnalysisCacheEntry | null> {
+  const entry = await storage.getAppSetting(`${ANALYSIS_CACHE_PREFIX}${dataSourceId}`);
+  return entry?.current ? (entry as AnalysisCacheEntry) : null;
+}
+
+async function saveAnalysisVersion(
+  dataSourceId: string,
+  existing: AnalysisCacheEntry | null,
+  rawData: any[][],
+  fingerprint: string,
+  analysis: UniversalAnalysisResult,
+  filename?: string,
+): Promise<CachedAnalysisVersion> {
+  const version: CachedAnalysisVersion = {
+    version: (existing?.current.version || 0) + 1,
+    fingerprint,
+    analysis,
+    headers: getHeaderCells(rawData, analysis),
+    filename: filename || null,
+    analyzedAt: new Date().toISOString(),
+  };
+  const entry: AnalysisCacheEntry = {
+    current: version,
+    versions: [version, ...(existing?.versions || [])].slice(0, MAX_ANALYSIS_VERSIONS),
+  };
+  await storage.setAppSetting(`${ANALYSIS_CACHE_PREFIX}${dataSourceId}`, entry);
+  console.log(
+    `[UniversalParser] Stored analysis v${version.version} for data source ${dataSourceId} (fingerprint ${fingerprint})`,
+  );
+  return version;
+}
+
+function getHeaderCells(
+  rawData: any[][],
+  analysis: Pick<UniversalAnalysisResult, "headerRowIndex" | "dataStartRow">,
+): string[] {
+  return getLayoutRows(rawData, analysis)[analysis.headerRowIndex ?? 0] || [];
+}
+
+function describeDrift(
+  dataSourceId: string,
+  rawData: any[][],
+  cached: CachedAnalysisVersion,
+  currentFingerprint: string,
+): LayoutDrift {
+  const current = getHeaderCells(rawData, cached.analysis).filter(Boolean);
+  const previous = (cached.headers || []).filter(Boolean);
+
+  return {
+    dataSourceId,
+    cachedVersion: cached.version,
+    cachedFingerprint: cached.fingerprint,
+    currentFingerprint,
+    addedHeaders: current.filter((h) => !previous.includes(h)),
+    removedHeaders: previous.filter((h) => !current.includes(h)),
+  };
+}
+
+/**
+ * Compare a file against the data source's cached analysis. Returns null when
+ * nothing is cached or the layout still matches. On drift, a "format_layout_drift"
+ * system error is raised once per new layout (skip with raiseAlert: false).
+ */
+export async function checkLayoutDrift(
+  dataSourceId: string,
+  rawData: any[][],
+  options: { filename?: string; raiseAlert?: boolean } = {},
+): Promise<LayoutDrift | null> {
+  const entry = await getAnalysisCacheEntry(dataSourceId);
+  if (!entry) return null;
+
+  const fingerprint = computeLayoutFingerprint(rawData, entry.current.analysis);
+  if (fingerprint === entry.current.fingerprint) return null;
+
+  const drift = describeDrift(dataSourceId, rawData, entry.current, fingerprint);
+  console.warn(
+    `[UniversalParser] Layout drift for data source ${dataSourceId}: ${entry.current.fingerprint} → ${fingerprint}` +
+      (options.filename ? ` (${options.filename})` : ""),
+  );
+
+  if (options.raiseAlert !== false && entry.lastDriftFingerprint !== fingerprint) {
+    try {
+      await storage.createSystemError({
+        dataSourceId,
+        errorType: "format_layout_drift",
+        errorMessage:
+          `File layout changed since AI analysis v${entry.current.version} — still using the saved mapping. ` +
+          `Re-analyze the file to accept the new layout.`,
+        errorDetails: { ...drift, filename: options.filename || null },
+        severity: "warning",
+      });
+      await storage.setAppSetting(`${ANALYSIS_CACHE_PREFIX}${dataSourceId}`, {
+        ...entry,
+        lastDriftFingerprint: fingerprint,
+      });
+    } catch (err) {
+      console.error("[UniversalParser] Failed to raise drift alert:", err);
+    }
   }
+
+  return drift;
+}
+
+/**
+ * Cached front door for analyzeFileWithAI().
+ *
+ *   - no data source / nothing cached → ask the AI, store as version 1
+ *   - fingerprint matches             → reuse the cached analysis
+ *   - fingerprint changed             → keep the cached analysis, raise a drift
+ *                                       alert (no AI call)
+ *   - forceRefresh                    → ask the AI, store as a new version
+ */
+export async function getOrAnalyzeFile(
+  rawData: any[][],
+  options: { dataSourceId?: string; filename?: string; forceRefresh?: boolean } = {},
+): Promise<AnalysisLookup> {
+  const { dataSourceId, filename, forceRefresh = false } = options;
+  const entry = dataSourceId ? await getAnalysisCacheEntry(dataSourceId) : null;
+
+  if (entry && !forceRefresh) {
+    const fingerprint = computeLayoutFingerprint(rawData, entry.current.analysis);
+    if (fingerprint === entry.current.fingerprint) {
+      console.log(
+        `[UniversalParser] Reusing cached analysis v${entry.current.version} for data source ${dataSourceId}`,
+      );
+      return {
+        analysis: entry.current.analysis,
+        source: "cache",
+        version: entry.current.version,
+        fingerprint,
+      };
+    }
+
+    const drift = await checkLayoutDrift(dataSourceId!, rawData, { filename });
+    return {
+      analysis: entry.current.analysis,
+      source: "drift",
+      version: entry.current.version,
+      fingerprint,
+      drift: drift || undefined,
+    };
+  }
+
+  const analysis = await analyzeFileWithAI(rawData, filename);
+  const fingerprint = computeLayoutFingerprint(rawData, analysis || undefined);
+  if (!analysis) {
+    return { analysis: null, source: "none", version: null, fingerprint };
+  }
+  // Heuristic results aren't cached, so the AI is asked again once it's back
+  if (analysis.analyzer === "heuristic") {
+    return { analysis, source: "heuristic", version: null, fingerprint };
+  }
+  if (!dataSourceId) {
+    return { analysis, source: "ai", version: null, fingerprint };
+  }
+
+  const saved = await saveAnalysisVersion(
+    dataSourceId,
+    entry,
+    rawData,
+    fingerprint,
+    analysis,
+    filename,
+  );
+  return { analysis, source: "ai", version: saved.version, fingerprint };
+}
+
+/** Stored analysis versions for a data source, newest first */
+export async function getAnalysisHistory(
+  dataSourceId: string,
+): Promise<CachedAnalysisVersion[]> {
+  const entry = await getAnalysisCacheEntry(dataSourceId);
+  return entry?.versions || [];
 }
 
 // ============================================================
@@ -335,6 +626,7 @@ export function parseGroupedPivotData(
         size: gc.sizeLabels[j],
         stock,
         price,
+        sourceRow: i + 1,
       });
     }
   }
@@ -0,0 +1,624 @@
+/**
+ * urlFetchers.ts — Fetchers for URL data sources
+ *
+ * A URL data source (type "url", connectionDetails.url) can point at more
+ * than a direct .csv / .xlsx link. The fetcher registered for the link style
+ * turns it into a file buffer that goes through the normal import path
+ * (processUrlDataSourceImport / the "url" import job → executeImport):
+ *
+ *   - googleSheets   docs.google.com/spreadsheets/d/<id>/... → export link
+ *                    (xlsx, or csv of one tab when the link has a gid)
+ *   - dropbox        dropbox.com share links → dl=1
+ *   - oneDrive       1drv.ms / onedrive.live.com via the shares API;
+ *                    SharePoint / OneDrive for Business links → download=1
+ *   - sftp / ftp     sftp:// and ftp(s):// paths, downloaded with curl
+ *   - http           anything else over http(s)
+ *
+ * Every HTTP-based fetcher honours the data source's auth (basic or bearer)
+ * and custom headers. Secrets may use the env: prefix, like email passwords,
+ * but only saved data sources resolve it (urlFetchOptionsFor); options built
+ * from a request body (urlTestOptionsFor) refuse env: references the source
+ * doesn't already store, so a caller can't read arbitrary server variables.
+ * (S)FTP credentials reach curl through --config on stdin, never argv.
+ *
+ * Fetchers are tried in FETCHERS order; the first whose matches() accepts
+ * the URL wins, and http is the catch-all. Service hosts can be overridden
+ * per call (UrlFetchOptions.endpoints) so fetchers can run against local
+ * stand-in servers.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const USER_AGENT = "InventoryAI/1.0 (URL Data Source)";
+// HTML under this size is treated as a sign-in / share page, not a file
+const HTML_PAGE_LIMIT = 50000;
+
+const DEFAULT_ENDPOINTS = {
+  googleDocs: "https://docs.google.com",
+  oneDriveApi: "https://api.onedrive.com/v1.0",
+};
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface UrlAuth {
+  type: "none" | "basic" | "bearer";
+  username?: string;
+  /** Basic auth / (S)FTP password; env:NAME reads process.env.NAME */
+  password?: string;
+  /** Bearer token; env:NAME reads process.env.NAME */
+  token?: string;
+}
+
+export interface UrlFetchOptions {
+  auth?: UrlAuth;
+  /** Extra request headers (HTTP-based fetchers) */
+  headers?: Record<string, string>;
+  /** SFTP private key (PEM text, or env:NAME) */
+  privateKey?: string;
+  /** SFTP: skip the known_hosts check */
+  insecureHostKey?: boolean;
+  timeoutMs?: number;
+  endpoints?: Partial<typeof DEFAULT_ENDPOINTS>;
+  /** Resolve env:NAME secrets (saved data sources only) */
+  allowEnvSecrets?: boolean;
+}
+
+export interface FetchedFile {
+  buffer: Buffer;
+  filename: string;
+  contentType: string | null;
+  /** Name of the fetcher that downloaded it */
+  fetcher: string;
+  /** URL actually requested (after share-link rewriting) */
+  resolvedUrl: string;
+}
+
+export interface UrlProbeResult {
+  success: boolean;
+  fetcher: string;
+  resolvedUrl?: string;
+  status?: number;
+  contentType?: string | null;
+  contentLength?: number | null;
+  error?: string;
+}
+
+export interface UrlFetcher {
+  name: string;
+  matches(url: URL): boolean;
+  fetch(url: URL, options: UrlFetchOptions): Promise<FetchedFile>;
+  probe(url: URL, options: UrlFetchOptions): Promise<UrlProbeResult>;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function resolveSecret(
+  value: string | undefined,
+  options: UrlFetchOptions,
+): string | undefined {
+  if (!value || !value.startsWith("env:")) return value;
+  if (!options.allowEnvSecrets) {
+    throw new Error(
+      "env: secrets can only be used by a saved data source - save it first, or enter the value",
+    );
+  }
+  const envVarName = value.substring(4);
+  const resolved = process.env[envVarName];
+  if (!resolved) {
+    throw new Error(
+      `URL secret '${envVarName}' is not configured. Please add it to your environment secrets.`,
+    );
+  }
+  return resolved;
+}
+
+function endpoint(
+  options: UrlFetchOptions,
+  key: keyof typeof DEFAULT_ENDPOINTS,
+): string {
+  return (options.endpoints?.[key] || DEFAULT_ENDPOINTS[key]).replace(
+    /\/$/,
+    "",
+  );
+}
+
+function requestHeaders(options: UrlFetchOptions): Record<string, string> {
+  const headers: Record<string, string> = {
+    "User-Agent": USER_AGENT,
+    ...(options.headers || {}),
+  };
+  const auth = options.auth;
+  if (auth?.type === "basic" && auth.username) {
+    const password = resolveSecret(auth.password, options) || "";
+    headers.Authorization = `Basic ${Buffer.from(
+      `${auth.username}:${password}`,
+    ).toString("base64")}`;
+  } else if (auth?.type === "bearer" && auth.token) {
+    headers.Authorization = `Bearer ${resolveSecret(auth.token, options)}`;
+  }
+  return headers;
+}
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "text/csv": ".csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "application/vnd.ms-excel": ".xls",
+};
+
+/** Content-Disposition name, else the URL's last path segment, else by type */
+export function filenameFromResponse(
+  contentDisposition: string | null,
+  url: URL,
+  contentType: string | null,
+): string {
+  if (contentDisposition) {
+    // RFC 5987 format: filename*=utf-8''URL_ENCODED_NAME
+    const rfc5987 = contentDisposition.match(
+      /filename\*=(?:utf-8|UTF-8)?''([^;]+)/,
+    );
+    if (rfc5987) {
+      try {
+        return decodeURIComponent(rfc5987[1].trim());
+      } catch {
+        return rfc5987[1].trim();
+      }
+    }
+    const plain = contentDisposition.match(/filename=["']?([^;"']+)/i);
+    if (plain) return plain[1].trim();
+  }
+  const lastSegment = decodeURIComponent(
+    url.pathname.split("/").filter(Boolean).pop() || "",
+  );
+  if (/\.(csv|xlsx|xls)$/i.test(lastSegment)) return lastSegment;
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  return `url_file${CONTENT_TYPE_EXTENSIONS[type] || ".xlsx"}`;
+}
+
+function looksLikeHtmlPage(
+  buffer: Buffer,
+  contentType: string | null,
+): boolean {
+  if (buffer.length >= HTML_PAGE_LIMIT) return false;
+  if ((contentType || "").includes("text/html")) return true;
+  const preview = buffer.toString("utf-8", 0, Math.min(buffer.length, 1000));
+  return /<!DOCTYPE html|<html/i.test(preview);
+}
+
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error: any) {
+    if (error.name === "AbortError") {
+      throw new Error(
+        `Connection timed out after ${Math.round(timeoutMs / 1000)} seconds`,
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** GET a URL over HTTP(S) with the source's auth and headers */
+async function httpDownload(
+  fetcher: string,
+  url: URL,
+  options: UrlFetchOptions,
+): Promise<FetchedFile> {
+  const response = await fetchWithTimeout(
+    url.toString(),
+    { method: "GET", headers: requestHeaders(options), redirect: "follow" },
+    options.timeoutMs || DEFAULT_TIMEOUT_MS,
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch URL: ${response.status} ${response.statusText}`,
+    );
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const contentType = response.headers.get("content-type");
+  if (buffer.length === 0) {
+    throw new Error("URL returned an empty file");
+  }
+  if (looksLikeHtmlPage(buffer, contentType)) {
+    throw new Error(
+      "URL returned a web page instead of a file - the link may require sign-in or not be shared publicly",
+    );
+  }
+  return {
+    buffer,
+    filename: filenameFromResponse(
+      response.headers.get("content-disposition"),
+      new URL(response.url || url.toString()),
+      contentType,
+    ),
+    contentType,
+    fetcher,
+    resolvedUrl: url.toString(),
+  };
+}
+
+/** HEAD a URL (GET when HEAD isn't supported) with the source's auth */
+async function httpProbe(
+  fetcher: string,
+  url: URL,
+  options: UrlFetchOptions,
+): Promise<UrlProbeResult> {
+  const timeoutMs = options.timeoutMs || 15000;
+  const headers = requestHeaders(options);
+  let response = await fetchWithTimeout(
+    url.toString(),
+    { method: "HEAD", headers, redirect: "follow" },
+    timeoutMs,
+  );
+  // Some servers don't support HEAD, try GET
+  if (response.status === 405 || response.status === 501) {
+    response = await fetchWithTimeout(
+      url.toString(),
+      { method: "GET", headers, redirect: "follow" },
+      timeoutMs,
+    );
+  }
+  const contentLength = response.headers.get("content-length");
+  return {
+    success: response.ok,
+    fetcher,
+    resolvedUrl: url.toString(),
+    status: response.status,
+    contentType: response.headers.get("content-type") || "unknown",
+    contentLength: contentLength ? parseInt(contentLength) : null,
+    error: response.ok
+      ? undefined
+      : `Server returned ${response.status}: ${response.statusText}`,
+  };
+}
+
+/** Fetcher that rewrites a share link to a direct download, then GETs it */
+function shareLinkFetcher(
+  name: string,
+  matches: (url: URL) => boolean,
+  toDownloadUrl: (url: URL, options: UrlFetchOptions) => URL,
+): UrlFetcher {
+  return {
+    name,
+    matches,
+    fetch: (url, options) =>
+      httpDownload(name, toDownloadUrl(url, options), options),
+    probe: (url, options) =>
+      httpProbe(name, toDownloadUrl(url, options), options),
+  };
+}
+
+// ============================================================
+// SHARE LINK FETCHERS
+// ============================================================
+
+const googleSheetsFetcher = shareLinkFetcher(
+  "googleSheets",
+  (url) =>
+    url.hostname === "docs.google.com" &&
+    /^\/spreadsheets\/d\/[^/]+/.test(url.pathname) &&
+    // Published (/pub) and export links are already direct downloads
+    !/\/(export|pub)$/.test(url.pathname),
+  (url, options) => {
+    const [, , , sheetId] = url.pathname.split("/");
+    // gid may be in the query or the #gid= fragment
+    const gid =
+      url.searchParams.get("gid") || url.hash.match(/gid=(\d+)/)?.[1] || null;
+    const exportUrl = new URL(
+      `${endpoint(options, "googleDocs")}/spreadsheets/d/${sheetId}/export`,
+    );
+    if (gid) {
+      exportUrl.searchParams.set("format", "csv");
+      exportUrl.searchParams.set("gid", gid);
+    } else {
+      exportUrl.searchParams.set("format", "xlsx");
+    }
+    return exportUrl;
+  },
+);
+
+const dropboxFetcher = shareLinkFetcher(
+  "dropbox",
+  (url) =>
+    /(^|\.)dropbox\.com$/.test(url.hostname) &&
+    /^\/(s|sh|scl)\//.test(url.pathname),
+  (url) => {
+    const direct = new URL(url.toString());
+    direct.searchParams.delete("raw");
+    direct.searchParams.set("dl", "1");
+    return direct;
+  },
+);
+
+const oneDriveFetcher = shareLinkFetcher(
+  "oneDrive",
+  (url) =>
+    url.hostname === "1drv.ms" ||
+    url.hostname === "onedrive.live.com" ||
+    url.hostname.endsWith(".sharepoint.com"),
+  (url, options) => {
+    if (url.hostname.endsWith(".sharepoint.com")) {
+      const direct = new URL(url.toString());
+      direct.searchParams.set("download", "1");
+      return direct;
+    }
+    // Personal OneDrive: share ID is "u!" + unpadded base64url of the link
+    const shareId =
+      "u!" +
+      Buffer.from(url.toString())
+        .toString("base64")
+        .replace(/=+$/, "")
+        .replace(/\//g, "_")
+        .replace(/\+/g, "-");
+    return new URL(
+      `${endpoint(options, "oneDriveApi")}/shares/${shareId}/root/content`,
+    );
+  },
+);
+
+// ============================================================
+// SFTP / FTP
+// ============================================================
+
+/** A curl config file value: double-quoted, with \\ and \" escaped */
+function curlConfigString(value: string): string {
+  return `"${value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n")}"`;
+}
+
+/** Download (or probe) an sftp:// / ftp:// path with curl */
+async function curlTransfer(
+  fetcher: string,
+  url: URL,
+  options: UrlFetchOptions,
+  headOnly: boolean,
+): Promise<{ buffer: Buffer; output: string }> {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "url_fetch_"));
+  const outputFile = path.join(tmpDir, "output");
+  const keyFile = path.join(tmpDir, "key");
+
+  try {
+    const timeoutSeconds = Math.round(
+      (options.timeoutMs || DEFAULT_TIMEOUT_MS) / 1000,
+    );
+    const args = ["-s", "-S", "--fail", "--max-time", String(timeoutSeconds)];
+    // Credentials are read from stdin so they never show up in the process
+    // list (argv is visible to every local user)
+    const config: string[] = [];
+    const username = options.auth?.username || decodeURIComponent(url.username);
+    const password =
+      resolveSecret(options.auth?.password, options) ||
+      decodeURIComponent(url.password);
+    if (username) {
+      config.push(`user = ${curlConfigString(`${username}:${password || ""}`)}`);
+    }
+    args.push("--config", "-");
+    if (fetcher === "sftp") {
+      const privateKey = resolveSecret(options.privateKey, options);
+      if (privateKey) {
+        fs.writeFileSync(keyFile, privateKey, { mode: 0o600 });
+        args.push("--key", keyFile);
+      }
+      if (options.insecureHostKey) args.push("--insecure");
+    }
+    if (headOnly) {
+      args.push("--head");
+    } else {
+      args.push("-o", outputFile);
+    }
+
+    // Credentials go through the config, not the URL curl echoes on error
+    const bare = new URL(url.toString());
+    bare.username = "";
+    bare.password = "";
+    args.push(bare.toString());
+
+    try {
+      const transfer = execFileAsync("curl", args, {
+        maxBuffer: 100 * 1024 * 1024,
+        timeout: (options.timeoutMs || DEFAULT_TIMEOUT_MS) + 10000,
+      });
+      transfer.child.stdin?.end(config.map((line) => `${line}\n`).join(""));
+      const { stdout } = await transfer;
+      const buffer = headOnly
+        ? Buffer.alloc(0)
+        : fs.existsSync(outputFile)
+          ? fs.readFileSync(outputFile)
+          : Buffer.alloc(0);
+      return { buffer, output: stdout };
+    } catch (error: any) {
+      throw new Error(
+        `${fetcher.toUpperCase()} transfer failed: ${(error.stderr || error.message || "").trim()}`,
+      );
+    }
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+function fileTransferFetcher(
+  name: "sftp" | "ftp",
+  protocols: string[],
+): UrlFetcher {
+  return {
+    name,
+    matches: (url) => protocols.includes(url.protocol),
+    async fetch(url, options) {
+      const { buffer } = await curlTransfer(name, url, options, false);
+      if (buffer.length === 0) {
+        throw new Error(`${name.toUpperCase()} file is empty`);
+      }
+      return {
+        buffer,
+        filename: filenameFromResponse(null, url, null),
+        contentType: null,
+        fetcher: name,
+        resolvedUrl: url.toString(),
+      };
+    },
+    async probe(url, options) {
+      const { output } = await curlTransfer(name, url, options, true);
+      const size = output.match(/Content-Length:\s*(\d+)/i)?.[1];
+      return {
+        success: true,
+        fetcher: name,
+        resolvedUrl: url.toString(),
+        contentType: null,
+        contentLength: size ? parseInt(size) : null,
+      };
+    },
+  };
+}
+
+const sftpFetcher = fileTransferFetcher("sftp", ["sftp:"]);
+const ftpFetcher = fileTransferFetcher("ftp", ["ftp:", "ftps:"]);
+
+// ============================================================
+// HTTP
+// ============================================================
+
+const httpFetcher: UrlFetcher = {
+  name: "http",
+  matches: (url) => url.protocol === "http:" || url.protocol === "https:",
+  fetch: (url, options) => httpDownload("http", url, options),
+  probe: (url, options) => httpProbe("http", url, options),
+};
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+export const FETCHERS: UrlFetcher[] = [
+  googleSheetsFetcher,
+  dropboxFetcher,
+  oneDriveFetcher,
+  sftpFetcher,
+  ftpFetcher,
+  httpFetcher,
+];
+
+function parseUrl(url: string): URL {
+  try {
+    return new URL(url.trim());
+  } catch {
+    throw new Error("Invalid URL format");
+  }
+}
+
+export function resolveFetcher(url: string): UrlFetcher | null {
+  const parsed = parseUrl(url);
+  return FETCHERS.find((f) => f.matches(parsed)) || null;
+}
+
+/** True for links a plain GET can't download (share pages, non-HTTP paths) */
+export function isSharedLink(url: string): boolean {
+  try {
+    const fetcher = resolveFetcher(url);
+    return !!fetcher && fetcher !== httpFetcher;
+  } catch {
+    return false;
+  }
+}
+
+export async function fetchUrlSource(
+  url: string,
+  options: UrlFetchOptions = {},
+): Promise<FetchedFile> {
+  const parsed = parseUrl(url);
+  const fetcher = FETCHERS.find((f) => f.matches(parsed));
+  if (!fetcher) {
+    throw new Error(`Unsupported URL scheme: ${parsed.protocol}`);
+  }
+  const file = await fetcher.fetch(parsed, options);
+  console.log(
+    `[URL Fetch] ${fetcher.name}: downloaded ${file.filename} (${file.buffer.length} bytes)`,
+  );
+  return file;
+}
+
+export async function probeUrlSource(
+  url: string,
+  options: UrlFetchOptions = {},
+): Promise<UrlProbeResult> {
+  const parsed = parseUrl(url);
+  const fetcher = FETCHERS.find((f) => f.matches(parsed));
+  if (!fetcher) {
+    return {
+      success: false,
+      fetcher: "none",
+      error: `Unsupported URL scheme: ${parsed.protocol}`,
+    };
+  }
+  try {
+    return await fetcher.probe(parsed, options);
+  } catch (error: any) {
+    return { success: false, fetcher: fetcher.name, error: error.message };
+  }
+}
+
+/** Fetch options stored on a URL data source's connectionDetails */
+export function urlFetchOptionsFor(connectionDetails: any): UrlFetchOptions {
+  return {
+    auth: connectionDetails?.auth,
+    headers: connectionDetails?.headers,
+    privateKey: connectionDetails?.privateKey,
+    insecureHostKey: connectionDetails?.insecureHostKey,
+    timeoutMs: connectionDetails?.timeoutMs,
+    allowEnvSecrets: true,
+  };
+}
+
+function envSecrets(details: any): Array<string | undefined> {
+  return [details?.auth?.password, details?.auth?.token, details?.privateKey];
+}
+
+/**
+ * Fetch options from an unsaved form (test-connection requests). env:
+ * secrets resolve only when each one is what the saved data source
+ * (`stored` connectionDetails) already holds in that field.
+ */
+export function urlTestOptionsFor(
+  body: any,
+  stored?: any,
+): UrlFetchOptions {
+  const saved = envSecrets(stored);
+  const allowEnvSecrets =
+    !!stored &&
+    envSecrets(body).every(
+      (value, i) => !value?.startsWith("env:") || value === saved[i],
+    );
+  return { ...urlFetchOptionsFor(body), allowEnvSecrets };
+}
+
+/** Sources a plain GET of the URL can't download */
+export function needsUrlFetcher(connectionDetails: any): boolean {
+  const url = connectionDetails?.url;
+  if (!url) return false;
+  const auth = connectionDetails.auth;
+  return (
+    isSharedLink(url) ||
+    (!!auth && auth.type !== "none") ||
+    Object.keys(connectionDetails.headers || {}).length > 0
+  );
+}